@@ -3,7 +3,12 @@ import createNextIntlPlugin from 'next-intl/plugin';
 const withNextIntl = createNextIntlPlugin('./src/i18n/request.ts');
 
 const nextConfig = {
-  /* config options here */
+  experimental: {
+    serverActions: {
+      // Questionnaire imports upload Word documents, which can exceed the 1 MB default
+      bodySizeLimit: '5mb',
+    },
+  },
 };
 
 export default withNextIntl(nextConfig);
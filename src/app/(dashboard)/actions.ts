@@ -4,10 +4,15 @@ import { revalidatePath } from 'next/cache';
 import { redirect } from 'next/navigation';
 import { createClient } from '@/utils/supabase/server';
 import { formCreateSchema } from '@/lib/validations/form.validation';
-import type { FormWithStats } from '@/lib/types/form.types';
+import type { FormSection, FormWithStats } from '@/lib/types/form.types';
 import type { Question, LogicRule } from '@/lib/types/question.types';
 import type { AdvancedLogicRule } from '@/lib/types/advanced-logic.types';
 import { withErrorHandling, createSuccessResult } from '@/lib/utils/server-error-handler';
+import { checkFormPermission } from '@/lib/utils/server-form-permissions';
+import { checkActionRateLimit, getRateLimitMessage } from '@/lib/rate-limit/middleware';
+import { highestRole } from '@/lib/utils/form-permissions';
+import { FORM_COLUMNS } from '@/lib/utils/form-access';
+import type { FormRole } from '@/lib/types/workspace.types';
 
 export async function getForms(includeArchived = false): Promise<FormWithStats[]> {
   const supabase = await createClient();
@@ -28,12 +33,13 @@ export async function getForms(includeArchived = false): Promise<FormWithStats[]
     .from('forms')
     .select(
       `
-      *,
+      ${FORM_COLUMNS},
       questions:questions(count),
       responses:responses(count)
     `
     )
-    .eq('user_id', user.id);
+    .eq('user_id', user.id)
+    .is('questions.deleted_at', null);
 
   // Filter out archived forms unless explicitly requested
   if (!includeArchived) {
@@ -56,6 +62,77 @@ export async function getForms(includeArchived = false): Promise<FormWithStats[]
   }));
 }
 
+/**
+ * Forms other users have shared with the current user, directly or through a
+ * workspace, with the user's role on each
+ */
+export async function getSharedForms(): Promise<FormWithStats[]> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('Unauthorized');
+  }
+
+  const [{ data: grants }, { data: memberships }] = await Promise.all([
+    supabase.from('form_collaborators').select('form_id, role').eq('user_id', user.id),
+    supabase.from('workspace_members').select('workspace_id, role').eq('user_id', user.id),
+  ]);
+
+  const formRoles = new Map<string, FormRole>(
+    (grants || []).map((grant) => [grant.form_id as string, grant.role as FormRole])
+  );
+  const workspaceRoles = new Map<string, FormRole>(
+    (memberships || []).map((member) => [member.workspace_id as string, member.role as FormRole])
+  );
+
+  // Admins can see every form, so filter on the grants rather than relying on RLS
+  const filters: string[] = [];
+  if (formRoles.size > 0) {
+    filters.push(`id.in.(${[...formRoles.keys()].join(',')})`);
+  }
+  if (workspaceRoles.size > 0) {
+    filters.push(`workspace_id.in.(${[...workspaceRoles.keys()].join(',')})`);
+  }
+
+  if (filters.length === 0) {
+    return [];
+  }
+
+  const { data: forms, error } = await supabase
+    .from('forms')
+    .select(
+      `
+      ${FORM_COLUMNS},
+      questions:questions(count),
+      responses:responses(count)
+    `
+    )
+    .or(filters.join(','))
+    .neq('user_id', user.id)
+    .is('questions.deleted_at', null)
+    .or('is_archived.is.null,is_archived.eq.false')
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    console.error('[getSharedForms] Error fetching shared forms:', error);
+    throw new Error('Failed to fetch shared forms');
+  }
+
+  return (forms || []).map((form) => ({
+    ...form,
+    questionCount: form.questions?.[0]?.count || 0,
+    responseCount: form.responses?.[0]?.count || 0,
+    role:
+      highestRole(
+        formRoles.get(form.id) ?? null,
+        form.workspace_id ? workspaceRoles.get(form.workspace_id) ?? null : null
+      ) ?? 'viewer',
+  }));
+}
+
 export async function createForm(formData: FormData) {
   const supabase = await createClient();
   const {
@@ -66,6 +143,12 @@ export async function createForm(formData: FormData) {
     return { error: 'Unauthorized' };
   }
 
+  // 20 forms per day per user
+  const rateLimit = await checkActionRateLimit('formCreation', 'createForm', user.id);
+  if (!rateLimit.success) {
+    return { error: getRateLimitMessage(rateLimit) };
+  }
+
   const title = formData.get('title') as string;
   const description = formData.get('description') as string;
 
@@ -90,7 +173,7 @@ export async function createForm(formData: FormData) {
       schema_json: {}, // Legacy field, kept for backward compatibility
       is_published: false,
     })
-    .select()
+    .select(FORM_COLUMNS)
     .single();
 
   if (error) {
@@ -104,29 +187,17 @@ export async function createForm(formData: FormData) {
 
 export async function deleteForm(formId: string) {
   return withErrorHandling('deleteForm', async () => {
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
-      throw new Error('Unauthorized');
+    // Only owners can delete a form, not collaborators
+    const permission = await checkFormPermission(formId, 'manage');
+    if (!permission.allowed) {
+      throw new Error(
+        permission.reason === 'unauthenticated'
+          ? 'Unauthorized'
+          : 'You do not have permission to delete this form'
+      );
     }
 
-    // Verify ownership
-    const { data: form, error: fetchError } = await supabase
-      .from('forms')
-      .select('user_id')
-      .eq('id', formId)
-      .single();
-
-    if (fetchError) {
-      throw fetchError;
-    }
-
-    if (!form || form.user_id !== user.id) {
-      throw new Error('You do not have permission to delete this form');
-    }
+    const supabase = await createClient();
 
     // Delete form (cascades to questions)
     const { error } = await supabase.from('forms').delete().eq('id', formId);
@@ -150,12 +221,18 @@ export async function duplicateForm(formId: string) {
     return { error: 'Unauthorized' };
   }
 
+  // Anyone who can see a form can copy it into their own forms
+  const permission = await checkFormPermission(formId, 'view');
+  if (!permission.allowed) {
+    return { error: 'Form not found' };
+  }
+
   // Get original form with questions
   const { data: originalForm, error: fetchError } = await supabase
     .from('forms')
-    .select('*, questions(*)')
+    .select(`${FORM_COLUMNS}, questions(*), form_sections(*)`)
     .eq('id', formId)
-    .eq('user_id', user.id)
+    .is('questions.deleted_at', null)
     .single();
 
   if (fetchError || !originalForm) {
@@ -172,13 +249,40 @@ export async function duplicateForm(formId: string) {
       user_id: user.id,
       is_published: false,
     })
-    .select()
+    .select(FORM_COLUMNS)
     .single();
 
   if (createError || !newForm) {
     return { error: 'Failed to duplicate form' };
   }
 
+  // Duplicate sections first so questions can point at the new ones
+  const sectionIdMapping: Record<string, string> = {};
+  const originalSections = (originalForm.form_sections || []) as FormSection[];
+  if (originalSections.length > 0) {
+    const { data: newSections, error: sectionsError } = await supabase
+      .from('form_sections')
+      .insert(
+        originalSections.map((section) => ({
+          form_id: newForm.id,
+          title: section.title,
+          description: section.description,
+          order_index: section.order_index,
+        }))
+      )
+      .select();
+
+    if (sectionsError || !newSections) {
+      console.error('Error duplicating sections:', sectionsError);
+      await supabase.from('forms').delete().eq('id', newForm.id);
+      return { error: 'Failed to duplicate form sections' };
+    }
+
+    originalSections.forEach((section, index) => {
+      sectionIdMapping[section.id] = newSections[index].id;
+    });
+  }
+
   // Duplicate questions if any
   if (originalForm.questions && originalForm.questions.length > 0) {
     // First, create questions without logic rules to get new IDs
@@ -191,6 +295,7 @@ export async function duplicateForm(formId: string) {
       logic_rules: [], // Will update after getting new IDs
       required: q.required,
       order_index: q.order_index,
+      section_id: q.section_id ? sectionIdMapping[q.section_id] ?? null : null,
     }));
 
     const { data: newQuestions, error: questionsError } = await supabase
@@ -259,6 +364,15 @@ export async function duplicateForm(formId: string) {
         };
       }
 
+      // Handle jump_to_section action (AdvancedLogicRule only)
+      if ('jumpToSection' in rule && rule.jumpToSection) {
+        (updatedRule as AdvancedLogicRule).jumpToSection = {
+          ...rule.jumpToSection,
+          targetSectionId:
+            sectionIdMapping[rule.jumpToSection.targetSectionId] || rule.jumpToSection.targetSectionId,
+        };
+      }
+
       return updatedRule;
     };
 
@@ -293,29 +407,17 @@ export async function duplicateForm(formId: string) {
 
 export async function archiveForm(formId: string) {
   return withErrorHandling('archiveForm', async () => {
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
-      throw new Error('Unauthorized');
+    // Only owners can archive a form, not collaborators
+    const permission = await checkFormPermission(formId, 'manage');
+    if (!permission.allowed) {
+      throw new Error(
+        permission.reason === 'unauthenticated'
+          ? 'Unauthorized'
+          : 'You do not have permission to archive this form'
+      );
     }
 
-    // Verify ownership
-    const { data: form, error: fetchError } = await supabase
-      .from('forms')
-      .select('user_id, is_archived')
-      .eq('id', formId)
-      .single();
-
-    if (fetchError) {
-      throw fetchError;
-    }
-
-    if (!form || form.user_id !== user.id) {
-      throw new Error('You do not have permission to archive this form');
-    }
+    const supabase = await createClient();
 
     // Archive form (soft delete)
     const { error } = await supabase
@@ -337,29 +439,17 @@ export async function archiveForm(formId: string) {
 
 export async function unarchiveForm(formId: string) {
   return withErrorHandling('unarchiveForm', async () => {
-    const supabase = await createClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
-      throw new Error('Unauthorized');
+    // Only owners can unarchive a form, not collaborators
+    const permission = await checkFormPermission(formId, 'manage');
+    if (!permission.allowed) {
+      throw new Error(
+        permission.reason === 'unauthenticated'
+          ? 'Unauthorized'
+          : 'You do not have permission to unarchive this form'
+      );
     }
 
-    // Verify ownership
-    const { data: form, error: fetchError } = await supabase
-      .from('forms')
-      .select('user_id')
-      .eq('id', formId)
-      .single();
-
-    if (fetchError) {
-      throw fetchError;
-    }
-
-    if (!form || form.user_id !== user.id) {
-      throw new Error('You do not have permission to unarchive this form');
-    }
+    const supabase = await createClient();
 
     // Unarchive form
     const { error } = await supabase
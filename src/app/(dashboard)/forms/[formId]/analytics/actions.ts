@@ -1,5 +1,6 @@
 'use server';
 
+import { revalidatePath } from 'next/cache';
 import { createClient } from '@/utils/supabase/server';
 import {
   getCachedFormStats,
@@ -8,9 +9,20 @@ import {
   cacheQuestionStats,
   getCachedDailyTrends,
   cacheDailyTrends,
+  getCachedAbandonmentStats,
+  cacheAbandonmentStats,
   getCachedAnswerFrequency,
   cacheAnswerFrequency,
+  getCachedQualityMetrics,
+  cacheQualityMetrics,
 } from '@/lib/cache/analytics-cache';
+import { checkFormPermission, checkQuestionPermission } from '@/lib/utils/server-form-permissions';
+import { fetchPaginatedResponses, type PaginatedResponsesOptions } from '@/lib/utils/response-query';
+import { versionMappingSchema, type VersionMappingInput } from '@/lib/validations/version-mapping.validation';
+import { scaleSchema, type ScaleInput } from '@/lib/validations/scale.validation';
+import { factorScoreSchema, type FactorScoreInput } from '@/lib/validations/factor-score.validation';
+import type { FormFactorScore, FormScale, FormVersionMapping } from '@/lib/types/form.types';
+import type { AnswerCount, DailyResponseSummary } from '@/lib/types/response.types';
 
 /**
  * Get form response statistics using database view
@@ -20,9 +32,12 @@ export async function getFormResponseStats(formId: string) {
   const supabase = await createClient();
 
   // Check authorization
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) {
-    return { error: 'Unauthorized', data: null };
+  const permission = await checkFormPermission(formId, 'view');
+  if (!permission.allowed) {
+    return {
+      error: permission.reason === 'unauthenticated' ? 'Unauthorized' : 'Form not found or unauthorized',
+      data: null,
+    };
   }
 
   try {
@@ -37,7 +52,6 @@ export async function getFormResponseStats(formId: string) {
       .from('form_response_stats')
       .select('*')
       .eq('form_id', formId)
-      .eq('user_id', user.id)
       .single();
 
     if (error) {
@@ -64,20 +78,12 @@ export async function getQuestionStats(formId: string) {
   const supabase = await createClient();
 
   // Check authorization
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) {
-    return { error: 'Unauthorized', data: null };
-  }
-
-  // Verify user owns the form
-  const { data: form, error: formError } = await supabase
-    .from('forms')
-    .select('user_id')
-    .eq('id', formId)
-    .single();
-
-  if (formError || !form || form.user_id !== user.id) {
-    return { error: 'Form not found or unauthorized', data: null };
+  const permission = await checkFormPermission(formId, 'view');
+  if (!permission.allowed) {
+    return {
+      error: permission.reason === 'unauthenticated' ? 'Unauthorized' : 'Form not found or unauthorized',
+      data: null,
+    };
   }
 
   try {
@@ -117,20 +123,12 @@ export async function getDailyResponseTrends(formId: string, days: number = 30)
   const supabase = await createClient();
 
   // Check authorization
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) {
-    return { error: 'Unauthorized', data: null };
-  }
-
-  // Verify user owns the form
-  const { data: form, error: formError } = await supabase
-    .from('forms')
-    .select('user_id')
-    .eq('id', formId)
-    .single();
-
-  if (formError || !form || form.user_id !== user.id) {
-    return { error: 'Form not found or unauthorized', data: null };
+  const permission = await checkFormPermission(formId, 'view');
+  if (!permission.allowed) {
+    return {
+      error: permission.reason === 'unauthenticated' ? 'Unauthorized' : 'Form not found or unauthorized',
+      data: null,
+    };
   }
 
   try {
@@ -174,23 +172,21 @@ export async function getQuestionAbandonmentStats(formId: string) {
   const supabase = await createClient();
 
   // Check authorization
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) {
-    return { error: 'Unauthorized', data: null };
-  }
-
-  // Verify user owns the form
-  const { data: form, error: formError } = await supabase
-    .from('forms')
-    .select('user_id')
-    .eq('id', formId)
-    .single();
-
-  if (formError || !form || form.user_id !== user.id) {
-    return { error: 'Form not found or unauthorized', data: null };
+  const permission = await checkFormPermission(formId, 'view');
+  if (!permission.allowed) {
+    return {
+      error: permission.reason === 'unauthenticated' ? 'Unauthorized' : 'Form not found or unauthorized',
+      data: null,
+    };
   }
 
   try {
+    // Try cache first
+    const cached = await getCachedAbandonmentStats(formId);
+    if (cached) {
+      return { data: cached, error: null };
+    }
+
     const { data: stats, error } = await supabase
       .from('question_abandonment_stats')
       .select('*')
@@ -202,6 +198,11 @@ export async function getQuestionAbandonmentStats(formId: string) {
       return { error: 'Failed to fetch abandonment statistics', data: null };
     }
 
+    // Cache the result
+    if (stats) {
+      await cacheAbandonmentStats(formId, stats);
+    }
+
     return { data: stats, error: null };
   } catch (error) {
     console.error('Unexpected error fetching abandonment stats:', error);
@@ -215,32 +216,23 @@ export async function getQuestionAbandonmentStats(formId: string) {
 export async function getAnswerFrequencyStats(questionId: string) {
   const supabase = await createClient();
 
-  // Check authorization
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) {
-    return { error: 'Unauthorized', data: null };
-  }
-
   try {
+    // Check authorization through the question's form (also needed for the cache key)
+    const permission = await checkQuestionPermission(questionId, 'view');
+    if (!permission.allowed) {
+      return {
+        error: permission.reason === 'unauthenticated' ? 'Unauthorized' : 'Question not found or unauthorized',
+        data: null,
+      };
+    }
+    const formId = permission.formId;
+
     // Try cache first
-    const cached = await getCachedAnswerFrequency(questionId);
+    const cached = await getCachedAnswerFrequency(formId, questionId);
     if (cached) {
       return { data: cached, error: null };
     }
 
-    // Get question to verify ownership
-    const { data: question, error: questionError } = await supabase
-      .from('questions')
-      .select('form_id, forms!inner(user_id)')
-      .eq('id', questionId)
-      .single();
-
-    type QuestionWithForm = { form_id: string; forms: { user_id: string } };
-
-    if (questionError || !question || (question as unknown as QuestionWithForm).forms.user_id !== user.id) {
-      return { error: 'Question not found or unauthorized', data: null };
-    }
-
     const { data: stats, error } = await supabase
       .from('answer_frequency_stats')
       .select('*')
@@ -254,7 +246,7 @@ export async function getAnswerFrequencyStats(questionId: string) {
 
     // Cache the result
     if (stats) {
-      await cacheAnswerFrequency(questionId, stats);
+      await cacheAnswerFrequency(formId, questionId, stats);
     }
 
     return { data: stats, error: null };
@@ -271,23 +263,21 @@ export async function getResponseQualityMetrics(formId: string) {
   const supabase = await createClient();
 
   // Check authorization
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) {
-    return { error: 'Unauthorized', data: null };
-  }
-
-  // Verify user owns the form
-  const { data: form, error: formError } = await supabase
-    .from('forms')
-    .select('user_id')
-    .eq('id', formId)
-    .single();
-
-  if (formError || !form || form.user_id !== user.id) {
-    return { error: 'Form not found or unauthorized', data: null };
+  const permission = await checkFormPermission(formId, 'view');
+  if (!permission.allowed) {
+    return {
+      error: permission.reason === 'unauthenticated' ? 'Unauthorized' : 'Form not found or unauthorized',
+      data: null,
+    };
   }
 
   try {
+    // Try cache first
+    const cached = await getCachedQualityMetrics(formId);
+    if (cached) {
+      return { data: cached, error: null };
+    }
+
     const { data: metrics, error } = await supabase
       .from('response_quality_metrics')
       .select('*')
@@ -299,6 +289,11 @@ export async function getResponseQualityMetrics(formId: string) {
       return { error: 'Failed to fetch quality metrics', data: null };
     }
 
+    // Cache the result
+    if (metrics) {
+      await cacheQualityMetrics(formId, metrics);
+    }
+
     return { data: metrics, error: null };
   } catch (error) {
     console.error('Unexpected error fetching quality metrics:', error);
@@ -311,77 +306,351 @@ export async function getResponseQualityMetrics(formId: string) {
  */
 export async function getPaginatedResponses(
   formId: string,
-  options: {
-    limit?: number;
-    cursor?: string; // Response ID to start after
-    sortBy?: 'created_at' | 'submitted_at';
-    sortOrder?: 'asc' | 'desc';
-  } = {}
+  options: PaginatedResponsesOptions = {}
 ) {
   const supabase = await createClient();
 
   // Check authorization
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) {
-    return { error: 'Unauthorized', data: null, nextCursor: null };
+  const permission = await checkFormPermission(formId, 'view_responses');
+  if (!permission.allowed) {
+    return {
+      error: permission.reason === 'unauthenticated' ? 'Unauthorized' : 'Form not found or unauthorized',
+      data: null,
+      nextCursor: null,
+    };
+  }
+
+  try {
+    const page = await fetchPaginatedResponses(supabase, formId, options);
+    return { ...page, error: null };
+  } catch (error) {
+    console.error('Unexpected error fetching paginated responses:', error);
+    return { error: 'An unexpected error occurred', data: null, nextCursor: null };
+  }
+}
+
+/**
+ * Get answer counts and daily response totals for a form
+ * For viewers, who may not read individual responses; the database functions
+ * aggregate past the responses and answers policies.
+ */
+export async function getAggregateAnalytics(formId: string) {
+  const permission = await checkFormPermission(formId, 'view');
+  if (!permission.allowed) {
+    return {
+      error: permission.reason === 'unauthenticated' ? 'Unauthorized' : 'Form not found or unauthorized',
+      data: null,
+    };
+  }
+
+  const supabase = await createClient();
+
+  const [countsResult, summaryResult] = await Promise.all([
+    supabase.rpc('get_form_answer_counts', { form_uuid: formId }),
+    supabase.rpc('get_form_response_summary', { form_uuid: formId }),
+  ]);
+
+  if (countsResult.error || summaryResult.error) {
+    console.error('Error fetching aggregate analytics:', countsResult.error ?? summaryResult.error);
+    return { error: 'Failed to fetch analytics', data: null };
+  }
+
+  return {
+    data: {
+      answerCounts: (countsResult.data || []) as AnswerCount[],
+      dailySummary: (summaryResult.data || []) as DailyResponseSummary[],
+    },
+    error: null,
+  };
+}
+
+/**
+ * Get the answer mappings declared for a form's versions
+ */
+export async function getVersionMappings(formId: string) {
+  const permission = await checkFormPermission(formId, 'view');
+  if (!permission.allowed) {
+    return { error: 'Unauthorized', data: null };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('form_version_mappings')
+    .select('*')
+    .eq('form_id', formId);
+
+  if (error) {
+    console.error('Error fetching version mappings:', error);
+    return { error: 'Failed to fetch version mappings', data: null };
+  }
+
+  return { data: (data || []) as FormVersionMapping[], error: null };
+}
+
+/**
+ * Declare how a version's question and choice ids map to the current questions
+ */
+export async function saveVersionMapping(formId: string, versionId: string, input: VersionMappingInput) {
+  const permission = await checkFormPermission(formId, 'view_responses');
+  if (!permission.allowed) {
+    return { error: 'Unauthorized' };
   }
 
-  // Verify user owns the form
-  const { data: form, error: formError } = await supabase
-    .from('forms')
-    .select('user_id')
-    .eq('id', formId)
+  const validation = versionMappingSchema.safeParse(input);
+  if (!validation.success) {
+    return { error: validation.error.issues[0].message };
+  }
+
+  const supabase = await createClient();
+
+  const { data: version } = await supabase
+    .from('form_versions')
+    .select('id')
+    .eq('id', versionId)
+    .eq('form_id', formId)
     .single();
 
-  if (formError || !form || form.user_id !== user.id) {
-    return { error: 'Form not found or unauthorized', data: null, nextCursor: null };
+  if (!version) {
+    return { error: 'Version not found' };
   }
 
-  try {
-    const limit = options.limit || 20;
-    const sortBy = options.sortBy || 'created_at';
-    const sortOrder = options.sortOrder || 'desc';
-
-    let query = supabase
-      .from('responses')
-      .select(`
-        id,
-        respondent_email,
-        is_complete,
-        submitted_at,
-        created_at,
-        is_flagged
-      `)
+  // Answers can only be mapped onto questions the form still has
+  const targetIds = Array.from(
+    new Set(Object.values(validation.data.question_map).filter((id): id is string => id !== null))
+  );
+  if (targetIds.length > 0) {
+    const { data: targets } = await supabase
+      .from('questions')
+      .select('id')
       .eq('form_id', formId)
-      .order(sortBy, { ascending: sortOrder === 'asc' })
-      .limit(limit + 1); // Fetch one extra to determine if there are more
-
-    // Apply cursor if provided
-    if (options.cursor) {
-      if (sortOrder === 'desc') {
-        query = query.lt('id', options.cursor);
-      } else {
-        query = query.gt('id', options.cursor);
-      }
+      .is('deleted_at', null)
+      .in('id', targetIds);
+
+    if ((targets?.length ?? 0) !== targetIds.length) {
+      return { error: 'Mapping targets a question that no longer exists' };
     }
+  }
 
-    const { data: responses, error } = await query;
+  const { data, error } = await supabase
+    .from('form_version_mappings')
+    .upsert(
+      {
+        form_id: formId,
+        version_id: versionId,
+        question_map: validation.data.question_map,
+        choice_map: validation.data.choice_map,
+        updated_by: permission.userId,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'version_id' }
+    )
+    .select()
+    .single();
 
-    if (error) {
-      console.error('Error fetching paginated responses:', error);
-      return { error: 'Failed to fetch responses', data: null, nextCursor: null };
+  if (error) {
+    console.error('Error saving version mapping:', error);
+    return { error: 'Failed to save mapping' };
+  }
+
+  revalidatePath(`/forms/${formId}/analytics`);
+  return { data: data as FormVersionMapping };
+}
+
+/**
+ * Get the scales (composite indices) defined for a form
+ */
+export async function getScales(formId: string) {
+  const permission = await checkFormPermission(formId, 'view');
+  if (!permission.allowed) {
+    return { error: 'Unauthorized', data: null };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('form_scales')
+    .select('*')
+    .eq('form_id', formId)
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching scales:', error);
+    return { error: 'Failed to fetch scales', data: null };
+  }
+
+  return { data: (data || []) as FormScale[], error: null };
+}
+
+/**
+ * Create a scale, or update it when a scale id is given
+ */
+export async function saveScale(formId: string, scaleId: string | null, input: ScaleInput) {
+  const permission = await checkFormPermission(formId, 'view_responses');
+  if (!permission.allowed) {
+    return { error: 'Unauthorized' };
+  }
+
+  const validation = scaleSchema.safeParse(input);
+  if (!validation.success) {
+    return { error: validation.error.issues[0].message };
+  }
+
+  const supabase = await createClient();
+  const values = {
+    name: validation.data.name,
+    items: validation.data.items,
+    scoring: validation.data.scoring,
+    updated_by: permission.userId,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { data, error } = scaleId
+    ? await supabase
+        .from('form_scales')
+        .update(values)
+        .eq('id', scaleId)
+        .eq('form_id', formId)
+        .select()
+        .single()
+    : await supabase
+        .from('form_scales')
+        .insert({ ...values, form_id: formId })
+        .select()
+        .single();
+
+  if (error) {
+    // Unique violation on (form_id, name)
+    if (error.code === '23505') {
+      return { error: 'Another scale already has this name' };
     }
+    console.error('Error saving scale:', error);
+    return { error: 'Failed to save scale' };
+  }
 
-    // Check if there are more results
-    const hasMore = responses && responses.length > limit;
-    const nextCursor = hasMore && responses ? responses[limit - 1].id : null;
+  revalidatePath(`/forms/${formId}/analytics`);
+  revalidatePath(`/forms/${formId}/responses`);
+  return { data: data as FormScale };
+}
 
-    // Return only the requested number of items
-    const data = responses ? responses.slice(0, limit) : [];
+/**
+ * Delete a scale
+ */
+export async function deleteScale(formId: string, scaleId: string) {
+  const permission = await checkFormPermission(formId, 'view_responses');
+  if (!permission.allowed) {
+    return { error: 'Unauthorized' };
+  }
 
-    return { data, error: null, nextCursor, hasMore };
-  } catch (error) {
-    console.error('Unexpected error fetching paginated responses:', error);
-    return { error: 'An unexpected error occurred', data: null, nextCursor: null };
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('form_scales')
+    .delete()
+    .eq('id', scaleId)
+    .eq('form_id', formId);
+
+  if (error) {
+    console.error('Error deleting scale:', error);
+    return { error: 'Failed to delete scale' };
   }
+
+  revalidatePath(`/forms/${formId}/analytics`);
+  revalidatePath(`/forms/${formId}/responses`);
+  return { success: true };
+}
+
+/**
+ * Get the factor scores saved for a form
+ */
+export async function getFactorScores(formId: string) {
+  const permission = await checkFormPermission(formId, 'view');
+  if (!permission.allowed) {
+    return { error: 'Unauthorized', data: null };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('form_factor_scores')
+    .select('*')
+    .eq('form_id', formId)
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching factor scores:', error);
+    return { error: 'Failed to fetch factor scores', data: null };
+  }
+
+  return { data: (data || []) as FormFactorScore[], error: null };
+}
+
+/**
+ * Save a factor's scoring weights so respondents get a score on it
+ */
+export async function saveFactorScore(formId: string, input: FactorScoreInput) {
+  const permission = await checkFormPermission(formId, 'view_responses');
+  if (!permission.allowed) {
+    return { error: 'Unauthorized' };
+  }
+
+  const validation = factorScoreSchema.safeParse(input);
+  if (!validation.success) {
+    return { error: validation.error.issues[0].message };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('form_factor_scores')
+    .insert({
+      form_id: formId,
+      name: validation.data.name,
+      method: validation.data.method,
+      rotation: validation.data.rotation,
+      items: validation.data.items,
+      updated_by: permission.userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Unique violation on (form_id, name)
+    if (error.code === '23505') {
+      return { error: 'Another factor score already has this name' };
+    }
+    console.error('Error saving factor score:', error);
+    return { error: 'Failed to save factor score' };
+  }
+
+  revalidatePath(`/forms/${formId}/analytics`);
+  revalidatePath(`/forms/${formId}/responses`);
+  return { data: data as FormFactorScore };
+}
+
+/**
+ * Delete saved factor scores
+ */
+export async function deleteFactorScore(formId: string, factorScoreId: string) {
+  const permission = await checkFormPermission(formId, 'view_responses');
+  if (!permission.allowed) {
+    return { error: 'Unauthorized' };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('form_factor_scores')
+    .delete()
+    .eq('id', factorScoreId)
+    .eq('form_id', formId);
+
+  if (error) {
+    console.error('Error deleting factor score:', error);
+    return { error: 'Failed to delete factor score' };
+  }
+
+  revalidatePath(`/forms/${formId}/analytics`);
+  revalidatePath(`/forms/${formId}/responses`);
+  return { success: true };
 }
@@ -1,7 +1,12 @@
 import { redirect } from 'next/navigation';
 import { createClient } from '@/utils/supabase/server';
+import { checkFormPermission } from '@/lib/utils/server-form-permissions';
+import { roleHasPermission } from '@/lib/utils/form-permissions';
 import { AnalyticsDashboard } from '@/components/analytics/AnalyticsDashboard';
+import { AggregateAnalytics } from '@/components/analytics/AggregateAnalytics';
 import { getAnswersByQuestion, getResponseStats, getFormResponses } from '../responses/actions';
+import { getAggregateAnalytics, getFactorScores, getScales, getVersionMappings } from './actions';
+import type { FormVersion } from '@/lib/types/form.types';
 
 interface PageProps {
   params: Promise<{ formId: string }>;
@@ -10,24 +15,28 @@ interface PageProps {
 export default async function AnalyticsPage({ params }: PageProps) {
   const { formId } = await params;
 
-  const supabase = await createClient();
-  const { data: { user } } = await supabase.auth.getUser();
-
-  if (!user) {
-    redirect('/login');
+  const permission = await checkFormPermission(formId, 'view');
+  if (!permission.allowed) {
+    redirect(permission.reason === 'unauthenticated' ? '/login' : '/dashboard');
   }
 
-  // Get form with questions
+  const supabase = await createClient();
+
+  // Get form with its current questions; soft-deleted ones stay only in the versions that asked them
   const { data: form } = await supabase
     .from('forms')
     .select(`
-      *,
+      id,
+      title,
+      description,
+      published_version_id,
       questions (*)
     `)
     .eq('id', formId)
+    .is('questions.deleted_at', null)
     .single();
 
-  if (!form || form.user_id !== user.id) {
+  if (!form) {
     redirect('/dashboard');
   }
 
@@ -41,11 +50,44 @@ export default async function AnalyticsPage({ params }: PageProps) {
     questions: sortedQuestions,
   };
 
+  // Viewers only get totals; individual responses need view_responses
+  if (!roleHasPermission(permission.role, 'view_responses')) {
+    const aggregateResult = await getAggregateAnalytics(formId);
+
+    if (aggregateResult.error || !aggregateResult.data) {
+      return (
+        <div className="container mx-auto px-4 py-8">
+          <p className="text-red-600">Failed to load analytics</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-slate-100 to-slate-200">
+        <AggregateAnalytics
+          form={formWithQuestions}
+          answerCounts={aggregateResult.data.answerCounts}
+          dailySummary={aggregateResult.data.dailySummary}
+        />
+      </div>
+    );
+  }
+
   // Get answers by question, stats, and full responses
   const answersResult = await getAnswersByQuestion(formId);
   const statsResult = await getResponseStats(formId);
   const responsesResult = await getFormResponses(formId);
 
+  // Versions responses were answered against, and how they map onto the current questions
+  const { data: versions } = await supabase
+    .from('form_versions')
+    .select('*')
+    .eq('form_id', formId)
+    .order('version_number', { ascending: false });
+  const mappingsResult = await getVersionMappings(formId);
+  const scalesResult = await getScales(formId);
+  const factorScoresResult = await getFactorScores(formId);
+
   if (answersResult.error || statsResult.error || !statsResult.data) {
     return (
       <div className="container mx-auto px-4 py-8">
@@ -61,6 +103,10 @@ export default async function AnalyticsPage({ params }: PageProps) {
         answersByQuestion={answersResult.data || {}}
         stats={statsResult.data}
         responses={responsesResult.data || []}
+        versions={(versions || []) as FormVersion[]}
+        versionMappings={mappingsResult.data || []}
+        scales={scalesResult.data || []}
+        factorScores={factorScoresResult.data || []}
       />
     </div>
   );
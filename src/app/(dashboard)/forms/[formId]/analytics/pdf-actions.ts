@@ -1,6 +1,7 @@
 'use server';
 
 import { createClient } from '@/utils/supabase/server';
+import { checkFormPermission } from '@/lib/utils/server-form-permissions';
 import { renderToBuffer } from '@react-pdf/renderer';
 import { AnalyticsPDF } from '@/lib/pdf/analytics-pdf';
 
@@ -21,20 +22,23 @@ export async function generateAnalyticsPDF(formId: string) {
   const supabase = await createClient();
 
   // Check authorization
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) {
-    return { error: 'Unauthorized', data: null };
+  const permission = await checkFormPermission(formId, 'view');
+  if (!permission.allowed) {
+    return {
+      error: permission.reason === 'unauthenticated' ? 'Unauthorized' : 'Form not found or unauthorized',
+      data: null,
+    };
   }
 
   try {
     // Get form details
     const { data: form, error: formError } = await supabase
       .from('forms')
-      .select('title, description, user_id')
+      .select('title, description')
       .eq('id', formId)
       .single();
 
-    if (formError || !form || form.user_id !== user.id) {
+    if (formError || !form) {
       return { error: 'Form not found or unauthorized', data: null };
     }
 
@@ -42,7 +46,7 @@ export async function generateAnalyticsPDF(formId: string) {
     const { data: profile } = await supabase
       .from('profiles')
       .select('email, full_name')
-      .eq('id', user.id)
+      .eq('id', permission.userId)
       .single();
 
     // Get form statistics from database view
@@ -90,7 +94,7 @@ export async function generateAnalyticsPDF(formId: string) {
         companyName: 'StatQ',
       },
       generatedAt: new Date(),
-      generatedBy: profile?.email || user.email || 'Unknown',
+      generatedBy: profile?.email || 'Unknown',
     });
 
     // Render to buffer
@@ -125,20 +129,23 @@ export async function generateAnalyticsPDFWithCharts(
   const supabase = await createClient();
 
   // Check authorization
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) {
-    return { error: 'Unauthorized', data: null };
+  const permission = await checkFormPermission(formId, 'view');
+  if (!permission.allowed) {
+    return {
+      error: permission.reason === 'unauthenticated' ? 'Unauthorized' : 'Form not found or unauthorized',
+      data: null,
+    };
   }
 
   try {
     // Get form details
     const { data: form, error: formError } = await supabase
       .from('forms')
-      .select('title, description, user_id')
+      .select('title, description')
       .eq('id', formId)
       .single();
 
-    if (formError || !form || form.user_id !== user.id) {
+    if (formError || !form) {
       return { error: 'Form not found or unauthorized', data: null };
     }
 
@@ -146,7 +153,7 @@ export async function generateAnalyticsPDFWithCharts(
     const { data: profile } = await supabase
       .from('profiles')
       .select('email, full_name')
-      .eq('id', user.id)
+      .eq('id', permission.userId)
       .single();
 
     // Get statistics
@@ -192,7 +199,7 @@ export async function generateAnalyticsPDFWithCharts(
         companyName: 'StatQ',
       },
       generatedAt: new Date(),
-      generatedBy: profile?.email || user.email || 'Unknown',
+      generatedBy: profile?.email || 'Unknown',
     });
 
     const buffer = await renderToBuffer(pdfDocument);
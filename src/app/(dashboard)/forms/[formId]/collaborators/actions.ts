@@ -0,0 +1,239 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/utils/supabase/server';
+import { checkFormPermission } from '@/lib/utils/server-form-permissions';
+import { collaboratorInviteSchema } from '@/lib/validations/workspace.validation';
+import type { CollaboratorRole, FormCollaborator, FormRole } from '@/lib/types/workspace.types';
+
+interface CollaboratorRow {
+  form_id: string;
+  user_id: string;
+  role: CollaboratorRole;
+  created_at: string;
+  profile: { email: string | null } | null;
+}
+
+function revalidateFormPaths(formId: string) {
+  revalidatePath('/dashboard');
+  revalidatePath(`/forms/${formId}/edit`);
+}
+
+/**
+ * Get who a form is shared with, plus the current user's own role
+ */
+export async function getFormCollaborators(formId: string) {
+  const permission = await checkFormPermission(formId, 'view');
+  if (!permission.allowed) {
+    return { error: 'Unauthorized', data: null };
+  }
+
+  const supabase = await createClient();
+
+  const { data: form } = await supabase
+    .from('forms')
+    .select('user_id, workspace_id')
+    .eq('id', formId)
+    .single();
+
+  if (!form) {
+    return { error: 'Form not found', data: null };
+  }
+
+  const { data: rows, error } = await supabase
+    .from('form_collaborators')
+    .select('form_id, user_id, role, created_at, profile:profiles!form_collaborators_user_id_fkey(email)')
+    .eq('form_id', formId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching collaborators:', error);
+    return { error: 'Failed to fetch collaborators', data: null };
+  }
+
+  const { data: owner } = await supabase
+    .from('profiles')
+    .select('email')
+    .eq('id', form.user_id)
+    .single();
+
+  const collaborators: FormCollaborator[] = ((rows || []) as unknown as CollaboratorRow[]).map((row) => ({
+    form_id: row.form_id,
+    user_id: row.user_id,
+    email: row.profile?.email ?? null,
+    role: row.role,
+    created_at: row.created_at,
+  }));
+
+  return {
+    data: {
+      collaborators,
+      ownerId: form.user_id as string,
+      ownerEmail: (owner?.email as string | undefined) ?? null,
+      workspaceId: (form.workspace_id as string | null) ?? null,
+      currentUserId: permission.userId,
+      currentRole: permission.role as FormRole,
+    },
+    error: null,
+  };
+}
+
+/**
+ * Share a form with an existing user by email
+ * Sharing again with the same user changes their role.
+ */
+export async function addFormCollaborator(formId: string, email: string, role: CollaboratorRole) {
+  const permission = await checkFormPermission(formId, 'manage');
+  if (!permission.allowed) {
+    return { error: 'Only the form owner can share this form' };
+  }
+
+  const validation = collaboratorInviteSchema.safeParse({ email, role });
+  if (!validation.success) {
+    return { error: validation.error.issues[0].message };
+  }
+
+  const supabase = await createClient();
+
+  const { data: profileId, error: lookupError } = await supabase.rpc('find_profile_id_by_email', {
+    email_address: validation.data.email,
+  });
+
+  if (lookupError) {
+    console.error('Error looking up collaborator:', lookupError);
+    return { error: 'Failed to look up user' };
+  }
+
+  if (!profileId) {
+    return { error: 'No account found with that email. Ask them to sign up first.' };
+  }
+
+  const { data: form } = await supabase
+    .from('forms')
+    .select('user_id')
+    .eq('id', formId)
+    .single();
+
+  if (form?.user_id === profileId) {
+    return { error: 'That user already owns this form' };
+  }
+
+  const { error } = await supabase.from('form_collaborators').upsert(
+    {
+      form_id: formId,
+      user_id: profileId,
+      role: validation.data.role,
+      added_by: permission.userId,
+    },
+    { onConflict: 'form_id,user_id' }
+  );
+
+  if (error) {
+    console.error('Error adding collaborator:', error);
+    return { error: 'Failed to share form' };
+  }
+
+  revalidateFormPaths(formId);
+  return { success: true };
+}
+
+/**
+ * Change a collaborator's role
+ */
+export async function updateFormCollaboratorRole(formId: string, userId: string, role: CollaboratorRole) {
+  const permission = await checkFormPermission(formId, 'manage');
+  if (!permission.allowed) {
+    return { error: 'Only the form owner can change roles' };
+  }
+
+  const validation = collaboratorInviteSchema.shape.role.safeParse(role);
+  if (!validation.success) {
+    return { error: 'Invalid role' };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('form_collaborators')
+    .update({ role: validation.data })
+    .eq('form_id', formId)
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error updating collaborator role:', error);
+    return { error: 'Failed to update role' };
+  }
+
+  revalidateFormPaths(formId);
+  return { success: true };
+}
+
+/**
+ * Remove a collaborator (owners), or leave a form shared with you
+ */
+export async function removeFormCollaborator(formId: string, userId: string) {
+  const permission = await checkFormPermission(formId, 'view');
+  if (!permission.allowed) {
+    return { error: 'Unauthorized' };
+  }
+
+  if (permission.userId !== userId && permission.role !== 'owner') {
+    return { error: 'Only the form owner can remove collaborators' };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('form_collaborators')
+    .delete()
+    .eq('form_id', formId)
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error removing collaborator:', error);
+    return { error: 'Failed to remove collaborator' };
+  }
+
+  revalidateFormPaths(formId);
+  return { success: true };
+}
+
+/**
+ * Move a form into a workspace, or out of one (workspaceId = null)
+ * The owner must be able to edit in the target workspace.
+ */
+export async function setFormWorkspace(formId: string, workspaceId: string | null) {
+  const permission = await checkFormPermission(formId, 'manage');
+  if (!permission.allowed) {
+    return { error: 'Only the form owner can move this form' };
+  }
+
+  const supabase = await createClient();
+
+  if (workspaceId) {
+    const { data: workspaceRole } = await supabase.rpc('get_workspace_role', {
+      workspace_uuid: workspaceId,
+      user_uuid: permission.userId,
+    });
+
+    if (workspaceRole !== 'owner' && workspaceRole !== 'editor') {
+      return { error: 'You need to be an owner or editor of that workspace' };
+    }
+  }
+
+  const { error } = await supabase
+    .from('forms')
+    .update({ workspace_id: workspaceId })
+    .eq('id', formId);
+
+  if (error) {
+    console.error('Error moving form to workspace:', error);
+    return { error: 'Failed to move form' };
+  }
+
+  revalidateFormPaths(formId);
+  if (workspaceId) {
+    revalidatePath(`/workspaces/${workspaceId}`);
+  }
+  return { success: true };
+}
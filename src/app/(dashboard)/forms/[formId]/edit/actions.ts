@@ -1,15 +1,38 @@
 'use server';
 
 import { revalidatePath } from 'next/cache';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { createClient } from '@/utils/supabase/server';
-import { questionCreateSchema, questionUpdateSchema } from '@/lib/validations/question.validation';
-import type { Question, QuestionCreate, QuestionUpdate } from '@/lib/types/question.types';
-import type { FormUpdate } from '@/lib/types/form.types';
+import {
+  bulkQuestionIdsSchema,
+  bulkQuestionUpdateSchema,
+  questionCreateSchema,
+  questionUpdateSchema,
+} from '@/lib/validations/question.validation';
+import type { Question, QuestionBulkUpdate, QuestionCreate, QuestionUpdate } from '@/lib/types/question.types';
+import { formAccessSettingsSchema, sectionUpdateSchema } from '@/lib/validations/form.validation';
+import type {
+  FormUpdate,
+  FormAccessSettingsUpdate,
+  FormSection,
+  FormSectionUpdate,
+  FormVersion,
+} from '@/lib/types/form.types';
+import { FORM_COLUMNS, hashFormPassword } from '@/lib/utils/form-access';
 import { detectCircularLogic } from '@/lib/utils/logic-evaluator';
-import { MAX_QUESTIONS_PER_FORM } from '@/lib/constants/question-limits';
+import { validateCalculationFormulas } from '@/lib/utils/advanced-logic-evaluator';
+import type { AdvancedLogicRule } from '@/lib/types/advanced-logic.types';
+import { MAX_QUESTIONNAIRE_FILE_SIZE_MB, MAX_QUESTIONS_PER_FORM } from '@/lib/constants/question-limits';
 import { logger } from '@/lib/utils/logger';
+import { checkFormPermission } from '@/lib/utils/server-form-permissions';
+import { invalidateFormCaches } from '@/lib/cache/analytics-cache';
 import { createError, errorResult, successResult, fromSupabaseError, normalizeError } from '@/lib/utils/error-handler';
 import type { ActionResult } from '@/lib/types/error.types';
+import { getFormVersionById } from '@/lib/utils/server-form-versions';
+import { readDocxBlocks } from '@/lib/utils/server-docx';
+import { detectQuestionnaire } from '@/lib/utils/docx-import';
+import { getCompatibleTypes, removeDeletedQuestionReferences, type LogicRulesUpdate } from '@/lib/utils/bulk-operations';
+import { createFormVersion } from '../versions/actions';
 
 // Check if form has any responses
 export async function checkFormHasResponses(formId: string): Promise<{ hasResponses: boolean; count: number }> {
@@ -28,48 +51,46 @@ export async function checkFormHasResponses(formId: string): Promise<{ hasRespon
   return { hasResponses: (count || 0) > 0, count: count || 0 };
 }
 
-// Type for questions with joined forms data
-interface QuestionWithForm {
-  form_id: string;
-  forms: {
-    user_id: string;
-  };
-}
-
-// Type for full question with joined forms data
-interface FullQuestionWithForm extends Question {
-  forms: {
-    user_id: string;
-  };
-}
-
 export async function getFormWithQuestions(formId: string) {
   const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
 
-  if (!user) {
-    throw new Error('Unauthorized');
+  const permission = await checkFormPermission(formId, 'edit');
+  if (!permission.allowed) {
+    throw new Error(permission.reason === 'unauthenticated' ? 'Unauthorized' : 'Form not found');
   }
 
   const { data: form, error } = await supabase
     .from('forms')
-    .select('*, questions(*)')
+    .select(`${FORM_COLUMNS}, questions(*), form_sections(*)`)
     .eq('id', formId)
-    .eq('user_id', user.id)
+    .is('questions.deleted_at', null)
     .single();
 
   if (error) {
     throw new Error('Form not found');
   }
 
+  // What respondents currently see, to tell whether the draft has unpublished changes
+  const publishedVersion: FormVersion | null = form.published_version_id
+    ? await getFormVersionById(supabase, form.published_version_id)
+    : null;
+
   // Sort questions by order_index
   if (form.questions) {
     form.questions.sort((a: Question, b: Question) => a.order_index - b.order_index);
   }
 
-  return form;
+  const { form_sections, ...formWithoutSections } = form;
+  const sections = ((form_sections || []) as FormSection[]).sort(
+    (a, b) => a.order_index - b.order_index
+  );
+
+  return {
+    ...formWithoutSections,
+    sections,
+    role: permission.role,
+    published_version: publishedVersion,
+  };
 }
 
 export async function updateForm(formId: string, updates: FormUpdate): Promise<ActionResult> {
@@ -89,31 +110,13 @@ export async function updateForm(formId: string, updates: FormUpdate): Promise<A
       ));
     }
 
-    // Verify ownership
-    const { data: form, error: fetchError } = await supabase
-      .from('forms')
-      .select('user_id')
-      .eq('id', formId)
-      .single();
-
-    if (fetchError) {
-      logger.error('Error fetching form for ownership check', fetchError, {
-        userId: user.id,
-        formId,
-        operation: 'updateForm',
-      });
-      return errorResult(fromSupabaseError(fetchError, {
-        resource: 'form',
-        resourceId: formId,
-        operation: 'update',
-      }));
-    }
+    const permission = await checkFormPermission(formId, 'edit');
 
-    if (!form || form.user_id !== user.id) {
+    if (!permission.allowed) {
       logger.warn('Unauthorized form update attempt', {
         userId: user.id,
         formId,
-        formOwnerId: form?.user_id,
+        role: permission.role,
         operation: 'updateForm',
       });
       return errorResult(createError(
@@ -127,11 +130,16 @@ export async function updateForm(formId: string, updates: FormUpdate): Promise<A
       ));
     }
 
+    // Needed to tell a publish apart from re-saving a published form
+    const { data: previous } = updates.is_published
+      ? await supabase.from('forms').select('is_published').eq('id', formId).single()
+      : { data: null };
+
     const { data, error } = await supabase
       .from('forms')
       .update(updates)
       .eq('id', formId)
-      .select()
+      .select(FORM_COLUMNS)
       .single();
 
     if (error) {
@@ -154,6 +162,18 @@ export async function updateForm(formId: string, updates: FormUpdate): Promise<A
       operation: 'updateForm',
     });
 
+    // Publishing puts the current draft live as a new version
+    if (updates.is_published && previous && !previous.is_published) {
+      const published = await createFormVersion(formId, undefined, { publish: true });
+      if (!published.success) {
+        logger.error('Error publishing form version', published.error, {
+          userId: user.id,
+          formId,
+          operation: 'updateForm',
+        });
+      }
+    }
+
     revalidatePath(`/forms/${formId}/edit`);
     return successResult(data);
   } catch (error) {
@@ -169,24 +189,115 @@ export async function updateForm(formId: string, updates: FormUpdate): Promise<A
   }
 }
 
-export async function addQuestion(formId: string, questionData: Omit<QuestionCreate, 'form_id'>) {
-  const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
+export async function updateFormAccessSettings(
+  formId: string,
+  settings: FormAccessSettingsUpdate
+): Promise<ActionResult> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
 
-  if (!user) {
-    return { error: 'Unauthorized' };
+    if (!user) {
+      logger.warn('Unauthorized form access settings update attempt', {
+        formId,
+        operation: 'updateFormAccessSettings',
+      });
+      return errorResult(createError(
+        'You must be signed in to update forms',
+        'UNAUTHENTICATED',
+        'AUTH',
+        { context: { resource: 'form', resourceId: formId, operation: 'update' } }
+      ));
+    }
+
+    const validation = formAccessSettingsSchema.safeParse(settings);
+
+    if (!validation.success) {
+      return errorResult(createError(
+        validation.error.issues[0].message,
+        'INVALID_FORMAT',
+        'VALIDATION',
+        { context: { resource: 'form', resourceId: formId, operation: 'update' } }
+      ));
+    }
+
+    const permission = await checkFormPermission(formId, 'edit');
+
+    if (!permission.allowed) {
+      logger.warn('Unauthorized form access settings update attempt', {
+        userId: user.id,
+        formId,
+        role: permission.role,
+        operation: 'updateFormAccessSettings',
+      });
+      return errorResult(createError(
+        'You do not have permission to update this form',
+        'UNAUTHORIZED',
+        'PERMISSION',
+        {
+          context: { resource: 'form', resourceId: formId, operation: 'update' },
+          statusCode: 403,
+        }
+      ));
+    }
+
+    const { password, ...accessSettings } = validation.data;
+    const updates: Record<string, unknown> = { ...accessSettings };
+
+    // undefined keeps the current password, null removes it
+    if (password === null) {
+      updates.password_hash = null;
+    } else if (password !== undefined) {
+      updates.password_hash = await hashFormPassword(password);
+    }
+
+    const { error } = await supabase
+      .from('forms')
+      .update(updates)
+      .eq('id', formId);
+
+    if (error) {
+      logger.error('Error updating form access settings', error, {
+        userId: user.id,
+        formId,
+        operation: 'updateFormAccessSettings',
+      });
+      return errorResult(fromSupabaseError(error, {
+        resource: 'form',
+        resourceId: formId,
+        operation: 'update',
+      }));
+    }
+
+    logger.info('Form access settings updated successfully', {
+      userId: user.id,
+      formId,
+      operation: 'updateFormAccessSettings',
+    });
+
+    revalidatePath(`/forms/${formId}/edit`);
+    revalidatePath(`/forms/${formId}/submit`);
+    return successResult(null);
+  } catch (error) {
+    logger.error('Unexpected error updating form access settings', error, {
+      formId,
+      operation: 'updateFormAccessSettings',
+    });
+    return errorResult(normalizeError(
+      error,
+      'An unexpected error occurred while updating access settings',
+      { resource: 'form', resourceId: formId, operation: 'update' }
+    ));
   }
+}
 
-  // Verify form ownership
-  const { data: form } = await supabase
-    .from('forms')
-    .select('user_id')
-    .eq('id', formId)
-    .single();
+export async function addQuestion(formId: string, questionData: Omit<QuestionCreate, 'form_id'>) {
+  const supabase = await createClient();
 
-  if (!form || form.user_id !== user.id) {
+  const permission = await checkFormPermission(formId, 'edit');
+  if (!permission.allowed) {
     return { error: 'Unauthorized' };
   }
 
@@ -194,7 +305,8 @@ export async function addQuestion(formId: string, questionData: Omit<QuestionCre
   const { count } = await supabase
     .from('questions')
     .select('*', { count: 'exact', head: true })
-    .eq('form_id', formId);
+    .eq('form_id', formId)
+    .is('deleted_at', null);
 
   const currentCount = count || 0;
 
@@ -230,28 +342,22 @@ export async function addQuestion(formId: string, questionData: Omit<QuestionCre
     return { error: 'Failed to add question' };
   }
 
+  await invalidateFormCaches(formId);
   revalidatePath(`/forms/${formId}/edit`);
   return { data };
 }
 
 export async function updateQuestion(questionId: string, updates: QuestionUpdate) {
   const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-
-  if (!user) {
-    return { error: 'Unauthorized' };
-  }
 
-  // Verify ownership through form
+  // Verify edit access through form
   const { data: question } = await supabase
     .from('questions')
-    .select('form_id, forms!inner(user_id)')
+    .select('form_id')
     .eq('id', questionId)
     .single();
 
-  if (!question || (question as unknown as QuestionWithForm).forms.user_id !== user.id) {
+  if (!question || !(await checkFormPermission(question.form_id, 'edit')).allowed) {
     return { error: 'Unauthorized' };
   }
 
@@ -270,6 +376,7 @@ export async function updateQuestion(questionId: string, updates: QuestionUpdate
       .from('questions')
       .select('*')
       .eq('form_id', question.form_id)
+      .is('deleted_at', null)
       .order('order_index');
 
     if (questionsError || !allQuestions) {
@@ -291,6 +398,31 @@ export async function updateQuestion(questionId: string, updates: QuestionUpdate
     }
   }
 
+  // Check calculate formulas against the types of their source questions
+  if (validation.data.advanced_logic_rules?.some((rule) => rule.action === 'calculate')) {
+    const { data: formQuestions, error: questionsError } = await supabase
+      .from('questions')
+      .select('id, type')
+      .eq('form_id', question.form_id)
+      .is('deleted_at', null);
+
+    if (questionsError || !formQuestions) {
+      return { error: 'Failed to validate logic rules' };
+    }
+
+    const formulaValidation = validateCalculationFormulas(
+      validation.data.advanced_logic_rules as AdvancedLogicRule[],
+      formQuestions as Pick<Question, 'id' | 'type'>[]
+    );
+    if (!formulaValidation.valid) {
+      const { error: formulaError } = formulaValidation.errors[0];
+      return {
+        error: `Invalid formula: ${formulaError.message} (at position ${formulaError.start + 1})`,
+        code: 'INVALID_FORMULA',
+      };
+    }
+  }
+
   const { data, error } = await supabase
     .from('questions')
     .update(validation.data)
@@ -331,102 +463,127 @@ export async function updateQuestion(questionId: string, updates: QuestionUpdate
     }
   }
 
+  await invalidateFormCaches(question.form_id);
+
   // Removed revalidatePath - let client handle updates optimistically to avoid race conditions
   return { data };
 }
 
-export async function deleteQuestion(questionId: string) {
-  const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
+/**
+ * Delete questions from the draft and drop logic rules of the remaining
+ * questions that refer to them, in one transaction. Returns the new rules of
+ * the questions that changed.
+ */
+async function deleteDraftQuestions(
+  supabase: SupabaseClient,
+  formId: string,
+  questionIds: string[]
+): Promise<{ error?: string; updatedQuestions?: LogicRulesUpdate[] }> {
+  const { data: formQuestions, error: fetchError } = await supabase
+    .from('questions')
+    .select('id, logic_rules, advanced_logic_rules')
+    .eq('form_id', formId)
+    .is('deleted_at', null);
 
-  if (!user) {
-    return { error: 'Unauthorized' };
+  if (fetchError || !formQuestions) {
+    console.error('Error fetching questions:', fetchError);
+    return { error: 'Failed to delete question' };
   }
 
-  // First check ownership
+  const formQuestionIds = new Set(formQuestions.map((q) => q.id));
+  if (questionIds.some((id) => !formQuestionIds.has(id))) {
+    return { error: 'Question not found' };
+  }
+
+  const updatedQuestions = removeDeletedQuestionReferences(
+    formQuestions as Pick<Question, 'id' | 'logic_rules' | 'advanced_logic_rules'>[],
+    questionIds
+  );
+
+  const { error } = await supabase.rpc('bulk_delete_questions', {
+    p_form_id: formId,
+    p_question_ids: questionIds,
+    p_logic_updates: updatedQuestions,
+  });
+
+  if (error) {
+    console.error('Error deleting questions:', error);
+    return { error: 'Failed to delete question' };
+  }
+
+  return { updatedQuestions };
+}
+
+export async function deleteQuestion(questionId: string) {
+  const supabase = await createClient();
+
+  // Check edit access
   const { data: question } = await supabase
     .from('questions')
-    .select('form_id, order_index, forms!inner(user_id)')
+    .select('form_id')
     .eq('id', questionId)
     .single();
 
-  if (!question || (question as unknown as QuestionWithForm).forms.user_id !== user.id) {
+  if (!question || !(await checkFormPermission(question.form_id, 'edit')).allowed) {
     return { error: 'Unauthorized' };
   }
 
   const formId = question.form_id;
-  const deletedOrderIndex = (question as { order_index: number }).order_index;
-
-  // Delete the question
-  const { error: deleteError } = await supabase
-    .from('questions')
-    .delete()
-    .eq('id', questionId);
-
-  if (deleteError) {
-    console.error('Error deleting question:', deleteError);
-    return { error: 'Failed to delete question' };
-  }
-
-  // Reorder remaining questions to fill the gap
-  const { data: remainingQuestions, error: fetchError } = await supabase
-    .from('questions')
-    .select('id, order_index')
-    .eq('form_id', formId)
-    .gt('order_index', deletedOrderIndex)
-    .order('order_index');
-
-  if (fetchError) {
-    console.error('Error fetching remaining questions:', fetchError);
-    // Question was deleted but reordering failed - not critical
-  } else if (remainingQuestions && remainingQuestions.length > 0) {
-    // Update order_index for questions that came after the deleted one
-    const updates = remainingQuestions.map((q) => ({
-      id: q.id,
-      order_index: q.order_index - 1,
-    }));
 
-    const { error: reorderError } = await supabase
-      .from('questions')
-      .upsert(updates);
+  // Published questions stay live until the next publish; remaining questions are renumbered
+  const { error, updatedQuestions } = await deleteDraftQuestions(supabase, formId, [questionId]);
 
-    if (reorderError) {
-      console.error('Error reordering questions:', reorderError);
-      // Not critical - questions are deleted but order might be off
-    }
+  if (error) {
+    return { error };
   }
 
+  await invalidateFormCaches(formId);
   revalidatePath(`/forms/${formId}/edit`);
-  return { success: true };
+  return { success: true, updatedQuestions };
 }
 
-export async function reorderQuestions(formId: string, questionIds: string[]) {
+/**
+ * Move questions to their new positions
+ * sectionAssignments optionally moves questions between sections (null = no section)
+ */
+export async function reorderQuestions(
+  formId: string,
+  questionIds: string[],
+  sectionAssignments?: Record<string, string | null>
+) {
   const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
 
-  if (!user) {
+  const permission = await checkFormPermission(formId, 'edit');
+  if (!permission.allowed) {
     return { error: 'Unauthorized' };
   }
 
-  // Verify ownership
-  const { data: form } = await supabase
-    .from('forms')
-    .select('user_id')
-    .eq('id', formId)
-    .single();
-
-  if (!form || form.user_id !== user.id) {
-    return { error: 'Unauthorized' };
+  // Only allow assignments to sections of this form
+  if (sectionAssignments) {
+    const sectionIds = [...new Set(Object.values(sectionAssignments))].filter(
+      (id): id is string => !!id
+    );
+
+    if (sectionIds.length > 0) {
+      const { data: sections } = await supabase
+        .from('form_sections')
+        .select('id')
+        .eq('form_id', formId)
+        .in('id', sectionIds);
+
+      if (!sections || sections.length !== sectionIds.length) {
+        return { error: 'Section not found' };
+      }
+    }
   }
 
-  // Update order_index for all questions
+  // Update order_index (and section_id when moved) for all questions
   const updates = questionIds.map((id, index) => ({
     id,
     order_index: index,
+    ...(sectionAssignments && id in sectionAssignments
+      ? { section_id: sectionAssignments[id] }
+      : {}),
   }));
 
   const { error } = await supabase.from('questions').upsert(updates);
@@ -436,28 +593,22 @@ export async function reorderQuestions(formId: string, questionIds: string[]) {
     return { error: 'Failed to reorder questions' };
   }
 
+  await invalidateFormCaches(formId);
   revalidatePath(`/forms/${formId}/edit`);
   return { success: true };
 }
 
 export async function duplicateQuestion(questionId: string) {
   const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-
-  if (!user) {
-    return { error: 'Unauthorized' };
-  }
 
   // Get original question
   const { data: originalQuestion } = await supabase
     .from('questions')
-    .select('*, forms!inner(user_id)')
+    .select('*')
     .eq('id', questionId)
     .single();
 
-  if (!originalQuestion || (originalQuestion as unknown as FullQuestionWithForm).forms.user_id !== user.id) {
+  if (!originalQuestion || !(await checkFormPermission(originalQuestion.form_id, 'edit')).allowed) {
     return { error: 'Unauthorized' };
   }
 
@@ -465,7 +616,8 @@ export async function duplicateQuestion(questionId: string) {
   const { count } = await supabase
     .from('questions')
     .select('*', { count: 'exact', head: true })
-    .eq('form_id', originalQuestion.form_id);
+    .eq('form_id', originalQuestion.form_id)
+    .is('deleted_at', null);
 
   const { data, error } = await supabase
     .from('questions')
@@ -477,6 +629,7 @@ export async function duplicateQuestion(questionId: string) {
       options: originalQuestion.options,
       logic_rules: originalQuestion.logic_rules,
       required: originalQuestion.required,
+      section_id: originalQuestion.section_id,
       order_index: count || 0,
     })
     .select()
@@ -487,6 +640,432 @@ export async function duplicateQuestion(questionId: string) {
     return { error: 'Failed to duplicate question' };
   }
 
+  await invalidateFormCaches(originalQuestion.form_id);
   revalidatePath(`/forms/${originalQuestion.form_id}/edit`);
   return { data };
 }
+
+/**
+ * Put deleted questions back into the draft with their original ids, so logic
+ * rules and answers that reference them still apply (used by undo and redo)
+ */
+export async function restoreQuestions(formId: string, questions: Question[]) {
+  const supabase = await createClient();
+
+  const permission = await checkFormPermission(formId, 'edit');
+  if (!permission.allowed) {
+    return { error: 'Unauthorized' };
+  }
+
+  if (questions.length === 0) {
+    return { success: true };
+  }
+
+  // Ids still in the database must belong to this form
+  const ids = questions.map((q) => q.id);
+  const { data: existing } = await supabase
+    .from('questions')
+    .select('id, form_id, deleted_at')
+    .in('id', ids);
+
+  if ((existing || []).some((q) => q.form_id !== formId)) {
+    return { error: 'Question not found' };
+  }
+
+  const { count } = await supabase
+    .from('questions')
+    .select('*', { count: 'exact', head: true })
+    .eq('form_id', formId)
+    .is('deleted_at', null);
+
+  const activeIds = new Set((existing || []).filter((q) => !q.deleted_at).map((q) => q.id));
+  const restoredCount = ids.filter((id) => !activeIds.has(id)).length;
+  if ((count || 0) + restoredCount > MAX_QUESTIONS_PER_FORM) {
+    return {
+      error: `Maximum ${MAX_QUESTIONS_PER_FORM} questions per form allowed. Please delete existing questions to add new ones.`,
+      code: 'MAX_QUESTIONS_EXCEEDED',
+    };
+  }
+
+  // Drop assignments to sections deleted since
+  const { data: sections } = await supabase
+    .from('form_sections')
+    .select('id')
+    .eq('form_id', formId);
+  const sectionIds = new Set((sections || []).map((section) => section.id));
+
+  const { error } = await supabase.from('questions').upsert(
+    questions.map((q) => ({
+      id: q.id,
+      form_id: formId,
+      type: q.type,
+      title: q.title,
+      description: q.description ?? null,
+      required: q.required,
+      order_index: q.order_index,
+      section_id: q.section_id && sectionIds.has(q.section_id) ? q.section_id : null,
+      options: q.options ?? null,
+      logic_rules: q.logic_rules ?? [],
+      advanced_logic_rules: q.advanced_logic_rules ?? [],
+      deleted_at: null,
+      updated_at: new Date().toISOString(),
+    }))
+  );
+
+  if (error) {
+    console.error('Error restoring questions:', error);
+    return { error: 'Failed to restore questions' };
+  }
+
+  await invalidateFormCaches(formId);
+  revalidatePath(`/forms/${formId}/edit`);
+  return { success: true };
+}
+
+/**
+ * Delete several questions at once
+ * Logic rules of the remaining questions that refer to them are cleaned up
+ */
+export async function bulkDeleteQuestions(formId: string, questionIds: string[]) {
+  const supabase = await createClient();
+
+  const permission = await checkFormPermission(formId, 'edit');
+  if (!permission.allowed) {
+    return { error: 'Unauthorized' };
+  }
+
+  const validation = bulkQuestionIdsSchema.safeParse(questionIds);
+  if (!validation.success) {
+    return { error: validation.error.issues[0].message };
+  }
+
+  const { error, updatedQuestions } = await deleteDraftQuestions(supabase, formId, validation.data);
+
+  if (error) {
+    return { error };
+  }
+
+  await invalidateFormCaches(formId);
+  revalidatePath(`/forms/${formId}/edit`);
+  return { data: { deletedIds: validation.data, updatedQuestions: updatedQuestions ?? [] } };
+}
+
+/**
+ * Copy several questions to the end of the form
+ */
+export async function bulkDuplicateQuestions(formId: string, questionIds: string[]) {
+  const supabase = await createClient();
+
+  const permission = await checkFormPermission(formId, 'edit');
+  if (!permission.allowed) {
+    return { error: 'Unauthorized' };
+  }
+
+  const validation = bulkQuestionIdsSchema.safeParse(questionIds);
+  if (!validation.success) {
+    return { error: validation.error.issues[0].message };
+  }
+
+  const { count } = await supabase
+    .from('questions')
+    .select('*', { count: 'exact', head: true })
+    .eq('form_id', formId)
+    .is('deleted_at', null);
+
+  if ((count || 0) + validation.data.length > MAX_QUESTIONS_PER_FORM) {
+    return {
+      error: `Maximum ${MAX_QUESTIONS_PER_FORM} questions per form allowed. Please delete existing questions to add new ones.`,
+      code: 'MAX_QUESTIONS_EXCEEDED',
+    };
+  }
+
+  const { data, error } = await supabase.rpc('bulk_duplicate_questions', {
+    p_form_id: formId,
+    p_question_ids: validation.data,
+  });
+
+  if (error) {
+    console.error('Error duplicating questions:', error);
+    return { error: 'Failed to duplicate questions' };
+  }
+
+  await invalidateFormCaches(formId);
+  revalidatePath(`/forms/${formId}/edit`);
+  return { data: (data || []) as Question[] };
+}
+
+/**
+ * Make several questions required or optional, or change their type
+ * Types only change within a compatible group, so existing answers stay valid
+ */
+export async function bulkUpdateQuestions(
+  formId: string,
+  questionIds: string[],
+  updates: QuestionBulkUpdate
+) {
+  const supabase = await createClient();
+
+  const permission = await checkFormPermission(formId, 'edit');
+  if (!permission.allowed) {
+    return { error: 'Unauthorized' };
+  }
+
+  const idsValidation = bulkQuestionIdsSchema.safeParse(questionIds);
+  if (!idsValidation.success) {
+    return { error: idsValidation.error.issues[0].message };
+  }
+
+  const validation = bulkQuestionUpdateSchema.safeParse(updates);
+  if (!validation.success) {
+    return { error: validation.error.issues[0].message };
+  }
+
+  if (validation.data.type) {
+    const { data: selected, error: fetchError } = await supabase
+      .from('questions')
+      .select('id, type')
+      .eq('form_id', formId)
+      .in('id', idsValidation.data)
+      .is('deleted_at', null);
+
+    if (fetchError || !selected) {
+      return { error: 'Failed to update questions' };
+    }
+
+    const compatibleTypes = getCompatibleTypes(selected as Pick<Question, 'type'>[]);
+    if (!compatibleTypes.includes(validation.data.type)) {
+      return { error: 'The selected questions cannot be changed to this type' };
+    }
+  }
+
+  const { data, error } = await supabase.rpc('bulk_update_questions', {
+    p_form_id: formId,
+    p_question_ids: idsValidation.data,
+    p_required: validation.data.required ?? null,
+    p_type: validation.data.type ?? null,
+  });
+
+  if (error) {
+    console.error('Error updating questions:', error);
+    return { error: 'Failed to update questions' };
+  }
+
+  await invalidateFormCaches(formId);
+  revalidatePath(`/forms/${formId}/edit`);
+  return { data: (data || []) as Question[] };
+}
+
+/**
+ * Move questions in one transaction
+ * questionIds is the full new order; sectionAssignments moves questions
+ * between sections (null = no section)
+ */
+export async function bulkMoveQuestions(
+  formId: string,
+  questionIds: string[],
+  sectionAssignments: Record<string, string | null> = {}
+) {
+  const supabase = await createClient();
+
+  const permission = await checkFormPermission(formId, 'edit');
+  if (!permission.allowed) {
+    return { error: 'Unauthorized' };
+  }
+
+  const validation = bulkQuestionIdsSchema.safeParse(questionIds);
+  if (!validation.success) {
+    return { error: validation.error.issues[0].message };
+  }
+
+  const { error } = await supabase.rpc('bulk_move_questions', {
+    p_form_id: formId,
+    p_question_ids: validation.data,
+    p_section_assignments: sectionAssignments,
+  });
+
+  if (error) {
+    console.error('Error moving questions:', error);
+    return { error: 'Failed to move questions' };
+  }
+
+  await invalidateFormCaches(formId);
+  revalidatePath(`/forms/${formId}/edit`);
+  return { success: true };
+}
+
+/**
+ * Read the questions out of an uploaded Word questionnaire
+ * Nothing is created here: the builder shows the result for review and then
+ * adds the sections and questions the user keeps.
+ */
+export async function parseQuestionnaireDocument(formId: string, formData: FormData) {
+  const permission = await checkFormPermission(formId, 'edit');
+  if (!permission.allowed) {
+    return { error: 'Unauthorized' };
+  }
+
+  const file = formData.get('file');
+  if (!(file instanceof File)) {
+    return { error: 'No file uploaded' };
+  }
+  if (!file.name.toLowerCase().endsWith('.docx')) {
+    return { error: 'Please upload a Word document (.docx)' };
+  }
+  if (file.size > MAX_QUESTIONNAIRE_FILE_SIZE_MB * 1024 * 1024) {
+    return { error: `The document is larger than ${MAX_QUESTIONNAIRE_FILE_SIZE_MB} MB` };
+  }
+
+  try {
+    const result = detectQuestionnaire(readDocxBlocks(Buffer.from(await file.arrayBuffer())));
+
+    if (result.items.length === 0) {
+      return { error: 'No questions or text found in the document' };
+    }
+
+    return { data: result };
+  } catch (error) {
+    console.error('Error reading questionnaire document:', error);
+    return { error: 'Could not read the document. Save it as .docx (Word 2007 or later) and try again.' };
+  }
+}
+
+export async function addSection(formId: string, sectionData: FormSectionUpdate = {}) {
+  const supabase = await createClient();
+
+  const permission = await checkFormPermission(formId, 'edit');
+  if (!permission.allowed) {
+    return { error: 'Unauthorized' };
+  }
+
+  const validation = sectionUpdateSchema.safeParse(sectionData);
+
+  if (!validation.success) {
+    return { error: validation.error.issues[0].message };
+  }
+
+  const { count } = await supabase
+    .from('form_sections')
+    .select('*', { count: 'exact', head: true })
+    .eq('form_id', formId);
+
+  const { data, error } = await supabase
+    .from('form_sections')
+    .insert({
+      form_id: formId,
+      title: validation.data.title ?? '',
+      description: validation.data.description ?? null,
+      order_index: count || 0,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error adding section:', error);
+    return { error: 'Failed to add section' };
+  }
+
+  revalidatePath(`/forms/${formId}/edit`);
+  return { data: data as FormSection };
+}
+
+export async function updateSection(sectionId: string, updates: FormSectionUpdate) {
+  const supabase = await createClient();
+
+  // Verify edit access through form
+  const { data: section } = await supabase
+    .from('form_sections')
+    .select('form_id, order_index')
+    .eq('id', sectionId)
+    .single();
+
+  if (!section || !(await checkFormPermission(section.form_id, 'edit')).allowed) {
+    return { error: 'Unauthorized' };
+  }
+
+  const validation = sectionUpdateSchema.safeParse(updates);
+
+  if (!validation.success) {
+    return { error: validation.error.issues[0].message };
+  }
+
+  const { data, error } = await supabase
+    .from('form_sections')
+    .update({ ...validation.data, updated_at: new Date().toISOString() })
+    .eq('id', sectionId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating section:', error);
+    return { error: 'Failed to update section' };
+  }
+
+  return { data: data as FormSection };
+}
+
+/**
+ * Delete a section, moving its questions into the section before it
+ * (or out of sections entirely when it was the first one)
+ */
+export async function deleteSection(sectionId: string) {
+  const supabase = await createClient();
+
+  const { data: section } = await supabase
+    .from('form_sections')
+    .select('form_id, order_index')
+    .eq('id', sectionId)
+    .single();
+
+  if (!section || !(await checkFormPermission(section.form_id, 'edit')).allowed) {
+    return { error: 'Unauthorized' };
+  }
+
+  const formId = section.form_id;
+
+  const { data: previousSection } = await supabase
+    .from('form_sections')
+    .select('id')
+    .eq('form_id', formId)
+    .lt('order_index', section.order_index)
+    .order('order_index', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { error: moveError } = await supabase
+    .from('questions')
+    .update({ section_id: previousSection?.id ?? null })
+    .eq('section_id', sectionId);
+
+  if (moveError) {
+    console.error('Error moving questions out of section:', moveError);
+    return { error: 'Failed to delete section' };
+  }
+
+  const { error: deleteError } = await supabase
+    .from('form_sections')
+    .delete()
+    .eq('id', sectionId);
+
+  if (deleteError) {
+    console.error('Error deleting section:', deleteError);
+    return { error: 'Failed to delete section' };
+  }
+
+  // Close the gap in order_index
+  const { data: laterSections } = await supabase
+    .from('form_sections')
+    .select('id, order_index')
+    .eq('form_id', formId)
+    .gt('order_index', section.order_index);
+
+  for (const later of laterSections || []) {
+    await supabase
+      .from('form_sections')
+      .update({ order_index: later.order_index - 1 })
+      .eq('id', later.id);
+  }
+
+  await invalidateFormCaches(formId);
+  revalidatePath(`/forms/${formId}/edit`);
+  return { success: true, movedToSectionId: previousSection?.id ?? null };
+}
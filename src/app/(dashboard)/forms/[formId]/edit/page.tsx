@@ -1,5 +1,7 @@
-import { notFound } from 'next/navigation';
+import { notFound, redirect } from 'next/navigation';
 import { getFormWithQuestions } from './actions';
+import { checkFormPermission } from '@/lib/utils/server-form-permissions';
+import { roleHasPermission } from '@/lib/utils/form-permissions';
 import { FormBuilderWrapper } from '@/components/form-builder/FormBuilderWrapper';
 
 interface FormEditorPageProps {
@@ -9,6 +11,14 @@ interface FormEditorPageProps {
 export default async function FormEditorPage({ params }: FormEditorPageProps) {
   const { formId } = await params;
 
+  // Collaborators who can't edit land on the analytics page instead
+  const permission = await checkFormPermission(formId, 'edit');
+  if (!permission.allowed) {
+    if (permission.reason === 'unauthenticated') redirect('/login');
+    if (roleHasPermission(permission.role, 'view')) redirect(`/forms/${formId}/analytics`);
+    notFound();
+  }
+
   const form = await getFormWithQuestions(formId);
 
   if (!form) {
@@ -1,5 +1,7 @@
 import { redirect } from 'next/navigation';
 import { createClient } from '@/utils/supabase/server';
+import { checkFormPermission } from '@/lib/utils/server-form-permissions';
+import { FORM_COLUMNS } from '@/lib/utils/form-access';
 import { ResponseDetail } from '@/components/analytics/ResponseDetail';
 import { getResponseById } from '../actions';
 
@@ -10,24 +12,24 @@ interface PageProps {
 export default async function ResponseDetailPage({ params }: PageProps) {
   const { formId, responseId } = await params;
 
-  const supabase = await createClient();
-  const { data: { user } } = await supabase.auth.getUser();
-
-  if (!user) {
-    redirect('/login');
+  const permission = await checkFormPermission(formId, 'view_responses');
+  if (!permission.allowed) {
+    redirect(permission.reason === 'unauthenticated' ? '/login' : '/dashboard');
   }
 
+  const supabase = await createClient();
+
   // Get form with questions
   const { data: form } = await supabase
     .from('forms')
     .select(`
-      *,
+      ${FORM_COLUMNS},
       questions (*)
     `)
     .eq('id', formId)
     .single();
 
-  if (!form || form.user_id !== user.id) {
+  if (!form) {
     redirect('/dashboard');
   }
 
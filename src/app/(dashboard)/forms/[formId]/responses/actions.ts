@@ -2,42 +2,18 @@
 
 import { createClient } from '@/utils/supabase/server';
 import type { Response, Answer, ResponseWithAnswers } from '@/lib/types/response.types';
-
-// Helper to map value_json to value for backward compatibility
-function mapAnswerData(answer: Answer): Answer & { value: unknown } {
-  return {
-    ...answer,
-    value: answer.value_json,
-  };
-}
-
-function mapResponseData(response: ResponseData): ResponseData & {
-  answers: Array<Answer & { value: unknown }>;
-} {
-  return {
-    ...response,
-    answers: response.answers.map(mapAnswerData),
-  };
-}
-
-interface ResponseData {
-  id: string;
-  form_id: string;
-  respondent_email: string | null;
-  is_complete: boolean;
-  started_at: string;
-  submitted_at: string | null;
-  created_at: string;
-  updated_at: string;
-  answers: Array<{
-    id: string;
-    response_id: string;
-    question_id: string;
-    value_json: unknown;
-    created_at: string;
-    updated_at: string;
-  }>;
-}
+import {
+  fetchFormResponses,
+  mapAnswerData,
+  mapResponseData,
+  type ResponseData,
+} from '@/lib/utils/response-query';
+import { responseExportSchema, type ResponseExportInput } from '@/lib/validations/export.validation';
+import { startResponsesExport } from '@/lib/jobs/exports';
+import { invalidateFormCaches } from '@/lib/cache/analytics-cache';
+import { checkFormPermission } from '@/lib/utils/server-form-permissions';
+import { emitWebhookEvent } from '@/lib/jobs/webhooks';
+import type { WebhookResponseRow } from '@/lib/utils/webhooks';
 
 /**
  * Get all responses for a form (with authorization check)
@@ -46,47 +22,22 @@ export async function getFormResponses(formId: string) {
   const supabase = await createClient();
 
   // Check authorization
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) {
-    return { error: 'Unauthorized' };
+  const permission = await checkFormPermission(formId, 'view_responses');
+  if (!permission.allowed) {
+    return {
+      error: permission.reason === 'unauthenticated' ? 'Unauthorized' : 'Form not found or unauthorized',
+    };
   }
 
-  // Verify user owns the form
-  const { data: form, error: formError } = await supabase
-    .from('forms')
-    .select('user_id')
-    .eq('id', formId)
-    .single();
-
-  if (formError || !form || form.user_id !== user.id) {
-    return { error: 'Form not found or unauthorized' };
-  }
-
-  // Fetch responses with answers (exclude soft-deleted by default)
-  const { data: responses, error } = await supabase
-    .from('responses')
-    .select(`
-      *,
-      answers (
-        id,
-        response_id,
-        question_id,
-        value_json,
-        created_at,
-        updated_at
-      )
-    `)
-    .eq('form_id', formId)
-        .order('created_at', { ascending: false });
-
-  if (error) {
+  // Fetch responses with answers (mapped value_json -> value for backward compatibility)
+  let mappedResponses;
+  try {
+    mappedResponses = await fetchFormResponses(supabase, formId);
+  } catch (error) {
     console.error('Error fetching responses:', error);
     return { error: 'Failed to fetch responses' };
   }
 
-  // Map value_json to value for backward compatibility
-  const mappedResponses = (responses as unknown as ResponseData[]).map(mapResponseData);
-
   return { data: mappedResponses };
 }
 
@@ -96,12 +47,6 @@ export async function getFormResponses(formId: string) {
 export async function getResponseById(responseId: string) {
   const supabase = await createClient();
 
-  // Check authorization
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) {
-    return { error: 'Unauthorized' };
-  }
-
   // Fetch response with answers
   const { data: response, error } = await supabase
     .from('responses')
@@ -114,8 +59,7 @@ export async function getResponseById(responseId: string) {
         value_json,
         created_at,
         updated_at
-      ),
-      forms!inner (user_id)
+      )
     `)
     .eq('id', responseId)
     .single();
@@ -125,13 +69,9 @@ export async function getResponseById(responseId: string) {
     return { error: 'Response not found' };
   }
 
-  // Check if user owns the form
-  interface ResponseWithForm extends ResponseData {
-    forms: { user_id: string };
-  }
-
-  const responseWithForm = response as unknown as ResponseWithForm;
-  if (responseWithForm.forms.user_id !== user.id) {
+  // Check authorization on the response's form
+  const permission = await checkFormPermission(response.form_id, 'view_responses');
+  if (!permission.allowed) {
     return { error: 'Unauthorized' };
   }
 
@@ -148,20 +88,11 @@ export async function getResponseStats(formId: string) {
   const supabase = await createClient();
 
   // Check authorization
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) {
-    return { error: 'Unauthorized' };
-  }
-
-  // Verify user owns the form
-  const { data: form, error: formError } = await supabase
-    .from('forms')
-    .select('user_id')
-    .eq('id', formId)
-    .single();
-
-  if (formError || !form || form.user_id !== user.id) {
-    return { error: 'Form not found or unauthorized' };
+  const permission = await checkFormPermission(formId, 'view_responses');
+  if (!permission.allowed) {
+    return {
+      error: permission.reason === 'unauthenticated' ? 'Unauthorized' : 'Form not found or unauthorized',
+    };
   }
 
   // Get total responses count
@@ -190,7 +121,7 @@ export async function getResponseStats(formId: string) {
   // Get responses for completion time calculation
   const { data: responses, error: responsesError } = await supabase
     .from('responses')
-    .select('started_at, submitted_at')
+    .select('id, form_version_id, started_at, submitted_at')
     .eq('form_id', formId)
     .eq('is_complete', true);
 
@@ -215,29 +146,15 @@ export async function getResponseStats(formId: string) {
 export async function deleteResponse(responseId: string) {
   const supabase = await createClient();
 
-  // Check authorization
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) {
-    return { error: 'Unauthorized' };
-  }
-
-  // Check if user owns the form
+  // Check authorization on the response's form; the answers are kept for the
+  // response.deleted webhook since the row is about to go
   const { data: response } = await supabase
     .from('responses')
-    .select(`
-      id,
-      forms!inner (user_id)
-    `)
+    .select('*, answers (question_id, value_json)')
     .eq('id', responseId)
     .single();
 
-  interface ResponseWithForm {
-    id: string;
-    forms: { user_id: string };
-  }
-
-  const responseWithForm = response as unknown as ResponseWithForm;
-  if (!responseWithForm || responseWithForm.forms.user_id !== user.id) {
+  if (!response || !(await checkFormPermission(response.form_id, 'manage_responses')).allowed) {
     return { error: 'Unauthorized' };
   }
 
@@ -252,6 +169,13 @@ export async function deleteResponse(responseId: string) {
     return { error: 'Failed to delete response' };
   }
 
+  await invalidateFormCaches(response.form_id);
+
+  // Already-trashed responses sent response.deleted when they were trashed
+  if (!response.deleted_at) {
+    await emitWebhookEvent(response.form_id, 'response.deleted', responseId, response as WebhookResponseRow);
+  }
+
   return { success: true };
 }
 
@@ -262,20 +186,11 @@ export async function getAnswersByQuestion(formId: string) {
   const supabase = await createClient();
 
   // Check authorization
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) {
-    return { error: 'Unauthorized' };
-  }
-
-  // Verify user owns the form
-  const { data: form, error: formError } = await supabase
-    .from('forms')
-    .select('user_id')
-    .eq('id', formId)
-    .single();
-
-  if (formError || !form || form.user_id !== user.id) {
-    return { error: 'Form not found or unauthorized' };
+  const permission = await checkFormPermission(formId, 'view_responses');
+  if (!permission.allowed) {
+    return {
+      error: permission.reason === 'unauthenticated' ? 'Unauthorized' : 'Form not found or unauthorized',
+    };
   }
 
   // Fetch all answers for completed responses
@@ -314,3 +229,36 @@ export async function getAnswersByQuestion(formId: string) {
 
   return { data: answersByQuestion };
 }
+
+/**
+ * Queue a server-side export of a form's responses
+ * The file is built in the background and the requester is emailed a download link
+ */
+export async function requestResponsesExport(formId: string, input: ResponseExportInput) {
+  const validation = responseExportSchema.safeParse(input);
+  if (!validation.success) {
+    return { error: validation.error.issues[0]?.message ?? 'Invalid export options' };
+  }
+
+  // Check authorization
+  const permission = await checkFormPermission(formId, 'view_responses');
+  if (!permission.allowed) {
+    return {
+      error: permission.reason === 'unauthenticated' ? 'Unauthorized' : 'Form not found or unauthorized',
+    };
+  }
+
+  try {
+    const job = await startResponsesExport({
+      formId,
+      userId: permission.userId,
+      format: validation.data.format,
+      filters: validation.data.filters,
+    });
+
+    return { data: { jobId: job.id } };
+  } catch (error) {
+    console.error('Error queueing export:', error);
+    return { error: 'Failed to start export' };
+  }
+}
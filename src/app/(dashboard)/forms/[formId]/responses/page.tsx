@@ -1,7 +1,10 @@
 import { redirect } from 'next/navigation';
 import { createClient } from '@/utils/supabase/server';
+import { checkFormPermission } from '@/lib/utils/server-form-permissions';
+import { FORM_COLUMNS } from '@/lib/utils/form-access';
 import { ResponsesOverview } from '@/components/analytics/ResponsesOverview';
 import { getFormResponses, getResponseStats } from './actions';
+import { getFactorScores, getScales } from '../analytics/actions';
 
 interface PageProps {
   params: Promise<{ formId: string }>;
@@ -10,24 +13,24 @@ interface PageProps {
 export default async function ResponsesPage({ params }: PageProps) {
   const { formId } = await params;
 
-  const supabase = await createClient();
-  const { data: { user } } = await supabase.auth.getUser();
-
-  if (!user) {
-    redirect('/login');
+  const permission = await checkFormPermission(formId, 'view_responses');
+  if (!permission.allowed) {
+    redirect(permission.reason === 'unauthenticated' ? '/login' : '/dashboard');
   }
 
+  const supabase = await createClient();
+
   // Get form details
   const { data: form } = await supabase
     .from('forms')
     .select(`
-      *,
+      ${FORM_COLUMNS},
       questions (*)
     `)
     .eq('id', formId)
     .single();
 
-  if (!form || form.user_id !== user.id) {
+  if (!form) {
     redirect('/dashboard');
   }
 
@@ -44,6 +47,8 @@ export default async function ResponsesPage({ params }: PageProps) {
   // Get responses
   const responsesResult = await getFormResponses(formId);
   const statsResult = await getResponseStats(formId);
+  const scalesResult = await getScales(formId);
+  const factorScoresResult = await getFactorScores(formId);
 
   if (responsesResult.error || statsResult.error || !statsResult.data) {
     return (
@@ -58,6 +63,8 @@ export default async function ResponsesPage({ params }: PageProps) {
       <ResponsesOverview
         form={formWithQuestions}
         responses={responsesResult.data || []}
+        scales={scalesResult.data || []}
+        factorScores={factorScoresResult.data || []}
         stats={statsResult.data}
       />
     </div>
@@ -2,39 +2,39 @@
 
 import { createClient } from '@/utils/supabase/server';
 import { revalidatePath } from 'next/cache';
+import { invalidateFormCaches } from '@/lib/cache/analytics-cache';
+import { checkFormPermission } from '@/lib/utils/server-form-permissions';
+import { emitWebhookEvent } from '@/lib/jobs/webhooks';
 
 /**
  * Soft delete a response (marks as deleted without removing from database)
  */
 export async function deleteResponse(responseId: string) {
   const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
 
-  if (!user) {
-    return { error: 'Unauthorized' };
-  }
-
-  // Get response with form ownership check
+  // Get response and check access to its form
   const { data: response } = await supabase
     .from('responses')
-    .select('form_id, forms!inner(user_id)')
+    .select('form_id')
     .eq('id', responseId)
     .single();
 
-  type ResponseWithForms = { form_id: string; forms: { user_id: string } };
+  if (!response) {
+    return { error: 'Unauthorized' };
+  }
 
-  if (!response || (response as unknown as ResponseWithForms).forms.user_id !== user.id) {
+  const permission = await checkFormPermission(response.form_id, 'manage_responses');
+  if (!permission.allowed) {
     return { error: 'Unauthorized' };
   }
 
   // Soft delete by setting deleted_at timestamp
-  const { error } = await supabase
+  const { data: deleted, error } = await supabase
     .from('responses')
     .update({ deleted_at: new Date().toISOString() })
     .eq('id', responseId)
-    .is('deleted_at', null);
+    .is('deleted_at', null)
+    .select('id');
 
   if (error) {
     console.error('Error soft deleting response:', error);
@@ -42,6 +42,12 @@ export async function deleteResponse(responseId: string) {
   }
 
   revalidatePath(`/forms/${response.form_id}/responses`);
+  await invalidateFormCaches(response.form_id);
+
+  if (deleted && deleted.length > 0) {
+    await emitWebhookEvent(response.form_id, 'response.deleted', responseId);
+  }
+
   return { success: true };
 }
 
@@ -50,24 +56,20 @@ export async function deleteResponse(responseId: string) {
  */
 export async function restoreResponse(responseId: string) {
   const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-
-  if (!user) {
-    return { error: 'Unauthorized' };
-  }
 
-  // Get response with form ownership check
+  // Get response and check access to its form
   const { data: response } = await supabase
     .from('responses')
-    .select('form_id, forms!inner(user_id)')
+    .select('form_id')
     .eq('id', responseId)
     .single();
 
-  type ResponseWithForms = { form_id: string; forms: { user_id: string } };
+  if (!response) {
+    return { error: 'Unauthorized' };
+  }
 
-  if (!response || (response as unknown as ResponseWithForms).forms.user_id !== user.id) {
+  const permission = await checkFormPermission(response.form_id, 'manage_responses');
+  if (!permission.allowed) {
     return { error: 'Unauthorized' };
   }
 
@@ -84,6 +86,7 @@ export async function restoreResponse(responseId: string) {
   }
 
   revalidatePath(`/forms/${response.form_id}/responses`);
+  await invalidateFormCaches(response.form_id);
   return { success: true };
 }
 
@@ -92,29 +95,25 @@ export async function restoreResponse(responseId: string) {
  */
 export async function permanentlyDeleteResponse(responseId: string) {
   const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-
-  if (!user) {
-    return { error: 'Unauthorized' };
-  }
 
-  // Get response with form ownership check
+  // Get response and check access to its form
   const { data: response } = await supabase
     .from('responses')
-    .select('form_id, deleted_at, forms!inner(user_id)')
+    .select('form_id, deleted_at')
     .eq('id', responseId)
     .single();
 
-  type ResponseWithForms = { form_id: string; deleted_at: string | null; forms: { user_id: string } };
+  if (!response) {
+    return { error: 'Unauthorized' };
+  }
 
-  if (!response || (response as unknown as ResponseWithForms).forms.user_id !== user.id) {
+  const permission = await checkFormPermission(response.form_id, 'manage_responses');
+  if (!permission.allowed) {
     return { error: 'Unauthorized' };
   }
 
   // Only allow permanent deletion of soft-deleted responses
-  if (!(response as unknown as ResponseWithForms).deleted_at) {
+  if (!response.deleted_at) {
     return { error: 'Response must be soft-deleted first' };
   }
 
@@ -130,6 +129,7 @@ export async function permanentlyDeleteResponse(responseId: string) {
   }
 
   revalidatePath(`/forms/${response.form_id}/responses`);
+  await invalidateFormCaches(response.form_id);
   return { success: true };
 }
 
@@ -138,24 +138,20 @@ export async function permanentlyDeleteResponse(responseId: string) {
  */
 export async function reopenResponse(responseId: string) {
   const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
 
-  if (!user) {
-    return { error: 'Unauthorized' };
-  }
-
-  // Get response with form ownership check
+  // Get response and check access to its form
   const { data: response } = await supabase
     .from('responses')
-    .select('form_id, is_complete, forms!inner(user_id)')
+    .select('form_id, is_complete')
     .eq('id', responseId)
     .single();
 
-  type ResponseData = { form_id: string; is_complete: boolean; forms: { user_id: string } };
+  if (!response) {
+    return { error: 'Unauthorized' };
+  }
 
-  if (!response || (response as unknown as ResponseData).forms.user_id !== user.id) {
+  const permission = await checkFormPermission(response.form_id, 'manage_responses');
+  if (!permission.allowed) {
     return { error: 'Unauthorized' };
   }
 
@@ -178,6 +174,7 @@ export async function reopenResponse(responseId: string) {
   }
 
   revalidatePath(`/forms/${response.form_id}/responses`);
+  await invalidateFormCaches(response.form_id);
   return { success: true };
 }
 
@@ -186,37 +183,35 @@ export async function reopenResponse(responseId: string) {
  */
 export async function bulkDeleteResponses(responseIds: string[]) {
   const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-
-  if (!user) {
-    return { error: 'Unauthorized' };
-  }
 
   if (responseIds.length === 0) {
     return { error: 'No responses selected' };
   }
 
-  // Get first response to check ownership and get form_id
+  // Get first response and check access to its form
   const { data: firstResponse } = await supabase
     .from('responses')
-    .select('form_id, forms!inner(user_id)')
+    .select('form_id')
     .eq('id', responseIds[0])
     .single();
 
-  type ResponseWithForms = { form_id: string; forms: { user_id: string } };
+  if (!firstResponse) {
+    return { error: 'Unauthorized' };
+  }
 
-  if (!firstResponse || (firstResponse as unknown as ResponseWithForms).forms.user_id !== user.id) {
+  const permission = await checkFormPermission(firstResponse.form_id, 'manage_responses');
+  if (!permission.allowed) {
     return { error: 'Unauthorized' };
   }
 
   // Soft delete all responses
-  const { error } = await supabase
+  const { data: deleted, error } = await supabase
     .from('responses')
     .update({ deleted_at: new Date().toISOString() })
     .in('id', responseIds)
-    .is('deleted_at', null);
+    .eq('form_id', firstResponse.form_id)
+    .is('deleted_at', null)
+    .select('id');
 
   if (error) {
     console.error('Error bulk soft deleting responses:', error);
@@ -224,6 +219,12 @@ export async function bulkDeleteResponses(responseIds: string[]) {
   }
 
   revalidatePath(`/forms/${firstResponse.form_id}/responses`);
+  await invalidateFormCaches(firstResponse.form_id);
+
+  for (const { id } of deleted || []) {
+    await emitWebhookEvent(firstResponse.form_id, 'response.deleted', id);
+  }
+
   return { success: true, count: responseIds.length };
 }
 
@@ -232,22 +233,9 @@ export async function bulkDeleteResponses(responseIds: string[]) {
  */
 export async function getDeletedResponses(formId: string) {
   const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-
-  if (!user) {
-    return { error: 'Unauthorized' };
-  }
-
-  // Verify user owns the form
-  const { data: form } = await supabase
-    .from('forms')
-    .select('user_id')
-    .eq('id', formId)
-    .single();
 
-  if (!form || form.user_id !== user.id) {
+  const permission = await checkFormPermission(formId, 'view_responses');
+  if (!permission.allowed) {
     return { error: 'Unauthorized' };
   }
 
@@ -280,28 +268,24 @@ export async function getDeletedResponses(formId: string) {
  */
 export async function flagResponse(responseId: string, reason: string) {
   const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
 
-  if (!user) {
-    return { error: 'Unauthorized' };
-  }
-
-  // Get response with form ownership check
+  // Get response and check access to its form
   const { data: response } = await supabase
     .from('responses')
-    .select('form_id, is_flagged, forms!inner(user_id)')
+    .select('form_id, is_flagged')
     .eq('id', responseId)
     .single();
 
-  type ResponseWithForms = { form_id: string; is_flagged: boolean; forms: { user_id: string } };
+  if (!response) {
+    return { error: 'Unauthorized' };
+  }
 
-  if (!response || (response as unknown as ResponseWithForms).forms.user_id !== user.id) {
+  const permission = await checkFormPermission(response.form_id, 'manage_responses');
+  if (!permission.allowed) {
     return { error: 'Unauthorized' };
   }
 
-  if ((response as unknown as ResponseWithForms).is_flagged) {
+  if (response.is_flagged) {
     return { error: 'Response is already flagged' };
   }
 
@@ -312,7 +296,7 @@ export async function flagResponse(responseId: string, reason: string) {
       is_flagged: true,
       flag_reason: reason,
       flagged_at: new Date().toISOString(),
-      flagged_by: user.id,
+      flagged_by: permission.userId,
     })
     .eq('id', responseId);
 
@@ -322,6 +306,7 @@ export async function flagResponse(responseId: string, reason: string) {
   }
 
   revalidatePath(`/forms/${response.form_id}/responses`);
+  await emitWebhookEvent(response.form_id, 'response.flagged', responseId);
   return { success: true };
 }
 
@@ -330,28 +315,24 @@ export async function flagResponse(responseId: string, reason: string) {
  */
 export async function unflagResponse(responseId: string) {
   const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-
-  if (!user) {
-    return { error: 'Unauthorized' };
-  }
 
-  // Get response with form ownership check
+  // Get response and check access to its form
   const { data: response } = await supabase
     .from('responses')
-    .select('form_id, is_flagged, forms!inner(user_id)')
+    .select('form_id, is_flagged')
     .eq('id', responseId)
     .single();
 
-  type ResponseWithForms = { form_id: string; is_flagged: boolean; forms: { user_id: string } };
+  if (!response) {
+    return { error: 'Unauthorized' };
+  }
 
-  if (!response || (response as unknown as ResponseWithForms).forms.user_id !== user.id) {
+  const permission = await checkFormPermission(response.form_id, 'manage_responses');
+  if (!permission.allowed) {
     return { error: 'Unauthorized' };
   }
 
-  if (!(response as unknown as ResponseWithForms).is_flagged) {
+  if (!response.is_flagged) {
     return { error: 'Response is not flagged' };
   }
 
@@ -380,22 +361,9 @@ export async function unflagResponse(responseId: string) {
  */
 export async function getFlaggedResponses(formId: string) {
   const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-
-  if (!user) {
-    return { error: 'Unauthorized' };
-  }
-
-  // Verify user owns the form
-  const { data: form } = await supabase
-    .from('forms')
-    .select('user_id')
-    .eq('id', formId)
-    .single();
 
-  if (!form || form.user_id !== user.id) {
+  const permission = await checkFormPermission(formId, 'view_responses');
+  if (!permission.allowed) {
     return { error: 'Unauthorized' };
   }
 
@@ -432,42 +400,40 @@ export async function getFlaggedResponses(formId: string) {
  */
 export async function bulkFlagResponses(responseIds: string[], reason: string) {
   const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-
-  if (!user) {
-    return { error: 'Unauthorized' };
-  }
 
   if (responseIds.length === 0) {
     return { error: 'No responses selected' };
   }
 
-  // Get first response to check ownership and get form_id
+  // Get first response and check access to its form
   const { data: firstResponse } = await supabase
     .from('responses')
-    .select('form_id, forms!inner(user_id)')
+    .select('form_id')
     .eq('id', responseIds[0])
     .single();
 
-  type ResponseWithForms = { form_id: string; forms: { user_id: string } };
+  if (!firstResponse) {
+    return { error: 'Unauthorized' };
+  }
 
-  if (!firstResponse || (firstResponse as unknown as ResponseWithForms).forms.user_id !== user.id) {
+  const permission = await checkFormPermission(firstResponse.form_id, 'manage_responses');
+  if (!permission.allowed) {
     return { error: 'Unauthorized' };
   }
 
   // Flag all responses
-  const { error } = await supabase
+  const { data: flagged, error } = await supabase
     .from('responses')
     .update({
       is_flagged: true,
       flag_reason: reason,
       flagged_at: new Date().toISOString(),
-      flagged_by: user.id,
+      flagged_by: permission.userId,
     })
     .in('id', responseIds)
-    .eq('is_flagged', false);
+    .eq('form_id', firstResponse.form_id)
+    .eq('is_flagged', false)
+    .select('id');
 
   if (error) {
     console.error('Error bulk flagging responses:', error);
@@ -475,5 +441,10 @@ export async function bulkFlagResponses(responseIds: string[], reason: string) {
   }
 
   revalidatePath(`/forms/${firstResponse.form_id}/responses`);
+
+  for (const { id } of flagged || []) {
+    await emitWebhookEvent(firstResponse.form_id, 'response.flagged', id);
+  }
+
   return { success: true, count: responseIds.length };
 }
@@ -3,20 +3,14 @@
 import { createClient } from '@/utils/supabase/server';
 import { revalidatePath } from 'next/cache';
 import type { Question } from '@/lib/types/question.types';
+import type { FormSection, FormVersion } from '@/lib/types/form.types';
+import { invalidateFormCaches } from '@/lib/cache/analytics-cache';
+import { emitWebhookEvent } from '@/lib/jobs/webhooks';
+import { removeDraftQuestions } from '@/lib/utils/server-form-versions';
+import { checkFormPermission } from '@/lib/utils/server-form-permissions';
+import { FORM_COLUMNS } from '@/lib/utils/form-access';
 
-export interface FormVersion {
-  id: string;
-  form_id: string;
-  version_number: number;
-  title: string;
-  description: string | null;
-  questions: Question[] | null;
-  settings: Record<string, unknown> | null;
-  created_at: string;
-  created_by: string | null;
-  change_summary: string | null;
-  is_published: boolean;
-}
+export type { FormVersion };
 
 /**
  * Get all versions for a form
@@ -59,11 +53,14 @@ export async function getFormVersion(versionId: string): Promise<FormVersion | n
 }
 
 /**
- * Create a manual version snapshot
+ * Snapshot the draft as a new version
+ * With publish, the version becomes what respondents are served and the form
+ * is published.
  */
 export async function createFormVersion(
   formId: string,
-  changeSummary?: string
+  changeSummary?: string,
+  options: { publish?: boolean } = {}
 ): Promise<{ success: boolean; error?: string; versionId?: string }> {
   const supabase = await createClient();
 
@@ -74,10 +71,14 @@ export async function createFormVersion(
       return { success: false, error: 'Not authenticated' };
     }
 
+    if (!(await checkFormPermission(formId, 'edit')).allowed) {
+      return { success: false, error: 'Unauthorized' };
+    }
+
     // Get current form data
     const { data: form, error: formError } = await supabase
       .from('forms')
-      .select('*')
+      .select(FORM_COLUMNS)
       .eq('id', formId)
       .single();
 
@@ -85,14 +86,23 @@ export async function createFormVersion(
       return { success: false, error: 'Form not found' };
     }
 
-    // Get all questions for this form
-    const { data: questions, error: questionsError } = await supabase
-      .from('questions')
-      .select('*')
-      .eq('form_id', formId)
-      .order('order_index');
-
-    if (questionsError) {
+    // Get the draft questions and sections
+    const [{ data: questions, error: questionsError }, { data: sections, error: sectionsError }] =
+      await Promise.all([
+        supabase
+          .from('questions')
+          .select('*')
+          .eq('form_id', formId)
+          .is('deleted_at', null)
+          .order('order_index'),
+        supabase
+          .from('form_sections')
+          .select('*')
+          .eq('form_id', formId)
+          .order('order_index'),
+      ]);
+
+    if (questionsError || sectionsError) {
       return { success: false, error: 'Failed to fetch questions' };
     }
 
@@ -117,18 +127,16 @@ export async function createFormVersion(
         title: form.title,
         description: form.description,
         questions: questions,
+        sections: sections,
         settings: {
           display_mode: form.display_mode,
-          allow_multiple_responses: form.allow_multiple_responses,
-          require_authentication: form.require_authentication,
-          show_progress_bar: form.show_progress_bar,
           schedule_start: form.schedule_start,
           schedule_end: form.schedule_end,
           max_responses: form.max_responses,
         },
         created_by: user.id,
-        change_summary: changeSummary || `Manual snapshot`,
-        is_published: false,
+        change_summary: changeSummary || (options.publish ? 'Published version' : 'Manual snapshot'),
+        is_published: !!options.publish,
       })
       .select()
       .single();
@@ -138,6 +146,23 @@ export async function createFormVersion(
       return { success: false, error: 'Failed to create version' };
     }
 
+    if (options.publish) {
+      const { error: publishError } = await supabase
+        .from('forms')
+        .update({ published_version_id: version.id, is_published: true })
+        .eq('id', formId);
+
+      if (publishError) {
+        console.error('Error publishing version:', publishError);
+        return { success: false, error: 'Failed to publish changes' };
+      }
+
+      await invalidateFormCaches(formId);
+      await emitWebhookEvent(formId, 'form.published');
+      revalidatePath(`/forms/${formId}/submit`);
+      revalidatePath(`/forms/${formId}/edit`);
+    }
+
     revalidatePath(`/forms/${formId}/versions`);
     return { success: true, versionId: version.id };
   } catch (error) {
@@ -147,7 +172,9 @@ export async function createFormVersion(
 }
 
 /**
- * Restore form from a version
+ * Restore a version into the draft
+ * Respondents keep seeing the published version until the restored draft is
+ * published.
  */
 export async function restoreFromVersion(
   formId: string,
@@ -175,12 +202,6 @@ export async function restoreFromVersion(
         title: version.title,
         description: version.description,
         display_mode: version.settings?.display_mode,
-        allow_multiple_responses: version.settings?.allow_multiple_responses,
-        require_authentication: version.settings?.require_authentication,
-        show_progress_bar: version.settings?.show_progress_bar,
-        schedule_start: version.settings?.schedule_start,
-        schedule_end: version.settings?.schedule_end,
-        max_responses: version.settings?.max_responses,
         updated_at: new Date().toISOString(),
       })
       .eq('id', formId);
@@ -190,37 +211,83 @@ export async function restoreFromVersion(
       return { success: false, error: 'Failed to update form' };
     }
 
-    // Delete existing questions
-    const { error: deleteError } = await supabase
+    const versionQuestions = (version.questions || []) as Question[];
+    const versionSections = version.sections as FormSection[] | null;
+
+    // Restore sections when the version has them; older versions keep the current ones
+    if (versionSections) {
+      const { data: currentSections } = await supabase
+        .from('form_sections')
+        .select('id')
+        .eq('form_id', formId);
+
+      const keptSectionIds = new Set(versionSections.map((section) => section.id));
+      const removedSectionIds = (currentSections || [])
+        .map((section) => section.id)
+        .filter((id) => !keptSectionIds.has(id));
+
+      if (removedSectionIds.length > 0) {
+        await supabase.from('form_sections').delete().in('id', removedSectionIds);
+      }
+
+      if (versionSections.length > 0) {
+        const { error: sectionsError } = await supabase
+          .from('form_sections')
+          .upsert(versionSections.map((section) => ({ ...section, form_id: formId })));
+
+        if (sectionsError) {
+          console.error('Error restoring sections:', sectionsError);
+          return { success: false, error: 'Failed to restore sections' };
+        }
+      }
+    }
+
+    // Remove draft questions the version doesn't have
+    const { data: currentQuestions } = await supabase
       .from('questions')
-      .delete()
-      .eq('form_id', formId);
+      .select('id')
+      .eq('form_id', formId)
+      .is('deleted_at', null);
+
+    const versionQuestionIds = new Set(versionQuestions.map((q) => q.id));
+    const { error: removeError } = await removeDraftQuestions(
+      supabase,
+      formId,
+      (currentQuestions || []).map((q) => q.id).filter((id) => !versionQuestionIds.has(id))
+    );
 
-    if (deleteError) {
-      console.error('Error deleting questions:', deleteError);
+    if (removeError) {
       return { success: false, error: 'Failed to delete existing questions' };
     }
 
-    // Restore questions from version
-    const questionsData = version.questions;
-    if (questionsData && questionsData.length > 0) {
-      const { error: insertError } = await supabase
+    // Restore questions from version, reviving any deleted since
+    if (versionQuestions.length > 0) {
+      // Drop assignments to sections that no longer exist
+      const { data: sections } = await supabase
+        .from('form_sections')
+        .select('id')
+        .eq('form_id', formId);
+      const sectionIds = new Set((sections || []).map((section) => section.id));
+
+      const { error: upsertError } = await supabase
         .from('questions')
-        .insert(
-          questionsData.map((q: Question) => ({
+        .upsert(
+          versionQuestions.map((q) => ({
             ...q,
+            section_id: q.section_id && sectionIds.has(q.section_id) ? q.section_id : null,
             form_id: formId,
-            created_at: new Date().toISOString(),
+            deleted_at: null,
             updated_at: new Date().toISOString(),
           }))
         );
 
-      if (insertError) {
-        console.error('Error restoring questions:', insertError);
+      if (upsertError) {
+        console.error('Error restoring questions:', upsertError);
         return { success: false, error: 'Failed to restore questions' };
       }
     }
 
+    await invalidateFormCaches(formId);
     revalidatePath(`/forms/${formId}`);
     revalidatePath(`/forms/${formId}/edit`);
     revalidatePath(`/forms/${formId}/versions`);
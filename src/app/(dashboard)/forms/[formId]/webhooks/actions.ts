@@ -0,0 +1,237 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/utils/supabase/server';
+import { checkFormPermission } from '@/lib/utils/server-form-permissions';
+import { generateWebhookSecret } from '@/lib/utils/server-webhooks';
+import { startWebhookReplay } from '@/lib/jobs/webhooks';
+import {
+  webhookCreateSchema,
+  webhookUpdateSchema,
+  type WebhookCreateInput,
+  type WebhookUpdateInput,
+} from '@/lib/validations/webhook.validation';
+import type { Webhook, WebhookDelivery } from '@/lib/types/webhook.types';
+
+// Deliveries shown in the log, newest first
+const DELIVERY_LOG_LIMIT = 50;
+
+/**
+ * Get a form's webhooks
+ */
+export async function getWebhooks(formId: string) {
+  const permission = await checkFormPermission(formId, 'edit');
+  if (!permission.allowed) {
+    return { error: 'Unauthorized', data: null };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('webhooks')
+    .select('*')
+    .eq('form_id', formId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching webhooks:', error);
+    return { error: 'Failed to fetch webhooks', data: null };
+  }
+
+  return { data: (data || []) as Webhook[], error: null };
+}
+
+/**
+ * Subscribe a URL to a form's events
+ */
+export async function createWebhook(formId: string, input: WebhookCreateInput) {
+  const permission = await checkFormPermission(formId, 'edit');
+  if (!permission.allowed) {
+    return { error: 'Unauthorized' };
+  }
+
+  const validation = webhookCreateSchema.safeParse(input);
+  if (!validation.success) {
+    return { error: validation.error.issues[0].message };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('webhooks')
+    .insert({
+      form_id: formId,
+      url: validation.data.url,
+      description: validation.data.description || null,
+      events: validation.data.events,
+      secret: generateWebhookSecret(),
+      created_by: permission.userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating webhook:', error);
+    return { error: 'Failed to create webhook' };
+  }
+
+  revalidatePath(`/forms/${formId}/edit`);
+  return { data: data as Webhook };
+}
+
+/**
+ * Get a webhook's form id and check the user may edit that form
+ */
+async function checkWebhookAccess(webhookId: string) {
+  const supabase = await createClient();
+
+  const { data: webhook } = await supabase
+    .from('webhooks')
+    .select('form_id')
+    .eq('id', webhookId)
+    .single();
+
+  if (!webhook || !(await checkFormPermission(webhook.form_id, 'edit')).allowed) {
+    return null;
+  }
+
+  return webhook.form_id as string;
+}
+
+/**
+ * Change a webhook's URL, events or active state
+ */
+export async function updateWebhook(webhookId: string, updates: WebhookUpdateInput) {
+  const formId = await checkWebhookAccess(webhookId);
+  if (!formId) {
+    return { error: 'Unauthorized' };
+  }
+
+  const validation = webhookUpdateSchema.safeParse(updates);
+  if (!validation.success) {
+    return { error: validation.error.issues[0].message };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('webhooks')
+    .update({ ...validation.data, updated_at: new Date().toISOString() })
+    .eq('id', webhookId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating webhook:', error);
+    return { error: 'Failed to update webhook' };
+  }
+
+  revalidatePath(`/forms/${formId}/edit`);
+  return { data: data as Webhook };
+}
+
+/**
+ * Replace a webhook's signing secret
+ * Receivers must switch to the new secret; the old one stops working at once.
+ */
+export async function rotateWebhookSecret(webhookId: string) {
+  const formId = await checkWebhookAccess(webhookId);
+  if (!formId) {
+    return { error: 'Unauthorized' };
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('webhooks')
+    .update({ secret: generateWebhookSecret(), updated_at: new Date().toISOString() })
+    .eq('id', webhookId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error rotating webhook secret:', error);
+    return { error: 'Failed to rotate secret' };
+  }
+
+  return { data: data as Webhook };
+}
+
+/**
+ * Delete a webhook and its delivery log
+ */
+export async function deleteWebhook(webhookId: string) {
+  const formId = await checkWebhookAccess(webhookId);
+  if (!formId) {
+    return { error: 'Unauthorized' };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase.from('webhooks').delete().eq('id', webhookId);
+
+  if (error) {
+    console.error('Error deleting webhook:', error);
+    return { error: 'Failed to delete webhook' };
+  }
+
+  revalidatePath(`/forms/${formId}/edit`);
+  return { success: true };
+}
+
+/**
+ * Get the most recent deliveries of a form's webhooks
+ */
+export async function getWebhookDeliveries(formId: string, webhookId?: string) {
+  const permission = await checkFormPermission(formId, 'edit');
+  if (!permission.allowed) {
+    return { error: 'Unauthorized', data: null };
+  }
+
+  const supabase = await createClient();
+
+  let query = supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('form_id', formId)
+    .order('created_at', { ascending: false })
+    .limit(DELIVERY_LOG_LIMIT);
+
+  if (webhookId) {
+    query = query.eq('webhook_id', webhookId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    return { error: 'Failed to fetch deliveries', data: null };
+  }
+
+  return { data: (data || []) as WebhookDelivery[], error: null };
+}
+
+/**
+ * Send a logged delivery again, with its original payload
+ */
+export async function replayWebhookDelivery(deliveryId: string) {
+  const supabase = await createClient();
+
+  const { data: delivery } = await supabase
+    .from('webhook_deliveries')
+    .select('form_id')
+    .eq('id', deliveryId)
+    .single();
+
+  if (!delivery || !(await checkFormPermission(delivery.form_id, 'edit')).allowed) {
+    return { error: 'Unauthorized' };
+  }
+
+  try {
+    const job = await startWebhookReplay(deliveryId);
+    return { data: { jobId: job.id } };
+  } catch (error) {
+    console.error('Error queueing webhook replay:', error);
+    return { error: 'Failed to replay delivery' };
+  }
+}
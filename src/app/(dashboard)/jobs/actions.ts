@@ -1,10 +1,13 @@
 'use server';
 
 import { createClient } from '@/utils/supabase/server';
-import { getQueueStats, QUEUE_NAMES, cleanQueues } from '@/lib/jobs/queue';
+import { getQueueStats, getRecentJobs, QUEUE_NAMES, cleanQueues, type ExportJob } from '@/lib/jobs/queue';
+import { getCacheStats } from '@/lib/cache/analytics-cache';
 
 /**
  * Get statistics for all job queues
+ * With the persistent queue these are counted from the jobs table,
+ * so they cover every app and worker process
  */
 export async function getAllQueueStats() {
   const supabase = await createClient();
@@ -29,11 +32,12 @@ export async function getAllQueueStats() {
   }
 
   try {
-    const [emailStats, analyticsStats, exportStats, notificationsStats] = await Promise.all([
+    const [emailStats, analyticsStats, exportStats, notificationsStats, webhooksStats] = await Promise.all([
       getQueueStats(QUEUE_NAMES.EMAIL),
       getQueueStats(QUEUE_NAMES.ANALYTICS),
       getQueueStats(QUEUE_NAMES.EXPORT),
       getQueueStats(QUEUE_NAMES.NOTIFICATIONS),
+      getQueueStats(QUEUE_NAMES.WEBHOOKS),
     ]);
 
     return {
@@ -42,6 +46,7 @@ export async function getAllQueueStats() {
         analytics: analyticsStats,
         export: exportStats,
         notifications: notificationsStats,
+        webhooks: webhooksStats,
       },
       error: null,
     };
@@ -63,7 +68,7 @@ export async function cleanupOldJobs() {
   } = await supabase.auth.getUser();
 
   if (!user) {
-    return { error: 'Unauthorized', success: false };
+    return { error: 'Unauthorized', success: false, removed: 0 };
   }
 
   const { data: profile } = await supabase
@@ -73,14 +78,96 @@ export async function cleanupOldJobs() {
     .single();
 
   if (profile?.role !== 'admin') {
-    return { error: 'Forbidden: Admin access required', success: false };
+    return { error: 'Forbidden: Admin access required', success: false, removed: 0 };
   }
 
   try {
-    await cleanQueues();
-    return { success: true, error: null };
+    const removed = await cleanQueues();
+    return { success: true, error: null, removed };
   } catch (error) {
     console.error('Error cleaning queues:', error);
-    return { error: 'Failed to clean queues', success: false };
+    return { error: 'Failed to clean queues', success: false, removed: 0 };
+  }
+}
+
+/**
+ * Get the most recent export jobs with their progress
+ */
+export async function getRecentExportJobs() {
+  const supabase = await createClient();
+
+  // Check if user is authenticated and is admin
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Unauthorized', data: null };
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.role !== 'admin') {
+    return { error: 'Forbidden: Admin access required', data: null };
+  }
+
+  try {
+    const jobs = await getRecentJobs<ExportJob>(QUEUE_NAMES.EXPORT, 10);
+
+    return {
+      data: jobs.map((job) => ({
+        id: job.id,
+        formId: job.data.formId,
+        format: job.data.format,
+        status: job.status,
+        progress: job.progress,
+        attemptsMade: job.attemptsMade,
+        error: job.error,
+        createdAt: job.createdAt,
+        finishedAt: job.finishedAt,
+      })),
+      error: null,
+    };
+  } catch (error) {
+    console.error('Error fetching export jobs:', error);
+    return { error: 'Failed to fetch export jobs', data: null };
+  }
+}
+
+/**
+ * Get analytics cache statistics (hit/miss counters for this server process)
+ */
+export async function getAnalyticsCacheStats() {
+  const supabase = await createClient();
+
+  // Check if user is authenticated and is admin
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Unauthorized', data: null };
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.role !== 'admin') {
+    return { error: 'Forbidden: Admin access required', data: null };
+  }
+
+  try {
+    const stats = await getCacheStats();
+    return { data: stats, error: null };
+  } catch (error) {
+    console.error('Error fetching cache stats:', error);
+    return { error: 'Failed to fetch cache statistics', data: null };
   }
 }
@@ -9,7 +9,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { User, FileText, Shield } from 'lucide-react';
+import { User, FileText, Shield, Users, KeyRound } from 'lucide-react';
 import { LogoutButton } from '@/components/LogoutButton';
 import Link from 'next/link';
 
@@ -71,6 +71,19 @@ export default async function DashboardLayout({
                 </div>
               </DropdownMenuLabel>
               <DropdownMenuSeparator />
+              <DropdownMenuItem asChild>
+                <Link href="/workspaces" className="flex items-center cursor-pointer">
+                  <Users className="mr-2 h-4 w-4" />
+                  <span>Workspaces</span>
+                </Link>
+              </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <Link href="/settings/api-keys" className="flex items-center cursor-pointer">
+                  <KeyRound className="mr-2 h-4 w-4" />
+                  <span>API Keys</span>
+                </Link>
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
               {profile?.role === 'admin' && (
                 <>
                   <DropdownMenuItem asChild>
@@ -1,5 +1,5 @@
 import { Suspense } from 'react';
-import { getForms } from './actions';
+import { getForms, getSharedForms } from './actions';
 import { FormsList } from '@/components/dashboard/FormsList';
 import { CreateFormDialog } from '@/components/dashboard/CreateFormDialog';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -18,9 +18,9 @@ function FormsListSkeleton() {
 }
 
 async function FormsContent() {
-  const forms = await getForms();
+  const [forms, sharedForms] = await Promise.all([getForms(), getSharedForms()]);
 
-  return <FormsList forms={forms} />;
+  return <FormsList forms={forms} sharedForms={sharedForms} />;
 }
 
 export default function DashboardPage() {
@@ -0,0 +1,133 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/utils/supabase/server';
+import { apiKeyCreateSchema, type ApiKeyCreateInput } from '@/lib/validations/api-key.validation';
+import { API_KEY_COLUMNS } from '@/lib/utils/api-keys';
+import { generateApiKey } from '@/lib/utils/server-api-keys';
+import type { ApiKey, CreatedApiKey } from '@/lib/types/api-key.types';
+
+/**
+ * Get the current user's API keys, newest first
+ */
+export async function getApiKeys() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Unauthorized', data: null };
+  }
+
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select(API_KEY_COLUMNS)
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching API keys:', error);
+    return { error: 'Failed to fetch API keys', data: null };
+  }
+
+  return { data: (data || []) as ApiKey[], error: null };
+}
+
+/**
+ * Create a key; the plaintext is returned here and never again
+ */
+export async function createApiKey(input: ApiKeyCreateInput) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Unauthorized' };
+  }
+
+  const validation = apiKeyCreateSchema.safeParse(input);
+  if (!validation.success) {
+    return { error: validation.error.issues[0].message };
+  }
+
+  const { name, scopes, expiresInDays } = validation.data;
+  const { plaintextKey, keyHash, keyPrefix } = generateApiKey();
+
+  const { data, error } = await supabase
+    .from('api_keys')
+    .insert({
+      user_id: user.id,
+      name,
+      scopes,
+      key_hash: keyHash,
+      key_prefix: keyPrefix,
+      expires_at: expiresInDays
+        ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+        : null,
+    })
+    .select(API_KEY_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Error creating API key:', error);
+    return { error: 'Failed to create API key' };
+  }
+
+  revalidatePath('/settings/api-keys');
+  return { data: { apiKey: data as ApiKey, plaintextKey } satisfies CreatedApiKey };
+}
+
+/**
+ * Stop a key from authenticating; it stays listed so its last use is visible
+ */
+export async function revokeApiKey(keyId: string) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Unauthorized' };
+  }
+
+  const { error } = await supabase
+    .from('api_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', keyId)
+    .eq('user_id', user.id)
+    .is('revoked_at', null);
+
+  if (error) {
+    console.error('Error revoking API key:', error);
+    return { error: 'Failed to revoke API key' };
+  }
+
+  revalidatePath('/settings/api-keys');
+  return { success: true };
+}
+
+/**
+ * Remove a key from the list
+ */
+export async function deleteApiKey(keyId: string) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Unauthorized' };
+  }
+
+  const { error } = await supabase.from('api_keys').delete().eq('id', keyId).eq('user_id', user.id);
+
+  if (error) {
+    console.error('Error deleting API key:', error);
+    return { error: 'Failed to delete API key' };
+  }
+
+  revalidatePath('/settings/api-keys');
+  return { success: true };
+}
@@ -0,0 +1,56 @@
+import { Metadata } from 'next';
+import { KeyRound } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { CreateApiKeyDialog } from '@/components/settings/CreateApiKeyDialog';
+import { ApiKeyList } from '@/components/settings/ApiKeyList';
+import { getApiKeys } from './actions';
+
+export const metadata: Metadata = {
+  title: 'API Keys | StatQ',
+  description: 'Access your forms and responses from other systems',
+};
+
+export default async function ApiKeysPage() {
+  const result = await getApiKeys();
+  const apiKeys = result.data || [];
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-4xl font-bold text-slate-900">API Keys</h1>
+          <p className="mt-2 text-slate-600">
+            Use the REST API at <code>/api/v1</code>, described by{' '}
+            <a href="/api/v1/openapi.json" className="text-blue-600 hover:underline">
+              openapi.json
+            </a>
+            . Send a key as <code>Authorization: Bearer &lt;key&gt;</code>.
+          </p>
+        </div>
+        <CreateApiKeyDialog />
+      </div>
+
+      {result.error && <p className="text-red-600">{result.error}</p>}
+
+      {!result.error && apiKeys.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 px-4">
+          <div className="rounded-full bg-slate-100 p-6 mb-4">
+            <KeyRound className="h-12 w-12 text-slate-400" />
+          </div>
+          <h3 className="text-2xl font-semibold text-slate-900 mb-2">No API keys yet</h3>
+          <p className="text-slate-600 text-center max-w-sm">
+            Create a key to read responses or analytics from scripts, dashboards or other tools.
+          </p>
+        </div>
+      ) : (
+        apiKeys.length > 0 && (
+          <Card className="bg-white/90 border-2 border-slate-200">
+            <CardContent className="pt-6">
+              <ApiKeyList apiKeys={apiKeys} />
+            </CardContent>
+          </Card>
+        )
+      )}
+    </div>
+  );
+}
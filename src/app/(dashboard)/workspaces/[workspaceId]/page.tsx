@@ -0,0 +1,87 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { ArrowLeft, FileText } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { WorkspaceMembers } from '@/components/workspaces/WorkspaceMembers';
+import { DeleteWorkspaceButton } from '@/components/workspaces/DeleteWorkspaceButton';
+import { FORM_ROLE_LABELS } from '@/lib/utils/form-permissions';
+import { getWorkspaceDetails } from '../actions';
+
+interface PageProps {
+  params: Promise<{ workspaceId: string }>;
+}
+
+export default async function WorkspacePage({ params }: PageProps) {
+  const { workspaceId } = await params;
+
+  const result = await getWorkspaceDetails(workspaceId);
+  if (result.error || !result.data) {
+    notFound();
+  }
+
+  const { workspace, role, currentUserId, members, forms } = result.data;
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <Link href="/workspaces">
+          <Button variant="ghost" size="sm" className="mb-2 -ml-2">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Workspaces
+          </Button>
+        </Link>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <h1 className="text-4xl font-bold text-slate-900">{workspace.name}</h1>
+            <Badge variant="outline">{FORM_ROLE_LABELS[role]}</Badge>
+          </div>
+          {workspace.owner_id === currentUserId && (
+            <DeleteWorkspaceButton workspaceId={workspaceId} workspaceName={workspace.name} />
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <section className="space-y-4">
+          <h2 className="text-xl font-semibold text-slate-900">Members</h2>
+          <WorkspaceMembers
+            workspaceId={workspaceId}
+            members={members}
+            currentUserId={currentUserId}
+            canManage={role === 'owner'}
+          />
+        </section>
+
+        <section className="space-y-4">
+          <h2 className="text-xl font-semibold text-slate-900">Forms</h2>
+          {forms.length === 0 ? (
+            <p className="text-sm text-slate-600">
+              No forms yet. Form owners can move a form here from its Collaborators menu.
+            </p>
+          ) : (
+            <ul className="divide-y divide-slate-200 rounded-lg border border-slate-200 bg-white">
+              {forms.map((form) => (
+                <li key={form.id}>
+                  <Link
+                    href={`/forms/${form.id}/analytics`}
+                    className="flex items-center justify-between gap-2 p-3 hover:bg-slate-50"
+                  >
+                    <span className="flex items-center gap-2 text-sm text-slate-900 truncate">
+                      <FileText className="h-4 w-4 text-slate-500 shrink-0" />
+                      {form.title}
+                    </span>
+                    <span className="text-xs text-slate-500 shrink-0">
+                      Updated {formatDistanceToNow(new Date(form.updated_at), { addSuffix: true })}
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,367 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/utils/supabase/server';
+import { workspaceMemberInviteSchema, workspaceNameSchema } from '@/lib/validations/workspace.validation';
+import type { WorkspaceMember, WorkspaceRole, WorkspaceWithRole } from '@/lib/types/workspace.types';
+
+interface MemberRow {
+  workspace_id: string;
+  user_id: string;
+  role: WorkspaceRole;
+  created_at: string;
+  profile: { email: string | null } | null;
+}
+
+/**
+ * The current user's role in a workspace, or null when they aren't a member
+ */
+async function getWorkspaceRole(workspaceId: string, userId: string): Promise<WorkspaceRole | null> {
+  const supabase = await createClient();
+
+  const { data } = await supabase.rpc('get_workspace_role', {
+    workspace_uuid: workspaceId,
+    user_uuid: userId,
+  });
+
+  return (data as WorkspaceRole | null) ?? null;
+}
+
+/**
+ * Get the workspaces the current user belongs to
+ */
+export async function getWorkspaces() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Unauthorized', data: null };
+  }
+
+  const { data: memberships, error } = await supabase
+    .from('workspace_members')
+    .select('role, workspaces(*, workspace_members(count))')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching workspaces:', error);
+    return { error: 'Failed to fetch workspaces', data: null };
+  }
+
+  const workspaces: WorkspaceWithRole[] = (memberships || []).flatMap((membership) => {
+    const workspace = membership.workspaces as unknown as
+      | (Omit<WorkspaceWithRole, 'role' | 'memberCount'> & { workspace_members: { count: number }[] })
+      | null;
+    if (!workspace) return [];
+
+    const { workspace_members, ...rest } = workspace;
+    return [
+      {
+        ...rest,
+        role: membership.role as WorkspaceRole,
+        memberCount: workspace_members?.[0]?.count || 0,
+      },
+    ];
+  });
+
+  return { data: workspaces, error: null };
+}
+
+/**
+ * Create a workspace owned by the current user
+ */
+export async function createWorkspace(name: string) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Unauthorized' };
+  }
+
+  const validation = workspaceNameSchema.safeParse(name);
+  if (!validation.success) {
+    return { error: validation.error.issues[0].message };
+  }
+
+  const { data: workspace, error } = await supabase
+    .from('workspaces')
+    .insert({ name: validation.data, owner_id: user.id })
+    .select()
+    .single();
+
+  if (error || !workspace) {
+    console.error('Error creating workspace:', error);
+    return { error: 'Failed to create workspace' };
+  }
+
+  // The creator is the first owner member
+  const { error: memberError } = await supabase.from('workspace_members').insert({
+    workspace_id: workspace.id,
+    user_id: user.id,
+    role: 'owner',
+    added_by: user.id,
+  });
+
+  if (memberError) {
+    console.error('Error adding workspace owner:', memberError);
+    await supabase.from('workspaces').delete().eq('id', workspace.id);
+    return { error: 'Failed to create workspace' };
+  }
+
+  revalidatePath('/workspaces');
+  return { success: true, workspaceId: workspace.id as string };
+}
+
+/**
+ * Delete a workspace (creator only)
+ * Its forms stay with their owners and simply leave the workspace.
+ */
+export async function deleteWorkspace(workspaceId: string) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Unauthorized' };
+  }
+
+  const { data: workspace } = await supabase
+    .from('workspaces')
+    .select('owner_id')
+    .eq('id', workspaceId)
+    .single();
+
+  if (!workspace || workspace.owner_id !== user.id) {
+    return { error: 'Only the workspace creator can delete it' };
+  }
+
+  const { error } = await supabase.from('workspaces').delete().eq('id', workspaceId);
+
+  if (error) {
+    console.error('Error deleting workspace:', error);
+    return { error: 'Failed to delete workspace' };
+  }
+
+  revalidatePath('/workspaces');
+  revalidatePath('/dashboard');
+  return { success: true };
+}
+
+/**
+ * Get a workspace with its members and forms
+ */
+export async function getWorkspaceDetails(workspaceId: string) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Unauthorized', data: null };
+  }
+
+  const role = await getWorkspaceRole(workspaceId, user.id);
+  if (!role) {
+    return { error: 'Workspace not found', data: null };
+  }
+
+  const [workspaceResult, membersResult, formsResult] = await Promise.all([
+    supabase.from('workspaces').select('*').eq('id', workspaceId).single(),
+    supabase
+      .from('workspace_members')
+      .select('workspace_id, user_id, role, created_at, profile:profiles!workspace_members_user_id_fkey(email)')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('forms')
+      .select('id, title, is_published, updated_at')
+      .eq('workspace_id', workspaceId)
+      .order('updated_at', { ascending: false }),
+  ]);
+
+  if (workspaceResult.error || !workspaceResult.data) {
+    return { error: 'Workspace not found', data: null };
+  }
+
+  if (membersResult.error) {
+    console.error('Error fetching workspace members:', membersResult.error);
+    return { error: 'Failed to fetch workspace members', data: null };
+  }
+
+  const members: WorkspaceMember[] = ((membersResult.data || []) as unknown as MemberRow[]).map((row) => ({
+    workspace_id: row.workspace_id,
+    user_id: row.user_id,
+    email: row.profile?.email ?? null,
+    role: row.role,
+    created_at: row.created_at,
+  }));
+
+  return {
+    data: {
+      workspace: workspaceResult.data,
+      role,
+      currentUserId: user.id,
+      members,
+      forms: formsResult.data || [],
+    },
+    error: null,
+  };
+}
+
+/**
+ * Add an existing user to a workspace by email (owners only)
+ * Adding someone who is already a member changes their role.
+ */
+export async function addWorkspaceMember(workspaceId: string, email: string, role: WorkspaceRole) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Unauthorized' };
+  }
+
+  if ((await getWorkspaceRole(workspaceId, user.id)) !== 'owner') {
+    return { error: 'Only workspace owners can add members' };
+  }
+
+  const validation = workspaceMemberInviteSchema.safeParse({ email, role });
+  if (!validation.success) {
+    return { error: validation.error.issues[0].message };
+  }
+
+  const { data: profileId, error: lookupError } = await supabase.rpc('find_profile_id_by_email', {
+    email_address: validation.data.email,
+  });
+
+  if (lookupError) {
+    console.error('Error looking up workspace member:', lookupError);
+    return { error: 'Failed to look up user' };
+  }
+
+  if (!profileId) {
+    return { error: 'No account found with that email. Ask them to sign up first.' };
+  }
+
+  const { error } = await supabase.from('workspace_members').upsert(
+    {
+      workspace_id: workspaceId,
+      user_id: profileId,
+      role: validation.data.role,
+      added_by: user.id,
+    },
+    { onConflict: 'workspace_id,user_id' }
+  );
+
+  if (error) {
+    console.error('Error adding workspace member:', error);
+    return { error: 'Failed to add member' };
+  }
+
+  revalidatePath(`/workspaces/${workspaceId}`);
+  return { success: true };
+}
+
+/**
+ * Change a member's role (owners only)
+ */
+export async function updateWorkspaceMemberRole(workspaceId: string, userId: string, role: WorkspaceRole) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Unauthorized' };
+  }
+
+  if ((await getWorkspaceRole(workspaceId, user.id)) !== 'owner') {
+    return { error: 'Only workspace owners can change roles' };
+  }
+
+  const validation = workspaceMemberInviteSchema.shape.role.safeParse(role);
+  if (!validation.success) {
+    return { error: 'Invalid role' };
+  }
+
+  // Keep at least one owner so the workspace stays manageable
+  if (userId === user.id && validation.data !== 'owner') {
+    const { count } = await supabase
+      .from('workspace_members')
+      .select('*', { count: 'exact', head: true })
+      .eq('workspace_id', workspaceId)
+      .eq('role', 'owner');
+
+    if ((count ?? 0) <= 1) {
+      return { error: 'A workspace needs at least one owner' };
+    }
+  }
+
+  const { error } = await supabase
+    .from('workspace_members')
+    .update({ role: validation.data })
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error updating workspace member:', error);
+    return { error: 'Failed to update role' };
+  }
+
+  revalidatePath(`/workspaces/${workspaceId}`);
+  return { success: true };
+}
+
+/**
+ * Remove a member (owners), or leave a workspace
+ */
+export async function removeWorkspaceMember(workspaceId: string, userId: string) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Unauthorized' };
+  }
+
+  const role = await getWorkspaceRole(workspaceId, user.id);
+  if (!role || (userId !== user.id && role !== 'owner')) {
+    return { error: 'Only workspace owners can remove members' };
+  }
+
+  const memberRole = userId === user.id ? role : await getWorkspaceRole(workspaceId, userId);
+  if (memberRole === 'owner') {
+    const { count } = await supabase
+      .from('workspace_members')
+      .select('*', { count: 'exact', head: true })
+      .eq('workspace_id', workspaceId)
+      .eq('role', 'owner');
+
+    if ((count ?? 0) <= 1) {
+      return { error: 'A workspace needs at least one owner' };
+    }
+  }
+
+  const { error } = await supabase
+    .from('workspace_members')
+    .delete()
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error removing workspace member:', error);
+    return { error: 'Failed to remove member' };
+  }
+
+  revalidatePath('/workspaces');
+  revalidatePath(`/workspaces/${workspaceId}`);
+  return { success: true };
+}
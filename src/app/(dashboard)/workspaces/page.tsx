@@ -0,0 +1,63 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { Users } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { CreateWorkspaceDialog } from '@/components/workspaces/CreateWorkspaceDialog';
+import { FORM_ROLE_LABELS } from '@/lib/utils/form-permissions';
+import { getWorkspaces } from './actions';
+
+export const metadata: Metadata = {
+  title: 'Workspaces | StatQ',
+  description: 'Share forms with your team',
+};
+
+export default async function WorkspacesPage() {
+  const result = await getWorkspaces();
+  const workspaces = result.data || [];
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-4xl font-bold text-slate-900">Workspaces</h1>
+          <p className="mt-2 text-slate-600">Share forms with your team without sharing a login</p>
+        </div>
+        <CreateWorkspaceDialog />
+      </div>
+
+      {result.error && <p className="text-red-600">{result.error}</p>}
+
+      {!result.error && workspaces.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 px-4">
+          <div className="rounded-full bg-slate-100 p-6 mb-4">
+            <Users className="h-12 w-12 text-slate-400" />
+          </div>
+          <h3 className="text-2xl font-semibold text-slate-900 mb-2">No workspaces yet</h3>
+          <p className="text-slate-600 text-center max-w-sm">
+            Create a workspace, add your colleagues and move forms into it.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {workspaces.map((workspace) => (
+            <Link key={workspace.id} href={`/workspaces/${workspace.id}`}>
+              <Card className="bg-white/90 border-2 border-slate-200 hover:border-blue-400 hover:shadow-xl transition-all duration-200">
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <CardTitle className="text-lg">{workspace.name}</CardTitle>
+                  <Badge variant="outline">{FORM_ROLE_LABELS[workspace.role]}</Badge>
+                </CardHeader>
+                <CardContent className="flex items-center gap-1 text-sm text-slate-600">
+                  <Users className="h-4 w-4" />
+                  <span>
+                    {workspace.memberCount} {workspace.memberCount === 1 ? 'member' : 'members'}
+                  </span>
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { unlockForm } from './actions';
+
+interface FormPasswordGateProps {
+  formId: string;
+}
+
+export function FormPasswordGate({ formId }: FormPasswordGateProps) {
+  const router = useRouter();
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!password) {
+      setError('Password is required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    const result = await unlockForm(formId, password);
+
+    if (result.error) {
+      setError(result.error);
+      setIsSubmitting(false);
+    } else {
+      // Cookie is set; re-render the page server-side with access granted
+      router.refresh();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-slate-100 to-slate-200 flex items-center justify-center px-4">
+      <div className="w-full max-w-md">
+        <form
+          onSubmit={handleSubmit}
+          className="backdrop-blur-sm bg-white/90 rounded-xl border-2 border-slate-200 p-8 space-y-6"
+        >
+          <div className="text-center space-y-3">
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-blue-100">
+              <Lock className="h-8 w-8 text-blue-600" />
+            </div>
+            <h1 className="text-2xl font-bold">Password Required</h1>
+            <p className="text-slate-600">
+              This form is password protected. Enter the password to continue.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="form-password">Password</Label>
+            <Input
+              id="form-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoFocus
+              aria-invalid={!!error}
+              aria-describedby={error ? 'form-password-error' : undefined}
+            />
+            {error && (
+              <p id="form-password-error" className="text-sm text-red-600" role="alert">
+                {error}
+              </p>
+            )}
+          </div>
+
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {isSubmitting ? 'Checking...' : 'Continue'}
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { CalendarClock, CalendarX, Users, LogIn } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { getTimeRemaining } from '@/lib/utils/form-access';
+import type { FormAccessCheck } from '@/lib/utils/form-access';
+
+interface FormUnavailableProps {
+  reason: Exclude<FormAccessCheck['reason'], 'not_published' | 'password_required' | undefined>;
+  message?: string;
+  startsAt?: string; // ISO string
+}
+
+const REASON_CONFIG = {
+  not_started: { title: 'Opens Soon', icon: CalendarClock, color: 'bg-blue-100 text-blue-600' },
+  ended: { title: 'Form Closed', icon: CalendarX, color: 'bg-red-100 text-red-600' },
+  full: { title: 'Form Full', icon: Users, color: 'bg-amber-100 text-amber-600' },
+  login_required: { title: 'Sign In Required', icon: LogIn, color: 'bg-slate-100 text-slate-600' },
+} as const;
+
+export function FormUnavailable({ reason, message, startsAt }: FormUnavailableProps) {
+  const router = useRouter();
+  const config = REASON_CONFIG[reason];
+  const Icon = config.icon;
+
+  const [remaining, setRemaining] = useState(() =>
+    startsAt ? getTimeRemaining(new Date(startsAt)) : null
+  );
+
+  // Count down to the opening time, then reload the page so the form appears
+  useEffect(() => {
+    if (reason !== 'not_started' || !startsAt) return;
+
+    const interval = setInterval(() => {
+      const next = getTimeRemaining(new Date(startsAt));
+      setRemaining(next);
+      if (next.totalSeconds <= 0) {
+        clearInterval(interval);
+        router.refresh();
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [reason, startsAt, router]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-slate-100 to-slate-200 flex items-center justify-center px-4">
+      <div className="text-center max-w-md">
+        <div className="backdrop-blur-sm bg-white/90 rounded-xl border-2 border-slate-200 p-12">
+          <div className="flex justify-center mb-6">
+            <div className={`rounded-full p-4 ${config.color}`}>
+              <Icon className="h-16 w-16" />
+            </div>
+          </div>
+
+          <h1 className="text-3xl font-bold mb-4">{config.title}</h1>
+          {message && <p className="text-slate-600 mb-6">{message}</p>}
+
+          {reason === 'not_started' && remaining && remaining.totalSeconds > 0 && (
+            <div className="grid grid-cols-4 gap-2" aria-live="polite">
+              {[
+                { label: 'Days', value: remaining.days },
+                { label: 'Hours', value: remaining.hours },
+                { label: 'Minutes', value: remaining.minutes },
+                { label: 'Seconds', value: remaining.seconds },
+              ].map((unit) => (
+                <div key={unit.label} className="p-3 bg-slate-50 rounded-lg">
+                  <p className="text-2xl font-bold">{unit.value}</p>
+                  <p className="text-xs text-slate-500">{unit.label}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {reason === 'login_required' && (
+            <Link href="/login">
+              <Button>
+                <LogIn className="mr-2 h-4 w-4" />
+                Sign in
+              </Button>
+            </Link>
+          )}
+        </div>
+
+        <div className="mt-6 text-sm text-slate-500">
+          Powered by{' '}
+          <Link href="/" className="text-blue-600 hover:underline">
+            StatQ
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
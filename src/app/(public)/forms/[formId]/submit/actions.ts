@@ -2,50 +2,47 @@
 
 import { createClient } from '@/utils/supabase/server';
 import { revalidatePath } from 'next/cache';
-import type { FormWithQuestions } from '@/lib/types/form.types';
-import type { Response, Answer, AnswerValue } from '@/lib/types/response.types';
-import type { Question } from '@/lib/types/question.types';
+import { cookies } from 'next/headers';
+import type { Form, FormWithQuestions } from '@/lib/types/form.types';
+import type { Response, Answer, AnswerValue, FormResponse, BotCheck } from '@/lib/types/response.types';
 import { validateAnswer } from '@/lib/validations/answer.validation';
-
-interface FormWithQuestionsData {
-  id: string;
-  title: string;
-  description: string | null;
-  is_published: boolean;
-  display_mode: 'single' | 'scroll' | null;
-  schema_json: Record<string, unknown>;
-  user_id: string;
-  created_at: string;
-  updated_at: string;
-  questions: Array<{
-    id: string;
-    form_id: string;
-    type: string;
-    title: string;
-    description: string | null;
-    required: boolean;
-    order_index: number;
-    options: Record<string, unknown> | null;
-    logic_rules: unknown[] | null;
-    created_at: string;
-    updated_at: string;
-  }>;
-}
+import { validateResponseCompleteness } from '@/lib/validations/response.validation';
+import { notifyFormResponse } from '@/lib/jobs/notifications';
+import { emitWebhookEvent } from '@/lib/jobs/webhooks';
+import { invalidateFormCaches } from '@/lib/cache/analytics-cache';
+import { checkActionRateLimit, getRateLimitMessage } from '@/lib/rate-limit/middleware';
+import { FORM_COLUMNS, verifyFormPassword } from '@/lib/utils/form-access';
+import {
+  resolveFormAccess,
+  createFormAccessToken,
+  getFormAccessCookieName,
+  getFormPasswordHash,
+} from '@/lib/utils/server-form-access';
+import { createBotChallenge, getBotFlagReason } from '@/lib/utils/server-bot-protection';
+import { DEFAULT_MIN_COMPLETION_SECONDS } from '@/lib/utils/bot-protection';
+import { toPublishedForm } from '@/lib/utils/form-versions';
+import { getFormStructure, getPublishedFormVersion } from '@/lib/utils/server-form-versions';
 
 /**
  * Get a published form for respondents to fill out
+ * Questions and sections come from the published version, not the draft
  */
 export async function getPublishedForm(formId: string) {
+  const access = await resolveFormAccess(formId);
+
+  if (!access) {
+    return { error: 'Form not found or not published' };
+  }
+
+  if (!access.canAccess) {
+    return { error: access.message || 'This form is not available', access };
+  }
+
   const supabase = await createClient();
 
   const { data: form, error } = await supabase
     .from('forms')
-    .select(`
-      *,
-      questions (
-        *
-      )
-    `)
+    .select(FORM_COLUMNS)
     .eq('id', formId)
     .eq('is_published', true)
     .single();
@@ -55,37 +52,95 @@ export async function getPublishedForm(formId: string) {
     return { error: 'Form not found or not published' };
   }
 
-  const formWithQuestions = form as unknown as FormWithQuestionsData;
-
-  console.log('[getPublishedForm] Form fetched:', formWithQuestions.id);
-  console.log('[getPublishedForm] Questions count:', formWithQuestions.questions?.length || 0);
+  const version = await getPublishedFormVersion(supabase, formId);
+  if (!version) {
+    console.error('[getPublishedForm] Form has no published version:', formId);
+    return { error: 'Form not found or not published' };
+  }
 
-  // Sort questions by order_index
-  const sortedQuestions = (formWithQuestions.questions || []).sort(
-    (a, b) => a.order_index - b.order_index
-  );
+  const publishedForm = toPublishedForm(form as Form, version);
 
   return {
-    data: {
-      ...formWithQuestions,
-      questions: sortedQuestions,
-    } as FormWithQuestions,
+    data: publishedForm as FormWithQuestions,
+    access,
   };
 }
 
+/**
+ * Unlock a password-protected form for this browser
+ */
+export async function unlockForm(formId: string, password: string) {
+  const supabase = await createClient();
+
+  const { data: form, error } = await supabase
+    .from('forms')
+    .select('has_password')
+    .eq('id', formId)
+    .eq('is_published', true)
+    .single();
+
+  if (error || !form) {
+    return { error: 'Form not found or not published' };
+  }
+
+  if (!form.has_password) {
+    return { data: { unlocked: true } };
+  }
+
+  const passwordHash = await getFormPasswordHash(formId);
+  if (!passwordHash) {
+    return { error: 'This form cannot be unlocked right now. Please try again later.' };
+  }
+
+  const isValid = await verifyFormPassword(password, passwordHash);
+  if (!isValid) {
+    return { error: 'Incorrect password' };
+  }
+
+  const cookieStore = await cookies();
+  cookieStore.set(getFormAccessCookieName(formId), createFormAccessToken(formId, passwordHash), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: 60 * 60 * 12, // 12 hours
+  });
+
+  return { data: { unlocked: true } };
+}
+
 /**
  * Start a new response (creates a response record)
  */
 export async function startResponse(formId: string, respondentEmail?: string, respondentName?: string) {
+  const access = await resolveFormAccess(formId);
+  if (!access || !access.canAccess) {
+    return { error: access?.message || 'Form not found or not published' };
+  }
+
   const supabase = await createClient();
 
   // Get current user (if authenticated)
   const { data: { user } } = await supabase.auth.getUser();
 
+  // Each started response counts as a submission: 10 per hour per IP (or user)
+  const rateLimit = await checkActionRateLimit('formSubmission', 'startResponse', user?.id);
+  if (!rateLimit.success) {
+    return { error: getRateLimitMessage(rateLimit) };
+  }
+
+  // Answers are validated against the version the respondent was shown
+  const { data: form } = await supabase
+    .from('forms')
+    .select('published_version_id')
+    .eq('id', formId)
+    .single();
+
   const { data: response, error } = await supabase
     .from('responses')
     .insert({
       form_id: formId,
+      form_version_id: form?.published_version_id ?? null,
       respondent_id: user?.id || null,  // Set respondent_id if user is authenticated
       respondent_email: respondentEmail || null,
       respondent_name: respondentName || null,
@@ -100,9 +155,32 @@ export async function startResponse(formId: string, respondentEmail?: string, re
     return { error: 'Failed to start response' };
   }
 
+  await emitWebhookEvent(formId, 'response.started', response.id);
+
   return { data: response as Response };
 }
 
+/**
+ * Get a proof-of-work challenge for a response on a bot-protected form.
+ * Returns null data when the form has bot protection off.
+ */
+export async function getBotChallenge(responseId: string) {
+  const supabase = await createClient();
+
+  const { data: response, error } = await supabase
+    .from('responses')
+    .select('form_id, forms (bot_protection)')
+    .eq('id', responseId)
+    .single();
+
+  if (error || !response) {
+    return { error: 'Response not found' };
+  }
+
+  const form = response.forms as unknown as { bot_protection: boolean | null } | null;
+  return { data: form?.bot_protection ? createBotChallenge(responseId) : null };
+}
+
 /**
  * Save or update an answer (auto-save)
  */
@@ -111,21 +189,33 @@ export async function saveAnswer(
   questionId: string,
   value: AnswerValue
 ) {
+  const rateLimit = await checkActionRateLimit('answerSave', 'saveAnswer');
+  if (!rateLimit.success) {
+    return { error: getRateLimitMessage(rateLimit) };
+  }
+
   const supabase = await createClient();
 
-  // Fetch the question to validate against
-  const { data: question, error: questionError } = await supabase
-    .from('questions')
-    .select('*')
-    .eq('id', questionId)
+  const { data: response, error: responseError } = await supabase
+    .from('responses')
+    .select('form_id, form_version_id')
+    .eq('id', responseId)
     .single();
 
-  if (questionError || !question) {
+  if (responseError || !response) {
+    return { error: 'Response not found' };
+  }
+
+  // Validate against the question as it is in the version being answered
+  const structure = await getFormStructure(supabase, response.form_id, response.form_version_id);
+  const question = structure?.questions.find((q) => q.id === questionId);
+
+  if (!question) {
     return { error: 'Question not found' };
   }
 
   // Validate the answer value
-  const validation = validateAnswer(question as unknown as Question, value);
+  const validation = validateAnswer(question, value);
   if (!validation.valid) {
     return { error: validation.error || 'Invalid answer' };
   }
@@ -155,6 +245,8 @@ export async function saveAnswer(
       return { error: 'Failed to save answer' };
     }
 
+    await invalidateFormCaches(response.form_id);
+
     return { data: data as Answer };
   } else {
     // Insert new answer
@@ -173,22 +265,135 @@ export async function saveAnswer(
       return { error: 'Failed to save answer' };
     }
 
+    await invalidateFormCaches(response.form_id);
+
     return { data: data as Answer };
   }
 }
 
 /**
  * Submit a response (mark as complete)
+ * On bot-protected forms, botCheck carries the honeypot value and the solved
+ * challenge; a response failing the checks is still submitted but flagged.
  */
-export async function submitResponse(responseId: string) {
+export async function submitResponse(responseId: string, botCheck?: BotCheck) {
   const supabase = await createClient();
 
+  const { data: existingResponse, error: fetchError } = await supabase
+    .from('responses')
+    .select('form_id, form_version_id, started_at, forms (bot_protection, min_completion_seconds)')
+    .eq('id', responseId)
+    .single();
+
+  if (fetchError || !existingResponse) {
+    return { error: 'Response not found' };
+  }
+
+  // Re-check schedule, response cap and password at submission time
+  const access = await resolveFormAccess(existingResponse.form_id);
+  if (!access || !access.canAccess) {
+    return { error: access?.message || 'Form not found or not published' };
+  }
+
+  // Re-evaluate conditional logic against the stored answers; the client's
+  // own required checks cannot be trusted. The questions are those of the
+  // version the response was started on.
+  const [structure, { data: storedAnswers, error: answersError }] = await Promise.all([
+    getFormStructure(supabase, existingResponse.form_id, existingResponse.form_version_id),
+    supabase
+      .from('answers')
+      .select('id, question_id, value_json')
+      .eq('response_id', responseId),
+  ]);
+
+  if (!structure || answersError) {
+    console.error('Error loading response for validation:', answersError);
+    return { error: 'Failed to submit response' };
+  }
+
+  const answerMap: FormResponse = {};
+  (storedAnswers || []).forEach((answer) => {
+    answerMap[answer.question_id] = answer.value_json as AnswerValue;
+  });
+
+  const completeness = validateResponseCompleteness(structure.questions, answerMap, structure.sections);
+
+  if (!completeness.valid) {
+    return {
+      error: 'Please answer all required questions',
+      questionErrors: completeness.errors,
+    };
+  }
+
+  // Discard answers to questions that ended up hidden
+  const hiddenAnswerIds = (storedAnswers || [])
+    .filter((answer) => completeness.hiddenQuestionIds.includes(answer.question_id))
+    .map((answer) => answer.id);
+
+  if (hiddenAnswerIds.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('answers')
+      .delete()
+      .in('id', hiddenAnswerIds);
+
+    if (deleteError) {
+      console.error('Error discarding hidden answers:', deleteError);
+      return { error: 'Failed to submit response' };
+    }
+  }
+
+  // Store calculated values server-side so they don't depend on the client
+  const calculatedEntries = Object.entries(completeness.calculatedAnswers);
+  if (calculatedEntries.length > 0) {
+    const storedByQuestion = new Map((storedAnswers || []).map((answer) => [answer.question_id, answer.id]));
+
+    const results = await Promise.all(
+      calculatedEntries.map(([questionId, value]) => {
+        const valueJson = value as unknown as Record<string, unknown>;
+        const answerId = storedByQuestion.get(questionId);
+
+        return answerId
+          ? supabase
+              .from('answers')
+              .update({ value_json: valueJson, updated_at: new Date().toISOString() })
+              .eq('id', answerId)
+          : supabase
+              .from('answers')
+              .insert({ response_id: responseId, question_id: questionId, value_json: valueJson });
+      })
+    );
+
+    const calculatedError = results.find((result) => result.error)?.error;
+    if (calculatedError) {
+      console.error('Error saving calculated answers:', calculatedError);
+      return { error: 'Failed to submit response' };
+    }
+  }
+
+  const botSettings = existingResponse.forms as unknown as {
+    bot_protection: boolean | null;
+    min_completion_seconds: number | null;
+  } | null;
+
+  const flagReason = botSettings?.bot_protection
+    ? getBotFlagReason({
+        responseId,
+        check: botCheck,
+        startedAt: existingResponse.started_at,
+        minCompletionSeconds: botSettings.min_completion_seconds ?? DEFAULT_MIN_COMPLETION_SECONDS,
+      })
+    : null;
+
   const { data: response, error } = await supabase
     .from('responses')
     .update({
       is_complete: true,
       submitted_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
+      // Flagged automatically, so there is no flagging user
+      ...(flagReason
+        ? { is_flagged: true, flag_reason: flagReason, flagged_at: new Date().toISOString(), flagged_by: null }
+        : {}),
     })
     .eq('id', responseId)
     .select()
@@ -200,6 +405,34 @@ export async function submitResponse(responseId: string) {
   }
 
   revalidatePath(`/forms/${response.form_id}/submit`);
+  await invalidateFormCaches(response.form_id);
+
+  // Email the form owner; a notification failure must not fail the submission
+  try {
+    const { data: form } = await supabase
+      .from('forms')
+      .select('title, user_id')
+      .eq('id', response.form_id)
+      .single();
+
+    if (form) {
+      await notifyFormResponse(form.user_id, {
+        formId: response.form_id,
+        formTitle: form.title,
+        responseId: response.id,
+        respondentName: response.respondent_name,
+        respondentEmail: response.respondent_email,
+        submittedAt: response.submitted_at,
+      });
+    }
+  } catch (notifyError) {
+    console.error('Error queueing response notification:', notifyError);
+  }
+
+  await emitWebhookEvent(response.form_id, 'response.submitted', response.id);
+  if (flagReason) {
+    await emitWebhookEvent(response.form_id, 'response.flagged', response.id);
+  }
 
   return { data: response as Response };
 }
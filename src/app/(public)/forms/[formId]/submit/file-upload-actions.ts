@@ -7,6 +7,7 @@
 
 import { uploadFile, uploadFiles, validateFiles } from '@/utils/supabase/storage';
 import { nanoid } from 'nanoid';
+import { checkActionRateLimit, getRateLimitMessage } from '@/lib/rate-limit/middleware';
 
 export interface UploadedFileMetadata {
   id: string;
@@ -41,6 +42,12 @@ export async function uploadResponseFile(
     throw new Error('No file provided');
   }
 
+  // Identified by IP: userId comes from the client and may be an anonymous ID
+  const rateLimit = await checkActionRateLimit('fileUpload', 'uploadResponseFile');
+  if (!rateLimit.success) {
+    throw new Error(getRateLimitMessage(rateLimit));
+  }
+
   try {
     // Validate file
     validateFiles([file], 1, maxSizeMB, allowedTypes);
@@ -93,6 +100,11 @@ export async function uploadResponseFiles(
     throw new Error('No files provided');
   }
 
+  const rateLimit = await checkActionRateLimit('fileUpload', 'uploadResponseFiles');
+  if (!rateLimit.success) {
+    throw new Error(getRateLimitMessage(rateLimit));
+  }
+
   try {
     // Validate all files
     validateFiles(files, maxFiles, maxSizeMB, allowedTypes);
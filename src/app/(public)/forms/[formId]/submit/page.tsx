@@ -1,6 +1,8 @@
 import { redirect } from 'next/navigation';
 import { getPublishedForm } from './actions';
 import { FormSubmitClient } from './FormSubmitClient';
+import { FormPasswordGate } from './FormPasswordGate';
+import { FormUnavailable } from './FormUnavailable';
 
 interface PageProps {
   params: Promise<{ formId: string }>;
@@ -11,6 +13,24 @@ export default async function FormSubmitPage({ params }: PageProps) {
 
   const result = await getPublishedForm(formId);
 
+  if (result.access && !result.access.canAccess) {
+    const { reason, message, startsAt } = result.access;
+
+    if (reason === 'password_required') {
+      return <FormPasswordGate formId={formId} />;
+    }
+
+    if (reason && reason !== 'not_published') {
+      return (
+        <FormUnavailable
+          reason={reason}
+          message={message}
+          startsAt={startsAt?.toISOString()}
+        />
+      );
+    }
+  }
+
   if (result.error || !result.data) {
     redirect('/404');
   }
@@ -5,7 +5,15 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/utils/supabase/server';
-import { rateLimits, getRateLimitIdentifier, checkRateLimit, getRateLimitHeaders } from '@/lib/rate-limit/config';
+import { checkFormPermission } from '@/lib/utils/server-form-permissions';
+import type { DailyResponseSummary } from '@/lib/types/response.types';
+import {
+  rateLimits,
+  getRateLimitIdentifier,
+  getRateLimitContext,
+  checkRateLimit,
+  getRateLimitHeaders,
+} from '@/lib/rate-limit/config';
 
 export async function GET(
   request: NextRequest,
@@ -19,7 +27,7 @@ export async function GET(
 
   // Apply rate limiting (60 requests per minute per user)
   const identifier = getRateLimitIdentifier(request, user?.id);
-  const rateLimitResult = await checkRateLimit(rateLimits.analytics, identifier);
+  const rateLimitResult = await checkRateLimit(rateLimits.analytics, identifier, getRateLimitContext(request));
 
   if (!rateLimitResult.success) {
     return NextResponse.json(
@@ -46,56 +54,48 @@ export async function GET(
   }
 
   try {
-    // Verify user owns the form
-    const { data: form, error: formError } = await supabase
-      .from('forms')
-      .select('id, user_id')
-      .eq('id', formId)
-      .single();
+    // Verify user has access to the form
+    const permission = await checkFormPermission(formId, 'view');
 
-    if (formError || !form || form.user_id !== user.id) {
+    if (!permission.allowed) {
       return NextResponse.json(
         { error: 'Form not found or unauthorized' },
         { status: 404, headers: getRateLimitHeaders(rateLimitResult) }
       );
     }
 
-    // Get response statistics
-    const { count: totalResponses } = await supabase
-      .from('responses')
-      .select('*', { count: 'exact', head: true })
-      .eq('form_id', formId);
+    // Daily totals from the aggregate function, which viewers may call too
+    const { data: summary, error: summaryError } = await supabase.rpc('get_form_response_summary', {
+      form_uuid: formId,
+    });
+
+    if (summaryError) {
+      throw summaryError;
+    }
 
-    const { count: completedResponses } = await supabase
-      .from('responses')
-      .select('*', { count: 'exact', head: true })
-      .eq('form_id', formId)
-      .eq('is_complete', true);
+    const days = (summary || []) as DailyResponseSummary[];
+    const totalResponses = days.reduce((sum, day) => sum + day.total_responses, 0);
+    const completedResponses = days.reduce((sum, day) => sum + day.completed_responses, 0);
 
-    // Get recent responses (last 7 days)
+    // Responses per day over the last 7 days
     const sevenDaysAgo = new Date();
     sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
+    const cutoff = sevenDaysAgo.toISOString().split('T')[0];
 
-    const { data: recentResponses } = await supabase
-      .from('responses')
-      .select('created_at')
-      .eq('form_id', formId)
-      .gte('created_at', sevenDaysAgo.toISOString());
-
-    // Group by day
     const responsesByDay: Record<string, number> = {};
-    recentResponses?.forEach((response) => {
-      const date = new Date(response.created_at).toISOString().split('T')[0];
-      responsesByDay[date] = (responsesByDay[date] || 0) + 1;
-    });
+    days
+      .filter((day) => day.response_date >= cutoff)
+      .forEach((day) => {
+        responsesByDay[day.response_date] = day.total_responses;
+      });
 
     return NextResponse.json(
       {
         success: true,
         data: {
-          totalResponses: totalResponses || 0,
-          completedResponses: completedResponses || 0,
-          incompleteResponses: (totalResponses || 0) - (completedResponses || 0),
+          totalResponses,
+          completedResponses,
+          incompleteResponses: totalResponses - completedResponses,
           responsesByDay,
         },
       },
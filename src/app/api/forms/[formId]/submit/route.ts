@@ -1,12 +1,25 @@
 /**
  * Form Submission API Route
- * Handles form responses with rate limiting
+ * Handles form responses with rate limiting and form access enforcement
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/utils/supabase/server';
 import { withRateLimit } from '@/lib/rate-limit/middleware';
-import { rateLimits, getRateLimitIdentifier, checkRateLimit, getRateLimitHeaders } from '@/lib/rate-limit/config';
+import {
+  rateLimits,
+  getRateLimitIdentifier,
+  getRateLimitContext,
+  checkRateLimit,
+  getRateLimitHeaders,
+} from '@/lib/rate-limit/config';
+import { resolveFormAccess } from '@/lib/utils/server-form-access';
+import { validateResponseCompleteness } from '@/lib/validations/response.validation';
+import { invalidateFormCaches } from '@/lib/cache/analytics-cache';
+import { emitWebhookEvent } from '@/lib/jobs/webhooks';
+import { getVersionQuestions, getVersionSections } from '@/lib/utils/form-versions';
+import { getPublishedFormVersion } from '@/lib/utils/server-form-versions';
+import type { FormResponse } from '@/lib/types/response.types';
 
 export async function POST(
   request: NextRequest,
@@ -16,7 +29,7 @@ export async function POST(
 
   // Apply rate limiting (10 submissions per hour per IP)
   const identifier = getRateLimitIdentifier(request);
-  const rateLimitResult = await checkRateLimit(rateLimits.formSubmission, identifier);
+  const rateLimitResult = await checkRateLimit(rateLimits.formSubmission, identifier, getRateLimitContext(request));
 
   if (!rateLimitResult.success) {
     return NextResponse.json(
@@ -46,48 +59,85 @@ export async function POST(
       );
     }
 
-    const supabase = await createClient();
-
-    // Get form to verify it exists and is published
-    const { data: form, error: formError } = await supabase
-      .from('forms')
-      .select('id, status, require_authentication')
-      .eq('id', formId)
-      .single();
+    // Verify the form exists and is accepting responses
+    // (published, within schedule, under its cap, login/password satisfied)
+    const access = await resolveFormAccess(formId);
 
-    if (formError || !form) {
+    if (!access) {
       return NextResponse.json(
         { error: 'Form not found' },
         { status: 404, headers: getRateLimitHeaders(rateLimitResult) }
       );
     }
 
-    if (form.status !== 'published') {
+    if (!access.canAccess) {
+      const status = access.reason === 'login_required' || access.reason === 'password_required'
+        ? 401
+        : 403;
+
       return NextResponse.json(
-        { error: 'Form is not accepting responses' },
-        { status: 403, headers: getRateLimitHeaders(rateLimitResult) }
+        {
+          error: 'Form is not accepting responses',
+          reason: access.reason,
+          message: access.message,
+        },
+        { status, headers: getRateLimitHeaders(rateLimitResult) }
       );
     }
 
-    // Check authentication requirement
-    if (form.require_authentication) {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        return NextResponse.json(
-          { error: 'Authentication required' },
-          { status: 401, headers: getRateLimitHeaders(rateLimitResult) }
-        );
-      }
+    const supabase = await createClient();
+
+    // Check required questions against the published version's conditional logic
+    const [published, { data: form }] = await Promise.all([
+      getPublishedFormVersion(supabase, formId),
+      supabase
+        .from('forms')
+        .select('bot_protection')
+        .eq('id', formId)
+        .single(),
+    ]);
+
+    if (!published) {
+      return NextResponse.json(
+        { error: 'Form not found' },
+        { status: 404, headers: getRateLimitHeaders(rateLimitResult) }
+      );
     }
 
+    const completeness = validateResponseCompleteness(
+      getVersionQuestions(published),
+      answers as FormResponse,
+      getVersionSections(published)
+    );
+
+    if (!completeness.valid) {
+      return NextResponse.json(
+        {
+          error: 'Missing required answers',
+          questionErrors: completeness.errors,
+        },
+        { status: 422, headers: getRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
+    // This endpoint can't carry a bot protection challenge, so on protected
+    // forms its submissions are accepted but flagged for review
+    const flagReason = form?.bot_protection
+      ? 'Possible bot: submitted without the bot protection check'
+      : null;
+
     // Create response record
     const { data: response, error: responseError } = await supabase
       .from('responses')
       .insert({
         form_id: formId,
+        form_version_id: published.id,
         respondent_email: respondentEmail,
         is_complete: true,
         submitted_at: new Date().toISOString(),
+        ...(flagReason
+          ? { is_flagged: true, flag_reason: flagReason, flagged_at: new Date().toISOString() }
+          : {}),
       })
       .select()
       .single();
@@ -101,11 +151,15 @@ export async function POST(
     }
 
     // Insert answers
-    const answerRecords = Object.entries(answers).map(([questionId, value]) => ({
-      response_id: response.id,
-      question_id: questionId,
-      value,
-    }));
+    // Answers to questions hidden by logic are discarded; calculated values
+    // are computed here rather than trusted from the client
+    const answerRecords = Object.entries({ ...answers, ...completeness.calculatedAnswers })
+      .filter(([questionId]) => !completeness.hiddenQuestionIds.includes(questionId))
+      .map(([questionId, value]) => ({
+        response_id: response.id,
+        question_id: questionId,
+        value,
+      }));
 
     const { error: answersError } = await supabase
       .from('answers')
@@ -121,6 +175,12 @@ export async function POST(
       );
     }
 
+    await invalidateFormCaches(formId);
+    await emitWebhookEvent(formId, 'response.submitted', response.id);
+    if (flagReason) {
+      await emitWebhookEvent(formId, 'response.flagged', response.id);
+    }
+
     return NextResponse.json(
       {
         success: true,
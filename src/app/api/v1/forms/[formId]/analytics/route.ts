@@ -0,0 +1,86 @@
+/**
+ * GET /api/v1/forms/{formId}/analytics
+ * Response totals, per-question statistics and daily trends, from the same
+ * database views (and cache entries) as the analytics dashboard
+ */
+
+import { withApiKey, apiError, apiJson, requireFormPermission } from '@/lib/api/v1';
+import { apiAnalyticsQuerySchema } from '@/lib/validations/api.validation';
+import {
+  getCachedFormStats,
+  cacheFormStats,
+  getCachedQuestionStats,
+  cacheQuestionStats,
+  getCachedDailyTrends,
+  cacheDailyTrends,
+} from '@/lib/cache/analytics-cache';
+
+export const GET = withApiKey<{ formId: string }>('analytics:read', async (ctx, { formId }) => {
+  const denied = await requireFormPermission(ctx, formId, 'view');
+  if (denied) return denied;
+
+  const query = apiAnalyticsQuerySchema.safeParse(Object.fromEntries(ctx.request.nextUrl.searchParams));
+  if (!query.success) {
+    return apiError(ctx, 400, 'Invalid query', { message: query.error.issues[0].message });
+  }
+
+  const { supabase } = ctx;
+  const { days } = query.data;
+
+  const [cachedSummary, cachedQuestions, cachedTrends] = await Promise.all([
+    getCachedFormStats<Record<string, unknown>>(formId),
+    getCachedQuestionStats<Record<string, unknown>[]>(formId),
+    getCachedDailyTrends<Record<string, unknown>[]>(formId, days),
+  ]);
+
+  let summary = cachedSummary;
+  let questions = cachedQuestions;
+  let dailyTrends = cachedTrends;
+
+  if (!summary) {
+    const { data, error } = await supabase.from('form_response_stats').select('*').eq('form_id', formId).single();
+    if (error) {
+      console.error('[API v1] Error fetching form stats:', error);
+      return apiError(ctx, 500, 'Failed to fetch analytics');
+    }
+    summary = data;
+    await cacheFormStats(formId, data);
+  }
+
+  if (!questions) {
+    const { data, error } = await supabase
+      .from('question_response_stats')
+      .select('*')
+      .eq('form_id', formId)
+      .order('question_id');
+    if (error) {
+      console.error('[API v1] Error fetching question stats:', error);
+      return apiError(ctx, 500, 'Failed to fetch analytics');
+    }
+    questions = data || [];
+    await cacheQuestionStats(formId, questions);
+  }
+
+  if (!dailyTrends) {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - days);
+
+    const { data, error } = await supabase
+      .from('daily_response_trends')
+      .select('*')
+      .eq('form_id', formId)
+      .gte('response_date', cutoffDate.toISOString().split('T')[0])
+      .order('response_date', { ascending: true });
+    if (error) {
+      console.error('[API v1] Error fetching daily trends:', error);
+      return apiError(ctx, 500, 'Failed to fetch analytics');
+    }
+    dailyTrends = data || [];
+    await cacheDailyTrends(formId, days, dailyTrends);
+  }
+
+  return apiJson(ctx, {
+    success: true,
+    data: { summary, questions, daily_trends: dailyTrends },
+  });
+});
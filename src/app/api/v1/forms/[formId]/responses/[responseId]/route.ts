@@ -0,0 +1,45 @@
+/**
+ * GET /api/v1/forms/{formId}/responses/{responseId}
+ * One response with its answers, labelled with question titles
+ */
+
+import { withApiKey, apiError, apiJson, requireFormPermission } from '@/lib/api/v1';
+import { buildWebhookResponse, type WebhookResponseRow } from '@/lib/utils/webhooks';
+import type { Question } from '@/lib/types/question.types';
+
+export const GET = withApiKey<{ formId: string; responseId: string }>(
+  'responses:read',
+  async (ctx, { formId, responseId }) => {
+    const denied = await requireFormPermission(ctx, formId, 'view_responses');
+    if (denied) return denied;
+
+    const { supabase } = ctx;
+
+    const [responseResult, questionsResult] = await Promise.all([
+      supabase
+        .from('responses')
+        .select('*, answers (question_id, value_json)')
+        .eq('id', responseId)
+        .eq('form_id', formId)
+        .maybeSingle(),
+      supabase.from('questions').select('*').eq('form_id', formId),
+    ]);
+
+    if (responseResult.error || questionsResult.error) {
+      console.error('[API v1] Error fetching response:', responseResult.error || questionsResult.error);
+      return apiError(ctx, 500, 'Failed to fetch response');
+    }
+
+    if (!responseResult.data) {
+      return apiError(ctx, 404, 'Response not found');
+    }
+
+    return apiJson(ctx, {
+      success: true,
+      data: buildWebhookResponse(
+        responseResult.data as WebhookResponseRow,
+        (questionsResult.data || []) as unknown as Question[]
+      ),
+    });
+  }
+);
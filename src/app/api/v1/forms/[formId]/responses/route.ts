@@ -0,0 +1,168 @@
+/**
+ * GET  /api/v1/forms/{formId}/responses  - page through a form's responses
+ * POST /api/v1/forms/{formId}/responses  - record a completed response
+ */
+
+import { withApiKey, apiError, apiJson, requireFormPermission } from '@/lib/api/v1';
+import { apiCreateResponseSchema, apiListResponsesQuerySchema } from '@/lib/validations/api.validation';
+import { validateResponseCompleteness } from '@/lib/validations/response.validation';
+import { validateAnswer } from '@/lib/validations/answer.validation';
+import { fetchPaginatedResponses, InvalidCursorError } from '@/lib/utils/response-query';
+import { buildWebhookResponse, type WebhookResponseRow } from '@/lib/utils/webhooks';
+import { invalidateFormCaches } from '@/lib/cache/analytics-cache';
+import { emitWebhookEvent } from '@/lib/jobs/webhooks';
+import { getFormStructure, getPublishedFormVersion } from '@/lib/utils/server-form-versions';
+import type { AnswerValue, FormResponse } from '@/lib/types/response.types';
+
+export const GET = withApiKey<{ formId: string }>('responses:read', async (ctx, { formId }) => {
+  const denied = await requireFormPermission(ctx, formId, 'view_responses');
+  if (denied) return denied;
+
+  const query = apiListResponsesQuerySchema.safeParse(Object.fromEntries(ctx.request.nextUrl.searchParams));
+  if (!query.success) {
+    return apiError(ctx, 400, 'Invalid query', { message: query.error.issues[0].message });
+  }
+
+  try {
+    const page = await fetchPaginatedResponses(ctx.supabase, formId, {
+      limit: query.data.limit,
+      cursor: query.data.cursor,
+      sortBy: query.data.sort_by,
+      sortOrder: query.data.sort_order,
+    });
+
+    return apiJson(ctx, {
+      success: true,
+      data: page.data,
+      next_cursor: page.nextCursor,
+      has_more: page.hasMore,
+    });
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return apiError(ctx, 400, 'Invalid query', { message: 'cursor is not a response of this form' });
+    }
+    throw error;
+  }
+});
+
+export const POST = withApiKey<{ formId: string }>('responses:write', async (ctx, { formId }) => {
+  const denied = await requireFormPermission(ctx, formId, 'manage_responses');
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await ctx.request.json();
+  } catch {
+    return apiError(ctx, 400, 'Invalid request', { message: 'Body must be JSON' });
+  }
+
+  const validation = apiCreateResponseSchema.safeParse(body);
+  if (!validation.success) {
+    return apiError(ctx, 400, 'Invalid request', { message: validation.error.issues[0].message });
+  }
+
+  const { supabase } = ctx;
+  const { answers, respondent_email, respondent_name } = validation.data;
+
+  // Responses are recorded against the published version, or the draft of a never-published form
+  const published = await getPublishedFormVersion(supabase, formId);
+  const structure = await getFormStructure(supabase, formId, published?.id ?? null);
+
+  if (!structure) {
+    return apiError(ctx, 500, 'Failed to create response');
+  }
+
+  const formQuestions = structure.questions;
+  const questionsById = new Map(formQuestions.map((question) => [question.id, question]));
+  const unknownIds = Object.keys(answers).filter((questionId) => !questionsById.has(questionId));
+
+  if (unknownIds.length > 0) {
+    return apiError(ctx, 400, 'Invalid request', {
+      message: 'answers contains ids that are not questions of this form',
+      questionIds: unknownIds,
+    });
+  }
+
+  // Same checks as a respondent's submission: required questions, logic, calculations
+  const completeness = validateResponseCompleteness(
+    formQuestions,
+    answers as FormResponse,
+    structure.sections
+  );
+
+  if (!completeness.valid) {
+    return apiError(ctx, 422, 'Missing required answers', { questionErrors: completeness.errors });
+  }
+
+  // Each kept answer must fit its question, as in a respondent's auto-save;
+  // hidden answers are discarded and calculated ones recomputed below
+  const answerErrors: Record<string, string> = {};
+  Object.entries(answers).forEach(([questionId, value]) => {
+    if (completeness.hiddenQuestionIds.includes(questionId) || questionId in completeness.calculatedAnswers) {
+      return;
+    }
+    const question = questionsById.get(questionId);
+    const result = question ? validateAnswer(question, value as AnswerValue) : { valid: false };
+    if (!result.valid) {
+      answerErrors[questionId] = result.error || 'Invalid answer';
+    }
+  });
+
+  if (Object.keys(answerErrors).length > 0) {
+    return apiError(ctx, 422, 'Invalid answers', { questionErrors: answerErrors });
+  }
+
+  const now = new Date().toISOString();
+
+  const { data: response, error: responseError } = await supabase
+    .from('responses')
+    .insert({
+      form_id: formId,
+      form_version_id: published?.id ?? null,
+      respondent_email: respondent_email ?? null,
+      respondent_name: respondent_name ?? null,
+      is_complete: true,
+      started_at: now,
+      submitted_at: now,
+    })
+    .select()
+    .single();
+
+  if (responseError || !response) {
+    console.error('[API v1] Error creating response:', responseError);
+    return apiError(ctx, 500, 'Failed to create response');
+  }
+
+  // Answers to questions hidden by logic are discarded; calculated values
+  // are computed here rather than trusted from the caller
+  const answerRecords = Object.entries({ ...answers, ...completeness.calculatedAnswers })
+    .filter(([questionId]) => !completeness.hiddenQuestionIds.includes(questionId))
+    .map(([questionId, value]) => ({
+      response_id: response.id,
+      question_id: questionId,
+      value_json: value,
+    }));
+
+  const { data: savedAnswers, error: answersError } = answerRecords.length > 0
+    ? await supabase.from('answers').insert(answerRecords).select('question_id, value_json')
+    : { data: [], error: null };
+
+  if (answersError) {
+    console.error('[API v1] Error inserting answers:', answersError);
+    // Clean up response if answers failed
+    await supabase.from('responses').delete().eq('id', response.id);
+    return apiError(ctx, 500, 'Failed to create response');
+  }
+
+  await invalidateFormCaches(formId);
+  await emitWebhookEvent(formId, 'response.submitted', response.id);
+
+  return apiJson(
+    ctx,
+    {
+      success: true,
+      data: buildWebhookResponse({ ...response, answers: savedAnswers || [] } as WebhookResponseRow, formQuestions),
+    },
+    201
+  );
+});
@@ -0,0 +1,46 @@
+/**
+ * GET /api/v1/forms/{formId}
+ * A form with its sections and questions, in order
+ */
+
+import { withApiKey, apiError, apiJson, requireFormPermission, API_FORM_COLUMNS } from '@/lib/api/v1';
+
+export const GET = withApiKey<{ formId: string }>('forms:read', async (ctx, { formId }) => {
+  const denied = await requireFormPermission(ctx, formId, 'view');
+  if (denied) return denied;
+
+  const { supabase } = ctx;
+
+  const [formResult, sectionsResult, questionsResult] = await Promise.all([
+    supabase.from('forms').select(API_FORM_COLUMNS).eq('id', formId).single(),
+    supabase
+      .from('form_sections')
+      .select('id, title, description, order_index')
+      .eq('form_id', formId)
+      .order('order_index', { ascending: true }),
+    supabase
+      .from('questions')
+      .select('id, section_id, type, title, description, required, order_index, options, logic_rules, advanced_logic_rules')
+      .eq('form_id', formId)
+      .is('deleted_at', null)
+      .order('order_index', { ascending: true }),
+  ]);
+
+  if (formResult.error || !formResult.data) {
+    return apiError(ctx, 404, 'Form not found');
+  }
+
+  if (sectionsResult.error || questionsResult.error) {
+    console.error('[API v1] Error fetching form structure:', sectionsResult.error || questionsResult.error);
+    return apiError(ctx, 500, 'Failed to fetch form');
+  }
+
+  return apiJson(ctx, {
+    success: true,
+    data: {
+      ...formResult.data,
+      sections: sectionsResult.data || [],
+      questions: questionsResult.data || [],
+    },
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * GET /api/v1/forms
+ * Forms the API key's owner owns or has been given a role on
+ */
+
+import { withApiKey, apiError, apiJson, API_FORM_COLUMNS } from '@/lib/api/v1';
+import { highestRole } from '@/lib/utils/form-permissions';
+import type { FormRole } from '@/lib/types/workspace.types';
+
+export const GET = withApiKey('forms:read', async (ctx) => {
+  const { supabase, userId } = ctx;
+  const includeArchived = ctx.request.nextUrl.searchParams.get('include_archived') === 'true';
+
+  const [{ data: grants }, { data: memberships }] = await Promise.all([
+    supabase.from('form_collaborators').select('form_id, role').eq('user_id', userId),
+    supabase.from('workspace_members').select('workspace_id, role').eq('user_id', userId),
+  ]);
+
+  const formRoles = new Map<string, FormRole>(
+    (grants || []).map((grant) => [grant.form_id as string, grant.role as FormRole])
+  );
+  const workspaceRoles = new Map<string, FormRole>(
+    (memberships || []).map((member) => [member.workspace_id as string, member.role as FormRole])
+  );
+
+  const filters = [`user_id.eq.${userId}`];
+  if (formRoles.size > 0) {
+    filters.push(`id.in.(${[...formRoles.keys()].join(',')})`);
+  }
+  if (workspaceRoles.size > 0) {
+    filters.push(`workspace_id.in.(${[...workspaceRoles.keys()].join(',')})`);
+  }
+
+  let query = supabase
+    .from('forms')
+    .select(`${API_FORM_COLUMNS}, user_id`)
+    .or(filters.join(','))
+    .order('updated_at', { ascending: false });
+
+  if (!includeArchived) {
+    query = query.or('is_archived.is.null,is_archived.eq.false');
+  }
+
+  const { data: forms, error } = await query;
+
+  if (error) {
+    console.error('[API v1] Error fetching forms:', error);
+    return apiError(ctx, 500, 'Failed to fetch forms');
+  }
+
+  return apiJson(ctx, {
+    success: true,
+    data: (forms || []).map(({ user_id, ...form }) => ({
+      ...form,
+      role:
+        user_id === userId
+          ? 'owner'
+          : highestRole(
+              formRoles.get(form.id) ?? null,
+              form.workspace_id ? workspaceRoles.get(form.workspace_id) ?? null : null
+            ) ?? 'viewer',
+    })),
+  });
+});
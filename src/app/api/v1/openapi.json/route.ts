@@ -0,0 +1,13 @@
+/**
+ * GET /api/v1/openapi.json
+ * The API description; public so tooling can fetch it without a key
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/api/openapi';
+
+export function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(request.nextUrl.origin), {
+    headers: { 'Cache-Control': 'public, max-age=3600' },
+  });
+}
@@ -3,6 +3,7 @@
 import { revalidatePath } from 'next/cache'
 import { redirect } from 'next/navigation'
 import { createClient } from '@/utils/supabase/server'
+import { checkActionRateLimit, getRateLimitMessage } from '@/lib/rate-limit/middleware'
 
 export async function login(formData: FormData) {
   const supabase = await createClient();
@@ -17,6 +18,13 @@ export async function login(formData: FormData) {
     return { error: 'Email and password are required' };
   }
 
+  // 5 attempts per 15 minutes per IP
+  const rateLimit = await checkActionRateLimit('auth', 'login');
+  if (!rateLimit.success) {
+    console.warn('[login action] Rate limit exceeded');
+    return { error: getRateLimitMessage(rateLimit) };
+  }
+
   const { error } = await supabase.auth.signInWithPassword({
     email,
     password,
@@ -50,6 +58,12 @@ export async function signup(formData: FormData) {
     return { error: 'Password must be at least 6 characters' };
   }
 
+  const rateLimit = await checkActionRateLimit('auth', 'signup');
+  if (!rateLimit.success) {
+    console.warn('[signup action] Rate limit exceeded');
+    return { error: getRateLimitMessage(rateLimit) };
+  }
+
   const { error } = await supabase.auth.signUp({
     email,
     password,
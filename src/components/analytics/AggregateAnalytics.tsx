@@ -0,0 +1,118 @@
+'use client';
+
+import { useMemo } from 'react';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { StatsCards } from './StatsCards';
+import { TrendChart } from './TrendChart';
+import { QuestionAnalytics } from './QuestionAnalytics';
+import type { FormWithQuestions } from '@/lib/types/form.types';
+import type { Answer, AnswerCount, DailyResponseSummary } from '@/lib/types/response.types';
+
+interface AggregateAnalyticsProps {
+  form: Pick<FormWithQuestions, 'id' | 'title' | 'questions'>;
+  answerCounts: AnswerCount[];
+  dailySummary: DailyResponseSummary[];
+}
+
+// Free text and uploads are individual content, so get_form_answer_counts leaves them out
+const INDIVIDUAL_ANSWER_TYPES = ['short_text', 'long_text', 'file_upload'];
+
+/**
+ * Summary analytics for viewers
+ * Built from per-value answer counts and daily totals instead of individual
+ * responses. Each count is expanded into that many answers, and each day into
+ * its completed responses, so the shared charts work unchanged.
+ */
+export function AggregateAnalytics({ form, answerCounts, dailySummary }: AggregateAnalyticsProps) {
+  const answersByQuestion = useMemo(() => {
+    const grouped: Record<string, Answer[]> = {};
+    answerCounts.forEach((count) => {
+      if (!grouped[count.question_id]) {
+        grouped[count.question_id] = [];
+      }
+      const answers = grouped[count.question_id];
+      for (let i = 0; i < count.answer_count; i++) {
+        answers.push({
+          id: `${count.question_id}-${answers.length}`,
+          response_id: '',
+          question_id: count.question_id,
+          value_json: count.value_json,
+          value: count.value_json,
+          created_at: '',
+          updated_at: '',
+        });
+      }
+    });
+    return grouped;
+  }, [answerCounts]);
+
+  const stats = useMemo(() => {
+    const responses: Array<{ started_at: string; submitted_at?: string }> = [];
+    let totalResponses = 0;
+    let completedResponses = 0;
+
+    dailySummary.forEach((day) => {
+      totalResponses += day.total_responses;
+      completedResponses += day.completed_responses;
+
+      // The day's average completion time stands in for each response's own
+      const startedAt = new Date(day.response_date);
+      const submittedAt = new Date(startedAt.getTime() + (day.avg_completion_seconds ?? 0) * 1000);
+      for (let i = 0; i < day.completed_responses; i++) {
+        responses.push({ started_at: startedAt.toISOString(), submitted_at: submittedAt.toISOString() });
+      }
+    });
+
+    return {
+      totalResponses,
+      completedResponses,
+      incompleteResponses: totalResponses - completedResponses,
+      responses,
+    };
+  }, [dailySummary]);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Header */}
+      <nav className="flex items-center gap-4 mb-6" aria-label="Analytics navigation">
+        <Link href="/dashboard">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-3xl font-bold">{form.title}</h1>
+          <p className="text-slate-600">Summary Analytics</p>
+        </div>
+      </nav>
+
+      <div className="mb-6 p-4 bg-white border border-slate-200 rounded-lg">
+        <p className="text-sm text-slate-600">
+          You have viewer access to this form, so only totals are shown. Individual responses,
+          written answers and the statistical analyses are available to analysts, editors and owners.
+        </p>
+      </div>
+
+      <StatsCards stats={stats} />
+
+      <div className="mt-6 space-y-6">
+        {stats.completedResponses > 0 && <TrendChart responses={stats.responses} />}
+
+        {form.questions
+          .filter((question) => !INDIVIDUAL_ANSWER_TYPES.includes(question.type))
+          .map((question, index) => (
+            <QuestionAnalytics
+              key={question.id}
+              question={question}
+              questionNumber={index + 1}
+              answers={answersByQuestion[question.id] || []}
+              totalResponses={stats.completedResponses}
+            />
+          ))}
+      </div>
+    </div>
+  );
+}
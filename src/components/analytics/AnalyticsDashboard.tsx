@@ -1,10 +1,17 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useCallback } from 'react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { ArrowLeft, Download, List, BarChart3, TrendingUp, Sparkles, FlaskConical, LineChart, FileSpreadsheet, ClipboardList } from 'lucide-react';
+import { ArrowLeft, Download, List, BarChart3, TrendingUp, Sparkles, FlaskConical, LineChart, FileSpreadsheet, ClipboardList, GitMerge, Gauge, Layers } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { StatsCards } from './StatsCards';
 import { QuestionAnalytics } from './QuestionAnalytics';
 import { TrendChart } from './TrendChart';
@@ -12,31 +19,55 @@ import { CrossTabulation } from './CrossTabulation';
 import { CorrelationAnalysis } from './CorrelationAnalysis';
 import { HypothesisTesting } from './HypothesisTesting';
 import { RegressionAnalysis } from './RegressionAnalysis';
+import { ScaleReliability } from './ScaleReliability';
+import { FactorAnalysis } from './FactorAnalysis';
 import { NeedsAssessmentView } from './NeedsAssessmentView';
 import { DateRangePicker, type DateRange } from './DateRangePicker';
+import { VersionMappingDialog } from './VersionMappingDialog';
 import { asTypedQuestion } from '@/lib/utils/question-type-guards';
 import { exportResponsesToExcel } from '@/lib/utils/excel-export';
+import { getVersionQuestions } from '@/lib/utils/form-versions';
+import { withScaleScores } from '@/lib/utils/scale-reliability';
+import { withFactorScores } from '@/lib/utils/factor-analysis';
+import {
+  mergeAnswersByQuestion,
+  mergeResponseAnswers,
+  resolveAnswerMapping,
+  type AnswerMapping,
+} from '@/lib/utils/version-mapping';
 import { toast } from 'sonner';
-import type { FormWithQuestions } from '@/lib/types/form.types';
+import type { FormFactorScore, FormScale, FormVersion, FormVersionMapping, FormWithQuestions } from '@/lib/types/form.types';
 import type { Answer, ResponseWithAnswers } from '@/lib/types/response.types';
 
 interface AnalyticsDashboardProps {
-  form: FormWithQuestions;
+  form: Pick<FormWithQuestions, 'id' | 'title' | 'description' | 'published_version_id' | 'questions'>;
   answersByQuestion: Record<string, Answer[]>;
   stats: {
     totalResponses: number;
     completedResponses: number;
     incompleteResponses: number;
-    responses: Array<{ started_at: string; submitted_at?: string }>;
+    responses: Array<{ started_at: string; submitted_at?: string; form_version_id?: string | null }>;
   };
   responses: ResponseWithAnswers[];
+  versions: FormVersion[];
+  versionMappings: FormVersionMapping[];
+  scales: FormScale[];
+  factorScores: FormFactorScore[];
 }
 
+// Version filter values besides version ids
+const ALL_VERSIONS = 'all'; // Every version merged onto the current questions
+const BEFORE_VERSIONING = 'legacy'; // Responses recorded before responses were tagged with a version
+
 export function AnalyticsDashboard({
   form,
   answersByQuestion,
   stats,
   responses,
+  versions,
+  versionMappings,
+  scales: initialScales,
+  factorScores: initialFactorScores,
 }: AnalyticsDashboardProps) {
   // Date range state
   const [dateRange, setDateRange] = useState<DateRange>({
@@ -45,21 +76,97 @@ export function AnalyticsDashboard({
     preset: 'all',
   });
 
+  // Version filter state
+  const [versionFilter, setVersionFilter] = useState(ALL_VERSIONS);
+  const [mappings, setMappings] = useState(versionMappings);
+  const [mappingDialogOpen, setMappingDialogOpen] = useState(false);
+  const [scales, setScales] = useState(initialScales);
+  const [factorScores, setFactorScores] = useState(initialFactorScores);
+
+  // Version each response was answered against
+  const responseVersionIds = useMemo(
+    () => new Map(responses.map((r) => [r.id, r.form_version_id ?? null])),
+    [responses]
+  );
+
+  const answeredVersions = useMemo(
+    () => versions.filter((v) => responses.some((r) => r.form_version_id === v.id)),
+    [versions, responses]
+  );
+  const hasLegacyResponses = responses.some((r) => !r.form_version_id);
+  const selectedVersion = answeredVersions.find((v) => v.id === versionFilter);
+
+  // How each answered version maps onto the current questions
+  const resolvedMappings = useMemo(() => {
+    const resolved: Record<string, AnswerMapping> = {};
+    answeredVersions.forEach((version) => {
+      resolved[version.id] = resolveAnswerMapping(
+        getVersionQuestions(version),
+        form.questions,
+        mappings.find((m) => m.version_id === version.id)
+      );
+    });
+    return resolved;
+  }, [answeredVersions, form.questions, mappings]);
+
+  const matchesVersion = useCallback(
+    (versionId: string | null | undefined) =>
+      versionFilter === ALL_VERSIONS ||
+      (versionFilter === BEFORE_VERSIONING ? !versionId : versionId === versionFilter),
+    [versionFilter]
+  );
+
+  // A single version is analysed with its own questions; merged versions with the current ones
+  const analysisForm = useMemo(
+    () => (selectedVersion ? { ...form, questions: getVersionQuestions(selectedVersion) } : form),
+    [form, selectedVersion]
+  );
+
+  const analysisAnswers = useMemo(() => {
+    if (versionFilter === ALL_VERSIONS) {
+      return mergeAnswersByQuestion(answersByQuestion, responseVersionIds, resolvedMappings);
+    }
+
+    const filtered: Record<string, Answer[]> = {};
+    Object.entries(answersByQuestion).forEach(([questionId, answers]) => {
+      filtered[questionId] = answers.filter((a) => matchesVersion(responseVersionIds.get(a.response_id)));
+    });
+    return filtered;
+  }, [versionFilter, answersByQuestion, responseVersionIds, resolvedMappings, matchesVersion]);
+
+  const analysisResponses = useMemo(
+    () =>
+      versionFilter === ALL_VERSIONS
+        ? mergeResponseAnswers(responses, resolvedMappings)
+        : responses.filter((r) => matchesVersion(r.form_version_id)),
+    [versionFilter, responses, resolvedMappings, matchesVersion]
+  );
+
   // Convert questions to TypedQuestion for type safety
   const typedQuestions = useMemo(
-    () => form.questions.map(asTypedQuestion),
-    [form.questions]
+    () => analysisForm.questions.map(asTypedQuestion),
+    [analysisForm.questions]
   );
 
-  // Filter responses based on date range
+  // Saved scales and factor scores join the questions as computed numeric variables
+  const scored = useMemo(() => {
+    const withScales = withScaleScores(typedQuestions, analysisAnswers, scales);
+    return withFactorScores(withScales.questions, withScales.answersByQuestion, factorScores);
+  }, [typedQuestions, analysisAnswers, scales, factorScores]);
+
+  // Filter responses based on date range and version
   const filteredResponses = useMemo(() => {
     return stats.responses.filter(r => {
-      if (!r.submitted_at) return false;
+      if (!r.submitted_at || !matchesVersion(r.form_version_id)) return false;
       const date = new Date(r.submitted_at);
       return (!dateRange.startDate || date >= dateRange.startDate) &&
              (!dateRange.endDate || date <= dateRange.endDate);
     });
-  }, [stats.responses, dateRange]);
+  }, [stats.responses, dateRange, matchesVersion]);
+
+  const handleMappingSaved = (mapping: FormVersionMapping) => {
+    setMappings((prev) => [...prev.filter((m) => m.version_id !== mapping.version_id), mapping]);
+  };
 
   // Calculate filtered stats
   const filteredStats = useMemo(() => {
@@ -95,8 +202,8 @@ export function AnalyticsDashboard({
           respondent_email: null,
           submitted_at: r.submitted_at || null,
           is_complete: true,
-          answers: Object.keys(answersByQuestion).flatMap(questionId =>
-            answersByQuestion[questionId]
+          answers: Object.keys(scored.answersByQuestion).flatMap(questionId =>
+            scored.answersByQuestion[questionId]
               .filter(a => a.created_at >= (r.started_at || r.submitted_at || ''))
               .map(a => ({
                 question_id: a.question_id,
@@ -107,9 +214,9 @@ export function AnalyticsDashboard({
 
       await exportResponsesToExcel(
         form.title,
-        form.questions,
+        scored.questions,
         responsesForExport,
-        answersByQuestion
+        scored.answersByQuestion
       );
       toast.success(`Exported ${filteredStats.completedResponses} responses to Excel`);
     } catch (error) {
@@ -166,12 +273,61 @@ export function AnalyticsDashboard({
         <DateRangePicker value={dateRange} onChange={setDateRange} />
       </div>
 
+      {/* Version Filter */}
+      {answeredVersions.length > 0 && (
+        <div className="mb-6 flex items-center justify-between p-4 bg-white border border-slate-200 rounded-lg">
+          <div>
+            <h3 className="text-sm font-medium text-slate-700">Form Version</h3>
+            <p className="text-xs text-slate-500 mt-1">
+              {selectedVersion
+                ? `Showing responses to version ${selectedVersion.version_number} with its questions at the time`
+                : versionFilter === BEFORE_VERSIONING
+                  ? 'Showing responses recorded before versions were tracked'
+                  : 'Merging all versions onto the current questions using the answer mappings'}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <Select value={versionFilter} onValueChange={setVersionFilter}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_VERSIONS}>All versions (merged)</SelectItem>
+                {answeredVersions.map((version) => (
+                  <SelectItem key={version.id} value={version.id}>
+                    Version {version.version_number}
+                    {version.id === form.published_version_id ? ' (live)' : ''}
+                  </SelectItem>
+                ))}
+                {hasLegacyResponses && (
+                  <SelectItem value={BEFORE_VERSIONING}>Before versioning</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => setMappingDialogOpen(true)}>
+              <GitMerge className="mr-2 h-4 w-4" />
+              Map Answers
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <VersionMappingDialog
+        open={mappingDialogOpen}
+        onOpenChange={setMappingDialogOpen}
+        formId={form.id}
+        versions={answeredVersions}
+        questions={form.questions}
+        mappings={mappings}
+        onSaved={handleMappingSaved}
+      />
+
       {/* Stats Cards */}
       <StatsCards stats={filteredStats} />
 
       {/* Tabs for different analytics views */}
       <Tabs defaultValue="overview" className="mt-6">
-        <TabsList className="grid w-full max-w-6xl grid-cols-6">
+        <TabsList className="grid w-full max-w-6xl grid-cols-8">
           <TabsTrigger value="overview" className="flex items-center gap-2">
             <BarChart3 className="h-4 w-4" />
             Overview
@@ -196,6 +352,14 @@ export function AnalyticsDashboard({
             <LineChart className="h-4 w-4" />
             Regression
           </TabsTrigger>
+          <TabsTrigger value="reliability" className="flex items-center gap-2">
+            <Gauge className="h-4 w-4" />
+            Reliability
+          </TabsTrigger>
+          <TabsTrigger value="factors" className="flex items-center gap-2">
+            <Layers className="h-4 w-4" />
+            Factors
+          </TabsTrigger>
         </TabsList>
 
         {/* Overview Tab */}
@@ -209,8 +373,8 @@ export function AnalyticsDashboard({
 
           {/* Question Analytics */}
           <div className="space-y-6">
-            {form.questions.map((question, index) => {
-              const answers = answersByQuestion[question.id] || [];
+            {analysisForm.questions.map((question, index) => {
+              const answers = analysisAnswers[question.id] || [];
 
               return (
                 <QuestionAnalytics
@@ -223,7 +387,7 @@ export function AnalyticsDashboard({
               );
             })}
 
-            {form.questions.length === 0 && (
+            {analysisForm.questions.length === 0 && (
               <div className="backdrop-blur-sm bg-white/90 rounded-xl border-2 border-slate-200 p-12 text-center">
                 <p className="text-slate-600">
                   No questions in this form
@@ -236,41 +400,63 @@ export function AnalyticsDashboard({
         {/* Needs Assessment Tab */}
         <TabsContent value="needs-assessment">
           <NeedsAssessmentView
-            form={form}
-            answersByQuestion={answersByQuestion}
-            responses={responses}
+            form={analysisForm}
+            answersByQuestion={analysisAnswers}
+            responses={analysisResponses}
           />
         </TabsContent>
 
         {/* Cross-Tabulation Tab */}
         <TabsContent value="cross-tab">
           <CrossTabulation
-            questions={typedQuestions}
-            answersByQuestion={answersByQuestion}
+            questions={scored.questions}
+            answersByQuestion={scored.answersByQuestion}
           />
         </TabsContent>
 
         {/* Correlation Analysis Tab */}
         <TabsContent value="correlation">
           <CorrelationAnalysis
-            questions={typedQuestions}
-            answersByQuestion={answersByQuestion}
+            questions={scored.questions}
+            answersByQuestion={scored.answersByQuestion}
           />
         </TabsContent>
 
         {/* Hypothesis Testing Tab */}
         <TabsContent value="hypothesis">
           <HypothesisTesting
-            questions={typedQuestions}
-            answersByQuestion={answersByQuestion}
+            questions={scored.questions}
+            answersByQuestion={scored.answersByQuestion}
           />
         </TabsContent>
 
         {/* Regression Analysis Tab */}
         <TabsContent value="regression">
           <RegressionAnalysis
+            questions={scored.questions}
+            answersByQuestion={scored.answersByQuestion}
+          />
+        </TabsContent>
+
+        {/* Scale Reliability Tab */}
+        <TabsContent value="reliability">
+          <ScaleReliability
+            formId={form.id}
+            questions={typedQuestions}
+            answersByQuestion={analysisAnswers}
+            scales={scales}
+            onScalesChange={setScales}
+          />
+        </TabsContent>
+
+        {/* Factor Analysis Tab */}
+        <TabsContent value="factors">
+          <FactorAnalysis
+            formId={form.id}
             questions={typedQuestions}
-            answersByQuestion={answersByQuestion}
+            answersByQuestion={analysisAnswers}
+            factorScores={factorScores}
+            onFactorScoresChange={setFactorScores}
           />
         </TabsContent>
       </Tabs>
@@ -4,21 +4,30 @@ import { useMemo } from 'react';
 import type { CorrelationMatrix } from '@/lib/utils/correlation';
 import { formatCorrelation, getCorrelationHeatmapColor } from '@/lib/utils/correlation';
 
+interface HeatmapVariable {
+  id: string;
+  title: string;
+}
+
 interface CorrelationHeatmapProps {
-  correlationMatrix: CorrelationMatrix;
+  correlationMatrix: Pick<CorrelationMatrix, 'matrix'> & { questions: HeatmapVariable[] };
+  // For a rectangular matrix such as factor loadings: one column per entry
+  // instead of one per question
+  columns?: HeatmapVariable[];
 }
 
-export function CorrelationHeatmap({ correlationMatrix }: CorrelationHeatmapProps) {
+export function CorrelationHeatmap({ correlationMatrix, columns }: CorrelationHeatmapProps) {
   const { questions, matrix } = correlationMatrix;
+  const columnVariables = columns ?? questions;
 
   // Calculate cell size based on number of questions
   const cellSize = useMemo(() => {
-    const numQuestions = questions.length;
+    const numQuestions = columnVariables.length;
     if (numQuestions <= 5) return 80;
     if (numQuestions <= 8) return 60;
     if (numQuestions <= 12) return 50;
     return 40;
-  }, [questions.length]);
+  }, [columnVariables.length]);
 
   // Truncate question titles for display
   const truncateTitle = (title: string, maxLength: number = 20): string => {
@@ -43,18 +52,18 @@ export function CorrelationHeatmap({ correlationMatrix }: CorrelationHeatmapProp
               <th className="p-2 border border-slate-300 bg-slate-100 sticky left-0 z-10">
                 <div className="w-12 h-12" />
               </th>
-              {questions.map((question, index) => (
+              {columnVariables.map((column, index) => (
                 <th
-                  key={question.id}
+                  key={column.id}
                   className="p-2 border border-slate-300 bg-slate-100"
                   style={{ minWidth: cellSize, maxWidth: cellSize }}
                 >
                   <div
                     className="transform -rotate-45 origin-left text-xs font-medium truncate"
                     style={{ width: cellSize * 1.5 }}
-                    title={question.title}
+                    title={column.title}
                   >
-                    Q{index + 1}
+                    {columns ? column.title : `Q${index + 1}`}
                   </div>
                 </th>
               ))}
@@ -74,7 +83,7 @@ export function CorrelationHeatmap({ correlationMatrix }: CorrelationHeatmapProp
                     Q{rowIndex + 1}
                   </div>
                 </th>
-                {questions.map((colQuestion, colIndex) => {
+                {columnVariables.map((colQuestion, colIndex) => {
                   const coefficient = matrix[rowIndex][colIndex];
                   const backgroundColor = getCorrelationHeatmapColor(coefficient);
                   const textColor =
@@ -94,7 +103,7 @@ export function CorrelationHeatmap({ correlationMatrix }: CorrelationHeatmapProp
                       title={`${rowQuestion.title} × ${colQuestion.title}: ${formatCorrelation(coefficient)}`}
                     >
                       <div className="text-xs font-semibold">
-                        {rowIndex === colIndex ? '1.00' : formatCorrelation(coefficient)}
+                        {!columns && rowIndex === colIndex ? '1.00' : formatCorrelation(coefficient)}
                       </div>
                     </td>
                   );
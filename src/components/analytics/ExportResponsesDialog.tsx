@@ -0,0 +1,212 @@
+'use client';
+
+import { useState } from 'react';
+import { endOfDay, startOfDay } from 'date-fns';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Loader2, Send } from 'lucide-react';
+import { requestResponsesExport } from '@/app/(dashboard)/forms/[formId]/responses/actions';
+import type { ResponseExportInput } from '@/lib/validations/export.validation';
+
+type ExportFormat = ResponseExportInput['format'];
+type ExportFilters = NonNullable<ResponseExportInput['filters']>;
+
+interface ExportResponsesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  formId: string;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (.xlsx)',
+  json: 'JSON',
+  pdf: 'PDF',
+};
+
+export function ExportResponsesDialog({ open, onOpenChange, formId }: ExportResponsesDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        {/* Content unmounts while closed, so the options reset on every open */}
+        <ExportOptionsForm formId={formId} onClose={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ExportOptionsFormProps {
+  formId: string;
+  onClose: () => void;
+}
+
+function ExportOptionsForm({ formId, onClose }: ExportOptionsFormProps) {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [completeness, setCompleteness] = useState<NonNullable<ExportFilters['completeness']>>('complete');
+  const [flagged, setFlagged] = useState<NonNullable<ExportFilters['flagged']>>('all');
+  const [deleted, setDeleted] = useState<NonNullable<ExportFilters['deleted']>>('exclude');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    const filters: ExportFilters = { completeness, flagged, deleted };
+
+    // Date inputs are local calendar days; include the whole end day
+    if (startDate) filters.startDate = startOfDay(new Date(`${startDate}T00:00`)).toISOString();
+    if (endDate) filters.endDate = endOfDay(new Date(`${endDate}T00:00`)).toISOString();
+
+    setError(null);
+    setIsSubmitting(true);
+
+    const result = await requestResponsesExport(formId, { format, filters });
+
+    setIsSubmitting(false);
+
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+
+    toast.success("Export started. We'll email you a download link when it's ready.");
+    onClose();
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Export Responses</DialogTitle>
+        <DialogDescription>
+          The file is generated in the background, so large forms are fine
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-5 py-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <Label>Format</Label>
+          <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {FORMAT_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Date range (submission time) */}
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="export-start-date">Submitted from</Label>
+            <Input
+              id="export-start-date"
+              type="date"
+              value={startDate}
+              max={endDate || undefined}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="export-end-date">Submitted until</Label>
+            <Input
+              id="export-end-date"
+              type="date"
+              value={endDate}
+              min={startDate || undefined}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select
+              value={completeness}
+              onValueChange={(value) => setCompleteness(value as typeof completeness)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="complete">Complete</SelectItem>
+                <SelectItem value="incomplete">Incomplete</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Flagged</Label>
+            <Select value={flagged} onValueChange={(value) => setFlagged(value as typeof flagged)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                <SelectItem value="flagged">Flagged only</SelectItem>
+                <SelectItem value="unflagged">Not flagged</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Deleted</Label>
+            <Select value={deleted} onValueChange={(value) => setDeleted(value as typeof deleted)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="exclude">Exclude</SelectItem>
+                <SelectItem value="include">Include</SelectItem>
+                <SelectItem value="only">Only deleted</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button onClick={handleExport} disabled={isSubmitting}>
+          {isSubmitting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Send className="mr-2 h-4 w-4" />
+          )}
+          Start Export
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -0,0 +1,631 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { toast } from 'sonner';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { AlertCircle, Layers, Loader2, Save, Trash2 } from 'lucide-react';
+import { CorrelationHeatmap } from './CorrelationHeatmap';
+import { deleteFactorScore, saveFactorScore } from '@/app/(dashboard)/forms/[formId]/analytics/actions';
+import { getNumericVariables, readCompleteCases } from '@/lib/utils/analysis-variables';
+import {
+  analyzeFactors,
+  getScorableFactorScores,
+  toFactorScoreItems,
+  EXTRACTION_LABELS,
+  ROTATION_LABELS,
+  type ExtractionMethod,
+  type FactorAnalysisResult,
+  type RotationMethod,
+} from '@/lib/utils/factor-analysis';
+import type { FormFactorScore } from '@/lib/types/form.types';
+import type { TypedQuestion } from '@/lib/types/question.types';
+import type { Answer } from '@/lib/types/response.types';
+
+interface FactorAnalysisProps {
+  formId: string;
+  questions: TypedQuestion[];
+  answersByQuestion: Record<string, Answer[]>;
+  factorScores: FormFactorScore[];
+  onFactorScoresChange: (factorScores: FormFactorScore[]) => void;
+}
+
+// Number of factors to extract, or the Kaiser criterion
+const AUTO_FACTOR_COUNT = 'auto';
+
+function adequacyColor(kmo: number): string {
+  if (kmo >= 0.8) return 'text-green-700';
+  if (kmo >= 0.7) return 'text-blue-700';
+  if (kmo >= 0.6) return 'text-amber-700';
+  return 'text-red-700';
+}
+
+const formatPValue = (p: number) => (p < 0.001 ? '< .001' : p.toFixed(3));
+
+export function FactorAnalysis({
+  formId,
+  questions,
+  answersByQuestion,
+  factorScores,
+  onFactorScoresChange,
+}: FactorAnalysisProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [method, setMethod] = useState<ExtractionMethod>('paf');
+  const [rotation, setRotation] = useState<RotationMethod>('varimax');
+  const [factorCountSetting, setFactorCountSetting] = useState(AUTO_FACTOR_COUNT);
+  const [saveFactorIndex, setSaveFactorIndex] = useState(0);
+  const [saveName, setSaveName] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const numericVariables = useMemo(() => getNumericVariables(questions), [questions]);
+  const selectedVariables = useMemo(
+    () => numericVariables.filter((variable) => selectedIds.includes(variable.id)),
+    [numericVariables, selectedIds]
+  );
+  const scorableIds = useMemo(
+    () => new Set(getScorableFactorScores(factorScores, numericVariables).map((factorScore) => factorScore.id)),
+    [factorScores, numericVariables]
+  );
+
+  // Recomputed as the items and settings change
+  const analysis = useMemo((): { result: FactorAnalysisResult | null; error: string | null } => {
+    if (selectedVariables.length < 3) return { result: null, error: null };
+
+    try {
+      const items = readCompleteCases(selectedVariables, answersByQuestion);
+      const result = analyzeFactors(
+        items,
+        selectedVariables.map((variable) => variable.label),
+        {
+          method,
+          rotation,
+          factorCount: factorCountSetting === AUTO_FACTOR_COUNT ? undefined : Number(factorCountSetting),
+        }
+      );
+      return { result, error: null };
+    } catch (err) {
+      return { result: null, error: err instanceof Error ? err.message : 'Factor analysis failed' };
+    }
+  }, [selectedVariables, answersByQuestion, method, rotation, factorCountSetting]);
+
+  const { result } = analysis;
+  const factorLabel = method === 'pca' ? 'Component' : 'Factor';
+
+  const heatmapRows = useMemo(
+    () => selectedVariables.map((variable) => ({ id: variable.id, title: variable.label })),
+    [selectedVariables]
+  );
+  const heatmapColumns = useMemo(
+    () =>
+      Array.from({ length: result?.factorCount ?? 0 }, (_, i) => ({
+        id: `factor-${i + 1}`,
+        title: `${factorLabel} ${i + 1}`,
+      })),
+    [result?.factorCount, factorLabel]
+  );
+  const screeData = useMemo(
+    () =>
+      (result?.eigenvalues ?? []).map((eigenvalue, i) => ({
+        number: i + 1,
+        eigenvalue: Number(eigenvalue.toFixed(3)),
+      })),
+    [result?.eigenvalues]
+  );
+
+  const toggleItem = (variableId: string, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, variableId] : prev.filter((id) => id !== variableId)));
+  };
+
+  const handleSave = async () => {
+    if (!result) return;
+
+    setSaveError(null);
+    setIsSaving(true);
+
+    const factorIndex = Math.min(saveFactorIndex, result.factorCount - 1);
+    const response = await saveFactorScore(formId, {
+      name: saveName,
+      method,
+      rotation,
+      items: toFactorScoreItems(result, factorIndex, selectedVariables.map((variable) => variable.id)),
+    });
+
+    setIsSaving(false);
+
+    if (response.error || !response.data) {
+      setSaveError(response.error || 'Failed to save factor score');
+      return;
+    }
+
+    const saved = response.data;
+    onFactorScoresChange([...factorScores, saved].sort((a, b) => a.name.localeCompare(b.name)));
+    setSaveName('');
+    toast.success(`Saved factor scores "${saved.name}"`);
+  };
+
+  const handleDelete = async (factorScore: FormFactorScore) => {
+    if (
+      !confirm(
+        `Delete the factor score "${factorScore.name}"? It will no longer be available in analytics and exports.`
+      )
+    ) {
+      return;
+    }
+
+    const response = await deleteFactorScore(formId, factorScore.id);
+    if (response.error) {
+      toast.error(response.error);
+      return;
+    }
+
+    onFactorScoresChange(factorScores.filter((f) => f.id !== factorScore.id));
+    toast.success(`Deleted factor score "${factorScore.name}"`);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            Factor Analysis
+          </CardTitle>
+          <CardDescription>
+            Find the dimensions behind a set of scale questions or matrix rows with principal components or
+            exploratory factor analysis, and save factor scores for each respondent
+          </CardDescription>
+        </CardHeader>
+      </Card>
+
+      {/* Settings */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Items and Settings</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Items (select 3 or more)</Label>
+              {numericVariables.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setSelectedIds(
+                      selectedIds.length === numericVariables.length
+                        ? []
+                        : numericVariables.map((variable) => variable.id)
+                    )
+                  }
+                >
+                  {selectedIds.length === numericVariables.length ? 'Clear' : 'Select all'}
+                </Button>
+              )}
+            </div>
+            <div className="max-h-72 overflow-y-auto rounded-md border border-slate-300 p-2 space-y-1">
+              {numericVariables.length === 0 && (
+                <p className="text-sm text-slate-500 p-2">This form has no linear scale, slider or matrix questions</p>
+              )}
+              {numericVariables.map((variable) => (
+                <div key={variable.id} className="flex items-center gap-2 p-1">
+                  <Checkbox
+                    id={`factor-item-${variable.id}`}
+                    checked={selectedIds.includes(variable.id)}
+                    onCheckedChange={(checked) => toggleItem(variable.id, checked === true)}
+                  />
+                  <Label htmlFor={`factor-item-${variable.id}`} className="font-normal truncate">
+                    {variable.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500">Only respondents who answered every selected item are analysed.</p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="factor-method">Extraction</Label>
+              <select
+                id="factor-method"
+                className="w-full px-3 py-2 border border-slate-300 rounded-md"
+                value={method}
+                onChange={(e) => setMethod(e.target.value as ExtractionMethod)}
+              >
+                {(Object.keys(EXTRACTION_LABELS) as ExtractionMethod[]).map((value) => (
+                  <option key={value} value={value}>
+                    {EXTRACTION_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="factor-rotation">Rotation</Label>
+              <select
+                id="factor-rotation"
+                className="w-full px-3 py-2 border border-slate-300 rounded-md"
+                value={rotation}
+                onChange={(e) => setRotation(e.target.value as RotationMethod)}
+              >
+                <option value="none">{ROTATION_LABELS.none}</option>
+                <option value="varimax">{ROTATION_LABELS.varimax} (orthogonal)</option>
+                <option value="promax">{ROTATION_LABELS.promax} (oblique)</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="factor-count">Number of {factorLabel.toLowerCase()}s</Label>
+              <select
+                id="factor-count"
+                className="w-full px-3 py-2 border border-slate-300 rounded-md"
+                value={factorCountSetting}
+                onChange={(e) => setFactorCountSetting(e.target.value)}
+              >
+                <option value={AUTO_FACTOR_COUNT}>Eigenvalues above 1</option>
+                {Array.from({ length: Math.max(selectedVariables.length - 1, 0) }, (_, i) => (
+                  <option key={i + 1} value={String(i + 1)}>
+                    {i + 1}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {analysis.error && (
+            <p className="text-sm text-red-600 flex items-center gap-2" role="alert">
+              <AlertCircle className="h-4 w-4" />
+              {analysis.error}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Results */}
+      {result ? (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">
+                {EXTRACTION_LABELS[result.method]}, {ROTATION_LABELS[result.rotation].toLowerCase()}
+              </CardTitle>
+              <CardDescription>
+                {result.labels.length} items, {result.n} respondents who answered all of them
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="p-3 bg-slate-50 rounded-lg border border-slate-200">
+                  <p className="text-xs text-slate-600 mb-1">KMO</p>
+                  <p className={`text-xl font-bold ${adequacyColor(result.kmo)}`}>{result.kmo.toFixed(3)}</p>
+                </div>
+                <div className="p-3 bg-slate-50 rounded-lg border border-slate-200">
+                  <p className="text-xs text-slate-600 mb-1">Bartlett&apos;s Test</p>
+                  <p className="text-xl font-bold text-slate-700">
+                    χ²({result.bartlett.degreesOfFreedom}) = {result.bartlett.chiSquare.toFixed(1)}
+                  </p>
+                  <p className="text-xs text-slate-500">p {formatPValue(result.bartlett.pValue)}</p>
+                </div>
+                <div className="p-3 bg-slate-50 rounded-lg border border-slate-200">
+                  <p className="text-xs text-slate-600 mb-1">{factorLabel}s</p>
+                  <p className="text-xl font-bold text-slate-700">{result.factorCount}</p>
+                  <p className="text-xs text-slate-500">{result.suggestedFactorCount} with eigenvalue &gt; 1</p>
+                </div>
+                <div className="p-3 bg-slate-50 rounded-lg border border-slate-200">
+                  <p className="text-xs text-slate-600 mb-1">Variance Explained</p>
+                  <p className="text-xl font-bold text-slate-700">
+                    {(
+                      (result.communalities.reduce((sum, value) => sum + value, 0) / result.labels.length) *
+                      100
+                    ).toFixed(1)}
+                    %
+                  </p>
+                </div>
+              </div>
+
+              <div className="p-4 bg-slate-50 rounded-lg border border-slate-200">
+                <h5 className="font-medium text-slate-900 mb-2">Interpretation</h5>
+                <p className="text-sm text-slate-700">{result.interpretation}</p>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-200 text-left text-slate-600">
+                      <th className="py-2 pr-4 font-medium">{factorLabel}</th>
+                      <th className="py-2 pr-4 font-medium">Eigenvalue</th>
+                      <th className="py-2 pr-4 font-medium">SS Loadings</th>
+                      <th className="py-2 pr-4 font-medium">% of Variance</th>
+                      <th className="py-2 pr-4 font-medium">Cumulative %</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.variance.map((factor, index) => (
+                      <tr key={index} className="border-b border-slate-100">
+                        <td className="py-2 pr-4">
+                          {factorLabel} {index + 1}
+                        </td>
+                        <td className="py-2 pr-4">{result.eigenvalues[index].toFixed(3)}</td>
+                        <td className="py-2 pr-4">{factor.ssLoadings.toFixed(3)}</td>
+                        <td className="py-2 pr-4">{(factor.proportion * 100).toFixed(1)}</td>
+                        <td className="py-2 pr-4">
+                          {factor.cumulative === null ? '—' : (factor.cumulative * 100).toFixed(1)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {result.factorCorrelations && (
+                <p className="text-xs text-slate-500">
+                  Promax factors are correlated, so their sums of squared loadings overlap and are not added up.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Scree Plot */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Scree Plot</CardTitle>
+              <CardDescription>
+                Eigenvalues of the item correlation matrix. Keep the {factorLabel.toLowerCase()}s before the curve
+                levels off, or those above the line at 1.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={280}>
+                <LineChart data={screeData} margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-slate-200" />
+                  <XAxis dataKey="number" className="text-xs" tick={{ fill: 'currentColor' }} />
+                  <YAxis className="text-xs" tick={{ fill: 'currentColor' }} />
+                  <Tooltip
+                    labelFormatter={(label) => `${factorLabel} ${label}`}
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--background))',
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: '0.5rem',
+                    }}
+                  />
+                  <ReferenceLine y={1} stroke="#94a3b8" strokeDasharray="4 4" />
+                  <Line
+                    type="linear"
+                    dataKey="eigenvalue"
+                    name="Eigenvalue"
+                    stroke="hsl(var(--primary))"
+                    strokeWidth={2}
+                    dot={{ fill: 'hsl(var(--primary))' }}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          {/* Loadings */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">
+                {result.factorCorrelations ? 'Pattern Loadings' : 'Loadings'}
+              </CardTitle>
+              <CardDescription>
+                {result.factorCorrelations
+                  ? `Each item's unique contribution to each ${factorLabel.toLowerCase()}`
+                  : `Correlation of each item with each ${factorLabel.toLowerCase()}`}
+                ; loadings of 0.40 or more usually count as salient
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CorrelationHeatmap
+                correlationMatrix={{ questions: heatmapRows, matrix: result.loadings }}
+                columns={heatmapColumns}
+              />
+            </CardContent>
+          </Card>
+
+          {result.structure && result.factorCorrelations && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Structure Loadings</CardTitle>
+                <CardDescription>
+                  Correlation of each item with each {factorLabel.toLowerCase()}, including what the correlated{' '}
+                  {factorLabel.toLowerCase()}s share
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <CorrelationHeatmap
+                  correlationMatrix={{ questions: heatmapRows, matrix: result.structure }}
+                  columns={heatmapColumns}
+                />
+                <div className="overflow-x-auto">
+                  <h5 className="font-medium text-slate-900 mb-2">{factorLabel} Correlations</h5>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-slate-200 text-left text-slate-600">
+                        <th className="py-2 pr-4 font-medium" />
+                        {heatmapColumns.map((column) => (
+                          <th key={column.id} className="py-2 pr-4 font-medium">
+                            {column.title}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.factorCorrelations.map((row, i) => (
+                        <tr key={heatmapColumns[i].id} className="border-b border-slate-100">
+                          <td className="py-2 pr-4 font-medium">{heatmapColumns[i].title}</td>
+                          {row.map((value, j) => (
+                            <td key={heatmapColumns[j].id} className="py-2 pr-4">
+                              {value.toFixed(3)}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Items */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Items</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-200 text-left text-slate-600">
+                      <th className="py-2 pr-4 font-medium">Item</th>
+                      <th className="py-2 pr-4 font-medium">Mean</th>
+                      <th className="py-2 pr-4 font-medium">SD</th>
+                      <th className="py-2 pr-4 font-medium">Communality</th>
+                      <th className="py-2 pr-4 font-medium">MSA</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.labels.map((label, index) => (
+                      <tr key={selectedVariables[index].id} className="border-b border-slate-100">
+                        <td className="py-2 pr-4">{label}</td>
+                        <td className="py-2 pr-4">{result.means[index].toFixed(2)}</td>
+                        <td className="py-2 pr-4">{result.standardDeviations[index].toFixed(2)}</td>
+                        <td
+                          className={`py-2 pr-4 ${
+                            result.communalities[index] < 0.3 ? 'text-amber-700 font-semibold' : ''
+                          }`}
+                        >
+                          {result.communalities[index].toFixed(3)}
+                        </td>
+                        <td
+                          className={`py-2 pr-4 ${result.itemMsa[index] < 0.5 ? 'text-amber-700 font-semibold' : ''}`}
+                        >
+                          {result.itemMsa[index].toFixed(3)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="p-3 bg-slate-50 rounded-lg border border-slate-200">
+                <p className="text-xs text-slate-600">
+                  KMO of 0.60 or more is usually needed to factor the items, and a significant Bartlett&apos;s test
+                  shows they are correlated. Principal components summarize all of the items&apos; variance;
+                  principal axis factoring models only what they share. Highlighted items share little with the
+                  others (communality below 0.30) or have a low measure of sampling adequacy (below 0.50).
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      ) : (
+        !analysis.error && (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <Layers className="h-12 w-12 text-slate-400 mx-auto mb-4" />
+              <p className="text-slate-600">Select at least 3 items to run a factor analysis</p>
+            </CardContent>
+          </Card>
+        )
+      )}
+
+      {/* Factor Scores */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Factor Scores</CardTitle>
+          <CardDescription>
+            Saved scores (regression method) are computed for every respondent who answered the items and can be
+            used in cross-tabulation, correlation, hypothesis tests, regression and exports
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {factorScores.length === 0 && <p className="text-sm text-slate-500">No factor scores saved yet.</p>}
+          {factorScores.map((factorScore) => (
+            <div
+              key={factorScore.id}
+              className="flex items-center justify-between gap-3 p-3 rounded-lg border border-slate-200"
+            >
+              <div className="min-w-0">
+                <p className="font-medium truncate">{factorScore.name}</p>
+                <p className="text-xs text-slate-500">
+                  {EXTRACTION_LABELS[factorScore.method]}, {ROTATION_LABELS[factorScore.rotation].toLowerCase()},{' '}
+                  {factorScore.items.length} items
+                </p>
+                {!scorableIds.has(factorScore.id) && (
+                  <p className="text-xs text-amber-700">
+                    Some items are not in these questions, so no score is computed
+                  </p>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleDelete(factorScore)}
+                aria-label={`Delete factor score ${factorScore.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          {result && (
+            <div className="space-y-4 pt-2">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="factor-score-factor">{factorLabel}</Label>
+                  <select
+                    id="factor-score-factor"
+                    className="w-full px-3 py-2 border border-slate-300 rounded-md"
+                    value={Math.min(saveFactorIndex, result.factorCount - 1)}
+                    onChange={(e) => setSaveFactorIndex(Number(e.target.value))}
+                  >
+                    {heatmapColumns.map((column, index) => (
+                      <option key={column.id} value={index}>
+                        {column.title}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="factor-score-name">Name</Label>
+                  <Input
+                    id="factor-score-name"
+                    value={saveName}
+                    onChange={(e) => setSaveName(e.target.value)}
+                    placeholder="e.g. Workload"
+                    maxLength={100}
+                  />
+                </div>
+              </div>
+
+              <Button onClick={handleSave} disabled={isSaving || !saveName.trim()}>
+                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Save Factor Scores
+              </Button>
+
+              {saveError && (
+                <p className="text-sm text-red-600 flex items-center gap-2" role="alert">
+                  <AlertCircle className="h-4 w-4" />
+                  {saveError}
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -4,8 +4,44 @@ import { useState, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
-import { AlertCircle, TrendingUp, BarChart3 } from 'lucide-react';
-import { independentTTest, oneWayANOVA } from '@/lib/utils/hypothesis-testing';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, TrendingUp, BarChart3, Lightbulb } from 'lucide-react';
+import {
+  brownForsytheTest,
+  compactLetterDisplay,
+  gamesHowell,
+  independentTTest,
+  leveneTest,
+  oneWayANOVA,
+  pairedTTest,
+  tukeyHSD,
+  welchANOVA,
+  type ANOVAResult,
+  type PostHocResult,
+  type TTestResult,
+  type VarianceTestResult,
+  type WelchANOVAResult,
+} from '@/lib/utils/hypothesis-testing';
+import {
+  friedmanTest,
+  kruskalWallisTest,
+  mannWhitneyUTest,
+  recommendTestFamily,
+  wilcoxonSignedRankTest,
+  type FriedmanResult,
+  type KruskalWallisResult,
+  type MannWhitneyResult,
+  type TestRecommendation,
+  type WilcoxonResult,
+} from '@/lib/utils/nonparametric-tests';
+import {
+  getNumericVariables,
+  isGroupingQuestion,
+  readCompleteCases,
+  readGroups,
+  readVariable,
+} from '@/lib/utils/analysis-variables';
 import type { TypedQuestion } from '@/lib/types/question.types';
 import type { Answer } from '@/lib/types/response.types';
 
@@ -14,136 +50,417 @@ interface HypothesisTestingProps {
   answersByQuestion: Record<string, Answer[]>;
 }
 
+type Design = 'independent' | 'paired';
+type TestFamily = 'auto' | 'parametric' | 'nonparametric';
+
+type TestOutcome =
+  | { test: 't-test'; result: TTestResult }
+  | { test: 'anova'; result: ANOVAResult }
+  | { test: 'welch-anova'; result: WelchANOVAResult }
+  | { test: 'paired-t-test'; result: TTestResult }
+  | { test: 'mann-whitney'; result: MannWhitneyResult }
+  | { test: 'kruskal-wallis'; result: KruskalWallisResult }
+  | { test: 'wilcoxon'; result: WilcoxonResult }
+  | { test: 'friedman'; result: FriedmanResult };
+
+interface GroupSummary {
+  name: string;
+  count: number;
+  mean: number;
+  median: number;
+  meanRank: number | null;
+}
+
+// Pairwise comparisons after a test of three or more groups
+interface PairwiseTable {
+  title: string;
+  statisticLabel: string;
+  hasDifferences: boolean; // Mean differences with confidence intervals (not for rank tests)
+  rows: Array<{
+    group1: number;
+    group2: number;
+    difference: number;
+    lowerCI: number;
+    upperCI: number;
+    statistic: number;
+    pValue: number;
+    isSignificant: boolean;
+  }>;
+  letters: string[];
+}
+
+interface TestRun {
+  outcome: TestOutcome;
+  groups: GroupSummary[];
+  assumptions: VarianceTestResult[];
+  pairwise: PairwiseTable | null;
+  note: string | null;
+}
+
+interface OutcomeSummary {
+  title: string;
+  statisticLabel: string;
+  statistic: number;
+  degreesOfFreedom: string;
+  effectLabel: string;
+  effectSize: number;
+  secondaryEffect: string | null;
+  pValue: number;
+  isExact: boolean;
+  isSignificant: boolean;
+  interpretation: string;
+  nullHypothesis: string;
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+const formatPValue = (pValue: number) => (pValue < 0.001 ? '< 0.001' : pValue.toFixed(3));
+
+function toPairwiseTable(postHoc: PostHocResult): PairwiseTable {
+  return {
+    title: postHoc.method === 'tukey' ? "Tukey's HSD" : 'Games-Howell',
+    statisticLabel: 'q',
+    hasDifferences: true,
+    rows: postHoc.comparisons.map((comparison) => ({
+      group1: comparison.group1,
+      group2: comparison.group2,
+      difference: comparison.meanDifference,
+      lowerCI: comparison.lowerCI,
+      upperCI: comparison.upperCI,
+      statistic: comparison.qStatistic,
+      pValue: comparison.pValue,
+      isSignificant: comparison.isSignificant,
+    })),
+    letters: postHoc.letters,
+  };
+}
+
+function dunnPairwiseTable(result: KruskalWallisResult): PairwiseTable {
+  return {
+    title: "Dunn's test (Holm-adjusted)",
+    statisticLabel: 'z',
+    hasDifferences: false,
+    rows: result.postHoc.map((comparison) => ({
+      group1: comparison.group1,
+      group2: comparison.group2,
+      difference: 0,
+      lowerCI: 0,
+      upperCI: 0,
+      statistic: comparison.zStatistic,
+      pValue: comparison.adjustedPValue,
+      isSignificant: comparison.isSignificant,
+    })),
+    letters: compactLetterDisplay(
+      result.groups.map((group) => group.meanRank),
+      result.postHoc.filter((c) => c.isSignificant).map((c): [number, number] => [c.group1, c.group2])
+    ),
+  };
+}
+
+function summarizeOutcome(outcome: TestOutcome): OutcomeSummary {
+  switch (outcome.test) {
+    case 't-test':
+    case 'paired-t-test': {
+      const { result } = outcome;
+      return {
+        title: outcome.test === 't-test' ? 'Independent Samples T-Test' : 'Paired Samples T-Test',
+        statisticLabel: 'T-Statistic',
+        statistic: result.tStatistic,
+        degreesOfFreedom: result.degreesOfFreedom.toFixed(0),
+        effectLabel: "Cohen's d",
+        effectSize: result.cohensD,
+        secondaryEffect: null,
+        pValue: result.pValue,
+        isExact: false,
+        isSignificant: result.isSignificant,
+        interpretation: result.interpretation,
+        nullHypothesis: 'The means are equal',
+      };
+    }
+    case 'anova': {
+      const { result } = outcome;
+      return {
+        title: 'One-Way ANOVA',
+        statisticLabel: 'F-Statistic',
+        statistic: result.fStatistic,
+        degreesOfFreedom: `${result.dfBetween}, ${result.dfWithin}`,
+        effectLabel: 'η²',
+        effectSize: result.etaSquared,
+        secondaryEffect: `ω² = ${result.omegaSquared.toFixed(3)}`,
+        pValue: result.pValue,
+        isExact: false,
+        isSignificant: result.isSignificant,
+        interpretation: result.interpretation,
+        nullHypothesis: 'All group means are equal',
+      };
+    }
+    case 'welch-anova': {
+      const { result } = outcome;
+      return {
+        title: "Welch's ANOVA",
+        statisticLabel: 'F-Statistic',
+        statistic: result.fStatistic,
+        degreesOfFreedom: `${result.dfBetween}, ${result.dfWithin.toFixed(2)}`,
+        effectLabel: 'ω²',
+        effectSize: result.omegaSquared,
+        secondaryEffect: null,
+        pValue: result.pValue,
+        isExact: false,
+        isSignificant: result.isSignificant,
+        interpretation: result.interpretation,
+        nullHypothesis: 'All group means are equal (variances may differ)',
+      };
+    }
+    case 'mann-whitney': {
+      const { result } = outcome;
+      return {
+        title: 'Mann-Whitney U Test',
+        statisticLabel: 'U-Statistic',
+        statistic: result.uStatistic,
+        degreesOfFreedom: result.isExact ? 'Exact' : `z = ${result.zStatistic.toFixed(3)}`,
+        effectLabel: 'Rank-biserial r',
+        effectSize: result.rankBiserial,
+        secondaryEffect: null,
+        pValue: result.pValue,
+        isExact: result.isExact,
+        isSignificant: result.isSignificant,
+        interpretation: result.interpretation,
+        nullHypothesis: 'Values in either group are equally likely to be larger',
+      };
+    }
+    case 'kruskal-wallis': {
+      const { result } = outcome;
+      return {
+        title: 'Kruskal-Wallis H Test',
+        statisticLabel: 'H-Statistic',
+        statistic: result.hStatistic,
+        degreesOfFreedom: String(result.degreesOfFreedom),
+        effectLabel: 'ε²',
+        effectSize: result.epsilonSquared,
+        secondaryEffect: null,
+        pValue: result.pValue,
+        isExact: false,
+        isSignificant: result.isSignificant,
+        interpretation: result.interpretation,
+        nullHypothesis: 'All groups come from the same distribution',
+      };
+    }
+    case 'wilcoxon': {
+      const { result } = outcome;
+      return {
+        title: 'Wilcoxon Signed-Rank Test',
+        statisticLabel: 'W-Statistic',
+        statistic: result.wStatistic,
+        degreesOfFreedom: result.isExact ? 'Exact' : `z = ${result.zStatistic.toFixed(3)}`,
+        effectLabel: 'Rank-biserial r',
+        effectSize: result.rankBiserial,
+        secondaryEffect: null,
+        pValue: result.pValue,
+        isExact: result.isExact,
+        isSignificant: result.isSignificant,
+        interpretation: result.interpretation,
+        nullHypothesis: 'The differences are symmetric around zero',
+      };
+    }
+    case 'friedman': {
+      const { result } = outcome;
+      return {
+        title: 'Friedman Test',
+        statisticLabel: 'χ² Statistic',
+        statistic: result.chiSquare,
+        degreesOfFreedom: String(result.degreesOfFreedom),
+        effectLabel: "Kendall's W",
+        effectSize: result.kendallsW,
+        secondaryEffect: null,
+        pValue: result.pValue,
+        isExact: false,
+        isSignificant: result.isSignificant,
+        interpretation: result.interpretation,
+        nullHypothesis: 'Respondents rank all measures alike',
+      };
+    }
+  }
+}
+
 export function HypothesisTesting({
   questions,
   answersByQuestion,
 }: HypothesisTestingProps) {
+  const [design, setDesign] = useState<Design>('independent');
   const [categoricalQuestionId, setCategoricalQuestionId] = useState<string>('');
-  const [numericQuestionId, setNumericQuestionId] = useState<string>('');
-  const [testResult, setTestResult] = useState<any>(null);
+  const [numericVariableId, setNumericVariableId] = useState<string>('');
+  const [pairedVariableIds, setPairedVariableIds] = useState<string[]>([]);
+  const [family, setFamily] = useState<TestFamily>('auto');
+  const [testRun, setTestRun] = useState<TestRun | null>(null);
+  const [error, setError] = useState<string | null>(null);
 
   // Filter questions by type
-  const categoricalQuestions = useMemo(() => {
-    return questions.filter(
-      q =>
-        q.type === 'multiple_choice' ||
-        q.type === 'dropdown' ||
-        q.type === 'checkboxes'
-    );
-  }, [questions]);
-
-  const numericQuestions = useMemo(() => {
-    return questions.filter(
-      q => q.type === 'linear_scale' || q.type === 'slider'
-    );
-  }, [questions]);
-
-  // Extract numeric values for a given response ID
-  const extractNumericValue = (answer: Answer): number | null => {
-    if (typeof answer.value === 'number') return answer.value;
-    if (typeof answer.value === 'string') {
-      const parsed = parseFloat(answer.value);
-      return isNaN(parsed) ? null : parsed;
-    }
-    return null;
-  };
+  const categoricalQuestions = useMemo(() => questions.filter(isGroupingQuestion), [questions]);
+  const numericVariables = useMemo(() => getNumericVariables(questions), [questions]);
 
-  // Group numeric values by categorical response
-  const groupDataByCategory = (): Record<string, number[]> => {
-    if (!categoricalQuestionId || !numericQuestionId) return {};
-
-    const categoricalAnswers = answersByQuestion[categoricalQuestionId] || [];
-    const numericAnswers = answersByQuestion[numericQuestionId] || [];
-
-    // Create a map of response_id to categorical value
-    const categoryByResponse = new Map<string, string>();
-    categoricalAnswers.forEach(answer => {
-      if (answer.response_id) {
-        const value = Array.isArray(answer.value)
-          ? answer.value[0]
-          : String(answer.value);
-        categoryByResponse.set(answer.response_id, value);
-      }
+  const categoricalQuestion = questions.find(q => q.id === categoricalQuestionId);
+  const numericVariable = numericVariables.find(v => v.id === numericVariableId);
+  const pairedVariables = useMemo(
+    () => numericVariables.filter(v => pairedVariableIds.includes(v.id)),
+    [numericVariables, pairedVariableIds]
+  );
+
+  // Numeric values grouped by categorical response (groups need at least 2 values)
+  const groups = useMemo(() => {
+    if (design !== 'independent' || !categoricalQuestion || !numericVariable) return [];
+
+    const groupByResponse = readGroups(categoricalQuestion, answersByQuestion);
+    const valuesByGroup = new Map<string, number[]>();
+    readVariable(numericVariable, answersByQuestion).forEach((value, responseId) => {
+      const group = groupByResponse.get(responseId);
+      if (!group) return;
+      valuesByGroup.set(group, [...(valuesByGroup.get(group) || []), value]);
     });
 
-    // Group numeric values by category
-    const groups: Record<string, number[]> = {};
-    numericAnswers.forEach(answer => {
-      if (!answer.response_id) return;
+    return [...valuesByGroup.entries()]
+      .map(([name, values]) => ({ name, values }))
+      .filter(group => group.values.length >= 2);
+  }, [design, categoricalQuestion, numericVariable, answersByQuestion]);
 
-      const category = categoryByResponse.get(answer.response_id);
-      if (!category) return;
+  // Values of the paired measures from respondents who answered all of them
+  const pairedValues = useMemo(
+    () => (design === 'paired' && pairedVariables.length >= 2 ? readCompleteCases(pairedVariables, answersByQuestion) : []),
+    [design, pairedVariables, answersByQuestion]
+  );
 
-      const numericValue = extractNumericValue(answer);
-      if (numericValue === null) return;
+  // Parametric tests assume normal groups (or normal differences, for two paired measures)
+  const recommendation = useMemo((): TestRecommendation | null => {
+    if (design === 'independent') {
+      return groups.length >= 2 ? recommendTestFamily(groups.map(group => group.values)) : null;
+    }
+    if (pairedValues.length === 2) {
+      return recommendTestFamily([pairedValues[0].map((value, i) => value - pairedValues[1][i])]);
+    }
+    return pairedValues.length > 2 ? recommendTestFamily(pairedValues) : null;
+  }, [design, groups, pairedValues]);
 
-      if (!groups[category]) {
-        groups[category] = [];
-      }
-      groups[category].push(numericValue);
-    });
+  const isOrdinal =
+    design === 'independent' ? !!numericVariable?.isOrdinal : pairedVariables.some(v => v.isOrdinal);
 
-    return groups;
+  const resetResult = () => {
+    setTestRun(null);
+    setError(null);
   };
 
-  const runHypothesisTest = () => {
-    const groups = groupDataByCategory();
-    const groupNames = Object.keys(groups);
-    const groupValues = Object.values(groups);
+  const runIndependentTest = (useParametric: boolean): TestRun | null => {
+    if (groups.length < 2) {
+      setError('Need at least 2 groups with 2 or more responses each');
+      return null;
+    }
 
-    if (groupNames.length < 2) {
-      alert('Need at least 2 groups to run hypothesis test');
-      return;
+    const values = groups.map(group => group.values);
+    let outcome: TestOutcome;
+    let assumptions: VarianceTestResult[] = [];
+    let pairwise: PairwiseTable | null = null;
+    let note: string | null = null;
+
+    if (values.length === 2) {
+      outcome = useParametric
+        ? { test: 't-test', result: independentTTest(values[0], values[1], 0.95) }
+        : { test: 'mann-whitney', result: mannWhitneyUTest(values[0], values[1], 0.95) };
+    } else if (useParametric) {
+      // Unequal variances (judged by the more robust Brown-Forsythe test) switch to Welch's ANOVA
+      assumptions = [leveneTest(values, 'mean', 0.95), brownForsytheTest(values, 0.95)];
+      const welch = welchANOVA(values, 0.95);
+      if (assumptions[1].equalVariances || welch.dfWithin === 0) {
+        outcome = { test: 'anova', result: oneWayANOVA(values, 0.95) };
+        pairwise = toPairwiseTable(tukeyHSD(values, 0.95));
+      } else {
+        outcome = { test: 'welch-anova', result: welch };
+        pairwise = toPairwiseTable(gamesHowell(values, 0.95));
+        note = "Group variances differ, so Welch's ANOVA and Games-Howell comparisons are used instead of the standard ANOVA.";
+      }
+    } else {
+      const kruskal = kruskalWallisTest(values, 0.95);
+      outcome = { test: 'kruskal-wallis', result: kruskal };
+      pairwise = dunnPairwiseTable(kruskal);
     }
 
-    // Filter out groups with less than 2 values
-    const validGroups = groupNames.filter(name => groups[name].length >= 2);
+    const meanRanks =
+      outcome.test === 'mann-whitney' || outcome.test === 'kruskal-wallis'
+        ? outcome.result.groups.map(group => group.meanRank)
+        : null;
+
+    return {
+      outcome,
+      groups: groups.map((group, i) => ({
+        name: group.name,
+        count: group.values.length,
+        mean: mean(group.values),
+        median: median(group.values),
+        meanRank: meanRanks?.[i] ?? null,
+      })),
+      assumptions,
+      pairwise,
+      note,
+    };
+  };
 
-    if (validGroups.length < 2) {
-      alert('Need at least 2 responses in each group');
-      return;
+  const runPairedTest = (useParametric: boolean): TestRun | null => {
+    if (pairedValues.length < 2 || pairedValues[0].length < 2) {
+      setError('Need at least 2 respondents who answered every selected measure');
+      return null;
     }
 
-    let result: any;
-    if (validGroups.length === 2) {
-      // Run independent t-test
-      const tTestResult = independentTTest(
-        groups[validGroups[0]],
-        groups[validGroups[1]],
-        0.95
-      );
-
-      result = {
-        ...tTestResult,
-        testType: 't-test',
-        groups: validGroups,
-      };
+    let outcome: TestOutcome;
+    let note: string | null = null;
+    if (pairedValues.length === 2) {
+      outcome = useParametric
+        ? { test: 'paired-t-test', result: pairedTTest(pairedValues[0], pairedValues[1], 0.95) }
+        : { test: 'wilcoxon', result: wilcoxonSignedRankTest(pairedValues[0], pairedValues[1], 0.95) };
     } else {
-      // Run one-way ANOVA
-      const anovaResult = oneWayANOVA(
-        validGroups.map(name => groups[name]),
-        0.95
-      );
-
-      result = {
-        ...anovaResult,
-        testType: 'ANOVA',
-        groups: validGroups,
-      };
+      // There is no repeated-measures ANOVA here, so three or more measures are always ranked
+      outcome = { test: 'friedman', result: friedmanTest(pairedValues, 0.95) };
+      if (useParametric) note = 'Three or more paired measures are compared with the Friedman test.';
     }
 
-    result.groupData = validGroups.map(name => ({
-      name,
-      values: groups[name],
-      count: groups[name].length,
-      mean: groups[name].reduce((a, b) => a + b, 0) / groups[name].length,
-    }));
+    const meanRanks = outcome.test === 'friedman' ? outcome.result.measures.map(m => m.meanRank) : null;
+
+    return {
+      outcome,
+      groups: pairedVariables.map((variable, i) => ({
+        name: variable.label,
+        count: pairedValues[i].length,
+        mean: mean(pairedValues[i]),
+        median: median(pairedValues[i]),
+        meanRank: meanRanks?.[i] ?? null,
+      })),
+      assumptions: [],
+      pairwise: null,
+      note,
+    };
+  };
 
-    setTestResult(result);
+  const runHypothesisTest = () => {
+    resetResult();
+    const useParametric =
+      family === 'auto' ? recommendation?.family === 'parametric' : family === 'parametric';
+
+    const run = design === 'independent' ? runIndependentTest(useParametric) : runPairedTest(useParametric);
+    if (run) setTestRun(run);
   };
 
-  const categoricalQuestion = questions.find(q => q.id === categoricalQuestionId);
-  const numericQuestion = questions.find(q => q.id === numericQuestionId);
+  const togglePairedVariable = (variableId: string, checked: boolean) => {
+    setPairedVariableIds(ids => (checked ? [...ids, variableId] : ids.filter(id => id !== variableId)));
+    resetResult();
+  };
+
+  const canRun =
+    design === 'independent' ? !!categoricalQuestionId && !!numericVariableId : pairedVariableIds.length >= 2;
+
+  const summary = testRun ? summarizeOutcome(testRun.outcome) : null;
+  const groupNames = testRun?.groups.map(group => group.name) ?? [];
 
   return (
     <div className="space-y-6">
@@ -155,8 +472,8 @@ export function HypothesisTesting({
             Hypothesis Testing
           </CardTitle>
           <CardDescription>
-            Compare numeric responses across different categorical groups using statistical tests
-            (t-test for 2 groups, ANOVA for 3+ groups)
+            Compare numeric responses across groups (t-test or ANOVA, Mann-Whitney U or Kruskal-Wallis),
+            or compare measures answered by the same respondents (paired t-test, Wilcoxon or Friedman)
           </CardDescription>
         </CardHeader>
       </Card>
@@ -167,84 +484,197 @@ export function HypothesisTesting({
           <CardTitle className="text-lg">Select Questions</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {/* Categorical Question */}
-            <div className="space-y-2">
-              <Label htmlFor="categorical-question">
-                Categorical Question (Grouping Variable)
-              </Label>
-              <select
-                id="categorical-question"
-                className="w-full px-3 py-2 border border-slate-300 rounded-md"
-                value={categoricalQuestionId}
-                onChange={(e) => {
-                  setCategoricalQuestionId(e.target.value);
-                  setTestResult(null);
-                }}
-              >
-                <option value="">Select a question...</option>
-                {categoricalQuestions.map((q) => (
-                  <option key={q.id} value={q.id}>
-                    {q.title}
-                  </option>
-                ))}
-              </select>
-              <p className="text-xs text-slate-500">
-                Multiple choice, dropdown, or checkbox questions
-              </p>
-            </div>
+          <div className="flex flex-wrap gap-2" role="group" aria-label="Comparison">
+            <Button
+              variant={design === 'independent' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => {
+                setDesign('independent');
+                resetResult();
+              }}
+            >
+              Compare groups
+            </Button>
+            <Button
+              variant={design === 'paired' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => {
+                setDesign('paired');
+                resetResult();
+              }}
+            >
+              Compare paired measures
+            </Button>
+          </div>
 
-            {/* Numeric Question */}
+          {design === 'independent' ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {/* Categorical Question */}
+              <div className="space-y-2">
+                <Label htmlFor="categorical-question">
+                  Categorical Question (Grouping Variable)
+                </Label>
+                <select
+                  id="categorical-question"
+                  className="w-full px-3 py-2 border border-slate-300 rounded-md"
+                  value={categoricalQuestionId}
+                  onChange={(e) => {
+                    setCategoricalQuestionId(e.target.value);
+                    resetResult();
+                  }}
+                >
+                  <option value="">Select a question...</option>
+                  {categoricalQuestions.map((q) => (
+                    <option key={q.id} value={q.id}>
+                      {q.title}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-slate-500">
+                  Multiple choice, dropdown, or checkbox questions (respondents who ticked one box)
+                </p>
+              </div>
+
+              {/* Numeric Question */}
+              <div className="space-y-2">
+                <Label htmlFor="numeric-question">
+                  Numeric Question (Dependent Variable)
+                </Label>
+                <select
+                  id="numeric-question"
+                  className="w-full px-3 py-2 border border-slate-300 rounded-md"
+                  value={numericVariableId}
+                  onChange={(e) => {
+                    setNumericVariableId(e.target.value);
+                    resetResult();
+                  }}
+                >
+                  <option value="">Select a question...</option>
+                  {numericVariables.map((v) => (
+                    <option key={v.id} value={v.id}>
+                      {v.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-slate-500">
+                  Linear scale, slider, or matrix row (scored by column position)
+                </p>
+              </div>
+            </div>
+          ) : (
             <div className="space-y-2">
-              <Label htmlFor="numeric-question">
-                Numeric Question (Dependent Variable)
-              </Label>
-              <select
-                id="numeric-question"
-                className="w-full px-3 py-2 border border-slate-300 rounded-md"
-                value={numericQuestionId}
-                onChange={(e) => {
-                  setNumericQuestionId(e.target.value);
-                  setTestResult(null);
-                }}
-              >
-                <option value="">Select a question...</option>
-                {numericQuestions.map((q) => (
-                  <option key={q.id} value={q.id}>
-                    {q.title}
-                  </option>
+              <Label>Measures (select 2 or more)</Label>
+              <div className="max-h-60 overflow-y-auto rounded-md border border-slate-300 p-2 space-y-1">
+                {numericVariables.length === 0 && (
+                  <p className="text-sm text-slate-500 p-2">This form has no linear scale, slider or matrix questions</p>
+                )}
+                {numericVariables.map((v) => (
+                  <div key={v.id} className="flex items-center gap-2 p-1">
+                    <Checkbox
+                      id={`paired-${v.id}`}
+                      checked={pairedVariableIds.includes(v.id)}
+                      onCheckedChange={(checked) => togglePairedVariable(v.id, checked === true)}
+                    />
+                    <Label htmlFor={`paired-${v.id}`} className="font-normal">
+                      {v.label}
+                    </Label>
+                  </div>
                 ))}
-              </select>
+              </div>
               <p className="text-xs text-slate-500">
-                Linear scale or slider questions
+                Only respondents who answered every selected measure are included
+                {pairedValues.length > 0 && ` (${pairedValues[0].length})`}
               </p>
             </div>
+          )}
+
+          {/* Test family */}
+          <div className="space-y-2">
+            <Label htmlFor="test-family">Test</Label>
+            <select
+              id="test-family"
+              className="w-full md:w-80 px-3 py-2 border border-slate-300 rounded-md"
+              value={family}
+              onChange={(e) => {
+                setFamily(e.target.value as TestFamily);
+                resetResult();
+              }}
+            >
+              <option value="auto">
+                Recommended{recommendation ? ` (${recommendation.family === 'parametric' ? 'parametric' : 'non-parametric'})` : ''}
+              </option>
+              <option value="parametric">Parametric (compare means)</option>
+              <option value="nonparametric">Non-parametric (compare ranks)</option>
+            </select>
           </div>
 
+          {recommendation && (
+            <div className="p-3 bg-blue-50 rounded-lg border border-blue-200 flex items-start gap-2">
+              <Lightbulb className="h-4 w-4 mt-0.5 text-blue-700 flex-shrink-0" />
+              <div className="text-sm text-slate-700 space-y-1">
+                <p>
+                  <strong>
+                    {recommendation.family === 'parametric' ? 'Parametric' : 'Non-parametric'} test recommended.
+                  </strong>{' '}
+                  {recommendation.reason}
+                </p>
+                {isOrdinal && recommendation.family === 'parametric' && (
+                  <p className="text-xs text-slate-600">
+                    Scale and matrix answers are ordinal, so a non-parametric test is also a sound choice.
+                  </p>
+                )}
+                <p className="text-xs text-slate-600">
+                  {recommendation.normality
+                    .map((result, i) => {
+                      const name =
+                        design === 'independent'
+                          ? groups[i]?.name
+                          : pairedValues.length === 2
+                            ? 'Differences'
+                            : pairedVariables[i]?.label;
+                      return `${name}: skewness ${result.skewness.toFixed(2)}, kurtosis ${result.kurtosis.toFixed(2)}`;
+                    })
+                    .join(' · ')}
+                </p>
+              </div>
+            </div>
+          )}
+
           <Button
             onClick={runHypothesisTest}
-            disabled={!categoricalQuestionId || !numericQuestionId}
+            disabled={!canRun}
             className="w-full md:w-auto"
           >
             Run Hypothesis Test
           </Button>
+
+          {error && (
+            <p className="text-sm text-red-600 flex items-center gap-2" role="alert">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </p>
+          )}
         </CardContent>
       </Card>
 
       {/* Results */}
-      {testResult && (
+      {testRun && summary && (
         <>
           {/* Group Statistics */}
           <Card>
             <CardHeader>
-              <CardTitle className="text-lg">Group Statistics</CardTitle>
+              <CardTitle className="text-lg">
+                {design === 'independent' ? 'Group Statistics' : 'Measure Statistics'}
+              </CardTitle>
               <CardDescription>
-                Comparing {numericQuestion?.title} across {categoricalQuestion?.title}
+                {design === 'independent'
+                  ? `Comparing ${numericVariable?.label} across ${categoricalQuestion?.title}`
+                  : `Comparing ${testRun.groups.length} measures from ${testRun.groups[0]?.count ?? 0} respondents`}
               </CardDescription>
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {testResult.groupData.map((group: any) => (
+                {testRun.groups.map((group) => (
                   <div
                     key={group.name}
                     className="p-4 bg-slate-50 rounded-lg border border-slate-200"
@@ -259,10 +689,18 @@ export function HypothesisTesting({
                       </div>
                       <div className="flex justify-between">
                         <span className="text-slate-600">Mean:</span>
-                        <span className="font-semibold">
-                          {group.mean.toFixed(2)}
-                        </span>
+                        <span className="font-semibold">{group.mean.toFixed(2)}</span>
                       </div>
+                      <div className="flex justify-between">
+                        <span className="text-slate-600">Median:</span>
+                        <span className="font-semibold">{group.median.toFixed(2)}</span>
+                      </div>
+                      {group.meanRank !== null && (
+                        <div className="flex justify-between">
+                          <span className="text-slate-600">Mean Rank:</span>
+                          <span className="font-semibold">{group.meanRank.toFixed(2)}</span>
+                        </div>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -275,52 +713,37 @@ export function HypothesisTesting({
             <CardHeader>
               <CardTitle className="text-lg flex items-center gap-2">
                 <TrendingUp className="h-5 w-5" />
-                {testResult.testType === 't-test'
-                  ? 'Independent Samples T-Test'
-                  : 'One-Way ANOVA'}
+                {summary.title}
+                {summary.isExact && <Badge variant="secondary">Exact p-value</Badge>}
               </CardTitle>
+              {testRun.note && <CardDescription>{testRun.note}</CardDescription>}
             </CardHeader>
             <CardContent className="space-y-4">
               {/* Test Statistics */}
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                 <div className="p-3 bg-blue-50 rounded-lg border border-blue-200">
-                  <p className="text-xs text-slate-600 mb-1">
-                    {testResult.testType === 't-test' ? 'T-Statistic' : 'F-Statistic'}
-                  </p>
-                  <p className="text-xl font-bold text-blue-700">
-                    {testResult.testType === 't-test'
-                      ? testResult.tStatistic.toFixed(3)
-                      : testResult.fStatistic.toFixed(3)}
-                  </p>
+                  <p className="text-xs text-slate-600 mb-1">{summary.statisticLabel}</p>
+                  <p className="text-xl font-bold text-blue-700">{summary.statistic.toFixed(3)}</p>
                 </div>
 
                 <div className="p-3 bg-purple-50 rounded-lg border border-purple-200">
                   <p className="text-xs text-slate-600 mb-1">P-Value</p>
-                  <p className="text-xl font-bold text-purple-700">
-                    {testResult.pValue < 0.001
-                      ? '< 0.001'
-                      : testResult.pValue.toFixed(3)}
-                  </p>
+                  <p className="text-xl font-bold text-purple-700">{formatPValue(summary.pValue)}</p>
                 </div>
 
                 <div className="p-3 bg-amber-50 rounded-lg border border-amber-200">
                   <p className="text-xs text-slate-600 mb-1">
-                    Degrees of Freedom
-                  </p>
-                  <p className="text-xl font-bold text-amber-700">
-                    {testResult.testType === 't-test'
-                      ? testResult.degreesOfFreedom.toFixed(0)
-                      : `${testResult.dfBetween}, ${testResult.dfWithin}`}
+                    {summary.isExact || summary.degreesOfFreedom.startsWith('z') ? 'Distribution' : 'Degrees of Freedom'}
                   </p>
+                  <p className="text-xl font-bold text-amber-700">{summary.degreesOfFreedom}</p>
                 </div>
 
                 <div className="p-3 bg-green-50 rounded-lg border border-green-200">
                   <p className="text-xs text-slate-600 mb-1">Effect Size</p>
-                  <p className="text-xl font-bold text-green-700">
-                    {testResult.effectSize.toFixed(3)}
-                  </p>
+                  <p className="text-xl font-bold text-green-700">{summary.effectSize.toFixed(3)}</p>
                   <p className="text-xs text-slate-500">
-                    {testResult.testType === 't-test' ? "Cohen's d" : 'η²'}
+                    {summary.effectLabel}
+                    {summary.secondaryEffect && ` · ${summary.secondaryEffect}`}
                   </p>
                 </div>
               </div>
@@ -328,7 +751,7 @@ export function HypothesisTesting({
               {/* Significance Badge */}
               <div
                 className={`p-4 rounded-lg border-2 ${
-                  testResult.isSignificant
+                  summary.isSignificant
                     ? 'bg-green-50 border-green-300'
                     : 'bg-slate-50 border-slate-300'
                 }`}
@@ -336,34 +759,124 @@ export function HypothesisTesting({
                 <div className="flex items-start gap-3">
                   <AlertCircle
                     className={`h-5 w-5 mt-0.5 ${
-                      testResult.isSignificant
+                      summary.isSignificant
                         ? 'text-green-600'
                         : 'text-slate-600'
                     }`}
                   />
                   <div>
                     <h4 className="font-semibold mb-1">
-                      {testResult.isSignificant
+                      {summary.isSignificant
                         ? 'Statistically Significant'
                         : 'Not Statistically Significant'}
                     </h4>
                     <p className="text-sm text-slate-700">
-                      {testResult.interpretation}
+                      {summary.interpretation}
                     </p>
                   </div>
                 </div>
               </div>
 
+              {/* Equal-variance checks */}
+              {testRun.assumptions.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-semibold text-sm">Assumption Checks</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {testRun.assumptions.map((check) => (
+                      <div
+                        key={check.method}
+                        className={`p-3 rounded-lg border text-sm ${
+                          check.equalVariances ? 'bg-slate-50 border-slate-200' : 'bg-amber-50 border-amber-300'
+                        }`}
+                      >
+                        <p className="font-medium">
+                          {check.method === 'levene' ? "Levene's Test" : 'Brown-Forsythe Test'}
+                        </p>
+                        <p className="text-xs text-slate-600">
+                          F({check.dfBetween}, {check.dfWithin}) = {check.fStatistic.toFixed(3)}, p ={' '}
+                          {formatPValue(check.pValue)}
+                        </p>
+                        <p className="text-xs text-slate-700 mt-1">{check.interpretation}</p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Post-hoc pairwise comparisons */}
+              {testRun.pairwise && testRun.pairwise.rows.length > 0 && (
+                <div className="space-y-3">
+                  <h4 className="font-semibold text-sm">
+                    Pairwise Comparisons ({testRun.pairwise.title})
+                  </h4>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-slate-200 text-left text-slate-600">
+                          <th className="py-2 pr-4 font-medium">Groups</th>
+                          {testRun.pairwise.hasDifferences && (
+                            <>
+                              <th className="py-2 pr-4 font-medium">Difference</th>
+                              <th className="py-2 pr-4 font-medium">95% CI</th>
+                            </>
+                          )}
+                          <th className="py-2 pr-4 font-medium">{testRun.pairwise.statisticLabel}</th>
+                          <th className="py-2 pr-4 font-medium">Adjusted p</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {testRun.pairwise.rows.map((row) => (
+                          <tr
+                            key={`${row.group1}-${row.group2}`}
+                            className={`border-b border-slate-100 ${row.isSignificant ? 'font-semibold text-green-700' : ''}`}
+                          >
+                            <td className="py-2 pr-4">
+                              {groupNames[row.group1]} vs {groupNames[row.group2]}
+                            </td>
+                            {testRun.pairwise?.hasDifferences && (
+                              <>
+                                <td className="py-2 pr-4">{row.difference.toFixed(2)}</td>
+                                <td className="py-2 pr-4">
+                                  [{row.lowerCI.toFixed(2)}, {row.upperCI.toFixed(2)}]
+                                </td>
+                              </>
+                            )}
+                            <td className="py-2 pr-4">{row.statistic.toFixed(3)}</td>
+                            <td className="py-2 pr-4">{formatPValue(row.pValue)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  {/* Letter grouping */}
+                  <div className="space-y-1">
+                    <p className="text-xs text-slate-600">
+                      Groups that share a letter are not significantly different.
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {testRun.groups.map((group, i) => (
+                        <div
+                          key={group.name}
+                          className="flex items-center gap-2 px-3 py-1.5 bg-slate-50 rounded-md border border-slate-200 text-sm"
+                        >
+                          <span>{group.name}</span>
+                          <Badge variant="secondary" className="font-mono">
+                            {testRun.pairwise?.letters[i]}
+                          </Badge>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* Methodology Note */}
               <div className="p-3 bg-slate-50 rounded-lg border border-slate-200">
                 <p className="text-xs text-slate-600">
                   <strong>Significance Level:</strong> α = 0.05
                   <br />
-                  <strong>Null Hypothesis:</strong> There is no difference in means
-                  between groups
-                  <br />
-                  <strong>Alternative Hypothesis:</strong> At least one group mean
-                  differs from the others
+                  <strong>Null Hypothesis:</strong> {summary.nullHypothesis}
                 </p>
               </div>
             </CardContent>
@@ -372,7 +885,7 @@ export function HypothesisTesting({
       )}
 
       {/* Empty State */}
-      {!testResult && (
+      {!testRun && (
         <Card>
           <CardContent className="p-12 text-center">
             <BarChart3 className="h-12 w-12 text-slate-400 mx-auto mb-4" />
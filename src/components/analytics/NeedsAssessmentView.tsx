@@ -32,7 +32,7 @@ import type { FormWithQuestions } from '@/lib/types/form.types';
 import type { Answer, ResponseWithAnswers } from '@/lib/types/response.types';
 
 interface NeedsAssessmentViewProps {
-  form: FormWithQuestions;
+  form: Pick<FormWithQuestions, 'questions'>;
   answersByQuestion: Record<string, Answer[]>;
   responses: ResponseWithAnswers[];
 }
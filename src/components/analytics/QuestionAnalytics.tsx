@@ -351,6 +351,166 @@ export function QuestionAnalytics({
         );
       }
 
+      case 'slider': {
+        const sliderValues = extractSliderValues(answers);
+        const stats = calculateDescriptiveStats(sliderValues);
+
+        if (stats.count === 0) {
+          return <p className="text-slate-400">No responses yet</p>;
+        }
+
+        const ci = calculateConfidenceInterval(sliderValues, 0.95);
+        const distribution = calculateFrequencyDistribution(sliderValues);
+        const chartData = distribution.items.map((item) => ({
+          value: Number(item.value),
+          count: item.count,
+        })).sort((a, b) => a.value - b.value);
+
+        return (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <h4 className="font-medium mb-3">Distribution</h4>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-slate-200" />
+                  <XAxis dataKey="value" tick={{ fill: 'currentColor' }} />
+                  <YAxis tick={{ fill: 'currentColor' }} allowDecimals={false} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--background))',
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: '0.5rem',
+                    }}
+                  />
+                  <Bar dataKey="count" fill="hsl(var(--primary))" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div>
+              <h4 className="font-medium mb-3">Descriptive Statistics</h4>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="p-3 bg-slate-50 rounded-lg">
+                  <p className="text-sm text-slate-600">Mean</p>
+                  <p className="text-2xl font-bold">{stats.mean}</p>
+                  <p className="text-xs text-slate-500 mt-1">
+                    95% CI: {ci.lowerBound} - {ci.upperBound}
+                  </p>
+                </div>
+                <div className="p-3 bg-slate-50 rounded-lg">
+                  <p className="text-sm text-slate-600">Median</p>
+                  <p className="text-2xl font-bold">{stats.median}</p>
+                </div>
+                <div className="p-3 bg-slate-50 rounded-lg">
+                  <p className="text-sm text-slate-600">Std Dev</p>
+                  <p className="text-2xl font-bold">{stats.stdDev}</p>
+                </div>
+                <div className="p-3 bg-slate-50 rounded-lg">
+                  <p className="text-sm text-slate-600">Range</p>
+                  <p className="text-2xl font-bold">{stats.min} - {stats.max}</p>
+                </div>
+              </div>
+            </div>
+          </div>
+        );
+      }
+
+      case 'ranking': {
+        const items = question.options && 'items' in question.options
+          ? question.options.items
+          : [];
+        const rankingStats = calculateRankingStats(answers, items);
+
+        if (answers.length === 0 || rankingStats.every((s) => s.timesRanked === 0)) {
+          return <p className="text-slate-400">No responses yet</p>;
+        }
+
+        const chartData = rankingStats
+          .filter((s) => s.timesRanked > 0)
+          .map((s) => ({ name: s.itemLabel, averageRank: s.averageRank }));
+
+        return (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <h4 className="font-medium mb-3">Average Rank (lower is preferred)</h4>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={chartData} layout="vertical">
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-slate-200" />
+                  <XAxis type="number" tick={{ fill: 'currentColor' }} />
+                  <YAxis type="category" dataKey="name" width={120} tick={{ fill: 'currentColor' }} />
+                  <Tooltip />
+                  <Bar dataKey="averageRank" fill={COLORS[0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div>
+              <h4 className="font-medium mb-3">Ranking Breakdown</h4>
+              <div className="space-y-2">
+                {rankingStats.map((stat, index) => (
+                  <div key={stat.itemId} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
+                    <span className="font-medium">
+                      {stat.timesRanked > 0 ? `#${index + 1} ` : ''}{stat.itemLabel}
+                    </span>
+                    <div className="flex items-center gap-2">
+                      <Badge>{stat.timesRanked > 0 ? stat.averageRank : 'N/A'}</Badge>
+                      <span className="text-sm text-slate-600">
+                        ranked {stat.timesRanked}×
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        );
+      }
+
+      case 'file_upload': {
+        const files = extractFileMetadata(answers);
+
+        if (files.length === 0) {
+          return <p className="text-slate-400">No files uploaded yet</p>;
+        }
+
+        const totalSizeMB = files.reduce((sum, f) => sum + (f.size || 0), 0) / 1024 / 1024;
+        const typeDistribution = calculateFrequencyDistribution(
+          files.map((f) => f.type || 'unknown')
+        );
+
+        return (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <h4 className="font-medium mb-3">Upload Summary</h4>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="p-3 bg-slate-50 rounded-lg">
+                  <p className="text-sm text-slate-600">Files</p>
+                  <p className="text-2xl font-bold">{files.length}</p>
+                </div>
+                <div className="p-3 bg-slate-50 rounded-lg">
+                  <p className="text-sm text-slate-600">Total Size</p>
+                  <p className="text-2xl font-bold">{totalSizeMB.toFixed(2)}MB</p>
+                </div>
+              </div>
+            </div>
+            <div>
+              <h4 className="font-medium mb-3">File Types</h4>
+              <div className="space-y-2">
+                {typeDistribution.items.map((item) => (
+                  <div key={item.value} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
+                    <span className="font-medium">{item.label}</span>
+                    <div className="flex items-center gap-2">
+                      <Badge>{item.count}</Badge>
+                      <span className="text-sm text-slate-600">
+                        {item.percentage}%
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        );
+      }
+
       default:
         return (
           <p className="text-slate-400">
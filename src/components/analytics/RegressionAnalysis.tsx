@@ -4,9 +4,26 @@ import { useState, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
-import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Line, ReferenceLine } from 'recharts';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { TrendingUp, AlertCircle } from 'lucide-react';
-import { simpleLinearRegression } from '@/lib/utils/regression-analysis';
+import {
+  logisticRegression,
+  multipleLinearRegression,
+  type LogisticRegressionResult,
+  type MultipleRegressionResult,
+} from '@/lib/utils/regression-analysis';
+import {
+  buildDesignMatrix,
+  getChoices,
+  getNumericVariables,
+  isGroupingQuestion,
+  readChoiceIds,
+  readVariable,
+  type DesignMatrix,
+  type RegressionPredictor,
+} from '@/lib/utils/analysis-variables';
 import type { TypedQuestion } from '@/lib/types/question.types';
 import type { Answer } from '@/lib/types/response.types';
 
@@ -15,113 +32,140 @@ interface RegressionAnalysisProps {
   answersByQuestion: Record<string, Answer[]>;
 }
 
+// Variables are keyed `numeric:<variable id>` or `choice:<question id>`
+interface VariableOption {
+  key: string;
+  label: string;
+  kind: 'numeric' | 'choice';
+}
+
+type ModelRun =
+  | { model: 'linear'; result: MultipleRegressionResult; design: DesignMatrix }
+  | { model: 'logistic'; result: LogisticRegressionResult; design: DesignMatrix; eventLabel: string };
+
+const formatPValue = (pValue: number) => (pValue < 0.001 ? '< 0.001' : pValue.toFixed(3));
+
+const formatNumber = (value: number, digits = 3) =>
+  Number.isFinite(value) ? value.toFixed(digits) : '∞';
+
 export function RegressionAnalysis({
   questions,
   answersByQuestion,
 }: RegressionAnalysisProps) {
-  const [xQuestionId, setXQuestionId] = useState<string>('');
-  const [yQuestionId, setYQuestionId] = useState<string>('');
-  const [regressionResult, setRegressionResult] = useState<any>(null);
-
-  // Filter numeric questions
-  const numericQuestions = useMemo(() => {
-    return questions.filter(
-      q => q.type === 'linear_scale' || q.type === 'slider'
-    );
-  }, [questions]);
-
-  // Extract numeric values for a given response ID
-  const extractNumericValue = (answer: Answer): number | null => {
-    if (typeof answer.value === 'number') return answer.value;
-    if (typeof answer.value === 'string') {
-      const parsed = parseFloat(answer.value);
-      return isNaN(parsed) ? null : parsed;
-    }
-    return null;
-  };
+  const [outcomeKey, setOutcomeKey] = useState<string>('');
+  const [eventChoiceId, setEventChoiceId] = useState<string>('');
+  const [predictorKeys, setPredictorKeys] = useState<string[]>([]);
+  const [referenceChoiceIds, setReferenceChoiceIds] = useState<Record<string, string>>({});
+  const [modelRun, setModelRun] = useState<ModelRun | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const numericVariables = useMemo(() => getNumericVariables(questions), [questions]);
+  const choiceQuestions = useMemo(() => questions.filter(isGroupingQuestion), [questions]);
+
+  const variableOptions = useMemo(
+    (): VariableOption[] => [
+      ...numericVariables.map((v) => ({ key: `numeric:${v.id}`, label: v.label, kind: 'numeric' as const })),
+      ...choiceQuestions.map((q) => ({ key: `choice:${q.id}`, label: q.title, kind: 'choice' as const })),
+    ],
+    [numericVariables, choiceQuestions]
+  );
 
-  // Collect paired data points
-  const collectPairedData = (): { x: number[]; y: number[] } => {
-    if (!xQuestionId || !yQuestionId) return { x: [], y: [] };
-
-    const xAnswers = answersByQuestion[xQuestionId] || [];
-    const yAnswers = answersByQuestion[yQuestionId] || [];
-
-    // Create maps of response_id to value
-    const xMap = new Map<string, number>();
-    xAnswers.forEach(answer => {
-      if (answer.response_id) {
-        const value = extractNumericValue(answer);
-        if (value !== null) {
-          xMap.set(answer.response_id, value);
-        }
-      }
-    });
-
-    const yMap = new Map<string, number>();
-    yAnswers.forEach(answer => {
-      if (answer.response_id) {
-        const value = extractNumericValue(answer);
-        if (value !== null) {
-          yMap.set(answer.response_id, value);
-        }
-      }
-    });
+  const outcomeOption = variableOptions.find((option) => option.key === outcomeKey);
+  const outcomeQuestion =
+    outcomeOption?.kind === 'choice' ? choiceQuestions.find((q) => `choice:${q.id}` === outcomeKey) : undefined;
+  const eventChoices = outcomeQuestion ? getChoices(outcomeQuestion) : [];
+  const predictorOptions = variableOptions.filter((option) => option.key !== outcomeKey);
 
-    // Collect paired values
-    const xValues: number[] = [];
-    const yValues: number[] = [];
+  const resetResult = () => {
+    setModelRun(null);
+    setError(null);
+  };
 
-    xMap.forEach((xVal, responseId) => {
-      const yVal = yMap.get(responseId);
-      if (yVal !== undefined) {
-        xValues.push(xVal);
-        yValues.push(yVal);
-      }
-    });
+  const togglePredictor = (key: string, checked: boolean) => {
+    setPredictorKeys((keys) => (checked ? [...keys, key] : keys.filter((k) => k !== key)));
+    resetResult();
+  };
 
-    return { x: xValues, y: yValues };
+  const toPredictor = (key: string): RegressionPredictor | null => {
+    const [kind, id] = [key.slice(0, key.indexOf(':')), key.slice(key.indexOf(':') + 1)];
+    if (kind === 'numeric') {
+      const variable = numericVariables.find((v) => v.id === id);
+      return variable ? { kind: 'numeric', variable } : null;
+    }
+    const question = choiceQuestions.find((q) => q.id === id);
+    return question
+      ? { kind: 'categorical', question, referenceChoiceId: referenceChoiceIds[question.id] ?? null }
+      : null;
   };
 
   const runRegressionAnalysis = () => {
-    const { x, y } = collectPairedData();
+    resetResult();
+
+    const predictors = predictorKeys
+      .filter((key) => key !== outcomeKey)
+      .map(toPredictor)
+      .filter((predictor): predictor is RegressionPredictor => predictor !== null);
+
+    let outcome: Map<string, number>;
+    let eventLabel = '';
+    if (outcomeQuestion) {
+      const event = eventChoices.find((choice) => choice.id === eventChoiceId) ?? eventChoices[0];
+      if (!event) {
+        setError('The outcome question has no options');
+        return;
+      }
+      eventLabel = event.label;
+      outcome = new Map(
+        [...readChoiceIds(outcomeQuestion, answersByQuestion)].map(([responseId, choiceId]) => [
+          responseId,
+          choiceId === event.id ? 1 : 0,
+        ])
+      );
+    } else {
+      const variable = numericVariables.find((v) => `numeric:${v.id}` === outcomeKey);
+      if (!variable) return;
+      outcome = readVariable(variable, answersByQuestion);
+    }
 
-    if (x.length < 3) {
-      alert('Need at least 3 paired responses to run regression analysis');
+    const design = buildDesignMatrix(outcome, predictors, answersByQuestion);
+    if (design.names.length === 0) {
+      setError(design.notes[0] ?? 'Select at least one predictor');
       return;
     }
 
-    const result = simpleLinearRegression(x, y);
-    setRegressionResult(result);
+    try {
+      setModelRun(
+        outcomeQuestion
+          ? {
+              model: 'logistic',
+              result: logisticRegression(design.rows, design.outcome, design.names, 0.95),
+              design,
+              eventLabel,
+            }
+          : {
+              model: 'linear',
+              result: multipleLinearRegression(design.rows, design.outcome, design.names, 0.95),
+              design,
+            }
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not fit the model');
+    }
   };
 
-  const xQuestion = questions.find(q => q.id === xQuestionId);
-  const yQuestion = questions.find(q => q.id === yQuestionId);
-
-  // Prepare scatter plot data
+  // Observed against predicted values, for linear models
   const scatterData = useMemo(() => {
-    if (!regressionResult) return [];
-
-    return regressionResult.dataPoints.map((point: any) => ({
-      x: point.x,
-      y: point.y,
-      predicted: point.predicted,
+    if (modelRun?.model !== 'linear') return [];
+    return modelRun.result.predictions.map((point) => ({
+      predicted: Number(point.predicted.toFixed(3)),
+      observed: point.observed,
     }));
-  }, [regressionResult]);
-
-  // Prepare regression line data (min to max X values)
-  const regressionLineData = useMemo(() => {
-    if (!regressionResult) return [];
-
-    const xValues = regressionResult.dataPoints.map((p: any) => p.x);
-    const minX = Math.min(...xValues);
-    const maxX = Math.max(...xValues);
+  }, [modelRun]);
 
-    return [
-      { x: minX, y: regressionResult.slope * minX + regressionResult.intercept },
-      { x: maxX, y: regressionResult.slope * maxX + regressionResult.intercept },
-    ];
-  }, [regressionResult]);
+  const selectedChoicePredictors = choiceQuestions.filter(
+    (q) => predictorKeys.includes(`choice:${q.id}`) && `choice:${q.id}` !== outcomeKey
+  );
+  const canRun = !!outcomeKey && predictorKeys.some((key) => key !== outcomeKey);
 
   return (
     <div className="space-y-6">
@@ -133,230 +177,437 @@ export function RegressionAnalysis({
             Regression Analysis
           </CardTitle>
           <CardDescription>
-            Analyze the linear relationship between two numeric variables with scatter plot and regression line
+            Predict a numeric outcome (multiple linear regression) or a choice outcome (logistic
+            regression) from several numeric and categorical predictors
           </CardDescription>
         </CardHeader>
       </Card>
 
-      {/* Question Selection */}
+      {/* Variable Selection */}
       <Card>
         <CardHeader>
           <CardTitle className="text-lg">Select Variables</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {/* X Variable */}
+            {/* Outcome */}
             <div className="space-y-2">
-              <Label htmlFor="x-question">
-                Independent Variable (X-axis)
-              </Label>
+              <Label htmlFor="regression-outcome">Outcome (Dependent Variable)</Label>
               <select
-                id="x-question"
+                id="regression-outcome"
                 className="w-full px-3 py-2 border border-slate-300 rounded-md"
-                value={xQuestionId}
+                value={outcomeKey}
                 onChange={(e) => {
-                  setXQuestionId(e.target.value);
-                  setRegressionResult(null);
+                  setOutcomeKey(e.target.value);
+                  setEventChoiceId('');
+                  resetResult();
                 }}
               >
                 <option value="">Select a question...</option>
-                {numericQuestions.map((q) => (
-                  <option key={q.id} value={q.id}>
-                    {q.title}
-                  </option>
-                ))}
+                <optgroup label="Numeric (linear regression)">
+                  {variableOptions
+                    .filter((option) => option.kind === 'numeric')
+                    .map((option) => (
+                      <option key={option.key} value={option.key}>
+                        {option.label}
+                      </option>
+                    ))}
+                </optgroup>
+                <optgroup label="Choice (logistic regression)">
+                  {variableOptions
+                    .filter((option) => option.kind === 'choice')
+                    .map((option) => (
+                      <option key={option.key} value={option.key}>
+                        {option.label}
+                      </option>
+                    ))}
+                </optgroup>
               </select>
               <p className="text-xs text-slate-500">
-                Predictor or explanatory variable
+                {outcomeOption?.kind === 'choice'
+                  ? 'Models the probability that respondents chose the option below'
+                  : 'Linear scale, slider or matrix row, or a choice question for logistic regression'}
               </p>
             </div>
 
-            {/* Y Variable */}
+            {/* Event choice for logistic regression */}
+            {outcomeQuestion && (
+              <div className="space-y-2">
+                <Label htmlFor="regression-event">Outcome of Interest</Label>
+                <select
+                  id="regression-event"
+                  className="w-full px-3 py-2 border border-slate-300 rounded-md"
+                  value={eventChoiceId || eventChoices[0]?.id || ''}
+                  onChange={(e) => {
+                    setEventChoiceId(e.target.value);
+                    resetResult();
+                  }}
+                >
+                  {eventChoices.map((choice) => (
+                    <option key={choice.id} value={choice.id}>
+                      {choice.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-slate-500">Compared with all other answers to this question</p>
+              </div>
+            )}
+          </div>
+
+          {/* Predictors */}
+          <div className="space-y-2">
+            <Label>Predictors (Independent Variables)</Label>
+            <div className="max-h-60 overflow-y-auto rounded-md border border-slate-300 p-2 space-y-1">
+              {predictorOptions.length === 0 && (
+                <p className="text-sm text-slate-500 p-2">This form has no numeric or choice questions</p>
+              )}
+              {predictorOptions.map((option) => (
+                <div key={option.key} className="flex items-center gap-2 p-1">
+                  <Checkbox
+                    id={`predictor-${option.key}`}
+                    checked={predictorKeys.includes(option.key)}
+                    onCheckedChange={(checked) => togglePredictor(option.key, checked === true)}
+                  />
+                  <Label htmlFor={`predictor-${option.key}`} className="font-normal">
+                    {option.label}
+                  </Label>
+                  {option.kind === 'choice' && (
+                    <Badge variant="outline" className="text-xs">
+                      Categorical
+                    </Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500">
+              Only respondents who answered the outcome and every predictor are included
+            </p>
+          </div>
+
+          {/* Reference categories */}
+          {selectedChoicePredictors.length > 0 && (
             <div className="space-y-2">
-              <Label htmlFor="y-question">
-                Dependent Variable (Y-axis)
-              </Label>
-              <select
-                id="y-question"
-                className="w-full px-3 py-2 border border-slate-300 rounded-md"
-                value={yQuestionId}
-                onChange={(e) => {
-                  setYQuestionId(e.target.value);
-                  setRegressionResult(null);
-                }}
-              >
-                <option value="">Select a question...</option>
-                {numericQuestions.map((q) => (
-                  <option key={q.id} value={q.id}>
-                    {q.title}
-                  </option>
+              <Label>Reference Categories</Label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {selectedChoicePredictors.map((question) => (
+                  <div key={question.id} className="space-y-1">
+                    <Label htmlFor={`reference-${question.id}`} className="text-xs font-normal text-slate-600">
+                      {question.title}
+                    </Label>
+                    <select
+                      id={`reference-${question.id}`}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                      value={referenceChoiceIds[question.id] ?? getChoices(question)[0]?.id ?? ''}
+                      onChange={(e) => {
+                        setReferenceChoiceIds((prev) => ({ ...prev, [question.id]: e.target.value }));
+                        resetResult();
+                      }}
+                    >
+                      {getChoices(question).map((choice) => (
+                        <option key={choice.id} value={choice.id}>
+                          {choice.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                 ))}
-              </select>
+              </div>
               <p className="text-xs text-slate-500">
-                Outcome or response variable
+                Each other option gets a coefficient measured against its question&apos;s reference
               </p>
             </div>
-          </div>
+          )}
 
-          <Button
-            onClick={runRegressionAnalysis}
-            disabled={!xQuestionId || !yQuestionId || xQuestionId === yQuestionId}
-            className="w-full md:w-auto"
-          >
+          <Button onClick={runRegressionAnalysis} disabled={!canRun} className="w-full md:w-auto">
             Run Regression Analysis
           </Button>
 
-          {xQuestionId === yQuestionId && xQuestionId && (
-            <p className="text-sm text-amber-600 flex items-center gap-2">
+          {error && (
+            <p className="text-sm text-red-600 flex items-center gap-2" role="alert">
               <AlertCircle className="h-4 w-4" />
-              Please select two different questions
+              {error}
             </p>
           )}
         </CardContent>
       </Card>
 
       {/* Results */}
-      {regressionResult && (
+      {modelRun && (
         <>
-          {/* Regression Statistics */}
           <Card>
             <CardHeader>
-              <CardTitle className="text-lg">Regression Statistics</CardTitle>
+              <CardTitle className="text-lg">
+                {modelRun.model === 'linear' ? 'Multiple Linear Regression' : 'Binary Logistic Regression'}
+              </CardTitle>
               <CardDescription>
-                {yQuestion?.title} vs. {xQuestion?.title}
+                {outcomeOption?.label}
+                {modelRun.model === 'logistic' && ` = ${modelRun.eventLabel}`}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              {/* Regression Equation */}
-              <div className="p-4 bg-blue-50 rounded-lg border border-blue-200">
-                <h4 className="font-medium text-blue-900 mb-2">Regression Equation</h4>
-                <p className="text-lg font-mono text-blue-700">
-                  y = {regressionResult.slope.toFixed(3)}x {regressionResult.intercept >= 0 ? '+' : ''} {regressionResult.intercept.toFixed(3)}
-                </p>
-                <p className="text-xs text-slate-600 mt-2">
-                  For every 1-unit increase in X, Y changes by {regressionResult.slope.toFixed(3)} units
-                </p>
-              </div>
-
               {/* Key Statistics */}
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                <div className="p-3 bg-green-50 rounded-lg border border-green-200">
-                  <p className="text-xs text-slate-600 mb-1">R² (Coefficient of Determination)</p>
-                  <p className="text-xl font-bold text-green-700">
-                    {regressionResult.rSquared.toFixed(4)}
-                  </p>
-                  <p className="text-xs text-slate-500 mt-1">
-                    {(regressionResult.rSquared * 100).toFixed(1)}% of variance explained
-                  </p>
+              {modelRun.model === 'linear' ? (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="p-3 bg-green-50 rounded-lg border border-green-200">
+                    <p className="text-xs text-slate-600 mb-1">R²</p>
+                    <p className="text-xl font-bold text-green-700">{modelRun.result.rSquared.toFixed(3)}</p>
+                    <p className="text-xs text-slate-500 mt-1">
+                      Adjusted {modelRun.result.adjustedRSquared.toFixed(3)}
+                    </p>
+                  </div>
+                  <div className="p-3 bg-purple-50 rounded-lg border border-purple-200">
+                    <p className="text-xs text-slate-600 mb-1">F-Statistic</p>
+                    <p className="text-xl font-bold text-purple-700">{modelRun.result.fStatistic.toFixed(2)}</p>
+                    <p className="text-xs text-slate-500 mt-1">
+                      df = {modelRun.result.dfModel}, {modelRun.result.dfResidual}
+                    </p>
+                  </div>
+                  <div className="p-3 bg-amber-50 rounded-lg border border-amber-200">
+                    <p className="text-xs text-slate-600 mb-1">p-value</p>
+                    <p className="text-xl font-bold text-amber-700">{formatPValue(modelRun.result.fPValue)}</p>
+                    <p className="text-xs text-slate-500 mt-1">
+                      Residual SE {modelRun.result.standardError.toFixed(3)}
+                    </p>
+                  </div>
+                  <div className="p-3 bg-indigo-50 rounded-lg border border-indigo-200">
+                    <p className="text-xs text-slate-600 mb-1">Sample Size</p>
+                    <p className="text-xl font-bold text-indigo-700">{modelRun.result.n}</p>
+                    <p className="text-xs text-slate-500 mt-1">Complete responses</p>
+                  </div>
                 </div>
-
-                <div className="p-3 bg-purple-50 rounded-lg border border-purple-200">
-                  <p className="text-xs text-slate-600 mb-1">Correlation (r)</p>
-                  <p className="text-xl font-bold text-purple-700">
-                    {regressionResult.correlation.toFixed(4)}
-                  </p>
-                  <p className="text-xs text-slate-500 mt-1">
-                    {Math.abs(regressionResult.correlation) > 0.7
-                      ? 'Strong'
-                      : Math.abs(regressionResult.correlation) > 0.4
-                      ? 'Moderate'
-                      : 'Weak'}
-                  </p>
+              ) : (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="p-3 bg-green-50 rounded-lg border border-green-200">
+                    <p className="text-xs text-slate-600 mb-1">Nagelkerke R²</p>
+                    <p className="text-xl font-bold text-green-700">{modelRun.result.nagelkerkeR2.toFixed(3)}</p>
+                    <p className="text-xs text-slate-500 mt-1">
+                      McFadden {modelRun.result.mcFaddenR2.toFixed(3)} · Cox-Snell{' '}
+                      {modelRun.result.coxSnellR2.toFixed(3)}
+                    </p>
+                  </div>
+                  <div className="p-3 bg-purple-50 rounded-lg border border-purple-200">
+                    <p className="text-xs text-slate-600 mb-1">Likelihood Ratio χ²</p>
+                    <p className="text-xl font-bold text-purple-700">{modelRun.result.chiSquare.toFixed(2)}</p>
+                    <p className="text-xs text-slate-500 mt-1">df = {modelRun.result.degreesOfFreedom}</p>
+                  </div>
+                  <div className="p-3 bg-amber-50 rounded-lg border border-amber-200">
+                    <p className="text-xs text-slate-600 mb-1">p-value</p>
+                    <p className="text-xl font-bold text-amber-700">{formatPValue(modelRun.result.pValue)}</p>
+                    <p className="text-xs text-slate-500 mt-1">
+                      −2LL {(-2 * modelRun.result.logLikelihood).toFixed(2)}
+                    </p>
+                  </div>
+                  <div className="p-3 bg-indigo-50 rounded-lg border border-indigo-200">
+                    <p className="text-xs text-slate-600 mb-1">Sample Size</p>
+                    <p className="text-xl font-bold text-indigo-700">{modelRun.result.n}</p>
+                    <p className="text-xs text-slate-500 mt-1">
+                      {modelRun.result.events} chose {modelRun.eventLabel}
+                    </p>
+                  </div>
                 </div>
-
-                <div className="p-3 bg-amber-50 rounded-lg border border-amber-200">
-                  <p className="text-xs text-slate-600 mb-1">Std Error</p>
-                  <p className="text-xl font-bold text-amber-700">
-                    {regressionResult.standardError.toFixed(3)}
-                  </p>
-                  <p className="text-xs text-slate-500 mt-1">
-                    Average prediction error
-                  </p>
-                </div>
-
-                <div className="p-3 bg-indigo-50 rounded-lg border border-indigo-200">
-                  <p className="text-xs text-slate-600 mb-1">Sample Size</p>
-                  <p className="text-xl font-bold text-indigo-700">
-                    {regressionResult.n}
-                  </p>
-                  <p className="text-xs text-slate-500 mt-1">
-                    Paired observations
-                  </p>
-                </div>
-              </div>
+              )}
 
               {/* Interpretation */}
               <div className="p-4 bg-slate-50 rounded-lg border border-slate-200">
                 <h5 className="font-medium text-slate-900 mb-2">Interpretation</h5>
-                <p className="text-sm text-slate-700">
-                  {regressionResult.rSquared > 0.7 && (
-                    <>The model explains a <strong>high proportion</strong> of the variance in {yQuestion?.title}. There is a <strong>strong linear relationship</strong> between the variables.</>
-                  )}
-                  {regressionResult.rSquared > 0.4 && regressionResult.rSquared <= 0.7 && (
-                    <>The model explains a <strong>moderate proportion</strong> of the variance in {yQuestion?.title}. There is a <strong>moderate linear relationship</strong> between the variables.</>
-                  )}
-                  {regressionResult.rSquared <= 0.4 && (
-                    <>The model explains a <strong>small proportion</strong> of the variance in {yQuestion?.title}. The linear relationship is <strong>weak</strong>. Other factors may be more important.</>
-                  )}
-                </p>
+                <p className="text-sm text-slate-700">{modelRun.result.interpretation}</p>
               </div>
+
+              {(modelRun.design.references.length > 0 || modelRun.design.notes.length > 0) && (
+                <div className="text-xs text-slate-600 space-y-1">
+                  {modelRun.design.references.length > 0 && (
+                    <p>
+                      Reference categories:{' '}
+                      {modelRun.design.references
+                        .map(
+                          (reference) =>
+                            `${questions.find((q) => q.id === reference.questionId)?.title} = ${reference.label}`
+                        )
+                        .join(' · ')}
+                    </p>
+                  )}
+                  {modelRun.design.notes.map((note) => (
+                    <p key={note} className="text-amber-700">
+                      {note}
+                    </p>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
 
-          {/* Scatter Plot with Regression Line */}
+          {/* Coefficients */}
           <Card>
             <CardHeader>
-              <CardTitle className="text-lg">Scatter Plot & Regression Line</CardTitle>
+              <CardTitle className="text-lg">Coefficients</CardTitle>
+              <CardDescription>
+                {modelRun.model === 'linear'
+                  ? 'Change in the outcome for a 1-unit increase, holding the other predictors constant'
+                  : 'Odds ratios above 1 make the outcome more likely, below 1 less likely'}
+              </CardDescription>
             </CardHeader>
             <CardContent>
-              <ResponsiveContainer width="100%" height={400}>
-                <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
-                  <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis
-                    type="number"
-                    dataKey="x"
-                    name={xQuestion?.title}
-                    label={{ value: xQuestion?.title, position: 'insideBottom', offset: -10 }}
-                  />
-                  <YAxis
-                    type="number"
-                    dataKey="y"
-                    name={yQuestion?.title}
-                    label={{ value: yQuestion?.title, angle: -90, position: 'insideLeft' }}
-                  />
-                  <Tooltip
-                    cursor={{ strokeDasharray: '3 3' }}
-                    content={({ active, payload }) => {
-                      if (active && payload && payload.length) {
-                        return (
-                          <div className="bg-white p-2 border border-slate-300 rounded shadow-lg text-xs">
-                            <p><strong>X:</strong> {payload[0].value}</p>
-                            <p><strong>Y:</strong> {payload[1].value}</p>
-                          </div>
-                        );
-                      }
-                      return null;
-                    }}
-                  />
-                  <Scatter
-                    name="Data Points"
-                    data={scatterData}
-                    fill="#3b82f6"
-                  />
-                </ScatterChart>
-              </ResponsiveContainer>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-200 text-left text-slate-600">
+                      <th className="py-2 pr-4 font-medium">Term</th>
+                      <th className="py-2 pr-4 font-medium">B</th>
+                      <th className="py-2 pr-4 font-medium">SE</th>
+                      <th className="py-2 pr-4 font-medium">{modelRun.model === 'linear' ? 't' : 'z'}</th>
+                      <th className="py-2 pr-4 font-medium">p</th>
+                      {modelRun.model === 'linear' ? (
+                        <>
+                          <th className="py-2 pr-4 font-medium">95% CI</th>
+                          <th className="py-2 pr-4 font-medium">VIF</th>
+                        </>
+                      ) : (
+                        <>
+                          <th className="py-2 pr-4 font-medium">Odds Ratio</th>
+                          <th className="py-2 pr-4 font-medium">95% CI (OR)</th>
+                        </>
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {modelRun.model === 'linear'
+                      ? modelRun.result.coefficients.map((c) => (
+                          <tr
+                            key={c.term}
+                            className={`border-b border-slate-100 ${c.isSignificant && c.term !== 'Intercept' ? 'font-semibold text-green-700' : ''}`}
+                          >
+                            <td className="py-2 pr-4">{c.term}</td>
+                            <td className="py-2 pr-4">{c.estimate.toFixed(3)}</td>
+                            <td className="py-2 pr-4">{c.standardError.toFixed(3)}</td>
+                            <td className="py-2 pr-4">{c.statistic.toFixed(2)}</td>
+                            <td className="py-2 pr-4">{formatPValue(c.pValue)}</td>
+                            <td className="py-2 pr-4">
+                              [{c.lowerCI.toFixed(3)}, {c.upperCI.toFixed(3)}]
+                            </td>
+                            <td
+                              className={`py-2 pr-4 ${c.vif !== null && c.vif > 5 ? 'text-amber-700 font-semibold' : ''}`}
+                            >
+                              {c.vif === null ? '—' : formatNumber(c.vif, 2)}
+                            </td>
+                          </tr>
+                        ))
+                      : modelRun.result.coefficients.map((c) => (
+                          <tr
+                            key={c.term}
+                            className={`border-b border-slate-100 ${c.isSignificant && c.term !== 'Intercept' ? 'font-semibold text-green-700' : ''}`}
+                          >
+                            <td className="py-2 pr-4">{c.term}</td>
+                            <td className="py-2 pr-4">{c.estimate.toFixed(3)}</td>
+                            <td className="py-2 pr-4">{c.standardError.toFixed(3)}</td>
+                            <td className="py-2 pr-4">{c.statistic.toFixed(2)}</td>
+                            <td className="py-2 pr-4">{formatPValue(c.pValue)}</td>
+                            <td className="py-2 pr-4">{formatNumber(c.oddsRatio)}</td>
+                            <td className="py-2 pr-4">
+                              [{formatNumber(c.oddsRatioLower)}, {formatNumber(c.oddsRatioUpper)}]
+                            </td>
+                          </tr>
+                        ))}
+                  </tbody>
+                </table>
+              </div>
+              {modelRun.model === 'linear' && (
+                <p className="text-xs text-slate-500 mt-3">
+                  VIF above 5 (highlighted) suggests a predictor overlaps heavily with the others.
+                </p>
+              )}
             </CardContent>
           </Card>
+
+          {/* Classification Table */}
+          {modelRun.model === 'logistic' && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Classification Table</CardTitle>
+                <CardDescription>
+                  Responses predicted as {modelRun.eventLabel} when the fitted probability is at least{' '}
+                  {modelRun.result.classification.cutoff}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <table className="text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-200 text-left text-slate-600">
+                      <th className="py-2 pr-6 font-medium">Observed</th>
+                      <th className="py-2 pr-6 font-medium">Predicted {modelRun.eventLabel}</th>
+                      <th className="py-2 pr-6 font-medium">Predicted other</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr className="border-b border-slate-100">
+                      <td className="py-2 pr-6">{modelRun.eventLabel}</td>
+                      <td className="py-2 pr-6 font-semibold text-green-700">
+                        {modelRun.result.classification.truePositive}
+                      </td>
+                      <td className="py-2 pr-6">{modelRun.result.classification.falseNegative}</td>
+                    </tr>
+                    <tr className="border-b border-slate-100">
+                      <td className="py-2 pr-6">Other</td>
+                      <td className="py-2 pr-6">{modelRun.result.classification.falsePositive}</td>
+                      <td className="py-2 pr-6 font-semibold text-green-700">
+                        {modelRun.result.classification.trueNegative}
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+                <p className="text-sm text-slate-700">
+                  Accuracy {(modelRun.result.classification.accuracy * 100).toFixed(1)}% · Sensitivity{' '}
+                  {(modelRun.result.classification.sensitivity * 100).toFixed(1)}% · Specificity{' '}
+                  {(modelRun.result.classification.specificity * 100).toFixed(1)}%
+                </p>
+                {modelRun.result.separation && (
+                  <p className="text-sm text-amber-700 flex items-center gap-2">
+                    <AlertCircle className="h-4 w-4" />
+                    The model did not settle on stable estimates; try fewer predictors or merge rare categories.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Observed vs Predicted */}
+          {modelRun.model === 'linear' && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Observed vs. Predicted</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={400}>
+                  <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                      type="number"
+                      dataKey="predicted"
+                      name="Predicted"
+                      label={{ value: 'Predicted', position: 'insideBottom', offset: -10 }}
+                    />
+                    <YAxis
+                      type="number"
+                      dataKey="observed"
+                      name="Observed"
+                      label={{ value: 'Observed', angle: -90, position: 'insideLeft' }}
+                    />
+                    <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+                    <Scatter name="Responses" data={scatterData} fill="#3b82f6" />
+                  </ScatterChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          )}
         </>
       )}
 
       {/* Empty State */}
-      {!regressionResult && (
+      {!modelRun && (
         <Card>
           <CardContent className="p-12 text-center">
             <TrendingUp className="h-12 w-12 text-slate-400 mx-auto mb-4" />
             <p className="text-slate-600">
-              Select two numeric variables and run regression analysis to see results
+              Select an outcome and one or more predictors and run regression analysis to see results
             </p>
           </CardContent>
         </Card>
@@ -3,10 +3,12 @@
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, User, Clock, CheckCircle } from 'lucide-react';
+import { ArrowLeft, User, Clock, CheckCircle, FileText } from 'lucide-react';
 import { format } from 'date-fns';
 import type { FormWithQuestions } from '@/lib/types/form.types';
 import type { Question } from '@/lib/types/question.types';
+import type { UploadedFile } from '@/lib/types/response.types';
+import { getRankingOptions } from '@/lib/utils/question-type-guards';
 
 interface ResponseData {
   id: string;
@@ -142,6 +144,66 @@ export function ResponseDetail({ form, response }: ResponseDetailProps) {
         );
       }
 
+      case 'file_upload': {
+        const files = value.files as UploadedFile[];
+        if (!files || files.length === 0) {
+          return <span className="text-slate-400">No files uploaded</span>;
+        }
+
+        return (
+          <div className="space-y-2">
+            {files.map((file) => (
+              <div key={file.id} className="flex items-center gap-2">
+                <FileText className="h-4 w-4 text-slate-500" />
+                <a
+                  href={file.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:underline"
+                >
+                  {file.name}
+                </a>
+                <span className="text-xs text-slate-500">
+                  {(file.size / 1024 / 1024).toFixed(2)}MB
+                </span>
+              </div>
+            ))}
+          </div>
+        );
+      }
+
+      case 'ranking': {
+        const rankedItems = value.ranked_items as string[];
+        if (!rankedItems || rankedItems.length === 0) {
+          return <span className="text-slate-400">No ranking</span>;
+        }
+
+        const items = getRankingOptions(question.options).items;
+        return (
+          <ol className="space-y-1">
+            {rankedItems.map((itemId, index) => (
+              <li key={itemId} className="flex items-center gap-2">
+                <span className="font-semibold text-slate-600">#{index + 1}</span>
+                <Badge variant="outline">
+                  {items.find((item) => item.id === itemId)?.label || itemId}
+                </Badge>
+              </li>
+            ))}
+          </ol>
+        );
+      }
+
+      case 'slider': {
+        const sliderValue = value.slider_value as number;
+        return (
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className="text-lg px-4 py-2">
+              {sliderValue}
+            </Badge>
+          </div>
+        );
+      }
+
       default:
         return <span className="text-slate-400">Unsupported question type</span>;
     }
@@ -20,14 +20,17 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Input } from '@/components/ui/input';
-import { ArrowLeft, Download, MoreVertical, Trash2, Eye, BarChart3, Search, FileSpreadsheet } from 'lucide-react';
+import { ArrowLeft, Download, MoreVertical, Trash2, Eye, BarChart3, Search, FileSpreadsheet, Mail } from 'lucide-react';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
 import { deleteResponse } from '@/app/(dashboard)/forms/[formId]/responses/actions';
 import { StatsCards } from './StatsCards';
+import { ExportResponsesDialog } from './ExportResponsesDialog';
 import { exportResponsesToCSV } from '@/lib/utils/csv-export';
 import { exportResponsesToExcel } from '@/lib/utils/excel-export';
-import type { FormWithQuestions } from '@/lib/types/form.types';
+import { appendScaleScores } from '@/lib/utils/scale-reliability';
+import { appendFactorScores } from '@/lib/utils/factor-analysis';
+import type { FormFactorScore, FormScale, FormWithQuestions } from '@/lib/types/form.types';
 
 interface ResponseData {
   id: string;
@@ -47,6 +50,8 @@ interface ResponseData {
 interface ResponsesOverviewProps {
   form: FormWithQuestions;
   responses: ResponseData[];
+  scales: FormScale[];
+  factorScores: FormFactorScore[];
   stats: {
     totalResponses: number;
     completedResponses: number;
@@ -55,10 +60,11 @@ interface ResponsesOverviewProps {
   };
 }
 
-export function ResponsesOverview({ form, responses, stats }: ResponsesOverviewProps) {
+export function ResponsesOverview({ form, responses, scales, factorScores, stats }: ResponsesOverviewProps) {
   const router = useRouter();
   const [searchQuery, setSearchQuery] = useState('');
   const [filterStatus, setFilterStatus] = useState<'all' | 'complete' | 'incomplete'>('all');
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
 
   const handleDelete = async (responseId: string) => {
     if (!confirm('Are you sure you want to delete this response? This action cannot be undone.')) {
@@ -84,7 +90,10 @@ export function ResponsesOverview({ form, responses, stats }: ResponsesOverviewP
       return;
     }
 
-    exportResponsesToCSV(form.title, form.questions, completeResponses);
+    // Saved scales and factor scores are exported as extra columns
+    const withScales = appendScaleScores(form.questions, completeResponses, scales);
+    const scored = appendFactorScores(withScales.questions, withScales.responses, factorScores);
+    exportResponsesToCSV(form.title, scored.questions, scored.responses);
     toast.success(`Exported ${completeResponses.length} responses to CSV`);
   };
 
@@ -98,7 +107,9 @@ export function ResponsesOverview({ form, responses, stats }: ResponsesOverviewP
     }
 
     try {
-      await exportResponsesToExcel(form.title, form.questions, completeResponses);
+      const withScales = appendScaleScores(form.questions, completeResponses, scales);
+      const scored = appendFactorScores(withScales.questions, withScales.responses, factorScores);
+      await exportResponsesToExcel(form.title, scored.questions, scored.responses);
       toast.success(`Exported ${completeResponses.length} responses to Excel`);
     } catch (error) {
       console.error('Excel export error:', error);
@@ -153,9 +164,19 @@ export function ResponsesOverview({ form, responses, stats }: ResponsesOverviewP
             <FileSpreadsheet className="mr-2 h-4 w-4" />
             Export Excel
           </Button>
+          <Button variant="outline" onClick={() => setExportDialogOpen(true)}>
+            <Mail className="mr-2 h-4 w-4" />
+            Email Export
+          </Button>
         </div>
       </nav>
 
+      <ExportResponsesDialog
+        open={exportDialogOpen}
+        onOpenChange={setExportDialogOpen}
+        formId={form.id}
+      />
+
       {/* Stats Cards */}
       <StatsCards stats={stats} />
 
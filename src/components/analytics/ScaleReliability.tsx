@@ -0,0 +1,411 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, Gauge, Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import { deleteScale, saveScale } from '@/app/(dashboard)/forms/[formId]/analytics/actions';
+import { getNumericVariables } from '@/lib/utils/analysis-variables';
+import {
+  analyzeReliability,
+  readScaleItems,
+  resolveScaleItems,
+  type ReliabilityResult,
+} from '@/lib/utils/scale-reliability';
+import type { FormScale, FormScaleItem } from '@/lib/types/form.types';
+import type { TypedQuestion } from '@/lib/types/question.types';
+import type { Answer } from '@/lib/types/response.types';
+
+interface ScaleReliabilityProps {
+  formId: string;
+  questions: TypedQuestion[];
+  answersByQuestion: Record<string, Answer[]>;
+  scales: FormScale[];
+  onScalesChange: (scales: FormScale[]) => void;
+}
+
+const formatCoefficient = (value: number | null) =>
+  value === null || !Number.isFinite(value) ? '—' : value.toFixed(3);
+
+function reliabilityColor(value: number | null): string {
+  if (value === null || !Number.isFinite(value)) return 'text-slate-500';
+  if (value >= 0.8) return 'text-green-700';
+  if (value >= 0.7) return 'text-blue-700';
+  if (value >= 0.6) return 'text-amber-700';
+  return 'text-red-700';
+}
+
+export function ScaleReliability({
+  formId,
+  questions,
+  answersByQuestion,
+  scales,
+  onScalesChange,
+}: ScaleReliabilityProps) {
+  const [editingScaleId, setEditingScaleId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [scoring, setScoring] = useState<FormScale['scoring']>('mean');
+  const [items, setItems] = useState<FormScaleItem[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const numericVariables = useMemo(() => getNumericVariables(questions), [questions]);
+
+  // Reliability of the items as currently selected, recomputed as they change
+  const selectedItems = useMemo(() => resolveScaleItems({ items }, numericVariables), [items, numericVariables]);
+  const reliability = useMemo((): ReliabilityResult | null => {
+    if (selectedItems.length < 2) return null;
+
+    const values = readScaleItems(selectedItems, answersByQuestion);
+    if (values[0].length < 3) return null;
+    return analyzeReliability(values, selectedItems.map((item) => item.variable.label));
+  }, [selectedItems, answersByQuestion]);
+
+  const completeCount = useMemo(
+    () => (selectedItems.length > 0 ? readScaleItems(selectedItems, answersByQuestion)[0].length : 0),
+    [selectedItems, answersByQuestion]
+  );
+
+  const editScale = (scale: FormScale | null) => {
+    setEditingScaleId(scale?.id ?? null);
+    setName(scale?.name ?? '');
+    setScoring(scale?.scoring ?? 'mean');
+    setItems(scale?.items ?? []);
+    setError(null);
+  };
+
+  const toggleItem = (variableId: string, checked: boolean) => {
+    setItems((prev) =>
+      checked
+        ? [...prev, { variable_id: variableId, reverse: false }]
+        : prev.filter((item) => item.variable_id !== variableId)
+    );
+  };
+
+  const toggleReverse = (variableId: string, reverse: boolean) => {
+    setItems((prev) => prev.map((item) => (item.variable_id === variableId ? { ...item, reverse } : item)));
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    setIsSaving(true);
+
+    const result = await saveScale(formId, editingScaleId, { name, items, scoring });
+
+    setIsSaving(false);
+
+    if (result.error || !result.data) {
+      setError(result.error || 'Failed to save scale');
+      return;
+    }
+
+    const saved = result.data;
+    onScalesChange(
+      [...scales.filter((scale) => scale.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    setEditingScaleId(saved.id);
+    toast.success(`Saved scale "${saved.name}"`);
+  };
+
+  const handleDelete = async (scale: FormScale) => {
+    if (!confirm(`Delete the scale "${scale.name}"? Its score will no longer be available in analytics and exports.`)) {
+      return;
+    }
+
+    const result = await deleteScale(formId, scale.id);
+    if (result.error) {
+      toast.error(result.error);
+      return;
+    }
+
+    onScalesChange(scales.filter((s) => s.id !== scale.id));
+    if (editingScaleId === scale.id) editScale(null);
+    toast.success(`Deleted scale "${scale.name}"`);
+  };
+
+  const missingItemCount = items.length - selectedItems.length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="h-5 w-5" />
+            Scale Reliability
+          </CardTitle>
+          <CardDescription>
+            Combine scale questions or matrix rows into a composite score, check its internal consistency
+            (Cronbach&apos;s alpha, McDonald&apos;s omega) and save it for cross-tabulation, correlation and exports
+          </CardDescription>
+        </CardHeader>
+      </Card>
+
+      {/* Saved Scales */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Saved Scales</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {scales.length === 0 && (
+            <p className="text-sm text-slate-500">No scales yet. Select items below and save them as a scale.</p>
+          )}
+          {scales.map((scale) => {
+            const missing = scale.items.length - resolveScaleItems(scale, numericVariables).length;
+            return (
+              <div
+                key={scale.id}
+                className={`flex items-center justify-between gap-3 p-3 rounded-lg border ${
+                  scale.id === editingScaleId ? 'border-blue-300 bg-blue-50' : 'border-slate-200'
+                }`}
+              >
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{scale.name}</p>
+                  <p className="text-xs text-slate-500">
+                    {scale.scoring === 'mean' ? 'Mean' : 'Sum'} of {scale.items.length} items
+                    {scale.items.some((item) => item.reverse) &&
+                      `, ${scale.items.filter((item) => item.reverse).length} reverse-coded`}
+                  </p>
+                  {missing > 0 && (
+                    <p className="text-xs text-amber-700">
+                      {missing} item{missing === 1 ? ' is' : 's are'} not in these questions, so no score is computed
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" onClick={() => editScale(scale)}>
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(scale)}
+                    aria-label={`Delete scale ${scale.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      {/* Scale Builder */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg">{editingScaleId ? 'Edit Scale' : 'New Scale'}</CardTitle>
+            {editingScaleId && (
+              <Button variant="outline" size="sm" onClick={() => editScale(null)}>
+                <Plus className="h-4 w-4 mr-1" />
+                New Scale
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="scale-name">Name</Label>
+              <Input
+                id="scale-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Job satisfaction"
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scale-scoring">Score</Label>
+              <select
+                id="scale-scoring"
+                className="w-full px-3 py-2 border border-slate-300 rounded-md"
+                value={scoring}
+                onChange={(e) => setScoring(e.target.value as FormScale['scoring'])}
+              >
+                <option value="mean">Mean of the items</option>
+                <option value="sum">Sum of the items</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Items (select 2 or more)</Label>
+            <div className="max-h-72 overflow-y-auto rounded-md border border-slate-300 p-2 space-y-1">
+              {numericVariables.length === 0 && (
+                <p className="text-sm text-slate-500 p-2">This form has no linear scale, slider or matrix questions</p>
+              )}
+              {numericVariables.map((variable) => {
+                const item = items.find((i) => i.variable_id === variable.id);
+                return (
+                  <div key={variable.id} className="flex items-center justify-between gap-2 p-1">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Checkbox
+                        id={`scale-item-${variable.id}`}
+                        checked={!!item}
+                        onCheckedChange={(checked) => toggleItem(variable.id, checked === true)}
+                      />
+                      <Label htmlFor={`scale-item-${variable.id}`} className="font-normal truncate">
+                        {variable.label}
+                      </Label>
+                    </div>
+                    {item && (
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <Checkbox
+                          id={`scale-reverse-${variable.id}`}
+                          checked={item.reverse}
+                          onCheckedChange={(checked) => toggleReverse(variable.id, checked === true)}
+                        />
+                        <Label htmlFor={`scale-reverse-${variable.id}`} className="text-xs font-normal text-slate-600">
+                          Reverse ({variable.min}–{variable.max})
+                        </Label>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-xs text-slate-500">
+              Reverse-coded items are scored max + min − answer. Only respondents who answered every item get a
+              score{selectedItems.length > 0 && ` (${completeCount})`}.
+            </p>
+            {missingItemCount > 0 && (
+              <p className="text-xs text-amber-700">
+                {missingItemCount} saved item{missingItemCount === 1 ? ' is' : 's are'} not in these questions, so
+                {missingItemCount === 1 ? ' it is' : ' they are'} left out of the reliability below.
+              </p>
+            )}
+          </div>
+
+          <Button onClick={handleSave} disabled={isSaving || !name.trim() || selectedItems.length < 2}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            {editingScaleId ? 'Save Changes' : 'Save Scale'}
+          </Button>
+
+          {error && (
+            <p className="text-sm text-red-600 flex items-center gap-2" role="alert">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Results */}
+      {reliability ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Reliability</CardTitle>
+            <CardDescription>
+              {reliability.itemCount} items, {reliability.n} respondents who answered all of them
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="p-3 bg-slate-50 rounded-lg border border-slate-200">
+                <p className="text-xs text-slate-600 mb-1">Cronbach&apos;s α</p>
+                <p className={`text-xl font-bold ${reliabilityColor(reliability.cronbachAlpha)}`}>
+                  {formatCoefficient(reliability.cronbachAlpha)}
+                </p>
+              </div>
+              <div className="p-3 bg-slate-50 rounded-lg border border-slate-200">
+                <p className="text-xs text-slate-600 mb-1">McDonald&apos;s ω</p>
+                <p className={`text-xl font-bold ${reliabilityColor(reliability.mcDonaldOmega)}`}>
+                  {formatCoefficient(reliability.mcDonaldOmega)}
+                </p>
+              </div>
+              <div className="p-3 bg-slate-50 rounded-lg border border-slate-200">
+                <p className="text-xs text-slate-600 mb-1">Standardized α</p>
+                <p className="text-xl font-bold text-slate-700">{formatCoefficient(reliability.standardizedAlpha)}</p>
+              </div>
+              <div className="p-3 bg-slate-50 rounded-lg border border-slate-200">
+                <p className="text-xs text-slate-600 mb-1">Mean Inter-Item r</p>
+                <p className="text-xl font-bold text-slate-700">
+                  {formatCoefficient(reliability.meanInterItemCorrelation)}
+                </p>
+              </div>
+            </div>
+
+            <div className="p-4 bg-slate-50 rounded-lg border border-slate-200">
+              <h5 className="font-medium text-slate-900 mb-2">Interpretation</h5>
+              <p className="text-sm text-slate-700">{reliability.interpretation}</p>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 text-left text-slate-600">
+                    <th className="py-2 pr-4 font-medium">Item</th>
+                    <th className="py-2 pr-4 font-medium">Mean</th>
+                    <th className="py-2 pr-4 font-medium">SD</th>
+                    <th className="py-2 pr-4 font-medium">Corrected Item-Total r</th>
+                    <th className="py-2 pr-4 font-medium">α if Deleted</th>
+                    <th className="py-2 pr-4 font-medium">Loading</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reliability.items.map((item, index) => (
+                    <tr key={selectedItems[index].variable.id} className="border-b border-slate-100">
+                      <td className="py-2 pr-4">
+                        {item.label}
+                        {selectedItems[index].reverse && (
+                          <Badge variant="outline" className="ml-2 text-xs">
+                            Reversed
+                          </Badge>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4">{item.mean.toFixed(2)}</td>
+                      <td className="py-2 pr-4">{item.standardDeviation.toFixed(2)}</td>
+                      <td
+                        className={`py-2 pr-4 ${
+                          item.correctedItemTotal < 0.3 ? 'text-amber-700 font-semibold' : ''
+                        }`}
+                      >
+                        {item.correctedItemTotal.toFixed(3)}
+                      </td>
+                      <td
+                        className={`py-2 pr-4 ${
+                          item.alphaIfDeleted !== null && item.alphaIfDeleted > reliability.cronbachAlpha
+                            ? 'text-amber-700 font-semibold'
+                            : ''
+                        }`}
+                      >
+                        {formatCoefficient(item.alphaIfDeleted)}
+                      </td>
+                      <td className="py-2 pr-4">{formatCoefficient(item.loading)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="p-3 bg-slate-50 rounded-lg border border-slate-200">
+              <p className="text-xs text-slate-600">
+                α ≥ 0.70 is usually acceptable and ≥ 0.80 good. ω is computed from a one-factor model and does not
+                assume every item measures the construct equally well. Highlighted items correlate weakly with the
+                rest of the scale or lower alpha.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <Gauge className="h-12 w-12 text-slate-400 mx-auto mb-4" />
+            <p className="text-slate-600">
+              {selectedItems.length < 2
+                ? 'Select at least 2 items to see the scale’s reliability'
+                : 'Need at least 3 respondents who answered every item'}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
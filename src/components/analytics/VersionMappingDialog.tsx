@@ -0,0 +1,257 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, ArrowRight, Loader2, Save } from 'lucide-react';
+import { saveVersionMapping } from '@/app/(dashboard)/forms/[formId]/analytics/actions';
+import { getVersionQuestions } from '@/lib/utils/form-versions';
+import {
+  getQuestionChoices,
+  resolveAnswerMapping,
+  suggestChoiceMapping,
+  type AnswerMapping,
+} from '@/lib/utils/version-mapping';
+import type { FormVersion, FormVersionMapping } from '@/lib/types/form.types';
+import type { Question } from '@/lib/types/question.types';
+
+// Select items can't have an empty value
+const UNMAPPED = 'none';
+
+interface VersionMappingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  formId: string;
+  versions: FormVersion[];
+  questions: Question[];
+  mappings: FormVersionMapping[];
+  onSaved: (mapping: FormVersionMapping) => void;
+}
+
+export function VersionMappingDialog({ open, onOpenChange, ...props }: VersionMappingDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        {/* Content unmounts while closed, so unsaved changes are dropped */}
+        {props.versions.length > 0 && <MappingForm {...props} onClose={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface MappingFormProps extends Omit<VersionMappingDialogProps, 'open' | 'onOpenChange'> {
+  onClose: () => void;
+}
+
+function MappingForm({ formId, versions, questions, mappings, onSaved, onClose }: MappingFormProps) {
+  const getMapping = (version: FormVersion) =>
+    resolveAnswerMapping(
+      getVersionQuestions(version),
+      questions,
+      mappings.find((m) => m.version_id === version.id)
+    );
+
+  const [versionId, setVersionId] = useState(versions[0].id);
+  const [mapping, setMapping] = useState<AnswerMapping>(() => getMapping(versions[0]));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const version = versions.find((v) => v.id === versionId) ?? versions[0];
+  const versionQuestions = getVersionQuestions(version);
+
+  const handleVersionChange = (id: string) => {
+    const next = versions.find((v) => v.id === id);
+    if (!next) return;
+    setVersionId(id);
+    setMapping(getMapping(next));
+    setError(null);
+  };
+
+  const handleQuestionChange = (question: Question, targetId: string) => {
+    const target = questions.find((q) => q.id === targetId);
+    const choices = getQuestionChoices(question);
+
+    setMapping((prev) => {
+      const choiceMap = { ...prev.choice_map };
+      if (target && choices.length > 0) {
+        choiceMap[question.id] = suggestChoiceMapping(choices, getQuestionChoices(target));
+      } else {
+        delete choiceMap[question.id];
+      }
+
+      return {
+        question_map: { ...prev.question_map, [question.id]: target?.id ?? null },
+        choice_map: choiceMap,
+      };
+    });
+  };
+
+  const handleChoiceChange = (questionId: string, choiceId: string, targetId: string) => {
+    setMapping((prev) => ({
+      ...prev,
+      choice_map: {
+        ...prev.choice_map,
+        [questionId]: {
+          ...prev.choice_map[questionId],
+          [choiceId]: targetId === UNMAPPED ? null : targetId,
+        },
+      },
+    }));
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    setIsSaving(true);
+
+    const result = await saveVersionMapping(formId, version.id, mapping);
+
+    setIsSaving(false);
+
+    if (result.error || !result.data) {
+      setError(result.error || 'Failed to save mapping');
+      return;
+    }
+
+    toast.success(`Saved mapping for version ${version.version_number}`);
+    onSaved(result.data);
+    onClose();
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Map Answers Between Versions</DialogTitle>
+        <DialogDescription>
+          Declare which current question and choice each answer of an older version counts towards
+          when all versions are analysed together
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-5 py-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <Label>Version</Label>
+          <Select value={version.id} onValueChange={handleVersionChange}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map((v) => (
+                <SelectItem key={v.id} value={v.id}>
+                  Version {v.version_number}
+                  {v.change_summary ? ` - ${v.change_summary}` : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {versionQuestions.length === 0 && (
+          <p className="text-sm text-slate-500">This version has no questions</p>
+        )}
+
+        {versionQuestions.map((question) => {
+          const targetId = mapping.question_map[question.id] ?? null;
+          const target = questions.find((q) => q.id === targetId);
+          const choices = getQuestionChoices(question);
+          const targetChoices = target ? getQuestionChoices(target) : [];
+
+          return (
+            <div key={question.id} className="rounded-lg border border-slate-200 p-4 space-y-3">
+              <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-3">
+                <p className="text-sm font-medium text-slate-800 truncate" title={question.title}>
+                  {question.title || 'Untitled question'}
+                </p>
+                <ArrowRight className="h-4 w-4 text-slate-400" />
+                <Select
+                  value={targetId ?? UNMAPPED}
+                  onValueChange={(value) => handleQuestionChange(question, value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Not included</SelectItem>
+                    {questions
+                      .filter((q) => q.type === question.type)
+                      .map((q) => (
+                        <SelectItem key={q.id} value={q.id}>
+                          {q.title || 'Untitled question'}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {target && choices.length > 0 && (
+                <div className="space-y-2 pl-4 border-l-2 border-slate-100">
+                  {choices.map((choice) => (
+                    <div key={choice.id} className="grid grid-cols-[1fr_auto_1fr] items-center gap-3">
+                      <p className="text-sm text-slate-600 truncate" title={choice.label}>
+                        {choice.label}
+                      </p>
+                      <ArrowRight className="h-3 w-3 text-slate-300" />
+                      <Select
+                        value={mapping.choice_map[question.id]?.[choice.id] ?? UNMAPPED}
+                        onValueChange={(value) => handleChoiceChange(question.id, choice.id, value)}
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNMAPPED}>Not included</SelectItem>
+                          {targetChoices.map((c) => (
+                            <SelectItem key={c.id} value={c.id}>
+                              {c.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="mr-2 h-4 w-4" />
+          )}
+          Save Mapping
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
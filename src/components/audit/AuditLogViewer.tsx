@@ -27,7 +27,7 @@ import {
   DialogTitle,
   DialogDescription,
 } from '@/components/ui/dialog';
-import { Search, FileText, Trash2, Edit, Eye, CheckCircle, Download } from 'lucide-react';
+import { Search, FileText, Trash2, Edit, Eye, CheckCircle, Download, ShieldAlert } from 'lucide-react';
 import type { AuditLog } from '@/lib/types/audit.types';
 import type { AuditLogFilters } from '@/lib/types/audit.types';
 import { exportAuditLogs } from '@/app/(dashboard)/audit/actions';
@@ -43,6 +43,7 @@ const ACTION_ICONS: Record<string, React.ReactNode> = {
   delete: <Trash2 className="h-4 w-4" />,
   view: <Eye className="h-4 w-4" />,
   publish: <CheckCircle className="h-4 w-4" />,
+  rate_limited: <ShieldAlert className="h-4 w-4" />,
 };
 
 const ACTION_COLORS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
@@ -51,6 +52,7 @@ const ACTION_COLORS: Record<string, 'default' | 'secondary' | 'destructive' | 'o
   delete: 'destructive',
   view: 'outline',
   publish: 'default',
+  rate_limited: 'destructive',
 };
 
 export function AuditLogViewer({ logs }: AuditLogViewerProps) {
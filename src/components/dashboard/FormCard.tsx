@@ -15,6 +15,7 @@ import {
   Share2,
   ExternalLink,
   BarChart3,
+  Users,
 } from 'lucide-react';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -40,6 +41,8 @@ import { deleteForm, duplicateForm, archiveForm, unarchiveForm } from '@/app/(da
 import { toast } from 'sonner';
 import type { FormWithStats } from '@/lib/types/form.types';
 import { ShareDialog } from '@/components/share/ShareDialog';
+import { CollaboratorsDialog } from '@/components/share/CollaboratorsDialog';
+import { FORM_ROLE_LABELS, roleHasPermission } from '@/lib/utils/form-permissions';
 
 interface FormCardProps {
   form: FormWithStats;
@@ -52,6 +55,13 @@ export function FormCard({ form, showArchived = false }: FormCardProps) {
   const [isDuplicating, setIsDuplicating] = useState(false);
   const [isArchiving, setIsArchiving] = useState(false);
   const [showShareDialog, setShowShareDialog] = useState(false);
+  const [showCollaboratorsDialog, setShowCollaboratorsDialog] = useState(false);
+
+  // Forms without a role are the user's own
+  const role = form.role ?? 'owner';
+  const canEdit = roleHasPermission(role, 'edit');
+  const canViewResponses = roleHasPermission(role, 'view_responses');
+  const canManage = roleHasPermission(role, 'manage');
 
   const handleDelete = async () => {
     setIsDeleting(true);
@@ -139,13 +149,15 @@ export function FormCard({ form, showArchived = false }: FormCardProps) {
                   View Form
                 </Link>
               </DropdownMenuItem>
-              <DropdownMenuItem asChild>
-                <Link href={`/forms/${form.id}/edit`} className="cursor-pointer">
-                  <Edit className="mr-2 h-4 w-4" />
-                  Edit Form
-                </Link>
-              </DropdownMenuItem>
-              {form.responseCount > 0 && (
+              {canEdit && (
+                <DropdownMenuItem asChild>
+                  <Link href={`/forms/${form.id}/edit`} className="cursor-pointer">
+                    <Edit className="mr-2 h-4 w-4" />
+                    Edit Form
+                  </Link>
+                </DropdownMenuItem>
+              )}
+              {canViewResponses && form.responseCount > 0 && (
                 <DropdownMenuItem asChild>
                   <Link href={`/forms/${form.id}/responses`} className="cursor-pointer">
                     <Eye className="mr-2 h-4 w-4" />
@@ -170,6 +182,10 @@ export function FormCard({ form, showArchived = false }: FormCardProps) {
                   </DropdownMenuItem>
                 </>
               )}
+              <DropdownMenuItem onClick={() => setShowCollaboratorsDialog(true)}>
+                <Users className="mr-2 h-4 w-4" />
+                Collaborators
+              </DropdownMenuItem>
               <DropdownMenuSeparator />
               <DropdownMenuItem
                 onClick={handleDuplicate}
@@ -178,7 +194,7 @@ export function FormCard({ form, showArchived = false }: FormCardProps) {
                 <Copy className="mr-2 h-4 w-4" />
                 {isDuplicating ? 'Duplicating...' : 'Duplicate'}
               </DropdownMenuItem>
-              {!showArchived && (
+              {canManage && !showArchived && (
                 <DropdownMenuItem
                   onClick={handleArchive}
                   disabled={isArchiving}
@@ -187,7 +203,7 @@ export function FormCard({ form, showArchived = false }: FormCardProps) {
                   {isArchiving ? 'Archiving...' : 'Archive'}
                 </DropdownMenuItem>
               )}
-              {showArchived && (
+              {canManage && showArchived && (
                 <DropdownMenuItem
                   onClick={handleArchive}
                   disabled={isArchiving}
@@ -196,14 +212,18 @@ export function FormCard({ form, showArchived = false }: FormCardProps) {
                   {isArchiving ? 'Restoring...' : 'Restore'}
                 </DropdownMenuItem>
               )}
-              <DropdownMenuSeparator />
-              <DropdownMenuItem
-                onClick={() => setShowDeleteDialog(true)}
-                className="text-red-600"
-              >
-                <Trash2 className="mr-2 h-4 w-4" />
-                Delete Permanently
-              </DropdownMenuItem>
+              {canManage && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onClick={() => setShowDeleteDialog(true)}
+                    className="text-red-600"
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete Permanently
+                  </DropdownMenuItem>
+                </>
+              )}
             </DropdownMenuContent>
           </DropdownMenu>
         </CardHeader>
@@ -219,9 +239,12 @@ export function FormCard({ form, showArchived = false }: FormCardProps) {
                 <span>{form.responseCount} responses</span>
               </div>
             </div>
-            <Badge variant={form.is_published ? 'default' : 'secondary'}>
-              {form.is_published ? 'Published' : 'Draft'}
-            </Badge>
+            <div className="flex items-center gap-2">
+              {form.role && <Badge variant="outline">{FORM_ROLE_LABELS[form.role]}</Badge>}
+              <Badge variant={form.is_published ? 'default' : 'secondary'}>
+                {form.is_published ? 'Published' : 'Draft'}
+              </Badge>
+            </div>
           </div>
 
           {/* Action Buttons */}
@@ -232,13 +255,22 @@ export function FormCard({ form, showArchived = false }: FormCardProps) {
                 View Form
               </Button>
             </Link>
-            <Link href={`/forms/${form.id}/edit`} className="flex-1">
-              <Button variant="default" size="sm" className="w-full">
-                <Edit className="mr-2 h-4 w-4" />
-                Edit
-              </Button>
-            </Link>
-            {form.responseCount > 0 && (
+            {canEdit ? (
+              <Link href={`/forms/${form.id}/edit`} className="flex-1">
+                <Button variant="default" size="sm" className="w-full">
+                  <Edit className="mr-2 h-4 w-4" />
+                  Edit
+                </Button>
+              </Link>
+            ) : (
+              <Link href={`/forms/${form.id}/analytics`} className="flex-1">
+                <Button variant="default" size="sm" className="w-full">
+                  <BarChart3 className="mr-2 h-4 w-4" />
+                  Analytics
+                </Button>
+              </Link>
+            )}
+            {canViewResponses && form.responseCount > 0 && (
               <Link href={`/forms/${form.id}/responses`}>
                 <Button variant="outline" size="sm">
                   <BarChart3 className="h-4 w-4" />
@@ -281,6 +313,13 @@ export function FormCard({ form, showArchived = false }: FormCardProps) {
         formId={form.id}
         formTitle={form.title}
       />
+
+      <CollaboratorsDialog
+        open={showCollaboratorsDialog}
+        onOpenChange={setShowCollaboratorsDialog}
+        formId={form.id}
+        formTitle={form.title}
+      />
     </>
   );
 }
@@ -1,13 +1,28 @@
-import { FileText } from 'lucide-react';
+import { FileText, Users } from 'lucide-react';
 import { FormCard } from './FormCard';
 import type { FormWithStats } from '@/lib/types/form.types';
 
 interface FormsListProps {
   forms: FormWithStats[];
+  sharedForms?: FormWithStats[];
 }
 
-export function FormsList({ forms }: FormsListProps) {
-  if (forms.length === 0) {
+export function FormsList({ forms, sharedForms = [] }: FormsListProps) {
+  const sharedSection = sharedForms.length > 0 && (
+    <section className="space-y-4">
+      <h2 className="flex items-center gap-2 text-xl font-semibold text-slate-900">
+        <Users className="h-5 w-5 text-slate-500" />
+        Shared with me
+      </h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {sharedForms.map((form) => (
+          <FormCard key={form.id} form={form} />
+        ))}
+      </div>
+    </section>
+  );
+
+  if (forms.length === 0 && sharedForms.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-20 px-4">
         <div className="rounded-full bg-slate-100 p-6 mb-4">
@@ -25,10 +40,15 @@ export function FormsList({ forms }: FormsListProps) {
   }
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-      {forms.map((form) => (
-        <FormCard key={form.id} form={form} />
-      ))}
+    <div className="space-y-10">
+      {forms.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {forms.map((form) => (
+            <FormCard key={form.id} form={form} />
+          ))}
+        </div>
+      )}
+      {sharedSection}
     </div>
   );
 }
@@ -0,0 +1,252 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowDownUp, Asterisk, Copy, Replace, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { QUESTION_TYPE_CONFIG } from '@/lib/constants/question-types';
+import { getCompatibleTypes, type BulkMoveTarget } from '@/lib/utils/bulk-operations';
+import type { Question, QuestionType } from '@/lib/types/question.types';
+import type { FormSection } from '@/lib/types/form.types';
+
+interface BulkActionBarProps {
+  selectedQuestions: Question[];
+  totalCount: number;
+  sections: FormSection[];
+  hasResponses: boolean;
+  isWorking: boolean;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onDelete: () => void;
+  onDuplicate: () => void;
+  onSetRequired: (required: boolean) => void;
+  onMove: (target: BulkMoveTarget) => void;
+  onChangeType: (type: QuestionType) => void;
+}
+
+/**
+ * Actions for the questions checked in the question list
+ */
+export function BulkActionBar({
+  selectedQuestions,
+  totalCount,
+  sections,
+  hasResponses,
+  isWorking,
+  onSelectAll,
+  onClearSelection,
+  onDelete,
+  onDuplicate,
+  onSetRequired,
+  onMove,
+  onChangeType,
+}: BulkActionBarProps) {
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showMove, setShowMove] = useState(false);
+  const [position, setPosition] = useState('1');
+
+  const count = selectedQuestions.length;
+  const label = `${count} question${count === 1 ? '' : 's'}`;
+  const compatibleTypes = getCompatibleTypes(selectedQuestions);
+  // Positions are counted in the list without the moved questions, plus one for the end
+  const maxPosition = totalCount - count + 1;
+  const positionNumber = Number(position);
+  const isValidPosition = Number.isInteger(positionNumber) && positionNumber >= 1 && positionNumber <= maxPosition;
+
+  const handleMove = (target: BulkMoveTarget) => {
+    setShowMove(false);
+    onMove(target);
+  };
+
+  return (
+    <>
+      <div
+        className="sticky top-20 z-10 flex flex-wrap items-center gap-2 rounded-lg border-2 border-slate-300 bg-white/95 px-3 py-2 shadow-sm backdrop-blur-sm"
+        role="toolbar"
+        aria-label="Bulk actions for selected questions"
+      >
+        <span className="text-sm font-medium text-slate-900 mr-1" aria-live="polite">
+          {count} selected
+        </span>
+        {count < totalCount && (
+          <Button variant="link" size="sm" className="h-8 px-1" onClick={onSelectAll}>
+            Select all
+          </Button>
+        )}
+
+        <div className="flex flex-1 flex-wrap items-center justify-end gap-1">
+          <Button variant="ghost" size="sm" onClick={onDuplicate} disabled={isWorking}>
+            <Copy className="h-4 w-4 mr-1" />
+            Duplicate
+          </Button>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" disabled={isWorking}>
+                <Asterisk className="h-4 w-4 mr-1" />
+                Required
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => onSetRequired(true)} className="cursor-pointer">
+                Make required
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onSetRequired(false)} className="cursor-pointer">
+                Make optional
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <Popover open={showMove} onOpenChange={setShowMove}>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" size="sm" disabled={isWorking}>
+                <ArrowDownUp className="h-4 w-4 mr-1" />
+                Move
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-64 space-y-3">
+              <form
+                className="space-y-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (isValidPosition) handleMove({ position: positionNumber - 1 });
+                }}
+              >
+                <Label htmlFor="bulk-move-position">Move to position</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="bulk-move-position"
+                    type="number"
+                    min={1}
+                    max={maxPosition}
+                    value={position}
+                    onChange={(e) => setPosition(e.target.value)}
+                    className="h-8"
+                  />
+                  <Button type="submit" size="sm" disabled={!isValidPosition}>
+                    Move
+                  </Button>
+                </div>
+                <p className="text-xs text-slate-500">Between 1 and {maxPosition}</p>
+              </form>
+
+              {sections.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">Move to the end of</p>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-full justify-start"
+                    onClick={() => handleMove({ sectionId: null })}
+                  >
+                    No section (start of form)
+                  </Button>
+                  {sections.map((section, index) => (
+                    <Button
+                      key={section.id}
+                      variant="ghost"
+                      size="sm"
+                      className="w-full justify-start truncate"
+                      onClick={() => handleMove({ sectionId: section.id })}
+                    >
+                      {index + 1}. {section.title || 'Untitled section'}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </PopoverContent>
+          </Popover>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={isWorking || compatibleTypes.length === 0}
+                title={compatibleTypes.length === 0 ? 'Only text questions, or single-choice questions, can change type together' : undefined}
+              >
+                <Replace className="h-4 w-4 mr-1" />
+                Change type
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Change {label} to</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {compatibleTypes.map((type) => {
+                const config = QUESTION_TYPE_CONFIG[type];
+                const Icon = config.icon;
+
+                return (
+                  <DropdownMenuItem key={type} onClick={() => onChangeType(type)} className="cursor-pointer">
+                    <Icon className={`h-4 w-4 mr-2 ${config.color}`} />
+                    {config.label}
+                  </DropdownMenuItem>
+                );
+              })}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowDeleteDialog(true)}
+            disabled={isWorking}
+            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Delete
+          </Button>
+
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onClearSelection}
+            className="h-8 w-8"
+            aria-label="Clear selection"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {label}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Logic rules that refer to these questions are removed as well.
+              {hasResponses &&
+                ' Answers already given to them are kept, and respondents see them until you publish your changes.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={onDelete} className="bg-red-600 hover:bg-red-700">
+              Delete {label}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
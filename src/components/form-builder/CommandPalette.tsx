@@ -0,0 +1,163 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { LucideIcon } from 'lucide-react';
+import { Search } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  group: string;
+  icon?: LucideIcon;
+  shortcut?: string;
+  keywords?: string; // Extra words the search matches
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  commands: PaletteCommand[];
+}
+
+export function CommandPalette({ open, onOpenChange, commands }: CommandPaletteProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl p-0 gap-0 overflow-hidden">
+        <DialogTitle className="sr-only">Command palette</DialogTitle>
+        <DialogDescription className="sr-only">
+          Type to filter commands, use the arrow keys to choose one and Enter to run it
+        </DialogDescription>
+        {/* Content unmounts while closed, so the search resets on every open */}
+        <CommandList commands={commands} onClose={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface CommandListProps {
+  commands: PaletteCommand[];
+  onClose: () => void;
+}
+
+function CommandList({ commands, onClose }: CommandListProps) {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const filtered = useMemo(() => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return commands.filter((command) => {
+      const text = `${command.group} ${command.label} ${command.keywords ?? ''}`.toLowerCase();
+      return terms.every((term) => text.includes(term));
+    });
+  }, [commands, query]);
+
+  // Keep the highlighted command in view while moving with the arrow keys
+  useEffect(() => {
+    listRef.current
+      ?.querySelector<HTMLElement>(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runCommand = (command: PaletteCommand | undefined) => {
+    if (!command) return;
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setActiveIndex((index) => (filtered.length === 0 ? 0 : (index + 1) % filtered.length));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setActiveIndex((index) =>
+          filtered.length === 0 ? 0 : (index - 1 + filtered.length) % filtered.length
+        );
+        break;
+      case 'Enter':
+        event.preventDefault();
+        runCommand(filtered[activeIndex]);
+        break;
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 border-b border-slate-200 px-4">
+        <Search className="h-4 w-4 text-slate-400" />
+        <Input
+          autoFocus
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Type a command or search questions..."
+          className="border-0 shadow-none focus-visible:ring-0 h-12"
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-list"
+          aria-activedescendant={filtered[activeIndex] ? `command-${filtered[activeIndex].id}` : undefined}
+        />
+      </div>
+
+      <ul
+        ref={listRef}
+        id="command-palette-list"
+        role="listbox"
+        aria-label="Commands"
+        className="max-h-80 overflow-y-auto py-2"
+      >
+        {filtered.length === 0 && (
+          <li className="px-4 py-6 text-center text-sm text-slate-500">No matching commands</li>
+        )}
+
+        {filtered.map((command, index) => {
+          const Icon = command.icon;
+          const showGroup = index === 0 || filtered[index - 1].group !== command.group;
+
+          return (
+            <li key={command.id} role="presentation">
+              {showGroup && (
+                <p className="px-4 pt-2 pb-1 text-xs font-medium uppercase tracking-wide text-slate-500">
+                  {command.group}
+                </p>
+              )}
+              <div
+                id={`command-${command.id}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                data-index={index}
+                onMouseMove={() => setActiveIndex(index)}
+                onClick={() => runCommand(command)}
+                className={`mx-2 flex cursor-pointer items-center gap-3 rounded-md px-3 py-2 text-sm ${
+                  index === activeIndex ? 'bg-slate-100 text-slate-900' : 'text-slate-700'
+                }`}
+              >
+                {Icon && <Icon className="h-4 w-4 text-slate-500" />}
+                <span className="flex-1 truncate">{command.label}</span>
+                {command.shortcut && (
+                  <kbd className="px-2 py-0.5 bg-slate-200 rounded text-xs text-slate-600">
+                    {command.shortcut}
+                  </kbd>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,341 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, AlertTriangle, FileText, Info, Loader2, Upload } from 'lucide-react';
+import { parseQuestionnaireDocument } from '@/app/(dashboard)/forms/[formId]/edit/actions';
+import { QUESTION_TYPE_CONFIG } from '@/lib/constants/question-types';
+import { MAX_QUESTIONNAIRE_FILE_SIZE_MB, MAX_QUESTIONS_PER_FORM } from '@/lib/constants/question-limits';
+import { getImportTypes, type DocxImportItem, type ImportQuestionType } from '@/lib/utils/docx-import';
+
+type ImportAs = 'question' | 'section' | 'skip';
+
+interface DocxImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  formId: string;
+  questionCount: number;
+  // Items come in document order, each with kind 'question' or 'section'
+  onImport: (items: DocxImportItem[], title: string | null) => Promise<void>;
+}
+
+function describeAnswers(item: DocxImportItem): string | null {
+  switch (item.type) {
+    case 'multiple_choice':
+    case 'checkboxes':
+    case 'dropdown': {
+      const choices = item.allowOther ? [...item.choices, 'Other…'] : item.choices;
+      return choices.length > 0 ? choices.join(' · ') : null;
+    }
+    case 'linear_scale':
+      return item.scale ? `Scale ${item.scale.min} to ${item.scale.max}` : null;
+    case 'matrix':
+      return item.matrix
+        ? `${item.matrix.rows.length} rows × ${item.matrix.columns.length} columns (${item.matrix.columns.join(' · ')})`
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Upload a Word questionnaire, review what was read from it, and add the
+ * kept sections and questions to the form
+ */
+export function DocxImportDialog({
+  open,
+  onOpenChange,
+  formId,
+  questionCount,
+  onImport,
+}: DocxImportDialogProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [documentTitle, setDocumentTitle] = useState<string | null>(null);
+  const [useDocumentTitle, setUseDocumentTitle] = useState(false);
+  const [items, setItems] = useState<DocxImportItem[]>([]);
+  const [importAs, setImportAs] = useState<Record<string, ImportAs>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const reset = () => {
+    setFileName(null);
+    setDocumentTitle(null);
+    setUseDocumentTitle(false);
+    setItems([]);
+    setImportAs({});
+    setError(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (isImporting) return;
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    reset();
+    setFileName(file.name);
+
+    if (file.size > MAX_QUESTIONNAIRE_FILE_SIZE_MB * 1024 * 1024) {
+      setError(`The document is larger than ${MAX_QUESTIONNAIRE_FILE_SIZE_MB} MB`);
+      return;
+    }
+
+    setIsReading(true);
+    const formData = new FormData();
+    formData.append('file', file);
+    const result = await parseQuestionnaireDocument(formId, formData);
+    setIsReading(false);
+
+    if (result.error || !result.data) {
+      setError(result.error || 'Could not read the document');
+      return;
+    }
+
+    setDocumentTitle(result.data.title);
+    setUseDocumentTitle(!!result.data.title);
+    setItems(result.data.items);
+    // Unrecognized blocks are left out until someone decides what they are
+    setImportAs(
+      Object.fromEntries(
+        result.data.items.map((item) => [item.id, item.kind === 'unrecognized' ? 'skip' : item.kind])
+      )
+    );
+  };
+
+  const updateItem = (id: string, updates: Partial<DocxImportItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...updates } : item)));
+  };
+
+  const kept = items.filter((item) => importAs[item.id] !== 'skip');
+  const keptQuestionCount = kept.filter((item) => importAs[item.id] === 'question').length;
+  const keptSectionCount = kept.length - keptQuestionCount;
+  const unrecognizedCount = items.filter((item) => item.kind === 'unrecognized').length;
+  const isOverLimit = questionCount + keptQuestionCount > MAX_QUESTIONS_PER_FORM;
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    await onImport(
+      kept.map((item) => ({ ...item, kind: importAs[item.id] as 'question' | 'section' })),
+      useDocumentTitle ? documentTitle : null
+    );
+    setIsImporting(false);
+    reset();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Questionnaire from Word</DialogTitle>
+          <DialogDescription>
+            Questions, options, tables and headings are read from the document. Check them before they
+            are added to the form.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <Alert>
+            <Info className="h-4 w-4" />
+            <AlertDescription>
+              Numbered questions, lettered, bulleted or tick-box options, answer grids and
+              &quot;Other (specify)&quot; lines are recognised. Anything else is listed as needing review.
+            </AlertDescription>
+          </Alert>
+
+          <div className="space-y-2">
+            <Label>Word document (.docx, up to {MAX_QUESTIONNAIRE_FILE_SIZE_MB} MB)</Label>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+              onChange={handleFileUpload}
+              className="hidden"
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isReading || isImporting}
+              className="w-full"
+            >
+              {isReading ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4 mr-2" />
+              )}
+              {isReading ? `Reading ${fileName}…` : fileName ? 'Upload another document' : 'Upload document'}
+            </Button>
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {items.length > 0 && (
+            <div className="space-y-3">
+              {documentTitle && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="docx-use-title"
+                    checked={useDocumentTitle}
+                    onCheckedChange={(checked) => setUseDocumentTitle(checked === true)}
+                  />
+                  <Label htmlFor="docx-use-title" className="font-normal">
+                    Use &quot;{documentTitle}&quot; as the form title
+                  </Label>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between">
+                <Label>
+                  <FileText className="inline h-4 w-4 mr-1" />
+                  {fileName}
+                </Label>
+                {unrecognizedCount > 0 && (
+                  <Badge variant="outline" className="border-amber-300 bg-amber-50 text-amber-800">
+                    {unrecognizedCount} need{unrecognizedCount === 1 ? 's' : ''} review
+                  </Badge>
+                )}
+              </div>
+
+              <ol className="space-y-2" aria-label="Items read from the document">
+                {items.map((item) => {
+                  const as = importAs[item.id];
+                  const needsReview = item.kind === 'unrecognized';
+                  const answers = as === 'question' ? describeAnswers(item) : null;
+
+                  return (
+                    <li
+                      key={item.id}
+                      className={`space-y-2 rounded-lg border p-3 ${
+                        needsReview ? 'border-amber-300 bg-amber-50' : 'bg-white'
+                      } ${as === 'skip' ? 'opacity-70' : ''}`}
+                    >
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Select
+                          value={as}
+                          onValueChange={(value) => setImportAs((prev) => ({ ...prev, [item.id]: value as ImportAs }))}
+                        >
+                          <SelectTrigger className="h-8 w-32" aria-label="Import as">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="question">Question</SelectItem>
+                            <SelectItem value="section">Section</SelectItem>
+                            <SelectItem value="skip">Leave out</SelectItem>
+                          </SelectContent>
+                        </Select>
+
+                        {as === 'question' && (
+                          <Select
+                            value={item.type}
+                            onValueChange={(value) => updateItem(item.id, { type: value as ImportQuestionType })}
+                          >
+                            <SelectTrigger className="h-8 w-44" aria-label="Question type">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {getImportTypes(item).map((type) => (
+                                <SelectItem key={type} value={type}>
+                                  {QUESTION_TYPE_CONFIG[type].label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+
+                        {needsReview && (
+                          <Badge variant="outline" className="border-amber-300 text-amber-800">
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            Needs review
+                          </Badge>
+                        )}
+                      </div>
+
+                      {as !== 'skip' && (
+                        <Input
+                          value={item.title}
+                          onChange={(e) => updateItem(item.id, { title: e.target.value })}
+                          aria-label={as === 'section' ? 'Section title' : 'Question title'}
+                          className="h-8"
+                        />
+                      )}
+
+                      {as === 'skip' && <p className="text-sm text-slate-700 line-clamp-2">{item.title}</p>}
+
+                      {item.description && as !== 'skip' && (
+                        <p className="text-xs text-slate-600">{item.description}</p>
+                      )}
+                      {answers && <p className="text-xs text-slate-600 line-clamp-2">{answers}</p>}
+                      {item.notes.length > 0 && (
+                        <p className={`text-xs ${needsReview ? 'text-amber-800' : 'text-slate-500'}`}>
+                          {item.notes.join(' · ')}
+                        </p>
+                      )}
+
+                      <details className="text-xs text-slate-500">
+                        <summary className="cursor-pointer">Document text</summary>
+                        <pre className="mt-1 whitespace-pre-wrap font-sans">{item.source}</pre>
+                      </details>
+                    </li>
+                  );
+                })}
+              </ol>
+
+              {isOverLimit && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    A form can have at most {MAX_QUESTIONS_PER_FORM} questions and this one already has{' '}
+                    {questionCount}. Leave some out to import the rest.
+                  </AlertDescription>
+                </Alert>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={kept.length === 0 || isOverLimit || isImporting}>
+            {isImporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Import {keptQuestionCount} {keptQuestionCount === 1 ? 'Question' : 'Questions'}
+            {keptSectionCount > 0 && ` and ${keptSectionCount} ${keptSectionCount === 1 ? 'Section' : 'Sections'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,316 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Lock, Save } from 'lucide-react';
+import { updateFormAccessSettings } from '@/app/(dashboard)/forms/[formId]/edit/actions';
+import type { FormAccessSettingsUpdate } from '@/lib/types/form.types';
+
+export interface FormAccessSettings {
+  schedule_start: string | null;
+  schedule_end: string | null;
+  max_responses: number | null;
+  require_login: boolean;
+  has_password: boolean;
+  bot_protection: boolean;
+  min_completion_seconds: number;
+}
+
+interface FormAccessSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  formId: string;
+  settings: FormAccessSettings;
+  onSaved: (settings: FormAccessSettings) => void;
+}
+
+type PasswordMode = 'keep' | 'set' | 'remove';
+
+/**
+ * Convert an ISO timestamp to the value format of a datetime-local input
+ */
+function toLocalInputValue(iso: string | null): string {
+  return iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : '';
+}
+
+/**
+ * Convert a datetime-local input value (local time) back to an ISO timestamp
+ */
+function fromLocalInputValue(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+export function FormAccessSettingsDialog({
+  open,
+  onOpenChange,
+  formId,
+  settings,
+  onSaved,
+}: FormAccessSettingsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        {/* Content unmounts while closed, so the fields start from the saved settings on every open */}
+        <AccessSettingsForm
+          formId={formId}
+          settings={settings}
+          onSaved={onSaved}
+          onClose={() => onOpenChange(false)}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface AccessSettingsFormProps {
+  formId: string;
+  settings: FormAccessSettings;
+  onSaved: (settings: FormAccessSettings) => void;
+  onClose: () => void;
+}
+
+function AccessSettingsForm({ formId, settings, onSaved, onClose }: AccessSettingsFormProps) {
+  const [scheduleStart, setScheduleStart] = useState(() => toLocalInputValue(settings.schedule_start));
+  const [scheduleEnd, setScheduleEnd] = useState(() => toLocalInputValue(settings.schedule_end));
+  const [maxResponses, setMaxResponses] = useState(
+    settings.max_responses ? String(settings.max_responses) : ''
+  );
+  const [requireLogin, setRequireLogin] = useState(settings.require_login);
+  const [botProtection, setBotProtection] = useState(settings.bot_protection);
+  const [minCompletionSeconds, setMinCompletionSeconds] = useState(String(settings.min_completion_seconds));
+  const [passwordMode, setPasswordMode] = useState<PasswordMode>('keep');
+  const [password, setPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const passwordEnabled =
+    passwordMode === 'set' || (passwordMode === 'keep' && settings.has_password);
+
+  const handlePasswordToggle = (enabled: boolean) => {
+    setPassword('');
+    if (enabled) {
+      setPasswordMode(settings.has_password ? 'keep' : 'set');
+    } else {
+      setPasswordMode(settings.has_password ? 'remove' : 'keep');
+    }
+  };
+
+  const handleSave = async () => {
+    const update: FormAccessSettingsUpdate = {
+      schedule_start: fromLocalInputValue(scheduleStart),
+      schedule_end: fromLocalInputValue(scheduleEnd),
+      max_responses: maxResponses ? Number(maxResponses) : null,
+      require_login: requireLogin,
+      bot_protection: botProtection,
+      min_completion_seconds: Number(minCompletionSeconds) || 0,
+    };
+
+    if (passwordMode === 'set') {
+      if (!password) {
+        setError('Enter a password or turn off password protection');
+        return;
+      }
+      update.password = password;
+    } else if (passwordMode === 'remove') {
+      update.password = null;
+    }
+
+    setError(null);
+    setIsSaving(true);
+
+    const result = await updateFormAccessSettings(formId, update);
+
+    setIsSaving(false);
+
+    if (result.error) {
+      setError(result.error.message);
+      return;
+    }
+
+    onSaved({
+      schedule_start: update.schedule_start,
+      schedule_end: update.schedule_end,
+      max_responses: update.max_responses,
+      require_login: update.require_login,
+      has_password: passwordEnabled,
+      bot_protection: update.bot_protection,
+      min_completion_seconds: update.min_completion_seconds,
+    });
+    toast.success('Access settings saved');
+    onClose();
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Access Settings</DialogTitle>
+        <DialogDescription>
+          Control when this form accepts responses and who can submit it
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-5 py-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Schedule */}
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="schedule-start">Opens at</Label>
+            <Input
+              id="schedule-start"
+              type="datetime-local"
+              value={scheduleStart}
+              onChange={(e) => setScheduleStart(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="schedule-end">Closes at</Label>
+            <Input
+              id="schedule-end"
+              type="datetime-local"
+              value={scheduleEnd}
+              min={scheduleStart || undefined}
+              onChange={(e) => setScheduleEnd(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {/* Response cap */}
+        <div className="space-y-2">
+          <Label htmlFor="max-responses">Response limit</Label>
+          <Input
+            id="max-responses"
+            type="number"
+            min={1}
+            step={1}
+            value={maxResponses}
+            onChange={(e) => setMaxResponses(e.target.value)}
+            placeholder="Unlimited"
+          />
+        </div>
+
+        {/* Require login */}
+        <div className="flex items-center justify-between">
+          <Label htmlFor="require-login" className="cursor-pointer">
+            Require respondents to sign in
+          </Label>
+          <Switch
+            id="require-login"
+            checked={requireLogin}
+            onCheckedChange={setRequireLogin}
+          />
+        </div>
+
+        {/* Bot protection */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="bot-protection" className="cursor-pointer">
+                Bot protection
+              </Label>
+              <p className="text-xs text-slate-500 mt-1">
+                Flags responses that fill a hidden field, skip the proof-of-work check or finish too quickly
+              </p>
+            </div>
+            <Switch
+              id="bot-protection"
+              checked={botProtection}
+              onCheckedChange={setBotProtection}
+            />
+          </div>
+
+          {botProtection && (
+            <div className="space-y-2">
+              <Label htmlFor="min-completion-seconds">Minimum time to complete (seconds)</Label>
+              <Input
+                id="min-completion-seconds"
+                type="number"
+                min={0}
+                max={3600}
+                step={1}
+                value={minCompletionSeconds}
+                onChange={(e) => setMinCompletionSeconds(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Password */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="password-protected" className="cursor-pointer">
+              Password protect this form
+            </Label>
+            <Switch
+              id="password-protected"
+              checked={passwordEnabled}
+              onCheckedChange={handlePasswordToggle}
+            />
+          </div>
+
+          {passwordEnabled && passwordMode === 'keep' && (
+            <div className="flex items-center justify-between p-3 bg-slate-50 border rounded-lg">
+              <span className="flex items-center gap-2 text-sm text-slate-600">
+                <Lock className="h-4 w-4" />
+                A password is set
+              </span>
+              <Button variant="outline" size="sm" onClick={() => setPasswordMode('set')}>
+                Change
+              </Button>
+            </div>
+          )}
+
+          {passwordMode === 'set' && (
+            <div className="space-y-2">
+              <Label htmlFor="form-access-password">
+                {settings.has_password ? 'New password' : 'Password'}
+              </Label>
+              <Input
+                id="form-access-password"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? (
+            <>Saving...</>
+          ) : (
+            <>
+              <Save className="h-4 w-4 mr-2" />
+              Save Settings
+            </>
+          )}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
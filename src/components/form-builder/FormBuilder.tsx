@@ -1,22 +1,57 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { Eye, FileUp, GitBranch, Redo2, ToggleLeft, Undo2, Upload } from 'lucide-react';
 import { FormHeader } from './FormHeader';
 import { QuestionList } from './QuestionList';
 import { QuestionEditor } from './QuestionEditor';
+import { CommandPalette, type PaletteCommand } from './CommandPalette';
+import { BulkActionBar } from './BulkActionBar';
+import { DocxImportDialog } from './DocxImportDialog';
+import type { FormAccessSettings } from './FormAccessSettingsDialog';
 import {
   updateForm,
   addQuestion,
+  updateQuestion,
   deleteQuestion,
   duplicateQuestion,
   reorderQuestions,
+  restoreQuestions,
+  bulkDeleteQuestions,
+  bulkDuplicateQuestions,
+  bulkUpdateQuestions,
+  bulkMoveQuestions,
   checkFormHasResponses,
+  addSection,
+  updateSection,
+  deleteSection,
 } from '@/app/(dashboard)/forms/[formId]/edit/actions';
+import { createFormVersion } from '@/app/(dashboard)/forms/[formId]/versions/actions';
 import { useAutosave } from '@/hooks/use-autosave';
+import { useUndoRedo } from '@/hooks/use-undo-redo';
 import { toast } from 'sonner';
 import { useScreenReaderAnnouncement } from '@/components/accessibility/ScreenReaderAnnouncer';
-import type { FormWithQuestions } from '@/lib/types/form.types';
-import type { Question, QuestionType } from '@/lib/types/question.types';
+import type {
+  FormWithPublishedVersion,
+  FormSection,
+  FormSectionUpdate,
+  FormVersion,
+} from '@/lib/types/form.types';
+import type { Question, QuestionBulkUpdate, QuestionType } from '@/lib/types/question.types';
+import { groupQuestionsIntoPages } from '@/lib/utils/form-sections';
+import { DEFAULT_MIN_COMPLETION_SECONDS } from '@/lib/utils/bot-protection';
+import { hasUnpublishedChanges } from '@/lib/utils/form-versions';
+import { diffQuestionLists } from '@/lib/utils/question-history';
+import { toQuestionData, type DocxImportItem } from '@/lib/utils/docx-import';
+import { MAX_FORM_TITLE_LENGTH } from '@/lib/constants/question-limits';
+import {
+  applyLogicRulesUpdates,
+  getBulkOperationSummary,
+  moveQuestions,
+  type BulkMoveTarget,
+} from '@/lib/utils/bulk-operations';
+import { FORM_SHORTCUTS, getFocusableElements, registerShortcuts } from '@/lib/utils/keyboard-navigation';
+import { QUESTION_TYPE_CONFIG, QUESTION_TYPES } from '@/lib/constants/question-types';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -29,7 +64,7 @@ import {
 } from '@/components/ui/alert-dialog';
 
 interface FormBuilderProps {
-  form: FormWithQuestions;
+  form: FormWithPublishedVersion;
 }
 
 export function FormBuilder({ form: initialForm }: FormBuilderProps) {
@@ -39,17 +74,102 @@ export function FormBuilder({ form: initialForm }: FormBuilderProps) {
   const [displayMode, setDisplayMode] = useState<'single' | 'scroll'>(
     initialForm.display_mode || 'scroll'
   );
-  const [questions, setQuestions] = useState<Question[]>(initialForm.questions || []);
+  const [accessSettings, setAccessSettings] = useState<FormAccessSettings>({
+    schedule_start: initialForm.schedule_start ?? null,
+    schedule_end: initialForm.schedule_end ?? null,
+    max_responses: initialForm.max_responses ?? null,
+    require_login: initialForm.require_login ?? false,
+    has_password: initialForm.has_password ?? false,
+    bot_protection: initialForm.bot_protection ?? false,
+    min_completion_seconds: initialForm.min_completion_seconds ?? DEFAULT_MIN_COMPLETION_SECONDS,
+  });
+  const [sections, setSections] = useState<FormSection[]>(initialForm.sections || []);
   const [selectedQuestionId, setSelectedQuestionId] = useState<string | null>(
-    questions.length > 0 ? questions[0].id : null
+    initialForm.questions?.[0]?.id ?? null
   );
   const [responseCount, setResponseCount] = useState<number>(0);
   const [hasResponses, setHasResponses] = useState<boolean>(false);
   const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const [publishedVersion, setPublishedVersion] = useState<FormVersion | null>(
+    initialForm.published_version ?? null
+  );
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
+  const [checkedQuestionIds, setCheckedQuestionIds] = useState<Set<string>>(new Set());
+  const [isBulkWorking, setIsBulkWorking] = useState(false);
+  const [showDocxImport, setShowDocxImport] = useState(false);
 
   // Screen reader announcements
   const { announcePolite } = useScreenReaderAnnouncement();
 
+  // Undo and redo issue the server actions that turn one recorded question list into the other
+  const persistQuestionChanges = async (from: Question[], to: Question[]) => {
+    const changes = diffQuestionLists(from, to);
+    const results: Array<{ error?: string }> = [];
+
+    if (changes.removed.length > 0) {
+      results.push(await bulkDeleteQuestions(initialForm.id, changes.removed));
+    }
+    if (changes.added.length > 0) {
+      results.push(await restoreQuestions(initialForm.id, changes.added));
+    }
+    // Type changes go first, since they can drop options the updates put back
+    for (const type of new Set(changes.retyped.map((change) => change.type))) {
+      const ids = changes.retyped.filter((change) => change.type === type).map((change) => change.id);
+      results.push(await bulkUpdateQuestions(initialForm.id, ids, { type }));
+    }
+    for (const { id, updates } of changes.updated) {
+      results.push(await updateQuestion(id, updates));
+    }
+    if (changes.order) {
+      const hasSectionChanges = Object.keys(changes.sectionAssignments).length > 0;
+      results.push(
+        await reorderQuestions(
+          initialForm.id,
+          changes.order,
+          hasSectionChanges ? changes.sectionAssignments : undefined
+        )
+      );
+    }
+
+    const failed = results.find((result) => result.error);
+    if (failed) {
+      toast.error(`Failed to save: ${failed.error}`);
+      announcePolite(`Error saving change: ${failed.error}`);
+    }
+  };
+
+  const handleQuestionHistoryStep = (from: Question[], to: Question[]) => {
+    if (selectedQuestionId && !to.some((q) => q.id === selectedQuestionId)) {
+      setSelectedQuestionId(to.length > 0 ? to[0].id : null);
+    }
+    persistQuestionChanges(from, to);
+  };
+
+  // Every change to the question list is recorded so it can be undone
+  const [questions, questionHistory] = useUndoRedo<Question[]>(initialForm.questions || [], {
+    onUndoRedo: handleQuestionHistoryStep,
+  });
+  const setQuestions = questionHistory.set;
+
+  const handleUndo = () => {
+    questionHistory.undo();
+    announcePolite('Undone');
+  };
+
+  const handleRedo = () => {
+    questionHistory.redo();
+    announcePolite('Redone');
+  };
+
+  // Ctrl+K opens the command palette (undo and redo shortcuts come with the history)
+  useEffect(() => {
+    return registerShortcuts([
+      { ...FORM_SHORTCUTS.COMMAND_PALETTE, handler: () => setShowCommandPalette(true) },
+    ]);
+  }, []);
+
   // Check if form has responses
   useEffect(() => {
     const checkResponses = async () => {
@@ -71,12 +191,62 @@ export function FormBuilder({ form: initialForm }: FormBuilderProps) {
 
   const selectedQuestion = questions.find((q) => q.id === selectedQuestionId);
 
+  // Edits only reach respondents once published
+  const hasChanges = hasUnpublishedChanges(
+    { title, description, display_mode: displayMode, questions, sections },
+    publishedVersion
+  );
+
+  const handlePublishChanges = async () => {
+    setIsPublishing(true);
+    const result = await createFormVersion(initialForm.id, undefined, { publish: true });
+    setIsPublishing(false);
+
+    if (!result.success || !result.versionId) {
+      toast.error(result.error || 'Failed to publish changes');
+      return;
+    }
+
+    // Mirror the snapshot locally so the draft compares as up to date
+    setPublishedVersion({
+      id: result.versionId,
+      form_id: initialForm.id,
+      version_number: (publishedVersion?.version_number ?? 0) + 1,
+      title,
+      description: description || null,
+      questions,
+      sections,
+      settings: { display_mode: displayMode },
+      created_at: new Date().toISOString(),
+      created_by: null,
+      change_summary: null,
+      is_published: true,
+    });
+    setIsPublished(true);
+    toast.success('Changes published');
+    announcePolite('Changes published. Respondents now see the latest version of this form.');
+  };
+
+  const handlePublishedChange = async (published: boolean) => {
+    // Publishing puts the draft live; unpublishing only hides the form
+    if (published && !isPublished) {
+      await handlePublishChanges();
+    } else {
+      setIsPublished(published);
+    }
+  };
+
+  // Questions in the order respondents see them (grouped by section)
+  const orderedQuestions = groupQuestionsIntoPages(questions, sections).flatMap((page) => page.questions);
+
   const handleAddQuestion = async (type: QuestionType) => {
     const result = await addQuestion(initialForm.id, {
       type,
       title: 'Untitled Question',
       required: false,
       order_index: questions.length,
+      // New questions go at the end of the form, i.e. into the last section
+      section_id: sections.length > 0 ? sections[sections.length - 1].id : null,
     });
 
     if (result.error) {
@@ -108,7 +278,7 @@ export function FormBuilder({ form: initialForm }: FormBuilderProps) {
       announcePolite(`Error deleting question: ${result.error}`);
     } else {
       const deletedQuestion = questions.find((q) => q.id === questionId);
-      setQuestions(questions.filter((q) => q.id !== questionId));
+      setQuestions(applyLogicRulesUpdates(questions.filter((q) => q.id !== questionId), result.updatedQuestions));
       if (selectedQuestionId === questionId) {
         setSelectedQuestionId(questions.length > 1 ? questions[0].id : null);
       }
@@ -137,7 +307,21 @@ export function FormBuilder({ form: initialForm }: FormBuilderProps) {
     setQuestions(reorderedQuestions);
 
     const questionIds = reorderedQuestions.map((q) => q.id);
-    const result = await reorderQuestions(initialForm.id, questionIds);
+
+    // Send section changes for questions dragged between sections
+    const sectionAssignments: Record<string, string | null> = {};
+    reorderedQuestions.forEach((q) => {
+      const previous = questions.find((existing) => existing.id === q.id);
+      if ((previous?.section_id ?? null) !== (q.section_id ?? null)) {
+        sectionAssignments[q.id] = q.section_id ?? null;
+      }
+    });
+
+    const result = await reorderQuestions(
+      initialForm.id,
+      questionIds,
+      Object.keys(sectionAssignments).length > 0 ? sectionAssignments : undefined
+    );
 
     if (result.error) {
       toast.error(result.error);
@@ -149,7 +333,340 @@ export function FormBuilder({ form: initialForm }: FormBuilderProps) {
     }
   };
 
+  const handleAddSection = async () => {
+    const result = await addSection(initialForm.id, {
+      title: `Section ${sections.length + 1}`,
+    });
+
+    if (result.error) {
+      toast.error(result.error);
+      announcePolite(`Error adding section: ${result.error}`);
+    } else if (result.data) {
+      setSections([...sections, result.data]);
+      toast.success('Section added');
+      announcePolite(`Section added. Total sections: ${sections.length + 1}.`);
+    }
+  };
+
+  // Create the reviewed items in document order; questions before the first
+  // imported section go to the end of the form, like newly added questions
+  const handleImportQuestionnaire = async (items: DocxImportItem[], documentTitle: string | null) => {
+    const addedSections: FormSection[] = [];
+    const addedQuestions: Question[] = [];
+    const failures: string[] = [];
+    let sectionId = sections.length > 0 ? sections[sections.length - 1].id : null;
+
+    for (const item of items) {
+      if (item.kind === 'section') {
+        const result = await addSection(initialForm.id, {
+          title: item.title.trim().slice(0, MAX_FORM_TITLE_LENGTH),
+          description: item.description.trim() || null,
+        });
+        if (result.data) {
+          addedSections.push(result.data);
+          sectionId = result.data.id;
+        } else {
+          failures.push(`${item.title}: ${result.error}`);
+        }
+      } else {
+        const result = await addQuestion(
+          initialForm.id,
+          toQuestionData(item, sectionId, questions.length + addedQuestions.length)
+        );
+        if (result.data) {
+          addedQuestions.push(result.data);
+        } else {
+          failures.push(`${item.title}: ${result.error}`);
+        }
+      }
+    }
+
+    if (addedSections.length > 0) {
+      setSections([...sections, ...addedSections]);
+    }
+    // One history entry, so a single undo removes the imported questions
+    if (addedQuestions.length > 0) {
+      setQuestions([...questions, ...addedQuestions]);
+    }
+    if (documentTitle) {
+      setTitle(documentTitle.slice(0, MAX_FORM_TITLE_LENGTH));
+    }
+
+    const summary = `Imported ${addedQuestions.length} question${addedQuestions.length === 1 ? '' : 's'}${
+      addedSections.length > 0
+        ? ` and ${addedSections.length} section${addedSections.length === 1 ? '' : 's'}`
+        : ''
+    }`;
+    if (failures.length > 0) {
+      console.error('[FormBuilder] Questionnaire import failures:', failures);
+      toast.error(`${summary}. ${failures.length} item${failures.length === 1 ? '' : 's'} could not be added: ${failures[0]}`);
+      announcePolite(`${summary}. ${failures.length} could not be added.`);
+    } else {
+      toast.success(summary);
+      announcePolite(`${summary}. Total questions: ${questions.length + addedQuestions.length}.`);
+    }
+  };
+
+  const handleUpdateSection = async (sectionId: string, updates: FormSectionUpdate) => {
+    // Optimistic update
+    const previousSections = sections;
+    setSections(sections.map((s) => (s.id === sectionId ? { ...s, ...updates } : s)));
+
+    const result = await updateSection(sectionId, updates);
+
+    if (result.error) {
+      toast.error(result.error);
+      setSections(previousSections);
+    }
+  };
+
+  const handleDeleteSection = async (sectionId: string) => {
+    const result = await deleteSection(sectionId);
+
+    if (result.error) {
+      toast.error(result.error);
+      announcePolite(`Error deleting section: ${result.error}`);
+    } else {
+      const deleted = sections.find((s) => s.id === sectionId);
+      setSections(
+        sections
+          .filter((s) => s.id !== sectionId)
+          .map((s) => (deleted && s.order_index > deleted.order_index ? { ...s, order_index: s.order_index - 1 } : s))
+      );
+      // Its questions move into the previous section (or out of sections). Earlier
+      // steps may refer to the deleted section, so history starts over from here.
+      questionHistory.reset(
+        questions.map((q) =>
+          q.section_id === sectionId ? { ...q, section_id: result.movedToSectionId ?? null } : q
+        )
+      );
+      toast.success('Section deleted');
+      announcePolite('Section deleted. Its questions were moved to the previous section.');
+    }
+  };
+
+  const handleToggleRequired = async (questionId: string) => {
+    const question = questions.find((q) => q.id === questionId);
+    if (!question) return;
+
+    const required = !question.required;
+    const result = await updateQuestion(questionId, { required });
+
+    if (result.error) {
+      toast.error(result.error);
+      announcePolite(`Error updating question: ${result.error}`);
+    } else {
+      setQuestions(questions.map((q) => (q.id === questionId ? { ...q, required } : q)));
+      announcePolite(`${question.title || 'Question'} is now ${required ? 'required' : 'optional'}.`);
+    }
+  };
+
+  // Questions checked for bulk actions, in form order (ids of questions removed since drop out)
+  const checkedQuestions = orderedQuestions.filter((q) => checkedQuestionIds.has(q.id));
+  const checkedIds = checkedQuestions.map((q) => q.id);
+
+  const handleQuestionCheckedChange = (questionId: string, checked: boolean) => {
+    const next = new Set(checkedQuestionIds);
+    if (checked) {
+      next.add(questionId);
+    } else {
+      next.delete(questionId);
+    }
+    setCheckedQuestionIds(next);
+  };
+
+  const clearCheckedQuestions = () => setCheckedQuestionIds(new Set());
+
+  // Put rows returned by a bulk update in place of the local copies
+  const replaceQuestions = (updated: Question[]) => {
+    const updatedById = new Map(updated.map((q) => [q.id, q]));
+    return questions.map((q) => updatedById.get(q.id) ?? q);
+  };
+
+  const handleBulkDelete = async () => {
+    setIsBulkWorking(true);
+    const result = await bulkDeleteQuestions(initialForm.id, checkedIds);
+    setIsBulkWorking(false);
+
+    if (result.error || !result.data) {
+      toast.error(result.error || 'Failed to delete questions');
+      announcePolite(`Error deleting questions: ${result.error}`);
+      return;
+    }
+
+    const deleted = new Set(result.data.deletedIds);
+    const remaining = questions.filter((q) => !deleted.has(q.id));
+    setQuestions(applyLogicRulesUpdates(remaining, result.data.updatedQuestions));
+    if (selectedQuestionId && deleted.has(selectedQuestionId)) {
+      setSelectedQuestionId(remaining.length > 0 ? remaining[0].id : null);
+    }
+    clearCheckedQuestions();
+
+    const summary = getBulkOperationSummary('delete', deleted.size);
+    const cleaned = result.data.updatedQuestions.length;
+    toast.success(summary);
+    announcePolite(
+      `${summary}.${cleaned > 0 ? ` Logic rules of ${cleaned} other question${cleaned === 1 ? '' : 's'} were updated.` : ''} Total questions: ${remaining.length}.`
+    );
+  };
+
+  const handleBulkDuplicate = async () => {
+    setIsBulkWorking(true);
+    const result = await bulkDuplicateQuestions(initialForm.id, checkedIds);
+    setIsBulkWorking(false);
+
+    if (result.error || !result.data) {
+      toast.error(result.error || 'Failed to duplicate questions');
+      announcePolite(`Error duplicating questions: ${result.error}`);
+      return;
+    }
+
+    setQuestions([...questions, ...result.data]);
+    // The copies become the selection, ready for the next bulk action
+    setCheckedQuestionIds(new Set(result.data.map((q) => q.id)));
+
+    const summary = getBulkOperationSummary('duplicate', result.data.length);
+    toast.success(summary);
+    announcePolite(`${summary}. The copies were added at the end and are now selected.`);
+  };
+
+  const handleBulkUpdate = async (updates: QuestionBulkUpdate, description: string) => {
+    setIsBulkWorking(true);
+    const result = await bulkUpdateQuestions(initialForm.id, checkedIds, updates);
+    setIsBulkWorking(false);
+
+    if (result.error || !result.data) {
+      toast.error(result.error || 'Failed to update questions');
+      announcePolite(`Error updating questions: ${result.error}`);
+      return;
+    }
+
+    setQuestions(replaceQuestions(result.data));
+    const summary = getBulkOperationSummary('update', result.data.length);
+    toast.success(summary);
+    announcePolite(`${summary}: ${description}.`);
+  };
+
+  const handleBulkMove = async (target: BulkMoveTarget) => {
+    const reordered = moveQuestions(questions, sections, checkedIds, target);
+
+    // Send section changes for questions that land in another section
+    const sectionAssignments: Record<string, string | null> = {};
+    reordered.forEach((q) => {
+      const previous = questions.find((existing) => existing.id === q.id);
+      if ((previous?.section_id ?? null) !== (q.section_id ?? null)) {
+        sectionAssignments[q.id] = q.section_id ?? null;
+      }
+    });
+
+    // Optimistic update
+    setQuestions(reordered);
+    setIsBulkWorking(true);
+    const result = await bulkMoveQuestions(
+      initialForm.id,
+      reordered.map((q) => q.id),
+      sectionAssignments
+    );
+    setIsBulkWorking(false);
+
+    if (result.error) {
+      toast.error(result.error);
+      announcePolite(`Error moving questions: ${result.error}`);
+      // Revert on error
+      setQuestions(questions);
+    } else {
+      const summary = getBulkOperationSummary('move', checkedIds.length);
+      toast.success(summary);
+      announcePolite(`${summary}. New order saved.`);
+    }
+  };
+
+  // Select a question and bring it (or a part of its editor) into view
+  const focusQuestion = (questionId: string, elementId = `question-${questionId}`) => {
+    setSelectedQuestionId(questionId);
+
+    // Wait for the editor to render the newly selected question
+    requestAnimationFrame(() => {
+      const element = document.getElementById(elementId);
+      if (!element) return;
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      (getFocusableElements(element)[0] ?? element).focus({ preventScroll: true });
+    });
+  };
+
+  const commands: PaletteCommand[] = [
+    ...(questionHistory.canUndo
+      ? [{ id: 'undo', label: 'Undo', group: 'Edit', icon: Undo2, shortcut: 'Ctrl+Z', run: handleUndo }]
+      : []),
+    ...(questionHistory.canRedo
+      ? [{ id: 'redo', label: 'Redo', group: 'Edit', icon: Redo2, shortcut: 'Ctrl+Shift+Z', run: handleRedo }]
+      : []),
+    ...QUESTION_TYPES.map((type) => ({
+      id: `add-${type}`,
+      label: `Add ${QUESTION_TYPE_CONFIG[type].label} question`,
+      group: 'Add question',
+      icon: QUESTION_TYPE_CONFIG[type].icon,
+      keywords: QUESTION_TYPE_CONFIG[type].description,
+      run: () => handleAddQuestion(type),
+    })),
+    ...(selectedQuestion
+      ? [
+          {
+            id: 'toggle-required',
+            label: selectedQuestion.required ? 'Make question optional' : 'Make question required',
+            group: 'Selected question',
+            icon: ToggleLeft,
+            keywords: `toggle required ${selectedQuestion.title}`,
+            run: () => handleToggleRequired(selectedQuestion.id),
+          },
+          {
+            id: 'open-logic',
+            label: 'Open conditional logic',
+            group: 'Selected question',
+            icon: GitBranch,
+            keywords: `rules branching ${selectedQuestion.title}`,
+            run: () => focusQuestion(selectedQuestion.id, 'question-logic'),
+          },
+        ]
+      : []),
+    {
+      id: 'import-docx',
+      label: 'Import questions from Word document',
+      group: 'Form',
+      icon: FileUp,
+      keywords: 'docx questionnaire upload',
+      run: () => setShowDocxImport(true),
+    },
+    {
+      id: 'preview',
+      label: 'Preview form',
+      group: 'Form',
+      icon: Eye,
+      run: () => setShowPreview(true),
+    },
+    ...(isPublished && hasChanges
+      ? [{ id: 'publish', label: 'Publish changes', group: 'Form', icon: Upload, run: handlePublishChanges }]
+      : []),
+    ...orderedQuestions.map((question, index) => ({
+      id: `goto-${question.id}`,
+      label: `${index + 1}. ${question.title || 'Untitled Question'}`,
+      group: 'Jump to question',
+      icon: QUESTION_TYPE_CONFIG[question.type]?.icon,
+      keywords: QUESTION_TYPE_CONFIG[question.type]?.label,
+      run: () => focusQuestion(question.id),
+    })),
+  ];
+
   const handleUpdateQuestion = (updates: Partial<Question>) => {
+    // The editor also autosaves when a question is selected; only record real
+    // changes (an empty description saved over a missing one isn't)
+    const current = questions.find((q) => q.id === selectedQuestionId);
+    const changed = Object.entries(updates).some(
+      ([field, value]) =>
+        JSON.stringify(value ?? '') !== JSON.stringify(current?.[field as keyof Question] ?? '')
+    );
+    if (!changed) return;
+
     setQuestions(
       questions.map((q) => {
         if (q.id === selectedQuestionId) {
@@ -174,12 +691,27 @@ export function FormBuilder({ form: initialForm }: FormBuilderProps) {
 
   return (
     <>
+      <CommandPalette
+        open={showCommandPalette}
+        onOpenChange={setShowCommandPalette}
+        commands={commands}
+      />
+
+      <DocxImportDialog
+        open={showDocxImport}
+        onOpenChange={setShowDocxImport}
+        formId={initialForm.id}
+        questionCount={questions.length}
+        onImport={handleImportQuestionnaire}
+      />
+
       <AlertDialog open={!!pendingDeleteId} onOpenChange={() => setPendingDeleteId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Question with Existing Responses?</AlertDialogTitle>
             <AlertDialogDescription>
-              This form has {responseCount} response{responseCount !== 1 ? 's' : ''}. Deleting this question will permanently remove all associated response data.
+              This form has {responseCount} response{responseCount !== 1 ? 's' : ''}. Answers already given to this
+              question are kept, and respondents see it until you publish your changes.
               <br />
               <br />
               This action cannot be undone. Are you sure you want to continue?
@@ -206,27 +738,66 @@ export function FormBuilder({ form: initialForm }: FormBuilderProps) {
           displayMode={displayMode}
           isSaving={isSaving}
           lastSaved={lastSaved}
-          questions={questions}
+          questions={orderedQuestions}
           hasResponses={hasResponses}
           responseCount={responseCount}
+          accessSettings={accessSettings}
           onTitleChange={setTitle}
           onDescriptionChange={setDescription}
-          onPublishedChange={setIsPublished}
+          onPublishedChange={handlePublishedChange}
+          hasUnpublishedChanges={hasChanges}
+          isPublishingChanges={isPublishing}
+          onPublishChanges={handlePublishChanges}
           onDisplayModeChange={setDisplayMode}
+          onAccessSettingsChange={setAccessSettings}
+          canUndo={questionHistory.canUndo}
+          canRedo={questionHistory.canRedo}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          isPreviewOpen={showPreview}
+          onPreviewOpenChange={setShowPreview}
+          onOpenCommandPalette={() => setShowCommandPalette(true)}
         />
 
       <main id="main-content" className="container mx-auto px-4 py-8">
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Questions List - Left Column (2/3 width on large screens) */}
-          <div className="lg:col-span-2">
+          <div className="lg:col-span-2 space-y-4">
+            {checkedQuestions.length > 0 && (
+              <BulkActionBar
+                selectedQuestions={checkedQuestions}
+                totalCount={questions.length}
+                sections={sections}
+                hasResponses={hasResponses}
+                isWorking={isBulkWorking}
+                onSelectAll={() => setCheckedQuestionIds(new Set(questions.map((q) => q.id)))}
+                onClearSelection={clearCheckedQuestions}
+                onDelete={handleBulkDelete}
+                onDuplicate={handleBulkDuplicate}
+                onSetRequired={(required) =>
+                  handleBulkUpdate({ required }, required ? 'now required' : 'now optional')
+                }
+                onMove={handleBulkMove}
+                onChangeType={(type) =>
+                  handleBulkUpdate({ type }, `changed to ${QUESTION_TYPE_CONFIG[type].label}`)
+                }
+              />
+            )}
             <QuestionList
               questions={questions}
+              sections={sections}
               selectedQuestionId={selectedQuestionId}
+              checkedQuestionIds={checkedQuestionIds}
               onSelectQuestion={setSelectedQuestionId}
+              onQuestionCheckedChange={handleQuestionCheckedChange}
               onReorderQuestions={handleReorderQuestions}
               onAddQuestion={handleAddQuestion}
               onDuplicateQuestion={handleDuplicateQuestion}
               onDeleteQuestion={handleDeleteQuestion}
+              onAddSection={handleAddSection}
+              onImportDocument={() => setShowDocxImport(true)}
+              onUpdateSection={handleUpdateSection}
+              onDeleteSection={handleDeleteSection}
             />
           </div>
 
@@ -238,7 +809,8 @@ export function FormBuilder({ form: initialForm }: FormBuilderProps) {
                   <h3 className="text-lg font-semibold mb-6">Edit Question</h3>
                   <QuestionEditor
                     question={selectedQuestion}
-                    allQuestions={questions}
+                    allQuestions={orderedQuestions}
+                    sections={sections}
                     onUpdate={handleUpdateQuestion}
                   />
                 </>
@@ -3,10 +3,10 @@
 import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { FormBuilder } from './FormBuilder';
-import type { FormWithQuestions } from '@/lib/types/form.types';
+import type { FormWithPublishedVersion } from '@/lib/types/form.types';
 
 interface FormBuilderWrapperProps {
-  form: FormWithQuestions;
+  form: FormWithPublishedVersion;
 }
 
 export function FormBuilderWrapper({ form }: FormBuilderWrapperProps) {
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { ArrowLeft, Eye, Save, BarChart3, Lock, AlertTriangle } from 'lucide-react';
+import { ArrowLeft, Eye, Save, BarChart3, Lock, AlertTriangle, ShieldCheck, Webhook, Upload, Undo2, Redo2, Command } from 'lucide-react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -18,6 +18,8 @@ import {
 } from '@/components/ui/select';
 import { formatDistanceToNow } from 'date-fns';
 import { FormPreview } from './preview/FormPreview';
+import { FormAccessSettingsDialog, type FormAccessSettings } from './FormAccessSettingsDialog';
+import { WebhooksDialog } from './WebhooksDialog';
 import type { Question } from '@/lib/types/question.types';
 
 interface FormHeaderProps {
@@ -31,10 +33,25 @@ interface FormHeaderProps {
   questions: Question[];
   hasResponses: boolean;
   responseCount: number;
+  accessSettings: FormAccessSettings;
   onTitleChange: (title: string) => void;
   onDescriptionChange: (description: string) => void;
   onPublishedChange: (published: boolean) => void;
+  // Whether the draft differs from the version respondents see
+  hasUnpublishedChanges: boolean;
+  isPublishingChanges: boolean;
+  onPublishChanges: () => void;
   onDisplayModeChange: (mode: 'single' | 'scroll') => void;
+  onAccessSettingsChange: (settings: FormAccessSettings) => void;
+  // Question edits history
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  // The preview can also be opened from the command palette
+  isPreviewOpen: boolean;
+  onPreviewOpenChange: (open: boolean) => void;
+  onOpenCommandPalette: () => void;
 }
 
 export function FormHeader({
@@ -48,23 +65,44 @@ export function FormHeader({
   questions,
   hasResponses,
   responseCount,
+  accessSettings,
   onTitleChange,
   onDescriptionChange,
   onPublishedChange,
+  hasUnpublishedChanges,
+  isPublishingChanges,
+  onPublishChanges,
   onDisplayModeChange,
+  onAccessSettingsChange,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  isPreviewOpen,
+  onPreviewOpenChange,
+  onOpenCommandPalette,
 }: FormHeaderProps) {
-  const [showPreview, setShowPreview] = useState(false);
+  const [showAccessSettings, setShowAccessSettings] = useState(false);
+  const [showWebhooks, setShowWebhooks] = useState(false);
 
   return (
     <>
       <FormPreview
-        isOpen={showPreview}
-        onClose={() => setShowPreview(false)}
+        isOpen={isPreviewOpen}
+        onClose={() => onPreviewOpenChange(false)}
         title={title}
         description={description}
         questions={questions}
         displayMode={displayMode}
       />
+      <FormAccessSettingsDialog
+        open={showAccessSettings}
+        onOpenChange={setShowAccessSettings}
+        formId={formId}
+        settings={accessSettings}
+        onSaved={onAccessSettingsChange}
+      />
+      <WebhooksDialog open={showWebhooks} onOpenChange={setShowWebhooks} formId={formId} />
     <div className="sticky top-0 z-40 backdrop-blur-sm bg-white/90 border-b border-slate-200">
       <div className="container mx-auto px-4 py-4">
         {/* Warning banner when form has responses */}
@@ -76,7 +114,7 @@ export function FormHeader({
                 Form has {responseCount} response{responseCount !== 1 ? 's' : ''}
               </p>
               <p className="text-xs text-yellow-700 mt-1">
-                Editing or deleting questions may affect existing response data. Proceed with caution.
+                Edits are saved as a draft. Respondents keep seeing the published version until you publish your changes.
               </p>
             </div>
             <Lock className="h-5 w-5 text-yellow-600" />
@@ -108,6 +146,42 @@ export function FormHeader({
               ) : null}
             </div>
 
+            {/* Undo / Redo */}
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={onUndo}
+                disabled={!canUndo}
+                className="h-8 w-8"
+                aria-label="Undo"
+                title="Undo (Ctrl+Z)"
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={onRedo}
+                disabled={!canRedo}
+                className="h-8 w-8"
+                aria-label="Redo"
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <Redo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={onOpenCommandPalette}
+                className="h-8 w-8"
+                aria-label="Open command palette"
+                title="Commands (Ctrl+K)"
+              >
+                <Command className="h-4 w-4" />
+              </Button>
+            </div>
+
             {/* Display Mode Selector */}
             <div className="flex items-center gap-2">
               <Label htmlFor="display-mode" className="text-sm">
@@ -143,6 +217,14 @@ export function FormHeader({
               </Label>
             </div>
 
+            {/* Publish Changes Button */}
+            {isPublished && hasUnpublishedChanges && (
+              <Button size="sm" onClick={onPublishChanges} disabled={isPublishingChanges}>
+                <Upload className="mr-2 h-4 w-4" />
+                {isPublishingChanges ? 'Publishing...' : 'Publish changes'}
+              </Button>
+            )}
+
             {/* View Responses Button */}
             <Link href={`/forms/${formId}/responses`}>
               <Button variant="outline" size="sm">
@@ -151,11 +233,33 @@ export function FormHeader({
               </Button>
             </Link>
 
+            {/* Access Settings Button */}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowAccessSettings(true)}
+              aria-label="Access settings"
+            >
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              Access
+            </Button>
+
+            {/* Webhooks Button */}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowWebhooks(true)}
+              aria-label="Webhooks"
+            >
+              <Webhook className="mr-2 h-4 w-4" />
+              Webhooks
+            </Button>
+
             {/* Preview Button */}
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setShowPreview(true)}
+              onClick={() => onPreviewOpenChange(true)}
               aria-label="Preview form"
             >
               <Eye className="mr-2 h-4 w-4" />
@@ -9,6 +9,7 @@ import { useAutosave } from '@/hooks/use-autosave';
 import { updateQuestion } from '@/app/(dashboard)/forms/[formId]/edit/actions';
 import { toast } from 'sonner';
 import type { Question, QuestionOptions } from '@/lib/types/question.types';
+import type { FormSection } from '@/lib/types/form.types';
 import { ShortTextEditor } from './question-types/ShortTextEditor';
 import { LongTextEditor } from './question-types/LongTextEditor';
 import { MultipleChoiceEditor } from './question-types/MultipleChoiceEditor';
@@ -22,15 +23,16 @@ import { AdvancedLogicBuilder } from './conditional-logic/AdvancedLogicBuilder';
 import type { LogicRule } from '@/lib/types/question.types';
 import type { AdvancedLogicRule } from '@/lib/types/advanced-logic.types';
 import { detectCircularLogic } from '@/lib/utils/logic-evaluator';
-import { validateAdvancedLogicRules } from '@/lib/utils/advanced-logic-evaluator';
+import { validateAdvancedLogicRules, validateCalculationFormulas } from '@/lib/utils/advanced-logic-evaluator';
 
 interface QuestionEditorProps {
   question: Question;
   allQuestions: Question[];
+  sections?: FormSection[];
   onUpdate: (updates: Partial<Question>) => void;
 }
 
-export function QuestionEditor({ question, allQuestions, onUpdate }: QuestionEditorProps) {
+export function QuestionEditor({ question, allQuestions, sections, onUpdate }: QuestionEditorProps) {
   const [title, setTitle] = useState(question.title);
   const [description, setDescription] = useState(question.description || '');
   const [required, setRequired] = useState(question.required);
@@ -155,6 +157,12 @@ export function QuestionEditor({ question, allQuestions, onUpdate }: QuestionEdi
     }
 
     setAdvancedLogicRules(newRules);
+
+    // Formula errors are shown inline by the builder; save once they're fixed
+    if (!validateCalculationFormulas(newRules, allQuestions).valid) {
+      return;
+    }
+
     const result = await updateQuestion(question.id, { advanced_logic_rules: newRules as any[] });
     if (result.error) {
       toast.error(result.error);
@@ -287,7 +295,7 @@ export function QuestionEditor({ question, allQuestions, onUpdate }: QuestionEdi
       </div>
 
       {/* Conditional Logic */}
-      <div className="pt-4 border-t border-slate-200">
+      <div id="question-logic" className="pt-4 border-t border-slate-200">
         <LogicBuilder
           currentQuestion={question}
           allQuestions={allQuestions}
@@ -303,6 +311,7 @@ export function QuestionEditor({ question, allQuestions, onUpdate }: QuestionEdi
           allQuestions={allQuestions}
           rules={advancedLogicRules}
           onRulesChange={handleAdvancedLogicRulesChange}
+          sections={sections}
         />
       </div>
     </div>
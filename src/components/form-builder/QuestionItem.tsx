@@ -5,6 +5,7 @@ import { CSS } from '@dnd-kit/utilities';
 import { GripVertical, Copy, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -22,7 +23,10 @@ import type { Question } from '@/lib/types/question.types';
 interface QuestionItemProps {
   question: Question;
   isSelected: boolean;
+  isChecked?: boolean; // Picked for a bulk action
+  isSelecting?: boolean; // Some question is checked, so checkboxes stay visible
   onSelect: () => void;
+  onCheckedChange?: (checked: boolean) => void;
   onDuplicate: () => void;
   onDelete: () => void;
 }
@@ -30,7 +34,10 @@ interface QuestionItemProps {
 export function QuestionItem({
   question,
   isSelected,
+  isChecked = false,
+  isSelecting = false,
   onSelect,
+  onCheckedChange,
   onDuplicate,
   onDelete,
 }: QuestionItemProps) {
@@ -65,15 +72,29 @@ export function QuestionItem({
     <>
       <li
         ref={setNodeRef}
+        id={`question-${question.id}`}
         style={style}
         className={`group relative backdrop-blur-sm rounded-lg border-2 transition-all ${
           isSelected
             ? 'border-slate-400 bg-slate-50 shadow-md'
+            : isChecked
+            ? 'border-blue-300 bg-blue-50/60'
             : 'border-slate-200 bg-white/90 hover:border-slate-300'
         } ${isDragging ? 'shadow-2xl scale-105' : ''}`}
         role="listitem"
       >
         <div className="flex items-start gap-3 p-4">
+          {onCheckedChange && (
+            <Checkbox
+              checked={isChecked}
+              onCheckedChange={(checked) => onCheckedChange(checked === true)}
+              className={`mt-2 transition-opacity ${
+                isChecked || isSelecting ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 focus-visible:opacity-100'
+              }`}
+              aria-label={`Select question ${question.title || 'Untitled Question'}`}
+            />
+          )}
+
           {/* Drag Handle */}
           <button
             {...attributes}
@@ -8,6 +8,8 @@ import {
   useSensor,
   useSensors,
   DragEndEvent,
+  pointerWithin,
+  type CollisionDetection,
 } from '@dnd-kit/core';
 import {
   arrayMove,
@@ -17,27 +19,48 @@ import {
 } from '@dnd-kit/sortable';
 import { QuestionItem } from './QuestionItem';
 import { AddQuestionButton } from './AddQuestionButton';
-import { FileQuestion } from 'lucide-react';
+import { SectionContainer } from './SectionContainer';
+import { Button } from '@/components/ui/button';
+import { FileQuestion, FileUp, Layers } from 'lucide-react';
 import type { Question, QuestionType } from '@/lib/types/question.types';
+import type { FormSection, FormSectionUpdate } from '@/lib/types/form.types';
+import { groupQuestionsIntoPages, getSectionKey } from '@/lib/utils/form-sections';
+
+// Droppable ids for section containers (question ids are used for the questions themselves)
+const SECTION_DROPPABLE_PREFIX = 'section:';
 
 interface QuestionListProps {
   questions: Question[];
+  sections?: FormSection[];
   selectedQuestionId: string | null;
+  checkedQuestionIds?: Set<string>; // Picked for bulk actions
   onSelectQuestion: (questionId: string) => void;
+  onQuestionCheckedChange?: (questionId: string, checked: boolean) => void;
   onReorderQuestions: (questions: Question[]) => void;
   onAddQuestion: (type: QuestionType) => void;
   onDuplicateQuestion: (questionId: string) => void;
   onDeleteQuestion: (questionId: string) => void;
+  onAddSection?: () => void;
+  onImportDocument?: () => void; // Import questions from a Word questionnaire
+  onUpdateSection?: (sectionId: string, updates: FormSectionUpdate) => void;
+  onDeleteSection?: (sectionId: string) => void;
 }
 
 export function QuestionList({
   questions,
+  sections = [],
   selectedQuestionId,
+  checkedQuestionIds,
   onSelectQuestion,
+  onQuestionCheckedChange,
   onReorderQuestions,
   onAddQuestion,
   onDuplicateQuestion,
   onDeleteQuestion,
+  onAddSection,
+  onImportDocument,
+  onUpdateSection,
+  onDeleteSection,
 }: QuestionListProps) {
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -50,19 +73,88 @@ export function QuestionList({
     })
   );
 
+  const pages = groupQuestionsIntoPages(questions, sections, true);
+  const orderedQuestions = pages.flatMap((page) => page.questions);
+
+  // Questions sort by closest center; an empty section only takes the drop
+  // when the pointer is inside it
+  const collisionDetection: CollisionDetection = (args) => {
+    const isSectionId = (id: string | number) => String(id).startsWith(SECTION_DROPPABLE_PREFIX);
+    const emptySectionHit = pointerWithin({
+      ...args,
+      droppableContainers: args.droppableContainers.filter((container) => isSectionId(container.id)),
+    }).find((collision) =>
+      pages.some(
+        (page) =>
+          `${SECTION_DROPPABLE_PREFIX}${getSectionKey(page.section?.id)}` === collision.id &&
+          page.questions.every((q) => q.id === args.active.id)
+      )
+    );
+
+    if (emptySectionHit) return [emptySectionHit];
+
+    return closestCenter({
+      ...args,
+      droppableContainers: args.droppableContainers.filter((container) => !isSectionId(container.id)),
+    });
+  };
+
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
 
-    if (over && active.id !== over.id) {
-      const oldIndex = questions.findIndex((q) => q.id === active.id);
-      const newIndex = questions.findIndex((q) => q.id === over.id);
+    if (!over || active.id === over.id) return;
+
+    const oldIndex = orderedQuestions.findIndex((q) => q.id === active.id);
+    if (oldIndex === -1) return;
 
-      const reordered = arrayMove(questions, oldIndex, newIndex);
-      onReorderQuestions(reordered);
+    const overId = String(over.id);
+    let reordered: Question[];
+
+    if (overId.startsWith(SECTION_DROPPABLE_PREFIX)) {
+      // Dropped on a section container: move to the end of that section
+      const sectionId = overId.slice(SECTION_DROPPABLE_PREFIX.length) || null;
+      const moved = { ...orderedQuestions[oldIndex], section_id: sectionId };
+      const rest = orderedQuestions.filter((q) => q.id !== active.id);
+      const pageIndex = pages.findIndex((page) => getSectionKey(page.section?.id) === getSectionKey(sectionId));
+      const insertAt = pages
+        .slice(0, pageIndex + 1)
+        .reduce((count, page) => count + page.questions.filter((q) => q.id !== active.id).length, 0);
+      reordered = [...rest.slice(0, insertAt), moved, ...rest.slice(insertAt)];
+    } else {
+      // Dropped on a question: take its place and its section
+      const newIndex = orderedQuestions.findIndex((q) => q.id === over.id);
+      if (newIndex === -1) return;
+
+      const overPage = pages.find((page) => page.questions.some((q) => q.id === over.id));
+      reordered = arrayMove(orderedQuestions, oldIndex, newIndex).map((q) =>
+        q.id === active.id ? { ...q, section_id: overPage?.section?.id ?? null } : q
+      );
     }
+
+    onReorderQuestions(reordered.map((q, index) => ({ ...q, order_index: index })));
   };
 
-  if (questions.length === 0) {
+  const renderQuestions = (pageQuestions: Question[]) => (
+    <ul className="space-y-3" role="list" aria-label="Form questions">
+      {pageQuestions.map((question) => (
+        <QuestionItem
+          key={question.id}
+          question={question}
+          isSelected={selectedQuestionId === question.id}
+          isChecked={checkedQuestionIds?.has(question.id)}
+          isSelecting={!!checkedQuestionIds && checkedQuestionIds.size > 0}
+          onSelect={() => onSelectQuestion(question.id)}
+          onCheckedChange={
+            onQuestionCheckedChange && ((checked) => onQuestionCheckedChange(question.id, checked))
+          }
+          onDuplicate={() => onDuplicateQuestion(question.id)}
+          onDelete={() => onDeleteQuestion(question.id)}
+        />
+      ))}
+    </ul>
+  );
+
+  if (questions.length === 0 && sections.length === 0) {
     return (
       <div className="space-y-4">
         <div className="flex flex-col items-center justify-center py-12 px-4 backdrop-blur-sm bg-white/90 rounded-xl border-2 border-dashed border-slate-300">
@@ -79,6 +171,12 @@ export function QuestionList({
           <div className="w-full max-w-xs">
             <AddQuestionButton onAddQuestion={onAddQuestion} />
           </div>
+          {onImportDocument && (
+            <Button variant="link" onClick={onImportDocument} className="mt-2">
+              <FileUp className="h-4 w-4 mr-2" />
+              Or import a Word questionnaire
+            </Button>
+          )}
         </div>
       </div>
     );
@@ -89,34 +187,58 @@ export function QuestionList({
       <div className="flex items-center justify-between">
         <p className="text-sm text-slate-600">
           {questions.length} {questions.length === 1 ? 'Question' : 'Questions'}
+          {sections.length > 0 && ` · ${sections.length} ${sections.length === 1 ? 'Section' : 'Sections'}`}
         </p>
       </div>
 
       <DndContext
         sensors={sensors}
-        collisionDetection={closestCenter}
+        collisionDetection={collisionDetection}
         onDragEnd={handleDragEnd}
       >
         <SortableContext
-          items={questions.map((q) => q.id)}
+          items={orderedQuestions.map((q) => q.id)}
           strategy={verticalListSortingStrategy}
         >
-          <ul className="space-y-3" role="list" aria-label="Form questions">
-            {questions.map((question) => (
-              <QuestionItem
-                key={question.id}
-                question={question}
-                isSelected={selectedQuestionId === question.id}
-                onSelect={() => onSelectQuestion(question.id)}
-                onDuplicate={() => onDuplicateQuestion(question.id)}
-                onDelete={() => onDeleteQuestion(question.id)}
-              />
-            ))}
-          </ul>
+          {sections.length === 0 ? (
+            renderQuestions(orderedQuestions)
+          ) : (
+            <div className="space-y-4">
+              {pages.map((page) => (
+                <SectionContainer
+                  key={getSectionKey(page.section?.id)}
+                  droppableId={`${SECTION_DROPPABLE_PREFIX}${getSectionKey(page.section?.id)}`}
+                  section={page.section}
+                  sectionNumber={page.section ? sections.indexOf(page.section) + 1 : 0}
+                  questionCount={page.questions.length}
+                  onUpdate={(updates) => page.section && onUpdateSection?.(page.section.id, updates)}
+                  onDelete={() => page.section && onDeleteSection?.(page.section.id)}
+                >
+                  {renderQuestions(page.questions)}
+                </SectionContainer>
+              ))}
+            </div>
+          )}
         </SortableContext>
       </DndContext>
 
-      <AddQuestionButton onAddQuestion={onAddQuestion} />
+      <div className="flex gap-2">
+        <div className="flex-1">
+          <AddQuestionButton onAddQuestion={onAddQuestion} />
+        </div>
+        {onAddSection && (
+          <Button variant="outline" onClick={onAddSection} className="h-auto">
+            <Layers className="h-4 w-4 mr-2" />
+            Add Section
+          </Button>
+        )}
+        {onImportDocument && (
+          <Button variant="outline" onClick={onImportDocument} className="h-auto">
+            <FileUp className="h-4 w-4 mr-2" />
+            Import .docx
+          </Button>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,109 @@
+'use client';
+
+import { useState } from 'react';
+import { useDroppable } from '@dnd-kit/core';
+import { Layers, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import type { FormSection, FormSectionUpdate } from '@/lib/types/form.types';
+
+interface SectionContainerProps {
+  droppableId: string;
+  section: FormSection | null;
+  sectionNumber: number;
+  questionCount: number;
+  onUpdate?: (updates: FormSectionUpdate) => void;
+  onDelete?: () => void;
+  children: React.ReactNode;
+}
+
+/**
+ * A section in the builder's question list
+ * Questions can be dropped into it, including when it is empty. The
+ * unsectioned group (section = null) has no editable header.
+ */
+export function SectionContainer({
+  droppableId,
+  section,
+  sectionNumber,
+  questionCount,
+  onUpdate,
+  onDelete,
+  children,
+}: SectionContainerProps) {
+  const [title, setTitle] = useState(section?.title || '');
+  const [description, setDescription] = useState(section?.description || '');
+
+  const { setNodeRef, isOver } = useDroppable({ id: droppableId });
+
+  const handleTitleBlur = () => {
+    if (section && title !== section.title) {
+      onUpdate?.({ title });
+    }
+  };
+
+  const handleDescriptionBlur = () => {
+    if (section && description !== (section.description || '')) {
+      onUpdate?.({ description: description || null });
+    }
+  };
+
+  return (
+    <section
+      ref={setNodeRef}
+      className={`rounded-xl border-2 p-4 space-y-3 transition-colors ${
+        isOver ? 'border-blue-400 bg-blue-50/60' : 'border-slate-200 bg-white/50'
+      }`}
+      aria-label={section ? `Section ${sectionNumber}: ${section.title || 'Untitled section'}` : 'Questions before the first section'}
+    >
+      {section ? (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Layers className="h-4 w-4 text-slate-500 shrink-0" />
+            <span className="text-xs font-medium text-slate-500 shrink-0">
+              Section {sectionNumber}
+            </span>
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              onBlur={handleTitleBlur}
+              placeholder="Section title"
+              className="h-8 font-semibold"
+              aria-label="Section title"
+              maxLength={200}
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onDelete}
+              className="h-8 w-8 shrink-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+              aria-label="Delete section"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <Textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            onBlur={handleDescriptionBlur}
+            placeholder="Section description (optional)"
+            className="min-h-[60px] text-sm"
+            aria-label="Section description"
+            maxLength={1000}
+          />
+        </div>
+      ) : (
+        <p className="text-xs font-medium text-slate-500">Before the first section</p>
+      )}
+
+      {children}
+
+      {questionCount === 0 && (
+        <p className="text-sm text-slate-500 text-center py-4 border-2 border-dashed border-slate-200 rounded-lg">
+          Drag questions here
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,448 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Copy, Eye, EyeOff, Loader2, Plus, RefreshCw, RotateCcw, Trash2 } from 'lucide-react';
+import {
+  createWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  getWebhooks,
+  replayWebhookDelivery,
+  rotateWebhookSecret,
+  updateWebhook,
+} from '@/app/(dashboard)/forms/[formId]/webhooks/actions';
+import { WEBHOOK_EVENTS, WEBHOOK_EVENT_DESCRIPTIONS } from '@/lib/utils/webhooks';
+import type { Webhook, WebhookDelivery, WebhookEvent } from '@/lib/types/webhook.types';
+
+interface WebhooksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  formId: string;
+}
+
+export function WebhooksDialog({ open, onOpenChange, formId }: WebhooksDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Webhooks</DialogTitle>
+          <DialogDescription>
+            POST signed JSON to your systems when responses arrive or change
+          </DialogDescription>
+        </DialogHeader>
+        {/* Content unmounts while closed, so it reloads on every open */}
+        <WebhooksPanel formId={formId} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function WebhooksPanel({ formId }: { formId: string }) {
+  const [webhooks, setWebhooks] = useState<Webhook[] | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([getWebhooks(formId), getWebhookDeliveries(formId)]).then(([webhookResult, deliveryResult]) => {
+      if (cancelled) return;
+      if (webhookResult.error || deliveryResult.error) {
+        toast.error(webhookResult.error || deliveryResult.error || 'Failed to load webhooks');
+      }
+      setWebhooks(webhookResult.data || []);
+      setDeliveries(deliveryResult.data || []);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [formId, reloadKey]);
+
+  const reload = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  if (!webhooks || !deliveries) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+      </div>
+    );
+  }
+
+  return (
+    <Tabs defaultValue="endpoints">
+      <TabsList>
+        <TabsTrigger value="endpoints">Endpoints ({webhooks.length})</TabsTrigger>
+        <TabsTrigger value="deliveries">Delivery log</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="endpoints" className="space-y-4 pt-2">
+        {webhooks.map((webhook) => (
+          <WebhookCard
+            key={webhook.id}
+            webhook={webhook}
+            onChanged={(updated) =>
+              setWebhooks((current) => (current || []).map((w) => (w.id === updated.id ? updated : w)))
+            }
+            onDeleted={reload}
+          />
+        ))}
+        <NewWebhookForm formId={formId} onCreated={reload} />
+      </TabsContent>
+
+      <TabsContent value="deliveries" className="pt-2">
+        <DeliveryLog deliveries={deliveries} webhooks={webhooks} onRefresh={reload} />
+      </TabsContent>
+    </Tabs>
+  );
+}
+
+interface EventCheckboxesProps {
+  idPrefix: string;
+  selected: WebhookEvent[];
+  onChange: (events: WebhookEvent[]) => void;
+}
+
+function EventCheckboxes({ idPrefix, selected, onChange }: EventCheckboxesProps) {
+  return (
+    <div className="grid gap-2 sm:grid-cols-2">
+      {WEBHOOK_EVENTS.map((event) => (
+        <div key={event} className="flex items-start gap-2">
+          <Checkbox
+            id={`${idPrefix}-${event}`}
+            checked={selected.includes(event)}
+            onCheckedChange={(checked) =>
+              onChange(checked ? [...selected, event] : selected.filter((e) => e !== event))
+            }
+          />
+          <Label htmlFor={`${idPrefix}-${event}`} className="grid gap-0.5 font-normal cursor-pointer">
+            <code className="text-xs font-semibold">{event}</code>
+            <span className="text-xs text-slate-500">{WEBHOOK_EVENT_DESCRIPTIONS[event]}</span>
+          </Label>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function NewWebhookForm({ formId, onCreated }: { formId: string; onCreated: () => void }) {
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(['response.submitted']);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const result = await createWebhook(formId, { url, description: description || undefined, events });
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success('Webhook added');
+      setUrl('');
+      setDescription('');
+      onCreated();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-lg border-2 border-dashed border-slate-200 p-4">
+      <p className="text-sm font-medium text-slate-900">Add endpoint</p>
+      <div className="grid gap-2 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label htmlFor="webhook-url">URL</Label>
+          <Input
+            id="webhook-url"
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/hooks/statq"
+            required
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="webhook-description">Description</Label>
+          <Input
+            id="webhook-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Procurement database"
+            maxLength={200}
+          />
+        </div>
+      </div>
+      <EventCheckboxes idPrefix="new-webhook" selected={events} onChange={setEvents} />
+      <div className="flex justify-end">
+        <Button type="submit" size="sm" disabled={isSaving || !url || events.length === 0}>
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+          Add Webhook
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+interface WebhookCardProps {
+  webhook: Webhook;
+  onChanged: (webhook: Webhook) => void;
+  onDeleted: () => void;
+}
+
+function WebhookCard({ webhook, onChanged, onDeleted }: WebhookCardProps) {
+  const [showSecret, setShowSecret] = useState(false);
+  const [isEditingEvents, setIsEditingEvents] = useState(false);
+  const [events, setEvents] = useState<WebhookEvent[]>(webhook.events);
+
+  const save = async (updates: Parameters<typeof updateWebhook>[1]) => {
+    const result = await updateWebhook(webhook.id, updates);
+    if (result.error || !result.data) {
+      toast.error(result.error || 'Failed to update webhook');
+      return false;
+    }
+    onChanged(result.data);
+    return true;
+  };
+
+  const handleSaveEvents = async () => {
+    if (await save({ events })) {
+      toast.success('Events updated');
+      setIsEditingEvents(false);
+    }
+  };
+
+  const handleRotate = async () => {
+    if (!window.confirm('Rotate the signing secret? Receivers must switch to the new secret straight away.')) {
+      return;
+    }
+    const result = await rotateWebhookSecret(webhook.id);
+    if (result.error || !result.data) {
+      toast.error(result.error || 'Failed to rotate secret');
+      return;
+    }
+    onChanged(result.data);
+    setShowSecret(true);
+    toast.success('Secret rotated');
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm('Delete this webhook and its delivery log?')) {
+      return;
+    }
+    const result = await deleteWebhook(webhook.id);
+    if (result.error) {
+      toast.error(result.error);
+      return;
+    }
+    toast.success('Webhook deleted');
+    onDeleted();
+  };
+
+  const handleCopySecret = async () => {
+    await navigator.clipboard.writeText(webhook.secret);
+    toast.success('Secret copied');
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-200 p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="truncate font-mono text-sm text-slate-900">{webhook.url}</p>
+          {webhook.description && <p className="text-xs text-slate-500">{webhook.description}</p>}
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Switch
+            checked={webhook.is_active}
+            onCheckedChange={(checked) => save({ is_active: checked })}
+            aria-label={webhook.is_active ? 'Disable webhook' : 'Enable webhook'}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-red-600 hover:text-red-700 hover:bg-red-50"
+            onClick={handleDelete}
+            aria-label="Delete webhook"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {isEditingEvents ? (
+        <div className="space-y-2">
+          <EventCheckboxes idPrefix={webhook.id} selected={events} onChange={setEvents} />
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setEvents(webhook.events);
+                setIsEditingEvents(false);
+              }}
+            >
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSaveEvents} disabled={events.length === 0}>
+              Save Events
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-1">
+          {webhook.events.map((event) => (
+            <Badge key={event} variant="secondary" className="font-mono text-xs">
+              {event}
+            </Badge>
+          ))}
+          <Button variant="link" size="sm" className="h-auto px-1 text-xs" onClick={() => setIsEditingEvents(true)}>
+            Edit
+          </Button>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Label className="text-xs text-slate-500 shrink-0">Signing secret</Label>
+        <code className="flex-1 truncate rounded bg-slate-100 px-2 py-1 text-xs">
+          {showSecret ? webhook.secret : '•'.repeat(24)}
+        </code>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => setShowSecret((shown) => !shown)}
+          aria-label={showSecret ? 'Hide secret' : 'Show secret'}
+        >
+          {showSecret ? <EyeOff className="h-3.5 w-3.5" /> : <Eye className="h-3.5 w-3.5" />}
+        </Button>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={handleCopySecret} aria-label="Copy secret">
+          <Copy className="h-3.5 w-3.5" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={handleRotate} aria-label="Rotate secret">
+          <RotateCcw className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+const STATUS_BADGE: Record<WebhookDelivery['status'], 'default' | 'secondary' | 'destructive'> = {
+  success: 'default',
+  pending: 'secondary',
+  failed: 'destructive',
+};
+
+interface DeliveryLogProps {
+  deliveries: WebhookDelivery[];
+  webhooks: Webhook[];
+  onRefresh: () => void;
+}
+
+function DeliveryLog({ deliveries, webhooks, onRefresh }: DeliveryLogProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+  const urls = new Map(webhooks.map((webhook) => [webhook.id, webhook.url]));
+
+  const handleReplay = async (deliveryId: string) => {
+    setReplayingId(deliveryId);
+    try {
+      const result = await replayWebhookDelivery(deliveryId);
+      if (result.error) {
+        toast.error(result.error);
+      } else {
+        toast.success('Replay queued');
+        onRefresh();
+      }
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-slate-500">Most recent 50 deliveries. Replays resend the original payload.</p>
+        <Button variant="outline" size="sm" onClick={onRefresh}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      {deliveries.length === 0 ? (
+        <p className="py-8 text-center text-sm text-slate-500">No deliveries yet</p>
+      ) : (
+        <ul className="divide-y divide-slate-200 rounded-lg border border-slate-200">
+          {deliveries.map((delivery) => (
+            <li key={delivery.id} className="p-3 text-sm">
+              <div className="flex items-center gap-3">
+                <button
+                  type="button"
+                  className="flex flex-1 items-center gap-3 text-left min-w-0"
+                  onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                  aria-expanded={expandedId === delivery.id}
+                >
+                  <Badge variant={STATUS_BADGE[delivery.status]} className="w-16 justify-center">
+                    {delivery.status}
+                  </Badge>
+                  <code className="text-xs">{delivery.event}</code>
+                  <span className="truncate text-xs text-slate-500">{urls.get(delivery.webhook_id)}</span>
+                  <span className="ml-auto shrink-0 text-xs text-slate-500">
+                    {delivery.response_status ? `HTTP ${delivery.response_status} · ` : ''}
+                    {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'} ·{' '}
+                    {formatDistanceToNow(new Date(delivery.created_at), { addSuffix: true })}
+                  </span>
+                </button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleReplay(delivery.id)}
+                  disabled={replayingId === delivery.id || delivery.status === 'pending'}
+                >
+                  {replayingId === delivery.id ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Replay'}
+                </Button>
+              </div>
+
+              {expandedId === delivery.id && (
+                <div className="mt-3 space-y-2">
+                  {delivery.error && <p className="text-xs text-red-600">{delivery.error}</p>}
+                  {delivery.replay_of && <p className="text-xs text-slate-500">Replay of an earlier delivery</p>}
+                  <div>
+                    <p className="mb-1 text-xs font-medium text-slate-700">Payload</p>
+                    <pre className="max-h-60 overflow-auto rounded bg-slate-900 p-3 text-xs text-slate-100">
+                      {JSON.stringify(delivery.payload, null, 2)}
+                    </pre>
+                  </div>
+                  {delivery.response_body && (
+                    <div>
+                      <p className="mb-1 text-xs font-medium text-slate-700">Response body</p>
+                      <pre className="max-h-40 overflow-auto rounded bg-slate-100 p-3 text-xs">
+                        {delivery.response_body}
+                      </pre>
+                    </div>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
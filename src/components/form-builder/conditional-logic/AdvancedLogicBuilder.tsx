@@ -21,6 +21,8 @@ import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Textarea } from '@/components/ui/textarea';
 import type { Question } from '@/lib/types/question.types';
+import type { FormSection } from '@/lib/types/form.types';
+import { END_OF_FORM_SECTION } from '@/lib/types/advanced-logic.types';
 import type {
   AdvancedLogicRule,
   LogicCondition,
@@ -29,6 +31,8 @@ import type {
   LogicalOperator,
 } from '@/lib/types/advanced-logic.types';
 import { getOperatorsForQuestionType } from '@/lib/utils/logic-evaluator';
+import { canUseInFormula, validateFormula, FORMULA_FUNCTION_NAMES } from '@/lib/utils/formula-evaluator';
+import type { FormulaErrorInfo } from '@/lib/utils/formula-parser';
 import { nanoid } from 'nanoid';
 
 interface AdvancedLogicBuilderProps {
@@ -36,6 +40,7 @@ interface AdvancedLogicBuilderProps {
   allQuestions: Question[];
   rules: AdvancedLogicRule[];
   onRulesChange: (rules: AdvancedLogicRule[]) => void;
+  sections?: FormSection[];
 }
 
 export function AdvancedLogicBuilder({
@@ -43,6 +48,7 @@ export function AdvancedLogicBuilder({
   allQuestions,
   rules,
   onRulesChange,
+  sections = [],
 }: AdvancedLogicBuilderProps) {
   const [isExpanded, setIsExpanded] = useState(rules.length > 0);
   const [selectedRuleId, setSelectedRuleId] = useState<string | null>(null);
@@ -61,6 +67,22 @@ export function AdvancedLogicBuilder({
     return qIndex > currentIndex;
   });
 
+  // Sections that can be jumped to (after the current question's section)
+  const sortedSections = [...sections].sort((a, b) => a.order_index - b.order_index);
+  const currentSectionIndex = sortedSections.findIndex((s) => s.id === currentQuestion.section_id);
+  const jumpTargetSections = sortedSections.slice(currentSectionIndex + 1);
+
+  // Formula errors for calculate rules, checked against the selected source question types
+  const getFormulaError = (rule: AdvancedLogicRule): FormulaErrorInfo | null => {
+    if (rule.action !== 'calculate' || !rule.calculate) return null;
+
+    const sourceTypes = rule.calculate.sourceQuestionIds.map(
+      (id) => allQuestions.find((q) => q.id === id)?.type
+    );
+    const validation = validateFormula(rule.calculate.formula, sourceTypes);
+    return validation.errors[0] ?? null;
+  };
+
   const handleAddRule = () => {
     const newRule: AdvancedLogicRule = {
       id: nanoid(),
@@ -500,6 +522,9 @@ export function AdvancedLogicBuilder({
                             <SelectItem value="unrequire">Make optional</SelectItem>
                             <SelectItem value="set_value">Set value (field piping)</SelectItem>
                             <SelectItem value="calculate">Calculate value</SelectItem>
+                            {sections.length > 0 && (
+                              <SelectItem value="jump_to_section">Jump to section</SelectItem>
+                            )}
                           </SelectContent>
                         </Select>
                       </div>
@@ -595,7 +620,7 @@ export function AdvancedLogicBuilder({
                                   <SelectValue placeholder="Select target question" />
                                 </SelectTrigger>
                                 <SelectContent>
-                                  {targetQuestions.filter(q => ['linear_scale', 'slider', 'short_text'].includes(q.type)).map((q) => (
+                                  {targetQuestions.filter(q => ['linear_scale', 'slider', 'short_text', 'long_text'].includes(q.type)).map((q) => (
                                     <SelectItem key={q.id} value={q.id}>
                                       {q.title || `Question ${q.order_index + 1}`}
                                     </SelectItem>
@@ -606,7 +631,7 @@ export function AdvancedLogicBuilder({
                             <div>
                               <Label htmlFor={`calc-sources-${rule.id}`} className="text-xs">Source Questions</Label>
                               <div className="p-2 border rounded-md space-y-1 max-h-32 overflow-y-auto">
-                                {conditionQuestions.filter(q => ['linear_scale', 'slider'].includes(q.type)).map((q) => (
+                                {conditionQuestions.filter(q => canUseInFormula(q.type)).map((q) => (
                                   <label
                                     key={q.id}
                                     className="flex items-center gap-2 text-xs hover:bg-slate-100 p-1 rounded cursor-pointer"
@@ -630,7 +655,12 @@ export function AdvancedLogicBuilder({
                                       }}
                                       className="rounded"
                                     />
-                                    <span>{q.title || `Question ${q.order_index + 1}`}</span>
+                                    <span className="flex-1">{q.title || `Question ${q.order_index + 1}`}</span>
+                                    {rule.calculate?.sourceQuestionIds.includes(q.id) && (
+                                      <Badge variant="secondary" className="font-mono text-[10px]">
+                                        Q{rule.calculate.sourceQuestionIds.indexOf(q.id) + 1}
+                                      </Badge>
+                                    )}
                                   </label>
                                 ))}
                               </div>
@@ -651,19 +681,56 @@ export function AdvancedLogicBuilder({
                                     },
                                   })
                                 }
-                                placeholder="e.g., Q1 + Q2 or (Q1 * Q2) / 100"
-                                className="h-8 text-xs font-mono"
+                                placeholder="e.g., Q1 + Q2 or round(avg(Q1, Q2), 1)"
+                                className={`h-8 text-xs font-mono ${getFormulaError(rule) ? 'border-red-400' : ''}`}
+                                aria-invalid={!!getFormulaError(rule)}
                               />
+                              <FormulaErrorMessage formula={rule.calculate?.formula || ''} error={getFormulaError(rule)} />
                               <p className="text-xs text-purple-700">
-                                Use Q1, Q2, Q3, etc. to reference selected source questions. Supports +, -, *, /, ( )
+                                Use Q1, Q2, Q3, etc. to reference selected source questions. Supports
+                                +, -, *, /, %, ^, comparisons (==, !=, &lt;, &gt;, &lt;=, &gt;=), &amp;&amp;, ||
+                                and {FORMULA_FUNCTION_NAMES.map((name) => `${name}()`).join(', ')}
                               </p>
                             </div>
                           </div>
                         </div>
                       )}
 
+                      {/* Section Jump Configuration */}
+                      {rule.action === 'jump_to_section' && (
+                        <div className="space-y-3 p-3 bg-green-50 border border-green-200 rounded-lg">
+                          <Label htmlFor={`jump-target-${rule.id}`} className="text-sm font-medium">
+                            Jump To
+                          </Label>
+                          <Select
+                            value={rule.jumpToSection?.targetSectionId || ''}
+                            onValueChange={(value) =>
+                              handleUpdateRule(rule.id, {
+                                jumpToSection: { type: 'jump_to_section', targetSectionId: value },
+                              })
+                            }
+                          >
+                            <SelectTrigger id={`jump-target-${rule.id}`} className="h-8 text-xs">
+                              <SelectValue placeholder="Select section" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {jumpTargetSections.map((section) => (
+                                <SelectItem key={section.id} value={section.id}>
+                                  {section.title || `Section ${sortedSections.indexOf(section) + 1}`}
+                                </SelectItem>
+                              ))}
+                              <SelectItem value={END_OF_FORM_SECTION}>End of form (submit)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <p className="text-xs text-green-700">
+                            When the conditions match, respondents continue from this section after
+                            finishing the current one. Sections in between are skipped.
+                          </p>
+                        </div>
+                      )}
+
                       {/* Target Questions (only for show/hide/require/unrequire actions) */}
-                      {!['set_value', 'calculate'].includes(rule.action) && (
+                      {!['set_value', 'calculate', 'jump_to_section'].includes(rule.action) && (
                         <div className="space-y-1">
                           <Label>Target Questions</Label>
                           <div className="p-2 border rounded-md space-y-1 max-h-40 overflow-y-auto">
@@ -725,3 +792,27 @@ export function AdvancedLogicBuilder({
     </div>
   );
 }
+
+/**
+ * Formula error with a caret under the offending part of the formula
+ */
+function FormulaErrorMessage({ formula, error }: { formula: string; error: FormulaErrorInfo | null }) {
+  if (!error) return null;
+
+  const width = Math.max(1, error.end - error.start);
+
+  return (
+    <div className="rounded-md border border-red-200 bg-red-50 p-2 space-y-1">
+      {formula && (
+        <pre className="text-xs font-mono text-slate-700 overflow-x-auto">
+          {formula}
+          {'\n'}
+          <span className="text-red-600">{' '.repeat(error.start)}{'^'.repeat(width)}</span>
+        </pre>
+      )}
+      <p className="text-xs text-red-700">
+        {error.message} (position {error.start + 1})
+      </p>
+    </div>
+  );
+}
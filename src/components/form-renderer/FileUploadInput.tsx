@@ -17,6 +17,23 @@ interface FileUploadInputProps {
   required?: boolean;
 }
 
+/**
+ * Match a file against MIME types (with image/* style wildcards) or extensions
+ */
+function isAllowedFileType(file: File, allowedTypes: string[]): boolean {
+  const fileExtension = '.' + (file.name.split('.').pop() || '').toLowerCase();
+
+  return allowedTypes.some((type) => {
+    if (type.startsWith('.')) {
+      return type.toLowerCase() === fileExtension;
+    }
+    if (type.includes('*')) {
+      return file.type.startsWith(type.split('/')[0] + '/');
+    }
+    return file.type === type;
+  });
+}
+
 export function FileUploadInput({
   questionId,
   formId,
@@ -65,7 +82,31 @@ export function FileUploadInput({
     setUploadError(null);
 
     try {
-      // Validation logic...
+      const maxFiles = options.maxFiles || 1;
+      const maxSizeMB = options.maxFileSize || 10;
+      const allowedTypes = [
+        ...(options.allowedFileTypes || []),
+        ...(options.acceptedExtensions || '')
+          .split(',')
+          .map((ext) => ext.trim())
+          .filter(Boolean),
+      ];
+
+      if (uploadedFiles.length + selectedFiles.length + files.length > maxFiles) {
+        throw new Error(`Maximum ${maxFiles} file${maxFiles > 1 ? 's' : ''} allowed`);
+      }
+
+      for (const file of files) {
+        if (file.size > maxSizeMB * 1024 * 1024) {
+          throw new Error(`File "${file.name}" exceeds maximum size of ${maxSizeMB}MB`);
+        }
+        if (allowedTypes.length > 0 && !isAllowedFileType(file, allowedTypes)) {
+          throw new Error(
+            `File "${file.name}" has invalid type. Allowed types: ${allowedTypes.join(', ')}`
+          );
+        }
+      }
+
       const newSelectedFiles = [...selectedFiles, ...files];
       setSelectedFiles(newSelectedFiles);
     } catch (err) {
@@ -1,15 +1,17 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { SingleQuestionMode } from './SingleQuestionMode';
 import { ScrollMode } from './ScrollMode';
-import { startResponse } from '@/app/(public)/forms/[formId]/submit/actions';
+import { startResponse, getBotChallenge } from '@/app/(public)/forms/[formId]/submit/actions';
 import { toast } from 'sonner';
 import type { FormWithQuestions } from '@/lib/types/form.types';
-import type { FormResponse } from '@/lib/types/response.types';
+import type { BotCheck, FormResponse } from '@/lib/types/response.types';
 import { evaluateLogic } from '@/lib/utils/logic-evaluator';
 import { evaluateAdvancedLogic, isConditionallyRequired, getQuestionValue } from '@/lib/utils/advanced-logic-evaluator';
 import type { AdvancedLogicRule } from '@/lib/types/advanced-logic.types';
+import { groupQuestionsIntoPages, resolveSectionPath } from '@/lib/utils/form-sections';
+import { HONEYPOT_FIELD_NAME, solveBotChallenge } from '@/lib/utils/bot-protection';
 
 interface FormRendererProps {
   form: FormWithQuestions;
@@ -22,6 +24,8 @@ export function FormRenderer({ form, mode, respondentName, respondentEmail }: Fo
   const [responseId, setResponseId] = useState<string | null>(null);
   const [answers, setAnswers] = useState<FormResponse>({});
   const [isLoading, setIsLoading] = useState(true);
+  const honeypotRef = useRef<HTMLInputElement>(null);
+  const proofRef = useRef<Promise<Pick<BotCheck, 'challenge' | 'nonce'>> | null>(null);
 
   // Initialize response on mount
   useEffect(() => {
@@ -40,7 +44,15 @@ export function FormRenderer({ form, mode, respondentName, respondentEmail }: Fo
       }
 
       // Check if there's a response ID in localStorage
-      const savedResponseId = isLocalStorageAvailable ? localStorage.getItem(`response_${form.id}`) : null;
+      let savedResponseId = isLocalStorageAvailable ? localStorage.getItem(`response_${form.id}`) : null;
+
+      // A response started on an older version of the form can't be continued on this one
+      const versionKey = `response_${form.id}_version`;
+      if (savedResponseId && (localStorage.getItem(versionKey) ?? null) !== (form.published_version_id ?? null)) {
+        console.log('[FormRenderer] Saved response is for another form version; starting over');
+        localStorage.removeItem(`response_${form.id}`);
+        savedResponseId = null;
+      }
 
       if (savedResponseId) {
         console.log('[FormRenderer] Found saved response ID:', savedResponseId);
@@ -84,6 +96,11 @@ export function FormRenderer({ form, mode, respondentName, respondentEmail }: Fo
           if (isLocalStorageAvailable) {
             try {
               localStorage.setItem(`response_${form.id}`, result.data.id);
+              if (result.data.form_version_id) {
+                localStorage.setItem(versionKey, result.data.form_version_id);
+              } else {
+                localStorage.removeItem(versionKey);
+              }
             } catch (e) {
               toast.warning(
                 'Cannot save progress locally. If you refresh, you may lose your answers.',
@@ -100,7 +117,29 @@ export function FormRenderer({ form, mode, respondentName, respondentEmail }: Fo
     };
 
     initializeResponse();
-  }, [form.id]);
+  }, [form.id, form.published_version_id]);
+
+  // Solve the bot protection challenge in the background while the form is filled in
+  useEffect(() => {
+    if (!responseId || !form.bot_protection) return;
+
+    proofRef.current = getBotChallenge(responseId)
+      .then(async (result) => {
+        if (!result.data) return {};
+        return { challenge: result.data, nonce: await solveBotChallenge(result.data) };
+      })
+      .catch((error) => {
+        // Submitting without a proof still works; the response is just flagged
+        console.error('[FormRenderer] Bot protection challenge failed:', error);
+        return {};
+      });
+  }, [responseId, form.bot_protection]);
+
+  const getBotCheck = async (): Promise<BotCheck | undefined> => {
+    if (!form.bot_protection) return undefined;
+    const proof = proofRef.current ? await proofRef.current : {};
+    return { honeypot: honeypotRef.current?.value || undefined, ...proof };
+  };
 
   // Calculate which questions should be hidden based on conditional logic
   const getVisibleQuestions = () => {
@@ -121,8 +160,18 @@ export function FormRenderer({ form, mode, respondentName, respondentEmail }: Fo
     );
     const advancedResult = evaluateAdvancedLogic(allAdvancedRules, answers, form.questions);
 
-    // Combine results: merge both hidden sets
-    const allHiddenIds = new Set([...hiddenFromSimple, ...advancedResult.hiddenQuestionIds]);
+    // Questions on sections skipped by jump_to_section rules are hidden too
+    const { skippedQuestionIds } = resolveSectionPath(
+      groupQuestionsIntoPages(form.questions, form.sections),
+      advancedResult.sectionJumps
+    );
+
+    // Combine results: merge all hidden sets
+    const allHiddenIds = new Set([
+      ...hiddenFromSimple,
+      ...advancedResult.hiddenQuestionIds,
+      ...skippedQuestionIds,
+    ]);
 
     console.log('[FormRenderer] Hidden question IDs:', Array.from(allHiddenIds));
 
@@ -166,23 +215,43 @@ export function FormRenderer({ form, mode, respondentName, respondentEmail }: Fo
     );
   }
 
-  return mode === 'single' ? (
-    <SingleQuestionMode
-      form={form}
-      responseId={responseId}
-      visibleQuestions={visibleQuestions}
-      answers={answers}
-      onAnswerChange={setAnswers}
-      advancedLogicResult={advancedLogicResult}
-    />
-  ) : (
-    <ScrollMode
-      form={form}
-      responseId={responseId}
-      visibleQuestions={visibleQuestions}
-      answers={answers}
-      onAnswerChange={setAnswers}
-      advancedLogicResult={advancedLogicResult}
-    />
+  return (
+    <>
+      {/* Honeypot: off-screen and skipped by keyboard and screen readers, so only bots fill it in */}
+      {form.bot_protection && (
+        <div aria-hidden="true" className="absolute -left-[10000px] h-px w-px overflow-hidden">
+          <label htmlFor={`${HONEYPOT_FIELD_NAME}-${form.id}`}>Website</label>
+          <input
+            ref={honeypotRef}
+            id={`${HONEYPOT_FIELD_NAME}-${form.id}`}
+            name={HONEYPOT_FIELD_NAME}
+            type="text"
+            tabIndex={-1}
+            autoComplete="off"
+          />
+        </div>
+      )}
+      {mode === 'single' ? (
+        <SingleQuestionMode
+          form={form}
+          responseId={responseId}
+          visibleQuestions={visibleQuestions}
+          answers={answers}
+          onAnswerChange={setAnswers}
+          advancedLogicResult={advancedLogicResult}
+          getBotCheck={getBotCheck}
+        />
+      ) : (
+        <ScrollMode
+          form={form}
+          responseId={responseId}
+          visibleQuestions={visibleQuestions}
+          answers={answers}
+          onAnswerChange={setAnswers}
+          advancedLogicResult={advancedLogicResult}
+          getBotCheck={getBotCheck}
+        />
+      )}
+    </>
   );
 }
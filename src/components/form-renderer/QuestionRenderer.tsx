@@ -36,7 +36,13 @@ import {
   getLinearScaleOptions,
   getMatrixOptions,
   getDateTimeOptions,
+  getFileUploadOptions,
+  getRankingOptions,
+  getSliderOptions,
 } from '@/lib/utils/question-type-guards';
+import { FileUploadInput } from './FileUploadInput';
+import { RankingInput } from './RankingInput';
+import { SliderInput } from './SliderInput';
 
 interface QuestionRendererProps {
   question: Question;
@@ -626,6 +632,57 @@ export function QuestionRenderer({
         );
       }
 
+      case 'file_upload': {
+        const opts = getFileUploadOptions(options);
+        return (
+          <FileUploadInput
+            questionId={question.id}
+            formId={formId}
+            options={opts}
+            value={effectiveValue}
+            onChange={onChange}
+            error={error}
+            ariaDescribedBy={ariaDescribedBy}
+            required={question.required}
+          />
+        );
+      }
+
+      case 'ranking': {
+        const opts = getRankingOptions(options);
+        if (!opts.items || opts.items.length === 0) {
+          return (
+            <p className="text-sm text-amber-600 bg-amber-50 border border-amber-200 rounded p-3">
+              ⚠️ This ranking question has no items configured. The form owner needs to add items.
+            </p>
+          );
+        }
+        return (
+          <RankingInput
+            questionId={question.id}
+            options={opts}
+            value={effectiveValue}
+            onChange={onChange}
+            ariaDescribedBy={ariaDescribedBy}
+          />
+        );
+      }
+
+      case 'slider': {
+        const opts = getSliderOptions(options);
+        return (
+          <SliderInput
+            questionId={question.id}
+            options={opts}
+            value={effectiveValue}
+            onChange={onChange}
+            error={error}
+            ariaDescribedBy={ariaDescribedBy}
+            autoFocus={autoFocus}
+          />
+        );
+      }
+
       default:
         return <p className="text-sm text-slate-500">Question type not supported</p>;
     }
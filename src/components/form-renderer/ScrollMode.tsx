@@ -1,16 +1,19 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
+import { ArrowLeft, ArrowRight } from 'lucide-react';
 import { QuestionRenderer } from './QuestionRenderer';
 import { saveAnswer, submitResponse } from '@/app/(public)/forms/[formId]/submit/actions';
 import { toast } from 'sonner';
 import { useRouter } from 'next/navigation';
 import type { FormWithQuestions } from '@/lib/types/form.types';
 import type { Question } from '@/lib/types/question.types';
-import type { FormResponse, AnswerValue } from '@/lib/types/response.types';
+import type { FormResponse, AnswerValue, BotCheck } from '@/lib/types/response.types';
 import type { LogicEvaluationResult } from '@/lib/types/advanced-logic.types';
 import { isConditionallyRequired } from '@/lib/utils/advanced-logic-evaluator';
+import { getRequiredAnswerError } from '@/lib/validations/response.validation';
+import { groupQuestionsIntoPages, resolveSectionPath } from '@/lib/utils/form-sections';
 
 interface ScrollModeProps {
   form: FormWithQuestions;
@@ -19,6 +22,8 @@ interface ScrollModeProps {
   answers: FormResponse;
   onAnswerChange: (answers: FormResponse) => void;
   advancedLogicResult: LogicEvaluationResult | null;
+  // Honeypot and proof of work for bot-protected forms
+  getBotCheck?: () => Promise<BotCheck | undefined>;
 }
 
 export function ScrollMode({
@@ -28,10 +33,31 @@ export function ScrollMode({
   answers,
   onAnswerChange,
   advancedLogicResult,
+  getBotCheck,
 }: ScrollModeProps) {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+  const [currentPage, setCurrentPage] = useState(0);
+
+  // One page per section on the respondent's path; forms without sections are a single page
+  const pages = useMemo(() => {
+    const visibleIds = new Set(visibleQuestions.map((q) => q.id));
+    const { path } = resolveSectionPath(
+      groupQuestionsIntoPages(form.questions || [], form.sections),
+      advancedLogicResult?.sectionJumps ?? new Map()
+    );
+
+    return path
+      .map((page) => ({ ...page, questions: page.questions.filter((q) => visibleIds.has(q.id)) }))
+      .filter((page) => page.questions.length > 0);
+  }, [form.questions, form.sections, visibleQuestions, advancedLogicResult]);
+
+  // Answers can shorten the path, so keep the page index in range
+  const pageIndex = Math.min(currentPage, Math.max(pages.length - 1, 0));
+  const page = pages[pageIndex];
+  const isLastPage = pageIndex >= pages.length - 1;
+  const progress = pages.length > 0 ? ((pageIndex + 1) / pages.length) * 100 : 0;
 
   console.log('[ScrollMode] Rendering with:', {
     formId: form.id,
@@ -55,73 +81,77 @@ export function ScrollMode({
     await saveAnswer(responseId, questionId, value);
   };
 
-  const validateForm = (): boolean => {
+  const validateQuestions = (questions: Question[]): Record<string, string> => {
     const errors: Record<string, string> = {};
 
-    visibleQuestions.forEach((question) => {
+    questions.forEach((question) => {
       // Check if question is required (considering conditional logic)
       const isRequired = advancedLogicResult
         ? isConditionallyRequired(question.id, advancedLogicResult, question.required)
         : question.required;
 
       if (isRequired) {
-        const answer = answers[question.id];
-
-        // Check if answer exists and is not empty
-        if (!answer) {
-          errors[question.id] = 'This question is required';
-        } else {
-          // Validate based on question type
-          if (question.type === 'short_text' || question.type === 'long_text') {
-            if (!answer.text || answer.text.trim() === '') {
-              errors[question.id] = 'This question is required';
-            }
-          } else if (question.type === 'multiple_choice' || question.type === 'dropdown') {
-            if (!answer.choice_id) {
-              errors[question.id] = 'Please select an option';
-            }
-          } else if (question.type === 'checkboxes') {
-            if (!answer.choice_ids || answer.choice_ids.length === 0) {
-              errors[question.id] = 'Please select at least one option';
-            }
-          } else if (question.type === 'linear_scale') {
-            if (answer.scale_value === undefined || answer.scale_value === null) {
-              errors[question.id] = 'Please select a value';
-            }
-          } else if (question.type === 'date_time') {
-            if (!answer.date) {
-              errors[question.id] = 'Please select a date';
-            }
-          } else if (question.type === 'matrix') {
-            if (!answer.matrix_values || Object.keys(answer.matrix_values).length === 0) {
-              errors[question.id] = 'Please answer all rows';
-            }
-          }
+        const error = getRequiredAnswerError(question, answers[question.id]);
+        if (error) {
+          errors[question.id] = error;
         }
       }
     });
 
-    setValidationErrors(errors);
-    return Object.keys(errors).length === 0;
+    return errors;
   };
 
-  const handleSubmit = async () => {
-    if (!validateForm()) {
+  const scrollToQuestion = (questionId: string) => {
+    const element = document.getElementById(`question-${questionId}`);
+    element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const validatePage = (questions: Question[]): boolean => {
+    const errors = validateQuestions(questions);
+    setValidationErrors(errors);
+
+    const firstErrorQuestionId = Object.keys(errors)[0];
+    if (firstErrorQuestionId) {
       toast.error('Please answer all required questions');
-      // Scroll to first error
-      const firstErrorQuestionId = Object.keys(validationErrors)[0];
-      const element = document.getElementById(`question-${firstErrorQuestionId}`);
-      element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
-      return;
+      scrollToQuestion(firstErrorQuestionId);
+      return false;
     }
+    return true;
+  };
+
+  const handleNextPage = () => {
+    if (!page || !validatePage(page.questions)) return;
+    setCurrentPage(pageIndex + 1);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handlePreviousPage = () => {
+    setCurrentPage(Math.max(pageIndex - 1, 0));
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleSubmit = async () => {
+    if (!validatePage(visibleQuestions)) return;
 
     setIsSubmitting(true);
 
-    const result = await submitResponse(responseId);
+    const result = await submitResponse(responseId, await getBotCheck?.());
 
     if (result.error) {
       toast.error(result.error);
       setIsSubmitting(false);
+
+      // Show per-question errors from server-side validation
+      if ('questionErrors' in result && result.questionErrors) {
+        const questionErrors = result.questionErrors;
+        setValidationErrors(questionErrors);
+
+        // Go back to the page with the first error
+        const errorPage = pages.findIndex((p) => p.questions.some((q) => questionErrors[q.id]));
+        if (errorPage >= 0) setCurrentPage(errorPage);
+        const firstErrorQuestionId = Object.keys(questionErrors)[0];
+        setTimeout(() => scrollToQuestion(firstErrorQuestionId), 0);
+      }
     } else {
       toast.success('Form submitted successfully!');
       // Clear localStorage
@@ -141,15 +171,49 @@ export function ScrollMode({
         )}
       </div>
 
+      {/* Section Progress */}
+      {pages.length > 1 && (
+        <div className="mb-6" aria-live="polite">
+          <div className="flex items-center justify-between text-sm text-slate-500 mb-2">
+            <span>Section {pageIndex + 1} of {pages.length}</span>
+            <span>{Math.round(progress)}%</span>
+          </div>
+          <div
+            className="h-2 bg-slate-200 rounded-full overflow-hidden"
+            role="progressbar"
+            aria-valuenow={pageIndex + 1}
+            aria-valuemin={1}
+            aria-valuemax={pages.length}
+          >
+            <div
+              className="h-full bg-blue-600 transition-all duration-300 ease-out"
+              style={{ width: `${progress}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Section Header */}
+      {page?.section && (page.section.title || page.section.description) && (
+        <div className="mb-6">
+          {page.section.title && (
+            <h2 className="text-2xl font-semibold mb-2">{page.section.title}</h2>
+          )}
+          {page.section.description && (
+            <p className="text-slate-600 whitespace-pre-wrap">{page.section.description}</p>
+          )}
+        </div>
+      )}
+
       {/* Questions */}
       <div className="space-y-6">
-        {visibleQuestions.length === 0 ? (
+        {!page ? (
           <div className="backdrop-blur-sm bg-white/90 rounded-xl border-2 border-slate-200 p-8 text-center">
             <p className="text-slate-600 mb-2">No questions available in this form.</p>
             <p className="text-sm text-slate-500">The form owner needs to add questions before it can be filled out.</p>
           </div>
         ) : (
-          visibleQuestions.map((question, index) => (
+          page.questions.map((question) => (
             <div
               key={question.id}
               id={`question-${question.id}`}
@@ -157,7 +221,7 @@ export function ScrollMode({
             >
               <QuestionRenderer
                 question={question}
-                questionNumber={index + 1}
+                questionNumber={visibleQuestions.indexOf(question) + 1}
                 value={answers[question.id]}
                 onChange={(value) => handleAnswerChange(question.id, value)}
                 error={validationErrors[question.id]}
@@ -169,16 +233,32 @@ export function ScrollMode({
         )}
       </div>
 
-      {/* Submit Button */}
-      <div className="mt-8 flex justify-end">
-        <Button
-          size="lg"
-          onClick={handleSubmit}
-          disabled={isSubmitting}
-          className="px-8"
-        >
-          {isSubmitting ? 'Submitting...' : 'Submit'}
-        </Button>
+      {/* Navigation */}
+      <div className="mt-8 flex items-center justify-between">
+        {pageIndex > 0 ? (
+          <Button variant="outline" onClick={handlePreviousPage} aria-label="Previous section">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+        ) : (
+          <div />
+        )}
+
+        {isLastPage ? (
+          <Button
+            size="lg"
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+            className="px-8"
+          >
+            {isSubmitting ? 'Submitting...' : 'Submit'}
+          </Button>
+        ) : (
+          <Button size="lg" onClick={handleNextPage} aria-label="Next section">
+            Next
+            <ArrowRight className="h-4 w-4 ml-2" />
+          </Button>
+        )}
       </div>
 
       {/* Footer */}
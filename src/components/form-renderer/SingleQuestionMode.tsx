@@ -9,9 +9,10 @@ import { useRouter } from 'next/navigation';
 import { ArrowLeft, ArrowRight, Check } from 'lucide-react';
 import type { FormWithQuestions } from '@/lib/types/form.types';
 import type { Question } from '@/lib/types/question.types';
-import type { FormResponse, AnswerValue } from '@/lib/types/response.types';
+import type { FormResponse, AnswerValue, BotCheck } from '@/lib/types/response.types';
 import type { LogicEvaluationResult } from '@/lib/types/advanced-logic.types';
 import { isConditionallyRequired } from '@/lib/utils/advanced-logic-evaluator';
+import { getRequiredAnswerError } from '@/lib/validations/response.validation';
 
 interface SingleQuestionModeProps {
   form: FormWithQuestions;
@@ -20,6 +21,8 @@ interface SingleQuestionModeProps {
   answers: FormResponse;
   onAnswerChange: (answers: FormResponse) => void;
   advancedLogicResult: LogicEvaluationResult | null;
+  // Honeypot and proof of work for bot-protected forms
+  getBotCheck?: () => Promise<BotCheck | undefined>;
 }
 
 export function SingleQuestionMode({
@@ -29,6 +32,7 @@ export function SingleQuestionMode({
   answers,
   onAnswerChange,
   advancedLogicResult,
+  getBotCheck,
 }: SingleQuestionModeProps) {
   const router = useRouter();
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
@@ -72,46 +76,12 @@ export function SingleQuestionMode({
 
     if (!isRequired) return true;
 
-    const answer = answers[currentQuestion.id];
-
-    if (!answer) {
-      setValidationError('This question is required');
+    const error = getRequiredAnswerError(currentQuestion, answers[currentQuestion.id]);
+    if (error) {
+      setValidationError(error);
       return false;
     }
 
-    // Validate based on question type
-    if (currentQuestion.type === 'short_text' || currentQuestion.type === 'long_text') {
-      if (!answer.text || answer.text.trim() === '') {
-        setValidationError('This question is required');
-        return false;
-      }
-    } else if (currentQuestion.type === 'multiple_choice' || currentQuestion.type === 'dropdown') {
-      if (!answer.choice_id) {
-        setValidationError('Please select an option');
-        return false;
-      }
-    } else if (currentQuestion.type === 'checkboxes') {
-      if (!answer.choice_ids || answer.choice_ids.length === 0) {
-        setValidationError('Please select at least one option');
-        return false;
-      }
-    } else if (currentQuestion.type === 'linear_scale') {
-      if (answer.scale_value === undefined || answer.scale_value === null) {
-        setValidationError('Please select a value');
-        return false;
-      }
-    } else if (currentQuestion.type === 'date_time') {
-      if (!answer.date) {
-        setValidationError('Please select a date');
-        return false;
-      }
-    } else if (currentQuestion.type === 'matrix') {
-      if (!answer.matrix_values || Object.keys(answer.matrix_values).length === 0) {
-        setValidationError('Please answer all rows');
-        return false;
-      }
-    }
-
     return true;
   };
 
@@ -142,11 +112,21 @@ export function SingleQuestionMode({
 
     setIsSubmitting(true);
 
-    const result = await submitResponse(responseId);
+    const result = await submitResponse(responseId, await getBotCheck?.());
 
     if (result.error) {
       toast.error(result.error);
       setIsSubmitting(false);
+
+      // Jump back to the first question the server rejected
+      if ('questionErrors' in result && result.questionErrors) {
+        const questionErrors = result.questionErrors;
+        const firstErrorIndex = visibleQuestions.findIndex((q) => questionErrors[q.id]);
+        if (firstErrorIndex !== -1) {
+          setCurrentQuestionIndex(firstErrorIndex);
+          setValidationError(questionErrors[visibleQuestions[firstErrorIndex].id]);
+        }
+      }
     } else {
       toast.success('Form submitted successfully!');
       // Clear localStorage
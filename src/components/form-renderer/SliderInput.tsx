@@ -0,0 +1,79 @@
+'use client';
+
+import type { SliderOptions } from '@/lib/types/question.types';
+import type { AnswerValue } from '@/lib/types/response.types';
+
+interface SliderInputProps {
+  questionId: string;
+  options: SliderOptions;
+  value: AnswerValue;
+  onChange: (value: AnswerValue) => void;
+  error?: string;
+  ariaDescribedBy?: string;
+  autoFocus?: boolean;
+}
+
+export function SliderInput({
+  questionId,
+  options,
+  value,
+  onChange,
+  error,
+  ariaDescribedBy,
+  autoFocus,
+}: SliderInputProps) {
+  const min = options.min ?? 0;
+  const max = options.max ?? 100;
+  const step = options.step ?? 1;
+  const showValue = options.showValue ?? true;
+
+  const hasAnswer = typeof value.slider_value === 'number';
+  const currentValue = hasAnswer
+    ? (value.slider_value as number)
+    : options.defaultValue ?? min;
+
+  const minLabel = options.minLabel || min.toString();
+  const maxLabel = options.maxLabel || max.toString();
+
+  return (
+    <div className="space-y-3 max-w-xl">
+      <div className="flex items-center justify-between text-sm text-slate-600" aria-hidden="true">
+        <span>{minLabel}</span>
+        <span>{maxLabel}</span>
+      </div>
+      <input
+        id={`${questionId}-slider`}
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={currentValue}
+        onChange={(e) => onChange({ slider_value: parseFloat(e.target.value) })}
+        // Clicking the thumb at its default position fires no change event,
+        // so commit the displayed value explicitly
+        onPointerUp={() => {
+          if (!hasAnswer) onChange({ slider_value: currentValue });
+        }}
+        className="w-full accent-blue-600 cursor-pointer"
+        autoFocus={autoFocus}
+        aria-labelledby={`${questionId}-title`}
+        aria-describedby={ariaDescribedBy}
+        aria-invalid={!!error}
+        aria-valuemin={min}
+        aria-valuemax={max}
+        aria-valuenow={currentValue}
+      />
+      {showValue && (
+        <div className="text-center" aria-live="polite">
+          {hasAnswer ? (
+            <span className="inline-block px-3 py-1 rounded-md bg-blue-50 border border-blue-200 text-blue-700 font-semibold">
+              {currentValue}
+            </span>
+          ) : (
+            <span className="text-xs text-slate-500">Drag the slider to select a value</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
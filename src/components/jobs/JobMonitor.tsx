@@ -6,7 +6,13 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { RefreshCw, Trash2, CheckCircle, XCircle, Clock, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
-import { getAllQueueStats, cleanupOldJobs } from '@/app/(dashboard)/jobs/actions';
+import {
+  getAllQueueStats,
+  cleanupOldJobs,
+  getRecentExportJobs,
+  getAnalyticsCacheStats,
+} from '@/app/(dashboard)/jobs/actions';
+import type { AnalyticsCacheStats } from '@/lib/cache/analytics-cache';
 
 interface QueueStats {
   waiting: number;
@@ -22,10 +28,25 @@ interface AllQueueStats {
   analytics: QueueStats;
   export: QueueStats;
   notifications: QueueStats;
+  webhooks: QueueStats;
+}
+
+interface ExportJobStatus {
+  id: string;
+  formId: string;
+  format: string;
+  status: 'waiting' | 'delayed' | 'active' | 'completed' | 'failed';
+  progress: number;
+  attemptsMade: number;
+  error: string | null;
+  createdAt: string;
+  finishedAt: string | null;
 }
 
 export function JobMonitor() {
   const [stats, setStats] = useState<AllQueueStats | null>(null);
+  const [exportJobs, setExportJobs] = useState<ExportJobStatus[]>([]);
+  const [cacheStats, setCacheStats] = useState<AnalyticsCacheStats | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isCleaning, setIsCleaning] = useState(false);
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
@@ -33,13 +54,23 @@ export function JobMonitor() {
   const fetchStats = async () => {
     setIsRefreshing(true);
     try {
-      const result = await getAllQueueStats();
+      const [result, exportsResult, cacheResult] = await Promise.all([
+        getAllQueueStats(),
+        getRecentExportJobs(),
+        getAnalyticsCacheStats(),
+      ]);
       if (result.error) {
         toast.error(result.error);
       } else if (result.data) {
         setStats(result.data);
         setLastUpdate(new Date());
       }
+      if (exportsResult.data) {
+        setExportJobs(exportsResult.data);
+      }
+      if (cacheResult.data) {
+        setCacheStats(cacheResult.data);
+      }
     } catch (error) {
       console.error('Error fetching queue stats:', error);
       toast.error('Failed to fetch queue statistics');
@@ -55,7 +86,7 @@ export function JobMonitor() {
       if (result.error) {
         toast.error(result.error);
       } else {
-        toast.success('Old jobs cleaned up successfully');
+        toast.success(`Cleaned up ${result.removed} old job${result.removed === 1 ? '' : 's'}`);
         await fetchStats(); // Refresh stats
       }
     } catch (error) {
@@ -81,6 +112,21 @@ export function JobMonitor() {
     return 'text-green-600';
   };
 
+  const getExportStatusBadge = (status: ExportJobStatus['status']) => {
+    switch (status) {
+      case 'completed':
+        return <Badge className="bg-green-100 text-green-700 hover:bg-green-100">Completed</Badge>;
+      case 'failed':
+        return <Badge variant="destructive">Failed</Badge>;
+      case 'active':
+        return <Badge className="bg-blue-100 text-blue-700 hover:bg-blue-100">Running</Badge>;
+      case 'delayed':
+        return <Badge variant="secondary">Retrying</Badge>;
+      default:
+        return <Badge variant="secondary">Waiting</Badge>;
+    }
+  };
+
   const renderQueueCard = (name: string, queueStats: QueueStats, icon: string) => (
     <Card key={name}>
       <CardHeader>
@@ -202,12 +248,111 @@ export function JobMonitor() {
           {renderQueueCard('Analytics', stats.analytics, '📊')}
           {renderQueueCard('Export', stats.export, '📥')}
           {renderQueueCard('Notifications', stats.notifications, '🔔')}
+          {renderQueueCard('Webhooks', stats.webhooks, '🔗')}
         </div>
       ) : (
         <div className="flex items-center justify-center py-12">
           <Loader2 className="h-8 w-8 animate-spin text-slate-400" />
         </div>
       )}
+
+      {/* Analytics Cache */}
+      {cacheStats && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-lg">Analytics Cache</CardTitle>
+                <CardDescription>
+                  Counters for this server since {new Date(cacheStats.since).toLocaleString()}
+                </CardDescription>
+              </div>
+              <Badge variant="secondary">
+                {cacheStats.provider === 'redis' ? 'Redis' : 'In-memory'}
+              </Badge>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <div className="space-y-1">
+                <p className="text-xs text-slate-500">Hit Rate</p>
+                <span className="text-lg font-semibold">{(cacheStats.hitRate * 100).toFixed(1)}%</span>
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs text-slate-500">Hits</p>
+                <span className="text-lg font-semibold">{cacheStats.hits}</span>
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs text-slate-500">Misses</p>
+                <span className="text-lg font-semibold">{cacheStats.misses}</span>
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs text-slate-500">Cached Entries</p>
+                <span className="text-lg font-semibold">{cacheStats.analyticsKeys}</span>
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs text-slate-500">Invalidations</p>
+                <span className="text-lg font-semibold">{cacheStats.invalidations}</span>
+              </div>
+            </div>
+            {cacheStats.errors > 0 && (
+              <div className="mt-4 pt-4 border-t border-slate-200">
+                <Badge variant="destructive" className="text-xs">
+                  {cacheStats.errors} cache error{cacheStats.errors === 1 ? '' : 's'}
+                </Badge>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Recent Exports */}
+      {stats && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Recent Exports</CardTitle>
+            <CardDescription>Response exports generated in the background</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {exportJobs.length === 0 ? (
+              <p className="text-sm text-slate-500">No exports yet</p>
+            ) : (
+              <div className="space-y-4">
+                {exportJobs.map((job) => (
+                  <div key={job.id} className="space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium uppercase">{job.format}</span>
+                        <span className="text-slate-500">form {job.formId.slice(0, 8)}</span>
+                        <span className="text-slate-400">
+                          {new Date(job.createdAt).toLocaleString()}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-slate-600">{job.progress}%</span>
+                        {getExportStatusBadge(job.status)}
+                      </div>
+                    </div>
+                    <div className="h-2 w-full rounded-full bg-slate-100 overflow-hidden">
+                      <div
+                        className={`h-full rounded-full transition-all ${
+                          job.status === 'failed' ? 'bg-red-500' : 'bg-blue-600'
+                        }`}
+                        style={{ width: `${job.progress}%` }}
+                      />
+                    </div>
+                    {job.error && (
+                      <p className="text-xs text-red-600">
+                        {job.error} (attempt {job.attemptsMade})
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
\ No newline at end of file
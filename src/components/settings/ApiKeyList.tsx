@@ -0,0 +1,149 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { Ban, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { deleteApiKey, revokeApiKey } from '@/app/(dashboard)/settings/api-keys/actions';
+import { isApiKeyActive } from '@/lib/utils/api-keys';
+import type { ApiKey } from '@/lib/types/api-key.types';
+import { toast } from 'sonner';
+
+interface ApiKeyListProps {
+  apiKeys: ApiKey[];
+}
+
+function formatRelative(date: string | null, fallback: string) {
+  return date ? formatDistanceToNow(new Date(date), { addSuffix: true }) : fallback;
+}
+
+export function ApiKeyList({ apiKeys }: ApiKeyListProps) {
+  const router = useRouter();
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    setPendingId(apiKey.id);
+    try {
+      const result = await revokeApiKey(apiKey.id);
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(`Revoked "${apiKey.name}"`);
+      router.refresh();
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleDelete = async (apiKey: ApiKey) => {
+    setPendingId(apiKey.id);
+    try {
+      const result = await deleteApiKey(apiKey.id);
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      router.refresh();
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead>Key</TableHead>
+          <TableHead>Scopes</TableHead>
+          <TableHead>Last used</TableHead>
+          <TableHead>Expires</TableHead>
+          <TableHead className="w-[1%]" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {apiKeys.map((apiKey) => {
+          const isActive = isApiKeyActive(apiKey);
+
+          return (
+            <TableRow key={apiKey.id} className={isActive ? undefined : 'opacity-60'}>
+              <TableCell className="font-medium">
+                {apiKey.name}
+                {!isActive && (
+                  <Badge variant="outline" className="ml-2">
+                    {apiKey.revoked_at ? 'Revoked' : 'Expired'}
+                  </Badge>
+                )}
+              </TableCell>
+              <TableCell>
+                <code className="text-xs">{apiKey.key_prefix}…</code>
+              </TableCell>
+              <TableCell>
+                <div className="flex flex-wrap gap-1">
+                  {apiKey.scopes.map((scope) => (
+                    <Badge key={scope} variant="secondary" className="font-mono text-xs">
+                      {scope}
+                    </Badge>
+                  ))}
+                </div>
+              </TableCell>
+              <TableCell className="text-sm text-slate-600">{formatRelative(apiKey.last_used_at, 'Never')}</TableCell>
+              <TableCell className="text-sm text-slate-600">{formatRelative(apiKey.expires_at, 'Never')}</TableCell>
+              <TableCell>
+                {isActive ? (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700" disabled={pendingId === apiKey.id}>
+                        <Ban className="mr-2 h-4 w-4" />
+                        Revoke
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Revoke &quot;{apiKey.name}&quot;?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Requests using this key will be rejected straight away. This cannot be undone.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleRevoke(apiKey)} className="bg-red-600 hover:bg-red-700">
+                          Revoke
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(apiKey)}
+                    disabled={pendingId === apiKey.id}
+                    aria-label={`Delete ${apiKey.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,179 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Copy, KeyRound, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { createApiKey } from '@/app/(dashboard)/settings/api-keys/actions';
+import { API_KEY_SCOPES, API_KEY_SCOPE_DESCRIPTIONS } from '@/lib/utils/api-keys';
+import type { ApiKeyScope } from '@/lib/types/api-key.types';
+import { toast } from 'sonner';
+
+const EXPIRY_OPTIONS = [
+  { value: 'never', label: 'Never' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+];
+
+export function CreateApiKeyDialog() {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['forms:read', 'responses:read']);
+  const [expiry, setExpiry] = useState('90');
+  const [isLoading, setIsLoading] = useState(false);
+  const [plaintextKey, setPlaintextKey] = useState<string | null>(null);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      // The key can't be shown again once the dialog is closed
+      setPlaintextKey(null);
+      setName('');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const result = await createApiKey({
+        name,
+        scopes,
+        expiresInDays: expiry === 'never' ? undefined : Number(expiry),
+      });
+      if (result.error || !result.data) {
+        toast.error(result.error || 'Failed to create API key');
+        return;
+      }
+      setPlaintextKey(result.data.plaintextKey);
+      router.refresh();
+    } catch {
+      toast.error('Failed to create API key');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!plaintextKey) return;
+    await navigator.clipboard.writeText(plaintextKey);
+    toast.success('API key copied');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button>
+          <Plus className="mr-2 h-4 w-4" />
+          New API Key
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        {plaintextKey ? (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <KeyRound className="h-5 w-5" />
+                Copy your API key
+              </DialogTitle>
+              <DialogDescription>
+                This is the only time the key is shown. Store it somewhere safe; if you lose it, revoke it
+                and create a new one.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="flex items-center gap-2 py-4">
+              <code className="flex-1 break-all rounded bg-slate-100 px-3 py-2 text-sm">{plaintextKey}</code>
+              <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy API key">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <DialogFooter>
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>Create API Key</DialogTitle>
+              <DialogDescription>
+                Keys act as you, limited to the scopes you choose and to the forms you can access.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="api-key-name">
+                  Name <span className="text-red-500">*</span>
+                </Label>
+                <Input
+                  id="api-key-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Reporting pipeline"
+                  maxLength={100}
+                  required
+                  disabled={isLoading}
+                  autoFocus
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label>Scopes</Label>
+                {API_KEY_SCOPES.map((scope) => (
+                  <div key={scope} className="flex items-start gap-2">
+                    <Checkbox
+                      id={`api-key-scope-${scope}`}
+                      checked={scopes.includes(scope)}
+                      onCheckedChange={(checked) =>
+                        setScopes(checked ? [...scopes, scope] : scopes.filter((s) => s !== scope))
+                      }
+                      disabled={isLoading}
+                    />
+                    <Label htmlFor={`api-key-scope-${scope}`} className="grid gap-0.5 font-normal cursor-pointer">
+                      <code className="text-xs font-semibold">{scope}</code>
+                      <span className="text-xs text-slate-500">{API_KEY_SCOPE_DESCRIPTIONS[scope]}</span>
+                    </Label>
+                  </div>
+                ))}
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="api-key-expiry">Expires</Label>
+                <Select value={expiry} onValueChange={setExpiry} disabled={isLoading}>
+                  <SelectTrigger id="api-key-expiry">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={isLoading || !name.trim() || scopes.length === 0}>
+                {isLoading ? 'Creating...' : 'Create'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,260 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, UserPlus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  addFormCollaborator,
+  getFormCollaborators,
+  removeFormCollaborator,
+  setFormWorkspace,
+  updateFormCollaboratorRole,
+} from '@/app/(dashboard)/forms/[formId]/collaborators/actions';
+import { getWorkspaces } from '@/app/(dashboard)/workspaces/actions';
+import { FORM_ROLE_DESCRIPTIONS, FORM_ROLE_LABELS } from '@/lib/utils/form-permissions';
+import type { CollaboratorRole, WorkspaceWithRole } from '@/lib/types/workspace.types';
+
+type CollaboratorsData = NonNullable<Awaited<ReturnType<typeof getFormCollaborators>>['data']>;
+
+const COLLABORATOR_ROLES: CollaboratorRole[] = ['editor', 'analyst', 'viewer'];
+const NO_WORKSPACE = 'none';
+
+interface CollaboratorsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  formId: string;
+  formTitle: string;
+}
+
+/**
+ * Manage who a form is shared with and which workspace it belongs to
+ * Everyone with access can see the list; only the owner can change it.
+ */
+export function CollaboratorsDialog({ open, onOpenChange, formId, formTitle }: CollaboratorsDialogProps) {
+  const [data, setData] = useState<CollaboratorsData | null>(null);
+  const [workspaces, setWorkspaces] = useState<WorkspaceWithRole[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<CollaboratorRole>('viewer');
+  const [isInviting, setIsInviting] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    Promise.all([getFormCollaborators(formId), getWorkspaces()]).then(([collaborators, workspaceList]) => {
+      if (cancelled) return;
+      if (collaborators.error || !collaborators.data) {
+        toast.error(collaborators.error || 'Failed to load collaborators');
+        return;
+      }
+      setData(collaborators.data);
+      // Forms can only move into workspaces the owner can edit in
+      setWorkspaces(
+        (workspaceList.data || []).filter((workspace) => workspace.role === 'owner' || workspace.role === 'editor')
+      );
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, formId, reloadKey]);
+
+  const reload = () => setReloadKey((key) => key + 1);
+  const canManage = data?.currentRole === 'owner';
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsInviting(true);
+    try {
+      const result = await addFormCollaborator(formId, email, role);
+      if (result.error) {
+        toast.error(result.error);
+      } else {
+        toast.success(`Shared with ${email}`);
+        setEmail('');
+        reload();
+      }
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (userId: string, newRole: CollaboratorRole) => {
+    const result = await updateFormCollaboratorRole(formId, userId, newRole);
+    if (result.error) {
+      toast.error(result.error);
+    } else {
+      toast.success('Role updated');
+      reload();
+    }
+  };
+
+  const handleRemove = async (userId: string) => {
+    const result = await removeFormCollaborator(formId, userId);
+    if (result.error) {
+      toast.error(result.error);
+      return;
+    }
+
+    if (userId === data?.currentUserId) {
+      toast.success('You left this form');
+      onOpenChange(false);
+    } else {
+      toast.success('Collaborator removed');
+      reload();
+    }
+  };
+
+  const handleWorkspaceChange = async (value: string) => {
+    const result = await setFormWorkspace(formId, value === NO_WORKSPACE ? null : value);
+    if (result.error) {
+      toast.error(result.error);
+    } else {
+      toast.success(value === NO_WORKSPACE ? 'Form removed from workspace' : 'Form moved to workspace');
+      reload();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Collaborators</DialogTitle>
+          <DialogDescription>Who can work on &quot;{formTitle}&quot;</DialogDescription>
+        </DialogHeader>
+
+        {!data ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {canManage && (
+              <form onSubmit={handleInvite} className="space-y-2">
+                <Label htmlFor="collaborator-email">Invite by email</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="collaborator-email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="colleague@example.com"
+                    required
+                  />
+                  <Select value={role} onValueChange={(value) => setRole(value as CollaboratorRole)}>
+                    <SelectTrigger className="w-32" aria-label="Role">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {COLLABORATOR_ROLES.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {FORM_ROLE_LABELS[option]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button type="submit" disabled={isInviting || !email}>
+                    {isInviting ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+                  </Button>
+                </div>
+                <p className="text-xs text-slate-500">{FORM_ROLE_DESCRIPTIONS[role]}</p>
+              </form>
+            )}
+
+            <ul className="divide-y divide-slate-200 rounded-lg border border-slate-200">
+              <li className="flex items-center justify-between p-3">
+                <span className="text-sm text-slate-900">{data.ownerEmail || 'Unknown user'}</span>
+                <Badge>{FORM_ROLE_LABELS.owner}</Badge>
+              </li>
+              {data.collaborators.map((collaborator) => (
+                <li key={collaborator.user_id} className="flex items-center justify-between gap-2 p-3">
+                  <span className="text-sm text-slate-900 truncate">
+                    {collaborator.email || 'Unknown user'}
+                    {collaborator.user_id === data.currentUserId && (
+                      <span className="text-slate-500"> (you)</span>
+                    )}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    {canManage ? (
+                      <Select
+                        value={collaborator.role}
+                        onValueChange={(value) => handleRoleChange(collaborator.user_id, value as CollaboratorRole)}
+                      >
+                        <SelectTrigger className="h-8 w-28" aria-label={`Role for ${collaborator.email}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {COLLABORATOR_ROLES.map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {FORM_ROLE_LABELS[option]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="secondary">{FORM_ROLE_LABELS[collaborator.role]}</Badge>
+                    )}
+                    {(canManage || collaborator.user_id === data.currentUserId) && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => handleRemove(collaborator.user_id)}
+                        aria-label={
+                          collaborator.user_id === data.currentUserId ? 'Leave form' : `Remove ${collaborator.email}`
+                        }
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            {canManage && (
+              <div className="space-y-2">
+                <Label>Workspace</Label>
+                <Select value={data.workspaceId ?? NO_WORKSPACE} onValueChange={handleWorkspaceChange}>
+                  <SelectTrigger aria-label="Workspace">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_WORKSPACE}>No workspace</SelectItem>
+                    {workspaces.map((workspace) => (
+                      <SelectItem key={workspace.id} value={workspace.id}>
+                        {workspace.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-slate-500">
+                  Workspace members get their workspace role on this form.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
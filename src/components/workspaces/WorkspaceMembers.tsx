@@ -0,0 +1,160 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, UserPlus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import {
+  addWorkspaceMember,
+  removeWorkspaceMember,
+  updateWorkspaceMemberRole,
+} from '@/app/(dashboard)/workspaces/actions';
+import { FORM_ROLES, FORM_ROLE_DESCRIPTIONS, FORM_ROLE_LABELS } from '@/lib/utils/form-permissions';
+import type { WorkspaceMember, WorkspaceRole } from '@/lib/types/workspace.types';
+
+interface WorkspaceMembersProps {
+  workspaceId: string;
+  members: WorkspaceMember[];
+  currentUserId: string;
+  canManage: boolean;
+}
+
+export function WorkspaceMembers({ workspaceId, members, currentUserId, canManage }: WorkspaceMembersProps) {
+  const router = useRouter();
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<WorkspaceRole>('viewer');
+  const [isInviting, setIsInviting] = useState(false);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsInviting(true);
+    try {
+      const result = await addWorkspaceMember(workspaceId, email, role);
+      if (result.error) {
+        toast.error(result.error);
+      } else {
+        toast.success(`Added ${email}`);
+        setEmail('');
+        router.refresh();
+      }
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (userId: string, newRole: WorkspaceRole) => {
+    const result = await updateWorkspaceMemberRole(workspaceId, userId, newRole);
+    if (result.error) {
+      toast.error(result.error);
+    } else {
+      toast.success('Role updated');
+      router.refresh();
+    }
+  };
+
+  const handleRemove = async (userId: string) => {
+    const result = await removeWorkspaceMember(workspaceId, userId);
+    if (result.error) {
+      toast.error(result.error);
+      return;
+    }
+
+    if (userId === currentUserId) {
+      toast.success('You left the workspace');
+      router.push('/workspaces');
+    } else {
+      toast.success('Member removed');
+      router.refresh();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {canManage && (
+        <form onSubmit={handleInvite} className="space-y-2">
+          <Label htmlFor="member-email">Add member by email</Label>
+          <div className="flex gap-2">
+            <Input
+              id="member-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="colleague@example.com"
+              required
+            />
+            <Select value={role} onValueChange={(value) => setRole(value as WorkspaceRole)}>
+              <SelectTrigger className="w-32" aria-label="Role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FORM_ROLES.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {FORM_ROLE_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={isInviting || !email}>
+              {isInviting ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+            </Button>
+          </div>
+          <p className="text-xs text-slate-500">{FORM_ROLE_DESCRIPTIONS[role]}</p>
+        </form>
+      )}
+
+      <ul className="divide-y divide-slate-200 rounded-lg border border-slate-200 bg-white">
+        {members.map((member) => (
+          <li key={member.user_id} className="flex items-center justify-between gap-2 p-3">
+            <span className="text-sm text-slate-900 truncate">
+              {member.email || 'Unknown user'}
+              {member.user_id === currentUserId && <span className="text-slate-500"> (you)</span>}
+            </span>
+            <div className="flex items-center gap-2">
+              {canManage ? (
+                <Select
+                  value={member.role}
+                  onValueChange={(value) => handleRoleChange(member.user_id, value as WorkspaceRole)}
+                >
+                  <SelectTrigger className="h-8 w-28" aria-label={`Role for ${member.email}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FORM_ROLES.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {FORM_ROLE_LABELS[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Badge variant="secondary">{FORM_ROLE_LABELS[member.role]}</Badge>
+              )}
+              {(canManage || member.user_id === currentUserId) && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => handleRemove(member.user_id)}
+                  aria-label={member.user_id === currentUserId ? 'Leave workspace' : `Remove ${member.email}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
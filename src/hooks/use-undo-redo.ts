@@ -16,14 +16,25 @@ export interface UndoRedoActions<T> {
   clear: () => void;
 }
 
-interface UseUndoRedoOptions {
+interface UseUndoRedoOptions<T> {
   maxHistorySize?: number; // Maximum number of states to keep in history
   debounceMs?: number; // Debounce time for automatic state saves
+  keyboardShortcuts?: boolean; // Ctrl/Cmd+Z, Ctrl+Y and Ctrl/Cmd+Shift+Z outside text fields
+  onUndoRedo?: (from: T, to: T) => void; // Called after undo or redo, e.g. to persist the step
+}
+
+// Text fields keep their own undo
+function isEditableTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+  );
 }
 
 /**
  * Hook for undo/redo functionality
- * Manages a history of states with undo and redo capabilities
+ * Manages a history of states with undo and redo capabilities. Changes made
+ * with `set` within `debounceMs` of each other are recorded as one step.
  *
  * @param initialState - The initial state
  * @param options - Configuration options
@@ -31,9 +42,9 @@ interface UseUndoRedoOptions {
  */
 export function useUndoRedo<T>(
   initialState: T,
-  options: UseUndoRedoOptions = {}
+  options: UseUndoRedoOptions<T> = {}
 ): [T, UndoRedoActions<T>] {
-  const { maxHistorySize = 50, debounceMs = 500 } = options;
+  const { maxHistorySize = 50, debounceMs = 500, keyboardShortcuts = true, onUndoRedo } = options;
 
   const [history, setHistory] = useState<HistoryState<T>>({
     past: [],
@@ -41,63 +52,20 @@ export function useUndoRedo<T>(
     future: [],
   });
 
+  // Mirrors `history` so undo/redo can report the states they move between
+  const historyRef = useRef(history);
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // The last state recorded in history; a debounced burst of changes starts from it
   const lastSavedStateRef = useRef<T>(initialState);
+  const onUndoRedoRef = useRef(onUndoRedo);
 
-  // Keyboard shortcuts
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      // Ctrl+Z or Cmd+Z for undo
-      if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey) {
-        e.preventDefault();
-        undo();
-      }
-      // Ctrl+Y or Cmd+Shift+Z for redo
-      else if (
-        ((e.ctrlKey || e.metaKey) && e.key === 'y') ||
-        ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key === 'z')
-      ) {
-        e.preventDefault();
-        redo();
-      }
-    };
+    onUndoRedoRef.current = onUndoRedo;
+  }, [onUndoRedo]);
 
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [history]);
-
-  const undo = useCallback(() => {
-    setHistory((currentHistory) => {
-      if (currentHistory.past.length === 0) {
-        return currentHistory;
-      }
-
-      const previous = currentHistory.past[currentHistory.past.length - 1];
-      const newPast = currentHistory.past.slice(0, currentHistory.past.length - 1);
-
-      return {
-        past: newPast,
-        present: previous,
-        future: [currentHistory.present, ...currentHistory.future],
-      };
-    });
-  }, []);
-
-  const redo = useCallback(() => {
-    setHistory((currentHistory) => {
-      if (currentHistory.future.length === 0) {
-        return currentHistory;
-      }
-
-      const next = currentHistory.future[0];
-      const newFuture = currentHistory.future.slice(1);
-
-      return {
-        past: [...currentHistory.past, currentHistory.present],
-        present: next,
-        future: newFuture,
-      };
-    });
+  const commit = useCallback((next: HistoryState<T>) => {
+    historyRef.current = next;
+    setHistory(next);
   }, []);
 
   const set = useCallback(
@@ -108,36 +76,33 @@ export function useUndoRedo<T>(
         debounceTimerRef.current = null;
       }
 
+      const current = historyRef.current;
+
       // Only save to history if the state actually changed
       if (JSON.stringify(newPresent) === JSON.stringify(lastSavedStateRef.current)) {
+        commit({ ...current, present: newPresent });
         return;
       }
 
-      setHistory((currentHistory) => {
-        // Limit past history size
-        let newPast = [...currentHistory.past, currentHistory.present];
-        if (newPast.length > maxHistorySize) {
-          newPast = newPast.slice(newPast.length - maxHistorySize);
-        }
-
-        return {
-          past: newPast,
-          present: newPresent,
-          future: clearFuture ? [] : currentHistory.future,
-        };
-      });
+      // Limit past history size
+      let newPast = [...current.past, lastSavedStateRef.current];
+      if (newPast.length > maxHistorySize) {
+        newPast = newPast.slice(newPast.length - maxHistorySize);
+      }
 
+      commit({
+        past: newPast,
+        present: newPresent,
+        future: clearFuture ? [] : current.future,
+      });
       lastSavedStateRef.current = newPresent;
     },
-    [maxHistorySize]
+    [maxHistorySize, commit]
   );
 
   const setDebounced = useCallback(
     (newPresent: T) => {
-      setHistory((currentHistory) => ({
-        ...currentHistory,
-        present: newPresent,
-      }));
+      commit({ ...historyRef.current, present: newPresent });
 
       // Clear existing timer
       if (debounceTimerRef.current) {
@@ -149,25 +114,107 @@ export function useUndoRedo<T>(
         set(newPresent, true);
       }, debounceMs);
     },
-    [debounceMs, set]
+    [debounceMs, set, commit]
   );
 
+  // Record a pending debounced change so undo steps back over it
+  const flush = useCallback(() => {
+    if (debounceTimerRef.current) {
+      set(historyRef.current.present, true);
+    }
+  }, [set]);
+
+  const undo = useCallback(() => {
+    flush();
+
+    const { past, present, future } = historyRef.current;
+    if (past.length === 0) {
+      return;
+    }
+
+    const previous = past[past.length - 1];
+    commit({
+      past: past.slice(0, past.length - 1),
+      present: previous,
+      future: [present, ...future],
+    });
+    lastSavedStateRef.current = previous;
+    onUndoRedoRef.current?.(present, previous);
+  }, [flush, commit]);
+
+  const redo = useCallback(() => {
+    flush();
+
+    const { past, present, future } = historyRef.current;
+    if (future.length === 0) {
+      return;
+    }
+
+    const next = future[0];
+    commit({
+      past: [...past, present],
+      present: next,
+      future: future.slice(1),
+    });
+    lastSavedStateRef.current = next;
+    onUndoRedoRef.current?.(present, next);
+  }, [flush, commit]);
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    if (!keyboardShortcuts) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isEditableTarget(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      // Ctrl+Z or Cmd+Z for undo
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      }
+      // Ctrl+Y or Cmd+Shift+Z for redo
+      else if (key === 'y' || (e.shiftKey && key === 'z')) {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [keyboardShortcuts, undo, redo]);
+
+  // Drop a pending debounced save on unmount
+  useEffect(() => {
+    return () => {
+      if (debounceTimerRef.current) {
+        clearTimeout(debounceTimerRef.current);
+      }
+    };
+  }, []);
+
   const reset = useCallback((newPresent: T) => {
-    setHistory({
+    if (debounceTimerRef.current) {
+      clearTimeout(debounceTimerRef.current);
+      debounceTimerRef.current = null;
+    }
+
+    commit({
       past: [],
       present: newPresent,
       future: [],
     });
     lastSavedStateRef.current = newPresent;
-  }, []);
+  }, [commit]);
 
   const clear = useCallback(() => {
-    setHistory((currentHistory) => ({
+    flush();
+    commit({
       past: [],
-      present: currentHistory.present,
+      present: historyRef.current.present,
       future: [],
-    }));
-  }, []);
+    });
+  }, [flush, commit]);
 
   return [
     history.present,
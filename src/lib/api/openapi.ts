@@ -0,0 +1,363 @@
+/**
+ * OpenAPI document for /api/v1
+ * Built from the operation list below; query parameters and request bodies
+ * are generated from the same zod schemas the routes validate with, so the
+ * document can't drift from what the API accepts.
+ */
+
+import { z } from 'zod';
+import {
+  apiAnalyticsQuerySchema,
+  apiCreateResponseSchema,
+  apiListResponsesQuerySchema,
+} from '@/lib/validations/api.validation';
+import { API_KEY_SCOPE_DESCRIPTIONS } from '@/lib/utils/api-keys';
+import type { ApiKeyScope } from '@/lib/types/api-key.types';
+
+type JsonSchema = Record<string, unknown>;
+
+interface ApiOperation {
+  method: 'get' | 'post';
+  path: string;
+  operationId: string;
+  summary: string;
+  scope: ApiKeyScope;
+  query?: z.ZodObject;
+  body?: z.ZodType;
+  // Component schema of `data` in a successful response
+  response: string;
+  successStatus?: number;
+  paginated?: boolean;
+}
+
+const OPERATIONS: ApiOperation[] = [
+  {
+    method: 'get',
+    path: '/forms',
+    operationId: 'listForms',
+    summary: 'List the forms you own or collaborate on',
+    scope: 'forms:read',
+    query: z.object({
+      include_archived: z.enum(['true', 'false']).optional().describe('Include archived forms'),
+    }),
+    response: 'FormSummaryList',
+  },
+  {
+    method: 'get',
+    path: '/forms/{formId}',
+    operationId: 'getForm',
+    summary: 'Get a form with its sections and questions',
+    scope: 'forms:read',
+    response: 'FormDetail',
+  },
+  {
+    method: 'get',
+    path: '/forms/{formId}/responses',
+    operationId: 'listResponses',
+    summary: "Page through a form's responses",
+    scope: 'responses:read',
+    query: apiListResponsesQuerySchema,
+    response: 'ResponseSummaryList',
+    paginated: true,
+  },
+  {
+    method: 'post',
+    path: '/forms/{formId}/responses',
+    operationId: 'createResponse',
+    summary: 'Record a completed response',
+    scope: 'responses:write',
+    body: apiCreateResponseSchema,
+    response: 'Response',
+    successStatus: 201,
+  },
+  {
+    method: 'get',
+    path: '/forms/{formId}/responses/{responseId}',
+    operationId: 'getResponse',
+    summary: 'Get a response with its answers',
+    scope: 'responses:read',
+    response: 'Response',
+  },
+  {
+    method: 'get',
+    path: '/forms/{formId}/analytics',
+    operationId: 'getAnalytics',
+    summary: 'Get response totals, per-question statistics and daily trends',
+    scope: 'analytics:read',
+    query: apiAnalyticsQuerySchema,
+    response: 'AnalyticsSummary',
+  },
+];
+
+const COMPONENT_SCHEMAS: Record<string, JsonSchema> = {
+  Error: {
+    type: 'object',
+    required: ['error'],
+    properties: {
+      error: { type: 'string' },
+      message: { type: 'string' },
+    },
+  },
+  FormSummary: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      title: { type: 'string' },
+      description: { type: ['string', 'null'] },
+      is_published: { type: 'boolean' },
+      is_archived: { type: ['boolean', 'null'] },
+      display_mode: { type: 'string', enum: ['single', 'scroll'] },
+      workspace_id: { type: ['string', 'null'], format: 'uuid' },
+      schedule_start: { type: ['string', 'null'], format: 'date-time' },
+      schedule_end: { type: ['string', 'null'], format: 'date-time' },
+      max_responses: { type: ['integer', 'null'] },
+      require_login: { type: 'boolean' },
+      created_at: { type: 'string', format: 'date-time' },
+      updated_at: { type: 'string', format: 'date-time' },
+      role: { type: 'string', enum: ['owner', 'editor', 'analyst', 'viewer'] },
+    },
+  },
+  FormSummaryList: { type: 'array', items: { $ref: '#/components/schemas/FormSummary' } },
+  FormDetail: {
+    allOf: [
+      { $ref: '#/components/schemas/FormSummary' },
+      {
+        type: 'object',
+        properties: {
+          sections: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                title: { type: 'string' },
+                description: { type: ['string', 'null'] },
+                order_index: { type: 'integer' },
+              },
+            },
+          },
+          questions: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                section_id: { type: ['string', 'null'], format: 'uuid' },
+                type: { type: 'string' },
+                title: { type: 'string' },
+                description: { type: ['string', 'null'] },
+                required: { type: 'boolean' },
+                order_index: { type: 'integer' },
+                options: { type: ['object', 'null'] },
+                logic_rules: { type: ['array', 'null'] },
+                advanced_logic_rules: { type: ['array', 'null'] },
+              },
+            },
+          },
+        },
+      },
+    ],
+  },
+  ResponseSummary: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      respondent_email: { type: ['string', 'null'] },
+      is_complete: { type: 'boolean' },
+      submitted_at: { type: ['string', 'null'], format: 'date-time' },
+      created_at: { type: 'string', format: 'date-time' },
+      is_flagged: { type: ['boolean', 'null'] },
+    },
+  },
+  ResponseSummaryList: { type: 'array', items: { $ref: '#/components/schemas/ResponseSummary' } },
+  Response: {
+    type: 'object',
+    description: 'Same shape as the response in webhook payloads',
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      respondent_email: { type: ['string', 'null'] },
+      respondent_name: { type: ['string', 'null'] },
+      is_complete: { type: 'boolean' },
+      started_at: { type: 'string', format: 'date-time' },
+      submitted_at: { type: ['string', 'null'], format: 'date-time' },
+      deleted_at: { type: ['string', 'null'], format: 'date-time' },
+      is_flagged: { type: 'boolean' },
+      flag_reason: { type: ['string', 'null'] },
+      answers: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            question_id: { type: 'string', format: 'uuid' },
+            question_title: { type: 'string' },
+            question_type: { type: 'string' },
+            value: {},
+            display_value: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+  AnalyticsSummary: {
+    type: 'object',
+    properties: {
+      summary: {
+        type: 'object',
+        properties: {
+          total_responses: { type: 'integer' },
+          completed_responses: { type: 'integer' },
+          incomplete_responses: { type: 'integer' },
+          deleted_responses: { type: 'integer' },
+          flagged_responses: { type: 'integer' },
+          first_response_at: { type: ['string', 'null'], format: 'date-time' },
+          latest_response_at: { type: ['string', 'null'], format: 'date-time' },
+          avg_completion_time_seconds: { type: ['number', 'null'] },
+          completion_rate_percent: { type: 'number' },
+        },
+      },
+      questions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            question_id: { type: 'string', format: 'uuid' },
+            question_title: { type: 'string' },
+            question_type: { type: 'string' },
+            required: { type: 'boolean' },
+            response_count: { type: 'integer' },
+            skip_count: { type: 'integer' },
+            numeric_avg: { type: ['number', 'null'] },
+            numeric_min: { type: ['number', 'null'] },
+            numeric_max: { type: ['number', 'null'] },
+          },
+        },
+      },
+      daily_trends: { type: 'array', items: { type: 'object' } },
+    },
+  },
+};
+
+function errorResponse(description: string) {
+  return {
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+  };
+}
+
+/**
+ * Query parameters from the properties of a zod object schema
+ */
+function queryParameters(schema: z.ZodObject) {
+  const json = z.toJSONSchema(schema, { io: 'input' }) as {
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+  };
+
+  return Object.entries(json.properties ?? {}).map(([name, property]) => {
+    const { description, ...propertySchema } = property;
+    return {
+      name,
+      in: 'query',
+      required: json.required?.includes(name) ?? false,
+      ...(description ? { description } : {}),
+      schema: propertySchema,
+    };
+  });
+}
+
+function pathParameters(path: string) {
+  return [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string', format: 'uuid' },
+  }));
+}
+
+function buildOperation(operation: ApiOperation) {
+  const dataSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      data: { $ref: `#/components/schemas/${operation.response}` },
+      ...(operation.paginated
+        ? {
+            next_cursor: { type: ['string', 'null'], description: 'Pass as cursor to get the next page' },
+            has_more: { type: 'boolean' },
+          }
+        : {}),
+    },
+  };
+
+  return {
+    operationId: operation.operationId,
+    summary: operation.summary,
+    description: `Requires the \`${operation.scope}\` scope.`,
+    security: [{ apiKey: [operation.scope] }],
+    parameters: [
+      ...pathParameters(operation.path),
+      ...(operation.query ? queryParameters(operation.query) : []),
+    ],
+    ...(operation.body
+      ? {
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: z.toJSONSchema(operation.body, { io: 'input' }) } },
+          },
+        }
+      : {}),
+    responses: {
+      [operation.successStatus ?? 200]: {
+        description: 'Success',
+        content: { 'application/json': { schema: dataSchema } },
+      },
+      400: errorResponse('Invalid query or request body'),
+      401: errorResponse('Missing, invalid, revoked or expired API key'),
+      403: errorResponse('The key lacks the scope, or your role on the form does not allow this'),
+      ...(operation.path.includes('{formId}') ? { 404: errorResponse('Form or response not found') } : {}),
+      ...(operation.method === 'post' ? { 422: errorResponse('Required answers are missing') } : {}),
+      429: errorResponse('Rate limit exceeded; see Retry-After'),
+    },
+  };
+}
+
+/**
+ * Build the document, with the server URL of the deployment serving it
+ */
+export function buildOpenApiDocument(origin: string) {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const operation of OPERATIONS) {
+    paths[operation.path] = {
+      ...paths[operation.path],
+      [operation.method]: buildOperation(operation),
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'StatQ API',
+      version: '1.0.0',
+      description:
+        'Read forms, responses and analytics, and record responses. Authenticate with a personal API key ' +
+        'created in Settings → API Keys, sent as `Authorization: Bearer <key>`. Requests are limited to ' +
+        '100 per minute per user; X-RateLimit-* headers report the remaining allowance.',
+    },
+    servers: [{ url: `${origin}/api/v1` }],
+    security: [{ apiKey: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        apiKey: {
+          type: 'http',
+          scheme: 'bearer',
+          description: Object.entries(API_KEY_SCOPE_DESCRIPTIONS)
+            .map(([scope, description]) => `\`${scope}\`: ${description}`)
+            .join('\n\n'),
+        },
+      },
+      schemas: COMPONENT_SCHEMAS,
+    },
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * /api/v1 request handling
+ * Every v1 route is wrapped in withApiKey, which authenticates the bearer API
+ * key, applies the apiEndpoint rate limit and checks the key's scope. Routes
+ * then run with the service-role client on behalf of the key's owner, so they
+ * must check form permissions themselves (requireFormPermission).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/utils/supabase/admin';
+import {
+  rateLimits,
+  getRateLimitIdentifier,
+  getRateLimitContext,
+  checkRateLimit,
+  getRateLimitHeaders,
+} from '@/lib/rate-limit/config';
+import { API_KEY_COLUMNS, isApiKeyActive } from '@/lib/utils/api-keys';
+import { getBearerApiKey, hashApiKey } from '@/lib/utils/server-api-keys';
+import { checkUserFormPermission } from '@/lib/utils/server-form-permissions';
+import type { FormPermission } from '@/lib/utils/form-permissions';
+import type { ApiKey, ApiKeyScope } from '@/lib/types/api-key.types';
+
+// Form columns the API exposes; password_hash and the legacy schema_json are left out
+export const API_FORM_COLUMNS =
+  'id, title, description, is_published, is_archived, display_mode, workspace_id, schedule_start, schedule_end, max_responses, require_login, created_at, updated_at';
+
+// last_used_at is only written when older than this, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface ApiContext {
+  request: NextRequest;
+  supabase: SupabaseClient;
+  apiKey: ApiKey;
+  userId: string;
+  // Rate limit headers, sent with every response
+  headers: Record<string, string>;
+}
+
+type RouteContext<P> = { params: Promise<P> };
+
+export function apiJson(ctx: Pick<ApiContext, 'headers'>, body: unknown, status: number = 200) {
+  return NextResponse.json(body, { status, headers: ctx.headers });
+}
+
+export function apiError(
+  ctx: Pick<ApiContext, 'headers'>,
+  status: number,
+  error: string,
+  extra: Record<string, unknown> = {}
+) {
+  return NextResponse.json({ error, ...extra }, { status, headers: ctx.headers });
+}
+
+/**
+ * Look up an active key by its plaintext value
+ */
+async function findApiKey(supabase: SupabaseClient, plaintextKey: string): Promise<ApiKey | null> {
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select(API_KEY_COLUMNS)
+    .eq('key_hash', hashApiKey(plaintextKey))
+    .maybeSingle();
+
+  if (error) {
+    console.error('[API v1] Error looking up API key:', error);
+    return null;
+  }
+
+  const apiKey = data as ApiKey | null;
+  return apiKey && isApiKeyActive(apiKey) ? apiKey : null;
+}
+
+async function touchApiKey(supabase: SupabaseClient, apiKey: ApiKey) {
+  if (apiKey.last_used_at && Date.now() - new Date(apiKey.last_used_at).getTime() < LAST_USED_RESOLUTION_MS) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('api_keys')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', apiKey.id);
+
+  if (error) {
+    console.error('[API v1] Failed to record API key use:', error);
+  }
+}
+
+/**
+ * Wrap a v1 route handler with API key authentication, rate limiting and a scope check
+ */
+export function withApiKey<P = Record<string, never>>(
+  scope: ApiKeyScope,
+  handler: (ctx: ApiContext, params: P) => Promise<NextResponse>
+) {
+  return async (request: NextRequest, { params }: RouteContext<P>): Promise<NextResponse> => {
+    const supabase = createAdminClient();
+
+    // Keys are looked up by hash outside RLS, which needs the service role
+    if (!supabase) {
+      return apiError({ headers: {} }, 503, 'API is not available', {
+        message: 'The server is not configured for API access.',
+      });
+    }
+
+    const plaintextKey = getBearerApiKey(request);
+    const apiKey = plaintextKey ? await findApiKey(supabase, plaintextKey) : null;
+
+    // Apply rate limiting (100 requests per minute per user, or per IP for bad keys)
+    const identifier = getRateLimitIdentifier(request, apiKey?.user_id);
+    const rateLimitResult = await checkRateLimit(rateLimits.apiEndpoint, identifier, getRateLimitContext(request));
+    const headers = getRateLimitHeaders(rateLimitResult);
+
+    if (!rateLimitResult.success) {
+      const retryAfter = Math.ceil((rateLimitResult.reset - Date.now()) / 1000);
+      return NextResponse.json(
+        {
+          error: 'Too many requests',
+          message: 'API rate limit exceeded. Please try again later.',
+          retryAfter,
+        },
+        { status: 429, headers: { ...headers, 'Retry-After': retryAfter.toString() } }
+      );
+    }
+
+    if (!apiKey) {
+      return NextResponse.json(
+        {
+          error: 'Unauthorized',
+          message: plaintextKey
+            ? 'The API key is invalid, revoked or expired.'
+            : 'Send an API key in the Authorization header: Bearer <key>.',
+        },
+        { status: 401, headers: { ...headers, 'WWW-Authenticate': 'Bearer' } }
+      );
+    }
+
+    const ctx: ApiContext = { request, supabase, apiKey, userId: apiKey.user_id, headers };
+
+    if (!apiKey.scopes.includes(scope)) {
+      return apiError(ctx, 403, 'Forbidden', { message: `This API key does not have the ${scope} scope.` });
+    }
+
+    await touchApiKey(supabase, apiKey);
+
+    try {
+      return await handler(ctx, await params);
+    } catch (error) {
+      console.error(`[API v1] Unexpected error in ${request.method} ${request.nextUrl.pathname}:`, error);
+      return apiError(ctx, 500, 'An unexpected error occurred');
+    }
+  };
+}
+
+/**
+ * Check the key's owner has a permission on a form
+ * Returns the error response to send, or null when allowed. Missing forms and
+ * forms the user cannot see are both 404s so ids can't be probed.
+ */
+export async function requireFormPermission(
+  ctx: ApiContext,
+  formId: string,
+  permission: FormPermission
+): Promise<NextResponse | null> {
+  const check = await checkUserFormPermission(ctx.supabase, formId, ctx.userId, permission);
+
+  if (check.allowed) {
+    return null;
+  }
+
+  return check.role
+    ? apiError(ctx, 403, 'Forbidden', { message: `Your role on this form does not allow this (${permission}).` })
+    : apiError(ctx, 404, 'Form not found');
+}
@@ -1,15 +1,10 @@
 /**
  * Analytics Caching Layer
- * Uses Redis to cache computed statistics for better performance
+ * Caches computed statistics through the cache provider (Redis or in-memory LRU).
+ * Every entry is tagged with its form so one call invalidates all of a form's stats.
  */
 
-import { Redis } from '@upstash/redis';
-
-// Initialize Upstash Redis client
-const redis = new Redis({
-  url: process.env.UPSTASH_REDIS_REST_URL || '',
-  token: process.env.UPSTASH_REDIS_REST_TOKEN || '',
-});
+import { getCacheProvider, type CacheProvider } from './provider';
 
 /**
  * Cache key prefixes
@@ -35,6 +30,17 @@ const CACHE_TTL = {
   QUALITY_METRICS: 180, // 3 minutes
 } as const;
 
+/**
+ * Hit/miss counters for this server process
+ */
+const counters = {
+  hits: 0,
+  misses: 0,
+  errors: 0,
+  invalidations: 0,
+  since: new Date().toISOString(),
+};
+
 /**
  * Generate cache key
  */
@@ -42,37 +48,66 @@ function getCacheKey(prefix: string, identifier: string): string {
   return `${prefix}:${identifier}`;
 }
 
+function getFormTag(formId: string): string {
+  return `analytics:form:${formId}`;
+}
+
+async function readCache<T>(key: string, label: string): Promise<T | null> {
+  try {
+    const cached = await getCacheProvider().get<T>(key);
+    if (cached !== null) {
+      counters.hits++;
+    } else {
+      counters.misses++;
+    }
+    return cached;
+  } catch (error) {
+    counters.errors++;
+    console.error(`Error getting cached ${label}:`, error);
+    return null;
+  }
+}
+
+async function writeCache(
+  key: string,
+  ttl: number,
+  formId: string,
+  data: unknown,
+  label: string
+): Promise<void> {
+  try {
+    await getCacheProvider().set(key, data, ttl, [getFormTag(formId)]);
+  } catch (error) {
+    counters.errors++;
+    console.error(`Error caching ${label}:`, error);
+  }
+}
+
 /**
  * Get cached data or compute and cache it
+ * Errors thrown by computeFn propagate; cache errors fall back to computing
  */
 export async function getCachedOrCompute<T>(
   cacheKey: string,
   ttl: number,
-  computeFn: () => Promise<T>
+  computeFn: () => Promise<T>,
+  formId?: string
 ): Promise<T> {
-  try {
-    // Try to get from cache
-    const cached = await redis.get<T>(cacheKey);
-
-    if (cached !== null) {
-      console.log(`Cache HIT: ${cacheKey}`);
-      return cached;
-    }
-
-    console.log(`Cache MISS: ${cacheKey}`);
-
-    // Compute the value
-    const computed = await computeFn();
+  const cached = await readCache<T>(cacheKey, cacheKey);
+  if (cached !== null) {
+    return cached;
+  }
 
-    // Store in cache
-    await redis.setex(cacheKey, ttl, computed);
+  const computed = await computeFn();
 
-    return computed;
+  try {
+    await getCacheProvider().set(cacheKey, computed, ttl, formId ? [getFormTag(formId)] : []);
   } catch (error) {
+    counters.errors++;
     console.error('Cache error:', error);
-    // Fall back to computing without cache
-    return await computeFn();
   }
+
+  return computed;
 }
 
 /**
@@ -80,11 +115,7 @@ export async function getCachedOrCompute<T>(
  */
 export async function cacheFormStats(formId: string, data: unknown): Promise<void> {
   const key = getCacheKey(CACHE_KEYS.FORM_STATS, formId);
-  try {
-    await redis.setex(key, CACHE_TTL.FORM_STATS, data);
-  } catch (error) {
-    console.error('Error caching form stats:', error);
-  }
+  await writeCache(key, CACHE_TTL.FORM_STATS, formId, data, 'form stats');
 }
 
 /**
@@ -92,12 +123,7 @@ export async function cacheFormStats(formId: string, data: unknown): Promise<voi
  */
 export async function getCachedFormStats<T>(formId: string): Promise<T | null> {
   const key = getCacheKey(CACHE_KEYS.FORM_STATS, formId);
-  try {
-    return await redis.get<T>(key);
-  } catch (error) {
-    console.error('Error getting cached form stats:', error);
-    return null;
-  }
+  return readCache<T>(key, 'form stats');
 }
 
 /**
@@ -105,11 +131,7 @@ export async function getCachedFormStats<T>(formId: string): Promise<T | null> {
  */
 export async function cacheQuestionStats(formId: string, data: unknown): Promise<void> {
   const key = getCacheKey(CACHE_KEYS.QUESTION_STATS, formId);
-  try {
-    await redis.setex(key, CACHE_TTL.QUESTION_STATS, data);
-  } catch (error) {
-    console.error('Error caching question stats:', error);
-  }
+  await writeCache(key, CACHE_TTL.QUESTION_STATS, formId, data, 'question stats');
 }
 
 /**
@@ -117,12 +139,7 @@ export async function cacheQuestionStats(formId: string, data: unknown): Promise
  */
 export async function getCachedQuestionStats<T>(formId: string): Promise<T | null> {
   const key = getCacheKey(CACHE_KEYS.QUESTION_STATS, formId);
-  try {
-    return await redis.get<T>(key);
-  } catch (error) {
-    console.error('Error getting cached question stats:', error);
-    return null;
-  }
+  return readCache<T>(key, 'question stats');
 }
 
 /**
@@ -130,11 +147,7 @@ export async function getCachedQuestionStats<T>(formId: string): Promise<T | nul
  */
 export async function cacheDailyTrends(formId: string, days: number, data: unknown): Promise<void> {
   const key = getCacheKey(CACHE_KEYS.DAILY_TRENDS, `${formId}:${days}`);
-  try {
-    await redis.setex(key, CACHE_TTL.DAILY_TRENDS, data);
-  } catch (error) {
-    console.error('Error caching daily trends:', error);
-  }
+  await writeCache(key, CACHE_TTL.DAILY_TRENDS, formId, data, 'daily trends');
 }
 
 /**
@@ -142,53 +155,72 @@ export async function cacheDailyTrends(formId: string, days: number, data: unkno
  */
 export async function getCachedDailyTrends<T>(formId: string, days: number): Promise<T | null> {
   const key = getCacheKey(CACHE_KEYS.DAILY_TRENDS, `${formId}:${days}`);
-  try {
-    return await redis.get<T>(key);
-  } catch (error) {
-    console.error('Error getting cached daily trends:', error);
-    return null;
-  }
+  return readCache<T>(key, 'daily trends');
+}
+
+/**
+ * Cache question abandonment statistics
+ */
+export async function cacheAbandonmentStats(formId: string, data: unknown): Promise<void> {
+  const key = getCacheKey(CACHE_KEYS.ABANDONMENT, formId);
+  await writeCache(key, CACHE_TTL.ABANDONMENT, formId, data, 'abandonment stats');
+}
+
+/**
+ * Get cached question abandonment statistics
+ */
+export async function getCachedAbandonmentStats<T>(formId: string): Promise<T | null> {
+  const key = getCacheKey(CACHE_KEYS.ABANDONMENT, formId);
+  return readCache<T>(key, 'abandonment stats');
 }
 
 /**
  * Cache answer frequency
  */
-export async function cacheAnswerFrequency(questionId: string, data: unknown): Promise<void> {
-  const key = getCacheKey(CACHE_KEYS.ANSWER_FREQ, questionId);
-  try {
-    await redis.setex(key, CACHE_TTL.ANSWER_FREQ, data);
-  } catch (error) {
-    console.error('Error caching answer frequency:', error);
-  }
+export async function cacheAnswerFrequency(formId: string, questionId: string, data: unknown): Promise<void> {
+  const key = getCacheKey(CACHE_KEYS.ANSWER_FREQ, `${formId}:${questionId}`);
+  await writeCache(key, CACHE_TTL.ANSWER_FREQ, formId, data, 'answer frequency');
 }
 
 /**
  * Get cached answer frequency
  */
-export async function getCachedAnswerFrequency<T>(questionId: string): Promise<T | null> {
-  const key = getCacheKey(CACHE_KEYS.ANSWER_FREQ, questionId);
-  try {
-    return await redis.get<T>(key);
-  } catch (error) {
-    console.error('Error getting cached answer frequency:', error);
-    return null;
-  }
+export async function getCachedAnswerFrequency<T>(formId: string, questionId: string): Promise<T | null> {
+  const key = getCacheKey(CACHE_KEYS.ANSWER_FREQ, `${formId}:${questionId}`);
+  return readCache<T>(key, 'answer frequency');
+}
+
+/**
+ * Cache response quality metrics
+ */
+export async function cacheQualityMetrics(formId: string, data: unknown): Promise<void> {
+  const key = getCacheKey(CACHE_KEYS.QUALITY_METRICS, formId);
+  await writeCache(key, CACHE_TTL.QUALITY_METRICS, formId, data, 'quality metrics');
+}
+
+/**
+ * Get cached response quality metrics
+ */
+export async function getCachedQualityMetrics<T>(formId: string): Promise<T | null> {
+  const key = getCacheKey(CACHE_KEYS.QUALITY_METRICS, formId);
+  return readCache<T>(key, 'quality metrics');
 }
 
 /**
  * Invalidate all caches for a form
- * Call this when a new response is submitted or modified
+ * Call this when a response is saved, submitted or deleted, or questions change.
+ * Never throws, so it is safe to call after a write has succeeded.
  */
 export async function invalidateFormCaches(formId: string): Promise<void> {
   try {
-    const pattern = `*:${formId}*`;
-    const keys = await redis.keys(pattern);
+    const removed = await getCacheProvider().invalidateTag(getFormTag(formId));
+    counters.invalidations++;
 
-    if (keys.length > 0) {
-      await redis.del(...keys);
-      console.log(`Invalidated ${keys.length} cache keys for form ${formId}`);
+    if (removed > 0) {
+      console.log(`Invalidated ${removed} cache keys for form ${formId}`);
     }
   } catch (error) {
+    counters.errors++;
     console.error('Error invalidating form caches:', error);
   }
 }
@@ -196,37 +228,52 @@ export async function invalidateFormCaches(formId: string): Promise<void> {
 /**
  * Invalidate cache for a specific question
  */
-export async function invalidateQuestionCache(questionId: string): Promise<void> {
-  const key = getCacheKey(CACHE_KEYS.ANSWER_FREQ, questionId);
+export async function invalidateQuestionCache(formId: string, questionId: string): Promise<void> {
+  const key = getCacheKey(CACHE_KEYS.ANSWER_FREQ, `${formId}:${questionId}`);
   try {
-    await redis.del(key);
+    await getCacheProvider().delete(key);
   } catch (error) {
+    counters.errors++;
     console.error('Error invalidating question cache:', error);
   }
 }
 
+export interface AnalyticsCacheStats {
+  provider: CacheProvider['type'];
+  analyticsKeys: number;
+  hits: number;
+  misses: number;
+  errors: number;
+  invalidations: number;
+  hitRate: number;
+  since: string;
+}
+
 /**
  * Get cache statistics
+ * Counters cover this server process since it started; key counts come from the provider
  */
-export async function getCacheStats(): Promise<{
-  totalKeys: number;
-  analyticsKeys: number;
-}> {
-  try {
-    const allKeys = await redis.keys('*');
-    const analyticsKeys = await redis.keys('analytics:*');
+export async function getCacheStats(): Promise<AnalyticsCacheStats> {
+  const provider = getCacheProvider();
+  const lookups = counters.hits + counters.misses;
 
-    return {
-      totalKeys: allKeys.length,
-      analyticsKeys: analyticsKeys.length,
-    };
+  let analyticsKeys = 0;
+  try {
+    analyticsKeys = await provider.count('analytics:');
   } catch (error) {
     console.error('Error getting cache stats:', error);
-    return {
-      totalKeys: 0,
-      analyticsKeys: 0,
-    };
   }
+
+  return {
+    provider: provider.type,
+    analyticsKeys,
+    hits: counters.hits,
+    misses: counters.misses,
+    errors: counters.errors,
+    invalidations: counters.invalidations,
+    hitRate: lookups > 0 ? counters.hits / lookups : 0,
+    since: counters.since,
+  };
 }
 
 /**
@@ -235,12 +282,7 @@ export async function getCacheStats(): Promise<{
  */
 export async function clearAllAnalyticsCaches(): Promise<number> {
   try {
-    const keys = await redis.keys('analytics:*');
-    if (keys.length > 0) {
-      await redis.del(...keys);
-      return keys.length;
-    }
-    return 0;
+    return await getCacheProvider().clear('analytics:');
   } catch (error) {
     console.error('Error clearing analytics caches:', error);
     return 0;
@@ -0,0 +1,135 @@
+/**
+ * In-memory cache provider
+ * LRU cache with per-entry TTLs, used when Redis is not configured.
+ * Entries live in this process only, so each server instance has its own cache.
+ */
+
+import type { CacheProvider } from './provider';
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+  tags: string[];
+}
+
+export class MemoryCacheProvider implements CacheProvider {
+  readonly type = 'memory' as const;
+  // Map iteration order is insertion order, so the first key is the least recently used
+  private entries = new Map<string, CacheEntry>();
+  private tagIndex = new Map<string, Set<string>>();
+
+  constructor(private maxEntries: number = 1000) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.remove(key);
+      return null;
+    }
+
+    // Mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    // Hand out a copy so callers can't mutate the cached value
+    return structuredClone(entry.value) as T;
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number, tags: string[] = []): Promise<void> {
+    this.remove(key);
+
+    this.entries.set(key, {
+      value: structuredClone(value),
+      expiresAt: Date.now() + ttlSeconds * 1000,
+      tags,
+    });
+
+    for (const tag of tags) {
+      let keys = this.tagIndex.get(tag);
+      if (!keys) {
+        keys = new Set();
+        this.tagIndex.set(tag, keys);
+      }
+      keys.add(key);
+    }
+
+    this.evict();
+  }
+
+  async delete(key: string): Promise<void> {
+    this.remove(key);
+  }
+
+  async invalidateTag(tag: string): Promise<number> {
+    const keys = this.tagIndex.get(tag);
+    if (!keys) return 0;
+
+    const count = keys.size;
+    for (const key of Array.from(keys)) {
+      this.remove(key);
+    }
+    this.tagIndex.delete(tag);
+
+    return count;
+  }
+
+  async clear(prefix: string): Promise<number> {
+    let removed = 0;
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(prefix)) {
+        this.remove(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async count(prefix: string): Promise<number> {
+    this.purgeExpired();
+
+    let count = 0;
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) count++;
+    }
+    return count;
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    this.entries.delete(key);
+    for (const tag of entry.tags) {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys && keys.size === 0) {
+        this.tagIndex.delete(tag);
+      }
+    }
+  }
+
+  /**
+   * Drop expired entries first, then least recently used ones until under the limit
+   */
+  private evict(): void {
+    if (this.entries.size <= this.maxEntries) return;
+
+    this.purgeExpired();
+
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.remove(key);
+    }
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [key, entry] of Array.from(this.entries)) {
+      if (entry.expiresAt <= now) {
+        this.remove(key);
+      }
+    }
+  }
+}
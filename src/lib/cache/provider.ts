@@ -0,0 +1,54 @@
+/**
+ * Cache Provider
+ * Key/value cache with TTLs and tag-based invalidation.
+ * Uses Upstash Redis when configured, otherwise an in-process LRU cache.
+ */
+
+import { MemoryCacheProvider } from './memory';
+import { RedisCacheProvider } from './redis';
+
+export interface CacheProvider {
+  readonly type: 'redis' | 'memory';
+  get<T>(key: string): Promise<T | null>;
+  /**
+   * Store a value for `ttlSeconds`. Tags group keys so they can be
+   * invalidated together (e.g. everything computed for one form).
+   */
+  set<T>(key: string, value: T, ttlSeconds: number, tags?: string[]): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Remove every key stored with the tag; returns the number removed */
+  invalidateTag(tag: string): Promise<number>;
+  /** Remove every key starting with the prefix; returns the number removed */
+  clear(prefix: string): Promise<number>;
+  /** Number of keys starting with the prefix */
+  count(prefix: string): Promise<number>;
+}
+
+let provider: CacheProvider | null = null;
+
+/**
+ * Check if Upstash Redis is configured
+ */
+export function isRedisConfigured(): boolean {
+  return !!(process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN);
+}
+
+/**
+ * Get the shared cache provider
+ */
+export function getCacheProvider(): CacheProvider {
+  if (!provider) {
+    if (isRedisConfigured()) {
+      provider = new RedisCacheProvider(
+        process.env.UPSTASH_REDIS_REST_URL!,
+        process.env.UPSTASH_REDIS_REST_TOKEN!
+      );
+    } else {
+      const maxEntries = parseInt(process.env.CACHE_MAX_ENTRIES || '1000', 10);
+      provider = new MemoryCacheProvider(Number.isFinite(maxEntries) && maxEntries > 0 ? maxEntries : 1000);
+      console.log('Upstash Redis not configured, using in-memory cache');
+    }
+  }
+
+  return provider;
+}
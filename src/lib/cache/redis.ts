@@ -0,0 +1,73 @@
+/**
+ * Redis cache provider
+ * Backed by Upstash Redis, shared by every server instance.
+ * Tags are stored as Redis sets of the keys written with them.
+ */
+
+import { Redis } from '@upstash/redis';
+import type { CacheProvider } from './provider';
+
+const TAG_PREFIX = 'cache-tag:';
+
+// Tag sets outlive their keys; deleting an already-expired key is harmless
+const TAG_TTL_SECONDS = 24 * 60 * 60;
+
+export class RedisCacheProvider implements CacheProvider {
+  readonly type = 'redis' as const;
+  private redis: Redis;
+
+  constructor(url: string, token: string) {
+    this.redis = new Redis({ url, token });
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    return this.redis.get<T>(key);
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number, tags: string[] = []): Promise<void> {
+    const pipeline = this.redis.pipeline();
+    pipeline.set(key, value, { ex: ttlSeconds });
+    for (const tag of tags) {
+      pipeline.sadd(TAG_PREFIX + tag, key);
+      pipeline.expire(TAG_PREFIX + tag, TAG_TTL_SECONDS);
+    }
+    await pipeline.exec();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.redis.del(key);
+  }
+
+  async invalidateTag(tag: string): Promise<number> {
+    const keys = await this.redis.smembers(TAG_PREFIX + tag);
+    const removed = keys.length > 0 ? await this.redis.del(...keys) : 0;
+    await this.redis.del(TAG_PREFIX + tag);
+    return removed;
+  }
+
+  async clear(prefix: string): Promise<number> {
+    const keys = await this.scanKeys(prefix);
+    return keys.length > 0 ? this.redis.del(...keys) : 0;
+  }
+
+  async count(prefix: string): Promise<number> {
+    const keys = await this.scanKeys(prefix);
+    return keys.length;
+  }
+
+  /**
+   * SCAN instead of KEYS so large databases aren't blocked
+   */
+  private async scanKeys(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+
+    do {
+      const [next, batch] = await this.redis.scan(cursor, { match: `${prefix}*`, count: 500 });
+      keys.push(...batch);
+      cursor = String(next);
+    } while (cursor !== '0');
+
+    return keys;
+  }
+}
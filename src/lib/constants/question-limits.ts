@@ -26,5 +26,8 @@ export const MAX_QUESTIONS_PER_FORM = 100; // Limit to prevent performance issue
 export const MAX_FORM_TITLE_LENGTH = 200;
 export const MAX_FORM_DESCRIPTION_LENGTH = 1000;
 
+// Questionnaire import
+export const MAX_QUESTIONNAIRE_FILE_SIZE_MB = 4; // Kept under the server action body limit
+
 // Auto-save delay (milliseconds)
 export const AUTOSAVE_DELAY = 3000;
@@ -70,6 +70,27 @@ export const QUESTION_TYPE_CONFIG = {
     color: 'text-red-500',
     bgColor: 'bg-red-50',
   },
+  file_upload: {
+    label: 'File Upload',
+    icon: Upload,
+    description: 'Upload one or more files',
+    color: 'text-cyan-500',
+    bgColor: 'bg-cyan-50',
+  },
+  ranking: {
+    label: 'Ranking',
+    icon: ListOrdered,
+    description: 'Order items by preference',
+    color: 'text-amber-500',
+    bgColor: 'bg-amber-50',
+  },
+  slider: {
+    label: 'Slider',
+    icon: Sliders,
+    description: 'Pick a value on a range',
+    color: 'text-teal-500',
+    bgColor: 'bg-teal-50',
+  },
 } as const;
 
 export const QUESTION_TYPES: QuestionType[] = [
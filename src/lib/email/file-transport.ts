@@ -0,0 +1,36 @@
+/**
+ * File email transport
+ * Writes each message as an .eml file instead of delivering it.
+ * Useful in development and tests: open the files in any mail client.
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { buildMimeMessage } from './mime';
+import { DEFAULT_FROM_ADDRESS, type EmailMessage, type EmailSendResult, type EmailTransport } from './types';
+
+export class FileTransport implements EmailTransport {
+  readonly name = 'file';
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const { messageId, raw } = buildMimeMessage({
+      ...message,
+      from: message.from || DEFAULT_FROM_ADDRESS,
+    });
+
+    await mkdir(this.directory, { recursive: true });
+
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}_${safeRecipient}.eml`;
+    const location = path.join(this.directory, fileName);
+
+    await writeFile(location, raw, 'utf8');
+
+    return { messageId, transport: this.name, location };
+  }
+}
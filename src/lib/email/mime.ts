@@ -0,0 +1,99 @@
+/**
+ * MIME message builder
+ * Produces RFC 5322 messages (multipart/alternative text + HTML) shared by the
+ * SMTP transport and the .eml file transport
+ */
+
+import { randomBytes } from 'crypto';
+import type { EmailMessage } from './types';
+
+export interface BuiltMessage {
+  messageId: string;
+  raw: string;
+}
+
+/**
+ * Extract the bare address from "Name <address>" style strings
+ */
+export function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded-word when it is not plain ASCII
+ */
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return value;
+  }
+  return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Base64-encode a body, wrapped at 76 characters per RFC 2045
+ */
+function encodeBody(content: string): string {
+  const encoded = Buffer.from(content, 'utf8').toString('base64');
+  return encoded.match(/.{1,76}/g)?.join('\r\n') ?? '';
+}
+
+/**
+ * Derive a plain-text alternative from HTML when none is given
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(br|\/p|\/div|\/h[1-6]|\/li|\/tr)\s*\/?>/gi, '\n')
+    .replace(/<a [^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/gi, '$2 ($1)')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Build a complete MIME message (headers and body, CRLF line endings)
+ */
+export function buildMimeMessage(message: EmailMessage & { from: string }): BuiltMessage {
+  const domain = extractAddress(message.from).split('@')[1] || 'localhost';
+  const messageId = `<${Date.now()}.${randomBytes(8).toString('hex')}@${domain}>`;
+  const boundary = `----=_StatQ_${randomBytes(12).toString('hex')}`;
+  const text = message.text ?? htmlToText(message.html);
+
+  const headers = [
+    `From: ${encodeHeader(message.from)}`,
+    `To: ${encodeHeader(message.to)}`,
+    ...(message.replyTo ? [`Reply-To: ${encodeHeader(message.replyTo)}`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+  ];
+
+  const body = [
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+    '',
+  ];
+
+  return {
+    messageId,
+    raw: [...headers, '', ...body].join('\r\n'),
+  };
+}
@@ -0,0 +1,217 @@
+/**
+ * SMTP email transport
+ * Minimal SMTP client over node:net / node:tls supporting implicit TLS (port 465),
+ * STARTTLS upgrades and AUTH PLAIN / AUTH LOGIN
+ */
+
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import { buildMimeMessage, extractAddress } from './mime';
+import { DEFAULT_FROM_ADDRESS, type EmailMessage, type EmailSendResult, type EmailTransport } from './types';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS; otherwise STARTTLS is used when the server offers it
+  user?: string;
+  pass?: string;
+  allowInsecureAuth?: boolean; // Send AUTH even when the server offers no STARTTLS
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * One SMTP session over a socket: sends commands and reads (multi-line) replies
+ */
+class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = '';
+  private replyLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiters: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket, timeoutMs: number) {
+    this.socket = socket;
+    this.attach(socket, timeoutMs);
+  }
+
+  private attach(socket: net.Socket, timeoutMs: number) {
+    socket.setEncoding('utf8');
+    socket.setTimeout(timeoutMs);
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('timeout', () => this.fail(new Error('SMTP connection timed out')));
+    socket.on('error', (error: Error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed unexpectedly')));
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+
+    let newlineIndex: number;
+    while ((newlineIndex = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, newlineIndex);
+      this.buffer = this.buffer.slice(newlineIndex + 2);
+      this.replyLines.push(line.slice(4));
+
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        const reply = { code: Number(line.slice(0, 3)), lines: this.replyLines };
+        this.replyLines = [];
+        const waiter = this.waiters.shift();
+        if (waiter) {
+          waiter.resolve(reply);
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    if (this.failure) return;
+    this.failure = error;
+    this.waiters.forEach((waiter) => waiter.reject(error));
+    this.waiters = [];
+  }
+
+  /**
+   * Read the next reply and check it has one of the expected codes
+   */
+  async read(expected: number[]): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    const reply = queued ?? await new Promise<SmtpReply>((resolve, reject) => {
+      if (this.failure) {
+        reject(this.failure);
+        return;
+      }
+      this.waiters.push({ resolve, reject });
+    });
+
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP error ${reply.code}: ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  /**
+   * Send a command and read its reply
+   */
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.read(expected);
+  }
+
+  /**
+   * Upgrade the connection to TLS (after a successful STARTTLS)
+   */
+  async upgrade(host: string, timeoutMs: number): Promise<void> {
+    this.socket.removeAllListeners();
+
+    const secureSocket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const upgraded = tls.connect({ socket: this.socket, servername: host }, () => resolve(upgraded));
+      upgraded.once('error', reject);
+    });
+
+    this.socket = secureSocket;
+    this.buffer = '';
+    this.attach(secureSocket, timeoutMs);
+  }
+
+  write(data: string) {
+    this.socket.write(data);
+  }
+
+  close() {
+    this.socket.removeAllListeners();
+    this.socket.on('error', () => {}); // Ignore errors while tearing down
+    this.socket.end();
+  }
+}
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private config: SmtpConfig;
+
+  constructor(config: SmtpConfig) {
+    this.config = config;
+  }
+
+  private connect(): Promise<net.Socket> {
+    const { host, port, secure } = this.config;
+
+    return new Promise((resolve, reject) => {
+      const socket: net.Socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+        : net.connect({ host, port }, () => resolve(socket));
+      socket.once('error', reject);
+    });
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const from = message.from || DEFAULT_FROM_ADDRESS;
+    const { messageId, raw } = buildMimeMessage({ ...message, from });
+    const timeoutMs = this.config.timeoutMs ?? 30000;
+    const clientName = os.hostname() || 'localhost';
+
+    const connection = new SmtpConnection(await this.connect(), timeoutMs);
+
+    try {
+      await connection.read([220]);
+      let ehlo = await connection.command(`EHLO ${clientName}`, [250]);
+      let encrypted = this.config.secure;
+
+      if (!encrypted && ehlo.lines.some((line) => line.toUpperCase().startsWith('STARTTLS'))) {
+        await connection.command('STARTTLS', [220]);
+        await connection.upgrade(this.config.host, timeoutMs);
+        ehlo = await connection.command(`EHLO ${clientName}`, [250]);
+        encrypted = true;
+      }
+
+      if (this.config.user) {
+        // AUTH PLAIN and LOGIN are only base64, so never send them in the clear by accident
+        if (!encrypted && !this.config.allowInsecureAuth) {
+          throw new Error(
+            `SMTP server ${this.config.host} does not offer STARTTLS; refusing to send credentials unencrypted (set SMTP_ALLOW_INSECURE=true to allow)`
+          );
+        }
+        await this.authenticate(connection, ehlo.lines);
+      }
+
+      await connection.command(`MAIL FROM:<${extractAddress(from)}>`, [250]);
+      await connection.command(`RCPT TO:<${extractAddress(message.to)}>`, [250, 251]);
+      await connection.command('DATA', [354]);
+
+      // Dot-stuff lines starting with "." and terminate with <CRLF>.<CRLF>
+      connection.write(`${raw.replace(/\r\n\./g, '\r\n..')}\r\n.\r\n`);
+      await connection.read([250]);
+
+      await connection.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+
+    return { messageId, transport: this.name };
+  }
+
+  private async authenticate(connection: SmtpConnection, capabilities: string[]) {
+    const user = this.config.user ?? '';
+    const pass = this.config.pass ?? '';
+    const authLine = capabilities.find((line) => line.toUpperCase().startsWith('AUTH')) ?? '';
+
+    if (/\bPLAIN\b/i.test(authLine) || !/\bLOGIN\b/i.test(authLine)) {
+      const token = Buffer.from(`\u0000${user}\u0000${pass}`, 'utf8').toString('base64');
+      await connection.command(`AUTH PLAIN ${token}`, [235]);
+      return;
+    }
+
+    await connection.command('AUTH LOGIN', [334]);
+    await connection.command(Buffer.from(user, 'utf8').toString('base64'), [334]);
+    await connection.command(Buffer.from(pass, 'utf8').toString('base64'), [235]);
+  }
+}
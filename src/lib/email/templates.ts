@@ -0,0 +1,169 @@
+/**
+ * Email templates for notification types
+ * Each template renders a subject, an HTML body and a plain-text body
+ */
+
+import type { NotificationJob } from '@/lib/jobs/queue';
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface FormResponseEmailData {
+  formId: string;
+  formTitle: string;
+  responseId: string;
+  respondentName?: string | null;
+  respondentEmail?: string | null;
+  submittedAt: string;
+}
+
+export interface FormPublishedEmailData {
+  formId: string;
+  formTitle: string;
+}
+
+export interface ExportReadyEmailData {
+  formId: string;
+  formTitle: string;
+  format: string;
+  downloadUrl: string;
+  expiresAt?: string;
+}
+
+export interface NotificationEmailData {
+  form_response: FormResponseEmailData;
+  form_published: FormPublishedEmailData;
+  export_ready: ExportReadyEmailData;
+}
+
+/**
+ * Base URL used for links in emails
+ */
+export function getAppUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Wrap template content in the shared email layout
+ */
+function layout(heading: string, paragraphs: string[], action?: { label: string; url: string }): string {
+  const button = action
+    ? `<p style="margin:24px 0;"><a href="${escapeHtml(action.url)}" style="background:#2563eb;color:#ffffff;padding:10px 18px;border-radius:6px;text-decoration:none;display:inline-block;">${escapeHtml(action.label)}</a></p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f1f5f9;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;color:#0f172a;">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border:1px solid #e2e8f0;border-radius:12px;padding:32px;">
+<h1 style="font-size:20px;margin:0 0 16px;">${escapeHtml(heading)}</h1>
+${paragraphs.map((p) => `<p style="margin:0 0 12px;line-height:1.5;">${p}</p>`).join('\n')}
+${button}
+<p style="margin:24px 0 0;font-size:12px;color:#64748b;">Sent by StatQ</p>
+</div>
+</body>
+</html>`;
+}
+
+function renderFormResponse(data: FormResponseEmailData): RenderedEmail {
+  const url = `${getAppUrl()}/forms/${data.formId}/responses`;
+  const respondent = data.respondentName || data.respondentEmail || 'An anonymous respondent';
+  const submittedAt = new Date(data.submittedAt).toUTCString();
+
+  return {
+    subject: `New response to "${data.formTitle}"`,
+    html: layout(
+      'You have a new response',
+      [
+        `<strong>${escapeHtml(respondent)}</strong> submitted a response to <strong>${escapeHtml(data.formTitle)}</strong>.`,
+        `Submitted ${escapeHtml(submittedAt)}.`,
+      ],
+      { label: 'View responses', url }
+    ),
+    text: [
+      'You have a new response',
+      '',
+      `${respondent} submitted a response to "${data.formTitle}".`,
+      `Submitted ${submittedAt}.`,
+      '',
+      `View responses: ${url}`,
+    ].join('\n'),
+  };
+}
+
+function renderFormPublished(data: FormPublishedEmailData): RenderedEmail {
+  const url = `${getAppUrl()}/forms/${data.formId}/submit`;
+
+  return {
+    subject: `"${data.formTitle}" is now live`,
+    html: layout(
+      'Your form is published',
+      [
+        `<strong>${escapeHtml(data.formTitle)}</strong> is now accepting responses.`,
+        `Share this link with respondents: <a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`,
+      ],
+      { label: 'Open form', url }
+    ),
+    text: [
+      'Your form is published',
+      '',
+      `"${data.formTitle}" is now accepting responses.`,
+      `Share this link with respondents: ${url}`,
+    ].join('\n'),
+  };
+}
+
+function renderExportReady(data: ExportReadyEmailData): RenderedEmail {
+  const format = data.format.toUpperCase();
+  const expiry = data.expiresAt ? `The link expires ${new Date(data.expiresAt).toUTCString()}.` : null;
+
+  return {
+    subject: `Your ${format} export of "${data.formTitle}" is ready`,
+    html: layout(
+      'Your export is ready',
+      [
+        `The ${escapeHtml(format)} export of <strong>${escapeHtml(data.formTitle)}</strong> has finished.`,
+        ...(expiry ? [escapeHtml(expiry)] : []),
+      ],
+      { label: 'Download export', url: data.downloadUrl }
+    ),
+    text: [
+      'Your export is ready',
+      '',
+      `The ${format} export of "${data.formTitle}" has finished.`,
+      ...(expiry ? [expiry] : []),
+      '',
+      `Download: ${data.downloadUrl}`,
+    ].join('\n'),
+  };
+}
+
+/**
+ * Render the email for a notification type
+ */
+export function renderNotificationEmail<T extends NotificationJob['type']>(
+  type: T,
+  data: NotificationEmailData[T]
+): RenderedEmail {
+  switch (type) {
+    case 'form_response':
+      return renderFormResponse(data as FormResponseEmailData);
+    case 'form_published':
+      return renderFormPublished(data as FormPublishedEmailData);
+    case 'export_ready':
+      return renderExportReady(data as ExportReadyEmailData);
+    default:
+      throw new Error(`No email template for notification type: ${type}`);
+  }
+}
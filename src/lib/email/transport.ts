@@ -0,0 +1,96 @@
+/**
+ * Email transports
+ * sendEmail delivers through whichever transport EMAIL_TRANSPORT selects:
+ * - smtp:    deliver through an SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS);
+ *            credentials are only sent over TLS unless SMTP_ALLOW_INSECURE=true
+ * - file:    write .eml files to EMAIL_FILE_DIR (default .emails/) for development and tests
+ * - console: log the message only
+ *
+ * When EMAIL_TRANSPORT is unset, SMTP is used if SMTP_HOST is configured,
+ * otherwise the file transport in development and the console transport elsewhere.
+ */
+
+import { SmtpTransport } from './smtp-transport';
+import { FileTransport } from './file-transport';
+import {
+  DEFAULT_FROM_ADDRESS,
+  type EmailMessage,
+  type EmailSendResult,
+  type EmailTransport,
+} from './types';
+
+export type { EmailMessage, EmailSendResult, EmailTransport } from './types';
+
+/**
+ * Transport that only logs messages (used when nothing else is configured)
+ */
+class ConsoleTransport implements EmailTransport {
+  readonly name = 'console';
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    console.log(`[Email] (console transport) To: ${message.to} Subject: ${message.subject}`);
+    return { messageId: `console-${Date.now()}`, transport: this.name };
+  }
+}
+
+let transport: EmailTransport | null = null;
+
+function createTransportFromEnv(): EmailTransport {
+  const configured = process.env.EMAIL_TRANSPORT;
+  const kind = configured
+    || (process.env.SMTP_HOST ? 'smtp' : process.env.NODE_ENV === 'development' ? 'file' : 'console');
+
+  switch (kind) {
+    case 'smtp': {
+      if (!process.env.SMTP_HOST) {
+        throw new Error('EMAIL_TRANSPORT is "smtp" but SMTP_HOST is not set');
+      }
+      const port = Number(process.env.SMTP_PORT || 587);
+      return new SmtpTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+        allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE === 'true',
+      });
+    }
+
+    case 'file':
+      return new FileTransport(process.env.EMAIL_FILE_DIR || '.emails');
+
+    case 'console':
+      return new ConsoleTransport();
+
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT: ${kind}`);
+  }
+}
+
+/**
+ * Get the configured email transport
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    transport = createTransportFromEnv();
+  }
+  return transport;
+}
+
+/**
+ * Override the email transport (e.g. a FileTransport pointed at a temp directory in tests)
+ * Pass null to go back to the environment configuration
+ */
+export function setEmailTransport(override: EmailTransport | null): void {
+  transport = override;
+}
+
+/**
+ * Send an email through the configured transport
+ */
+export async function sendEmail(message: EmailMessage): Promise<EmailSendResult> {
+  return getEmailTransport().send({
+    ...message,
+    from: message.from || process.env.EMAIL_FROM || DEFAULT_FROM_ADDRESS,
+  });
+}
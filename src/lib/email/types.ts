@@ -0,0 +1,25 @@
+/**
+ * Email types shared by the transports, templates and email worker
+ */
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  from?: string;
+  replyTo?: string;
+}
+
+export interface EmailSendResult {
+  messageId: string;
+  transport: string;
+  location?: string; // File path for the file transport
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+export const DEFAULT_FROM_ADDRESS = 'StatQ <noreply@statq.app>';
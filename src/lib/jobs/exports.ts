@@ -0,0 +1,17 @@
+/**
+ * Export helpers
+ * Queue server-side response exports; the export worker builds and delivers them
+ */
+
+import { queueExport, type ExportJob } from './queue';
+
+// Registers the export processor with the fallback queue
+import './workers/export.worker';
+
+/**
+ * Queue an export of a form's responses
+ * The owner is emailed a download link when it is ready
+ */
+export async function startResponsesExport(data: ExportJob) {
+  return queueExport(data, { attempts: 2, backoff: 30000 });
+}
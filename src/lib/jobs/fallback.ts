@@ -1,6 +1,6 @@
 /**
- * Fallback job queue when BullMQ/Redis packages are not available
- * Executes jobs synchronously in development
+ * Fallback job queue when no persistent queue is configured
+ * Executes jobs in-process as soon as they are added (lost on restart)
  */
 
 export interface Job<T = any> {
@@ -8,6 +8,26 @@ export interface Job<T = any> {
   name: string;
   data: T;
   timestamp: number;
+  attemptsMade?: number;
+  progress?: number;
+  updateProgress(progress: number): Promise<void>; // 0-100
+}
+
+export type JobStatus = 'waiting' | 'delayed' | 'active' | 'completed' | 'failed';
+
+/**
+ * Snapshot of a job for monitoring
+ */
+export interface JobSummary<T = unknown> {
+  id: string;
+  name: string;
+  data: T;
+  status: JobStatus;
+  progress: number;
+  attemptsMade: number;
+  error: string | null;
+  createdAt: string;
+  finishedAt: string | null;
 }
 
 export interface JobResult {
@@ -21,14 +41,60 @@ export interface QueueStats {
   active: number;
   completed: number;
   failed: number;
+  delayed?: number;
+}
+
+export interface JobOptions {
+  delay?: number; // Milliseconds before the job becomes runnable
+  priority?: number; // Higher runs first
+  attempts?: number; // Total attempts before the job is marked failed
+  backoff?: number; // Base retry delay in ms, doubled after each failed attempt
+}
+
+export type JobProcessor<T = unknown> = (job: Job<T>) => Promise<unknown>;
+
+export interface JobWorkerOptions {
+  concurrency?: number; // Jobs processed in parallel by this worker
+  pollIntervalMs?: number; // Wait between polls when the queue is empty
+  stalledAfterMs?: number; // Active jobs without a heartbeat for this long are recovered
 }
 
+export type JobEventHandler = (...args: never[]) => void;
+
+/**
+ * Surface shared by the fallback and Postgres queues
+ */
+export interface JobQueue<T = unknown> {
+  add(jobName: string, data: T, options?: JobOptions): Promise<Job<T>>;
+  getJobCounts(): Promise<QueueStats>;
+  clean(grace: number, limit: number, type?: string): Promise<string[]>;
+  getRecentJobs(limit: number): Promise<JobSummary<T>[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * Surface shared by the fallback and Postgres workers
+ */
+export interface JobWorker {
+  run(): Promise<void>;
+  close(): Promise<void>;
+  isRunning(): boolean;
+  on(event: string, handler: JobEventHandler): this;
+}
+
+// Processors registered by FallbackWorker instances, keyed by queue name
+const processors = new Map<string, JobProcessor>();
+
+// Number of finished jobs each fallback queue remembers for monitoring
+const RECENT_JOBS_LIMIT = 20;
+
 /**
  * Fallback queue that processes jobs synchronously
  */
-export class FallbackQueue<T = any> {
+export class FallbackQueue<T = any> implements JobQueue<T> {
   private name: string;
   private jobs: Map<string, Job<T>> = new Map();
+  private recent: JobSummary<T>[] = [];
   private completedCount = 0;
   private failedCount = 0;
 
@@ -38,7 +104,7 @@ export class FallbackQueue<T = any> {
     // Log warning in development
     if (process.env.NODE_ENV === 'development') {
       console.warn(
-        `[Job Queue] Using fallback queue for "${name}" - jobs will run synchronously. Install bullmq and ioredis for production use.`
+        `[Job Queue] Using fallback queue for "${name}" - jobs will run in-process. Set SUPABASE_SERVICE_ROLE_KEY for the persistent queue.`
       );
     }
   }
@@ -46,23 +112,69 @@ export class FallbackQueue<T = any> {
   /**
    * Add a job to the queue (executes immediately in fallback mode)
    */
-  async add(jobName: string, data: T, options?: any): Promise<Job<T>> {
-    const job: Job<T> = {
+  async add(jobName: string, data: T, options?: JobOptions): Promise<Job<T>> {
+    const summary: JobSummary<T> = {
       id: `fallback-${Date.now()}-${Math.random()}`,
       name: jobName,
       data,
+      status: 'waiting',
+      progress: 0,
+      attemptsMade: 0,
+      error: null,
+      createdAt: new Date().toISOString(),
+      finishedAt: null,
+    };
+
+    const job: Job<T> = {
+      id: summary.id,
+      name: jobName,
+      data,
       timestamp: Date.now(),
+      updateProgress: async (progress: number) => {
+        job.progress = progress;
+        summary.progress = progress;
+      },
     };
 
     this.jobs.set(job.id, job);
+    this.recent = [summary, ...this.recent].slice(0, RECENT_JOBS_LIMIT);
 
     // In fallback mode, jobs execute immediately
     // In production, they would be queued and processed by workers
     console.log(`[Fallback Queue] Job "${jobName}" added to ${this.name} (will execute synchronously)`);
 
+    const processor = processors.get(this.name);
+    if (processor) {
+      void this.run(job, summary, processor);
+    }
+
     return job;
   }
 
+  /**
+   * Run a job with the worker registered for this queue
+   */
+  private async run(job: Job<T>, summary: JobSummary<T>, processor: JobProcessor<T>): Promise<void> {
+    summary.status = 'active';
+    summary.attemptsMade = 1;
+    job.attemptsMade = 1;
+
+    try {
+      await processor(job);
+      this.completedCount++;
+      summary.status = 'completed';
+      summary.progress = 100;
+    } catch (error) {
+      this.failedCount++;
+      summary.status = 'failed';
+      summary.error = error instanceof Error ? error.message : String(error);
+      console.error(`[Fallback Queue] Job "${job.name}" (${job.id}) failed in ${this.name}:`, error);
+    } finally {
+      summary.finishedAt = new Date().toISOString();
+      this.jobs.delete(job.id);
+    }
+  }
+
   /**
    * Get queue statistics
    */
@@ -83,34 +195,56 @@ export class FallbackQueue<T = any> {
     return [];
   }
 
+  /**
+   * Most recently added jobs (only those added in this process)
+   */
+  async getRecentJobs(limit: number): Promise<JobSummary<T>[]> {
+    return this.recent.slice(0, limit).map((summary) => ({ ...summary }));
+  }
+
   /**
    * Close the queue
    */
   async close(): Promise<void> {
     this.jobs.clear();
+    this.recent = [];
   }
 }
 
 /**
- * Fallback worker that doesn't actually process jobs
+ * Fallback worker that registers its processor with the fallback queue
  * (jobs are executed synchronously when added in fallback mode)
  */
-export class FallbackWorker<T = any> {
+export class FallbackWorker<T = any> implements JobWorker {
   private queueName: string;
 
-  constructor(queueName: string, processor?: any, options?: any) {
+  constructor(queueName: string, processor?: JobProcessor<T>, options?: JobWorkerOptions) {
     this.queueName = queueName;
 
+    if (processor) {
+      // The queue with this name only ever holds jobs of type T
+      processors.set(queueName, processor as JobProcessor);
+    }
+
     if (process.env.NODE_ENV === 'development') {
       console.log(`[Fallback Worker] Worker created for "${queueName}" (no background processing)`);
     }
   }
 
+  /**
+   * Start processing (no-op: fallback jobs run as soon as they are added)
+   */
+  async run(): Promise<void> {}
+
+  isRunning(): boolean {
+    return processors.has(this.queueName);
+  }
+
   /**
    * Close the worker
    */
   async close(): Promise<void> {
-    // No-op
+    processors.delete(this.queueName);
   }
 
   /**
@@ -142,4 +276,4 @@ export class FallbackQueueEvents {
 
 // Export warning message
 export const JOB_QUEUE_UNAVAILABLE =
-  'Background job processing is unavailable. Install bullmq and ioredis for production use.';
+  'Background job processing is unavailable. Set SUPABASE_SERVICE_ROLE_KEY and run the workers (npm run workers).';
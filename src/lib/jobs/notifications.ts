@@ -0,0 +1,32 @@
+/**
+ * Notification helpers
+ * Queue user-facing notifications; the notification worker renders and emails them
+ */
+
+import { queueNotification } from './queue';
+import type { ExportReadyEmailData, FormResponseEmailData } from '@/lib/email/templates';
+
+// Registers the notification (and email) processors with the fallback queue
+import './workers/notification.worker';
+
+/**
+ * Tell a form owner that a new response was submitted
+ */
+export async function notifyFormResponse(ownerId: string, data: FormResponseEmailData) {
+  return queueNotification({
+    userId: ownerId,
+    type: 'form_response',
+    data: { ...data },
+  });
+}
+
+/**
+ * Tell a user that their export finished, with a download link
+ */
+export async function notifyExportReady(userId: string, data: ExportReadyEmailData) {
+  return queueNotification({
+    userId,
+    type: 'export_ready',
+    data: { ...data },
+  });
+}
@@ -0,0 +1,463 @@
+/**
+ * Persistent job queue backed by the `jobs` table
+ * Jobs survive restarts and are processed by workers in any process
+ * (see supabase/migrations/20251222000000_add_jobs_table.sql)
+ *
+ * - Retries with exponential backoff (backoff * 2^(attempt - 1))
+ * - Delayed jobs and priorities (higher runs first)
+ * - Stalled-job recovery: running jobs send heartbeats; jobs whose worker
+ *   stopped responding are put back in the queue
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import os from 'os';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/utils/supabase/admin';
+import type {
+  Job,
+  JobEventHandler,
+  JobOptions,
+  JobProcessor,
+  JobQueue,
+  JobSummary,
+  JobWorker,
+  JobWorkerOptions,
+  QueueStats,
+} from './fallback';
+
+const DEFAULT_ATTEMPTS = 3;
+const DEFAULT_BACKOFF_MS = 1000;
+
+interface JobRow {
+  id: string;
+  queue: string;
+  name: string;
+  data: unknown;
+  status: 'waiting' | 'active' | 'completed' | 'failed';
+  priority: number;
+  progress: number;
+  attempts: number;
+  max_attempts: number;
+  backoff_ms: number;
+  run_at: string;
+  locked_by: string | null;
+  locked_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  finished_at: string | null;
+}
+
+function getAdminClient(): SupabaseClient {
+  const supabase = createAdminClient();
+
+  if (!supabase) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is required for the persistent job queue');
+  }
+
+  return supabase;
+}
+
+function toJob<T>(row: JobRow, supabase: SupabaseClient): Job<T> {
+  const job: Job<T> = {
+    id: row.id,
+    name: row.name,
+    data: row.data as T,
+    timestamp: new Date(row.created_at).getTime(),
+    attemptsMade: row.attempts,
+    progress: row.progress,
+    updateProgress: async (progress: number) => {
+      const value = Math.max(0, Math.min(100, Math.round(progress)));
+      const { error } = await supabase
+        .from('jobs')
+        .update({ progress: value, updated_at: new Date().toISOString() })
+        .eq('id', row.id);
+
+      if (error) {
+        throw new Error(`Failed to update progress of job ${row.id}: ${error.message}`);
+      }
+      job.progress = value;
+    },
+  };
+
+  return job;
+}
+
+function toSummary<T>(row: JobRow): JobSummary<T> {
+  const delayed = row.status === 'waiting' && new Date(row.run_at).getTime() > Date.now();
+
+  return {
+    id: row.id,
+    name: row.name,
+    data: row.data as T,
+    status: delayed ? 'delayed' : row.status,
+    progress: row.progress,
+    attemptsMade: row.attempts,
+    error: row.last_error,
+    createdAt: row.created_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+/**
+ * Queue that stores jobs in Postgres
+ */
+export class PostgresQueue<T = unknown> implements JobQueue<T> {
+  private name: string;
+  private client: SupabaseClient | null = null;
+
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  private get supabase(): SupabaseClient {
+    if (!this.client) {
+      this.client = getAdminClient();
+    }
+    return this.client;
+  }
+
+  /**
+   * Add a job to the queue
+   */
+  async add(jobName: string, data: T, options?: JobOptions): Promise<Job<T>> {
+    const { data: row, error } = await this.supabase
+      .from('jobs')
+      .insert({
+        queue: this.name,
+        name: jobName,
+        data,
+        priority: options?.priority ?? 0,
+        max_attempts: Math.max(1, options?.attempts ?? DEFAULT_ATTEMPTS),
+        backoff_ms: options?.backoff ?? DEFAULT_BACKOFF_MS,
+        run_at: new Date(Date.now() + (options?.delay ?? 0)).toISOString(),
+      })
+      .select('*')
+      .single();
+
+    if (error || !row) {
+      throw new Error(`Failed to add job "${jobName}" to ${this.name}: ${error?.message ?? 'no row returned'}`);
+    }
+
+    return toJob<T>(row as JobRow, this.supabase);
+  }
+
+  /**
+   * Get queue statistics
+   */
+  async getJobCounts(): Promise<Required<QueueStats>> {
+    const { data, error } = await this.supabase.rpc('get_job_counts', { queue_name: this.name });
+
+    if (error) {
+      throw new Error(`Failed to count jobs in ${this.name}: ${error.message}`);
+    }
+
+    const counts = (Array.isArray(data) ? data[0] : data) ?? {};
+
+    return {
+      waiting: Number(counts.waiting ?? 0),
+      delayed: Number(counts.delayed ?? 0),
+      active: Number(counts.active ?? 0),
+      completed: Number(counts.completed ?? 0),
+      failed: Number(counts.failed ?? 0),
+    };
+  }
+
+  /**
+   * Delete up to `limit` finished jobs of the given status older than `grace` ms
+   */
+  async clean(grace: number, limit: number, type: string = 'completed'): Promise<string[]> {
+    const cutoff = new Date(Date.now() - grace).toISOString();
+
+    const { data: rows, error } = await this.supabase
+      .from('jobs')
+      .select('id')
+      .eq('queue', this.name)
+      .eq('status', type)
+      .lt('finished_at', cutoff)
+      .order('finished_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to clean ${this.name}: ${error.message}`);
+    }
+
+    const ids = (rows ?? []).map((row) => row.id as string);
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const { error: deleteError } = await this.supabase.from('jobs').delete().in('id', ids);
+
+    if (deleteError) {
+      throw new Error(`Failed to clean ${this.name}: ${deleteError.message}`);
+    }
+
+    return ids;
+  }
+
+  /**
+   * Most recently added jobs
+   */
+  async getRecentJobs(limit: number): Promise<JobSummary<T>[]> {
+    const { data: rows, error } = await this.supabase
+      .from('jobs')
+      .select('*')
+      .eq('queue', this.name)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load recent jobs of ${this.name}: ${error.message}`);
+    }
+
+    return ((rows ?? []) as JobRow[]).map((row) => toSummary<T>(row));
+  }
+
+  /**
+   * Close the queue (the HTTP client holds no connections)
+   */
+  async close(): Promise<void> {
+    this.client = null;
+  }
+}
+
+/**
+ * Worker that polls the `jobs` table for one queue
+ * Call run() to start processing; constructing a worker does not start it,
+ * so the web app can import worker modules without consuming jobs.
+ */
+export class PostgresWorker<T = unknown> implements JobWorker {
+  private queueName: string;
+  private processor: JobProcessor<T>;
+  private concurrency: number;
+  private pollIntervalMs: number;
+  private stalledAfterMs: number;
+  private workerId = `${os.hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+  private events = new EventEmitter();
+  private client: SupabaseClient | null = null;
+  private running = false;
+  private loops: Promise<void>[] = [];
+  private stalledTimer: ReturnType<typeof setInterval> | null = null;
+  private wakeSleepers: Set<() => void> = new Set();
+
+  constructor(queueName: string, processor: JobProcessor<T>, options: JobWorkerOptions = {}) {
+    this.queueName = queueName;
+    this.processor = processor;
+    this.concurrency = Math.max(1, options.concurrency ?? 1);
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.stalledAfterMs = options.stalledAfterMs ?? 30000;
+  }
+
+  private get supabase(): SupabaseClient {
+    if (!this.client) {
+      this.client = getAdminClient();
+    }
+    return this.client;
+  }
+
+  /**
+   * Start polling the queue (resolves once started)
+   */
+  async run(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    await this.recoverStalled();
+    this.stalledTimer = setInterval(() => void this.recoverStalled(), this.stalledAfterMs);
+
+    for (let i = 0; i < this.concurrency; i++) {
+      this.loops.push(this.poll());
+    }
+
+    console.log(`[Job Queue] Worker ${this.workerId} processing "${this.queueName}" (concurrency ${this.concurrency})`);
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Stop polling and wait for active jobs to finish
+   */
+  async close(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+
+    if (this.stalledTimer) {
+      clearInterval(this.stalledTimer);
+      this.stalledTimer = null;
+    }
+
+    this.wakeSleepers.forEach((wake) => wake());
+    await Promise.all(this.loops);
+    this.loops = [];
+  }
+
+  /**
+   * Listen for 'completed' (job, result), 'failed' (job, error) and 'error' (error)
+   */
+  on(event: string, handler: JobEventHandler): this {
+    this.events.on(event, handler as (...args: unknown[]) => void);
+    return this;
+  }
+
+  private emitError(error: unknown) {
+    const err = error instanceof Error ? error : new Error(String(error));
+
+    if (this.events.listenerCount('error') > 0) {
+      this.events.emit('error', err);
+    } else {
+      console.error(`[Job Queue] Worker error in ${this.queueName}:`, err);
+    }
+  }
+
+  /**
+   * Wait for `ms`, returning early when the worker is closed
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.wakeSleepers.delete(wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, ms);
+      this.wakeSleepers.add(wake);
+    });
+  }
+
+  private async poll(): Promise<void> {
+    while (this.running) {
+      try {
+        const row = await this.claim();
+
+        if (row) {
+          await this.process(row);
+        } else {
+          await this.sleep(this.pollIntervalMs);
+        }
+      } catch (error) {
+        this.emitError(error);
+        await this.sleep(this.pollIntervalMs);
+      }
+    }
+  }
+
+  private async claim(): Promise<JobRow | null> {
+    const { data, error } = await this.supabase.rpc('claim_next_job', {
+      queue_name: this.queueName,
+      worker_id: this.workerId,
+    });
+
+    if (error) {
+      throw new Error(`Failed to claim job from ${this.queueName}: ${error.message}`);
+    }
+
+    const rows = (data ?? []) as JobRow[];
+    return rows[0] ?? null;
+  }
+
+  private async process(row: JobRow): Promise<void> {
+    const job = toJob<T>(row, this.supabase);
+
+    // Heartbeat so the job is not recovered as stalled while it runs
+    const heartbeat = setInterval(() => {
+      void this.supabase
+        .from('jobs')
+        .update({ locked_at: new Date().toISOString() })
+        .eq('id', row.id)
+        .eq('locked_by', this.workerId)
+        .then(({ error }) => {
+          if (error) this.emitError(new Error(`Heartbeat failed for job ${row.id}: ${error.message}`));
+        });
+    }, Math.max(1000, Math.floor(this.stalledAfterMs / 3)));
+
+    try {
+      let result: unknown;
+      let failure: Error | null = null;
+
+      try {
+        result = await this.processor(job);
+      } catch (error) {
+        failure = error instanceof Error ? error : new Error(String(error));
+      }
+
+      if (failure) {
+        await this.fail(row, failure);
+        this.events.emit('failed', job, failure);
+      } else {
+        await this.complete(row, result);
+        this.events.emit('completed', job, result);
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async complete(row: JobRow, result: unknown): Promise<void> {
+    const now = new Date().toISOString();
+
+    const { error } = await this.supabase
+      .from('jobs')
+      .update({
+        status: 'completed',
+        progress: 100,
+        result: result ?? null,
+        last_error: null,
+        locked_by: null,
+        locked_at: null,
+        finished_at: now,
+        updated_at: now,
+      })
+      .eq('id', row.id)
+      .eq('locked_by', this.workerId);
+
+    if (error) {
+      throw new Error(`Failed to complete job ${row.id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Schedule a retry with exponential backoff, or mark the job failed
+   * once it has used up its attempts
+   */
+  private async fail(row: JobRow, failure: Error): Promise<void> {
+    const now = new Date();
+    const retry = row.attempts < row.max_attempts;
+    const backoff = row.backoff_ms * 2 ** Math.max(0, row.attempts - 1);
+
+    const { error } = await this.supabase
+      .from('jobs')
+      .update({
+        status: retry ? 'waiting' : 'failed',
+        run_at: retry ? new Date(now.getTime() + backoff).toISOString() : row.run_at,
+        last_error: failure.message,
+        locked_by: null,
+        locked_at: null,
+        finished_at: retry ? null : now.toISOString(),
+        updated_at: now.toISOString(),
+      })
+      .eq('id', row.id)
+      .eq('locked_by', this.workerId);
+
+    if (error) {
+      throw new Error(`Failed to record failure of job ${row.id}: ${error.message}`);
+    }
+  }
+
+  private async recoverStalled(): Promise<void> {
+    const { data, error } = await this.supabase.rpc('recover_stalled_jobs', {
+      stalled_after_seconds: Math.ceil(this.stalledAfterMs / 1000),
+    });
+
+    if (error) {
+      this.emitError(new Error(`Failed to recover stalled jobs: ${error.message}`));
+      return;
+    }
+
+    if (typeof data === 'number' && data > 0) {
+      console.warn(`[Job Queue] Recovered ${data} stalled job(s)`);
+    }
+  }
+}
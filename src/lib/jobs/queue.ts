@@ -1,14 +1,31 @@
 /**
  * Job Queue Configuration
- * Uses fallback implementation when BullMQ/Redis packages are not available
+ * Uses the persistent Postgres queue (`jobs` table) when SUPABASE_SERVICE_ROLE_KEY
+ * is set, otherwise the in-process fallback queue
  *
- * To enable production background job processing:
- * 1. Install packages: npm install bullmq ioredis
- * 2. Set environment variable: REDIS_URL
- * 3. Start workers: npm run workers (implement worker startup script)
+ * To enable persistent background job processing:
+ * 1. Apply the jobs table migration
+ * 2. Set environment variable: SUPABASE_SERVICE_ROLE_KEY
+ * 3. Start workers: npm run workers
+ *
+ * Set JOB_QUEUE=memory to force the fallback queue.
  */
 
-import { FallbackQueue, FallbackQueueEvents } from './fallback';
+import {
+  FallbackQueue,
+  FallbackQueueEvents,
+  FallbackWorker,
+  type JobOptions,
+  type JobProcessor,
+  type JobQueue,
+  type JobSummary,
+  type JobWorker,
+  type JobWorkerOptions,
+} from './fallback';
+import { PostgresQueue, PostgresWorker } from './postgres';
+import type { ResponseFilters } from '@/lib/utils/response-query';
+import type { WebhookEvent } from '@/lib/types/webhook.types';
+import type { WebhookResponseRow } from '@/lib/utils/webhooks';
 
 // Queue names
 export const QUEUE_NAMES = {
@@ -16,6 +33,7 @@ export const QUEUE_NAMES = {
   ANALYTICS: 'analytics-queue',
   EXPORT: 'export-queue',
   NOTIFICATIONS: 'notifications-queue',
+  WEBHOOKS: 'webhooks-queue',
 } as const;
 
 // Job types
@@ -23,6 +41,7 @@ export interface EmailJob {
   to: string;
   subject: string;
   html: string;
+  text?: string;
   from?: string;
 }
 
@@ -36,7 +55,7 @@ export interface ExportJob {
   formId: string;
   userId: string;
   format: 'csv' | 'json' | 'xlsx' | 'pdf';
-  filters?: Record<string, unknown>;
+  filters?: ResponseFilters;
 }
 
 export interface NotificationJob {
@@ -45,93 +64,159 @@ export interface NotificationJob {
   data: Record<string, unknown>;
 }
 
-// Create fallback queues
-export const emailQueue = new FallbackQueue<EmailJob>(QUEUE_NAMES.EMAIL);
-export const analyticsQueue = new FallbackQueue<AnalyticsJob>(QUEUE_NAMES.ANALYTICS);
-export const exportQueue = new FallbackQueue<ExportJob>(QUEUE_NAMES.EXPORT);
-export const notificationsQueue = new FallbackQueue<NotificationJob>(QUEUE_NAMES.NOTIFICATIONS);
+// Either a new event to fan out to subscribed webhooks, or a replay of one logged delivery
+export type WebhookJob =
+  | {
+      kind: 'event';
+      eventId: string;
+      event: WebhookEvent;
+      formId: string;
+      responseId?: string;
+      // Taken before a permanent delete, when the row can no longer be loaded
+      responseSnapshot?: WebhookResponseRow;
+      occurredAt: string;
+    }
+  | {
+      kind: 'replay';
+      deliveryId: string;
+    };
+
+/**
+ * Whether jobs are stored in the persistent Postgres queue
+ */
+export function isPersistentQueue(): boolean {
+  return Boolean(process.env.SUPABASE_SERVICE_ROLE_KEY) && process.env.JOB_QUEUE !== 'memory';
+}
+
+function createQueue<T>(name: string): JobQueue<T> {
+  return isPersistentQueue() ? new PostgresQueue<T>(name) : new FallbackQueue<T>(name);
+}
+
+/**
+ * Create a worker for a queue using the configured implementation
+ * Postgres workers only consume jobs once run() is called (see worker-manager)
+ */
+export function createWorker<T>(
+  queueName: string,
+  processor: JobProcessor<T>,
+  options?: JobWorkerOptions
+): JobWorker {
+  return isPersistentQueue()
+    ? new PostgresWorker<T>(queueName, processor, options)
+    : new FallbackWorker<T>(queueName, processor, options);
+}
+
+// Create queues
+export const emailQueue = createQueue<EmailJob>(QUEUE_NAMES.EMAIL);
+export const analyticsQueue = createQueue<AnalyticsJob>(QUEUE_NAMES.ANALYTICS);
+export const exportQueue = createQueue<ExportJob>(QUEUE_NAMES.EXPORT);
+export const notificationsQueue = createQueue<NotificationJob>(QUEUE_NAMES.NOTIFICATIONS);
+export const webhooksQueue = createQueue<WebhookJob>(QUEUE_NAMES.WEBHOOKS);
 
 // Queue events (fallback)
 export const emailQueueEvents = new FallbackQueueEvents(QUEUE_NAMES.EMAIL);
 export const analyticsQueueEvents = new FallbackQueueEvents(QUEUE_NAMES.ANALYTICS);
 export const exportQueueEvents = new FallbackQueueEvents(QUEUE_NAMES.EXPORT);
 export const notificationsQueueEvents = new FallbackQueueEvents(QUEUE_NAMES.NOTIFICATIONS);
+export const webhooksQueueEvents = new FallbackQueueEvents(QUEUE_NAMES.WEBHOOKS);
 
 /**
  * Add a job to the email queue
  */
-export async function queueEmail(data: EmailJob, options?: { delay?: number; priority?: number }) {
+export async function queueEmail(data: EmailJob, options?: JobOptions) {
   return await emailQueue.add('send-email', data, options);
 }
 
 /**
  * Add a job to the analytics queue
  */
-export async function queueAnalytics(data: AnalyticsJob, options?: { delay?: number; priority?: number }) {
+export async function queueAnalytics(data: AnalyticsJob, options?: JobOptions) {
   return await analyticsQueue.add('process-analytics', data, options);
 }
 
 /**
  * Add a job to the export queue
  */
-export async function queueExport(data: ExportJob, options?: { delay?: number; priority?: number }) {
+export async function queueExport(data: ExportJob, options?: JobOptions) {
   return await exportQueue.add('process-export', data, options);
 }
 
 /**
  * Add a job to the notifications queue
  */
-export async function queueNotification(data: NotificationJob, options?: { delay?: number; priority?: number }) {
+export async function queueNotification(data: NotificationJob, options?: JobOptions) {
   return await notificationsQueue.add('send-notification', data, options);
 }
 
 /**
- * Get queue statistics
+ * Add a job to the webhooks queue
  */
-export async function getQueueStats(queueName: string) {
-  let queue: FallbackQueue;
+export async function queueWebhook(data: WebhookJob, options?: JobOptions) {
+  return await webhooksQueue.add('deliver-webhook', data, options);
+}
 
+/**
+ * Look up a queue by name
+ */
+function getQueue(queueName: string): JobQueue {
   switch (queueName) {
     case QUEUE_NAMES.EMAIL:
-      queue = emailQueue;
-      break;
+      return emailQueue;
     case QUEUE_NAMES.ANALYTICS:
-      queue = analyticsQueue;
-      break;
+      return analyticsQueue;
     case QUEUE_NAMES.EXPORT:
-      queue = exportQueue;
-      break;
+      return exportQueue;
     case QUEUE_NAMES.NOTIFICATIONS:
-      queue = notificationsQueue;
-      break;
+      return notificationsQueue;
+    case QUEUE_NAMES.WEBHOOKS:
+      return webhooksQueue;
     default:
       throw new Error(`Unknown queue: ${queueName}`);
   }
+}
+
+/**
+ * Get queue statistics
+ */
+export async function getQueueStats(queueName: string) {
+  const queue = getQueue(queueName);
 
   const counts = await queue.getJobCounts();
+  const delayed = counts.delayed ?? 0; // Fallback doesn't support delayed jobs
 
   return {
     waiting: counts.waiting,
     active: counts.active,
     completed: counts.completed,
     failed: counts.failed,
-    delayed: 0, // Fallback doesn't support delayed jobs
-    total: counts.waiting + counts.active + counts.completed + counts.failed,
+    delayed,
+    total: counts.waiting + delayed + counts.active + counts.completed + counts.failed,
   };
 }
 
+/**
+ * Get the most recently added jobs of a queue (newest first)
+ */
+export async function getRecentJobs<T = unknown>(queueName: string, limit: number = 10): Promise<JobSummary<T>[]> {
+  return (getQueue(queueName) as JobQueue<T>).getRecentJobs(limit);
+}
+
 /**
  * Clean up old jobs from all queues
+ * Returns the number of jobs removed
  */
-export async function cleanQueues() {
-  const queues = [emailQueue, analyticsQueue, exportQueue, notificationsQueue];
+export async function cleanQueues(): Promise<number> {
+  const queues = [emailQueue, analyticsQueue, exportQueue, notificationsQueue, webhooksQueue];
 
-  await Promise.all(
+  const removed = await Promise.all(
     queues.map(async (queue) => {
-      await queue.clean(3600000, 100, 'completed'); // Clean completed jobs older than 1 hour
-      await queue.clean(86400000, 50, 'failed'); // Clean failed jobs older than 24 hours
+      const completed = await queue.clean(3600000, 100, 'completed'); // Clean completed jobs older than 1 hour
+      const failed = await queue.clean(86400000, 50, 'failed'); // Clean failed jobs older than 24 hours
+      return completed.length + failed.length;
     })
   );
+
+  return removed.reduce((sum, count) => sum + count, 0);
 }
 
 /**
@@ -143,5 +228,6 @@ export async function closeQueues() {
     analyticsQueue.close(),
     exportQueue.close(),
     notificationsQueue.close(),
+    webhooksQueue.close(),
   ]);
 }
@@ -0,0 +1,64 @@
+/**
+ * Webhook helpers
+ * Queue webhook events and replays; the webhook worker signs and delivers them
+ */
+
+import { randomUUID } from 'crypto';
+import { queueWebhook } from './queue';
+import { createAdminClient } from '@/utils/supabase/admin';
+import type { WebhookEvent } from '@/lib/types/webhook.types';
+import type { WebhookResponseRow } from '@/lib/utils/webhooks';
+
+// Registers the webhook processor with the fallback queue
+import './workers/webhook.worker';
+
+/**
+ * Raise a webhook event for a form
+ * Pass responseSnapshot when the response is about to be permanently deleted.
+ * Never throws: a webhook problem must not fail the action that raised it.
+ */
+export async function emitWebhookEvent(
+  formId: string,
+  event: WebhookEvent,
+  responseId?: string,
+  responseSnapshot?: WebhookResponseRow
+) {
+  try {
+    // Skip the job entirely for forms nobody subscribed to, when we can tell
+    const admin = createAdminClient();
+    if (admin) {
+      const { count } = await admin
+        .from('webhooks')
+        .select('id', { count: 'exact', head: true })
+        .eq('form_id', formId)
+        .eq('is_active', true)
+        .contains('events', [event]);
+
+      if (count === 0) {
+        return;
+      }
+    }
+
+    await queueWebhook(
+      {
+        kind: 'event',
+        eventId: randomUUID(),
+        event,
+        formId,
+        responseId,
+        responseSnapshot,
+        occurredAt: new Date().toISOString(),
+      },
+      { attempts: 2, backoff: 60000 }
+    );
+  } catch (error) {
+    console.error(`[Webhooks] Error queueing ${event} for form ${formId}:`, error);
+  }
+}
+
+/**
+ * Send a logged delivery again
+ */
+export async function startWebhookReplay(deliveryId: string) {
+  return queueWebhook({ kind: 'replay', deliveryId }, { attempts: 1 });
+}
@@ -1,25 +1,35 @@
 /**
  * Worker Manager
  * Centralized management for all background job workers
- * Currently using fallback implementation
+ * With the Postgres queue, workers run in a separate process (npm run workers)
  */
 
+import { isPersistentQueue } from './queue';
 import { emailWorker } from './workers/email.worker';
 import { analyticsWorker } from './workers/analytics.worker';
+import { notificationWorker } from './workers/notification.worker';
+import { exportWorker } from './workers/export.worker';
+import { webhookWorker } from './workers/webhook.worker';
 
 export const workers = {
   email: emailWorker,
   analytics: analyticsWorker,
+  notifications: notificationWorker,
+  export: exportWorker,
+  webhooks: webhookWorker,
 };
 
 /**
  * Start all workers
  */
 export async function startWorkers() {
-  console.log('[Fallback] Workers initialized (jobs will be processed synchronously)');
+  await Promise.all(Object.values(workers).map((worker) => worker.run()));
 
-  // Workers are started when imported
-  // This function can be used for additional initialization
+  console.log(
+    isPersistentQueue()
+      ? '[Job Queue] Workers started (polling the jobs table)'
+      : '[Fallback] Workers initialized (jobs will be processed in-process)'
+  );
 
   return workers;
 }
@@ -33,26 +43,45 @@ export async function stopWorkers() {
   await Promise.all([
     emailWorker.close(),
     analyticsWorker.close(),
+    notificationWorker.close(),
+    exportWorker.close(),
+    webhookWorker.close(),
   ]);
 
   console.log('All workers stopped');
 }
 
 /**
- * Get health status of all workers
- * Returns fallback status in development mode
+ * Get health status of the workers in this process
  */
 export async function getWorkersHealth() {
+  const type = isPersistentQueue() ? 'postgres' : 'fallback';
+
   return {
     email: {
-      isRunning: true, // Fallback workers are always "running"
+      isRunning: emailWorker.isRunning(),
       isPaused: false,
-      type: 'fallback',
+      type,
     },
     analytics: {
-      isRunning: true,
+      isRunning: analyticsWorker.isRunning(),
+      isPaused: false,
+      type,
+    },
+    notifications: {
+      isRunning: notificationWorker.isRunning(),
+      isPaused: false,
+      type,
+    },
+    export: {
+      isRunning: exportWorker.isRunning(),
+      isPaused: false,
+      type,
+    },
+    webhooks: {
+      isRunning: webhookWorker.isRunning(),
       isPaused: false,
-      type: 'fallback',
+      type,
     },
   };
 }
@@ -0,0 +1,27 @@
+/**
+ * Standalone worker process
+ * Processes jobs from the persistent queue outside the Next.js server:
+ *   npm run workers
+ */
+
+import { loadEnvConfig } from '@next/env';
+
+async function main() {
+  // Load .env* files the same way `next` does, before the queues read their config
+  loadEnvConfig(process.cwd());
+
+  const { startWorkers } = await import('./worker-manager');
+  const { isPersistentQueue } = await import('./queue');
+
+  if (!isPersistentQueue()) {
+    console.error('[Job Queue] SUPABASE_SERVICE_ROLE_KEY is not set (or JOB_QUEUE=memory); nothing to process');
+    process.exit(1);
+  }
+
+  await startWorkers();
+}
+
+main().catch((error) => {
+  console.error('[Job Queue] Failed to start workers:', error);
+  process.exit(1);
+});
@@ -1,21 +1,23 @@
 /**
  * Analytics Worker
  * Processes analytics calculation jobs from the queue
- * Currently using fallback (no-op) implementation
+ * Runs on the configured queue (Postgres or in-process fallback)
  */
 
-import { FallbackWorker, type Job } from '../fallback';
+import type { Job } from '../fallback';
 import type { AnalyticsJob } from '../queue';
-import { QUEUE_NAMES } from '../queue';
+import { QUEUE_NAMES, createWorker } from '../queue';
 import { createClient } from '@/utils/supabase/server';
+import { createAdminClient } from '@/utils/supabase/admin';
 
 /**
  * Calculate form statistics
  */
 async function calculateFormStats(formId: string): Promise<void> {
-  console.log(`[Fallback] Calculating stats for form ${formId}...`);
+  console.log(`[Analytics] Calculating stats for form ${formId}...`);
 
-  const supabase = await createClient();
+  // Standalone workers have no request cookies, so prefer the service-role client
+  const supabase = createAdminClient() ?? await createClient();
 
   // Get all completed responses
   const { data: responses, error } = await supabase
@@ -51,7 +53,7 @@ async function calculateFormStats(formId: string): Promise<void> {
  * Generate analytics report
  */
 async function generateAnalyticsReport(formId: string, options?: Record<string, unknown>): Promise<void> {
-  console.log(`[Fallback] Generating analytics report for form ${formId}...`);
+  console.log(`[Analytics] Generating analytics report for form ${formId}...`);
 
   // Implement report generation logic
   // Could include:
@@ -68,7 +70,7 @@ async function generateAnalyticsReport(formId: string, options?: Record<string,
  * Update analytics cache
  */
 async function updateAnalyticsCache(formId: string): Promise<void> {
-  console.log(`[Fallback] Updating analytics cache for form ${formId}...`);
+  console.log(`[Analytics] Updating analytics cache for form ${formId}...`);
 
   // Implement cache update logic using Redis or similar
   await new Promise((resolve) => setTimeout(resolve, 100));
@@ -76,9 +78,9 @@ async function updateAnalyticsCache(formId: string): Promise<void> {
 }
 
 /**
- * Analytics worker (fallback implementation)
+ * Analytics worker
  */
-export const analyticsWorker = new FallbackWorker<AnalyticsJob>(
+export const analyticsWorker = createWorker<AnalyticsJob>(
   QUEUE_NAMES.ANALYTICS,
   async (job: Job<AnalyticsJob>) => {
     console.log(`Processing analytics job ${job.id} (type: ${job.data.type})`);
@@ -106,7 +108,7 @@ export const analyticsWorker = new FallbackWorker<AnalyticsJob>(
   }
 );
 
-// Event listeners (no-op in fallback mode)
+// Event listeners (only emitted by the Postgres worker)
 analyticsWorker.on('completed', (job: Job<AnalyticsJob>) => {
   console.log(`Analytics job completed successfully`);
 });
@@ -118,5 +120,3 @@ analyticsWorker.on('failed', (job: Job<AnalyticsJob> | undefined, err: Error) =>
 analyticsWorker.on('error', (err: Error) => {
   console.error('Analytics worker error:', err);
 });
-
-console.log('[Fallback] Analytics worker initialized (jobs will be processed synchronously)');
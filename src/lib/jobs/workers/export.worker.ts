@@ -0,0 +1,146 @@
+/**
+ * Export Worker
+ * Builds response exports (CSV/XLSX/JSON/PDF) on the server, stores them in
+ * the form-responses bucket and emails the requester a signed download link
+ */
+
+import type { Job } from '../fallback';
+import type { ExportJob } from '../queue';
+import { QUEUE_NAMES, createWorker } from '../queue';
+import { notifyExportReady } from '../notifications';
+import { createClient } from '@/utils/supabase/server';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { getFileDownloadUrl, uploadExportFile } from '@/utils/supabase/storage';
+import { countFormResponses, fetchFormResponses, type ResponseFilters } from '@/lib/utils/response-query';
+import { buildResponseExport } from '@/lib/utils/response-export';
+import { appendScaleScores } from '@/lib/utils/scale-reliability';
+import { appendFactorScores } from '@/lib/utils/factor-analysis';
+import { getResponseQuestions } from '@/lib/utils/server-form-versions';
+import { isFormRole, roleHasPermission } from '@/lib/utils/form-permissions';
+import type { FormFactorScore, FormScale } from '@/lib/types/form.types';
+
+// How long the emailed download link stays valid
+const DOWNLOAD_LINK_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Export worker
+ */
+export const exportWorker = createWorker<ExportJob>(
+  QUEUE_NAMES.EXPORT,
+  async (job: Job<ExportJob>) => {
+    const { formId, userId, format } = job.data;
+    // Soft-deleted responses are left out unless asked for
+    const filters: ResponseFilters = { deleted: 'exclude', ...job.data.filters };
+    console.log(`Processing export job ${job.id}: ${format} export of form ${formId}`);
+
+    // Standalone workers have no request cookies, so prefer the service-role client
+    const supabase = createAdminClient() ?? await createClient();
+
+    const { data: form, error: formError } = await supabase
+      .from('forms')
+      .select('id, title, published_version_id')
+      .eq('id', formId)
+      .single();
+
+    if (formError || !form) {
+      throw new Error(`Form ${formId} not found: ${formError?.message ?? 'no row returned'}`);
+    }
+
+    // The service-role client bypasses RLS, so check the requester's role explicitly
+    const { data: role } = await supabase.rpc('get_form_role', {
+      form_uuid: formId,
+      user_uuid: userId,
+    });
+
+    if (!roleHasPermission(isFormRole(role) ? role : null, 'view_responses')) {
+      throw new Error(`User ${userId} cannot export responses of form ${formId}`);
+    }
+
+    // Saved scales and factor scores are exported as computed columns after the questions
+    const { data: scales, error: scalesError } = await supabase
+      .from('form_scales')
+      .select('*')
+      .eq('form_id', formId)
+      .order('name');
+
+    if (scalesError) {
+      throw new Error(`Failed to fetch scales: ${scalesError.message}`);
+    }
+
+    const { data: factorScores, error: factorScoresError } = await supabase
+      .from('form_factor_scores')
+      .select('*')
+      .eq('form_id', formId)
+      .order('name');
+
+    if (factorScoresError) {
+      throw new Error(`Failed to fetch factor scores: ${factorScoresError.message}`);
+    }
+
+    // Progress: 5% counted, up to 70% loaded, 85% built, 95% stored, 100% notified
+    const total = await countFormResponses(supabase, formId, filters);
+    await job.updateProgress(5);
+
+    const responses = await fetchFormResponses(supabase, formId, filters, (loaded) =>
+      job.updateProgress(5 + Math.round((65 * loaded) / Math.max(total, 1)))
+    );
+
+    // Columns come from the versions the responses were answered against, as
+    // validated on submit, not from the draft; an empty export gets the
+    // published version's columns
+    const questions = await getResponseQuestions(
+      supabase,
+      formId,
+      responses.length > 0
+        ? responses.map((response) => response.form_version_id ?? null)
+        : [form.published_version_id ?? null]
+    );
+
+    if (!questions) {
+      throw new Error(`Failed to fetch questions of form ${formId}`);
+    }
+
+    const withScales = appendScaleScores(questions, responses, (scales ?? []) as FormScale[]);
+    const scored = appendFactorScores(
+      withScales.questions,
+      withScales.responses,
+      (factorScores ?? []) as FormFactorScore[]
+    );
+    const artifact = await buildResponseExport(
+      format,
+      { id: form.id, title: form.title },
+      scored.questions,
+      scored.responses,
+      filters
+    );
+    await job.updateProgress(85);
+
+    const path = await uploadExportFile(
+      artifact.content,
+      userId,
+      formId,
+      artifact.fileName,
+      artifact.contentType,
+      supabase
+    );
+    await job.updateProgress(95);
+
+    const downloadUrl = await getFileDownloadUrl(path, DOWNLOAD_LINK_TTL_SECONDS, supabase);
+
+    await notifyExportReady(userId, {
+      formId,
+      formTitle: form.title,
+      format,
+      downloadUrl,
+      expiresAt: new Date(Date.now() + DOWNLOAD_LINK_TTL_SECONDS * 1000).toISOString(),
+    });
+    await job.updateProgress(100);
+
+    return { success: true, path, fileName: artifact.fileName, responses: responses.length };
+  },
+  { stalledAfterMs: 120000 }
+);
+
+exportWorker.on('failed', (job: Job<ExportJob> | undefined, err: Error) => {
+  console.error(`Export job failed:`, err);
+});
@@ -0,0 +1,67 @@
+/**
+ * Notification Worker
+ * Turns notification jobs into emails to the user they are addressed to
+ */
+
+import type { Job } from '../fallback';
+import type { NotificationJob } from '../queue';
+import { QUEUE_NAMES, createWorker, queueEmail } from '../queue';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { renderNotificationEmail, type NotificationEmailData } from '@/lib/email/templates';
+
+// Email jobs are picked up by the email worker
+import './email.worker';
+
+/**
+ * Look up the email address of a user
+ * Uses the service-role client: notifications are often triggered by other users
+ * (e.g. a respondent), who cannot read the recipient's profile under RLS
+ */
+async function getUserEmail(userId: string): Promise<string | null> {
+  const supabase = createAdminClient();
+
+  if (!supabase) {
+    console.warn('[Notifications] SUPABASE_SERVICE_ROLE_KEY is not set; skipping notification email');
+    return null;
+  }
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('email')
+    .eq('id', userId)
+    .single();
+
+  if (error || !profile) {
+    throw new Error(`Failed to load profile for user ${userId}: ${error?.message ?? 'not found'}`);
+  }
+
+  return profile.email as string;
+}
+
+/**
+ * Notification worker
+ */
+export const notificationWorker = createWorker<NotificationJob>(
+  QUEUE_NAMES.NOTIFICATIONS,
+  async (job: Job<NotificationJob>) => {
+    const { userId, type, data } = job.data;
+    console.log(`Processing notification job ${job.id}: ${type}`);
+
+    const to = await getUserEmail(userId);
+    if (!to) {
+      return { success: false, skipped: true };
+    }
+
+    const email = renderNotificationEmail(
+      type,
+      data as unknown as NotificationEmailData[typeof type]
+    );
+
+    await queueEmail({ to, ...email });
+    return { success: true, sentTo: to };
+  }
+);
+
+notificationWorker.on('failed', (job: Job<NotificationJob> | undefined, err: Error) => {
+  console.error(`Notification job failed:`, err);
+});
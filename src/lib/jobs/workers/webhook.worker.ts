@@ -0,0 +1,264 @@
+/**
+ * Webhook Worker
+ * Fans events out to the form's subscribed webhooks, signs and POSTs each
+ * payload with exponential retry, and logs every delivery
+ */
+
+import type { Job } from '../fallback';
+import type { WebhookJob } from '../queue';
+import { QUEUE_NAMES, createWorker } from '../queue';
+import { createClient } from '@/utils/supabase/server';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { retry } from '@/lib/utils/retry';
+import { buildWebhookPayload, type WebhookResponseRow } from '@/lib/utils/webhooks';
+import { assertWebhookDestination, createWebhookHeaders } from '@/lib/utils/server-webhooks';
+import { getFormStructure } from '@/lib/utils/server-form-versions';
+import type { Webhook, WebhookDeliveryStatus, WebhookPayload } from '@/lib/types/webhook.types';
+
+type SupabaseClient = NonNullable<ReturnType<typeof createAdminClient>> | Awaited<ReturnType<typeof createClient>>;
+
+// Per attempt; slow receivers should accept the event and process it later
+const REQUEST_TIMEOUT_MS = 10000;
+// Receivers' response bodies are only kept for debugging, and only from
+// successful deliveries: error pages could be from a host we shouldn't reach
+const MAX_LOGGED_BODY_LENGTH = 2000;
+
+class WebhookHttpError extends Error {
+  constructor(public statusCode: number) {
+    super(`HTTP ${statusCode}`);
+    this.name = 'WebhookHttpError';
+  }
+}
+
+async function readResponseBody(response: Response): Promise<string> {
+  try {
+    return (await response.text()).slice(0, MAX_LOGGED_BODY_LENGTH);
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Send one logged delivery and record the outcome on its row
+ * 5xx, 429 and network errors are retried with exponential backoff; other
+ * non-2xx responses fail straight away.
+ */
+async function sendDelivery(
+  supabase: SupabaseClient,
+  webhook: Pick<Webhook, 'url' | 'secret'>,
+  deliveryId: string,
+  payload: WebhookPayload
+): Promise<WebhookDeliveryStatus> {
+  const body = JSON.stringify(payload);
+  const startedAt = Date.now();
+  let attempts = 0;
+
+  let status: WebhookDeliveryStatus;
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let errorMessage: string | null = null;
+
+  try {
+    const response = await retry(
+      async () => {
+        attempts++;
+        // Resolved on every attempt so DNS changes between retries are caught
+        await assertWebhookDestination(webhook.url);
+        const res = await fetch(webhook.url, {
+          method: 'POST',
+          headers: createWebhookHeaders(webhook.secret, payload.event, deliveryId, body),
+          body,
+          redirect: 'manual',
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        if (res.status >= 500 || res.status === 429) {
+          throw new WebhookHttpError(res.status);
+        }
+
+        return res;
+      },
+      {
+        maxRetries: 4,
+        initialDelay: 2000,
+        maxDelay: 30000,
+        backoffFactor: 2,
+        operationName: 'webhook-delivery',
+      }
+    );
+
+    responseStatus = response.status;
+    status = response.ok ? 'success' : 'failed';
+    if (response.ok) {
+      responseBody = await readResponseBody(response);
+    } else {
+      errorMessage = `Receiver responded with HTTP ${response.status}`;
+    }
+  } catch (error) {
+    status = 'failed';
+    if (error instanceof WebhookHttpError) {
+      responseStatus = error.statusCode;
+    }
+    errorMessage = error instanceof Error ? error.message : String(error);
+  }
+
+  const { error: updateError } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      status,
+      attempts,
+      response_status: responseStatus,
+      response_body: responseBody,
+      error: errorMessage,
+      duration_ms: Date.now() - startedAt,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', deliveryId);
+
+  if (updateError) {
+    console.error(`[Webhooks] Failed to log delivery ${deliveryId}:`, updateError);
+  }
+
+  return status;
+}
+
+/**
+ * Log a pending delivery, then send it
+ */
+async function createAndSendDelivery(
+  supabase: SupabaseClient,
+  webhook: Pick<Webhook, 'id' | 'form_id' | 'url' | 'secret'>,
+  payload: WebhookPayload,
+  replayOf: string | null = null
+): Promise<WebhookDeliveryStatus> {
+  const { data: delivery, error } = await supabase
+    .from('webhook_deliveries')
+    .insert({
+      webhook_id: webhook.id,
+      form_id: webhook.form_id,
+      event: payload.event,
+      payload,
+      status: 'pending',
+      replay_of: replayOf,
+    })
+    .select('id')
+    .single();
+
+  if (error || !delivery) {
+    throw new Error(`Failed to log webhook delivery: ${error?.message ?? 'no row returned'}`);
+  }
+
+  return sendDelivery(supabase, webhook, delivery.id, payload);
+}
+
+async function processEvent(supabase: SupabaseClient, job: Extract<WebhookJob, { kind: 'event' }>) {
+  const { data: webhooks, error: webhooksError } = await supabase
+    .from('webhooks')
+    .select('id, form_id, url, secret')
+    .eq('form_id', job.formId)
+    .eq('is_active', true)
+    .contains('events', [job.event]);
+
+  if (webhooksError) {
+    throw new Error(`Failed to load webhooks: ${webhooksError.message}`);
+  }
+
+  if (!webhooks || webhooks.length === 0) {
+    return { delivered: 0, failed: 0 };
+  }
+
+  const [formResult, responseResult] = await Promise.all([
+    supabase.from('forms').select('id, title, published_version_id').eq('id', job.formId).single(),
+    job.responseId && !job.responseSnapshot
+      ? supabase.from('responses').select('*, answers (question_id, value_json)').eq('id', job.responseId).single()
+      : Promise.resolve({ data: null, error: null }),
+  ]);
+
+  if (formResult.error || !formResult.data) {
+    throw new Error(`Form ${job.formId} not found: ${formResult.error?.message ?? 'no row returned'}`);
+  }
+
+  const response = job.responseSnapshot ?? (responseResult.data as WebhookResponseRow | null);
+
+  if (job.responseId && !response) {
+    throw new Error(`Response ${job.responseId} not found: ${responseResult.error?.message ?? 'no row returned'}`);
+  }
+
+  // Response events use the version the response was answered against, like
+  // the submit path; form events describe the published version
+  const versionId = response ? response.form_version_id ?? null : formResult.data.published_version_id;
+  const structure = await getFormStructure(supabase, job.formId, versionId);
+
+  if (!structure) {
+    throw new Error(`Failed to fetch questions of form ${job.formId}`);
+  }
+
+  const payload = buildWebhookPayload(
+    job.eventId,
+    job.event,
+    job.occurredAt,
+    formResult.data,
+    structure.questions,
+    response
+  );
+
+  const results = await Promise.all(
+    (webhooks as Pick<Webhook, 'id' | 'form_id' | 'url' | 'secret'>[]).map((webhook) =>
+      createAndSendDelivery(supabase, webhook, payload)
+    )
+  );
+
+  return {
+    delivered: results.filter((status) => status === 'success').length,
+    failed: results.filter((status) => status === 'failed').length,
+  };
+}
+
+async function processReplay(supabase: SupabaseClient, job: Extract<WebhookJob, { kind: 'replay' }>) {
+  const { data: delivery, error } = await supabase
+    .from('webhook_deliveries')
+    .select('id, payload, webhooks (id, form_id, url, secret)')
+    .eq('id', job.deliveryId)
+    .single();
+
+  if (error || !delivery) {
+    throw new Error(`Delivery ${job.deliveryId} not found: ${error?.message ?? 'no row returned'}`);
+  }
+
+  const webhook = delivery.webhooks as unknown as Pick<Webhook, 'id' | 'form_id' | 'url' | 'secret'> | null;
+  if (!webhook) {
+    throw new Error(`Webhook for delivery ${job.deliveryId} no longer exists`);
+  }
+
+  // Same payload (and event id) so receivers can de-duplicate; signed afresh
+  const status = await createAndSendDelivery(supabase, webhook, delivery.payload as WebhookPayload, delivery.id);
+  return { delivered: status === 'success' ? 1 : 0, failed: status === 'failed' ? 1 : 0 };
+}
+
+/**
+ * Webhook worker
+ */
+export const webhookWorker = createWorker<WebhookJob>(
+  QUEUE_NAMES.WEBHOOKS,
+  async (job: Job<WebhookJob>) => {
+    console.log(
+      `Processing webhook job ${job.id}: ${job.data.kind === 'event' ? job.data.event : `replay of ${job.data.deliveryId}`}`
+    );
+
+    // Events are often raised by respondents, who cannot read webhooks under RLS
+    const supabase = createAdminClient() ?? await createClient();
+
+    const result = job.data.kind === 'event'
+      ? await processEvent(supabase, job.data)
+      : await processReplay(supabase, job.data);
+
+    console.log(`Webhook job ${job.id} completed: ${result.delivered} delivered, ${result.failed} failed`);
+    return result;
+  },
+  // Retries with backoff can keep a job busy for a couple of minutes
+  { concurrency: 2, stalledAfterMs: 300000 }
+);
+
+webhookWorker.on('failed', (job: Job<WebhookJob> | undefined, err: Error) => {
+  console.error(`Webhook job failed:`, err);
+});
@@ -0,0 +1,151 @@
+/**
+ * Responses PDF Generation
+ * Renders individual form responses (one block per response) using @react-pdf/renderer
+ * Used by the export worker for PDF exports
+ */
+
+import React from 'react';
+import { Document, Page, Text, View, StyleSheet } from '@react-pdf/renderer';
+
+const styles = StyleSheet.create({
+  page: {
+    paddingTop: 40,
+    paddingHorizontal: 40,
+    paddingBottom: 60,
+    fontSize: 10,
+    fontFamily: 'Helvetica',
+  },
+  header: {
+    marginBottom: 16,
+    borderBottom: '2 solid #3b82f6',
+    paddingBottom: 10,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1e40af',
+    marginBottom: 4,
+  },
+  metadata: {
+    fontSize: 9,
+    color: '#94a3b8',
+    marginTop: 3,
+  },
+  response: {
+    marginBottom: 14,
+    padding: 10,
+    border: '1 solid #e2e8f0',
+    borderRadius: 4,
+  },
+  responseHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+    paddingBottom: 4,
+    borderBottom: '1 solid #e2e8f0',
+  },
+  responseTitle: {
+    fontSize: 11,
+    fontWeight: 'bold',
+    color: '#0f172a',
+  },
+  responseMeta: {
+    fontSize: 9,
+    color: '#64748b',
+  },
+  answer: {
+    marginBottom: 6,
+  },
+  question: {
+    fontSize: 9,
+    color: '#475569',
+    marginBottom: 2,
+  },
+  answerText: {
+    fontSize: 10,
+    color: '#0f172a',
+  },
+  emptyAnswer: {
+    fontSize: 10,
+    color: '#cbd5e1',
+  },
+  footer: {
+    position: 'absolute',
+    bottom: 25,
+    left: 40,
+    right: 40,
+    textAlign: 'center',
+    fontSize: 9,
+    color: '#94a3b8',
+    borderTop: '1 solid #e2e8f0',
+    paddingTop: 8,
+  },
+});
+
+interface ResponsesPDFProps {
+  formTitle: string;
+  responses: Array<{
+    id: string;
+    respondent: string;
+    status: string;
+    submittedAt: string | null;
+    answers: Array<{ question: string; answer: string }>;
+  }>;
+  filterSummary?: string;
+  generatedAt: Date;
+}
+
+export function ResponsesPDF({ formTitle, responses, filterSummary, generatedAt }: ResponsesPDFProps) {
+  return (
+    <Document title={`${formTitle} - Responses`} creator="StatQ">
+      <Page size="A4" style={styles.page} wrap>
+        {/* Header */}
+        <View style={styles.header}>
+          <Text style={styles.title}>{formTitle}</Text>
+          <Text style={styles.metadata}>
+            {responses.length} response{responses.length === 1 ? '' : 's'}
+            {filterSummary ? ` - ${filterSummary}` : ''}
+          </Text>
+          <Text style={styles.metadata}>
+            Generated on {generatedAt.toLocaleDateString()} at {generatedAt.toLocaleTimeString()}
+          </Text>
+        </View>
+
+        {responses.length === 0 && (
+          <Text style={styles.emptyAnswer}>No responses match the selected filters.</Text>
+        )}
+
+        {/* One block per response */}
+        {responses.map((response, index) => (
+          <View key={response.id} style={styles.response}>
+            <View style={styles.responseHeader} minPresenceAhead={40}>
+              <Text style={styles.responseTitle}>
+                #{index + 1} - {response.respondent}
+              </Text>
+              <Text style={styles.responseMeta}>
+                {response.status}
+                {response.submittedAt ? ` - ${new Date(response.submittedAt).toLocaleString()}` : ''}
+              </Text>
+            </View>
+            {response.answers.map((item, answerIndex) => (
+              <View key={answerIndex} style={styles.answer} wrap={false}>
+                <Text style={styles.question}>{item.question}</Text>
+                {item.answer ? (
+                  <Text style={styles.answerText}>{item.answer}</Text>
+                ) : (
+                  <Text style={styles.emptyAnswer}>No answer</Text>
+                )}
+              </View>
+            ))}
+          </View>
+        ))}
+
+        <Text
+          style={styles.footer}
+          render={({ pageNumber, totalPages }) => `StatQ - ${formTitle} - Page ${pageNumber} of ${totalPages}`}
+          fixed
+        />
+      </Page>
+    </Document>
+  );
+}
@@ -0,0 +1,62 @@
+/**
+ * Rate limit rejection auditing
+ * Writes one audit_logs entry per identifier and limiter window, so a client
+ * hammering an endpoint leaves a single record rather than thousands.
+ */
+
+import { createClient } from '@/utils/supabase/server';
+import { createAdminClient } from '@/utils/supabase/admin';
+
+export interface RateLimitRejection {
+  limiter: string;
+  identifier: string;
+  limit: number;
+  windowMs: number;
+  reset: number;
+  source?: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+// `${limiter}:${identifier}:${reset}` of rejections already written by this process
+const logged = new Set<string>();
+const MAX_LOGGED_KEYS = 5000;
+
+export async function logRateLimitRejection(rejection: RateLimitRejection): Promise<void> {
+  const dedupeKey = `${rejection.limiter}:${rejection.identifier}:${rejection.reset}`;
+  if (logged.has(dedupeKey)) return;
+
+  if (logged.size >= MAX_LOGGED_KEYS) {
+    logged.clear();
+  }
+  logged.add(dedupeKey);
+
+  const userId = rejection.identifier.startsWith('user:') ? rejection.identifier.slice('user:'.length) : null;
+
+  try {
+    // Rejected callers are often anonymous; audit_logs accepts inserts from any role
+    const supabase = createAdminClient() ?? await createClient();
+
+    const { error } = await supabase.from('audit_logs').insert({
+      user_id: userId,
+      action: 'rate_limited',
+      resource_type: 'rate_limit',
+      details: {
+        limiter: rejection.limiter,
+        identifier: rejection.identifier,
+        limit: rejection.limit,
+        window_seconds: rejection.windowMs / 1000,
+        reset_at: new Date(rejection.reset).toISOString(),
+        source: rejection.source ?? null,
+      },
+      ip_address: rejection.ipAddress ?? null,
+      user_agent: rejection.userAgent ?? null,
+    });
+
+    if (error) {
+      console.error('[Rate Limit] Failed to audit rejection:', error);
+    }
+  } catch (error) {
+    console.error('[Rate Limit] Failed to audit rejection:', error);
+  }
+}
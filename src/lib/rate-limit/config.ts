@@ -1,60 +1,61 @@
 /**
  * Rate Limiting Configuration
- * Uses fallback implementation when Upstash packages are not available
- *
- * To enable production rate limiting:
- * 1. Install packages: npm install @upstash/ratelimit @upstash/redis
- * 2. Set environment variables: UPSTASH_REDIS_REST_URL, UPSTASH_REDIS_REST_TOKEN
- * 3. The system will automatically use Upstash when available
+ * Sliding window limits, counted in Postgres when the service role is
+ * configured and in memory otherwise (see store.ts)
  */
 
-import { FallbackRateLimiter, createFallbackRateLimiter } from './fallback';
+import { RateLimiter, createRateLimiter, type RateLimitContext } from './limiter';
 
 /**
  * Rate limit configurations for different endpoints
- * Currently using fallback (no-op) implementation
  */
 export const rateLimits = {
   // Form submission - 10 submissions per hour per IP
-  formSubmission: createFallbackRateLimiter({
+  formSubmission: createRateLimiter({
     limiter: { requests: 10, window: '1 h' },
     prefix: 'ratelimit:form-submission',
-    analytics: true,
   }),
 
   // API endpoints - 100 requests per minute per user
-  apiEndpoint: createFallbackRateLimiter({
+  apiEndpoint: createRateLimiter({
     limiter: { requests: 100, window: '1 m' },
     prefix: 'ratelimit:api',
-    analytics: true,
   }),
 
   // Authentication - 5 login attempts per 15 minutes per IP
-  auth: createFallbackRateLimiter({
+  auth: createRateLimiter({
     limiter: { requests: 5, window: '15 m' },
     prefix: 'ratelimit:auth',
-    analytics: true,
   }),
 
   // Form creation - 20 forms per day per user
-  formCreation: createFallbackRateLimiter({
+  formCreation: createRateLimiter({
     limiter: { requests: 20, window: '1 d' },
     prefix: 'ratelimit:form-creation',
-    analytics: true,
   }),
 
   // Export operations - 5 exports per hour per user
-  export: createFallbackRateLimiter({
+  export: createRateLimiter({
     limiter: { requests: 5, window: '1 h' },
     prefix: 'ratelimit:export',
-    analytics: true,
   }),
 
   // Analytics queries - 60 requests per minute per user
-  analytics: createFallbackRateLimiter({
+  analytics: createRateLimiter({
     limiter: { requests: 60, window: '1 m' },
     prefix: 'ratelimit:analytics',
-    analytics: true,
+  }),
+
+  // Answer saves - 120 per minute per IP (one per answered question)
+  answerSave: createRateLimiter({
+    limiter: { requests: 120, window: '1 m' },
+    prefix: 'ratelimit:answer-save',
+  }),
+
+  // Response file uploads - 20 per hour per IP
+  fileUpload: createRateLimiter({
+    limiter: { requests: 20, window: '1 h' },
+    prefix: 'ratelimit:file-upload',
   }),
 };
 
@@ -66,7 +67,6 @@ export interface RateLimitResult {
   limit: number;
   remaining: number;
   reset: number;
-  pending?: Promise<unknown>;
 }
 
 /**
@@ -80,35 +80,52 @@ export function getRateLimitHeaders(result: RateLimitResult): Record<string, str
   };
 }
 
+/**
+ * Client IP address from proxy headers
+ */
+export function getClientIp(headers: Headers): string {
+  const forwarded = headers.get('x-forwarded-for');
+  return forwarded ? forwarded.split(',')[0].trim() : headers.get('x-real-ip') || 'unknown';
+}
+
 /**
  * Get identifier for rate limiting (IP or user ID)
  */
-export function getRateLimitIdentifier(request: Request, userId?: string): string {
+export function getRateLimitIdentifier(request: Request | Headers, userId?: string): string {
   // Prefer user ID if authenticated
   if (userId) {
     return `user:${userId}`;
   }
 
   // Fall back to IP address
-  const forwarded = request.headers.get('x-forwarded-for');
-  const ip = forwarded ? forwarded.split(',')[0].trim() : request.headers.get('x-real-ip') || 'unknown';
-  return `ip:${ip}`;
+  return `ip:${getClientIp(request instanceof Headers ? request : request.headers)}`;
+}
+
+/**
+ * Request details recorded when a request to a route is rejected
+ */
+export function getRateLimitContext(request: Request): RateLimitContext {
+  return {
+    source: `${request.method} ${new URL(request.url).pathname}`,
+    ipAddress: getClientIp(request.headers),
+    userAgent: request.headers.get('user-agent'),
+  };
 }
 
 /**
  * Check rate limit and return result
  */
 export async function checkRateLimit(
-  limiter: FallbackRateLimiter,
-  identifier: string
+  limiter: RateLimiter,
+  identifier: string,
+  context?: RateLimitContext
 ): Promise<RateLimitResult> {
-  const result = await limiter.limit(identifier);
+  const result = await limiter.limit(identifier, context);
 
   return {
     success: result.success,
     limit: result.limit,
     remaining: result.remaining,
     reset: result.reset,
-    pending: result.pending,
   };
 }
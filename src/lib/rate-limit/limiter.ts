@@ -0,0 +1,83 @@
+/**
+ * Rate Limiter
+ * Sliding window limiter over the shared rate limit store. Rejections are
+ * written to audit_logs.
+ */
+
+import { getRateLimitStore } from './store';
+import { logRateLimitRejection } from './audit';
+
+export type RateLimitWindow = `${number} ${'s' | 'm' | 'h' | 'd'}`;
+
+export interface RateLimiterConfig {
+  limiter: { requests: number; window: RateLimitWindow };
+  prefix: string;
+}
+
+/**
+ * Where a limited request came from, recorded with rejections
+ */
+export interface RateLimitContext {
+  source: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface LimitResult {
+  success: boolean;
+  limit: number;
+  remaining: number;
+  reset: number;
+}
+
+const WINDOW_UNITS_MS = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+} as const;
+
+export function parseRateLimitWindow(window: RateLimitWindow): number {
+  const [amount, unit] = window.split(' ') as [string, keyof typeof WINDOW_UNITS_MS];
+  return Number(amount) * WINDOW_UNITS_MS[unit];
+}
+
+export class RateLimiter {
+  readonly requests: number;
+  readonly windowMs: number;
+  readonly prefix: string;
+
+  constructor(config: RateLimiterConfig) {
+    this.requests = config.limiter.requests;
+    this.windowMs = parseRateLimitWindow(config.limiter.window);
+    this.prefix = config.prefix;
+  }
+
+  async limit(identifier: string, context?: RateLimitContext): Promise<LimitResult> {
+    const decision = await getRateLimitStore().consume(`${this.prefix}:${identifier}`, this.requests, this.windowMs);
+
+    if (!decision.allowed) {
+      await logRateLimitRejection({
+        limiter: this.prefix,
+        identifier,
+        limit: this.requests,
+        windowMs: this.windowMs,
+        reset: decision.reset,
+        source: context?.source,
+        ipAddress: context?.ipAddress,
+        userAgent: context?.userAgent,
+      });
+    }
+
+    return {
+      success: decision.allowed,
+      limit: this.requests,
+      remaining: decision.remaining,
+      reset: decision.reset,
+    };
+  }
+}
+
+export function createRateLimiter(config: RateLimiterConfig): RateLimiter {
+  return new RateLimiter(config);
+}
@@ -0,0 +1,97 @@
+/**
+ * In-memory rate limit store
+ * Counters live in this process only, so each server instance enforces its
+ * own limits. Used in development and when Postgres is unavailable.
+ */
+
+import type { RateLimitDecision, RateLimitStore } from './store';
+
+interface WindowCounts {
+  windowStart: number;
+  windowMs: number;
+  current: number;
+  previous: number;
+}
+
+// Keys kept before idle ones are swept
+const MAX_KEYS = 10000;
+
+/**
+ * Sliding window estimate: the previous window's count, weighted by how much
+ * of it still overlaps the window ending now, plus the current count.
+ * Mirrors consume_rate_limit in the rate limits migration.
+ */
+function decideSlidingWindow(
+  previousCount: number,
+  currentCount: number,
+  now: number,
+  windowStart: number,
+  limit: number,
+  windowMs: number
+): RateLimitDecision {
+  const elapsed = (now - windowStart) / windowMs;
+  const estimate = previousCount * (1 - elapsed) + currentCount;
+  const reset = windowStart + windowMs;
+
+  if (estimate + 1 > limit) {
+    return { allowed: false, remaining: 0, reset };
+  }
+
+  return { allowed: true, remaining: Math.max(0, Math.floor(limit - estimate - 1)), reset };
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly type = 'memory' as const;
+  private windows = new Map<string, WindowCounts>();
+
+  async consume(key: string, limit: number, windowMs: number): Promise<RateLimitDecision> {
+    const now = Date.now();
+    const windowStart = now - (now % windowMs);
+    const counts = this.roll(this.windows.get(key), windowStart, windowMs);
+
+    const decision = decideSlidingWindow(counts.previous, counts.current, now, windowStart, limit, windowMs);
+
+    if (decision.allowed) {
+      counts.current++;
+    }
+
+    this.windows.set(key, counts);
+    this.sweep(now);
+
+    return decision;
+  }
+
+  /**
+   * Move a key's counts forward to the window starting at `windowStart`
+   */
+  private roll(counts: WindowCounts | undefined, windowStart: number, windowMs: number): WindowCounts {
+    if (!counts || counts.windowMs !== windowMs || counts.windowStart < windowStart - windowMs) {
+      return { windowStart, windowMs, current: 0, previous: 0 };
+    }
+
+    if (counts.windowStart < windowStart) {
+      return { windowStart, windowMs, current: 0, previous: counts.current };
+    }
+
+    return counts;
+  }
+
+  /**
+   * Drop keys whose counts can no longer affect a decision
+   */
+  private sweep(now: number): void {
+    if (this.windows.size <= MAX_KEYS) return;
+
+    for (const [key, counts] of Array.from(this.windows)) {
+      if (counts.windowStart + 2 * counts.windowMs <= now) {
+        this.windows.delete(key);
+      }
+    }
+
+    // Still too many active keys: forget the oldest rather than grow without bound
+    for (const key of this.windows.keys()) {
+      if (this.windows.size <= MAX_KEYS) break;
+      this.windows.delete(key);
+    }
+  }
+}
@@ -5,7 +5,16 @@
 
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { rateLimits, getRateLimitIdentifier, checkRateLimit, getRateLimitHeaders } from './config';
+import { headers } from 'next/headers';
+import {
+  rateLimits,
+  getClientIp,
+  getRateLimitIdentifier,
+  getRateLimitContext,
+  checkRateLimit,
+  getRateLimitHeaders,
+  type RateLimitResult,
+} from './config';
 
 /**
  * Apply rate limiting to a request
@@ -18,7 +27,7 @@ export async function withRateLimit(
   const identifier = getRateLimitIdentifier(request, userId);
   const limiter = rateLimits[limiterType];
 
-  const result = await checkRateLimit(limiter, identifier);
+  const result = await checkRateLimit(limiter, identifier, getRateLimitContext(request));
 
   if (!result.success) {
     return NextResponse.json(
@@ -42,24 +51,30 @@ export async function withRateLimit(
 }
 
 /**
- * Higher-order function to wrap server actions with rate limiting
+ * Apply rate limiting to a server action
+ * Identifies the caller by user ID when signed in, otherwise by the IP in the
+ * request headers. `source` names the action in the audit log.
  */
-export function withServerActionRateLimit<T extends (...args: any[]) => Promise<any>>(
-  action: T,
+export async function checkActionRateLimit(
   limiterType: keyof typeof rateLimits,
-  getUserId?: (...args: Parameters<T>) => string | undefined
-): T {
-  return (async (...args: Parameters<T>) => {
-    // This is a simplified version - in production, you'd need to get the request object
-    // For server actions, consider using headers() from 'next/headers'
-    const userId = getUserId ? getUserId(...args) : undefined;
+  source: string,
+  userId?: string
+): Promise<RateLimitResult> {
+  const requestHeaders = await headers();
 
-    // For server actions, we'll skip request-based rate limiting
-    // and use user-based or IP-based as fallback
-    // In a real implementation, you'd integrate with the server action context
+  return checkRateLimit(rateLimits[limiterType], getRateLimitIdentifier(requestHeaders, userId), {
+    source,
+    ipAddress: getClientIp(requestHeaders),
+    userAgent: requestHeaders.get('user-agent'),
+  });
+}
 
-    return await action(...args);
-  }) as T;
+/**
+ * Message for a server action rejected by its rate limit
+ */
+export function getRateLimitMessage(result: RateLimitResult): string {
+  const minutes = Math.max(1, Math.ceil((result.reset - Date.now()) / 60000));
+  return `Too many attempts. Please try again in ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}.`;
 }
 
 /**
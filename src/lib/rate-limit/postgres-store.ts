@@ -0,0 +1,54 @@
+/**
+ * Postgres rate limit store
+ * Counters live in rate_limit_windows and are updated atomically by the
+ * consume_rate_limit function, so every server instance shares them.
+ * Falls back to the in-memory store if the database can't be reached, so an
+ * outage degrades to per-instance limits rather than blocking everyone.
+ */
+
+import { createAdminClient } from '@/utils/supabase/admin';
+import { MemoryRateLimitStore } from './memory-store';
+import type { RateLimitDecision, RateLimitStore } from './store';
+
+// How often this process deletes windows of keys that went quiet
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly type = 'postgres' as const;
+  private fallback = new MemoryRateLimitStore();
+  private lastCleanup = Date.now();
+
+  async consume(key: string, limit: number, windowMs: number): Promise<RateLimitDecision> {
+    // consume_rate_limit is only executable by the service role
+    const supabase = createAdminClient();
+    if (!supabase) {
+      return this.fallback.consume(key, limit, windowMs);
+    }
+
+    const { data, error } = await supabase.rpc('consume_rate_limit', {
+      p_key: key,
+      p_limit: limit,
+      p_window_ms: windowMs,
+    });
+
+    if (error || !data) {
+      console.error('[Rate Limit] Postgres store failed, using in-memory counts:', error);
+      return this.fallback.consume(key, limit, windowMs);
+    }
+
+    this.cleanup(supabase);
+
+    return data as RateLimitDecision;
+  }
+
+  private cleanup(supabase: NonNullable<ReturnType<typeof createAdminClient>>): void {
+    if (Date.now() - this.lastCleanup < CLEANUP_INTERVAL_MS) return;
+    this.lastCleanup = Date.now();
+
+    supabase.rpc('cleanup_rate_limit_windows').then(({ error }) => {
+      if (error) {
+        console.error('[Rate Limit] Failed to clean up rate limit windows:', error);
+      }
+    });
+  }
+}
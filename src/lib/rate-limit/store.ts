@@ -0,0 +1,44 @@
+/**
+ * Rate Limit Store
+ * Sliding window counters, one pair of fixed-window counts per key.
+ * Uses Postgres when the service role is configured (shared by every server
+ * instance), otherwise an in-process store.
+ */
+
+import { MemoryRateLimitStore } from './memory-store';
+import { PostgresRateLimitStore } from './postgres-store';
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  reset: number; // Epoch milliseconds when the current window ends
+}
+
+export interface RateLimitStore {
+  readonly type: 'memory' | 'postgres';
+  /** Count one request against the key if it fits under `limit` per `windowMs` */
+  consume(key: string, limit: number, windowMs: number): Promise<RateLimitDecision>;
+}
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Get the shared rate limit store
+ * RATE_LIMIT_STORE=memory|postgres overrides the default.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    const configured = process.env.RATE_LIMIT_STORE;
+    const usePostgres = configured
+      ? configured === 'postgres'
+      : !!process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    store = usePostgres ? new PostgresRateLimitStore() : new MemoryRateLimitStore();
+
+    if (store.type === 'memory') {
+      console.log('Rate limits are kept in memory; each server instance counts separately');
+    }
+  }
+
+  return store;
+}
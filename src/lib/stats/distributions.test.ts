@@ -0,0 +1,166 @@
+/**
+ * Distribution functions against published reference values
+ * Critical values are from the standard statistical tables (t, χ², F and
+ * the studentized range, e.g. Harter 1960 for q); incomplete gamma and beta
+ * values are checked where they have closed forms.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  chiSquareInverse,
+  chiSquarePValue,
+  fInverse,
+  fPValue,
+  logGamma,
+  normalCDF,
+  normalInverse,
+  regularizedBeta,
+  regularizedGammaP,
+  regularizedGammaQ,
+  studentizedRangeInverse,
+  studentizedRangePValue,
+  studentTCDF,
+  studentTInverse,
+  studentTPValue,
+} from './distributions';
+
+function assertClose(actual: number, expected: number, tolerance: number) {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${expected} ± ${tolerance}, got ${actual}`
+  );
+}
+
+describe('logGamma', () => {
+  it('matches factorials and Γ(1/2) = √π', () => {
+    assertClose(logGamma(5), Math.log(24), 1e-10);
+    assertClose(logGamma(11), Math.log(3628800), 1e-9);
+    assertClose(logGamma(0.5), 0.5 * Math.log(Math.PI), 1e-10);
+  });
+});
+
+describe('incomplete gamma', () => {
+  it('matches closed forms', () => {
+    // P(1, x) = 1 - e^-x
+    assertClose(regularizedGammaP(1, 1), 1 - Math.exp(-1), 1e-8);
+    // P(1/2, x) = erf(√x); erf(1) = 0.8427007929
+    assertClose(regularizedGammaP(0.5, 1), 0.8427007929, 1e-8);
+    // P(3, 2) = 1 - e^-2 (1 + 2 + 2)
+    assertClose(regularizedGammaP(3, 2), 1 - 5 * Math.exp(-2), 1e-8);
+    // Q(a, x) for integer a is the Poisson CDF: P(X ≤ 4 | λ = 3) = 0.8152632445
+    assertClose(regularizedGammaQ(5, 3), 0.8152632445, 1e-8);
+    // P(X ≤ 9 | λ = 5) = 0.9681719426
+    assertClose(regularizedGammaQ(10, 5), 0.9681719426, 1e-8);
+  });
+
+  it('P and Q are complementary', () => {
+    assertClose(regularizedGammaP(7.5, 4.2) + regularizedGammaQ(7.5, 4.2), 1, 1e-12);
+  });
+});
+
+describe('incomplete beta', () => {
+  it('matches closed forms', () => {
+    // I_x(a, b) for integers is a binomial tail: P(Bin(4, 0.5) ≥ 2) = 11/16
+    assertClose(regularizedBeta(0.5, 2, 3), 0.6875, 1e-10);
+    // P(Bin(6, 0.3) ≥ 2) = 0.579825
+    assertClose(regularizedBeta(0.3, 2, 5), 0.579825, 1e-10);
+    // Arcsine distribution: I_x(1/2, 1/2) = (2/π) asin(√x)
+    assertClose(regularizedBeta(0.2, 0.5, 0.5), (2 / Math.PI) * Math.asin(Math.sqrt(0.2)), 1e-8);
+    // I_x(a, 1) = x^a
+    assertClose(regularizedBeta(0.7, 3.5, 1), Math.pow(0.7, 3.5), 1e-10);
+  });
+
+  it('is symmetric: I_x(a, b) = 1 - I_(1-x)(b, a)', () => {
+    assertClose(regularizedBeta(0.35, 4.2, 2.7), 1 - regularizedBeta(0.65, 2.7, 4.2), 1e-12);
+  });
+});
+
+describe('normal distribution', () => {
+  it('matches z tables', () => {
+    assertClose(normalCDF(1.959964), 0.975, 1e-6);
+    assertClose(normalCDF(-1.644854), 0.05, 1e-6);
+    assertClose(normalInverse(0.975), 1.959964, 1e-5);
+    assertClose(normalInverse(0.995), 2.575829, 1e-5);
+  });
+});
+
+describe('Student t distribution', () => {
+  it('matches t tables', () => {
+    assertClose(studentTInverse(0.975, 1), 12.706205, 1e-4);
+    assertClose(studentTInverse(0.975, 10), 2.228139, 1e-5);
+    assertClose(studentTInverse(0.995, 20), 2.845340, 1e-5);
+    assertClose(studentTInverse(0.95, 30), 1.697261, 1e-5);
+  });
+
+  it('CDF and p-values agree with the tabled quantiles', () => {
+    assertClose(studentTCDF(2.228139, 10), 0.975, 1e-6);
+    assertClose(studentTCDF(-2.228139, 10), 0.025, 1e-6);
+    assertClose(studentTPValue(2.228139, 10), 0.05, 1e-6);
+    assertClose(studentTPValue(1.697261, 30, 1), 0.05, 1e-6);
+    // df = 2 has a closed form: P(|T| > t) = 1 - t / √(2 + t²)
+    assertClose(studentTPValue(3, 2), 1 - 3 / Math.sqrt(11), 1e-10);
+  });
+});
+
+describe('chi-square distribution', () => {
+  it('matches χ² tables', () => {
+    assertClose(chiSquareInverse(0.95, 1), 3.841459, 1e-5);
+    assertClose(chiSquareInverse(0.95, 10), 18.307038, 1e-5);
+    assertClose(chiSquareInverse(0.99, 5), 15.086272, 1e-5);
+    assertClose(chiSquareInverse(0.05, 2), 0.102587, 1e-5);
+  });
+
+  it('p-values agree with the tabled quantiles', () => {
+    assertClose(chiSquarePValue(3.841459, 1), 0.05, 1e-6);
+    assertClose(chiSquarePValue(18.307038, 10), 0.05, 1e-6);
+    // df = 2 is exponential: P(χ² > x) = e^(-x/2)
+    assertClose(chiSquarePValue(7.3, 2), Math.exp(-3.65), 1e-10);
+  });
+});
+
+describe('F distribution', () => {
+  it('matches F tables', () => {
+    assertClose(fInverse(0.95, 1, 10), 4.964603, 1e-5);
+    assertClose(fInverse(0.95, 3, 20), 3.098391, 1e-5);
+    assertClose(fInverse(0.95, 5, 10), 3.325835, 1e-5);
+    assertClose(fInverse(0.99, 2, 30), 5.390346, 1e-5);
+  });
+
+  it('p-values agree with the tabled quantiles', () => {
+    assertClose(fPValue(4.964603, 1, 10), 0.05, 1e-6);
+    assertClose(fPValue(5.390346, 2, 30), 0.01, 1e-6);
+    // df1 = 2 has a closed form: P(F > f) = (1 + 2f / df2)^(-df2 / 2)
+    assertClose(fPValue(2.5, 2, 17.3), Math.pow(1 + 5 / 17.3, -17.3 / 2), 1e-10);
+  });
+});
+
+describe('studentized range distribution', () => {
+  it('matches q tables at α = 0.05', () => {
+    const table: Array<[groups: number, df: number, q: number]> = [
+      [2, 5, 3.635],
+      [3, 10, 3.877],
+      [3, 12, 3.773],
+      [3, 60, 3.399],
+      [4, 20, 3.958],
+      [5, 30, 4.102],
+      [10, 60, 4.646],
+    ];
+
+    table.forEach(([groups, df, q]) => {
+      assertClose(studentizedRangeInverse(0.95, groups, df), q, 1e-3);
+      assertClose(studentizedRangePValue(q, groups, df), 0.05, 5e-4);
+    });
+  });
+
+  it('matches q tables at α = 0.01', () => {
+    assertClose(studentizedRangeInverse(0.99, 3, 10), 5.270, 1e-3);
+    assertClose(studentizedRangeInverse(0.99, 5, 20), 5.293, 1e-3);
+  });
+
+  it('reduces to the t distribution for two groups', () => {
+    // q = √2 |t|
+    assertClose(studentizedRangePValue(3, 2, 10), studentTPValue(3 / Math.SQRT2, 10), 1e-8);
+    assertClose(studentizedRangePValue(5, 2, 30), studentTPValue(5 / Math.SQRT2, 30), 1e-8);
+  });
+});
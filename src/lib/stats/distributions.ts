@@ -0,0 +1,482 @@
+/**
+ * Probability distributions
+ * Special functions (log-gamma, regularized incomplete gamma and beta) and the
+ * normal, chi-square, Student t and F distributions built on top of them
+ */
+
+const EPSILON = 1e-14;
+const MAX_ITERATIONS = 500;
+const TINY = 1e-300;
+
+const LANCZOS_COEFFICIENTS = [
+  0.99999999999980993,
+  676.5203681218851,
+  -1259.1392167224028,
+  771.32342877765313,
+  -176.61502916214059,
+  12.507343278686905,
+  -0.13857109526572012,
+  9.9843695780195716e-6,
+  1.5056327351493116e-7,
+];
+
+/**
+ * Natural log of the gamma function (Lanczos approximation, g = 7)
+ */
+export function logGamma(x: number): number {
+  if (x < 0.5) {
+    // Reflection formula: Γ(x)Γ(1-x) = π / sin(πx)
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+
+  const z = x - 1;
+  let sum = LANCZOS_COEFFICIENTS[0];
+  for (let i = 1; i < LANCZOS_COEFFICIENTS.length; i++) {
+    sum += LANCZOS_COEFFICIENTS[i] / (z + i);
+  }
+
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/**
+ * Natural log of the beta function
+ */
+export function logBeta(a: number, b: number): number {
+  return logGamma(a) + logGamma(b) - logGamma(a + b);
+}
+
+/**
+ * Series expansion of P(a, x), converges quickly for x < a + 1
+ */
+function gammaSeries(a: number, x: number): number {
+  let term = 1 / a;
+  let sum = term;
+
+  for (let n = 1; n < MAX_ITERATIONS; n++) {
+    term *= x / (a + n);
+    sum += term;
+    if (Math.abs(term) < Math.abs(sum) * EPSILON) break;
+  }
+
+  return sum * Math.exp(-x + a * Math.log(x) - logGamma(a));
+}
+
+/**
+ * Continued fraction for Q(a, x) (modified Lentz), converges quickly for x ≥ a + 1
+ */
+function gammaContinuedFraction(a: number, x: number): number {
+  let b = x + 1 - a;
+  let c = 1 / TINY;
+  let d = 1 / b;
+  let h = d;
+
+  for (let i = 1; i < MAX_ITERATIONS; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = b + an / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+
+  return Math.exp(-x + a * Math.log(x) - logGamma(a)) * h;
+}
+
+/**
+ * Regularized lower incomplete gamma function P(a, x)
+ */
+export function regularizedGammaP(a: number, x: number): number {
+  if (x <= 0) return 0;
+  if (!Number.isFinite(x)) return 1;
+
+  return x < a + 1 ? gammaSeries(a, x) : 1 - gammaContinuedFraction(a, x);
+}
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x) = 1 - P(a, x)
+ */
+export function regularizedGammaQ(a: number, x: number): number {
+  if (x <= 0) return 1;
+  if (!Number.isFinite(x)) return 0;
+
+  return x < a + 1 ? 1 - gammaSeries(a, x) : gammaContinuedFraction(a, x);
+}
+
+/**
+ * Continued fraction for the incomplete beta function (modified Lentz)
+ */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const qab = a + b;
+  const qap = a + 1;
+  const qam = a - 1;
+  let c = 1;
+  let d = 1 - (qab * x) / qap;
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m < MAX_ITERATIONS; m++) {
+    const m2 = 2 * m;
+
+    // Even step
+    let aa = (m * (b - m) * x) / ((qam + m2) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    h *= d * c;
+
+    // Odd step
+    aa = (-(a + m) * (qab + m) * x) / ((a + m2) * (qap + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+
+  return h;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ */
+export function regularizedBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(a * Math.log(x) + b * Math.log(1 - x) - logBeta(a, b));
+
+  // The continued fraction converges fastest on this side of the mean;
+  // use the symmetry I_x(a, b) = 1 - I_{1-x}(b, a) otherwise
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(x, a, b)) / a;
+  }
+  return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/**
+ * Invert a monotonically increasing CDF on [lower, ∞) by bracketing and bisection
+ */
+function invertCDF(cdf: (x: number) => number, p: number, lower: number, initialUpper: number): number {
+  let lo = lower;
+  let hi = initialUpper;
+
+  // Expand the bracket until it contains the target probability
+  while (cdf(hi) < p) {
+    lo = hi;
+    hi *= 2;
+    if (hi > 1e12) return Infinity;
+  }
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    if (cdf(mid) < p) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+    if (hi - lo <= 1e-12 * Math.max(1, Math.abs(mid))) break;
+  }
+
+  return (lo + hi) / 2;
+}
+
+// ============================================================================
+// Normal distribution
+// ============================================================================
+
+/**
+ * Standard normal cumulative distribution function Φ(z)
+ */
+export function normalCDF(z: number, mean: number = 0, standardDeviation: number = 1): number {
+  const x = (z - mean) / standardDeviation;
+  if (Number.isNaN(x)) return NaN;
+
+  // Φ(x) = (1 + erf(x/√2)) / 2 and erf(y) = P(1/2, y²)
+  const tail = 0.5 * regularizedGammaQ(0.5, (x * x) / 2);
+  return x < 0 ? tail : 1 - tail;
+}
+
+/**
+ * Inverse of the normal CDF (quantile function)
+ * Acklam's rational approximation refined with one Halley step
+ */
+export function normalInverse(p: number, mean: number = 0, standardDeviation: number = 1): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+
+  const pLow = 0.02425;
+  let x: number;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    x = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  } else if (p <= 1 - pLow) {
+    const q = p - 0.5;
+    const r = q * q;
+    x = ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+      (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+  } else {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    x = -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  // Halley refinement
+  const e = normalCDF(x) - p;
+  const u = e * Math.sqrt(2 * Math.PI) * Math.exp((x * x) / 2);
+  x = x - u / (1 + (x * u) / 2);
+
+  return mean + standardDeviation * x;
+}
+
+// ============================================================================
+// Chi-square distribution
+// ============================================================================
+
+/**
+ * Chi-square cumulative distribution function
+ */
+export function chiSquareCDF(x: number, degreesOfFreedom: number): number {
+  if (x <= 0) return 0;
+  return regularizedGammaP(degreesOfFreedom / 2, x / 2);
+}
+
+/**
+ * Upper-tail probability P(X ≥ x), i.e. the p-value of a chi-square statistic
+ */
+export function chiSquarePValue(x: number, degreesOfFreedom: number): number {
+  if (x <= 0) return 1;
+  return regularizedGammaQ(degreesOfFreedom / 2, x / 2);
+}
+
+/**
+ * Inverse of the chi-square CDF
+ */
+export function chiSquareInverse(p: number, degreesOfFreedom: number): number {
+  if (p <= 0) return 0;
+  if (p >= 1) return Infinity;
+  return invertCDF((x) => chiSquareCDF(x, degreesOfFreedom), p, 0, Math.max(1, degreesOfFreedom));
+}
+
+// ============================================================================
+// Student t distribution
+// ============================================================================
+
+/**
+ * Student t cumulative distribution function
+ */
+export function studentTCDF(t: number, degreesOfFreedom: number): number {
+  if (!Number.isFinite(t)) return t > 0 ? 1 : 0;
+
+  const x = degreesOfFreedom / (degreesOfFreedom + t * t);
+  const tail = 0.5 * regularizedBeta(x, degreesOfFreedom / 2, 0.5);
+  return t < 0 ? tail : 1 - tail;
+}
+
+/**
+ * p-value of a t statistic (two-tailed by default)
+ */
+export function studentTPValue(
+  t: number,
+  degreesOfFreedom: number,
+  tails: 1 | 2 = 2
+): number {
+  if (Number.isNaN(t)) return NaN;
+
+  const x = degreesOfFreedom / (degreesOfFreedom + t * t);
+  const twoTailed = regularizedBeta(x, degreesOfFreedom / 2, 0.5);
+
+  if (tails === 2) return twoTailed;
+  return t >= 0 ? twoTailed / 2 : 1 - twoTailed / 2;
+}
+
+/**
+ * Inverse of the Student t CDF
+ */
+export function studentTInverse(p: number, degreesOfFreedom: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  if (p === 0.5) return 0;
+
+  // Solve on the upper half and use symmetry for the lower half
+  const upper = p > 0.5 ? p : 1 - p;
+  const t = invertCDF((x) => studentTCDF(x, degreesOfFreedom), upper, 0, 2);
+  return p > 0.5 ? t : -t;
+}
+
+/**
+ * Two-sided critical t value for a confidence level (e.g. 0.95 → t₀.₉₇₅)
+ */
+export function studentTCritical(confidenceLevel: number, degreesOfFreedom: number): number {
+  return studentTInverse(1 - (1 - confidenceLevel) / 2, degreesOfFreedom);
+}
+
+// ============================================================================
+// F distribution
+// ============================================================================
+
+/**
+ * F cumulative distribution function
+ */
+export function fCDF(f: number, df1: number, df2: number): number {
+  if (f <= 0) return 0;
+  return regularizedBeta((df1 * f) / (df1 * f + df2), df1 / 2, df2 / 2);
+}
+
+/**
+ * Upper-tail probability P(F ≥ f), i.e. the p-value of an F statistic
+ */
+export function fPValue(f: number, df1: number, df2: number): number {
+  if (f <= 0) return 1;
+  // Computed directly from the upper tail to keep precision for tiny p-values
+  return regularizedBeta(df2 / (df2 + df1 * f), df2 / 2, df1 / 2);
+}
+
+/**
+ * Inverse of the F CDF
+ */
+export function fInverse(p: number, df1: number, df2: number): number {
+  if (p <= 0) return 0;
+  if (p >= 1) return Infinity;
+  return invertCDF((x) => fCDF(x, df1, df2), p, 0, 2);
+}
+
+// ============================================================================
+// Studentized range distribution
+// ============================================================================
+
+// Gauss-Legendre nodes and weights (positive half) for the two quadratures below
+const RANGE_NODES = [
+  0.98156063424671925, 0.90411725637047486, 0.76990267419430469,
+  0.58731795428661745, 0.36783149899818019, 0.12523340851146892,
+];
+const RANGE_WEIGHTS = [
+  0.047175336386511827, 0.10693932599531843, 0.16007832854334623,
+  0.20316742672306592, 0.23349253653835481, 0.24914704581340279,
+];
+const DF_NODES = [
+  0.98940093499164993, 0.94457502307323258, 0.86563120238783174, 0.75540440835500303,
+  0.61787624440264375, 0.45801677765722739, 0.28160355077925891, 0.09501250983763744,
+];
+const DF_WEIGHTS = [
+  0.027152459411754095, 0.062253523938647893, 0.095158511682492785, 0.12462897125553387,
+  0.14959598881657673, 0.16915651939500254, 0.18260341504492359, 0.18945061045506850,
+];
+
+/**
+ * Probability that the range of `groups` standard normal values is below w
+ * (Hartley's form, integrated with Gauss-Legendre quadrature)
+ */
+function normalRangeCDF(w: number, groups: number): number {
+  const half = w / 2;
+  if (half >= 8) return 1;
+
+  // P(all values within ±w/2)
+  const inner = 2 * normalCDF(half) - 1;
+  let probability = inner >= Math.exp(-50 / groups) ? Math.pow(inner, groups) : 0;
+
+  // Integrate over the position of the smallest value, on (w/2, 8)
+  const intervals = w > 3 ? 2 : 3;
+  const width = (8 - half) / intervals;
+  let lower = half;
+
+  for (let interval = 0; interval < intervals; interval++) {
+    const center = lower + width / 2;
+    let sum = 0;
+
+    for (let i = 0; i < 2 * RANGE_NODES.length; i++) {
+      const index = i < RANGE_NODES.length ? i : 2 * RANGE_NODES.length - 1 - i;
+      const x = center + (width / 2) * (i < RANGE_NODES.length ? -RANGE_NODES[index] : RANGE_NODES[index]);
+      if (x * x > 60) break;
+
+      const within = normalCDF(x) - normalCDF(x - w);
+      if (within >= Math.exp(-30 / (groups - 1))) {
+        sum += RANGE_WEIGHTS[index] * Math.exp(-0.5 * x * x) * Math.pow(within, groups - 1);
+      }
+    }
+
+    probability += (sum * width * groups) / Math.sqrt(2 * Math.PI);
+    lower += width;
+  }
+
+  return Math.min(1, probability);
+}
+
+/**
+ * Studentized range cumulative distribution function P(Q ≤ q)
+ * Copenhaver & Holland (1988): the normal range integrated over the
+ * distribution of the standard deviation estimate.
+ *
+ * @param q - Studentized range statistic
+ * @param groups - Number of means compared
+ * @param degreesOfFreedom - Error degrees of freedom (need not be an integer)
+ */
+export function studentizedRangeCDF(q: number, groups: number, degreesOfFreedom: number): number {
+  if (q <= 0 || Number.isNaN(q)) return 0;
+  if (!Number.isFinite(q)) return 1;
+  if (groups < 2 || degreesOfFreedom < 1) return NaN;
+  if (degreesOfFreedom > 25000) return normalRangeCDF(q, groups);
+
+  const halfDf = degreesOfFreedom / 2;
+  const step =
+    degreesOfFreedom <= 100 ? 1 : degreesOfFreedom <= 800 ? 0.5 : degreesOfFreedom <= 5000 ? 0.25 : 0.125;
+  const logConstant =
+    halfDf * Math.log(degreesOfFreedom) - degreesOfFreedom * Math.LN2 - logGamma(halfDf) + Math.log(step);
+
+  let probability = 0;
+
+  for (let interval = 1; interval <= 50; interval++) {
+    const center = (2 * interval - 1) * step;
+    let sum = 0;
+
+    for (let i = 0; i < DF_NODES.length; i++) {
+      for (const sign of [-1, 1]) {
+        const u = center + sign * DF_NODES[i] * step;
+        const logDensity = logConstant + (halfDf - 1) * Math.log(u) - (u * degreesOfFreedom) / 4;
+        if (logDensity < -30) continue;
+
+        sum += DF_WEIGHTS[i] * Math.exp(logDensity) * normalRangeCDF(q * Math.sqrt(u / 2), groups);
+      }
+    }
+
+    // The tail has stopped contributing (but cover at least u ≤ 1)
+    if (interval * step >= 1 && sum <= 1e-14) break;
+    probability += sum;
+  }
+
+  return Math.min(1, probability);
+}
+
+/**
+ * Upper-tail probability P(Q ≥ q), i.e. the p-value of a studentized range statistic
+ */
+export function studentizedRangePValue(q: number, groups: number, degreesOfFreedom: number): number {
+  return Math.max(0, 1 - studentizedRangeCDF(q, groups, degreesOfFreedom));
+}
+
+/**
+ * Inverse of the studentized range CDF (e.g. 0.95 → the Tukey HSD critical value)
+ */
+export function studentizedRangeInverse(p: number, groups: number, degreesOfFreedom: number): number {
+  if (p <= 0) return 0;
+  if (p >= 1) return Infinity;
+  return invertCDF((x) => studentizedRangeCDF(x, groups, degreesOfFreedom), p, 0, 4);
+}
@@ -0,0 +1,126 @@
+/**
+ * Matrix helpers against exact results: the inverse of the 4×4 Hilbert
+ * matrix, the eigenvalues 2 + √2, 2, 2 - √2 of the second-difference matrix,
+ * and eigen decompositions that must reproduce their matrix
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { crossProduct, invert, multiply, symmetricEigen, transpose } from './linear-algebra';
+
+function assertClose(actual: number, expected: number, tolerance: number) {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${expected} ± ${tolerance}, got ${actual}`
+  );
+}
+
+function assertMatrixClose(actual: number[][], expected: number[][], tolerance: number) {
+  assert.equal(actual.length, expected.length);
+  actual.forEach((row, i) => row.forEach((value, j) => assertClose(value, expected[i][j], tolerance)));
+}
+
+function identity(size: number): number[][] {
+  return Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => (i === j ? 1 : 0)));
+}
+
+const HILBERT_4 = [1, 2, 3, 4].map((i) => [1, 2, 3, 4].map((j) => 1 / (i + j - 1)));
+
+// Correlations of six items, two clusters of three
+const CORRELATIONS = [
+  [1, 0.62, 0.55, 0.21, 0.18, 0.1],
+  [0.62, 1, 0.58, 0.15, 0.22, 0.12],
+  [0.55, 0.58, 1, 0.2, 0.09, 0.16],
+  [0.21, 0.15, 0.2, 1, 0.51, 0.47],
+  [0.18, 0.22, 0.09, 0.51, 1, 0.44],
+  [0.1, 0.12, 0.16, 0.47, 0.44, 1],
+];
+
+describe('invert', () => {
+  it('inverts a 2×2 matrix', () => {
+    assertMatrixClose(invert([[4, 7], [2, 6]])!, [[0.6, -0.7], [-0.2, 0.4]], 1e-12);
+  });
+
+  it('pivots past a zero on the diagonal', () => {
+    assertMatrixClose(invert([[0, 1], [1, 0]])!, [[0, 1], [1, 0]], 1e-12);
+  });
+
+  it('matches the exact inverse of the Hilbert matrix', () => {
+    assertMatrixClose(
+      invert(HILBERT_4)!,
+      [
+        [16, -120, 240, -140],
+        [-120, 1200, -2700, 1680],
+        [240, -2700, 6480, -4200],
+        [-140, 1680, -4200, 2800],
+      ],
+      1e-7
+    );
+  });
+
+  it('gives the identity when multiplied back', () => {
+    assertMatrixClose(multiply(CORRELATIONS, invert(CORRELATIONS)!), identity(6), 1e-12);
+  });
+
+  it('returns null for a singular matrix', () => {
+    assert.equal(invert([[1, 2], [2, 4]]), null);
+    assert.equal(invert([[1, 2, 3], [4, 5, 6], [7, 8, 9]]), null);
+  });
+});
+
+describe('crossProduct', () => {
+  it("computes X'X and X'WX", () => {
+    const x = [[1, 2], [1, 3], [1, 5]];
+    assert.deepEqual(crossProduct(x), multiply(transpose(x), x));
+    assert.deepEqual(crossProduct(x, [1, 0, 2]), [[3, 12], [12, 54]]);
+  });
+});
+
+describe('symmetricEigen', () => {
+  it('finds the eigenvalues of the second-difference matrix in descending order', () => {
+    const { values, vectors } = symmetricEigen([
+      [2, -1, 0],
+      [-1, 2, -1],
+      [0, -1, 2],
+    ]);
+
+    assertClose(values[0], 2 + Math.SQRT2, 1e-12);
+    assertClose(values[1], 2, 1e-12);
+    assertClose(values[2], 2 - Math.SQRT2, 1e-12);
+
+    // (1, -√2, 1) / 2, up to sign
+    const sign = Math.sign(vectors[0][0]);
+    [0.5, -Math.SQRT1_2, 0.5].forEach((value, i) => assertClose(vectors[0][i] * sign, value, 1e-12));
+  });
+
+  it('reconstructs the matrix from orthonormal eigenvectors', () => {
+    [CORRELATIONS, HILBERT_4].forEach((matrix) => {
+      const { values, vectors } = symmetricEigen(matrix);
+      const n = matrix.length;
+
+      // V' V = I
+      assertMatrixClose(multiply(vectors, transpose(vectors)), identity(n), 1e-12);
+      // Σ λ v v' = A
+      const rebuilt = matrix.map((_, i) =>
+        matrix.map((_, j) => values.reduce((sum, value, k) => sum + value * vectors[k][i] * vectors[k][j], 0))
+      );
+      assertMatrixClose(rebuilt, matrix, 1e-12);
+      assertClose(values.reduce((sum, value) => sum + value, 0), n === 6 ? 6 : 1 + 1 / 3 + 1 / 5 + 1 / 7, 1e-12);
+    });
+  });
+
+  it('handles repeated eigenvalues', () => {
+    // Four items correlating 0.5: eigenvalues 1 + 3·0.5 and three of 1 - 0.5
+    const matrix = [0, 1, 2, 3].map((i) => [0, 1, 2, 3].map((j) => (i === j ? 1 : 0.5)));
+    const { values, vectors } = symmetricEigen(matrix);
+
+    [2.5, 0.5, 0.5, 0.5].forEach((value, i) => assertClose(values[i], value, 1e-12));
+    assertMatrixClose(multiply(vectors, transpose(vectors)), identity(4), 1e-12);
+  });
+
+  it('leaves a diagonal matrix alone apart from ordering', () => {
+    const { values, vectors } = symmetricEigen([[1, 0], [0, 3]]);
+    assert.deepEqual(values, [3, 1]);
+    assert.deepEqual(vectors, [[0, 1], [1, 0]]);
+  });
+});
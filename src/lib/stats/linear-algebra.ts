@@ -0,0 +1,136 @@
+/**
+ * Linear algebra
+ * Small dense-matrix helpers for model fitting. Matrices are arrays of rows.
+ */
+
+const SINGULAR_TOLERANCE = 1e-10;
+
+export function transpose(matrix: number[][]): number[][] {
+  return (matrix[0] ?? []).map((_, j) => matrix.map((row) => row[j]));
+}
+
+export function multiply(a: number[][], b: number[][]): number[][] {
+  return a.map((row) => (b[0] ?? []).map((_, j) => row.reduce((sum, value, k) => sum + value * b[k][j], 0)));
+}
+
+export function multiplyVector(matrix: number[][], vector: number[]): number[] {
+  return matrix.map((row) => row.reduce((sum, value, j) => sum + value * vector[j], 0));
+}
+
+/**
+ * X'WX for a design matrix X (one row per observation) and optional
+ * observation weights, without forming X' explicitly
+ */
+export function crossProduct(x: number[][], weights?: number[]): number[][] {
+  const columns = x[0]?.length ?? 0;
+  const result = Array.from({ length: columns }, () => new Array<number>(columns).fill(0));
+
+  x.forEach((row, i) => {
+    const weight = weights ? weights[i] : 1;
+    for (let j = 0; j < columns; j++) {
+      for (let k = j; k < columns; k++) {
+        result[j][k] += weight * row[j] * row[k];
+      }
+    }
+  });
+
+  for (let j = 0; j < columns; j++) {
+    for (let k = 0; k < j; k++) {
+      result[j][k] = result[k][j];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Inverse of a square matrix (Gauss-Jordan elimination with partial pivoting)
+ *
+ * @returns The inverse, or null when the matrix is (numerically) singular
+ */
+export function invert(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const scale = Math.max(1, ...matrix.map((row) => Math.max(...row.map(Math.abs))));
+  const augmented = matrix.map((row, i) => [
+    ...row,
+    ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)),
+  ]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(augmented[row][col]) > Math.abs(augmented[pivot][col])) pivot = row;
+    }
+    if (Math.abs(augmented[pivot][col]) < SINGULAR_TOLERANCE * scale) return null;
+    [augmented[col], augmented[pivot]] = [augmented[pivot], augmented[col]];
+
+    const pivotValue = augmented[col][col];
+    for (let j = 0; j < 2 * n; j++) augmented[col][j] /= pivotValue;
+
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = augmented[row][col];
+      if (factor === 0) continue;
+      for (let j = 0; j < 2 * n; j++) augmented[row][j] -= factor * augmented[col][j];
+    }
+  }
+
+  return augmented.map((row) => row.slice(n));
+}
+
+/**
+ * Eigenvalues and eigenvectors of a symmetric matrix (cyclic Jacobi rotations)
+ *
+ * @returns Eigenvalues in descending order, with eigenvectors[i] the unit
+ *   eigenvector of values[i]
+ */
+export function symmetricEigen(matrix: number[][]): { values: number[]; vectors: number[][] } {
+  const n = matrix.length;
+  const a = matrix.map((row) => [...row]);
+  const v = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j): number => (i === j ? 1 : 0)));
+
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) offDiagonal += a[p][q] * a[p][q];
+    }
+    if (offDiagonal < 1e-22) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) continue;
+
+        // Rotation angle that zeroes a[p][q]
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  const order = Array.from({ length: n }, (_, i) => i).sort((i, j) => a[j][j] - a[i][i]);
+  return {
+    values: order.map((i) => a[i][i]),
+    vectors: order.map((i) => v.map((row) => row[i])),
+  };
+}
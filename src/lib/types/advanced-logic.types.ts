@@ -4,6 +4,7 @@
  */
 
 import type { ConditionOperator } from './question.types';
+import type { AnswerValue } from './response.types';
 
 // Logical operators for combining conditions
 export type LogicalOperator = 'AND' | 'OR';
@@ -30,7 +31,8 @@ export type LogicAction =
   | 'require'        // Make target questions required
   | 'unrequire'      // Make target questions optional
   | 'set_value'      // Set value in target question (field piping)
-  | 'calculate';     // Calculate value for target question
+  | 'calculate'      // Calculate value for target question
+  | 'jump_to_section'; // Skip ahead to a section after this question's section
 
 // Value for set_value action
 export interface SetValueAction {
@@ -44,8 +46,17 @@ export interface SetValueAction {
 export interface CalculateAction {
   type: 'calculate';
   targetQuestionId: string;
-  formula: string; // Simple formula like "Q1 + Q2" or "Q1 * 2"
-  sourceQuestionIds: string[];
+  formula: string; // e.g. "Q1 + Q2" or "round(avg(Q1, Q2), 1)"; see formula-parser.ts
+  sourceQuestionIds: string[]; // Referenced as Q1, Q2, ... in order
+}
+
+// Jump target meaning "skip the remaining sections and submit"
+export const END_OF_FORM_SECTION = 'end';
+
+// Jump to section action
+export interface JumpToSectionAction {
+  type: 'jump_to_section';
+  targetSectionId: string; // Section id or END_OF_FORM_SECTION
 }
 
 // Advanced logic rule with support for complex conditions
@@ -65,6 +76,7 @@ export interface AdvancedLogicRule {
   // Additional action data
   setValue?: SetValueAction;
   calculate?: CalculateAction;
+  jumpToSection?: JumpToSectionAction;
 
   // Priority for conflicting rules (higher = takes precedence)
   priority?: number;
@@ -134,7 +146,8 @@ export interface LogicEvaluationResult {
   requiredQuestionIds: Set<string>;
   optionalQuestionIds: Set<string>;
   setValue: Map<string, unknown>; // questionId -> value to set
-  calculated: Map<string, number>; // questionId -> calculated value
+  calculated: Map<string, AnswerValue>; // questionId -> calculated value, shaped for the question type
+  sectionJumps: Map<string, string>; // section key of the rule's question -> target section id
 }
 
 // Conditional requirement configuration
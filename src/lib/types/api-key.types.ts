@@ -0,0 +1,29 @@
+/**
+ * API key types
+ * Personal keys authenticate requests to the /api/v1 REST API
+ */
+
+export type ApiKeyScope = 'forms:read' | 'responses:read' | 'responses:write' | 'analytics:read';
+
+/**
+ * A key as listed in settings; the hash never leaves the server
+ */
+export interface ApiKey {
+  id: string;
+  user_id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Returned once, when a key is created
+ */
+export interface CreatedApiKey {
+  apiKey: ApiKey;
+  plaintextKey: string;
+}
@@ -2,6 +2,7 @@
 
 import type { Question } from './question.types';
 import type { Response, Answer } from './response.types';
+import type { FormRole } from './workspace.types';
 
 export interface Form {
   id: string;
@@ -9,21 +10,120 @@ export interface Form {
   description?: string;
   schema_json: Record<string, unknown>; // @deprecated Legacy field - form structure is in questions table
   user_id: string;
+  workspace_id?: string | null;
   is_published: boolean;
   display_mode?: 'single' | 'scroll';
   is_archived?: boolean;
   archived_at?: string;
+  schedule_start?: string | null;
+  schedule_end?: string | null;
+  max_responses?: number | null;
+  require_login?: boolean;
+  has_password?: boolean; // Derived from password_hash, which is never sent to the client
+  bot_protection?: boolean;
+  min_completion_seconds?: number;
+  published_version_id?: string | null; // The version respondents are served
   created_at: string;
   updated_at: string;
 }
 
+// A page of questions; questions reference it through section_id
+export interface FormSection {
+  id: string;
+  form_id: string;
+  title: string;
+  description?: string | null;
+  order_index: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FormSectionUpdate {
+  title?: string;
+  description?: string | null;
+}
+
 export interface FormWithQuestions extends Form {
   questions: Question[];
+  sections?: FormSection[];
+}
+
+// Snapshot of a form's questions and sections; published ones are what respondents see
+export interface FormVersion {
+  id: string;
+  form_id: string;
+  version_number: number;
+  title: string;
+  description: string | null;
+  questions: Question[] | null;
+  sections: FormSection[] | null; // null for versions saved before sections were snapshotted
+  settings: Record<string, unknown> | null;
+  created_at: string;
+  created_by: string | null;
+  change_summary: string | null;
+  is_published: boolean;
+}
+
+// How a version's question and choice ids map to the form's current questions
+export interface FormVersionMapping {
+  id: string;
+  form_id: string;
+  version_id: string;
+  question_map: Record<string, string | null>; // null = left out of merged analytics
+  choice_map: Record<string, Record<string, string | null>>; // Keyed by the version's question id
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A composite index averaged or summed from scale questions and matrix rows
+export interface FormScale {
+  id: string;
+  form_id: string;
+  name: string;
+  items: FormScaleItem[];
+  scoring: 'mean' | 'sum';
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FormScaleItem {
+  variable_id: string; // Question id, or `${questionId}:${rowId}` for a matrix row
+  reverse: boolean;    // Scored max + min - answer
+}
+
+// Scores on one factor of an exploratory factor analysis, kept as the
+// weights that turn a respondent's item answers into the score
+export interface FormFactorScore {
+  id: string;
+  form_id: string;
+  name: string;
+  method: 'pca' | 'paf';
+  rotation: 'none' | 'varimax' | 'promax';
+  items: FormFactorScoreItem[];
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FormFactorScoreItem {
+  variable_id: string;        // Question id, or `${questionId}:${rowId}` for a matrix row
+  mean: number;               // Item mean and SD in the analysis, for standardizing answers
+  standard_deviation: number;
+  weight: number;             // Score coefficient of the standardized item
+}
+
+// The builder's view of a form: the draft plus the version respondents see
+export interface FormWithPublishedVersion extends FormWithQuestions {
+  published_version?: FormVersion | null;
 }
 
 export interface FormWithStats extends Form {
   questionCount: number;
   responseCount: number;
+  // The viewer's role, set on forms shared with them (absent = their own form)
+  role?: FormRole;
 }
 
 export interface FormCreate {
@@ -40,6 +140,16 @@ export interface FormUpdate {
   display_mode?: 'single' | 'scroll';
 }
 
+export interface FormAccessSettingsUpdate {
+  schedule_start: string | null;
+  schedule_end: string | null;
+  max_responses: number | null;
+  require_login: boolean;
+  bot_protection: boolean;
+  min_completion_seconds: number;
+  password?: string | null; // undefined = keep current, null = remove, string = set new password
+}
+
 // Re-export Response and Answer types from response.types.ts
 // to maintain backwards compatibility with existing imports
 export type { Response, Answer };
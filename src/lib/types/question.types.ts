@@ -10,7 +10,10 @@ export type QuestionType =
   | 'dropdown'
   | 'linear_scale'
   | 'matrix'
-  | 'date_time';
+  | 'date_time'
+  | 'file_upload'
+  | 'ranking'
+  | 'slider';
 
 // Discriminated union types for type-safe questions
 export interface BaseQuestionFields {
@@ -20,6 +23,7 @@ export interface BaseQuestionFields {
   description?: string;
   required: boolean;
   order_index: number;
+  section_id?: string | null;
   logic_rules?: LogicRule[];
   advanced_logic_rules?: AdvancedLogicRule[];
   created_at: string;
@@ -104,6 +108,7 @@ export interface Question {
   description?: string;
   required: boolean;
   order_index: number;
+  section_id?: string | null; // Page the question belongs to (null = before the first section)
   options?: QuestionOptions;
   logic_rules?: LogicRule[]; // Legacy simple logic rules
   advanced_logic_rules?: AdvancedLogicRule[]; // Advanced logic rules
@@ -243,6 +248,7 @@ export interface QuestionCreate {
   description?: string;
   required?: boolean;
   order_index: number;
+  section_id?: string | null;
   options?: QuestionOptions;
   logic_rules?: LogicRule[];
 }
@@ -257,3 +263,9 @@ export interface QuestionUpdate {
   logic_rules?: LogicRule[];
   advanced_logic_rules?: AdvancedLogicRule[]; // Advanced logic rules
 }
+
+// Changes applied to several questions at once
+export interface QuestionBulkUpdate {
+  required?: boolean;
+  type?: QuestionType; // Only between types in the same compatible group
+}
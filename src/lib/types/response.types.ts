@@ -4,6 +4,7 @@ export interface Response {
   respondent_email?: string | null;
   respondent_name?: string | null;
   is_complete: boolean;
+  form_version_id?: string | null; // Version answered against; null for responses from before versioning
   started_at: string;
   submitted_at?: string | null;
   created_at: string;
@@ -24,6 +25,21 @@ export interface ResponseWithAnswers extends Response {
   answers: Answer[];
 }
 
+// Aggregates for collaborators who may not see individual responses
+// (get_form_answer_counts / get_form_response_summary)
+export interface AnswerCount {
+  question_id: string;
+  value_json: unknown;
+  answer_count: number;
+}
+
+export interface DailyResponseSummary {
+  response_date: string;
+  total_responses: number;
+  completed_responses: number;
+  avg_completion_seconds: number | null;
+}
+
 export interface AnswerValue {
   // For text questions
   text?: string;
@@ -67,3 +83,17 @@ export interface UploadedFile {
 }
 
 export type FormResponse = Record<string, AnswerValue>;
+
+// Proof-of-work challenge issued for a response on a bot-protected form
+export interface BotChallenge {
+  challenge: string;
+  difficulty: number; // leading zero bits required in sha256(`${challenge}:${nonce}`)
+  signature: string;
+}
+
+// What the renderer sends with a submission on a bot-protected form
+export interface BotCheck {
+  honeypot?: string;
+  challenge?: BotChallenge;
+  nonce?: number;
+}
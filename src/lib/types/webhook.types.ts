@@ -0,0 +1,82 @@
+/**
+ * Webhook types
+ * Forms can notify external systems about response and form lifecycle events
+ */
+
+import type { QuestionType } from './question.types';
+
+export type WebhookEvent =
+  | 'response.started'
+  | 'response.submitted'
+  | 'response.deleted'
+  | 'response.flagged'
+  | 'form.published';
+
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'failed';
+
+export interface Webhook {
+  id: string;
+  form_id: string;
+  url: string;
+  description: string | null;
+  secret: string;
+  events: WebhookEvent[];
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  form_id: string;
+  event: WebhookEvent;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  duration_ms: number | null;
+  replay_of: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export interface WebhookPayloadAnswer {
+  question_id: string;
+  question_title: string;
+  question_type: QuestionType;
+  value: unknown;
+  // Readable form of the value, e.g. choice labels instead of ids
+  display_value: string;
+}
+
+export interface WebhookPayloadResponse {
+  id: string;
+  respondent_email: string | null;
+  respondent_name: string | null;
+  is_complete: boolean;
+  started_at: string;
+  submitted_at: string | null;
+  deleted_at: string | null;
+  is_flagged: boolean;
+  flag_reason: string | null;
+  answers: WebhookPayloadAnswer[];
+}
+
+/**
+ * Body POSTed to a webhook URL
+ */
+export interface WebhookPayload {
+  id: string; // Event id, stable across retries and replays
+  event: WebhookEvent;
+  created_at: string;
+  form: {
+    id: string;
+    title: string;
+  };
+  response?: WebhookPayloadResponse;
+  questions?: { id: string; title: string; type: QuestionType }[]; // form.published only
+}
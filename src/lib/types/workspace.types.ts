@@ -0,0 +1,41 @@
+/**
+ * Workspace and collaborator types
+ * A user's role on a form is the highest of ownership, a direct collaborator
+ * grant and their role in the form's workspace
+ */
+
+export type FormRole = 'owner' | 'editor' | 'analyst' | 'viewer';
+
+// Owners come from forms.user_id, so grants can't hand out ownership
+export type CollaboratorRole = Exclude<FormRole, 'owner'>;
+
+export type WorkspaceRole = FormRole;
+
+export interface Workspace {
+  id: string;
+  name: string;
+  owner_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkspaceWithRole extends Workspace {
+  role: WorkspaceRole;
+  memberCount: number;
+}
+
+export interface WorkspaceMember {
+  workspace_id: string;
+  user_id: string;
+  email: string | null;
+  role: WorkspaceRole;
+  created_at: string;
+}
+
+export interface FormCollaborator {
+  form_id: string;
+  user_id: string;
+  email: string | null;
+  role: CollaboratorRole;
+  created_at: string;
+}
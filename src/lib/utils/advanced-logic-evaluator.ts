@@ -4,14 +4,19 @@
  */
 
 import type { Question } from '@/lib/types/question.types';
+import type { AnswerValue } from '@/lib/types/response.types';
 import type {
   AdvancedLogicRule,
+  CalculateAction,
   LogicCondition,
   LogicConditionGroup,
   LogicEvaluationResult,
   LogicalOperator,
 } from '@/lib/types/advanced-logic.types';
 import { evaluateCondition } from './logic-evaluator';
+import { evaluateFormula, getFormulaValue, toAnswerValue, validateFormula } from './formula-evaluator';
+import type { FormulaErrorInfo } from './formula-parser';
+import { getSectionKey } from './form-sections';
 
 /**
  * Evaluate a single condition
@@ -98,39 +103,28 @@ function getPipedValue(
 
 /**
  * Evaluate calculation formula
+ * Source answers are coerced by question type and the result is shaped for the target question
  */
 function evaluateCalculation(
-  formula: string,
-  sourceQuestionIds: string[],
-  answers: Record<string, unknown>
-): number | null {
-  try {
-    // Simple formula evaluation (supports +, -, *, /, parentheses)
-    let expression = formula;
-
-    // Replace Q1, Q2, etc. with actual values
-    sourceQuestionIds.forEach((questionId) => {
-      const value = getPipedValue(questionId, answers);
-      const numValue = typeof value === 'number' ? value : parseFloat(String(value));
-
-      if (isNaN(numValue)) {
-        throw new Error(`Invalid number for question ${questionId}`);
-      }
-
-      // Replace all occurrences of Q{index}
-      const index = sourceQuestionIds.indexOf(questionId) + 1;
-      expression = expression.replace(new RegExp(`Q${index}`, 'g'), String(numValue));
-    });
+  calculation: CalculateAction,
+  answers: Record<string, unknown>,
+  questions: Question[]
+): AnswerValue | null {
+  const target = questions.find((q) => q.id === calculation.targetQuestionId);
+  if (!target) return null;
 
-    // Safely evaluate the expression
-    // Note: Using Function constructor is safer than eval
-    const result = new Function(`'use strict'; return (${expression})`)();
+  const sources = calculation.sourceQuestionIds.map((questionId) => {
+    const question = questions.find((q) => q.id === questionId);
+    return question ? getFormulaValue(question, answers[questionId]) : null;
+  });
 
-    return typeof result === 'number' && !isNaN(result) ? result : null;
-  } catch (error) {
-    console.error('Formula evaluation error:', error);
+  const { value, error } = evaluateFormula(calculation.formula, sources);
+  if (error) {
+    // Expected while the form is incomplete (e.g. text that isn't a number yet)
     return null;
   }
+
+  return toAnswerValue(target, value);
 }
 
 /**
@@ -147,8 +141,15 @@ export function evaluateAdvancedLogic(
     optionalQuestionIds: new Set(),
     setValue: new Map(),
     calculated: new Map(),
+    sectionJumps: new Map(),
   };
 
+  // Jumps apply when leaving the section of the question that owns the rule
+  const ruleOwners = new Map<string, Question>();
+  questions.forEach((question) => {
+    (question.advanced_logic_rules || []).forEach((rule) => ruleOwners.set(rule.id, question));
+  });
+
   // Track which priority set each action (to handle conflicts)
   const actionPriorities = new Map<string, {
     hide?: number;
@@ -249,17 +250,24 @@ export function evaluateAdvancedLogic(
 
       case 'calculate':
         if (rule.calculate) {
-          const calculatedValue = evaluateCalculation(
-            rule.calculate.formula,
-            rule.calculate.sourceQuestionIds,
-            answers
-          );
+          const calculatedValue = evaluateCalculation(rule.calculate, answers, questions);
 
           if (calculatedValue !== null) {
             result.calculated.set(rule.calculate.targetQuestionId, calculatedValue);
           }
         }
         break;
+
+      case 'jump_to_section':
+        if (rule.jumpToSection?.targetSectionId) {
+          const sectionKey = getSectionKey(ruleOwners.get(rule.id)?.section_id);
+
+          // Rules are sorted by priority, so the first matching jump wins
+          if (!result.sectionJumps.has(sectionKey)) {
+            result.sectionJumps.set(sectionKey, rule.jumpToSection.targetSectionId);
+          }
+        }
+        break;
     }
   }
 
@@ -303,7 +311,7 @@ export function getQuestionValue(
 
   // Check for calculated value
   if (result.calculated.has(questionId)) {
-    return { scale_value: result.calculated.get(questionId) };
+    return result.calculated.get(questionId);
   }
 
   // Return current value
@@ -375,3 +383,29 @@ export function validateAdvancedLogicRules(
     circularQuestionIds: Array.from(circularIds),
   };
 }
+
+/**
+ * Validate the formulas of calculate rules against their source question types
+ * Returns the first error of each invalid rule
+ */
+export function validateCalculationFormulas(
+  rules: AdvancedLogicRule[],
+  questions: Pick<Question, 'id' | 'type'>[]
+): { valid: boolean; errors: { ruleId: string; error: FormulaErrorInfo }[] } {
+  const errors: { ruleId: string; error: FormulaErrorInfo }[] = [];
+
+  rules.forEach((rule) => {
+    if (rule.action !== 'calculate' || !rule.calculate) return;
+
+    const sourceTypes = rule.calculate.sourceQuestionIds.map(
+      (id) => questions.find((q) => q.id === id)?.type
+    );
+    const validation = validateFormula(rule.calculate.formula, sourceTypes);
+
+    if (!validation.valid) {
+      errors.push({ ruleId: rule.id, error: validation.errors[0] });
+    }
+  });
+
+  return { valid: errors.length === 0, errors };
+}
@@ -0,0 +1,330 @@
+/**
+ * Variables for statistical analysis
+ * Turns questions into numeric variables (one per scale or slider question,
+ * one per matrix row), grouping variables and dummy-coded regression
+ * predictors, and lines their answers up by respondent. Computed variables
+ * (scale and factor scores) are carried as slider answers.
+ */
+
+import type { Choice, TypedQuestion } from '@/lib/types/question.types';
+import type { Answer, AnswerValue } from '@/lib/types/response.types';
+import { getLinearScaleOptions, getSliderOptions } from '@/lib/utils/question-type-guards';
+
+export interface NumericVariable {
+  id: string;               // Question id, or `${questionId}:${rowId}` for a matrix row
+  questionId: string;
+  label: string;
+  isOrdinal: boolean;       // Ranked categories rather than measurements
+  min: number;              // Lowest possible answer (used to reverse-code items)
+  max: number;
+  read: (value: AnswerValue) => number | null;
+}
+
+export type RegressionPredictor =
+  | { kind: 'numeric'; variable: NumericVariable }
+  | {
+      kind: 'categorical';
+      question: TypedQuestion;
+      referenceChoiceId: string | null; // Defaults to the first choice that was answered
+    };
+
+export interface DesignMatrix {
+  names: string[];          // One per column
+  rows: number[][];         // One per respondent who answered the outcome and every predictor
+  outcome: number[];
+  references: Array<{ questionId: string; label: string }>;
+  notes: string[];
+}
+
+function answerValue(answer: Answer): AnswerValue | null {
+  const value = answer.value ?? answer.value_json;
+  return typeof value === 'object' && value !== null ? (value as AnswerValue) : null;
+}
+
+/**
+ * Numeric variables in a form: linear scales, sliders and the rows of
+ * single-answer matrices (scored by column position, starting at 1)
+ */
+export function getNumericVariables(questions: TypedQuestion[]): NumericVariable[] {
+  return questions.flatMap((question): NumericVariable[] => {
+    switch (question.type) {
+      case 'linear_scale':
+        return [{
+          id: question.id,
+          questionId: question.id,
+          label: question.title,
+          isOrdinal: true,
+          min: getLinearScaleOptions(question.options).min,
+          max: getLinearScaleOptions(question.options).max,
+          read: (value) => value.scale_value ?? null,
+        }];
+      case 'slider':
+        return [{
+          id: question.id,
+          questionId: question.id,
+          label: question.title,
+          isOrdinal: false,
+          min: getSliderOptions(question.options).min,
+          max: getSliderOptions(question.options).max,
+          read: (value) => value.slider_value ?? null,
+        }];
+      case 'matrix': {
+        const options = question.options;
+        if (!options || options.type === 'checkbox') return [];
+
+        const columnScores = new Map(options.columns.map((column, index) => [column.id, index + 1]));
+        return options.rows.map((row) => ({
+          id: `${question.id}:${row.id}`,
+          questionId: question.id,
+          label: `${question.title} — ${row.label}`,
+          isOrdinal: true,
+          min: 1,
+          max: options.columns.length,
+          read: (value: AnswerValue) => {
+            const columnId = value.matrix_values?.[row.id];
+            return columnId ? columnScores.get(columnId) ?? null : null;
+          },
+        }));
+      }
+      default:
+        return [];
+    }
+  });
+}
+
+/**
+ * Questions whose answers split respondents into groups
+ */
+export function isGroupingQuestion(question: TypedQuestion): boolean {
+  return question.type === 'multiple_choice' || question.type === 'dropdown' || question.type === 'checkboxes';
+}
+
+/**
+ * Each respondent's value of a numeric variable
+ */
+export function readVariable(
+  variable: NumericVariable,
+  answersByQuestion: Record<string, Answer[]>
+): Map<string, number> {
+  const values = new Map<string, number>();
+
+  (answersByQuestion[variable.questionId] || []).forEach((answer) => {
+    const value = answerValue(answer);
+    const number = value ? variable.read(value) : null;
+    if (number !== null && Number.isFinite(number)) {
+      values.set(answer.response_id, number);
+    }
+  });
+
+  return values;
+}
+
+/**
+ * The choices of a grouping question, in the order the form shows them
+ */
+export function getChoices(question: TypedQuestion): Choice[] {
+  return question.options && 'choices' in question.options ? question.options.choices : [];
+}
+
+/**
+ * Each respondent's chosen option id. Checkbox answers only count when
+ * exactly one box is ticked, so groups don't overlap.
+ */
+export function readChoiceIds(
+  question: TypedQuestion,
+  answersByQuestion: Record<string, Answer[]>
+): Map<string, string> {
+  const choiceIds = new Map<string, string>();
+
+  (answersByQuestion[question.id] || []).forEach((answer) => {
+    const value = answerValue(answer);
+    if (!value) return;
+
+    const choiceId = value.choice_id ?? (value.choice_ids?.length === 1 ? value.choice_ids[0] : undefined);
+    if (choiceId) {
+      choiceIds.set(answer.response_id, choiceId);
+    }
+  });
+
+  return choiceIds;
+}
+
+/**
+ * Each respondent's group: the label of the chosen option
+ */
+export function readGroups(
+  question: TypedQuestion,
+  answersByQuestion: Record<string, Answer[]>
+): Map<string, string> {
+  const choices = getChoices(question);
+  const labelFor = (choiceId: string) => choices.find((choice) => choice.id === choiceId)?.label ?? choiceId;
+
+  return new Map(
+    [...readChoiceIds(question, answersByQuestion)].map(([responseId, choiceId]) => [responseId, labelFor(choiceId)])
+  );
+}
+
+/**
+ * Values of several variables from the respondents who answered all of them,
+ * as one array per variable in the same respondent order
+ */
+export function readCompleteCases(
+  variables: NumericVariable[],
+  answersByQuestion: Record<string, Answer[]>
+): number[][] {
+  const columns = variables.map((variable) => readVariable(variable, answersByQuestion));
+  if (columns.length === 0) return [];
+
+  const respondents = [...columns[0].keys()].filter((responseId) =>
+    columns.every((column) => column.has(responseId))
+  );
+
+  return columns.map((column) => respondents.map((responseId) => column.get(responseId) as number));
+}
+
+/**
+ * Outcome and predictor columns for a regression, from the respondents who
+ * answered everything. Categorical predictors become one 0/1 column per
+ * answered choice except the reference choice.
+ *
+ * @param outcome - Each respondent's outcome value
+ */
+export function buildDesignMatrix(
+  outcome: Map<string, number>,
+  predictors: RegressionPredictor[],
+  answersByQuestion: Record<string, Answer[]>
+): DesignMatrix {
+  const columns = predictors.map((predictor) =>
+    predictor.kind === 'numeric'
+      ? readVariable(predictor.variable, answersByQuestion)
+      : readChoiceIds(predictor.question, answersByQuestion)
+  );
+  const respondents = [...outcome.keys()].filter((responseId) =>
+    columns.every((column) => column.has(responseId))
+  );
+
+  const design: DesignMatrix = {
+    names: [],
+    rows: respondents.map(() => []),
+    outcome: respondents.map((responseId) => outcome.get(responseId) as number),
+    references: [],
+    notes: [],
+  };
+
+  predictors.forEach((predictor, index) => {
+    if (predictor.kind === 'numeric') {
+      const values = columns[index] as Map<string, number>;
+      design.names.push(predictor.variable.label);
+      respondents.forEach((responseId, row) => design.rows[row].push(values.get(responseId) as number));
+      return;
+    }
+
+    const { question } = predictor;
+    const chosen = columns[index] as Map<string, string>;
+    const answered = new Set(respondents.map((responseId) => chosen.get(responseId) as string));
+
+    // Levels in the form's order, then any ids no longer in the form (e.g. from an older version)
+    const choices = getChoices(question);
+    const levels = [
+      ...choices.filter((choice) => answered.has(choice.id)),
+      ...[...answered]
+        .filter((choiceId) => !choices.some((choice) => choice.id === choiceId))
+        .sort()
+        .map((choiceId): Choice => ({ id: choiceId, label: choiceId })),
+    ];
+
+    if (levels.length < 2) {
+      design.notes.push(`"${question.title}" has only one answer among these responses, so it was left out.`);
+      return;
+    }
+
+    const reference = levels.find((choice) => choice.id === predictor.referenceChoiceId) ?? levels[0];
+    if (predictor.referenceChoiceId && reference.id !== predictor.referenceChoiceId) {
+      design.notes.push(
+        `Nobody in the analysis chose the selected reference for "${question.title}", so "${reference.label}" is used instead.`
+      );
+    }
+    design.references.push({ questionId: question.id, label: reference.label });
+
+    levels
+      .filter((choice) => choice.id !== reference.id)
+      .forEach((choice) => {
+        design.names.push(`${question.title}: ${choice.label}`);
+        respondents.forEach((responseId, row) =>
+          design.rows[row].push(chosen.get(responseId) === choice.id ? 1 : 0)
+        );
+      });
+  });
+
+  return design;
+}
+
+// ============================================================================
+// Computed variables
+// ============================================================================
+
+/**
+ * When each respondent answered the last of the questions behind some variables
+ */
+export function lastAnsweredAt(
+  variableIds: string[],
+  answersByQuestion: Record<string, Answer[]>
+): Map<string, string> {
+  const answeredAt = new Map<string, string>();
+  const questionIds = new Set(variableIds.map((variableId) => variableId.split(':')[0]));
+
+  questionIds.forEach((questionId) => {
+    (answersByQuestion[questionId] || []).forEach((answer) => {
+      const previous = answeredAt.get(answer.response_id);
+      if (!previous || answer.created_at > previous) answeredAt.set(answer.response_id, answer.created_at);
+    });
+  });
+
+  return answeredAt;
+}
+
+/**
+ * Slider answers holding each respondent's value of a computed variable
+ *
+ * @param answeredAt - Answer dates by respondent, so date filters treat the
+ *   value like the answers it was computed from (defaults to updatedAt)
+ */
+export function toComputedAnswers(
+  questionId: string,
+  values: Map<string, number>,
+  updatedAt: string,
+  answeredAt?: Map<string, string>
+): Array<Answer & { value: AnswerValue }> {
+  return [...values].map(([responseId, value]) => ({
+    id: `${questionId}:${responseId}`,
+    response_id: responseId,
+    question_id: questionId,
+    value_json: { slider_value: value },
+    value: { slider_value: value },
+    created_at: answeredAt?.get(responseId) ?? updatedAt,
+    updated_at: updatedAt,
+  }));
+}
+
+/**
+ * Answers of exported responses regrouped by question, the shape analytics reads
+ */
+export function groupResponseAnswers(
+  responses: Array<{ id: string; answers: Array<{ question_id: string; value: unknown }> }>
+): Record<string, Answer[]> {
+  const answersByQuestion: Record<string, Answer[]> = {};
+  responses.forEach((response) => {
+    response.answers.forEach((answer) => {
+      (answersByQuestion[answer.question_id] ??= []).push({
+        id: '',
+        response_id: response.id,
+        question_id: answer.question_id,
+        value_json: answer.value,
+        value: answer.value,
+        created_at: '',
+        updated_at: '',
+      });
+    });
+  });
+  return answersByQuestion;
+}
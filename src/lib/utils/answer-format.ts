@@ -0,0 +1,122 @@
+/**
+ * Answer formatting for exports
+ * Turns stored answer values into readable text (choice labels instead of IDs)
+ */
+
+import type { Question } from '@/lib/types/question.types';
+
+/**
+ * Format an answer value as display text for CSV/Excel/PDF exports
+ */
+export function formatAnswerValue(value: unknown, question: Question): string {
+  if (!value) return '';
+
+  const answerValue = value as Record<string, unknown>;
+
+  switch (question.type) {
+    case 'short_text':
+    case 'long_text':
+      return String(answerValue.text || '');
+
+    case 'multiple_choice':
+    case 'dropdown': {
+      const choiceId = answerValue.choice_id as string;
+      if (!choiceId) return '';
+
+      if (choiceId === 'other' && answerValue.other_text) {
+        return `Other: ${answerValue.other_text}`;
+      }
+
+      if (question.options && 'choices' in question.options) {
+        const choice = question.options.choices.find((c) => c.id === choiceId);
+        return choice?.label || choiceId;
+      }
+
+      return choiceId;
+    }
+
+    case 'checkboxes': {
+      const choiceIds = answerValue.choice_ids as string[];
+      if (!choiceIds || choiceIds.length === 0) return '';
+
+      if (question.options && 'choices' in question.options) {
+        const labels = choiceIds.map((id) => {
+          if (id === 'other' && answerValue.other_text) {
+            return `Other: ${answerValue.other_text}`;
+          }
+          const choice = question.options && 'choices' in question.options
+            ? question.options.choices.find((c) => c.id === id)
+            : null;
+          return choice?.label || id;
+        });
+        return labels.join('; ');
+      }
+
+      return choiceIds.join('; ');
+    }
+
+    case 'linear_scale':
+      return String(answerValue.scale_value || '');
+
+    case 'matrix': {
+      const matrixValues = answerValue.matrix_values as Record<string, string>;
+      if (!matrixValues || Object.keys(matrixValues).length === 0) return '';
+
+      const matrixOptions =
+        question.options && 'rows' in question.options && 'columns' in question.options
+          ? question.options
+          : null;
+
+      return Object.entries(matrixValues)
+        .map(([rowId, colId]) => {
+          // Fallback: show raw IDs if options structure is invalid
+          const rowLabel = matrixOptions?.rows?.find((r) => r.id === rowId)?.label;
+          const colLabel = matrixOptions?.columns?.find((c) => c.id === colId)?.label;
+          return `${rowLabel || rowId}: ${colLabel || colId}`;
+        })
+        .join('; ');
+    }
+
+    case 'date_time': {
+      const parts: string[] = [];
+      if (answerValue.date) parts.push(String(answerValue.date));
+      if (answerValue.time) parts.push(String(answerValue.time));
+      return parts.join(' ');
+    }
+
+    case 'file_upload': {
+      const files = answerValue.files as Array<{ name: string; url: string }>;
+      if (!files || files.length === 0) return '';
+
+      return files.map((f) => `${f.name} (${f.url})`).join('; ');
+    }
+
+    case 'ranking': {
+      const rankedItems = answerValue.ranked_items as string[];
+      if (!rankedItems || rankedItems.length === 0) return '';
+
+      const items = question.options && 'items' in question.options
+        ? question.options.items
+        : [];
+      return rankedItems
+        .map((itemId, index) => {
+          const label = items.find((i) => i.id === itemId)?.label;
+          return `${index + 1}. ${label || itemId}`;
+        })
+        .join('; ');
+    }
+
+    case 'slider':
+      return answerValue.slider_value !== undefined ? String(answerValue.slider_value) : '';
+
+    default:
+      return '';
+  }
+}
+
+/**
+ * Sanitize a form title for use in a file name
+ */
+export function sanitizeFilename(filename: string): string {
+  return filename.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+}
@@ -0,0 +1,36 @@
+/**
+ * API key scopes
+ * Shared by the settings UI and the /api/v1 routes; hashing lives in
+ * server-api-keys.ts because it needs node:crypto
+ */
+
+import type { ApiKey, ApiKeyScope } from '@/lib/types/api-key.types';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = [
+  'forms:read',
+  'responses:read',
+  'responses:write',
+  'analytics:read',
+];
+
+export const API_KEY_SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  'forms:read': 'List forms and read their questions',
+  'responses:read': 'List and read responses',
+  'responses:write': 'Create responses',
+  'analytics:read': 'Read analytics summaries',
+};
+
+// Columns that are safe to send to the browser
+export const API_KEY_COLUMNS = 'id, user_id, name, key_prefix, scopes, last_used_at, expires_at, revoked_at, created_at';
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as string[]).includes(value);
+}
+
+/**
+ * Whether a key can still authenticate requests
+ */
+export function isApiKeyActive(apiKey: Pick<ApiKey, 'expires_at' | 'revoked_at'>, now: Date = new Date()): boolean {
+  if (apiKey.revoked_at) return false;
+  return !apiKey.expires_at || new Date(apiKey.expires_at) > now;
+}
@@ -0,0 +1,63 @@
+/**
+ * Bot protection for public forms
+ * A submission is checked three ways: a honeypot field real respondents never
+ * see, a minimum time between starting and submitting, and a hashcash-style
+ * proof of work. The solver here runs in the browser; issuing and verifying
+ * challenges lives in server-bot-protection.ts because it needs node:crypto.
+ */
+
+import type { BotChallenge } from '@/lib/types/response.types';
+
+// Named like a field autofilling bots expect to complete
+export const HONEYPOT_FIELD_NAME = 'website';
+
+export const DEFAULT_MIN_COMPLETION_SECONDS = 5;
+
+// Digests computed between checks; each batch yields to the event loop
+const SOLVE_BATCH_SIZE = 256;
+
+/**
+ * Number of leading zero bits in a digest
+ */
+export function countLeadingZeroBits(digest: Uint8Array): number {
+  let bits = 0;
+
+  for (const byte of digest) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+
+  return bits;
+}
+
+/**
+ * The string whose sha256 must have `difficulty` leading zero bits
+ */
+export function getProofInput(challenge: string, nonce: number): string {
+  return `${challenge}:${nonce}`;
+}
+
+async function digestProofInput(challenge: string, nonce: number): Promise<Uint8Array> {
+  const input = new TextEncoder().encode(getProofInput(challenge, nonce));
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', input));
+}
+
+/**
+ * Find a nonce satisfying a challenge
+ * Takes around 2^difficulty hashes; at the default difficulty that is well
+ * under a second, and it runs while the respondent fills in the form.
+ */
+export async function solveBotChallenge(challenge: BotChallenge): Promise<number> {
+  for (let start = 0; ; start += SOLVE_BATCH_SIZE) {
+    const nonces = Array.from({ length: SOLVE_BATCH_SIZE }, (_, i) => start + i);
+    const digests = await Promise.all(nonces.map((nonce) => digestProofInput(challenge.challenge, nonce)));
+
+    const index = digests.findIndex((digest) => countLeadingZeroBits(digest) >= challenge.difficulty);
+    if (index !== -1) {
+      return nonces[index];
+    }
+  }
+}
@@ -1,170 +1,186 @@
 /**
  * Bulk Operations Utilities
- * Provides utilities for bulk operations on questions and forms
+ * Helpers for editing several questions at once. The changes themselves are
+ * applied by the bulk question actions, each in a single transaction.
  */
 
-import type { Question } from '@/lib/types/question.types';
+import type { Question, QuestionType, LogicRule } from '@/lib/types/question.types';
+import type { AdvancedLogicRule } from '@/lib/types/advanced-logic.types';
+import type { FormSection } from '@/lib/types/form.types';
+import { groupQuestionsIntoPages } from '@/lib/utils/form-sections';
 
-export interface BulkOperationResult {
-  success: boolean;
-  successCount: number;
-  failureCount: number;
-  errors: Array<{ id: string; error: string }>;
-}
+export type BulkOperation = 'delete' | 'duplicate' | 'move' | 'update';
+
+// Types whose answers have the same shape, so existing answers stay valid
+// when a question switches between them
+export const COMPATIBLE_TYPE_GROUPS: QuestionType[][] = [
+  ['short_text', 'long_text'],
+  ['multiple_choice', 'dropdown'],
+];
 
 /**
- * Bulk delete questions
+ * Types every one of the given questions can be changed to (empty when they
+ * don't share a group)
  */
-export async function bulkDeleteQuestions(
-  questionIds: string[],
-  deleteHandler: (id: string) => Promise<{ error?: string }>
-): Promise<BulkOperationResult> {
-  const result: BulkOperationResult = {
-    success: true,
-    successCount: 0,
-    failureCount: 0,
-    errors: [],
-  };
-
-  for (const id of questionIds) {
-    const response = await deleteHandler(id);
-    if (response.error) {
-      result.failureCount++;
-      result.errors.push({ id, error: response.error });
-      result.success = false;
-    } else {
-      result.successCount++;
-    }
+export function getCompatibleTypes(questions: Pick<Question, 'type'>[]): QuestionType[] {
+  if (questions.length === 0) return [];
+
+  const group = COMPATIBLE_TYPE_GROUPS.find((types) => types.includes(questions[0].type));
+  if (!group || !questions.every((q) => group.includes(q.type))) {
+    return [];
   }
 
-  return result;
+  return group;
 }
 
-/**
- * Bulk duplicate questions
- */
-export async function bulkDuplicateQuestions(
-  questionIds: string[],
-  questions: Question[],
-  duplicateHandler: (question: Question) => Promise<{ data?: Question; error?: string }>
-): Promise<BulkOperationResult> {
-  const result: BulkOperationResult = {
-    success: true,
-    successCount: 0,
-    failureCount: 0,
-    errors: [],
-  };
-
-  for (const id of questionIds) {
-    const question = questions.find((q) => q.id === id);
-    if (!question) {
-      result.failureCount++;
-      result.errors.push({ id, error: 'Question not found' });
-      continue;
-    }
+export interface LogicRulesUpdate {
+  id: string;
+  logic_rules: LogicRule[];
+  advanced_logic_rules: AdvancedLogicRule[];
+}
 
-    const response = await duplicateHandler(question);
-    if (response.error) {
-      result.failureCount++;
-      result.errors.push({ id, error: response.error });
-      result.success = false;
-    } else {
-      result.successCount++;
-    }
+function cleanLegacyRule(rule: LogicRule, deleted: Set<string>): LogicRule | null {
+  if (deleted.has(rule.sourceQuestionId)) return null;
+
+  const targetQuestionIds = rule.targetQuestionIds.filter((id) => !deleted.has(id));
+  if (targetQuestionIds.length === 0) return null;
+
+  return { ...rule, targetQuestionIds };
+}
+
+function cleanAdvancedRule(rule: AdvancedLogicRule, deleted: Set<string>): AdvancedLogicRule | null {
+  // A value can't be piped or calculated from (or into) a deleted question;
+  // formulas refer to their sources by position, so they can't be patched either
+  if (
+    rule.setValue &&
+    (deleted.has(rule.setValue.targetQuestionId) ||
+      (rule.setValue.sourceQuestionId && deleted.has(rule.setValue.sourceQuestionId)))
+  ) {
+    return null;
+  }
+  if (
+    rule.calculate &&
+    (deleted.has(rule.calculate.targetQuestionId) ||
+      rule.calculate.sourceQuestionIds.some((id) => deleted.has(id)))
+  ) {
+    return null;
   }
 
-  return result;
+  const conditionGroups = rule.conditionGroups
+    .map((group) => ({
+      ...group,
+      conditions: group.conditions.filter((condition) => !deleted.has(condition.sourceQuestionId)),
+    }))
+    .filter((group) => group.conditions.length > 0);
+  // Without its conditions the rule would always apply
+  if (rule.conditionGroups.length > 0 && conditionGroups.length === 0) return null;
+
+  const targetQuestionIds = rule.targetQuestionIds.filter((id) => !deleted.has(id));
+  if (rule.targetQuestionIds.length > 0 && targetQuestionIds.length === 0) return null;
+
+  return { ...rule, conditionGroups, targetQuestionIds };
 }
 
 /**
- * Bulk update question property
+ * Remove references to deleted questions from the logic rules of the others.
+ * Returns the new rules of the questions that changed.
  */
-export async function bulkUpdateQuestionProperty<K extends keyof Question>(
-  questionIds: string[],
-  property: K,
-  value: Question[K],
-  updateHandler: (id: string, updates: Partial<Question>) => Promise<{ error?: string }>
-): Promise<BulkOperationResult> {
-  const result: BulkOperationResult = {
-    success: true,
-    successCount: 0,
-    failureCount: 0,
-    errors: [],
-  };
-
-  for (const id of questionIds) {
-    const response = await updateHandler(id, { [property]: value });
-    if (response.error) {
-      result.failureCount++;
-      result.errors.push({ id, error: response.error });
-      result.success = false;
-    } else {
-      result.successCount++;
+export function removeDeletedQuestionReferences(
+  questions: Pick<Question, 'id' | 'logic_rules' | 'advanced_logic_rules'>[],
+  deletedIds: string[]
+): LogicRulesUpdate[] {
+  const deleted = new Set(deletedIds);
+  const updates: LogicRulesUpdate[] = [];
+
+  for (const question of questions) {
+    if (deleted.has(question.id)) continue;
+
+    const logicRules = question.logic_rules || [];
+    const advancedRules = question.advanced_logic_rules || [];
+
+    const cleanedLogicRules = logicRules
+      .map((rule) => cleanLegacyRule(rule, deleted))
+      .filter((rule): rule is LogicRule => rule !== null);
+    const cleanedAdvancedRules = advancedRules
+      .map((rule) => cleanAdvancedRule(rule, deleted))
+      .filter((rule): rule is AdvancedLogicRule => rule !== null);
+
+    if (
+      JSON.stringify(cleanedLogicRules) !== JSON.stringify(logicRules) ||
+      JSON.stringify(cleanedAdvancedRules) !== JSON.stringify(advancedRules)
+    ) {
+      updates.push({
+        id: question.id,
+        logic_rules: cleanedLogicRules,
+        advanced_logic_rules: cleanedAdvancedRules,
+      });
     }
   }
 
-  return result;
+  return updates;
 }
 
 /**
- * Bulk move questions (reorder)
+ * Apply cleaned-up logic rules to a question list
  */
-export async function bulkMoveQuestions(
-  questionIds: string[],
-  targetIndex: number,
-  questions: Question[],
-  reorderHandler: (formId: string, newOrder: string[]) => Promise<{ error?: string }>
-): Promise<BulkOperationResult> {
-  const result: BulkOperationResult = {
-    success: true,
-    successCount: 0,
-    failureCount: 0,
-    errors: [],
-  };
-
-  if (questionIds.length === 0) {
-    result.errors.push({ id: 'bulk', error: 'No questions selected' });
-    result.success = false;
-    return result;
-  }
-
-  // Get form ID from first question
-  const firstQuestion = questions.find((q) => q.id === questionIds[0]);
-  if (!firstQuestion) {
-    result.errors.push({ id: questionIds[0], error: 'Question not found' });
-    result.success = false;
-    return result;
-  }
-
-  // Create new order
-  const questionsByFormId = questions.filter((q) => q.form_id === firstQuestion.form_id);
-  const sortedQuestions = [...questionsByFormId].sort((a, b) => a.order_index - b.order_index);
-
-  // Remove selected questions
-  const withoutSelected = sortedQuestions.filter((q) => !questionIds.includes(q.id));
-
-  // Get selected questions in their original order
-  const selectedQuestions = sortedQuestions.filter((q) => questionIds.includes(q.id));
-
-  // Insert at target index
-  const newOrder = [
-    ...withoutSelected.slice(0, targetIndex),
-    ...selectedQuestions,
-    ...withoutSelected.slice(targetIndex),
-  ];
+export function applyLogicRulesUpdates<T extends Pick<Question, 'id'>>(
+  questions: T[],
+  updates: LogicRulesUpdate[] = []
+): T[] {
+  const updatesById = new Map(updates.map((update) => [update.id, update]));
+
+  return questions.map((q) => {
+    const update = updatesById.get(q.id);
+    return update
+      ? { ...q, logic_rules: update.logic_rules, advanced_logic_rules: update.advanced_logic_rules }
+      : q;
+  });
+}
 
-  const newOrderIds = newOrder.map((q) => q.id);
+// Where selected questions are moved: before the question now at `position`
+// (0-based, counted without the moved questions), or to the end of a section
+export type BulkMoveTarget =
+  | { position: number }
+  | { sectionId: string | null };
 
-  const response = await reorderHandler(firstQuestion.form_id, newOrderIds);
-  if (response.error) {
-    result.failureCount = questionIds.length;
-    result.errors.push({ id: 'bulk', error: response.error });
-    result.success = false;
+/**
+ * The question list after moving the selected questions (kept in their
+ * current order) to the target. Moved questions take the section they land in.
+ */
+export function moveQuestions(
+  questions: Question[],
+  sections: FormSection[],
+  questionIds: string[],
+  target: BulkMoveTarget
+): Question[] {
+  const selected = new Set(questionIds);
+  const pages = groupQuestionsIntoPages(questions, sections, true);
+  const ordered = pages.flatMap((page) => page.questions);
+
+  const moved = ordered.filter((q) => selected.has(q.id));
+  const rest = ordered.filter((q) => !selected.has(q.id));
+
+  let insertAt: number;
+  let sectionId: string | null;
+
+  if ('sectionId' in target) {
+    const pageIndex = pages.findIndex((page) => (page.section?.id ?? null) === target.sectionId);
+    insertAt = pages
+      .slice(0, pageIndex + 1)
+      .reduce((count, page) => count + page.questions.filter((q) => !selected.has(q.id)).length, 0);
+    sectionId = target.sectionId;
   } else {
-    result.successCount = questionIds.length;
+    insertAt = Math.max(0, Math.min(target.position, rest.length));
+    // Join the section of the question they land after (or before, at the top)
+    const neighbour = rest[insertAt - 1] ?? rest[insertAt];
+    sectionId = neighbour ? neighbour.section_id ?? null : moved[0]?.section_id ?? null;
   }
 
-  return result;
+  return [
+    ...rest.slice(0, insertAt),
+    ...moved.map((q) => ({ ...q, section_id: sectionId })),
+    ...rest.slice(insertAt),
+  ].map((q, index) => ({ ...q, order_index: index }));
 }
 
 /**
@@ -173,7 +189,7 @@ export async function bulkMoveQuestions(
 export function validateBulkOperation(
   questionIds: string[],
   questions: Question[],
-  operation: 'delete' | 'duplicate' | 'move'
+  operation: BulkOperation
 ): { valid: boolean; error?: string } {
   if (questionIds.length === 0) {
     return { valid: false, error: 'No questions selected' };
@@ -201,24 +217,17 @@ export function validateBulkOperation(
 /**
  * Get bulk operation summary message
  */
-export function getBulkOperationSummary(
-  operation: 'delete' | 'duplicate' | 'move' | 'update',
-  result: BulkOperationResult
-): string {
-  const total = result.successCount + result.failureCount;
-
-  if (result.success) {
-    switch (operation) {
-      case 'delete':
-        return `Successfully deleted ${result.successCount} question${result.successCount === 1 ? '' : 's'}`;
-      case 'duplicate':
-        return `Successfully duplicated ${result.successCount} question${result.successCount === 1 ? '' : 's'}`;
-      case 'move':
-        return `Successfully moved ${result.successCount} question${result.successCount === 1 ? '' : 's'}`;
-      case 'update':
-        return `Successfully updated ${result.successCount} question${result.successCount === 1 ? '' : 's'}`;
-    }
-  } else {
-    return `Completed with ${result.successCount}/${total} successful, ${result.failureCount} failed`;
+export function getBulkOperationSummary(operation: BulkOperation, count: number): string {
+  const questions = `${count} question${count === 1 ? '' : 's'}`;
+
+  switch (operation) {
+    case 'delete':
+      return `Deleted ${questions}`;
+    case 'duplicate':
+      return `Duplicated ${questions}`;
+    case 'move':
+      return `Moved ${questions}`;
+    case 'update':
+      return `Updated ${questions}`;
   }
 }
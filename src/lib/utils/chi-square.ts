@@ -4,6 +4,7 @@
 
 import type { TypedQuestion } from '../types/question.types';
 import type { Answer, AnswerValue } from '../types/response.types';
+import { chiSquarePValue } from '../stats/distributions';
 
 export interface ChiSquareResult {
   question1: TypedQuestion;
@@ -210,52 +211,6 @@ function calculateCramersV(chiSquare: number, n: number, rows: number, cols: num
   return Math.sqrt(chiSquare / (n * minDimension));
 }
 
-/**
- * Approximate p-value using chi-square distribution
- * This is a simplified approximation - for production use a proper stats library
- */
-function approximatePValue(chiSquare: number, df: number): number {
-  // Very rough approximation based on critical values
-  // For more accuracy, use a proper stats library like jStat
-
-  // Common critical values at p=0.05
-  const criticalValues: Record<number, number> = {
-    1: 3.841,
-    2: 5.991,
-    3: 7.815,
-    4: 9.488,
-    5: 11.070,
-    6: 12.592,
-    7: 14.067,
-    8: 15.507,
-    9: 16.919,
-    10: 18.307,
-  };
-
-  // If df is in our lookup table
-  if (df in criticalValues) {
-    const critical = criticalValues[df];
-    if (chiSquare < critical) {
-      return 0.1; // Not significant (p > 0.05)
-    } else if (chiSquare > critical * 2) {
-      return 0.001; // Very significant (p < 0.01)
-    } else {
-      return 0.03; // Significant (p < 0.05)
-    }
-  }
-
-  // For other df values, use a rough approximation
-  // This is NOT statistically rigorous - just for demonstration
-  const expectedMean = df;
-  const expectedStd = Math.sqrt(2 * df);
-
-  const zScore = (chiSquare - expectedMean) / expectedStd;
-
-  if (zScore < 1.96) return 0.1; // Not significant
-  if (zScore < 2.58) return 0.04; // Significant at p < 0.05
-  return 0.005; // Very significant
-}
-
 /**
  * Perform chi-square test for independence
  */
@@ -283,8 +238,8 @@ export function performChiSquareTest(
   // Degrees of freedom
   const degreesOfFreedom = (table.rowLabels.length - 1) * (table.columnLabels.length - 1);
 
-  // Calculate p-value (approximation)
-  const pValue = approximatePValue(chiSquare, degreesOfFreedom);
+  // Upper-tail p-value from the chi-square distribution
+  const pValue = chiSquarePValue(chiSquare, degreesOfFreedom);
 
   // Calculate Cramér's V (effect size)
   const cramersV = calculateCramersV(
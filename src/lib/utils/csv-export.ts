@@ -4,6 +4,7 @@
  */
 
 import type { Question } from '@/lib/types/question.types';
+import { formatAnswerValue, sanitizeFilename } from './answer-format';
 
 interface ResponseData {
   id: string;
@@ -15,11 +16,10 @@ interface ResponseData {
   }>;
 }
 
-export function exportResponsesToCSV(
-  formTitle: string,
-  questions: Question[],
-  responses: ResponseData[]
-) {
+/**
+ * Build the CSV content for a set of responses (usable on the server)
+ */
+export function buildResponsesCSV(questions: Question[], responses: ResponseData[]): string {
   // Create headers
   const headers = [
     'Response ID',
@@ -39,105 +39,25 @@ export function exportResponsesToCSV(
     // Add answer values for each question
     questions.forEach((question) => {
       const answer = response.answers.find((a) => a.question_id === question.id);
-
-      if (!answer) {
-        row.push('');
-        return;
-      }
-
-      const value = answer.value as Record<string, unknown>;
-
-      // Format answer based on question type
-      switch (question.type) {
-        case 'short_text':
-        case 'long_text':
-          row.push(String(value.text || ''));
-          break;
-
-        case 'multiple_choice':
-        case 'dropdown': {
-          const choiceId = value.choice_id as string;
-          if (choiceId === 'other' && value.other_text) {
-            row.push(`Other: ${value.other_text}`);
-          } else if (question.options && 'choices' in question.options) {
-            const choice = question.options.choices.find((c) => c.id === choiceId);
-            row.push(choice?.label || choiceId || '');
-          } else {
-            row.push(choiceId || '');
-          }
-          break;
-        }
-
-        case 'checkboxes': {
-          const choiceIds = value.choice_ids as string[];
-          if (!choiceIds || choiceIds.length === 0) {
-            row.push('');
-          } else if (question.options && 'choices' in question.options) {
-            const labels = choiceIds.map((id) => {
-              if (id === 'other' && value.other_text) {
-                return `Other: ${value.other_text}`;
-              }
-              const choice = question.options && 'choices' in question.options
-                ? question.options.choices.find((c) => c.id === id)
-                : null;
-              return choice?.label || id;
-            });
-            row.push(labels.join('; '));
-          } else {
-            row.push(choiceIds.join('; '));
-          }
-          break;
-        }
-
-        case 'linear_scale':
-          row.push(String(value.scale_value || ''));
-          break;
-
-        case 'matrix': {
-          const matrixValues = value.matrix_values as Record<string, string>;
-          if (!matrixValues || Object.keys(matrixValues).length === 0) {
-            row.push('');
-          } else if (question.options && 'rows' in question.options && 'columns' in question.options) {
-            const matrixOptions = question.options;
-            const entries = Object.entries(matrixValues).map(
-              ([rowId, colId]) => {
-                const rowLabel = matrixOptions.rows?.find((r) => r.id === rowId)?.label;
-                const colLabel = matrixOptions.columns?.find((c) => c.id === colId)?.label;
-                return `${rowLabel || rowId}: ${colLabel || colId}`;
-              }
-            );
-            row.push(entries.join('; '));
-          } else {
-            // Fallback: show raw IDs if options structure is invalid
-            const entries = Object.entries(matrixValues).map(
-              ([rowId, colId]) => `${rowId}: ${colId}`
-            );
-            row.push(entries.join('; '));
-          }
-          break;
-        }
-
-        case 'date_time': {
-          const parts: string[] = [];
-          if (value.date) parts.push(String(value.date));
-          if (value.time) parts.push(String(value.time));
-          row.push(parts.join(' '));
-          break;
-        }
-
-        default:
-          row.push('');
-      }
+      row.push(answer ? formatAnswerValue(answer.value, question) : '');
     });
 
     return row;
   });
 
   // Convert to CSV
-  const csvContent = [
+  return [
     headers.map(escapeCSVValue).join(','),
     ...rows.map((row) => row.map(escapeCSVValue).join(',')),
   ].join('\n');
+}
+
+export function exportResponsesToCSV(
+  formTitle: string,
+  questions: Question[],
+  responses: ResponseData[]
+) {
+  const csvContent = buildResponsesCSV(questions, responses);
 
   // Download
   const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
@@ -162,10 +82,3 @@ function escapeCSVValue(value: string): string {
   }
   return value;
 }
-
-/**
- * Sanitize filename
- */
-function sanitizeFilename(filename: string): string {
-  return filename.replace(/[^a-z0-9]/gi, '_').toLowerCase();
-}
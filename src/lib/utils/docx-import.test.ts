@@ -0,0 +1,150 @@
+/**
+ * Questionnaire detection on the procurement needs questionnaires in
+ * src/Questionnaires: six filled-in copies of the same form, each laid out a
+ * little differently by the unit that answered it
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { detectQuestionnaire, type DocxBlock, type DocxImportItem } from './docx-import';
+import { readDocxBlocks } from './server-docx';
+
+const QUESTIONNAIRES = path.join(process.cwd(), 'src/Questionnaires');
+
+const DOCUMENTS = [
+  'Questionnaire for KP Procurement Needs_ALB.docx',
+  'Questionnaire for KP Procurement Needs_ALB  SVMT-DMVH.docx',
+  'Questionnaire for KP Procurement Needs_ALB (2) Sektori per hetimin  e vendit te ngjarjes.docx',
+  'Questionnaire for KP Procurement Needs_ALB 29 TETOR 2025_ Sektori per Regjistrim Kriminalistik.docx',
+  'Questionnaire for KP Procurement Needs_ALB Sektori i forenzikes digjitale.docx',
+  'Drone unit-Questionnaire for KP Procurement Needs_ALB (1).docx',
+];
+
+const MISSING_EQUIPMENT = 'Çfarë lloj pajisjesh mungojnë aktualisht në njësinë tuaj?';
+
+function detect(fileName: string) {
+  return detectQuestionnaire(readDocxBlocks(readFileSync(path.join(QUESTIONNAIRES, fileName))));
+}
+
+function findQuestion(items: DocxImportItem[], title: string): DocxImportItem {
+  const item = items.find((candidate) => candidate.kind === 'question' && candidate.title === title);
+  assert.ok(item, `no question "${title}"`);
+  return item;
+}
+
+function paragraph(text: string): DocxBlock {
+  return { kind: 'paragraph', text, style: null, numId: null, level: null };
+}
+
+describe('detectQuestionnaire on the procurement questionnaires', () => {
+  DOCUMENTS.forEach((fileName) => {
+    it(`reads ${fileName}`, () => {
+      const { title, items } = detect(fileName);
+
+      assert.equal(
+        title,
+        'Pyetësor Gjithëpërfshirës për Vlerësimin e Nevojave për Pajisje për Policinë e Kosovës'
+      );
+
+      const rating = findQuestion(
+        items,
+        'Si do të vlerësonit përshtatshmërinë e pajisjeve tuaja aktuale për kryerjen e detyrave ditore?'
+      );
+      assert.equal(rating.type, 'multiple_choice');
+      assert.equal(rating.choices.length, 4);
+
+      // However the unit listed the equipment, it ends up as the question's options
+      const missing = findQuestion(items, MISSING_EQUIPMENT);
+      assert.equal(missing.type, 'checkboxes');
+      assert.ok(missing.choices.length >= 3, `only ${missing.choices.length} options`);
+      missing.choices.forEach((choice) => {
+        assert.ok(
+          !items.some((item) => item.kind === 'unrecognized' && item.title === choice),
+          `"${choice}" is also unrecognized`
+        );
+      });
+    });
+  });
+
+  it('reads unnumbered lines under the question as checkbox options', () => {
+    const missing = findQuestion(detect(DOCUMENTS[5]).items, MISSING_EQUIPMENT);
+    assert.deepEqual(missing.choices, [
+      'Dronë me kamera të avancuara',
+      'Monitorë të mëdhenj ose konfigurime me shumë ekrane',
+      'Disqe të enkriptuara portative SD CART te enkriptuara',
+    ]);
+  });
+
+  it('strips dashes typed in front of the lines', () => {
+    const { items } = detect(DOCUMENTS[2]);
+    const missing = findQuestion(items, MISSING_EQUIPMENT);
+    assert.equal(missing.choices.length, 5);
+    assert.equal(missing.choices[1], 'Lloptop');
+  });
+
+  it('reads a Word list under the question as checkbox options', () => {
+    const missing = findQuestion(detect(DOCUMENTS[1]).items, MISSING_EQUIPMENT);
+    assert.deepEqual(missing.choices, [
+      'Dron me kamera të avancuara dhe GPS',
+      'Kamera të fshehta dhe pajisje audio për operacione speciale',
+      'Pajisje për gjurmim GPS',
+    ]);
+  });
+
+  it('reads a one-column table under the question as options, one per line', () => {
+    const missing = findQuestion(detect(DOCUMENTS[4]).items, MISSING_EQUIPMENT);
+    assert.equal(missing.type, 'checkboxes');
+    assert.equal(missing.choices.length, 6);
+    assert.equal(missing.choices[0], 'TALINIO KA-301 Fortensic Workstation');
+    assert.equal(missing.choices[3], 'Grey key');
+  });
+
+  it('keeps "select all that apply" and "other" on tick-box questions', () => {
+    const categories = detect(DOCUMENTS[0]).items.find((item) => item.title.startsWith('Cilat kategori'));
+    assert.ok(categories);
+    assert.equal(categories.type, 'checkboxes');
+    assert.equal(categories.allowOther, true);
+    assert.equal(categories.choices.length, 8);
+  });
+});
+
+// None of the questionnaires above has a grid, so matrices are checked on tables built here
+describe('detectQuestionnaire on grids', () => {
+  const grid: DocxBlock = {
+    kind: 'table',
+    rows: [
+      ['', 'Shumë mirë', 'Mirë', 'Dobët'],
+      ['Radio', '☐', 'X', '☐'],
+      ['Automjete', '', '', ''],
+      ['', '', '', ''],
+    ],
+  };
+
+  it('reads a grid under a question as its matrix', () => {
+    const { items } = detectQuestionnaire([
+      paragraph('Pyetësor'),
+      paragraph('Si e vlerësoni gjendjen e pajisjeve?'),
+      grid,
+    ]);
+
+    assert.equal(items.length, 1);
+    assert.equal(items[0].type, 'matrix');
+    assert.deepEqual(items[0].matrix, {
+      rows: ['Radio', 'Automjete'],
+      columns: ['Shumë mirë', 'Mirë', 'Dobët'],
+    });
+  });
+
+  it('reads a grid with no question above it as a question of its own', () => {
+    const { items } = detectQuestionnaire([paragraph('Pyetësor'), paragraph('Pjesa 2: Pajisjet'), grid]);
+    assert.deepEqual(
+      items.map((item) => [item.kind, item.type]),
+      [
+        ['section', 'short_text'],
+        ['question', 'matrix'],
+      ]
+    );
+  });
+});
@@ -0,0 +1,494 @@
+/**
+ * Questionnaire import from Word documents
+ * server-docx.ts reads the document into paragraphs and tables; this module
+ * works out which of them are questions, options and section headings. The
+ * result is reviewed in the builder before anything is created, so blocks
+ * that fit no pattern are kept and flagged rather than dropped.
+ */
+
+import { nanoid } from 'nanoid';
+import type { QuestionCreate, QuestionType } from '@/lib/types/question.types';
+import { createOption } from '@/lib/utils/question-utils';
+
+export interface DocxParagraph {
+  kind: 'paragraph';
+  text: string;
+  style: string | null; // Paragraph style id, e.g. "Heading1" or "ListParagraph"
+  numId: string | null; // Word list the paragraph is numbered in
+  level: number | null; // Indent level within that list
+}
+
+export interface DocxTable {
+  kind: 'table';
+  rows: string[][];
+}
+
+export type DocxBlock = DocxParagraph | DocxTable;
+
+export type ImportQuestionType = Extract<
+  QuestionType,
+  'short_text' | 'long_text' | 'multiple_choice' | 'checkboxes' | 'dropdown' | 'linear_scale' | 'matrix'
+>;
+
+export interface DocxImportItem {
+  id: string;
+  kind: 'question' | 'section' | 'unrecognized';
+  title: string;
+  description: string;
+  type: ImportQuestionType; // Used when the item is imported as a question
+  choices: string[];
+  allowOther: boolean;
+  matrix: { rows: string[]; columns: string[] } | null;
+  scale: { min: number; max: number } | null;
+  source: string; // Document text the item came from
+  notes: string[]; // Patterns that were recognised, or why nothing was
+}
+
+export interface DocxImportResult {
+  title: string | null;
+  items: DocxImportItem[];
+}
+
+const MAX_TITLE_LENGTH = 500;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+// ☐ ☑ ☒ □ ○ ... or [ ] ( ), or a typed X in front of a ticked answer ("X Yes", "XOther", "X☐ Yes")
+const CHECKBOX_PREFIX =
+  /^(?:(?:[☐☑☒□■▢◻◼○●◯❑❒✓✔✗✘]|\[\s*[xX✓]?\s*\]|\(\s*[xX✓]?\s*\)|[xX](?=[\s☐☑☒□]|\p{Lu}))\s*)+/u;
+const LETTER_PREFIX = /^\(?[a-zA-Z][.)]\s+/;
+const BULLET_PREFIX = /^[•◦▪‣∙·\-–—*]\s+/;
+const NUMBER_PREFIX = /^(?:(?:q|question|pyetja)\s*)?\d{1,3}[.)]\s+(?=\S)/i;
+const HEADING_PATTERN = /^(?:(?:part|section|pjesa|seksioni)\s+\d+\b|\d{1,2}\s*:\s*\S)/i;
+const FIELD_PATTERN = /^([^:?]{2,60}):\s*(.{0,150})$/;
+const MULTI_SELECT_HINT =
+  /all that apply|select all|choose all|more than one|multiple answers|të gjitha që aplikohen|zgjidhni të gjitha|më shumë se një/i;
+const LONG_ANSWER_HINT = /describe|explain|comment|list\b|përshkruani|shpjegoni|koment|listoni/i;
+const OTHER_OPTION = /^(?:other|others|tjera|tjetër|të tjera|tjeter)\b|specify|specifikoni|_{3,}/i;
+// Dash typed straight before an item, e.g. "-Laptop"
+const DASH_PREFIX = /^[-–—]\s*/;
+const MAX_PLAIN_OPTION_WORDS = 20;
+
+function stripPrefix(text: string, pattern: RegExp): string {
+  return text.replace(pattern, '').trim();
+}
+
+function isHeadingStyle(style: string | null): boolean {
+  return !!style && /^(heading|title|subtitle|titull)/i.test(style);
+}
+
+function isAllCaps(text: string): boolean {
+  const letters = text.replace(/[^\p{L}]/gu, '');
+  return letters.length >= 2 && letters === letters.toUpperCase() && text.split(/\s+/).length <= 12;
+}
+
+function isListItem(paragraph: DocxParagraph): boolean {
+  return paragraph.numId !== null && paragraph.numId !== '0';
+}
+
+function isAnswerCell(text: string): boolean {
+  return text.trim() === '' || CHECKBOX_PREFIX.test(text.trim()) || /^[xX✓✔]$/.test(text.trim());
+}
+
+function newItem(kind: DocxImportItem['kind'], title: string, source: string): DocxImportItem {
+  return {
+    id: nanoid(),
+    kind,
+    title: title.slice(0, MAX_TITLE_LENGTH),
+    description: '',
+    type: 'short_text',
+    choices: [],
+    allowOther: false,
+    matrix: null,
+    scale: null,
+    source,
+    notes: [],
+  };
+}
+
+/**
+ * A grid with row labels down the first column and answer columns across
+ * the top, with empty or tick-box cells in between
+ */
+function readMatrix(rows: string[][]): { rows: string[]; columns: string[] } | null {
+  // Blank rows left at the end of a grid are not statements
+  const filled = rows.filter((row) => row.some((cell) => cell.trim()));
+  if (filled.length < 2) return null;
+
+  const [header, ...body] = filled;
+  const columns = header.slice(1).map((cell) => cell.trim());
+  if (columns.length < 2 || columns.some((column) => !column)) return null;
+
+  const rowLabels = body.map((row) => (row[0] ?? '').trim());
+  const isGrid = body.every(
+    (row, index) => rowLabels[index] && row.slice(1).every((cell) => isAnswerCell(cell))
+  );
+
+  return isGrid ? { rows: rowLabels, columns } : null;
+}
+
+/**
+ * A one-column table listing items, one or more per cell
+ */
+function readTableList(rows: string[][]): string[] | null {
+  if (rows.length < 2 || rows.some((row) => row.length !== 1)) return null;
+
+  const items = rows.flatMap((row) => row[0].split('\n').map((line) => line.trim()).filter(Boolean));
+  return items.length >= 2 ? items : null;
+}
+
+/**
+ * Options numbered 1..n are a rating scale
+ */
+function readScale(choices: string[]): { min: number; max: number } | null {
+  if (choices.length < 3 || !choices.every((choice) => /^-?\d+$/.test(choice))) return null;
+
+  const values = choices.map(Number);
+  const isConsecutive = values.every((value, index) => index === 0 || value === values[index - 1] + 1);
+  return isConsecutive ? { min: values[0], max: values[values.length - 1] } : null;
+}
+
+function finishQuestion(item: DocxImportItem, hasAnswerBox: boolean, hasUnmarkedOptions: boolean) {
+  const hint = `${item.title} ${item.description}`;
+
+  if (item.choices.length > 0) {
+    const scale = readScale(item.choices);
+    if (scale) {
+      item.type = 'linear_scale';
+      item.scale = scale;
+      item.notes.push('Numbered options read as a rating scale');
+    } else if (MULTI_SELECT_HINT.test(hint)) {
+      item.type = 'checkboxes';
+      item.notes.push('"Select all that apply" read as checkboxes');
+    } else if (hasUnmarkedOptions) {
+      // Nothing marks the items as alternatives, so any number may apply
+      item.type = 'checkboxes';
+      item.notes.push('Unmarked list read as checkboxes');
+    } else {
+      item.type = 'multiple_choice';
+    }
+    if (item.choices.length === 1 && !item.allowOther) {
+      item.notes.push('Only one option found');
+    }
+  } else if (item.matrix) {
+    item.type = 'matrix';
+  } else if (hasAnswerBox || LONG_ANSWER_HINT.test(hint)) {
+    item.type = 'long_text';
+  } else {
+    item.type = 'short_text';
+  }
+}
+
+function isOptionLine(text: string): boolean {
+  return CHECKBOX_PREFIX.test(text) || LETTER_PREFIX.test(text) || BULLET_PREFIX.test(text);
+}
+
+function optionLabel(text: string): string {
+  return stripPrefix(stripPrefix(stripPrefix(text, CHECKBOX_PREFIX), LETTER_PREFIX), BULLET_PREFIX);
+}
+
+// Short unpunctuated lines that introduce what follows
+function isHeading(paragraph: DocxParagraph): boolean {
+  const { text } = paragraph;
+  if (text.includes('?')) return false;
+  if (isHeadingStyle(paragraph.style) || HEADING_PATTERN.test(text) || isAllCaps(text)) return true;
+  return isListItem(paragraph) && text.split(/\s+/).length <= 8 && !/[.:;,]/.test(text);
+}
+
+// Lines typed under a question without tick boxes, letters or list numbering
+function isPlainLine(paragraph: DocxParagraph): boolean {
+  const { text } = paragraph;
+  return (
+    !!text &&
+    !isListItem(paragraph) &&
+    !isOptionLine(text) &&
+    !text.includes('?') &&
+    !/[:.]$/.test(text) &&
+    !/^\(.*\)$/.test(text) &&
+    !NUMBER_PREFIX.test(text) &&
+    !FIELD_PATTERN.test(text) &&
+    !isHeading(paragraph) &&
+    text.split(/\s+/).length <= MAX_PLAIN_OPTION_WORDS
+  );
+}
+
+// Plain lines from index on, skipping empty paragraphs
+function countPlainLines(blocks: DocxBlock[], index: number): number {
+  let count = 0;
+  for (const block of blocks.slice(index)) {
+    if (block.kind === 'table') break;
+    if (!block.text) continue;
+    if (!isPlainLine(block)) break;
+    count++;
+  }
+  return count;
+}
+
+interface DetectionState {
+  question: DocxImportItem | null; // Open question that options attach to
+  questionList: DocxParagraph | null; // Its list paragraph, when numbered by Word
+  optionListId: string | null; // Word list its options came from
+  hasUnmarkedOptions: boolean; // Options read from list items, plain lines or a one-column table
+  hasAnswerBox: boolean;
+  lastItem: DocxImportItem | null;
+}
+
+/**
+ * Work out the questions in a questionnaire
+ */
+export function detectQuestionnaire(blocks: DocxBlock[]): DocxImportResult {
+  const items: DocxImportItem[] = [];
+  let title: string | null = null;
+  const state: DetectionState = {
+    question: null,
+    questionList: null,
+    optionListId: null,
+    hasUnmarkedOptions: false,
+    hasAnswerBox: false,
+    lastItem: null,
+  };
+
+  const closeQuestion = () => {
+    if (state.question) finishQuestion(state.question, state.hasAnswerBox, state.hasUnmarkedOptions);
+    state.question = null;
+    state.questionList = null;
+    state.optionListId = null;
+    state.hasUnmarkedOptions = false;
+    state.hasAnswerBox = false;
+  };
+
+  const push = (item: DocxImportItem) => {
+    items.push(item);
+    state.lastItem = item;
+  };
+
+  // List items answer the open question when they sit below it in the same
+  // list, or form a list of their own straight after it
+  const isListOption = (paragraph: DocxParagraph): boolean => {
+    const { question, questionList, optionListId } = state;
+    if (!question || !isListItem(paragraph) || paragraph.text.includes('?')) return false;
+
+    if (questionList && paragraph.numId === questionList.numId) {
+      return (paragraph.level ?? 0) > (questionList.level ?? 0);
+    }
+    if (question.choices.length === 0 && !question.allowOther) return true;
+    return optionListId === paragraph.numId;
+  };
+
+  blocks.forEach((block, index) => {
+    if (block.kind === 'table') {
+      const text = block.rows.map((row) => row.join(' | ')).join('\n').trim();
+      const matrix = readMatrix(block.rows);
+      const list = readTableList(block.rows);
+      const isSingleCell = block.rows.length === 1 && block.rows[0].length === 1;
+      const question = state.question;
+      const hasOptions = !!question && (question.choices.length > 0 || question.allowOther);
+
+      if (matrix) {
+        // The grid answers the question right above it, if that has no options yet
+        const item =
+          question && question.choices.length === 0
+            ? question
+            : newItem('question', block.rows[0][0]?.trim() || 'Untitled matrix question', text);
+        item.matrix = matrix;
+        item.notes.push('Table read as a matrix');
+        if (item !== question) {
+          closeQuestion();
+          item.notes.push('No question text found above the table');
+          push(item);
+          state.question = item;
+        }
+        closeQuestion();
+      } else if (list && question && !hasOptions) {
+        // Items listed one per row under the question are its options
+        question.choices.push(...list);
+        question.notes.push('One-column table read as options');
+        question.source += `\n${text}`;
+        state.hasUnmarkedOptions = true;
+        closeQuestion();
+      } else if (isSingleCell && question && question.choices.length === 0) {
+        // A box to write the answer in
+        state.hasAnswerBox = true;
+        closeQuestion();
+      } else if (text) {
+        closeQuestion();
+        const item = newItem('unrecognized', text.split('\n')[0], text);
+        item.notes.push(isSingleCell ? 'Text box that does not follow a question' : 'Table that is not a grid of answers');
+        push(item);
+      }
+      return;
+    }
+
+    const text = block.text;
+    if (!text) return;
+
+    // A leading title becomes the form title
+    if (items.length === 0 && title === null) {
+      const looksLikeTitle =
+        isHeadingStyle(block.style) ||
+        (!isListItem(block) && !text.includes('?') && !FIELD_PATTERN.test(text) && !isOptionLine(text));
+      if (looksLikeTitle && text.length <= 200) {
+        title = text;
+        return;
+      }
+    }
+
+    // Options of the open question
+    const question = state.question;
+    const isPrefixedOption = isOptionLine(text);
+    if (question && (isPrefixedOption || isListOption(block))) {
+      const label = optionLabel(text);
+      if (OTHER_OPTION.test(label)) {
+        if (!question.allowOther) question.notes.push('"Other (specify)" option allows a written answer');
+        question.allowOther = true;
+      } else if (label) {
+        question.choices.push(label);
+      }
+      if (!isPrefixedOption) {
+        state.optionListId = block.numId;
+        state.hasUnmarkedOptions = true;
+      }
+      if (!question.notes.some((note) => note.endsWith('options'))) {
+        question.notes.push(
+          CHECKBOX_PREFIX.test(text)
+            ? 'Tick-box options'
+            : LETTER_PREFIX.test(text)
+              ? 'Lettered options'
+              : BULLET_PREFIX.test(text)
+                ? 'Bulleted options'
+                : 'List items read as options'
+        );
+      }
+      question.source += `\n${text}`;
+      return;
+    }
+
+    // Items typed one per line under a question, when there are at least two of them
+    const continuesPlainList = state.hasUnmarkedOptions && state.optionListId === null;
+    const startsPlainList =
+      !!question && question.choices.length === 0 && !question.allowOther && countPlainLines(blocks, index) >= 2;
+    if (question && (continuesPlainList || startsPlainList) && isPlainLine(block)) {
+      if (!state.hasUnmarkedOptions) question.notes.push('Lines under the question read as options');
+      question.choices.push(stripPrefix(text, DASH_PREFIX));
+      question.source += `\n${text}`;
+      state.hasUnmarkedOptions = true;
+      return;
+    }
+
+    // Instructions in brackets belong to the question or section above
+    const lastItem = state.lastItem;
+    if (/^\(.*\)$/.test(text) && lastItem && lastItem.kind !== 'unrecognized') {
+      lastItem.description = [lastItem.description, text.slice(1, -1).trim()]
+        .filter(Boolean)
+        .join(' ')
+        .slice(0, MAX_DESCRIPTION_LENGTH);
+      lastItem.source += `\n${text}`;
+      return;
+    }
+
+    if (isHeading(block)) {
+      closeQuestion();
+      const item = newItem('section', stripPrefix(stripPrefix(text, NUMBER_PREFIX), /^\d{1,2}\s*:\s*/), text);
+      item.notes.push('Heading read as a section');
+      push(item);
+      return;
+    }
+
+    const nextBlock = blocks[index + 1];
+    const nextIsOption =
+      nextBlock?.kind === 'paragraph' &&
+      (CHECKBOX_PREFIX.test(nextBlock.text) ||
+        LETTER_PREFIX.test(nextBlock.text) ||
+        (isListItem(block) &&
+          nextBlock.numId === block.numId &&
+          (nextBlock.level ?? 0) > (block.level ?? 0)));
+    const isNumbered = NUMBER_PREFIX.test(text);
+    const field = FIELD_PATTERN.exec(text);
+
+    if (field && field[1].split(/\s+/).length <= 8 && !nextIsOption) {
+      // "Label: value" lines are form fields, sometimes already filled in
+      closeQuestion();
+      const item = newItem('question', field[1].trim(), text);
+      item.notes.push(
+        field[2].replace(/_/g, '').trim() ? 'Field read from "label: value" (value ignored)' : 'Fill-in field'
+      );
+      push(item);
+      state.question = item;
+      closeQuestion();
+      return;
+    }
+
+    if (text.includes('?') || /:$/.test(text) || isNumbered || nextIsOption) {
+      closeQuestion();
+      const item = newItem('question', stripPrefix(text, NUMBER_PREFIX).replace(/:$/, ''), text);
+      if (isNumbered || isListItem(block)) item.notes.push('Numbered question');
+      push(item);
+      state.question = item;
+      state.questionList = isListItem(block) ? block : null;
+      return;
+    }
+
+    closeQuestion();
+    const item = newItem('unrecognized', text, text);
+    item.notes.push(isPrefixedOption ? 'Option without a question above it' : 'Not a question, option or heading');
+    push(item);
+  });
+
+  closeQuestion();
+
+  return { title, items };
+}
+
+/**
+ * Types an item can be imported as, given what was read from the document
+ */
+export function getImportTypes(item: DocxImportItem): ImportQuestionType[] {
+  const types: ImportQuestionType[] = ['short_text', 'long_text'];
+  if (item.choices.length > 0 || item.allowOther) types.push('multiple_choice', 'checkboxes', 'dropdown');
+  if (item.scale) types.push('linear_scale');
+  if (item.matrix) types.push('matrix');
+  return types;
+}
+
+/**
+ * The addQuestion payload for a reviewed item
+ */
+export function toQuestionData(
+  item: DocxImportItem,
+  sectionId: string | null,
+  orderIndex: number
+): Omit<QuestionCreate, 'form_id'> {
+  const base = {
+    type: item.type,
+    title: item.title.trim().slice(0, MAX_TITLE_LENGTH) || 'Untitled Question',
+    description: item.description.trim().slice(0, MAX_DESCRIPTION_LENGTH) || undefined,
+    required: false,
+    order_index: orderIndex,
+    section_id: sectionId,
+  };
+
+  switch (item.type) {
+    case 'multiple_choice':
+    case 'checkboxes':
+    case 'dropdown':
+      return {
+        ...base,
+        options: {
+          choices: item.choices.map((label) => createOption(label)),
+          ...(item.allowOther ? { allowOther: true } : {}),
+        },
+      };
+    case 'linear_scale':
+      return { ...base, options: item.scale ?? { min: 1, max: 5 } };
+    case 'matrix':
+      return {
+        ...base,
+        options: {
+          rows: (item.matrix?.rows ?? []).map((label) => ({ id: nanoid(), label })),
+          columns: (item.matrix?.columns ?? []).map((label) => ({ id: nanoid(), label })),
+          type: 'radio',
+        },
+      };
+    default:
+      return base;
+  }
+}
@@ -7,6 +7,7 @@ import ExcelJS from 'exceljs';
 import type { Question, Choice } from '@/lib/types/question.types';
 import type { Answer } from '@/lib/types/response.types';
 import { getChoiceFrequencies, getHighestSelection } from './analytics-helpers';
+import { formatAnswerValue, sanitizeFilename } from './answer-format';
 
 interface ResponseData {
   id: string;
@@ -24,14 +25,14 @@ interface AnswersByQuestion {
 }
 
 /**
- * Export responses to Excel with multiple worksheets and professional formatting
+ * Build the Excel workbook for a set of responses (usable on the server)
  */
-export async function exportResponsesToExcel(
+export async function buildResponsesWorkbook(
   formTitle: string,
   questions: Question[],
   responses: ResponseData[],
   answersByQuestion?: AnswersByQuestion
-) {
+): Promise<ExcelJS.Buffer> {
   const workbook = new ExcelJS.Workbook();
   workbook.creator = 'StatQ';
   workbook.created = new Date();
@@ -48,8 +49,20 @@ export async function exportResponsesToExcel(
   // Sheet 4: Choice Analysis
   createChoiceAnalysisSheet(workbook, questions, responses, answersByQuestion);
 
+  return workbook.xlsx.writeBuffer();
+}
+
+/**
+ * Export responses to Excel with multiple worksheets and professional formatting
+ */
+export async function exportResponsesToExcel(
+  formTitle: string,
+  questions: Question[],
+  responses: ResponseData[],
+  answersByQuestion?: AnswersByQuestion
+) {
   // Generate and download
-  const buffer = await workbook.xlsx.writeBuffer();
+  const buffer = await buildResponsesWorkbook(formTitle, questions, responses, answersByQuestion);
   const blob = new Blob([buffer], {
     type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
   });
@@ -255,7 +268,7 @@ function createIndividualResponsesSheet(
     // Add answers for each question
     questions.forEach((question) => {
       const answer = response.answers.find((a) => a.question_id === question.id);
-      rowData.push(formatAnswerForExcel(answer?.value, question));
+      rowData.push(formatAnswerValue(answer?.value, question));
     });
 
     row.values = rowData;
@@ -492,71 +505,6 @@ function createChoiceAnalysisSheet(
   sheet.getColumn(4).width = 30;
 }
 
-/**
- * Format answer value for Excel display
- */
-function formatAnswerForExcel(value: unknown, question: Question): string {
-  if (!value) return '';
-
-  const answerValue = value as Record<string, unknown>;
-
-  switch (question.type) {
-    case 'short_text':
-    case 'long_text':
-      return String(answerValue.text || '');
-
-    case 'multiple_choice':
-    case 'dropdown': {
-      const choiceId = answerValue.choice_id as string;
-      if (!choiceId) return '';
-
-      if (choiceId === 'other' && answerValue.other_text) {
-        return `Other: ${answerValue.other_text}`;
-      }
-
-      if (question.options && 'choices' in question.options) {
-        const choice = question.options.choices.find((c) => c.id === choiceId);
-        return choice?.label || choiceId;
-      }
-
-      return choiceId;
-    }
-
-    case 'checkboxes': {
-      const choiceIds = answerValue.choice_ids as string[];
-      if (!choiceIds || choiceIds.length === 0) return '';
-
-      if (question.options && 'choices' in question.options) {
-        const labels = choiceIds.map((id) => {
-          if (id === 'other' && answerValue.other_text) {
-            return `Other: ${answerValue.other_text}`;
-          }
-          const choice = question.options && 'choices' in question.options
-            ? question.options.choices.find((c) => c.id === id)
-            : null;
-          return choice?.label || id;
-        });
-        return labels.join('; ');
-      }
-
-      return choiceIds.join('; ');
-    }
-
-    case 'linear_scale':
-      return String(answerValue.scale_value || '');
-
-    case 'date_time': {
-      const parts: string[] = [];
-      if (answerValue.date) parts.push(String(answerValue.date));
-      if (answerValue.time) parts.push(String(answerValue.time));
-      return parts.join(' ');
-    }
-
-    default:
-      return '';
-  }
-}
-
 /**
  * Format question type for display
  */
@@ -566,10 +514,3 @@ function formatQuestionType(type: string): string {
     .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
     .join(' ');
 }
-
-/**
- * Sanitize filename
- */
-function sanitizeFilename(filename: string): string {
-  return filename.replace(/[^a-z0-9]/gi, '_').toLowerCase();
-}
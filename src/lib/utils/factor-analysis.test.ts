@@ -0,0 +1,228 @@
+/**
+ * Sampling adequacy, Bartlett's test and rotations against known answers:
+ * KMO and χ² for an equicorrelation matrix, whose inverse and determinant
+ * have closed forms, and simple-structure loadings turned by a known angle,
+ * which varimax must turn back and promax must recover with their correlation
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { invert, multiply, symmetricEigen, transpose } from '@/lib/stats/linear-algebra';
+import { analyzeFactors, bartlettSphericity, promax, samplingAdequacy, varimax } from './factor-analysis';
+
+function assertClose(actual: number, expected: number, tolerance: number) {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${expected} ± ${tolerance}, got ${actual}`
+  );
+}
+
+function assertMatrixClose(actual: number[][], expected: number[][], tolerance: number) {
+  assert.equal(actual.length, expected.length);
+  actual.forEach((row, i) => row.forEach((value, j) => assertClose(value, expected[i][j], tolerance)));
+}
+
+function planeRotation(degrees: number): number[][] {
+  const angle = (degrees * Math.PI) / 180;
+  return [
+    [Math.cos(angle), -Math.sin(angle)],
+    [Math.sin(angle), Math.cos(angle)],
+  ];
+}
+
+// Loadings as factors come out of an unrotated solution: in some order, each pointing either way
+function matchColumns(loadings: number[][], expected: number[][]): number[][] {
+  const columns = expected[0].map((_, j) => {
+    const target = expected.map((row) => row[j]);
+    const best = loadings[0]
+      .map((_, c) => loadings.reduce((sum, row, i) => sum + row[c] * target[i], 0))
+      .reduce((bestSoFar, fit, c, fits) => (Math.abs(fit) > Math.abs(fits[bestSoFar]) ? c : bestSoFar), 0);
+    const sign = loadings.reduce((sum, row, i) => sum + row[best] * target[i], 0) < 0 ? -1 : 1;
+    return loadings.map((row) => row[best] * sign);
+  });
+  return loadings.map((_, i) => columns.map((column) => column[i]));
+}
+
+function equicorrelation(size: number, rho: number): number[][] {
+  return Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => (i === j ? 1 : rho)));
+}
+
+// Two clusters of items, each loading on one factor only
+const SIMPLE_STRUCTURE = [
+  [0.8, 0],
+  [0.7, 0],
+  [0.6, 0],
+  [0.5, 0],
+  [0, 0.8],
+  [0, 0.7],
+  [0, 0.6],
+];
+
+describe('samplingAdequacy', () => {
+  it('matches the closed form for equal correlations', () => {
+    // Partial correlations are ρ / (1 + (k - 2)ρ) = 0.25, so KMO = 0.25 / (0.25 + 0.0625)
+    const correlations = equicorrelation(4, 0.5);
+    const { kmo, itemMsa } = samplingAdequacy(correlations, invert(correlations)!);
+    assertClose(kmo, 0.8, 1e-12);
+    itemMsa.forEach((msa) => assertClose(msa, 0.8, 1e-12));
+  });
+
+  it('is lower for items whose correlation is specific to pairs', () => {
+    const correlations = [
+      [1, 0.7, 0.05, 0.05],
+      [0.7, 1, 0.05, 0.05],
+      [0.05, 0.05, 1, 0.7],
+      [0.05, 0.05, 0.7, 1],
+    ];
+    const { kmo } = samplingAdequacy(correlations, invert(correlations)!);
+    assert.ok(kmo < 0.55, `KMO = ${kmo}`);
+  });
+});
+
+describe('bartlettSphericity', () => {
+  it('matches -(n - 1 - (2k + 5) / 6) · ln|R|', () => {
+    // |R| = (1 - ρ)^(k - 1) · (1 + (k - 1)ρ) = 0.3125
+    const { values } = symmetricEigen(equicorrelation(4, 0.5));
+    const result = bartlettSphericity(values, 100);
+    assertClose(result.chiSquare, -(99 - 13 / 6) * Math.log(0.3125), 1e-9);
+    assertClose(result.chiSquare, 112.6318, 1e-4);
+    assert.equal(result.degreesOfFreedom, 6);
+    assert.ok(result.pValue < 1e-20);
+  });
+
+  it('finds nothing to factor in uncorrelated items', () => {
+    const result = bartlettSphericity([1, 1, 1, 1, 1], 50);
+    assert.equal(result.chiSquare, 0);
+    assert.equal(result.degreesOfFreedom, 10);
+    assertClose(result.pValue, 1, 1e-12);
+  });
+});
+
+describe('varimax', () => {
+  [10, 30, 45, 70].forEach((degrees) => {
+    it(`turns simple structure rotated by ${degrees}° back`, () => {
+      const rotated = multiply(SIMPLE_STRUCTURE, planeRotation(degrees));
+      const result = varimax(rotated);
+
+      assertMatrixClose(matchColumns(result.loadings, SIMPLE_STRUCTURE), SIMPLE_STRUCTURE, 1e-10);
+      assertMatrixClose(multiply(rotated, result.rotation), result.loadings, 1e-12);
+      assertMatrixClose(multiply(transpose(result.rotation), result.rotation), [[1, 0], [0, 1]], 1e-12);
+    });
+  });
+
+  it('recovers three factors', () => {
+    const structure = [
+      [0.8, 0, 0],
+      [0.7, 0, 0],
+      [0, 0.75, 0],
+      [0, 0.6, 0],
+      [0, 0, 0.7],
+      [0, 0, 0.65],
+    ];
+    // A rotation about (1, 1, 1) by 50°, then about the third axis by 20°
+    const angle = (50 * Math.PI) / 180;
+    const [c, s, t] = [Math.cos(angle), Math.sin(angle) / Math.sqrt(3), (1 - Math.cos(angle)) / 3];
+    const turn = [
+      [c + t, t - s, t + s],
+      [t + s, c + t, t - s],
+      [t - s, t + s, c + t],
+    ];
+    const plane = planeRotation(20);
+    const third = [[...plane[0], 0], [...plane[1], 0], [0, 0, 1]];
+
+    const result = varimax(multiply(multiply(structure, turn), third));
+    assertMatrixClose(matchColumns(result.loadings, structure), structure, 1e-8);
+  });
+
+  it('leaves a single factor alone', () => {
+    const loadings = [[0.7], [0.6], [0.5]];
+    assert.deepEqual(varimax(loadings).loadings, loadings);
+  });
+});
+
+describe('promax', () => {
+  it('recovers correlated simple-structure factors', () => {
+    // Pattern SIMPLE_STRUCTURE with factors correlating 0.5 (Φ = CC'), turned by 20°
+    const cholesky = [
+      [1, 0],
+      [0.5, Math.sqrt(0.75)],
+    ];
+    const unrotated = multiply(multiply(SIMPLE_STRUCTURE, cholesky), planeRotation(20));
+    const result = promax(unrotated);
+
+    assertMatrixClose(matchColumns(result.loadings, SIMPLE_STRUCTURE), SIMPLE_STRUCTURE, 0.01);
+    assertClose(Math.abs(result.factorCorrelations[0][1]), 0.5, 0.02);
+
+    // An oblique rotation keeps the common variance: PΦP' = AA'
+    assertMatrixClose(
+      multiply(multiply(result.loadings, result.factorCorrelations), transpose(result.loadings)),
+      multiply(unrotated, transpose(unrotated)),
+      1e-10
+    );
+  });
+
+  it('finds uncorrelated factors for orthogonal simple structure', () => {
+    const result = promax(multiply(SIMPLE_STRUCTURE, planeRotation(35)));
+    assertMatrixClose(matchColumns(result.loadings, SIMPLE_STRUCTURE), SIMPLE_STRUCTURE, 1e-8);
+    assertClose(result.factorCorrelations[0][1], 0, 1e-8);
+  });
+});
+
+describe('analyzeFactors', () => {
+  // Six items on twelve respondents: three follow one pattern, three another
+  const first = [1, 2, 3, 4, 5, 1, 2, 3, 4, 5, 3, 2];
+  const second = [2, 4, 1, 5, 3, 3, 1, 4, 2, 5, 3, 1];
+  const noise = [0, 1, -1, 0, 1, -1, 1, 0, -1, 0, 0, 1];
+  const offset = (base: number[], shift: number, sign: number) =>
+    base.map((value, i) => value + sign * 0.5 * noise[(i + shift) % noise.length]);
+  const items = [
+    offset(first, 0, 1),
+    offset(first, 3, -1),
+    offset(first, 6, 1),
+    offset(second, 1, 1),
+    offset(second, 4, -1),
+    offset(second, 7, 1),
+  ];
+  const labels = ['a', 'b', 'c', 'd', 'e', 'f'];
+
+  it('suggests two factors and reports eigenvalues of the correlation matrix', () => {
+    const result = analyzeFactors(items, labels, { method: 'pca', rotation: 'none' });
+    assert.equal(result.suggestedFactorCount, 2);
+    assert.equal(result.factorCount, 2);
+    assertClose(result.eigenvalues.reduce((sum, value) => sum + value, 0), 6, 1e-10);
+
+    // Unrotated component loadings are the eigenvectors scaled by √λ
+    result.eigenvalues.slice(0, 2).forEach((eigenvalue, j) => {
+      assertClose(result.loadings.reduce((sum, row) => sum + row[j] ** 2, 0), eigenvalue, 1e-10);
+    });
+    result.communalities.forEach((communality, i) => {
+      assertClose(communality, result.loadings[i][0] ** 2 + result.loadings[i][1] ** 2, 1e-12);
+    });
+  });
+
+  (['varimax', 'promax'] as const).forEach((rotation) => {
+    it(`separates the two groups of items with ${rotation}`, () => {
+      const result = analyzeFactors(items, labels, { method: 'paf', rotation });
+      const primary = result.loadings.map((row) => (Math.abs(row[0]) > Math.abs(row[1]) ? 0 : 1));
+
+      assert.equal(new Set(primary.slice(0, 3)).size, 1);
+      assert.equal(new Set(primary.slice(3)).size, 1);
+      assert.notEqual(primary[0], primary[3]);
+      assert.equal(result.converged, true);
+      assert.equal(result.heywood, false);
+      assert.equal(result.factorCorrelations === null, rotation === 'varimax');
+    });
+  });
+
+  it('rejects too few items, too few respondents and constant items', () => {
+    assert.throws(() => analyzeFactors(items.slice(0, 2), labels, { method: 'pca', rotation: 'none' }), /at least 3 items/);
+    assert.throws(
+      () => analyzeFactors(items.map((item) => item.slice(0, 6)), labels, { method: 'pca', rotation: 'none' }),
+      /needs more than 6 respondents/
+    );
+    assert.throws(
+      () => analyzeFactors([...items.slice(0, 5), new Array(12).fill(3)], labels, { method: 'pca', rotation: 'none' }),
+      /Everyone gave the same answer to "f"/
+    );
+  });
+});
@@ -0,0 +1,600 @@
+/**
+ * Factor analysis
+ * Principal component analysis and exploratory factor analysis (principal
+ * axis factoring) of numeric items, with varimax or promax rotation, sampling
+ * adequacy checks and regression-method factor scores. Saved factor scores
+ * become computed variables that analytics and exports treat like sliders.
+ */
+
+import { invert, multiply, symmetricEigen, transpose } from '@/lib/stats/linear-algebra';
+import { chiSquarePValue } from '@/lib/stats/distributions';
+import { asTypedQuestion } from '@/lib/utils/question-type-guards';
+import {
+  getNumericVariables,
+  groupResponseAnswers,
+  lastAnsweredAt,
+  readVariable,
+  toComputedAnswers,
+  type NumericVariable,
+} from '@/lib/utils/analysis-variables';
+import { correlationMatrix } from '@/lib/utils/scale-reliability';
+import type { FormFactorScore, FormFactorScoreItem } from '@/lib/types/form.types';
+import type { Question, TypedQuestion } from '@/lib/types/question.types';
+import type { Answer, AnswerValue } from '@/lib/types/response.types';
+
+export type ExtractionMethod = FormFactorScore['method'];
+export type RotationMethod = FormFactorScore['rotation'];
+
+export interface FactorVariance {
+  ssLoadings: number;            // Sum of squared loadings
+  proportion: number;            // Share of the items' total variance
+  cumulative: number | null;     // null for oblique rotations, whose factors overlap
+}
+
+export interface BartlettTest {
+  chiSquare: number;
+  degreesOfFreedom: number;
+  pValue: number;
+}
+
+export interface FactorAnalysisResult {
+  method: ExtractionMethod;
+  rotation: RotationMethod;
+  n: number;                          // Respondents who answered every item
+  labels: string[];
+  eigenvalues: number[];              // Of the correlation matrix, for the scree plot
+  suggestedFactorCount: number;       // Kaiser criterion: eigenvalues above 1
+  factorCount: number;
+  loadings: number[][];               // Items × factors (pattern loadings when oblique)
+  structure: number[][] | null;       // Item-factor correlations, for oblique rotations
+  factorCorrelations: number[][] | null;
+  communalities: number[];
+  variance: FactorVariance[];
+  kmo: number;
+  itemMsa: number[];                  // Measure of sampling adequacy per item
+  bartlett: BartlettTest;
+  means: number[];
+  standardDeviations: number[];
+  scoreWeights: number[][];           // Items × factors, applied to standardized items
+  converged: boolean;
+  heywood: boolean;                   // Some communality reached 1
+  interpretation: string;
+}
+
+export interface FactorAnalysisOptions {
+  method: ExtractionMethod;
+  rotation: RotationMethod;
+  factorCount?: number;               // Defaults to the Kaiser criterion
+}
+
+const MAX_FACTOR_ITERATIONS = 200;
+const MAX_ROTATION_ITERATIONS = 1000;
+const MAX_COMMUNALITY = 0.995;
+const PROMAX_POWER = 4;
+const SALIENT_LOADING = 0.4;
+
+export const EXTRACTION_LABELS: Record<ExtractionMethod, string> = {
+  pca: 'Principal components',
+  paf: 'Principal axis factoring',
+};
+
+export const ROTATION_LABELS: Record<RotationMethod, string> = {
+  none: 'Unrotated',
+  varimax: 'Varimax',
+  promax: 'Promax',
+};
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function standardDeviation(values: number[]): number {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - m) ** 2, 0) / (values.length - 1));
+}
+
+function identity(size: number): number[][] {
+  return Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j): number => (i === j ? 1 : 0)));
+}
+
+function rowSumOfSquares(matrix: number[][]): number[] {
+  return matrix.map((row) => row.reduce((sum, value) => sum + value * value, 0));
+}
+
+function columnSumOfSquares(matrix: number[][]): number[] {
+  return (matrix[0] ?? []).map((_, j) => matrix.reduce((sum, row) => sum + row[j] * row[j], 0));
+}
+
+/**
+ * Kaiser-Meyer-Olkin measure of sampling adequacy: how much of the items'
+ * correlation is shared rather than specific to pairs of items
+ */
+export function samplingAdequacy(
+  correlations: number[][],
+  inverse: number[][]
+): { kmo: number; itemMsa: number[] } {
+  const k = correlations.length;
+  let correlationSum = 0;
+  let partialSum = 0;
+  const itemMsa = correlations.map((row, i) => {
+    let itemCorrelation = 0;
+    let itemPartial = 0;
+    for (let j = 0; j < k; j++) {
+      if (i === j) continue;
+      const partial = -inverse[i][j] / Math.sqrt(inverse[i][i] * inverse[j][j]);
+      itemCorrelation += row[j] ** 2;
+      itemPartial += partial ** 2;
+    }
+    correlationSum += itemCorrelation;
+    partialSum += itemPartial;
+    return itemCorrelation / (itemCorrelation + itemPartial);
+  });
+
+  return { kmo: correlationSum / (correlationSum + partialSum), itemMsa };
+}
+
+/**
+ * Bartlett's test of sphericity: are the items correlated at all?
+ *
+ * @param eigenvalues - Eigenvalues of the correlation matrix (their product is its determinant)
+ */
+export function bartlettSphericity(eigenvalues: number[], n: number): BartlettTest {
+  const k = eigenvalues.length;
+  const logDeterminant = eigenvalues.reduce((sum, value) => sum + Math.log(value), 0);
+  const chiSquare = Math.max(0, -(n - 1 - (2 * k + 5) / 6) * logDeterminant);
+  const degreesOfFreedom = (k * (k - 1)) / 2;
+
+  return { chiSquare, degreesOfFreedom, pValue: chiSquarePValue(chiSquare, degreesOfFreedom) };
+}
+
+/**
+ * Loadings of the first factorCount principal components
+ */
+function principalComponents(correlations: number[][], factorCount: number): number[][] {
+  const { values, vectors } = symmetricEigen(correlations);
+  return correlations.map((_, i) =>
+    Array.from({ length: factorCount }, (_, j) => vectors[j][i] * Math.sqrt(Math.max(values[j], 0)))
+  );
+}
+
+/**
+ * Iterated principal axis factoring, starting from squared multiple correlations
+ */
+function principalAxisFactoring(
+  correlations: number[][],
+  inverse: number[][],
+  factorCount: number
+): { loadings: number[][]; converged: boolean; heywood: boolean } {
+  let communalities = inverse.map((row, i) => Math.min(MAX_COMMUNALITY, Math.max(0, 1 - 1 / row[i])));
+  let loadings: number[][] = [];
+  let converged = false;
+  let heywood = false;
+
+  for (let iteration = 0; iteration < MAX_FACTOR_ITERATIONS; iteration++) {
+    const reduced = correlations.map((row, i) => row.map((value, j) => (i === j ? communalities[i] : value)));
+    const { values, vectors } = symmetricEigen(reduced);
+
+    loadings = correlations.map((_, i) =>
+      Array.from({ length: factorCount }, (_, j) => vectors[j][i] * Math.sqrt(Math.max(values[j], 0)))
+    );
+    const extracted = rowSumOfSquares(loadings);
+    heywood = extracted.some((value) => value >= 1);
+
+    const next = extracted.map((value) => Math.min(MAX_COMMUNALITY, value));
+    const change = Math.max(...next.map((value, i) => Math.abs(value - communalities[i])));
+    communalities = next;
+    if (change < 1e-6) {
+      converged = true;
+      break;
+    }
+  }
+
+  return { loadings, converged, heywood };
+}
+
+/**
+ * Varimax rotation with Kaiser normalization, by Kaiser's (1958) pairwise
+ * rotations: each sweep turns every pair of factors by the angle that
+ * maximizes the criterion for that pair
+ *
+ * @returns Rotated loadings and the orthogonal rotation matrix
+ */
+export function varimax(loadings: number[][]): { loadings: number[][]; rotation: number[][] } {
+  const p = loadings.length;
+  const m = loadings[0]?.length ?? 0;
+  if (m < 2) return { loadings, rotation: identity(m) };
+
+  const norms = rowSumOfSquares(loadings).map((value) => Math.sqrt(value) || 1);
+  const x = loadings.map((row, i) => row.map((value) => value / norms[i]));
+  const rotation = identity(m);
+
+  // Turn columns j and l of a matrix by angle
+  const turn = (matrix: number[][], j: number, l: number, angle: number) => {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    matrix.forEach((row) => {
+      [row[j], row[l]] = [cos * row[j] + sin * row[l], cos * row[l] - sin * row[j]];
+    });
+  };
+
+  for (let sweep = 0; sweep < MAX_ROTATION_ITERATIONS; sweep++) {
+    let largestAngle = 0;
+
+    for (let j = 0; j < m - 1; j++) {
+      for (let l = j + 1; l < m; l++) {
+        let a = 0;
+        let b = 0;
+        let c = 0;
+        let d = 0;
+        x.forEach((row) => {
+          const u = row[j] * row[j] - row[l] * row[l];
+          const v = 2 * row[j] * row[l];
+          a += u;
+          b += v;
+          c += u * u - v * v;
+          d += 2 * u * v;
+        });
+
+        const angle = Math.atan2(d - (2 * a * b) / p, c - (a * a - b * b) / p) / 4;
+        if (Math.abs(angle) < 1e-12) continue;
+        turn(x, j, l, angle);
+        turn(rotation, j, l, angle);
+        largestAngle = Math.max(largestAngle, Math.abs(angle));
+      }
+    }
+
+    if (largestAngle < 1e-9) break;
+  }
+
+  return {
+    loadings: x.map((row, i) => row.map((value) => value * norms[i])),
+    rotation,
+  };
+}
+
+/**
+ * Promax rotation (as R's stats::promax): varimax, then an oblique rotation
+ * towards the varimax loadings raised to the 4th power
+ *
+ * @returns Pattern loadings and the factor correlations
+ */
+export function promax(loadings: number[][]): { loadings: number[][]; factorCorrelations: number[][] } {
+  const m = loadings[0]?.length ?? 0;
+  if (m < 2) return { loadings, factorCorrelations: identity(m) };
+
+  const rotated = varimax(loadings);
+  const x = rotated.loadings;
+  const target = x.map((row) => row.map((value) => value * Math.abs(value) ** (PROMAX_POWER - 1)));
+
+  const xtxInverse = invert(multiply(transpose(x), x));
+  if (!xtxInverse) return { loadings: x, factorCorrelations: identity(m) };
+  let u = multiply(xtxInverse, multiply(transpose(x), target));
+
+  const utuInverse = invert(multiply(transpose(u), u));
+  if (!utuInverse) return { loadings: x, factorCorrelations: identity(m) };
+  u = u.map((row) => row.map((value, j) => value * Math.sqrt(utuInverse[j][j])));
+
+  const rotation = multiply(rotated.rotation, u);
+  const factorCorrelations = invert(multiply(transpose(rotation), rotation)) ?? identity(m);
+
+  return { loadings: multiply(x, u), factorCorrelations };
+}
+
+function describeAdequacy(kmo: number): string {
+  if (kmo >= 0.9) return 'marvelous';
+  if (kmo >= 0.8) return 'meritorious';
+  if (kmo >= 0.7) return 'middling';
+  if (kmo >= 0.6) return 'mediocre';
+  if (kmo >= 0.5) return 'miserable';
+  return 'unacceptable';
+}
+
+/**
+ * PCA or exploratory factor analysis of items answered by the same respondents
+ *
+ * @param items - One array of values per item
+ * @param labels - Item labels, in the same order
+ */
+export function analyzeFactors(
+  items: number[][],
+  labels: string[],
+  options: FactorAnalysisOptions
+): FactorAnalysisResult {
+  const k = items.length;
+  const n = items[0]?.length ?? 0;
+  if (k < 3) {
+    throw new Error('Factor analysis needs at least 3 items');
+  }
+  if (n <= k) {
+    throw new Error(
+      `Factor analysis of ${k} items needs more than ${k} respondents who answered every item (it has ${n}); 5–10 per item is better`
+    );
+  }
+
+  const means = items.map(mean);
+  const standardDeviations = items.map(standardDeviation);
+  const constant = labels.filter((_, i) => standardDeviations[i] === 0);
+  if (constant.length > 0) {
+    throw new Error(`Everyone gave the same answer to ${constant.map((label) => `"${label}"`).join(', ')}; remove it`);
+  }
+
+  const correlations = correlationMatrix(items);
+  const inverse = invert(correlations);
+  const { values: eigenvalues } = symmetricEigen(correlations);
+  if (!inverse || eigenvalues[k - 1] <= 1e-10) {
+    throw new Error('Some items are perfectly correlated with the others; remove the redundant ones');
+  }
+
+  const suggestedFactorCount = Math.min(k - 1, Math.max(1, eigenvalues.filter((value) => value > 1).length));
+  const factorCount = options.factorCount ?? suggestedFactorCount;
+  if (!Number.isInteger(factorCount) || factorCount < 1 || factorCount >= k) {
+    throw new Error(`Choose between 1 and ${k - 1} factors for ${k} items`);
+  }
+
+  // Extraction
+  let extracted: number[][];
+  let converged = true;
+  let heywood = false;
+  if (options.method === 'paf') {
+    ({ loadings: extracted, converged, heywood } = principalAxisFactoring(correlations, inverse, factorCount));
+  } else {
+    extracted = principalComponents(correlations, factorCount);
+  }
+
+  // Rotation
+  let loadings = extracted;
+  let factorCorrelations: number[][] | null = null;
+  if (options.rotation === 'varimax') {
+    loadings = varimax(extracted).loadings;
+  } else if (options.rotation === 'promax' && factorCount > 1) {
+    ({ loadings, factorCorrelations } = promax(extracted));
+  }
+
+  // Point each factor the way most of its loadings do, then order by size
+  const signs = Array.from({ length: factorCount }, (_, j) =>
+    loadings.reduce((sum, row) => sum + row[j], 0) < 0 ? -1 : 1
+  );
+  const ssLoadings = columnSumOfSquares(loadings);
+  const order =
+    options.rotation === 'none'
+      ? signs.map((_, j) => j)
+      : signs.map((_, j) => j).sort((a, b) => ssLoadings[b] - ssLoadings[a]);
+  loadings = loadings.map((row) => order.map((j) => row[j] * signs[j]));
+  if (factorCorrelations) {
+    const phi = factorCorrelations;
+    factorCorrelations = order.map((a) => order.map((b) => phi[a][b] * signs[a] * signs[b]));
+  }
+
+  // Structure = pattern · Φ; identical to the loadings for orthogonal factors
+  const structure = factorCorrelations ? multiply(loadings, factorCorrelations) : null;
+  const communalities = rowSumOfSquares(extracted);
+
+  // Regression (Thurstone) scores: weights R⁻¹·S for standardized items
+  const scoreWeights = multiply(inverse, structure ?? loadings);
+
+  let cumulative = 0;
+  const variance = columnSumOfSquares(loadings).map((ss) => {
+    cumulative += ss / k;
+    return {
+      ssLoadings: ss,
+      proportion: ss / k,
+      cumulative: factorCorrelations ? null : cumulative,
+    };
+  });
+
+  const { kmo, itemMsa } = samplingAdequacy(correlations, inverse);
+  const bartlett = bartlettSphericity(eigenvalues, n);
+
+  // Interpretation
+  const explained = communalities.reduce((sum, value) => sum + value, 0) / k;
+  let interpretation =
+    `Sampling adequacy is ${describeAdequacy(kmo)} (KMO = ${kmo.toFixed(2)}) and Bartlett's test ` +
+    (bartlett.pValue < 0.05
+      ? `shows the items are correlated enough to factor (p ${bartlett.pValue < 0.001 ? '< .001' : `= ${bartlett.pValue.toFixed(3)}`}). `
+      : `does not show the items are correlated (p = ${bartlett.pValue.toFixed(3)}), so factoring them may not be meaningful. `);
+  interpretation += `${factorCount} ${options.method === 'pca' ? 'component' : 'factor'}${factorCount === 1 ? '' : 's'} account for ${(explained * 100).toFixed(1)}% of the items' variance`;
+  interpretation +=
+    factorCount === suggestedFactorCount
+      ? '. '
+      : ` (${suggestedFactorCount} ha${suggestedFactorCount === 1 ? 's an eigenvalue' : 've eigenvalues'} above 1). `;
+
+  const weak = labels.filter((_, i) => Math.max(...loadings[i].map(Math.abs)) < SALIENT_LOADING);
+  const crossLoading = labels.filter(
+    (_, i) => loadings[i].filter((value) => Math.abs(value) >= SALIENT_LOADING).length > 1
+  );
+  if (weak.length > 0) {
+    interpretation += `${weak.map((label) => `"${label}"`).join(', ')} load${weak.length === 1 ? 's' : ''} weakly (below ${SALIENT_LOADING.toFixed(2)}) on every factor. `;
+  }
+  if (crossLoading.length > 0) {
+    interpretation += `${crossLoading.map((label) => `"${label}"`).join(', ')} load${crossLoading.length === 1 ? 's' : ''} on more than one factor. `;
+  }
+  if (kmo < 0.6) {
+    interpretation += 'Consider removing items with a low MSA before interpreting the factors. ';
+  }
+  if (heywood) {
+    interpretation += 'An item has a communality of 1 (a Heywood case); try fewer factors or principal components.';
+  } else if (!converged) {
+    interpretation += 'The communalities did not converge; treat the loadings with caution.';
+  }
+
+  return {
+    method: options.method,
+    rotation: options.rotation,
+    n,
+    labels,
+    eigenvalues,
+    suggestedFactorCount,
+    factorCount,
+    loadings,
+    structure,
+    factorCorrelations,
+    communalities,
+    variance,
+    kmo,
+    itemMsa,
+    bartlett,
+    means,
+    standardDeviations,
+    scoreWeights,
+    converged,
+    heywood,
+    interpretation: interpretation.trim(),
+  };
+}
+
+// ============================================================================
+// Factor scores as computed variables
+// ============================================================================
+
+/**
+ * Id of the computed question that holds saved factor scores
+ */
+export function factorQuestionId(factorScore: Pick<FormFactorScore, 'id'>): string {
+  return `factor:${factorScore.id}`;
+}
+
+/**
+ * What to save to score respondents on one factor of an analysis
+ *
+ * @param variableIds - Ids of the analysed items, in the analysis' order
+ */
+export function toFactorScoreItems(
+  result: FactorAnalysisResult,
+  factorIndex: number,
+  variableIds: string[]
+): FormFactorScoreItem[] {
+  return variableIds.map((variableId, i) => ({
+    variable_id: variableId,
+    mean: result.means[i],
+    standard_deviation: result.standardDeviations[i],
+    weight: result.scoreWeights[i][factorIndex],
+  }));
+}
+
+/**
+ * Each respondent's factor score: Σ weight · (answer - mean) / SD. Respondents
+ * who skipped an item get no score.
+ */
+export function computeFactorScores(
+  factorScore: Pick<FormFactorScore, 'items'>,
+  variables: NumericVariable[],
+  answersByQuestion: Record<string, Answer[]>
+): Map<string, number> {
+  const scores = new Map<string, number>();
+  const found = factorScore.items.map((item) => variables.find((v) => v.id === item.variable_id));
+  if (found.length === 0 || found.some((variable) => !variable)) return scores;
+
+  const columns = (found as NumericVariable[]).map((variable) => readVariable(variable, answersByQuestion));
+  columns[0].forEach((_, responseId) => {
+    if (!columns.every((column) => column.has(responseId))) return;
+
+    const score = factorScore.items.reduce((sum, item, index) => {
+      const value = columns[index].get(responseId) as number;
+      return sum + (item.weight * (value - item.mean)) / item.standard_deviation;
+    }, 0);
+    scores.set(responseId, Number(score.toFixed(4)));
+  });
+
+  return scores;
+}
+
+/**
+ * A slider question standing in for saved factor scores, so they can be
+ * analysed and exported like any numeric question
+ */
+export function toFactorQuestion(
+  factorScore: FormFactorScore,
+  scores: Map<string, number>,
+  orderIndex: number
+): TypedQuestion {
+  const values = [...scores.values()];
+
+  return {
+    id: factorQuestionId(factorScore),
+    form_id: factorScore.form_id,
+    type: 'slider',
+    title: factorScore.name,
+    description: `Factor score (${EXTRACTION_LABELS[factorScore.method].toLowerCase()}, ${ROTATION_LABELS[
+      factorScore.rotation
+    ].toLowerCase()}) from ${factorScore.items.length} items`,
+    required: false,
+    order_index: orderIndex,
+    section_id: null,
+    options: {
+      min: values.length > 0 ? Math.floor(Math.min(...values)) : -3,
+      max: values.length > 0 ? Math.ceil(Math.max(...values)) : 3,
+    },
+    created_at: factorScore.created_at,
+    updated_at: factorScore.updated_at,
+  };
+}
+
+/**
+ * Saved factor scores whose items are all in the form
+ */
+export function getScorableFactorScores(
+  factorScores: FormFactorScore[],
+  variables: NumericVariable[]
+): FormFactorScore[] {
+  return factorScores.filter((factorScore) =>
+    factorScore.items.every((item) => variables.some((variable) => variable.id === item.variable_id))
+  );
+}
+
+/**
+ * Questions and answers with each saved factor score added as a computed slider question
+ */
+export function withFactorScores(
+  questions: TypedQuestion[],
+  answersByQuestion: Record<string, Answer[]>,
+  factorScores: FormFactorScore[]
+): { questions: TypedQuestion[]; answersByQuestion: Record<string, Answer[]> } {
+  const variables = getNumericVariables(questions);
+  const scorable = getScorableFactorScores(factorScores, variables);
+  if (scorable.length === 0) return { questions, answersByQuestion };
+
+  const withFactors = { ...answersByQuestion };
+  const factorQuestions = scorable.map((factorScore, index) => {
+    const scores = computeFactorScores(factorScore, variables, answersByQuestion);
+    withFactors[factorQuestionId(factorScore)] = toComputedAnswers(
+      factorQuestionId(factorScore),
+      scores,
+      factorScore.updated_at,
+      lastAnsweredAt(factorScore.items.map((item) => item.variable_id), answersByQuestion)
+    );
+    return toFactorQuestion(factorScore, scores, questions.length + index);
+  });
+
+  return { questions: [...questions, ...factorQuestions], answersByQuestion: withFactors };
+}
+
+/**
+ * Responses for export with a column per saved factor score appended
+ */
+export function appendFactorScores<R extends { id: string; answers: Array<{ question_id: string; value: unknown }> }>(
+  questions: Question[],
+  responses: R[],
+  factorScores: FormFactorScore[]
+): { questions: Question[]; responses: R[] } {
+  const variables = getNumericVariables(questions.map(asTypedQuestion));
+  const scorable = getScorableFactorScores(factorScores, variables);
+  if (scorable.length === 0) return { questions, responses };
+
+  const answersByQuestion = groupResponseAnswers(responses);
+  const factorAnswers = new Map<string, Array<Answer & { value: AnswerValue }>>();
+  const factorQuestions = scorable.map((factorScore, index) => {
+    const scores = computeFactorScores(factorScore, variables, answersByQuestion);
+    toComputedAnswers(factorQuestionId(factorScore), scores, factorScore.updated_at).forEach((answer) => {
+      factorAnswers.set(answer.response_id, [...(factorAnswers.get(answer.response_id) || []), answer]);
+    });
+    return toFactorQuestion(factorScore, scores, questions.length + index) as Question;
+  });
+
+  return {
+    questions: [...questions, ...factorQuestions],
+    responses: responses.map((response) => {
+      const added = factorAnswers.get(response.id);
+      return added ? ({ ...response, answers: [...response.answers, ...added] } as R) : response;
+    }),
+  };
+}
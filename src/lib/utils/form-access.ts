@@ -11,7 +11,7 @@ export interface FormAccess {
   scheduleEnd: string | null;
   maxResponses: number | null;
   currentResponses: number;
-  passwordHash: string | null;
+  passwordProtected: boolean;
   requireLogin: boolean;
 }
 
@@ -24,6 +24,40 @@ export interface FormAccessCheck {
   responsesRemaining?: number;
 }
 
+/**
+ * Columns of the forms table that clients can select. password_hash is
+ * withheld by column privileges, so forms are never loaded with `*`.
+ */
+export const FORM_COLUMNS =
+  'id, title, description, schema_json, user_id, workspace_id, is_published, display_mode, is_archived, archived_at, schedule_start, schedule_end, max_responses, require_login, has_password, bot_protection, min_completion_seconds, published_version_id, created_at, updated_at';
+
+/**
+ * Access-related columns as stored on the forms table
+ */
+export interface FormAccessRow {
+  is_published: boolean;
+  schedule_start: string | null;
+  schedule_end: string | null;
+  max_responses: number | null;
+  has_password: boolean | null;
+  require_login: boolean | null;
+}
+
+/**
+ * Build a FormAccess object from a forms row and its completed response count
+ */
+export function toFormAccess(form: FormAccessRow, currentResponses: number): FormAccess {
+  return {
+    isPublished: form.is_published,
+    scheduleStart: form.schedule_start,
+    scheduleEnd: form.schedule_end,
+    maxResponses: form.max_responses,
+    currentResponses,
+    passwordProtected: !!form.has_password,
+    requireLogin: !!form.require_login,
+  };
+}
+
 /**
  * Check if a form is currently accessible
  */
@@ -92,7 +126,7 @@ export function checkFormAccess(
   }
 
   // Check password requirement
-  if (formAccess.passwordHash && !hasPassword) {
+  if (formAccess.passwordProtected && !hasPassword) {
     return {
       canAccess: false,
       reason: 'password_required',
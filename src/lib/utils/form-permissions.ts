@@ -0,0 +1,57 @@
+/**
+ * Form permissions
+ * Maps collaborator roles to what they may do with a form. Role resolution
+ * happens in the database (get_form_role), see server-form-permissions.ts.
+ */
+
+import type { FormRole } from '@/lib/types/workspace.types';
+
+export type FormPermission =
+  | 'view' // Form structure and aggregate analytics
+  | 'view_responses' // Individual responses and exports
+  | 'edit' // Questions, sections, settings, versions, publishing
+  | 'manage_responses' // Delete, restore and reopen responses
+  | 'manage'; // Sharing, workspace, archiving and deleting the form
+
+export const FORM_ROLES: FormRole[] = ['owner', 'editor', 'analyst', 'viewer'];
+
+const ROLE_PERMISSIONS: Record<FormRole, FormPermission[]> = {
+  owner: ['view', 'view_responses', 'edit', 'manage_responses', 'manage'],
+  editor: ['view', 'view_responses', 'edit', 'manage_responses'],
+  analyst: ['view', 'view_responses'],
+  viewer: ['view'],
+};
+
+export const FORM_ROLE_LABELS: Record<FormRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  analyst: 'Analyst',
+  viewer: 'Viewer',
+};
+
+export const FORM_ROLE_DESCRIPTIONS: Record<FormRole, string> = {
+  owner: 'Full access, including sharing and deleting',
+  editor: 'Edit questions and settings, manage responses',
+  analyst: 'View responses, analytics and exports',
+  viewer: 'View the form and summary analytics',
+};
+
+export function isFormRole(value: unknown): value is FormRole {
+  return typeof value === 'string' && (FORM_ROLES as string[]).includes(value);
+}
+
+/**
+ * Whether a role grants a permission (null = no access)
+ */
+export function roleHasPermission(role: FormRole | null, permission: FormPermission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * The higher of two roles
+ */
+export function highestRole(a: FormRole | null, b: FormRole | null): FormRole | null {
+  if (!a) return b;
+  if (!b) return a;
+  return FORM_ROLES.indexOf(a) <= FORM_ROLES.indexOf(b) ? a : b;
+}
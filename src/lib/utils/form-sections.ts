@@ -0,0 +1,86 @@
+/**
+ * Form section helpers
+ * Groups questions into pages and resolves which pages a respondent visits
+ * once jump_to_section rules are applied
+ */
+
+import type { Question } from '@/lib/types/question.types';
+import type { FormSection } from '@/lib/types/form.types';
+import { END_OF_FORM_SECTION } from '@/lib/types/advanced-logic.types';
+
+// Key for questions that aren't in a section (shown before the first section)
+export const UNSECTIONED_KEY = '';
+
+export interface FormPage {
+  section: FormSection | null;
+  questions: Question[];
+}
+
+/**
+ * Key used for a question's section in LogicEvaluationResult.sectionJumps
+ */
+export function getSectionKey(sectionId?: string | null): string {
+  return sectionId ?? UNSECTIONED_KEY;
+}
+
+/**
+ * Group questions into pages: unsectioned questions first, then each section in order
+ * Questions pointing at a section that no longer exists count as unsectioned.
+ * Empty sections are only kept with includeEmpty (the builder shows them as drop targets).
+ */
+export function groupQuestionsIntoPages(
+  questions: Question[],
+  sections: FormSection[] = [],
+  includeEmpty = false
+): FormPage[] {
+  const sortedSections = [...sections].sort((a, b) => a.order_index - b.order_index);
+  const sectionIds = new Set(sortedSections.map((section) => section.id));
+  const sortedQuestions = [...questions].sort((a, b) => a.order_index - b.order_index);
+
+  const unsectioned = sortedQuestions.filter((q) => !q.section_id || !sectionIds.has(q.section_id));
+  const pages: FormPage[] = [];
+
+  if (unsectioned.length > 0 || sortedSections.length === 0) {
+    pages.push({ section: null, questions: unsectioned });
+  }
+
+  sortedSections.forEach((section) => {
+    const sectionQuestions = sortedQuestions.filter((q) => q.section_id === section.id);
+    if (sectionQuestions.length > 0 || includeEmpty) {
+      pages.push({ section, questions: sectionQuestions });
+    }
+  });
+
+  return pages;
+}
+
+/**
+ * Follow jump_to_section results from the first page
+ * Only forward jumps are honoured, so a path can never loop. Questions on
+ * pages that are jumped over are returned as skipped.
+ */
+export function resolveSectionPath(
+  pages: FormPage[],
+  sectionJumps: Map<string, string>
+): { path: FormPage[]; skippedQuestionIds: Set<string> } {
+  const path: FormPage[] = [];
+  let index = 0;
+
+  while (index < pages.length) {
+    const page = pages[index];
+    path.push(page);
+
+    const target = sectionJumps.get(getSectionKey(page.section?.id));
+    if (target === END_OF_FORM_SECTION) break;
+
+    const targetIndex = target ? pages.findIndex((p) => p.section?.id === target) : -1;
+    index = targetIndex > index ? targetIndex : index + 1;
+  }
+
+  const skippedQuestionIds = new Set<string>();
+  pages
+    .filter((page) => !path.includes(page))
+    .forEach((page) => page.questions.forEach((q) => skippedQuestionIds.add(q.id)));
+
+  return { path, skippedQuestionIds };
+}
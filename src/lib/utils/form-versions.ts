@@ -0,0 +1,114 @@
+/**
+ * Form versions
+ * The builder edits a draft (the questions and form_sections tables);
+ * respondents are served the published version, a snapshot taken when changes
+ * are published. These helpers turn snapshots back into forms and tell
+ * whether the draft differs from what is live.
+ */
+
+import type { Form, FormSection, FormVersion, FormWithQuestions } from '@/lib/types/form.types';
+import type { Question } from '@/lib/types/question.types';
+
+// Question fields respondents see; anything else changing is not a change to publish.
+// Order is compared separately, as the builder reorders without renumbering.
+const PUBLISHED_QUESTION_FIELDS = [
+  'type',
+  'title',
+  'description',
+  'required',
+  'section_id',
+  'options',
+  'logic_rules',
+  'advanced_logic_rules',
+] as const;
+
+const PUBLISHED_SECTION_FIELDS = ['title', 'description'] as const;
+
+// The builder's draft, with questions and sections in form order
+export interface FormDraft {
+  title: string;
+  description?: string | null;
+  display_mode?: 'single' | 'scroll';
+  questions: Question[];
+  sections: FormSection[];
+}
+
+/**
+ * Questions of a version in form order
+ */
+export function getVersionQuestions(version: FormVersion): Question[] {
+  return [...(version.questions || [])].sort((a, b) => a.order_index - b.order_index);
+}
+
+/**
+ * Sections of a version in form order
+ */
+export function getVersionSections(version: FormVersion): FormSection[] {
+  return [...(version.sections || [])].sort((a, b) => a.order_index - b.order_index);
+}
+
+/**
+ * The form respondents see: content from the published version, access
+ * settings (schedule, cap, password, bot protection) from the live form
+ */
+export function toPublishedForm(form: Form, version: FormVersion): FormWithQuestions {
+  const displayMode = version.settings?.display_mode;
+
+  return {
+    ...form,
+    title: version.title,
+    description: version.description ?? undefined,
+    display_mode: displayMode === 'single' || displayMode === 'scroll' ? displayMode : form.display_mode,
+    questions: getVersionQuestions(version),
+    sections: getVersionSections(version),
+  };
+}
+
+// Treats null, undefined, '' and [] alike, since the database and client disagree on empty values
+function normalize(value: unknown): string {
+  if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return '';
+  }
+  return JSON.stringify(value);
+}
+
+function differs<T extends object>(a: T, b: T, fields: readonly (keyof T)[]): boolean {
+  return fields.some((field) => normalize(a[field]) !== normalize(b[field]));
+}
+
+// Same items in the same order with the same published fields
+function listsDiffer<T extends { id: string }>(draft: T[], published: T[], fields: readonly (keyof T)[]): boolean {
+  return (
+    draft.length !== published.length ||
+    draft.some((item, index) => item.id !== published[index].id || differs(item, published[index], fields))
+  );
+}
+
+/**
+ * Whether the draft has changes respondents don't see yet.
+ * Always true for a form that has never been published.
+ */
+export function hasUnpublishedChanges(draft: FormDraft, published: FormVersion | null): boolean {
+  if (!published) {
+    return true;
+  }
+
+  if (
+    draft.title !== published.title ||
+    normalize(draft.description) !== normalize(published.description) ||
+    (draft.display_mode ?? 'scroll') !== (published.settings?.display_mode ?? 'scroll')
+  ) {
+    return true;
+  }
+
+  if (listsDiffer(draft.questions, getVersionQuestions(published), PUBLISHED_QUESTION_FIELDS)) {
+    return true;
+  }
+
+  // Versions from before sections were snapshotted can't be compared section by section
+  if (!published.sections) {
+    return draft.sections.length > 0;
+  }
+
+  return listsDiffer(draft.sections, getVersionSections(published), PUBLISHED_SECTION_FIELDS);
+}
@@ -0,0 +1,99 @@
+/**
+ * Formula validation and evaluation: arithmetic, blanks, functions and the
+ * errors a broken formula reports instead of throwing
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { canUseInFormula, evaluateFormula, validateFormula, type FormulaValue } from './formula-evaluator';
+
+function evaluate(formula: string, sources: FormulaValue[] = []): FormulaValue {
+  const result = evaluateFormula(formula, sources);
+  assert.equal(result.error, null, result.error?.message);
+  return result.value;
+}
+
+describe('evaluateFormula', () => {
+  it('follows operator precedence', () => {
+    assert.equal(evaluate('1 + 2 * 3'), 7);
+    assert.equal(evaluate('(1 + 2) * 3'), 9);
+    assert.equal(evaluate('10 - 4 - 3'), 3);
+    assert.equal(evaluate('2 ^ 3 ^ 2'), 512);
+    assert.equal(evaluate('7 % 4 * 2'), 6);
+  });
+
+  it('applies unary minus after ^', () => {
+    assert.equal(evaluate('-2 ^ 2'), -4);
+    assert.equal(evaluate('(-2) ^ 2'), 4);
+    assert.equal(evaluate('2 ^ -1'), 0.5);
+    assert.equal(evaluate('-Q1 * 3', [4]), -12);
+  });
+
+  it('reports division by zero at the division', () => {
+    assert.deepEqual(evaluateFormula('Q1 / (Q2 - 2)', [5, 2]), {
+      value: null,
+      error: { message: 'Division by zero', start: 0, end: 12 },
+    });
+    assert.equal(evaluateFormula('5 % 0', []).error?.message, 'Division by zero');
+  });
+
+  it('keeps blanks blank in arithmetic and skips them in aggregates', () => {
+    assert.equal(evaluate('Q1 + 1', [null]), null);
+    assert.equal(evaluate('sum(Q1, Q2, Q3)', [2, null, '3']), 5);
+    assert.equal(evaluate('avg(Q1, Q2)', [null, 4]), 4);
+    assert.equal(evaluate('count_selected(Q1)', [['a', 'b']]), 2);
+  });
+
+  it('only evaluates the branch if() takes', () => {
+    assert.equal(evaluate('if(Q1 > 3, "high", 1 / 0)', [5]), 'high');
+  });
+
+  it('evaluates dates and rounding', () => {
+    assert.equal(evaluate('days_between(Q1, Q2)', ['2025-01-01', '2025-03-01']), 59);
+    assert.equal(evaluate('round(2 / 3, 2)'), 0.67);
+  });
+
+  it('reports unknown functions, including names inherited from Object.prototype', () => {
+    ['nope(1)', 'constructor(1)', 'tostring(Q1)', 'hasownproperty(1)', '__proto__(1)'].forEach((formula) => {
+      const result = evaluateFormula(formula, [1]);
+      assert.equal(result.value, null);
+      assert.match(result.error?.message ?? '', /^Unknown function/, formula);
+    });
+  });
+});
+
+describe('validateFormula', () => {
+  it('accepts well-typed formulas', () => {
+    assert.deepEqual(validateFormula('round(avg(Q1, Q2) * 10, 1)', ['linear_scale', 'slider']), {
+      valid: true,
+      errors: [],
+    });
+  });
+
+  it('rejects unknown and prototype function names', () => {
+    ['constructor(Q1)', 'valueof(Q1)', 'nope(Q1)'].forEach((formula) => {
+      const result = validateFormula(formula, ['linear_scale']);
+      assert.equal(result.valid, false, formula);
+      assert.match(result.errors[0].message, /^Unknown function/);
+    });
+  });
+
+  it('checks argument counts, types and references', () => {
+    assert.equal(validateFormula('round()', []).errors[0].message, 'round() takes 1-2 arguments, got 0');
+    assert.equal(
+      validateFormula('Q1 * 2', ['checkboxes']).errors[0].message,
+      "A list of choices can't be used with '*' (use count_selected)"
+    );
+    assert.equal(
+      validateFormula('Q2', ['linear_scale']).errors[0].message,
+      'Q2 is out of range (1 source question selected)'
+    );
+  });
+});
+
+describe('canUseInFormula', () => {
+  it('only accepts question types with a formula value', () => {
+    assert.equal(canUseInFormula('linear_scale'), true);
+    assert.equal(canUseInFormula('file_upload'), false);
+  });
+});
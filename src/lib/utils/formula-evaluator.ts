@@ -0,0 +1,509 @@
+/**
+ * Formula Evaluator
+ * Validates and evaluates parsed calculation formulas against form answers.
+ * Q1, Q2, ... refer to a rule's source questions and are coerced by question type:
+ *   linear_scale, slider         -> number
+ *   short_text, long_text        -> text (numeric text works in arithmetic)
+ *   multiple_choice, dropdown    -> choice value (or label)
+ *   checkboxes, ranking          -> list of choice values/labels
+ *   date_time                    -> date text (YYYY-MM-DD)
+ * Unanswered questions are blank: arithmetic on a blank is blank, while
+ * sum/avg/min/max skip blanks the way spreadsheets do.
+ */
+
+import type { Question, QuestionType, ChoiceOptions, RankingOptions } from '@/lib/types/question.types';
+import type { AnswerValue } from '@/lib/types/response.types';
+import { parseFormula, type FormulaNode, type FormulaErrorInfo } from './formula-parser';
+
+export type FormulaValue = number | string | boolean | string[] | null;
+
+type StaticType = 'number' | 'text' | 'boolean' | 'list' | 'date' | 'any';
+
+const QUESTION_VALUE_TYPES: Partial<Record<QuestionType, StaticType>> = {
+  linear_scale: 'number',
+  slider: 'number',
+  short_text: 'text',
+  long_text: 'text',
+  multiple_choice: 'text',
+  dropdown: 'text',
+  checkboxes: 'list',
+  ranking: 'list',
+  date_time: 'date',
+};
+
+interface FormulaFunction {
+  minArgs: number;
+  maxArgs: number;
+  returns: StaticType;
+  // Argument types that make no sense for this function (checked at build time)
+  rejects?: StaticType[];
+  evaluate: (args: FormulaValue[], node: FormulaNode) => FormulaValue;
+}
+
+/**
+ * Thrown during evaluation; positions point at the offending node
+ */
+class FormulaEvaluationError extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message);
+  }
+}
+
+function fail(message: string, node: FormulaNode): never {
+  throw new FormulaEvaluationError(message, node.start, node.end);
+}
+
+function toNumber(value: FormulaValue, node: FormulaNode): number | null {
+  if (value === null) return null;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (Array.isArray(value)) {
+    fail('A list of choices is not a number (use count_selected)', node);
+  }
+
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+
+  const parsed = Number(trimmed);
+  if (isNaN(parsed)) {
+    fail(`"${value}" is not a number`, node);
+  }
+  return parsed;
+}
+
+function toDate(value: FormulaValue, node: FormulaNode): number | null {
+  if (value === null || value === '') return null;
+  if (typeof value !== 'string') {
+    fail('Expected a date', node);
+  }
+
+  const time = new Date(value.length === 10 ? `${value}T00:00:00Z` : value).getTime();
+  if (isNaN(time)) {
+    fail(`"${value}" is not a date`, node);
+  }
+  return time;
+}
+
+function isTruthy(value: FormulaValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return !!value;
+}
+
+/**
+ * Numbers from function arguments; lists are flattened and blanks skipped
+ */
+function collectNumbers(args: FormulaValue[], node: FormulaNode): number[] {
+  const numbers: number[] = [];
+  args.forEach((arg) => {
+    const values = Array.isArray(arg) ? arg : [arg];
+    values.forEach((value) => {
+      const number = toNumber(value, node);
+      if (number !== null) numbers.push(number);
+    });
+  });
+  return numbers;
+}
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+  sum: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    returns: 'number',
+    rejects: ['date'],
+    evaluate: (args, node) => collectNumbers(args, node).reduce((total, n) => total + n, 0),
+  },
+  avg: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    returns: 'number',
+    rejects: ['date'],
+    evaluate: (args, node) => {
+      const numbers = collectNumbers(args, node);
+      return numbers.length > 0 ? numbers.reduce((total, n) => total + n, 0) / numbers.length : null;
+    },
+  },
+  min: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    returns: 'number',
+    rejects: ['date'],
+    evaluate: (args, node) => {
+      const numbers = collectNumbers(args, node);
+      return numbers.length > 0 ? Math.min(...numbers) : null;
+    },
+  },
+  max: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    returns: 'number',
+    rejects: ['date'],
+    evaluate: (args, node) => {
+      const numbers = collectNumbers(args, node);
+      return numbers.length > 0 ? Math.max(...numbers) : null;
+    },
+  },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    returns: 'number',
+    rejects: ['list', 'date'],
+    evaluate: (args, node) => {
+      const value = toNumber(args[0], node);
+      const digits = args.length > 1 ? toNumber(args[1], node) ?? 0 : 0;
+      if (value === null) return null;
+      const factor = Math.pow(10, Math.round(digits));
+      return Math.round(value * factor) / factor;
+    },
+  },
+  if: {
+    minArgs: 3,
+    maxArgs: 3,
+    returns: 'any',
+    // Evaluated lazily in evaluateNode so only the chosen branch runs
+    evaluate: (args) => (isTruthy(args[0]) ? args[1] : args[2]),
+  },
+  count_selected: {
+    minArgs: 1,
+    maxArgs: 1,
+    returns: 'number',
+    rejects: ['number', 'boolean', 'date'],
+    evaluate: ([value]) => {
+      if (value === null || value === '') return 0;
+      return Array.isArray(value) ? value.length : 1;
+    },
+  },
+  days_between: {
+    minArgs: 2,
+    maxArgs: 2,
+    returns: 'number',
+    rejects: ['number', 'boolean', 'list'],
+    evaluate: (args, node) => {
+      const start = toDate(args[0], node);
+      const end = toDate(args[1], node);
+      if (start === null || end === null) return null;
+      return Math.round((end - start) / (24 * 60 * 60 * 1000));
+    },
+  },
+};
+
+export const FORMULA_FUNCTION_NAMES = Object.keys(FUNCTIONS);
+
+/**
+ * The formula function with this name; names inherited from Object.prototype
+ * (constructor, toString, ...) are not functions of the formula language
+ */
+function getFunction(name: string): FormulaFunction | undefined {
+  return Object.hasOwn(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+}
+
+/**
+ * Coerce a stored answer into a formula value based on its question type
+ */
+export function getFormulaValue(question: Question, answer: unknown): FormulaValue {
+  if (!answer || typeof answer !== 'object') {
+    return typeof answer === 'number' || typeof answer === 'string' ? answer : null;
+  }
+
+  const value = answer as AnswerValue;
+  const choices = (question.options as ChoiceOptions | undefined)?.choices ?? [];
+  const choiceValue = (id: string): string => {
+    const choice = choices.find((c) => c.id === id);
+    if (!choice) return id;
+    if (choice.isOther && value.other_text) return value.other_text;
+    return choice.value || choice.label;
+  };
+
+  switch (question.type) {
+    case 'linear_scale':
+      return value.scale_value ?? null;
+    case 'slider':
+      // Older calculated values were stored as scale_value
+      return value.slider_value ?? value.scale_value ?? null;
+    case 'short_text':
+    case 'long_text':
+      return value.text ?? null;
+    case 'multiple_choice':
+    case 'dropdown':
+      return value.choice_id ? choiceValue(value.choice_id) : null;
+    case 'checkboxes':
+      return value.choice_ids ? value.choice_ids.map(choiceValue) : null;
+    case 'ranking': {
+      const items = (question.options as RankingOptions | undefined)?.items ?? [];
+      return value.ranked_items
+        ? value.ranked_items.map((id) => items.find((item) => item.id === id)?.label ?? id)
+        : null;
+    }
+    case 'date_time':
+      return value.date ?? null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Convert a calculated value into the answer shape of the target question
+ */
+export function toAnswerValue(question: Question, value: FormulaValue): AnswerValue | null {
+  if (value === null) return null;
+
+  switch (question.type) {
+    case 'linear_scale':
+      return typeof value === 'number' ? { scale_value: value } : null;
+    case 'slider':
+      return typeof value === 'number' ? { slider_value: value } : null;
+    case 'short_text':
+    case 'long_text':
+      return { text: Array.isArray(value) ? value.join(', ') : String(value) };
+    default:
+      return null;
+  }
+}
+
+function compare(operator: string, left: FormulaValue, right: FormulaValue, node: FormulaNode): boolean {
+  if (operator === '==' || operator === '!=') {
+    let equal: boolean;
+    if (left === null || right === null) {
+      equal = (left === null || left === '') && (right === null || right === '');
+    } else if (typeof left === 'number' || typeof right === 'number') {
+      equal = toNumber(left, node) === toNumber(right, node);
+    } else if (Array.isArray(left) || Array.isArray(right)) {
+      equal = JSON.stringify(left) === JSON.stringify(right);
+    } else {
+      equal = String(left).toLowerCase() === String(right).toLowerCase();
+    }
+    return operator === '==' ? equal : !equal;
+  }
+
+  const useNumbers = typeof left === 'number' || typeof right === 'number';
+  const a = useNumbers ? toNumber(left, node) : left;
+  const b = useNumbers ? toNumber(right, node) : right;
+  if (a === null || b === null) return false;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    fail('Lists of choices can only be compared with == or !=', node);
+  }
+
+  switch (operator) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    default: return a >= b;
+  }
+}
+
+function evaluateNode(node: FormulaNode, sources: FormulaValue[]): FormulaValue {
+  switch (node.type) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value;
+
+    case 'reference':
+      if (node.index >= sources.length) {
+        fail(`${node.name} does not match a selected source question`, node);
+      }
+      return sources[node.index];
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, sources);
+      if (node.operator === '!') return !isTruthy(operand);
+      const number = toNumber(operand, node.operand);
+      if (number === null) return null;
+      return node.operator === '-' ? -number : number;
+    }
+
+    case 'binary': {
+      if (node.operator === '&&' || node.operator === '||') {
+        const left = isTruthy(evaluateNode(node.left, sources));
+        if (node.operator === '&&' ? !left : left) return left;
+        return isTruthy(evaluateNode(node.right, sources));
+      }
+
+      const left = evaluateNode(node.left, sources);
+      const right = evaluateNode(node.right, sources);
+
+      if (['==', '!=', '<', '<=', '>', '>='].includes(node.operator)) {
+        return compare(node.operator, left, right, node);
+      }
+
+      const a = toNumber(left, node.left);
+      const b = toNumber(right, node.right);
+      if (a === null || b === null) return null;
+
+      switch (node.operator) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/':
+          if (b === 0) fail('Division by zero', node);
+          return a / b;
+        case '%':
+          if (b === 0) fail('Division by zero', node);
+          return a % b;
+        default: return Math.pow(a, b);
+      }
+    }
+
+    case 'call': {
+      const fn = getFunction(node.name);
+      if (!fn) fail(`Unknown function '${node.name}'`, node);
+
+      if (node.name === 'if') {
+        const condition = evaluateNode(node.args[0], sources);
+        return evaluateNode(isTruthy(condition) ? node.args[1] : node.args[2], sources);
+      }
+
+      return fn.evaluate(node.args.map((arg) => evaluateNode(arg, sources)), node);
+    }
+  }
+}
+
+/**
+ * Infer the static type of a node and collect build-time errors
+ */
+function checkNode(node: FormulaNode, sourceTypes: (QuestionType | undefined)[], errors: FormulaErrorInfo[]): StaticType {
+  const report = (message: string, target: FormulaNode = node) => {
+    errors.push({ message, start: target.start, end: target.end });
+  };
+
+  switch (node.type) {
+    case 'number':
+      return 'number';
+    case 'string':
+      return 'text';
+    case 'boolean':
+      return 'boolean';
+
+    case 'reference': {
+      if (node.index >= sourceTypes.length) {
+        report(
+          sourceTypes.length === 0
+            ? `${node.name} refers to a source question, but none are selected`
+            : `${node.name} is out of range (${sourceTypes.length} source question${sourceTypes.length === 1 ? '' : 's'} selected)`
+        );
+        return 'any';
+      }
+      const questionType = sourceTypes[node.index];
+      const valueType = questionType ? QUESTION_VALUE_TYPES[questionType] : 'any';
+      if (!valueType) {
+        report(`${node.name} is a ${questionType?.replace('_', ' ')} question, which can't be used in formulas`);
+        return 'any';
+      }
+      return valueType;
+    }
+
+    case 'unary': {
+      const operand = checkNode(node.operand, sourceTypes, errors);
+      if (node.operator !== '!' && (operand === 'list' || operand === 'date')) {
+        report(`'${node.operator}' needs a number`, node.operand);
+      }
+      return node.operator === '!' ? 'boolean' : 'number';
+    }
+
+    case 'binary': {
+      const left = checkNode(node.left, sourceTypes, errors);
+      const right = checkNode(node.right, sourceTypes, errors);
+
+      if (['&&', '||', '==', '!='].includes(node.operator)) {
+        return 'boolean';
+      }
+
+      [[left, node.left], [right, node.right]].forEach(([type, operand]) => {
+        if (type === 'list') {
+          report(`A list of choices can't be used with '${node.operator}' (use count_selected)`, operand as FormulaNode);
+        } else if (type === 'date') {
+          report(`Dates can't be used with '${node.operator}' (use days_between)`, operand as FormulaNode);
+        }
+      });
+
+      return ['<', '<=', '>', '>='].includes(node.operator) ? 'boolean' : 'number';
+    }
+
+    case 'call': {
+      const fn = getFunction(node.name);
+      const argTypes = node.args.map((arg) => checkNode(arg, sourceTypes, errors));
+
+      if (!fn) {
+        report(`Unknown function '${node.name}'. Available: ${FORMULA_FUNCTION_NAMES.join(', ')}`);
+        return 'any';
+      }
+
+      if (node.args.length < fn.minArgs || node.args.length > fn.maxArgs) {
+        const expected =
+          fn.minArgs === fn.maxArgs
+            ? `${fn.minArgs}`
+            : fn.maxArgs === Infinity
+              ? `at least ${fn.minArgs}`
+              : `${fn.minArgs}-${fn.maxArgs}`;
+        report(`${node.name}() takes ${expected} argument${expected === '1' ? '' : 's'}, got ${node.args.length}`);
+      }
+
+      argTypes.forEach((type, index) => {
+        if (fn.rejects?.includes(type)) {
+          report(`${node.name}() can't use a ${type === 'list' ? 'list of choices' : type} here`, node.args[index]);
+        }
+      });
+
+      if (node.name === 'if' && argTypes.length === 3) {
+        return argTypes[1] === argTypes[2] ? argTypes[1] : 'any';
+      }
+      return fn.returns;
+    }
+  }
+}
+
+/**
+ * Validate a formula when building a form
+ * `sourceTypes` are the types of the rule's source questions, in Q1, Q2, ... order
+ */
+export function validateFormula(
+  formula: string,
+  sourceTypes: (QuestionType | undefined)[]
+): { valid: boolean; errors: FormulaErrorInfo[] } {
+  const parsed = parseFormula(formula);
+  if (parsed.error) {
+    return { valid: false, errors: [parsed.error] };
+  }
+
+  const errors: FormulaErrorInfo[] = [];
+  checkNode(parsed.ast, sourceTypes, errors);
+  errors.sort((a, b) => a.start - b.start);
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Evaluate a formula against source values (already coerced with getFormulaValue)
+ * Returns null with an error for invalid formulas or values (e.g. text in arithmetic)
+ */
+export function evaluateFormula(
+  formula: string,
+  sources: FormulaValue[]
+): { value: FormulaValue; error: FormulaErrorInfo | null } {
+  const parsed = parseFormula(formula);
+  if (parsed.error) {
+    return { value: null, error: parsed.error };
+  }
+
+  try {
+    const value = evaluateNode(parsed.ast, sources);
+    if (typeof value === 'number' && !isFinite(value)) {
+      return {
+        value: null,
+        error: { message: 'Result is not a finite number', start: 0, end: formula.length },
+      };
+    }
+    return { value, error: null };
+  } catch (error) {
+    if (error instanceof FormulaEvaluationError) {
+      return { value: null, error: { message: error.message, start: error.start, end: error.end } };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Whether answers to this question type can be referenced in formulas
+ */
+export function canUseInFormula(type: QuestionType): boolean {
+  return Object.hasOwn(QUESTION_VALUE_TYPES, type);
+}
@@ -0,0 +1,77 @@
+/**
+ * Formula parsing: operator precedence and associativity, and syntax errors
+ * with the positions the builder highlights
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseFormula, type FormulaNode } from './formula-parser';
+
+// Fully parenthesised form of a parsed formula
+function show(node: FormulaNode): string {
+  switch (node.type) {
+    case 'number':
+      return String(node.value);
+    case 'string':
+      return JSON.stringify(node.value);
+    case 'boolean':
+      return String(node.value);
+    case 'reference':
+      return node.name;
+    case 'unary':
+      return `(${node.operator}${show(node.operand)})`;
+    case 'binary':
+      return `(${show(node.left)} ${node.operator} ${show(node.right)})`;
+    case 'call':
+      return `${node.name}(${node.args.map(show).join(', ')})`;
+  }
+}
+
+function parse(formula: string): string {
+  const result = parseFormula(formula);
+  assert.equal(result.error, null, result.error?.message);
+  return show(result.ast!);
+}
+
+function parseError(formula: string) {
+  const result = parseFormula(formula);
+  assert.ok(result.error, `expected "${formula}" not to parse`);
+  return result.error;
+}
+
+describe('parseFormula', () => {
+  it('binds * / % tighter than + and -, left to right', () => {
+    assert.equal(parse('1 + 2 * 3'), '(1 + (2 * 3))');
+    assert.equal(parse('10 - 4 - 3'), '((10 - 4) - 3)');
+    assert.equal(parse('8 / 4 / 2'), '((8 / 4) / 2)');
+    assert.equal(parse('(1 + 2) * 3'), '((1 + 2) * 3)');
+  });
+
+  it('makes ^ right-associative and tighter than unary minus', () => {
+    assert.equal(parse('2 ^ 3 ^ 2'), '(2 ^ (3 ^ 2))');
+    assert.equal(parse('-2 ^ 2'), '(-(2 ^ 2))');
+    assert.equal(parse('2 ^ -1'), '(2 ^ (-1))');
+  });
+
+  it('parses unary operators', () => {
+    assert.equal(parse('--Q1'), '(-(-Q1))');
+    assert.equal(parse('3 * -Q2'), '(3 * (-Q2))');
+    assert.equal(parse('!Q1 && Q2'), '((!Q1) && Q2)');
+  });
+
+  it('orders comparison, && and || below arithmetic', () => {
+    assert.equal(parse('Q1 + 1 > 2 * Q2 || Q3 == "x" && true'), '(((Q1 + 1) > (2 * Q2)) || ((Q3 == "x") && true))');
+  });
+
+  it('lower-cases function names and references', () => {
+    assert.equal(parse('ROUND(avg(q1, Q2), 1)'), 'round(avg(Q1, Q2), 1)');
+  });
+
+  it('reports syntax errors with their position', () => {
+    assert.deepEqual(parseError('1 +'), { message: 'Unexpected end of formula', start: 3, end: 3 });
+    assert.equal(parseError('1 < Q1 < 5').message, "Comparisons can't be chained; combine them with &&");
+    assert.equal(parseError('Q0').message, 'Question references start at Q1');
+    assert.equal(parseError('score * 2').message, "Unknown name 'score' (reference questions as Q1, Q2, ...)");
+    assert.equal(parseError('  ').message, 'Formula is empty');
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * Formula Parser
+ * Tokenizes and parses calculation formulas (e.g. "round(avg(Q1, Q2) * 10, 1)")
+ * into an AST. Evaluation lives in formula-evaluator.ts.
+ *
+ * Grammar, lowest precedence first:
+ *   or         := and ('||' and)*
+ *   and        := comparison ('&&' comparison)*
+ *   comparison := additive (('==' | '!=' | '<' | '<=' | '>' | '>=') additive)?
+ *   additive   := term (('+' | '-') term)*
+ *   term       := unary (('*' | '/' | '%') unary)*
+ *   unary      := ('-' | '+' | '!') unary | power
+ *   power      := primary ('^' unary)?
+ *   primary    := number | string | true | false | Qn | name '(' args ')' | '(' or ')'
+ */
+
+export type BinaryOperator =
+  | '+' | '-' | '*' | '/' | '%' | '^'
+  | '==' | '!=' | '<' | '<=' | '>' | '>='
+  | '&&' | '||';
+
+export type UnaryOperator = '-' | '+' | '!';
+
+interface NodePosition {
+  start: number; // Offset of the first character
+  end: number; // Offset after the last character
+}
+
+export type FormulaNode =
+  | ({ type: 'number'; value: number } & NodePosition)
+  | ({ type: 'string'; value: string } & NodePosition)
+  | ({ type: 'boolean'; value: boolean } & NodePosition)
+  | ({ type: 'reference'; name: string; index: number } & NodePosition) // Q1 -> index 0
+  | ({ type: 'unary'; operator: UnaryOperator; operand: FormulaNode } & NodePosition)
+  | ({ type: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode } & NodePosition)
+  | ({ type: 'call'; name: string; args: FormulaNode[] } & NodePosition);
+
+export interface FormulaErrorInfo {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export type FormulaParseResult =
+  | { ast: FormulaNode; error: null }
+  | { ast: null; error: FormulaErrorInfo };
+
+type TokenType = 'number' | 'string' | 'name' | 'operator' | '(' | ')' | ',' | 'eof';
+
+interface Token extends NodePosition {
+  type: TokenType;
+  text: string;
+}
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '+', '-', '*', '/', '%', '^', '<', '>', '!'];
+
+const MAX_FORMULA_LENGTH = 1000;
+
+/**
+ * Thrown while tokenizing/parsing; converted to FormulaErrorInfo at the boundary
+ */
+class FormulaSyntaxError extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message);
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    // Numbers: 12, 1.5, .5
+    const numberMatch = /^(\d+\.?\d*|\.\d+)/.exec(source.slice(pos));
+    if (numberMatch) {
+      tokens.push({ type: 'number', text: numberMatch[0], start: pos, end: pos + numberMatch[0].length });
+      pos += numberMatch[0].length;
+      continue;
+    }
+
+    // Names: functions, Q references, true/false
+    const nameMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(pos));
+    if (nameMatch) {
+      tokens.push({ type: 'name', text: nameMatch[0], start: pos, end: pos + nameMatch[0].length });
+      pos += nameMatch[0].length;
+      continue;
+    }
+
+    // Strings in single or double quotes, with backslash escapes
+    if (char === '"' || char === "'") {
+      const start = pos;
+      let text = '';
+      pos++;
+      while (pos < source.length && source[pos] !== char) {
+        if (source[pos] === '\\' && pos + 1 < source.length) {
+          pos++;
+        }
+        text += source[pos];
+        pos++;
+      }
+      if (pos >= source.length) {
+        throw new FormulaSyntaxError('Unterminated string', start, source.length);
+      }
+      pos++;
+      tokens.push({ type: 'string', text, start, end: pos });
+      continue;
+    }
+
+    if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ type: char, text: char, start: pos, end: pos + 1 });
+      pos++;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, pos));
+    if (operator) {
+      tokens.push({ type: 'operator', text: operator, start: pos, end: pos + operator.length });
+      pos += operator.length;
+      continue;
+    }
+
+    if (char === '=') {
+      throw new FormulaSyntaxError("Unexpected '=' (use '==' to compare)", pos, pos + 1);
+    }
+
+    throw new FormulaSyntaxError(`Unexpected character '${char}'`, pos, pos + 1);
+  }
+
+  tokens.push({ type: 'eof', text: '', start: source.length, end: source.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): FormulaNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw new FormulaSyntaxError(`Unexpected '${token.text}'`, token.start, token.end);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private matchOperator(...operators: string[]): Token | null {
+    const token = this.peek();
+    if (token.type === 'operator' && operators.includes(token.text)) {
+      return this.next();
+    }
+    return null;
+  }
+
+  private expect(type: TokenType, description: string): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      const found = token.type === 'eof' ? 'end of formula' : `'${token.text}'`;
+      throw new FormulaSyntaxError(`Expected ${description} but found ${found}`, token.start, token.end);
+    }
+    return this.next();
+  }
+
+  private binary(operator: Token, left: FormulaNode, right: FormulaNode): FormulaNode {
+    return {
+      type: 'binary',
+      operator: operator.text as BinaryOperator,
+      left,
+      right,
+      start: left.start,
+      end: right.end,
+    };
+  }
+
+  private parseOr(): FormulaNode {
+    let node = this.parseAnd();
+    let operator: Token | null;
+    while ((operator = this.matchOperator('||'))) {
+      node = this.binary(operator, node, this.parseAnd());
+    }
+    return node;
+  }
+
+  private parseAnd(): FormulaNode {
+    let node = this.parseComparison();
+    let operator: Token | null;
+    while ((operator = this.matchOperator('&&'))) {
+      node = this.binary(operator, node, this.parseComparison());
+    }
+    return node;
+  }
+
+  private parseComparison(): FormulaNode {
+    const node = this.parseAdditive();
+    const operator = this.matchOperator('==', '!=', '<', '<=', '>', '>=');
+    if (!operator) return node;
+
+    const result = this.binary(operator, node, this.parseAdditive());
+
+    // Chained comparisons (1 < Q1 < 5) don't mean what they look like
+    const chained = this.matchOperator('==', '!=', '<', '<=', '>', '>=');
+    if (chained) {
+      throw new FormulaSyntaxError(
+        "Comparisons can't be chained; combine them with &&",
+        chained.start,
+        chained.end
+      );
+    }
+    return result;
+  }
+
+  private parseAdditive(): FormulaNode {
+    let node = this.parseTerm();
+    let operator: Token | null;
+    while ((operator = this.matchOperator('+', '-'))) {
+      node = this.binary(operator, node, this.parseTerm());
+    }
+    return node;
+  }
+
+  private parseTerm(): FormulaNode {
+    let node = this.parseUnary();
+    let operator: Token | null;
+    while ((operator = this.matchOperator('*', '/', '%'))) {
+      node = this.binary(operator, node, this.parseUnary());
+    }
+    return node;
+  }
+
+  private parseUnary(): FormulaNode {
+    const operator = this.matchOperator('-', '+', '!');
+    if (operator) {
+      const operand = this.parseUnary();
+      return {
+        type: 'unary',
+        operator: operator.text as UnaryOperator,
+        operand,
+        start: operator.start,
+        end: operand.end,
+      };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): FormulaNode {
+    const base = this.parsePrimary();
+    const operator = this.matchOperator('^');
+    if (!operator) return base;
+
+    // Right-associative: 2 ^ 3 ^ 2 == 2 ^ 9
+    return this.binary(operator, base, this.parseUnary());
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: parseFloat(token.text), start: token.start, end: token.end };
+
+      case 'string':
+        return { type: 'string', value: token.text, start: token.start, end: token.end };
+
+      case '(': {
+        const node = this.parseOr();
+        this.expect(')', "')'");
+        return node;
+      }
+
+      case 'name': {
+        const lower = token.text.toLowerCase();
+
+        if (this.peek().type === '(') {
+          this.next();
+          const args: FormulaNode[] = [];
+          if (this.peek().type !== ')') {
+            args.push(this.parseOr());
+            while (this.peek().type === ',') {
+              this.next();
+              args.push(this.parseOr());
+            }
+          }
+          const close = this.expect(')', "',' or ')'");
+          return { type: 'call', name: lower, args, start: token.start, end: close.end };
+        }
+
+        if (lower === 'true' || lower === 'false') {
+          return { type: 'boolean', value: lower === 'true', start: token.start, end: token.end };
+        }
+
+        const reference = /^[Qq](\d+)$/.exec(token.text);
+        if (reference) {
+          const index = parseInt(reference[1], 10) - 1;
+          if (index < 0) {
+            throw new FormulaSyntaxError('Question references start at Q1', token.start, token.end);
+          }
+          return { type: 'reference', name: token.text.toUpperCase(), index, start: token.start, end: token.end };
+        }
+
+        throw new FormulaSyntaxError(
+          `Unknown name '${token.text}' (reference questions as Q1, Q2, ...)`,
+          token.start,
+          token.end
+        );
+      }
+
+      case 'eof':
+        throw new FormulaSyntaxError('Unexpected end of formula', token.start, token.end);
+
+      default:
+        throw new FormulaSyntaxError(`Unexpected '${token.text}'`, token.start, token.end);
+    }
+  }
+}
+
+/**
+ * Parse a formula into an AST, or return the first syntax error with its position
+ */
+export function parseFormula(formula: string): FormulaParseResult {
+  if (!formula.trim()) {
+    return { ast: null, error: { message: 'Formula is empty', start: 0, end: 0 } };
+  }
+
+  if (formula.length > MAX_FORMULA_LENGTH) {
+    return {
+      ast: null,
+      error: {
+        message: `Formula is too long (max ${MAX_FORMULA_LENGTH} characters)`,
+        start: MAX_FORMULA_LENGTH,
+        end: formula.length,
+      },
+    };
+  }
+
+  try {
+    const ast = new Parser(tokenize(formula)).parse();
+    return { ast, error: null };
+  } catch (error) {
+    if (error instanceof FormulaSyntaxError) {
+      return { ast: null, error: { message: error.message, start: error.start, end: error.end } };
+    }
+    throw error;
+  }
+}
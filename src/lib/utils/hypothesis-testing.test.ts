@@ -0,0 +1,116 @@
+/**
+ * Variance tests, Welch's ANOVA and post-hoc comparisons against reference
+ * values: R's oneway.test / t.test on the sleep data (Student 1908), tabled
+ * studentized range quantiles, and the closed forms that exist for two groups
+ * or two numerator degrees of freedom
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { studentTPValue } from '@/lib/stats/distributions';
+import { brownForsytheTest, gamesHowell, leveneTest, tukeyHSD, welchANOVA } from './hypothesis-testing';
+
+function assertClose(actual: number, expected: number, tolerance: number) {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${expected} ± ${tolerance}, got ${actual}`
+  );
+}
+
+// P(F > f) when the numerator has 2 degrees of freedom
+function fPValueTwoDf(f: number, df2: number): number {
+  return Math.pow(1 + (2 * f) / df2, -df2 / 2);
+}
+
+// Extra hours of sleep with two drugs (R's sleep data set)
+const SLEEP_DRUG_1 = [0.7, -1.6, -0.2, -1.2, -0.1, 3.4, 3.7, 0.8, 0.0, 2.0];
+const SLEEP_DRUG_2 = [1.9, 0.8, 1.1, 0.1, -0.1, 4.4, 5.5, 1.6, 4.6, 3.4];
+
+// Lung function of normal subjects and two patient groups (Hollander & Wolfe)
+const LUNG_GROUPS = [
+  [2.9, 3.0, 2.5, 2.6, 3.2],
+  [3.8, 2.7, 4.0, 2.4],
+  [2.8, 3.4, 3.7, 2.2, 2.0],
+];
+
+describe('leveneTest', () => {
+  it('is a one-way ANOVA on distances from the group means', () => {
+    const result = leveneTest(LUNG_GROUPS);
+    assert.equal(result.method, 'levene');
+    assert.equal(result.dfBetween, 2);
+    assert.equal(result.dfWithin, 11);
+    assertClose(result.fStatistic, 4.7815, 1e-4);
+    assertClose(result.pValue, fPValueTwoDf(4.781469, 11), 1e-6);
+    assert.equal(result.equalVariances, false);
+  });
+
+  it('centers on the medians for the Brown-Forsythe test', () => {
+    const result = brownForsytheTest(LUNG_GROUPS);
+    assert.equal(result.method, 'brown-forsythe');
+    assertClose(result.fStatistic, 4.4769, 1e-4);
+    assertClose(result.pValue, fPValueTwoDf(4.476854, 11), 1e-6);
+  });
+});
+
+describe('welchANOVA', () => {
+  it('matches oneway.test(extra ~ group, sleep): F = 3.4626, df = (1, 17.776), p = 0.07939', () => {
+    const result = welchANOVA([SLEEP_DRUG_1, SLEEP_DRUG_2]);
+    assertClose(result.fStatistic, 3.4626, 1e-4);
+    assert.equal(result.dfBetween, 1);
+    assertClose(result.dfWithin, 17.78, 1e-2);
+    assertClose(result.pValue, 0.07939, 1e-5);
+  });
+
+  it('matches the closed form for three groups', () => {
+    const result = welchANOVA(LUNG_GROUPS);
+    assertClose(result.fStatistic, 0.3919, 1e-4);
+    assertClose(result.dfWithin, 5.52, 1e-2);
+    assertClose(result.pValue, fPValueTwoDf(0.391905, 5.518702), 1e-5);
+  });
+});
+
+describe('tukeyHSD', () => {
+  const groups = [
+    [4, 5, 6, 5, 5],
+    [6, 7, 8, 7, 7],
+    [5, 6, 7, 6, 6],
+  ];
+
+  it('uses the pooled error and the tabled q(0.95; 3, 12) = 3.773', () => {
+    const result = tukeyHSD(groups);
+    // MS within = 0.5, so every pair has SE = √(0.5 / 2 × 2 / 5)
+    const standardError = Math.sqrt(0.1);
+    const [first, second, third] = result.comparisons;
+
+    assert.equal(result.comparisons.length, 3);
+    assertClose(first.meanDifference, -2, 1e-9);
+    assertClose(first.standardError, standardError, 1e-4);
+    assertClose(first.qStatistic, 2 / standardError, 1e-4);
+    assert.equal(first.degreesOfFreedom, 12);
+    assertClose(first.upperCI - first.meanDifference, 3.773 * standardError, 1e-3);
+
+    // q = 6.32 and 3.16 either side of the critical 3.773
+    assert.equal(first.isSignificant, true);
+    assert.equal(second.isSignificant, false);
+    assert.equal(third.isSignificant, false);
+    assert.deepEqual(result.letters, ['b', 'a', 'ab']);
+  });
+
+  it('reduces to the pooled t-test for two groups', () => {
+    // Pooled variance 1, so t = 3 / √(2 / 3) on 4 df and q = √2 t
+    const [comparison] = tukeyHSD([[1, 3, 2], [4, 6, 5]]).comparisons;
+    const t = 3 / Math.sqrt(2 / 3);
+    assertClose(comparison.qStatistic, t * Math.SQRT2, 1e-4);
+    assertClose(comparison.pValue, studentTPValue(t, 4), 1e-6);
+  });
+});
+
+describe('gamesHowell', () => {
+  it('reduces to the Welch t-test for two groups: t = -1.8608, df = 17.776, p = 0.07939', () => {
+    const [comparison] = gamesHowell([SLEEP_DRUG_1, SLEEP_DRUG_2]).comparisons;
+    assertClose(comparison.meanDifference, -1.58, 1e-9);
+    assertClose(comparison.qStatistic, 1.860813 * Math.SQRT2, 1e-3);
+    assertClose(comparison.degreesOfFreedom, 17.78, 1e-2);
+    assertClose(comparison.pValue, 0.07939, 1e-5);
+  });
+});
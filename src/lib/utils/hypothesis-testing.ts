@@ -1,8 +1,16 @@
 /**
  * Hypothesis testing methods
- * Includes t-tests and ANOVA for comparing groups
+ * Includes t-tests and ANOVA for comparing groups, with post-hoc comparisons
+ * and checks of the equal-variance assumption
  */
 
+import {
+  studentTPValue,
+  fPValue,
+  studentizedRangePValue,
+  studentizedRangeInverse,
+} from '@/lib/stats/distributions';
+
 export interface TTestResult {
   tStatistic: number;
   degreesOfFreedom: number;
@@ -29,6 +37,7 @@ export interface ANOVAResult {
   msBetween: number;
   msWithin: number;
   etaSquared: number;       // Effect size
+  omegaSquared: number;     // Less biased effect size (0 when negative)
   groupCount: number;
   totalN: number;
   groupMeans: number[];
@@ -36,51 +45,47 @@ export interface ANOVAResult {
   interpretation: string;
 }
 
-/**
- * Approximate p-value from t-statistic
- * Uses simplified approximation - for exact values, use statistical libraries
- */
-function approximatePValueFromT(t: number, df: number): number {
-  // Very simplified approximation
-  // For production, consider using jStat or similar library
-  const absT = Math.abs(t);
-
-  // Rough approximations based on common critical values
-  if (df < 5) {
-    if (absT > 4.60) return 0.01;
-    if (absT > 2.78) return 0.05;
-    if (absT > 2.13) return 0.10;
-    return 0.20;
-  } else if (df < 10) {
-    if (absT > 3.25) return 0.01;
-    if (absT > 2.26) return 0.05;
-    if (absT > 1.83) return 0.10;
-    return 0.20;
-  } else if (df < 30) {
-    if (absT > 2.75) return 0.01;
-    if (absT > 2.04) return 0.05;
-    if (absT > 1.70) return 0.10;
-    return 0.20;
-  } else {
-    // Large sample (use z-distribution approximation)
-    if (absT > 2.58) return 0.01;
-    if (absT > 1.96) return 0.05;
-    if (absT > 1.645) return 0.10;
-    return 0.20;
-  }
+export interface WelchANOVAResult {
+  fStatistic: number;
+  pValue: number;
+  isSignificant: boolean;
+  dfBetween: number;
+  dfWithin: number;         // Welch-Satterthwaite, not an integer
+  omegaSquared: number;     // Estimated from F (0 when negative)
+  groupCount: number;
+  totalN: number;
+  groupMeans: number[];
+  interpretation: string;
 }
 
-/**
- * Approximate p-value from F-statistic
- */
-function approximatePValueFromF(f: number, df1: number, df2: number): number {
-  // Simplified approximation
-  if (f < 1) return 0.50;
-  if (f < 2) return 0.20;
-  if (f < 3) return 0.10;
-  if (f < 4) return 0.05;
-  if (f < 7) return 0.01;
-  return 0.001;
+export interface VarianceTestResult {
+  method: 'levene' | 'brown-forsythe';
+  fStatistic: number;
+  pValue: number;
+  dfBetween: number;
+  dfWithin: number;
+  equalVariances: boolean;  // Not rejected at the significance level
+  interpretation: string;
+}
+
+export interface PairwiseComparison {
+  group1: number;           // Indexes into the tested groups
+  group2: number;
+  meanDifference: number;   // Mean of group1 minus mean of group2
+  standardError: number;
+  qStatistic: number;       // Studentized range statistic
+  degreesOfFreedom: number;
+  pValue: number;           // Adjusted for all comparisons
+  lowerCI: number;          // Simultaneous confidence interval of the difference
+  upperCI: number;
+  isSignificant: boolean;
+}
+
+export interface PostHocResult {
+  method: 'tukey' | 'games-howell';
+  confidenceLevel: number;
+  comparisons: PairwiseComparison[];
+  letters: string[];        // Compact letter display, one entry per group
 }
 
 /**
@@ -139,8 +144,8 @@ export function independentTTest(
   // Degrees of freedom
   const df = n1 + n2 - 2;
 
-  // P-value
-  const pValue = approximatePValueFromT(tStatistic, df);
+  // Two-tailed p-value
+  const pValue = studentTPValue(tStatistic, df);
 
   // Effect size (Cohen's d)
   const cohensD = pooledStdDev !== 0 ? meanDifference / pooledStdDev : 0;
@@ -167,7 +172,7 @@ export function independentTTest(
   return {
     tStatistic: Number(tStatistic.toFixed(4)),
     degreesOfFreedom: df,
-    pValue: Number(pValue.toFixed(4)),
+    pValue,
     isSignificant,
     confidenceLevel,
     cohensD: Number(cohensD.toFixed(3)),
@@ -206,6 +211,7 @@ export function oneWayANOVA(
       msBetween: 0,
       msWithin: 0,
       etaSquared: 0,
+      omegaSquared: 0,
       groupCount: k,
       totalN: 0,
       groupMeans: [],
@@ -228,6 +234,7 @@ export function oneWayANOVA(
       msBetween: 0,
       msWithin: 0,
       etaSquared: 0,
+      omegaSquared: 0,
       groupCount: validGroups.length,
       totalN: 0,
       groupMeans: [],
@@ -273,11 +280,12 @@ export function oneWayANOVA(
   const fStatistic = msWithin !== 0 ? msBetween / msWithin : 0;
 
   // P-value
-  const pValue = approximatePValueFromF(fStatistic, dfBetween, dfWithin);
+  const pValue = dfWithin > 0 ? fPValue(fStatistic, dfBetween, dfWithin) : 1;
 
   // Effect size (eta squared)
   const ssTotal = ssBetween + ssWithin;
   const etaSquared = ssTotal !== 0 ? ssBetween / ssTotal : 0;
+  const omegaSquared = ssTotal !== 0 ? Math.max(0, (ssBetween - dfBetween * msWithin) / (ssTotal + msWithin)) : 0;
 
   // Significance
   const alpha = 1 - confidenceLevel;
@@ -299,7 +307,7 @@ export function oneWayANOVA(
 
   return {
     fStatistic: Number(fStatistic.toFixed(4)),
-    pValue: Number(pValue.toFixed(4)),
+    pValue,
     isSignificant,
     dfBetween,
     dfWithin,
@@ -308,6 +316,7 @@ export function oneWayANOVA(
     msBetween: Number(msBetween.toFixed(2)),
     msWithin: Number(msWithin.toFixed(2)),
     etaSquared: Number(etaSquared.toFixed(4)),
+    omegaSquared: Number(omegaSquared.toFixed(4)),
     groupCount: validGroups.length,
     totalN: n,
     groupMeans: groupMeans.map(m => Number(m.toFixed(2))),
@@ -372,8 +381,8 @@ export function pairedTTest(
   // Degrees of freedom
   const df = n - 1;
 
-  // P-value
-  const pValue = approximatePValueFromT(tStatistic, df);
+  // Two-tailed p-value
+  const pValue = studentTPValue(tStatistic, df);
 
   // Effect size (Cohen's d for paired samples)
   const cohensD = stdDev !== 0 ? meanDifference / stdDev : 0;
@@ -403,7 +412,7 @@ export function pairedTTest(
   return {
     tStatistic: Number(tStatistic.toFixed(4)),
     degreesOfFreedom: df,
-    pValue: Number(pValue.toFixed(4)),
+    pValue,
     isSignificant,
     confidenceLevel,
     cohensD: Number(cohensD.toFixed(3)),
@@ -415,3 +424,287 @@ export function pairedTTest(
     interpretation,
   };
 }
+
+function groupStats(group: number[]): { n: number; mean: number; variance: number } {
+  const n = group.length;
+  const mean = group.reduce((sum, val) => sum + val, 0) / n;
+  const variance = n > 1 ? group.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / (n - 1) : 0;
+  return { n, mean, variance };
+}
+
+function groupMedian(group: number[]): number {
+  const sorted = [...group].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Levene's test for equal variances
+ * A one-way ANOVA on each value's distance from its group center. Centering
+ * on the median gives the Brown-Forsythe test, which is robust to skew.
+ *
+ * @param groups - Array of groups, each containing numeric values
+ * @param center - 'mean' for Levene's original test, 'median' for Brown-Forsythe
+ * @param confidenceLevel - Significance level
+ * @returns Variance test results
+ */
+export function leveneTest(
+  groups: number[][],
+  center: 'mean' | 'median' = 'mean',
+  confidenceLevel: number = 0.95
+): VarianceTestResult {
+  const method = center === 'mean' ? 'levene' : 'brown-forsythe';
+  const validGroups = groups.filter(g => g.length > 0);
+  const deviations = validGroups.map(group => {
+    const groupCenter = center === 'mean' ? groupStats(group).mean : groupMedian(group);
+    return group.map(val => Math.abs(val - groupCenter));
+  });
+
+  const anova = oneWayANOVA(deviations, confidenceLevel);
+  const alpha = 1 - confidenceLevel;
+  // Constant deviations (e.g. every group has a single repeated value) give no evidence either way
+  const pValue = anova.msWithin === 0 && anova.msBetween === 0 ? 1 : anova.pValue;
+  const equalVariances = pValue >= alpha;
+  const name = method === 'levene' ? "Levene's test" : 'Brown-Forsythe test';
+
+  return {
+    method,
+    fStatistic: anova.fStatistic,
+    pValue,
+    dfBetween: anova.dfBetween,
+    dfWithin: anova.dfWithin,
+    equalVariances,
+    interpretation: equalVariances
+      ? `${name} found no evidence of unequal variances (p ≥ ${Number(alpha.toFixed(4))}).`
+      : `${name} found unequal variances (p < ${Number(alpha.toFixed(4))}).`,
+  };
+}
+
+/**
+ * Brown-Forsythe test for equal variances (Levene's test around the median)
+ */
+export function brownForsytheTest(groups: number[][], confidenceLevel: number = 0.95): VarianceTestResult {
+  return leveneTest(groups, 'median', confidenceLevel);
+}
+
+/**
+ * Welch's ANOVA
+ * Compares group means without assuming equal variances; use it when
+ * Levene's or the Brown-Forsythe test rejects equal variances.
+ *
+ * @param groups - Array of groups, each containing numeric values
+ * @param confidenceLevel - Significance level
+ * @returns Welch's ANOVA results
+ */
+export function welchANOVA(groups: number[][], confidenceLevel: number = 0.95): WelchANOVAResult {
+  const validGroups = groups.filter(g => g.length > 0);
+  const stats = validGroups.map(groupStats);
+  const k = stats.length;
+  const totalN = stats.reduce((sum, s) => sum + s.n, 0);
+
+  // Weights are n / s², so every group needs some spread
+  if (k < 2 || stats.some(s => s.n < 2 || s.variance === 0)) {
+    return {
+      fStatistic: 0,
+      pValue: 1,
+      isSignificant: false,
+      dfBetween: 0,
+      dfWithin: 0,
+      omegaSquared: 0,
+      groupCount: k,
+      totalN,
+      groupMeans: stats.map(s => Number(s.mean.toFixed(2))),
+      interpretation: "Welch's ANOVA needs at least 2 groups, each with 2 or more values that are not all equal",
+    };
+  }
+
+  const weights = stats.map(s => s.n / s.variance);
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+  const weightedMean = stats.reduce((sum, s, i) => sum + weights[i] * s.mean, 0) / weightSum;
+
+  const between = stats.reduce((sum, s, i) => sum + weights[i] * Math.pow(s.mean - weightedMean, 2), 0) / (k - 1);
+  const lambda = stats.reduce((sum, s, i) => sum + Math.pow(1 - weights[i] / weightSum, 2) / (s.n - 1), 0);
+  const fStatistic = between / (1 + ((2 * (k - 2)) / (k * k - 1)) * lambda);
+
+  const dfBetween = k - 1;
+  const dfWithin = (k * k - 1) / (3 * lambda);
+  const pValue = fPValue(fStatistic, dfBetween, dfWithin);
+  const omegaSquared = Math.max(0, (dfBetween * (fStatistic - 1)) / (dfBetween * (fStatistic - 1) + totalN));
+
+  const alpha = 1 - confidenceLevel;
+  const isSignificant = pValue < alpha;
+
+  let interpretation = isSignificant
+    ? `Significant difference among groups detected (p < ${Number(alpha.toFixed(4))}). `
+    : `No significant difference among groups (p ≥ ${Number(alpha.toFixed(4))}). `;
+
+  if (omegaSquared < 0.01) interpretation += 'Negligible effect size.';
+  else if (omegaSquared < 0.06) interpretation += 'Small effect size.';
+  else if (omegaSquared < 0.14) interpretation += 'Medium effect size.';
+  else interpretation += 'Large effect size.';
+
+  return {
+    fStatistic: Number(fStatistic.toFixed(4)),
+    pValue,
+    isSignificant,
+    dfBetween,
+    dfWithin: Number(dfWithin.toFixed(2)),
+    omegaSquared: Number(omegaSquared.toFixed(4)),
+    groupCount: k,
+    totalN,
+    groupMeans: stats.map(s => Number(s.mean.toFixed(2))),
+    interpretation,
+  };
+}
+
+/**
+ * Compact letter display for pairwise comparisons
+ * Groups that share a letter are not significantly different. Letters are
+ * handed out from the group with the highest score down (insert-absorb
+ * algorithm, Piepho 2004).
+ *
+ * @param scores - One score per group (mean or mean rank), used for ordering
+ * @param significantPairs - Index pairs of groups that differ significantly
+ * @returns Letters per group
+ */
+export function compactLetterDisplay(scores: number[], significantPairs: Array<[number, number]>): string[] {
+  let columns: Set<number>[] = [new Set(scores.map((_, i) => i))];
+
+  significantPairs.forEach(([a, b]) => {
+    const split = columns.flatMap(column => {
+      if (!column.has(a) || !column.has(b)) return [column];
+      const withoutA = new Set(column);
+      withoutA.delete(a);
+      const withoutB = new Set(column);
+      withoutB.delete(b);
+      return [withoutA, withoutB];
+    });
+
+    // Absorb columns contained in another one
+    columns = split.filter((column, i) =>
+      !split.some((other, j) =>
+        j !== i &&
+        other.size >= column.size &&
+        [...column].every(g => other.has(g)) &&
+        (other.size > column.size || j < i)
+      )
+    );
+  });
+
+  const order = scores.map((score, i) => ({ score, i })).sort((x, y) => y.score - x.score).map(x => x.i);
+  const rank = new Map(order.map((group, position) => [group, position]));
+  const firstMember = (column: Set<number>) => Math.min(...[...column].map(g => rank.get(g) as number));
+  columns.sort((x, y) => firstMember(x) - firstMember(y));
+
+  const letterFor = (index: number) =>
+    index < 26 ? String.fromCharCode(97 + index) : `${String.fromCharCode(97 + (index % 26))}${Math.floor(index / 26)}`;
+
+  return scores.map((_, group) =>
+    columns.map((column, index) => (column.has(group) ? letterFor(index) : '')).join('')
+  );
+}
+
+/**
+ * Tukey's HSD (Tukey-Kramer for unequal group sizes)
+ * Compares every pair of group means using the pooled ANOVA error, keeping
+ * the family-wise error rate at α. Assumes equal variances.
+ *
+ * @param groups - Array of groups, each containing numeric values
+ * @param confidenceLevel - Confidence level of the simultaneous intervals
+ * @returns Pairwise comparisons with adjusted p-values
+ */
+export function tukeyHSD(groups: number[][], confidenceLevel: number = 0.95): PostHocResult {
+  const validGroups = groups.filter(g => g.length > 0);
+  const stats = validGroups.map(groupStats);
+  const k = stats.length;
+  const n = stats.reduce((sum, s) => sum + s.n, 0);
+  const dfWithin = n - k;
+
+  if (k < 2 || dfWithin < 1) {
+    return { method: 'tukey', confidenceLevel, comparisons: [], letters: stats.map(() => 'a') };
+  }
+
+  const msWithin = stats.reduce((sum, s) => sum + (s.n - 1) * s.variance, 0) / dfWithin;
+  const critical = studentizedRangeInverse(confidenceLevel, k, dfWithin);
+
+  return buildPostHoc('tukey', stats, confidenceLevel, (a, b) => ({
+    standardError: Math.sqrt((msWithin / 2) * (1 / a.n + 1 / b.n)),
+    degreesOfFreedom: dfWithin,
+    critical,
+  }));
+}
+
+/**
+ * Games-Howell pairwise comparisons
+ * Like Tukey's HSD, but each pair uses its own variances and Welch degrees of
+ * freedom, so it holds up when variances (and group sizes) differ.
+ *
+ * @param groups - Array of groups, each containing numeric values
+ * @param confidenceLevel - Confidence level of the simultaneous intervals
+ * @returns Pairwise comparisons with adjusted p-values
+ */
+export function gamesHowell(groups: number[][], confidenceLevel: number = 0.95): PostHocResult {
+  const validGroups = groups.filter(g => g.length > 0);
+  const stats = validGroups.map(groupStats);
+  const k = stats.length;
+
+  if (k < 2 || stats.some(s => s.n < 2)) {
+    return { method: 'games-howell', confidenceLevel, comparisons: [], letters: stats.map(() => 'a') };
+  }
+
+  return buildPostHoc('games-howell', stats, confidenceLevel, (a, b) => {
+    const va = a.variance / a.n;
+    const vb = b.variance / b.n;
+    const df = va + vb > 0 ? Math.pow(va + vb, 2) / (va * va / (a.n - 1) + vb * vb / (b.n - 1)) : a.n + b.n - 2;
+    return {
+      standardError: Math.sqrt((va + vb) / 2),
+      degreesOfFreedom: df,
+      critical: studentizedRangeInverse(confidenceLevel, k, df),
+    };
+  });
+}
+
+function buildPostHoc(
+  method: PostHocResult['method'],
+  stats: Array<{ n: number; mean: number; variance: number }>,
+  confidenceLevel: number,
+  pairError: (
+    a: { n: number; variance: number },
+    b: { n: number; variance: number }
+  ) => { standardError: number; degreesOfFreedom: number; critical: number }
+): PostHocResult {
+  const k = stats.length;
+  const alpha = 1 - confidenceLevel;
+  const comparisons: PairwiseComparison[] = [];
+
+  for (let i = 0; i < k; i++) {
+    for (let j = i + 1; j < k; j++) {
+      const { standardError, degreesOfFreedom, critical } = pairError(stats[i], stats[j]);
+      const meanDifference = stats[i].mean - stats[j].mean;
+      const qStatistic = standardError > 0 ? Math.abs(meanDifference) / standardError : 0;
+      const pValue = standardError > 0 ? studentizedRangePValue(qStatistic, k, degreesOfFreedom) : 1;
+      const margin = critical * standardError;
+
+      comparisons.push({
+        group1: i,
+        group2: j,
+        meanDifference: Number(meanDifference.toFixed(4)),
+        standardError: Number(standardError.toFixed(4)),
+        qStatistic: Number(qStatistic.toFixed(4)),
+        degreesOfFreedom: Number(degreesOfFreedom.toFixed(2)),
+        pValue,
+        lowerCI: Number((meanDifference - margin).toFixed(4)),
+        upperCI: Number((meanDifference + margin).toFixed(4)),
+        isSignificant: pValue < alpha,
+      });
+    }
+  }
+
+  const letters = compactLetterDisplay(
+    stats.map(s => s.mean),
+    comparisons.filter(c => c.isSignificant).map((c): [number, number] => [c.group1, c.group2])
+  );
+
+  return { method, confidenceLevel, comparisons, letters };
+}
+
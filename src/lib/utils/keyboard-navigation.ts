@@ -68,6 +68,7 @@ export const FORM_SHORTCUTS = {
   NEXT: { key: 'ArrowRight', description: 'Next question' },
   PREVIOUS: { key: 'ArrowLeft', description: 'Previous question' },
   SUBMIT: { key: 'Enter', ctrl: true, description: 'Submit form' },
+  COMMAND_PALETTE: { key: 'k', ctrl: true, description: 'Open command palette' },
 } as const;
 
 /**
@@ -0,0 +1,118 @@
+/**
+ * Non-parametric tests against the worked examples in R's documentation
+ * (?wilcox.test, ?kruskal.test and ?friedman.test, the data sets from
+ * Hollander & Wolfe, Nonparametric Statistical Methods)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  adjustPValues,
+  friedmanTest,
+  kruskalWallisTest,
+  mannWhitneyUTest,
+  rankWithTies,
+  wilcoxonSignedRankTest,
+} from './nonparametric-tests';
+
+function assertClose(actual: number, expected: number, tolerance: number) {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${expected} ± ${tolerance}, got ${actual}`
+  );
+}
+
+describe('rankWithTies', () => {
+  it('gives ties the mean of their ranks', () => {
+    const { ranks, tieSizes } = rankWithTies([10, 20, 20, 30, 20]);
+    assert.deepEqual(ranks, [1, 3, 3, 5, 3]);
+    assert.deepEqual(tieSizes, [3]);
+  });
+});
+
+describe('mannWhitneyUTest', () => {
+  it('matches wilcox.test(x, y): W = 35, exact p = 0.2544', () => {
+    const x = [0.8, 0.83, 1.89, 1.04, 1.45, 1.38, 1.91, 1.64, 0.73, 1.46];
+    const y = [1.15, 0.88, 0.9, 0.74, 1.21];
+    const result = mannWhitneyUTest(x, y);
+
+    assert.equal(result.uStatistic, 35);
+    assert.equal(result.isExact, true);
+    // Two-sided; R's one-sided alternative = "greater" gives 0.1272
+    assertClose(result.pValue, 0.2544122544, 1e-9);
+  });
+
+  it('falls back to the continuity-corrected normal approximation with ties', () => {
+    const result = mannWhitneyUTest([1, 2, 2, 3, 4], [3, 4, 4, 5, 6]);
+    assert.equal(result.isExact, false);
+    assert.equal(result.uStatistic, 2.5);
+    // Ties of 2, 2 and 3: variance (25 / 12)(11 - 36 / 90); |U - 12.5| - 0.5 = 9.5
+    assertClose(result.zStatistic, -9.5 / Math.sqrt((25 / 12) * (11 - 36 / 90)), 1e-4);
+  });
+});
+
+describe('wilcoxonSignedRankTest', () => {
+  it('matches wilcox.test(x, y, paired = TRUE): V = 40, exact p = 0.0391', () => {
+    const x = [1.83, 0.5, 1.62, 2.48, 1.68, 1.88, 1.55, 3.06, 1.3];
+    const y = [0.878, 0.647, 0.598, 2.05, 1.06, 1.29, 1.06, 3.14, 1.29];
+    const result = wilcoxonSignedRankTest(x, y);
+
+    assert.equal(result.wStatistic, 40);
+    assert.equal(result.n, 9);
+    assert.equal(result.isExact, true);
+    // Two-sided; R's one-sided alternative = "greater" gives 0.01953 = 10/512
+    assertClose(result.pValue, 20 / 512, 1e-12);
+  });
+
+  it('drops zero differences', () => {
+    const result = wilcoxonSignedRankTest([1, 2, 3, 4, 5], [1, 1, 1, 1, 1]);
+    assert.equal(result.n, 4);
+    assert.equal(result.zeroDifferences, 1);
+  });
+});
+
+describe('kruskalWallisTest', () => {
+  it('matches kruskal.test: chi-squared = 0.77143, df = 2, p = 0.68', () => {
+    const normal = [2.9, 3.0, 2.5, 2.6, 3.2];
+    const obstructive = [3.8, 2.7, 4.0, 2.4];
+    const asbestosis = [2.8, 3.4, 3.7, 2.2, 2.0];
+    const result = kruskalWallisTest([normal, obstructive, asbestosis]);
+
+    assertClose(result.hStatistic, 0.7714, 1e-4);
+    assert.equal(result.degreesOfFreedom, 2);
+    assertClose(result.pValue, 0.679965, 1e-5);
+    assert.equal(result.postHoc.length, 3);
+  });
+});
+
+describe('friedmanTest', () => {
+  it('matches friedman.test(RoundingTimes): chi-squared = 11.143, df = 2, p = 0.003805', () => {
+    // Hollander & Wolfe, Table 7.1: times rounding first base with three methods
+    const roundingTimes = [
+      [5.40, 5.50, 5.55], [5.85, 5.70, 5.75], [5.20, 5.60, 5.50], [5.55, 5.50, 5.40],
+      [5.90, 5.85, 5.70], [5.45, 5.55, 5.60], [5.40, 5.40, 5.35], [5.45, 5.50, 5.35],
+      [5.25, 5.15, 5.00], [5.85, 5.80, 5.70], [5.25, 5.20, 5.10], [5.65, 5.55, 5.45],
+      [5.60, 5.35, 5.45], [5.05, 5.00, 4.95], [5.50, 5.50, 5.40], [5.45, 5.55, 5.50],
+      [5.55, 5.55, 5.35], [5.45, 5.50, 5.55], [5.50, 5.45, 5.25], [5.65, 5.60, 5.40],
+      [5.70, 5.65, 5.55], [6.30, 6.30, 6.25],
+    ];
+    const measures = [0, 1, 2].map((method) => roundingTimes.map((player) => player[method]));
+    const result = friedmanTest(measures);
+
+    assertClose(result.chiSquare, 11.1429, 1e-4);
+    assert.equal(result.degreesOfFreedom, 2);
+    assert.equal(result.blocks, 22);
+    assertClose(result.pValue, 0.003805, 1e-6);
+  });
+});
+
+describe('adjustPValues', () => {
+  it('matches p.adjust', () => {
+    const pValues = [0.01, 0.04, 0.03, 0.005];
+    const bonferroni = adjustPValues(pValues, 'bonferroni');
+    [0.04, 0.16, 0.12, 0.02].forEach((expected, i) => assertClose(bonferroni[i], expected, 1e-12));
+    // Holm: 0.005 × 4, 0.01 × 3, 0.03 × 2, 0.04 × 1, kept monotone
+    const holm = adjustPValues(pValues, 'holm');
+    [0.03, 0.06, 0.06, 0.02].forEach((expected, i) => assertClose(holm[i], expected, 1e-12));
+  });
+});
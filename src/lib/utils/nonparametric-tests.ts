@@ -0,0 +1,618 @@
+/**
+ * Non-parametric hypothesis tests
+ * Rank-based alternatives to the t-tests and ANOVA in hypothesis-testing.ts,
+ * for ordinal answers (linear scales, matrix rows) and skewed data
+ */
+
+import { chiSquarePValue, normalCDF } from '@/lib/stats/distributions';
+import { testNormality, type NormalityTestResult } from '@/lib/utils/normality-testing';
+
+// Exact distributions are enumerated up to this many (non-tied) observations
+const MAX_EXACT_SIZE = 50;
+
+export type PValueAdjustment = 'holm' | 'bonferroni';
+
+export interface RankedGroup {
+  n: number;
+  median: number;
+  meanRank: number;
+}
+
+export interface MannWhitneyResult {
+  uStatistic: number;       // U of the first group
+  zStatistic: number;       // Normal approximation (0 when the p-value is exact)
+  pValue: number;
+  isExact: boolean;
+  isSignificant: boolean;
+  confidenceLevel: number;
+  rankBiserial: number;     // Effect size, positive when the first group ranks higher
+  groups: [RankedGroup, RankedGroup];
+  interpretation: string;
+}
+
+export interface WilcoxonResult {
+  wStatistic: number;       // Sum of the ranks of positive differences
+  zStatistic: number;
+  pValue: number;
+  isExact: boolean;
+  isSignificant: boolean;
+  confidenceLevel: number;
+  rankBiserial: number;     // Matched-pairs effect size, positive when the first measure is higher
+  n: number;                // Pairs used (zero differences are dropped)
+  zeroDifferences: number;
+  medianDifference: number;
+  interpretation: string;
+}
+
+export interface DunnComparison {
+  group1: number;           // Indexes into the tested groups
+  group2: number;
+  zStatistic: number;
+  pValue: number;
+  adjustedPValue: number;
+  isSignificant: boolean;
+}
+
+export interface KruskalWallisResult {
+  hStatistic: number;       // Tie-corrected
+  degreesOfFreedom: number;
+  pValue: number;
+  isSignificant: boolean;
+  confidenceLevel: number;
+  epsilonSquared: number;   // Effect size
+  totalN: number;
+  groups: RankedGroup[];
+  postHoc: DunnComparison[];
+  adjustment: PValueAdjustment;
+  interpretation: string;
+}
+
+export interface FriedmanResult {
+  chiSquare: number;        // Tie-corrected
+  degreesOfFreedom: number;
+  pValue: number;
+  isSignificant: boolean;
+  confidenceLevel: number;
+  kendallsW: number;        // Effect size (coefficient of concordance)
+  blocks: number;           // Respondents with a value for every measure
+  measures: RankedGroup[];  // Mean rank is the mean within-respondent rank
+  interpretation: string;
+}
+
+export interface TestRecommendation {
+  family: 'parametric' | 'nonparametric';
+  normality: NormalityTestResult[];
+  reason: string;
+}
+
+// ============================================================================
+// Ranking helpers
+// ============================================================================
+
+/**
+ * Rank values from 1, giving tied values the mean of the ranks they span
+ * Also returns the size of every group of ties, for tie corrections.
+ */
+export function rankWithTies(values: number[]): { ranks: number[]; tieSizes: number[] } {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+  const tieSizes: number[] = [];
+
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+
+    const rank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) ranks[order[i].index] = rank;
+    if (end > start) tieSizes.push(end - start + 1);
+
+    start = end + 1;
+  }
+
+  return { ranks, tieSizes };
+}
+
+// Σ(t³ - t) over groups of ties
+function tieSum(tieSizes: number[]): number {
+  return tieSizes.reduce((sum, t) => sum + t * t * t - t, 0);
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Number of ways to pick `size` of the ranks 1..n for every possible rank sum
+ * (size = n gives the signed-rank distribution, where any subset counts)
+ */
+function rankSumCounts(n: number, size: number | null): number[][] {
+  const maxSum = (n * (n + 1)) / 2;
+  const maxSize = size ?? n;
+  // counts[j][s]: subsets of j ranks summing to s
+  const counts = Array.from({ length: maxSize + 1 }, () => new Array<number>(maxSum + 1).fill(0));
+  counts[0][0] = 1;
+
+  for (let rank = 1; rank <= n; rank++) {
+    for (let j = Math.min(rank, maxSize); j >= 1; j--) {
+      for (let s = maxSum; s >= rank; s--) {
+        counts[j][s] += counts[j - 1][s - rank];
+      }
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Two-tailed exact p-value from a discrete distribution given as counts per value
+ */
+function exactTwoTailedPValue(counts: number[], observed: number): number {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  let lower = 0;
+  let upper = 0;
+
+  counts.forEach((count, value) => {
+    if (value <= observed) lower += count;
+    if (value >= observed) upper += count;
+  });
+
+  return Math.min(1, (2 * Math.min(lower, upper)) / total);
+}
+
+// Two-tailed p-value of a normal approximation with continuity correction
+function normalApproximation(statistic: number, mean: number, variance: number): { z: number; pValue: number } {
+  if (variance <= 0) return { z: 0, pValue: 1 };
+
+  const difference = statistic - mean;
+  const corrected = Math.max(0, Math.abs(difference) - 0.5) * Math.sign(difference);
+  const z = corrected / Math.sqrt(variance);
+  return { z, pValue: Math.min(1, 2 * (1 - normalCDF(Math.abs(z)))) };
+}
+
+/**
+ * Adjust p-values for multiple comparisons
+ */
+export function adjustPValues(pValues: number[], method: PValueAdjustment = 'holm'): number[] {
+  const m = pValues.length;
+
+  if (method === 'bonferroni') {
+    return pValues.map((p) => Math.min(1, p * m));
+  }
+
+  // Holm step-down: the i-th smallest is multiplied by (m - i), kept monotone
+  const order = pValues.map((p, index) => ({ p, index })).sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(m);
+  let running = 0;
+  order.forEach(({ p, index }, i) => {
+    running = Math.max(running, Math.min(1, p * (m - i)));
+    adjusted[index] = running;
+  });
+
+  return adjusted;
+}
+
+function describeSignificance(isSignificant: boolean, confidenceLevel: number, subject: string): string {
+  const alpha = Number((1 - confidenceLevel).toFixed(4));
+  return isSignificant
+    ? `Significant difference ${subject}detected (p < ${alpha}). `
+    : `No significant difference ${subject}detected (p ≥ ${alpha}). `;
+}
+
+function describeEffect(size: number, [small, medium, large]: [number, number, number]): string {
+  const abs = Math.abs(size);
+  if (abs < small) return 'Negligible effect size.';
+  if (abs < medium) return 'Small effect size.';
+  if (abs < large) return 'Medium effect size.';
+  return 'Large effect size.';
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+/**
+ * Mann-Whitney U test (Wilcoxon rank-sum test)
+ * Tests if values in one of two independent groups tend to be larger.
+ * The p-value is exact for small samples without ties, otherwise from the
+ * tie-corrected normal approximation.
+ *
+ * @param group1 - First group of values
+ * @param group2 - Second group of values
+ * @param confidenceLevel - Significance level (default 0.95 for α = 0.05)
+ * @returns Mann-Whitney U test results
+ */
+export function mannWhitneyUTest(
+  group1: number[],
+  group2: number[],
+  confidenceLevel: number = 0.95
+): MannWhitneyResult {
+  const n1 = group1.length;
+  const n2 = group2.length;
+
+  if (n1 < 1 || n2 < 1 || n1 + n2 < 3) {
+    return {
+      uStatistic: 0,
+      zStatistic: 0,
+      pValue: 1,
+      isExact: false,
+      isSignificant: false,
+      confidenceLevel,
+      rankBiserial: 0,
+      groups: [
+        { n: n1, median: median(group1), meanRank: 0 },
+        { n: n2, median: median(group2), meanRank: 0 },
+      ],
+      interpretation: 'Insufficient data for Mann-Whitney U test (need at least 3 values across both groups)',
+    };
+  }
+
+  const n = n1 + n2;
+  const { ranks, tieSizes } = rankWithTies([...group1, ...group2]);
+  const rankSum1 = ranks.slice(0, n1).reduce((sum, rank) => sum + rank, 0);
+  const rankSum2 = ranks.slice(n1).reduce((sum, rank) => sum + rank, 0);
+  const u1 = rankSum1 - (n1 * (n1 + 1)) / 2;
+
+  const isExact = tieSizes.length === 0 && n <= MAX_EXACT_SIZE;
+  let zStatistic = 0;
+  let pValue: number;
+
+  if (isExact) {
+    // U1 = rank sum - its minimum, so the rank-sum distribution shifted down
+    const counts = rankSumCounts(n, n1)[n1].slice((n1 * (n1 + 1)) / 2);
+    pValue = exactTwoTailedPValue(counts, u1);
+  } else {
+    const variance = ((n1 * n2) / 12) * (n + 1 - tieSum(tieSizes) / (n * (n - 1)));
+    const approximation = normalApproximation(u1, (n1 * n2) / 2, variance);
+    zStatistic = approximation.z;
+    pValue = approximation.pValue;
+  }
+
+  const rankBiserial = (2 * u1) / (n1 * n2) - 1;
+  const alpha = 1 - confidenceLevel;
+  const isSignificant = pValue < alpha;
+
+  const interpretation =
+    describeSignificance(isSignificant, confidenceLevel, 'between the groups ') +
+    describeEffect(rankBiserial, [0.1, 0.3, 0.5]);
+
+  return {
+    uStatistic: Number(u1.toFixed(2)),
+    zStatistic: Number(zStatistic.toFixed(4)),
+    pValue,
+    isExact,
+    isSignificant,
+    confidenceLevel,
+    rankBiserial: Number(rankBiserial.toFixed(3)),
+    groups: [
+      { n: n1, median: median(group1), meanRank: Number((rankSum1 / n1).toFixed(2)) },
+      { n: n2, median: median(group2), meanRank: Number((rankSum2 / n2).toFixed(2)) },
+    ],
+    interpretation,
+  };
+}
+
+/**
+ * Wilcoxon signed-rank test
+ * Tests if paired observations differ, using the ranks of their differences.
+ * Zero differences are dropped; the p-value is exact for small samples
+ * without tied differences, otherwise tie-corrected normal.
+ *
+ * @param before - First measure per respondent
+ * @param after - Second measure per respondent
+ * @param confidenceLevel - Significance level
+ * @returns Wilcoxon signed-rank test results
+ */
+export function wilcoxonSignedRankTest(
+  before: number[],
+  after: number[],
+  confidenceLevel: number = 0.95
+): WilcoxonResult {
+  if (before.length !== after.length) {
+    throw new Error('Wilcoxon signed-rank test requires equal sample sizes');
+  }
+
+  const allDifferences = before.map((value, i) => value - after[i]);
+  const differences = allDifferences.filter((difference) => difference !== 0);
+  const n = differences.length;
+  const zeroDifferences = allDifferences.length - n;
+
+  if (n < 2) {
+    return {
+      wStatistic: 0,
+      zStatistic: 0,
+      pValue: 1,
+      isExact: false,
+      isSignificant: false,
+      confidenceLevel,
+      rankBiserial: 0,
+      n,
+      zeroDifferences,
+      medianDifference: median(allDifferences),
+      interpretation: 'Insufficient data for Wilcoxon signed-rank test (need at least 2 non-zero differences)',
+    };
+  }
+
+  const { ranks, tieSizes } = rankWithTies(differences.map(Math.abs));
+  const wPlus = ranks.reduce((sum, rank, i) => (differences[i] > 0 ? sum + rank : sum), 0);
+  const totalRank = (n * (n + 1)) / 2;
+
+  const isExact = tieSizes.length === 0 && n <= MAX_EXACT_SIZE;
+  let zStatistic = 0;
+  let pValue: number;
+
+  if (isExact) {
+    // Under H0 every subset of ranks is equally likely to be the positive ones
+    const counts = rankSumCounts(n, null).reduce(
+      (total, bySum) => total.map((count, s) => count + bySum[s]),
+      new Array<number>(totalRank + 1).fill(0)
+    );
+    pValue = exactTwoTailedPValue(counts, wPlus);
+  } else {
+    const variance = (n * (n + 1) * (2 * n + 1)) / 24 - tieSum(tieSizes) / 48;
+    const approximation = normalApproximation(wPlus, totalRank / 2, variance);
+    zStatistic = approximation.z;
+    pValue = approximation.pValue;
+  }
+
+  const rankBiserial = (wPlus - (totalRank - wPlus)) / totalRank;
+  const alpha = 1 - confidenceLevel;
+  const isSignificant = pValue < alpha;
+
+  const interpretation =
+    describeSignificance(isSignificant, confidenceLevel, '') + describeEffect(rankBiserial, [0.1, 0.3, 0.5]);
+
+  return {
+    wStatistic: Number(wPlus.toFixed(2)),
+    zStatistic: Number(zStatistic.toFixed(4)),
+    pValue,
+    isExact,
+    isSignificant,
+    confidenceLevel,
+    rankBiserial: Number(rankBiserial.toFixed(3)),
+    n,
+    zeroDifferences,
+    medianDifference: median(allDifferences),
+    interpretation,
+  };
+}
+
+/**
+ * Dunn's test: pairwise comparisons of mean ranks after Kruskal-Wallis
+ */
+export function dunnTest(
+  groups: number[][],
+  adjustment: PValueAdjustment = 'holm',
+  confidenceLevel: number = 0.95
+): DunnComparison[] {
+  const n = groups.reduce((sum, group) => sum + group.length, 0);
+  if (groups.length < 2 || n < 2) return [];
+
+  const { ranks, tieSizes } = rankWithTies(groups.flat());
+  const meanRanks: number[] = [];
+  let offset = 0;
+  groups.forEach((group) => {
+    const groupRanks = ranks.slice(offset, offset + group.length);
+    meanRanks.push(groupRanks.reduce((sum, rank) => sum + rank, 0) / group.length);
+    offset += group.length;
+  });
+
+  const varianceFactor = (n * (n + 1)) / 12 - tieSum(tieSizes) / (12 * (n - 1));
+  const pairs: Array<Omit<DunnComparison, 'adjustedPValue' | 'isSignificant'>> = [];
+
+  for (let i = 0; i < groups.length; i++) {
+    for (let j = i + 1; j < groups.length; j++) {
+      const standardError = Math.sqrt(varianceFactor * (1 / groups[i].length + 1 / groups[j].length));
+      const z = standardError > 0 ? (meanRanks[i] - meanRanks[j]) / standardError : 0;
+      pairs.push({
+        group1: i,
+        group2: j,
+        zStatistic: Number(z.toFixed(4)),
+        pValue: Math.min(1, 2 * (1 - normalCDF(Math.abs(z)))),
+      });
+    }
+  }
+
+  const alpha = 1 - confidenceLevel;
+  const adjusted = adjustPValues(pairs.map((pair) => pair.pValue), adjustment);
+
+  return pairs.map((pair, index) => ({
+    ...pair,
+    adjustedPValue: adjusted[index],
+    isSignificant: adjusted[index] < alpha,
+  }));
+}
+
+/**
+ * Kruskal-Wallis H test
+ * Rank-based one-way ANOVA: tests if values tend to differ across two or
+ * more independent groups. Includes Dunn's pairwise comparisons.
+ *
+ * @param groups - Array of groups, each containing numeric values
+ * @param confidenceLevel - Significance level (default 0.95 for α = 0.05)
+ * @param adjustment - Multiple-comparison correction for the post-hoc tests
+ * @returns Kruskal-Wallis results
+ */
+export function kruskalWallisTest(
+  groups: number[][],
+  confidenceLevel: number = 0.95,
+  adjustment: PValueAdjustment = 'holm'
+): KruskalWallisResult {
+  const validGroups = groups.filter((group) => group.length > 0);
+  const n = validGroups.reduce((sum, group) => sum + group.length, 0);
+  const k = validGroups.length;
+
+  if (k < 2 || n <= k) {
+    return {
+      hStatistic: 0,
+      degreesOfFreedom: 0,
+      pValue: 1,
+      isSignificant: false,
+      confidenceLevel,
+      epsilonSquared: 0,
+      totalN: n,
+      groups: validGroups.map((group) => ({ n: group.length, median: median(group), meanRank: 0 })),
+      postHoc: [],
+      adjustment,
+      interpretation: 'Need at least 2 non-empty groups, and more values than groups, for Kruskal-Wallis test',
+    };
+  }
+
+  const { ranks, tieSizes } = rankWithTies(validGroups.flat());
+  let offset = 0;
+  const rankedGroups: RankedGroup[] = [];
+  let weightedSum = 0;
+
+  validGroups.forEach((group) => {
+    const rankSum = ranks.slice(offset, offset + group.length).reduce((sum, rank) => sum + rank, 0);
+    weightedSum += (rankSum * rankSum) / group.length;
+    rankedGroups.push({
+      n: group.length,
+      median: median(group),
+      meanRank: Number((rankSum / group.length).toFixed(2)),
+    });
+    offset += group.length;
+  });
+
+  const uncorrectedH = (12 / (n * (n + 1))) * weightedSum - 3 * (n + 1);
+  const correction = 1 - tieSum(tieSizes) / (n * n * n - n);
+  // Every value tied: nothing to rank
+  const hStatistic = correction > 0 ? uncorrectedH / correction : 0;
+
+  const df = k - 1;
+  const pValue = correction > 0 ? chiSquarePValue(hStatistic, df) : 1;
+  const epsilonSquared = hStatistic / (n - 1);
+
+  const alpha = 1 - confidenceLevel;
+  const isSignificant = pValue < alpha;
+
+  const interpretation =
+    describeSignificance(isSignificant, confidenceLevel, 'among groups ') +
+    describeEffect(epsilonSquared, [0.01, 0.08, 0.26]);
+
+  return {
+    hStatistic: Number(hStatistic.toFixed(4)),
+    degreesOfFreedom: df,
+    pValue,
+    isSignificant,
+    confidenceLevel,
+    epsilonSquared: Number(epsilonSquared.toFixed(4)),
+    totalN: n,
+    groups: rankedGroups,
+    postHoc: dunnTest(validGroups, adjustment, confidenceLevel),
+    adjustment,
+    interpretation,
+  };
+}
+
+/**
+ * Friedman test
+ * Rank-based repeated-measures ANOVA: tests if measures taken from the same
+ * respondents (usually three or more) differ. Values are ranked within each
+ * respondent.
+ *
+ * @param measures - One array per measure, aligned by respondent
+ * @param confidenceLevel - Significance level
+ * @returns Friedman test results
+ */
+export function friedmanTest(measures: number[][], confidenceLevel: number = 0.95): FriedmanResult {
+  const k = measures.length;
+  const n = k > 0 ? measures[0].length : 0;
+
+  if (measures.some((measure) => measure.length !== n)) {
+    throw new Error('Friedman test requires a value for every measure from every respondent');
+  }
+
+  if (k < 2 || n < 2) {
+    return {
+      chiSquare: 0,
+      degreesOfFreedom: 0,
+      pValue: 1,
+      isSignificant: false,
+      confidenceLevel,
+      kendallsW: 0,
+      blocks: n,
+      measures: measures.map((measure) => ({ n: measure.length, median: median(measure), meanRank: 0 })),
+      interpretation: 'Need at least 2 measures and 2 respondents for Friedman test',
+    };
+  }
+
+  const rankSums = new Array<number>(k).fill(0);
+  let ties = 0;
+
+  for (let block = 0; block < n; block++) {
+    const { ranks, tieSizes } = rankWithTies(measures.map((measure) => measure[block]));
+    ranks.forEach((rank, j) => {
+      rankSums[j] += rank;
+    });
+    ties += tieSum(tieSizes);
+  }
+
+  const sumOfSquares = rankSums.reduce((sum, rankSum) => sum + rankSum * rankSum, 0);
+  const uncorrected = (12 / (n * k * (k + 1))) * sumOfSquares - 3 * n * (k + 1);
+  const correction = 1 - ties / (n * (k * k * k - k));
+  const chiSquare = correction > 0 ? uncorrected / correction : 0;
+
+  const df = k - 1;
+  const pValue = correction > 0 ? chiSquarePValue(chiSquare, df) : 1;
+  const kendallsW = chiSquare / (n * (k - 1));
+
+  const alpha = 1 - confidenceLevel;
+  const isSignificant = pValue < alpha;
+
+  const interpretation =
+    describeSignificance(isSignificant, confidenceLevel, 'among measures ') +
+    describeEffect(kendallsW, [0.1, 0.3, 0.5]);
+
+  return {
+    chiSquare: Number(chiSquare.toFixed(4)),
+    degreesOfFreedom: df,
+    pValue,
+    isSignificant,
+    confidenceLevel,
+    kendallsW: Number(kendallsW.toFixed(4)),
+    blocks: n,
+    measures: measures.map((measure, j) => ({
+      n,
+      median: median(measure),
+      meanRank: Number((rankSums[j] / n).toFixed(2)),
+    })),
+    interpretation,
+  };
+}
+
+/**
+ * Choose between parametric and rank-based tests
+ * Parametric tests assume roughly normal values in every group (for paired
+ * data, pass the differences as the one group).
+ */
+export function recommendTestFamily(groups: number[][]): TestRecommendation {
+  const normality = groups.map((group) => testNormality(group));
+
+  const tooSmall = normality.findIndex((result) => result.sampleSize < 3);
+  if (tooSmall !== -1) {
+    return {
+      family: 'nonparametric',
+      normality,
+      reason: 'Some groups are too small to check for normality, so a rank-based test is safer.',
+    };
+  }
+
+  const nonNormal = normality.filter((result) => !result.isNormal).length;
+  if (nonNormal > 0) {
+    return {
+      family: 'nonparametric',
+      normality,
+      reason: `${nonNormal} of ${groups.length} ${groups.length === 1 ? 'distribution deviates' : 'distributions deviate'} from normal (skewness or excess kurtosis beyond ±2).`,
+    };
+  }
+
+  return {
+    family: 'parametric',
+    normality,
+    reason: 'All distributions are approximately normal, so comparing means is appropriate.',
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Question history
+ * The form builder records the question list after every edit so it can be
+ * undone. Undoing or redoing moves between two recorded lists; this works out
+ * which server actions turn one into the other.
+ */
+
+import type { Question, QuestionType, QuestionUpdate } from '@/lib/types/question.types';
+
+// Fields edited through updateQuestion (order and section go through reorderQuestions)
+const EDITABLE_QUESTION_FIELDS = [
+  'title',
+  'description',
+  'required',
+  'options',
+  'logic_rules',
+  'advanced_logic_rules',
+] as const;
+
+export interface QuestionListChanges {
+  added: Question[]; // Restore these (with their ids)
+  removed: string[]; // Delete these
+  updated: Array<{ id: string; updates: QuestionUpdate }>;
+  retyped: Array<{ id: string; type: QuestionType }>; // Changed through bulkUpdateQuestions
+  // The full new order, when it or any question's section changed
+  order: string[] | null;
+  sectionAssignments: Record<string, string | null>;
+}
+
+/**
+ * Changes that turn the `from` question list into the `to` list
+ */
+export function diffQuestionLists(from: Question[], to: Question[]): QuestionListChanges {
+  const fromById = new Map(from.map((q) => [q.id, q]));
+  const toIds = new Set(to.map((q) => q.id));
+
+  const added = to.filter((q) => !fromById.has(q.id));
+  const removed = from.filter((q) => !toIds.has(q.id)).map((q) => q.id);
+
+  const updated: QuestionListChanges['updated'] = [];
+  const retyped: QuestionListChanges['retyped'] = [];
+  const sectionAssignments: Record<string, string | null> = {};
+
+  for (const question of to) {
+    const previous = fromById.get(question.id);
+    if (!previous) continue;
+
+    const updates: Record<string, unknown> = {};
+    for (const field of EDITABLE_QUESTION_FIELDS) {
+      if (JSON.stringify(question[field] ?? null) !== JSON.stringify(previous[field] ?? null)) {
+        // The update schema takes an empty description rather than null
+        updates[field] = field === 'description' ? question.description ?? '' : question[field];
+      }
+    }
+    if (question.type !== previous.type) {
+      retyped.push({ id: question.id, type: question.type });
+    }
+    if (Object.keys(updates).length > 0) {
+      updated.push({ id: question.id, updates: updates as QuestionUpdate });
+    }
+
+    if ((question.section_id ?? null) !== (previous.section_id ?? null)) {
+      sectionAssignments[question.id] = question.section_id ?? null;
+    }
+  }
+
+  const keptOrder = from.filter((q) => toIds.has(q.id)).map((q) => q.id);
+  const newOrder = to.filter((q) => fromById.has(q.id)).map((q) => q.id);
+  const orderChanged =
+    added.length > 0 ||
+    removed.length > 0 ||
+    keptOrder.some((id, index) => id !== newOrder[index]) ||
+    Object.keys(sectionAssignments).length > 0;
+
+  return {
+    added,
+    removed,
+    updated,
+    retyped,
+    order: orderChanged ? to.map((q) => q.id) : null,
+    sectionAssignments,
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * Regression fits against R on the mtcars data (Henderson & Velleman 1981):
+ * lm(mpg ~ wt), lm(mpg ~ wt + hp), glm(am ~ wt, binomial) and
+ * glm(vs ~ mpg, binomial), plus a subset of it that wt separates completely
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { logisticRegression, multipleLinearRegression, simpleLinearRegression } from './regression-analysis';
+
+function assertClose(actual: number, expected: number, tolerance: number) {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${expected} ± ${tolerance}, got ${actual}`
+  );
+}
+
+const MPG = [
+  21.0, 21.0, 22.8, 21.4, 18.7, 18.1, 14.3, 24.4, 22.8, 19.2, 17.8, 16.4, 17.3, 15.2, 10.4, 10.4,
+  14.7, 32.4, 30.4, 33.9, 21.5, 15.5, 15.2, 13.3, 19.2, 27.3, 26.0, 30.4, 15.8, 19.7, 15.0, 21.4,
+];
+const WT = [
+  2.62, 2.875, 2.32, 3.215, 3.44, 3.46, 3.57, 3.19, 3.15, 3.44, 3.44, 4.07, 3.73, 3.78, 5.25, 5.424,
+  5.345, 2.2, 1.615, 1.835, 2.465, 3.52, 3.435, 3.84, 3.845, 1.935, 2.14, 1.513, 3.17, 2.77, 3.57, 2.78,
+];
+const HP = [
+  110, 110, 93, 110, 175, 105, 245, 62, 95, 123, 123, 180, 180, 180, 205, 215,
+  230, 66, 52, 65, 97, 150, 150, 245, 175, 66, 91, 113, 264, 175, 335, 109,
+];
+const AM = [1, 1, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 0, 0, 0, 0, 0, 1, 1, 1, 1, 1, 1, 1];
+const VS = [0, 0, 1, 1, 0, 1, 0, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 0, 0, 0, 0, 1, 0, 1, 0, 0, 0, 1];
+
+const column = (values: number[]) => values.map((value) => [value]);
+
+describe('simpleLinearRegression', () => {
+  it('matches lm(mpg ~ wt)', () => {
+    const result = simpleLinearRegression(WT, MPG);
+    assertClose(result.intercept, 37.2851, 1e-4);
+    assertClose(result.slope, -5.3445, 1e-4);
+    assertClose(result.rSquared, 0.7528, 1e-4);
+    assertClose(result.standardError, 3.0459, 1e-4);
+    assertClose(result.slopeStandardError, 0.5591, 1e-4);
+    assertClose(result.pValue, 1.294e-10, 1e-12);
+  });
+});
+
+describe('multipleLinearRegression', () => {
+  const result = multipleLinearRegression(WT.map((wt, i) => [wt, HP[i]]), MPG, ['wt', 'hp']);
+
+  it('matches the coefficients of lm(mpg ~ wt + hp)', () => {
+    const expected = [
+      ['Intercept', 37.22727, 1.59879, 23.285],
+      ['wt', -3.87783, 0.63273, -6.129],
+      ['hp', -0.03177, 0.00903, -3.519],
+    ] as const;
+
+    expected.forEach(([term, estimate, standardError, t], j) => {
+      const coefficient = result.coefficients[j];
+      assert.equal(coefficient.term, term);
+      assertClose(coefficient.estimate, estimate, 1e-5);
+      assertClose(coefficient.standardError, standardError, 1e-5);
+      assertClose(coefficient.statistic, t, 1e-3);
+    });
+    assertClose(result.coefficients[1].pValue, 1.12e-6, 1e-8);
+    assertClose(result.coefficients[2].pValue, 0.00145, 1e-5);
+  });
+
+  it('matches R², F and the residual standard error', () => {
+    assert.equal(result.dfModel, 2);
+    assert.equal(result.dfResidual, 29);
+    assertClose(result.rSquared, 0.8268, 1e-4);
+    assertClose(result.adjustedRSquared, 0.8148, 1e-4);
+    assertClose(result.fStatistic, 69.21, 1e-2);
+    assertClose(result.fPValue, 9.109e-12, 1e-14);
+    assertClose(result.standardError, 2.593, 1e-3);
+  });
+
+  it('reports the VIF of each predictor (car::vif)', () => {
+    assert.equal(result.coefficients[0].vif, null);
+    assertClose(result.coefficients[1].vif!, 1.766625, 1e-6);
+    assertClose(result.coefficients[2].vif!, 1.766625, 1e-6);
+  });
+
+  it('rejects perfectly collinear predictors', () => {
+    assert.throws(
+      () => multipleLinearRegression(WT.map((wt) => [wt, 2 * wt]), MPG, ['wt', 'wt2']),
+      /perfectly collinear/
+    );
+  });
+});
+
+describe('logisticRegression', () => {
+  it('matches glm(am ~ wt, family = binomial)', () => {
+    const result = logisticRegression(column(WT), AM, ['wt']);
+    const [intercept, wt] = result.coefficients;
+
+    assertClose(intercept.estimate, 12.040, 1e-3);
+    assertClose(intercept.standardError, 4.510, 1e-3);
+    assertClose(intercept.pValue, 0.00759, 1e-5);
+    assertClose(wt.estimate, -4.024, 1e-3);
+    assertClose(wt.standardError, 1.437, 1e-3);
+    assertClose(wt.statistic, -2.801, 1e-3);
+    assertClose(wt.pValue, 0.00509, 1e-5);
+    assertClose(wt.oddsRatio, Math.exp(-4.02397), 1e-5);
+
+    // Residual and null deviance
+    assertClose(-2 * result.logLikelihood, 19.176, 1e-3);
+    assertClose(-2 * result.nullLogLikelihood, 43.230, 1e-3);
+    assertClose(result.chiSquare, 24.054, 1e-3);
+    assert.equal(result.converged, true);
+    assert.equal(result.separation, false);
+    assert.deepEqual(
+      [result.classification.truePositive, result.classification.falsePositive, result.classification.trueNegative],
+      [11, 1, 18]
+    );
+  });
+
+  it('matches glm(vs ~ mpg, family = binomial)', () => {
+    const result = logisticRegression(column(MPG), VS, ['mpg']);
+    assertClose(result.coefficients[0].estimate, -8.8331, 1e-4);
+    assertClose(result.coefficients[0].standardError, 3.1623, 1e-4);
+    assertClose(result.coefficients[1].estimate, 0.4304, 1e-4);
+    assertClose(result.coefficients[1].standardError, 0.1584, 1e-4);
+    assertClose(-2 * result.logLikelihood, 25.533, 1e-3);
+    assertClose(-2 * result.nullLogLikelihood, 43.860, 1e-3);
+  });
+
+  it('reports complete separation instead of failing', () => {
+    // The three lightest of the first ten cars are the manual ones
+    const result = logisticRegression(column(WT.slice(0, 10)), AM.slice(0, 10), ['wt']);
+
+    assert.equal(result.separation, true);
+    assert.equal(result.converged, false);
+    assert.ok(result.coefficients[1].estimate < -10, `wt = ${result.coefficients[1].estimate}`);
+    assert.ok(result.logLikelihood > -0.1);
+    assert.equal(result.classification.accuracy, 1);
+    assert.match(result.interpretation, /separate the outcomes/);
+  });
+
+  it('still rejects perfectly collinear predictors', () => {
+    assert.throws(
+      () => logisticRegression(WT.map((wt) => [wt, 2 * wt]), AM, ['wt', 'wt2']),
+      /perfectly collinear/
+    );
+  });
+});
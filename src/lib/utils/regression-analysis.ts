@@ -1,8 +1,19 @@
 /**
  * Regression analysis utilities
- * Simple linear regression and related statistics
+ * Simple linear regression, multiple linear regression (OLS) and binary
+ * logistic regression (IRLS)
  */
 
+import {
+  chiSquarePValue,
+  fPValue,
+  normalCDF,
+  normalInverse,
+  studentTCritical,
+  studentTPValue,
+} from '@/lib/stats/distributions';
+import { crossProduct, invert, multiplyVector } from '@/lib/stats/linear-algebra';
+
 export interface RegressionResult {
   slope: number;            // β1 coefficient
   intercept: number;        // β0 coefficient
@@ -11,6 +22,8 @@ export interface RegressionResult {
   correlation: number;      // Pearson correlation coefficient
   equation: string;         // Regression equation
   standardError: number;    // Standard error of estimate
+  slopeStandardError: number; // Standard error of the slope
+  pValue: number;           // Two-tailed p-value for H0: slope = 0
   n: number;                // Sample size
   predictions: Array<{
     x: number;
@@ -53,6 +66,8 @@ export function simpleLinearRegression(
       correlation: 0,
       equation: 'y = 0',
       standardError: 0,
+      slopeStandardError: 0,
+      pValue: 1,
       n,
       predictions: [],
       residuals: { values: [], mean: 0, standardDeviation: 0 },
@@ -84,6 +99,8 @@ export function simpleLinearRegression(
       correlation: 0,
       equation: `y = ${meanY.toFixed(2)}`,
       standardError: 0,
+      slopeStandardError: 0,
+      pValue: 1,
       n,
       predictions: [],
       residuals: { values: [], mean: 0, standardDeviation: 0 },
@@ -126,6 +143,13 @@ export function simpleLinearRegression(
     ? Math.sqrt(ssResidual / (n - 2))
     : 0;
 
+  // Significance of the slope (t-test with n - 2 degrees of freedom)
+  const sxx = sumX2 - n * meanX * meanX;
+  const slopeStandardError = sxx > 0 ? standardError / Math.sqrt(sxx) : 0;
+  const pValue = slopeStandardError > 0
+    ? studentTPValue(slope / slopeStandardError, n - 2)
+    : (slope !== 0 ? 0 : 1);
+
   // Residual statistics
   const residualMean = residualValues.reduce((sum, val) => sum + val, 0) / n;
   const residualVariance = residualValues.reduce((sum, val) => sum + Math.pow(val - residualMean, 2), 0) / n;
@@ -150,7 +174,10 @@ export function simpleLinearRegression(
     interpretation = 'Very weak or no linear relationship. ';
   }
 
-  interpretation += `${(rSquared * 100).toFixed(1)}% of variance explained.`;
+  interpretation += `${(rSquared * 100).toFixed(1)}% of variance explained. `;
+  interpretation += pValue < 0.05
+    ? 'The slope is statistically significant (p < 0.05).'
+    : 'The slope is not statistically significant (p ≥ 0.05).';
 
   return {
     slope: Number(slope.toFixed(4)),
@@ -160,6 +187,8 @@ export function simpleLinearRegression(
     correlation: Number(correlation.toFixed(4)),
     equation,
     standardError: Number(standardError.toFixed(4)),
+    slopeStandardError: Number(slopeStandardError.toFixed(4)),
+    pValue,
     n,
     predictions,
     residuals: {
@@ -193,9 +222,9 @@ export function predictionInterval(
 } {
   const predicted = predict(x, regression);
 
-  // Simplified prediction interval
-  // For exact intervals, would need t-distribution
-  const margin = 1.96 * regression.standardError; // Approximate 95% CI
+  // Simplified prediction interval (ignores the distance of x from the mean of x)
+  const tValue = regression.n > 2 ? studentTCritical(confidenceLevel, regression.n - 2) : 1.96;
+  const margin = tValue * regression.standardError;
 
   return {
     predicted,
@@ -255,3 +284,406 @@ export function getCoefficientOfVariation(regression: RegressionResult): number
 
   return Number(((regression.standardError / meanY) * 100).toFixed(2));
 }
+
+// ============================================================================
+// Multiple regression
+// ============================================================================
+
+export interface RegressionCoefficient {
+  term: string;             // 'Intercept' or the predictor name
+  estimate: number;         // β (log-odds for logistic regression)
+  standardError: number;
+  statistic: number;        // t (linear) or Wald z (logistic)
+  pValue: number;
+  lowerCI: number;
+  upperCI: number;
+  isSignificant: boolean;
+}
+
+export interface MultipleRegressionResult {
+  coefficients: Array<RegressionCoefficient & {
+    vif: number | null;     // Variance inflation factor (null for the intercept)
+  }>;
+  n: number;
+  dfModel: number;
+  dfResidual: number;
+  rSquared: number;
+  adjustedRSquared: number;
+  standardError: number;    // Residual standard error
+  fStatistic: number;
+  fPValue: number;
+  isSignificant: boolean;
+  predictions: Array<{
+    observed: number;
+    predicted: number;
+    residual: number;
+  }>;
+  interpretation: string;
+}
+
+export interface ClassificationTable {
+  cutoff: number;
+  truePositive: number;
+  falsePositive: number;
+  trueNegative: number;
+  falseNegative: number;
+  accuracy: number;
+  sensitivity: number;      // Share of events predicted as events
+  specificity: number;      // Share of non-events predicted as non-events
+}
+
+export interface LogisticRegressionResult {
+  coefficients: Array<RegressionCoefficient & {
+    oddsRatio: number;
+    oddsRatioLower: number;
+    oddsRatioUpper: number;
+  }>;
+  n: number;
+  events: number;           // Observations with outcome 1
+  logLikelihood: number;
+  nullLogLikelihood: number;
+  chiSquare: number;        // Likelihood-ratio test against the intercept-only model
+  degreesOfFreedom: number;
+  pValue: number;
+  isSignificant: boolean;
+  mcFaddenR2: number;
+  coxSnellR2: number;
+  nagelkerkeR2: number;
+  classification: ClassificationTable;
+  iterations: number;
+  converged: boolean;
+  separation: boolean;      // Coefficients diverging, usually (quasi-)complete separation
+  interpretation: string;
+}
+
+const IRLS_MAX_ITERATIONS = 50;
+const IRLS_TOLERANCE = 1e-8;
+const PROBABILITY_FLOOR = 1e-10; // Fitted probabilities this close to 0 or 1 signal separation
+
+const COLLINEAR_ERROR =
+  'The predictors are perfectly collinear (one is a combination of the others). Remove a predictor or merge categories.';
+
+function withIntercept(predictors: number[][]): number[][] {
+  return predictors.map((row) => [1, ...row]);
+}
+
+function checkDimensions(predictors: number[][], y: number[], names: string[]) {
+  if (predictors.length !== y.length) {
+    throw new Error('predictors and y must have the same length');
+  }
+  if (predictors.some((row) => row.length !== names.length)) {
+    throw new Error('Every row of predictors needs one value per predictor name');
+  }
+}
+
+/**
+ * Least-squares coefficients, or null when X'X is singular
+ */
+function leastSquares(x: number[][], y: number[]): { beta: number[]; inverse: number[][] } | null {
+  const inverse = invert(crossProduct(x));
+  if (!inverse) return null;
+
+  const xty = x[0].map((_, j) => x.reduce((sum, row, i) => sum + row[j] * y[i], 0));
+  return { beta: multiplyVector(inverse, xty), inverse };
+}
+
+function rSquaredOf(x: number[][], y: number[]): number | null {
+  const fit = leastSquares(x, y);
+  if (!fit) return null;
+
+  const mean = y.reduce((sum, value) => sum + value, 0) / y.length;
+  const fitted = multiplyVector(x, fit.beta);
+  const ssTotal = y.reduce((sum, value) => sum + (value - mean) ** 2, 0);
+  const ssResidual = y.reduce((sum, value, i) => sum + (value - fitted[i]) ** 2, 0);
+  return ssTotal > 0 ? 1 - ssResidual / ssTotal : null;
+}
+
+/**
+ * Variance inflation factor of each predictor: 1 / (1 - R²) of that predictor
+ * regressed on all the others
+ */
+function varianceInflationFactors(predictors: number[][]): number[] {
+  const k = predictors[0]?.length ?? 0;
+  if (k < 2) return new Array<number>(k).fill(1);
+
+  return Array.from({ length: k }, (_, j) => {
+    const others = withIntercept(predictors.map((row) => row.filter((_, index) => index !== j)));
+    const r2 = rSquaredOf(others, predictors.map((row) => row[j]));
+    if (r2 === null) return Infinity;
+    return r2 >= 1 ? Infinity : 1 / (1 - r2);
+  });
+}
+
+/**
+ * Multiple linear regression by ordinary least squares
+ * Fits y = β0 + β1·x1 + … + βk·xk. Categorical predictors should already be
+ * dummy-coded into 0/1 columns.
+ *
+ * @param predictors - One row per observation, one column per predictor (no intercept column)
+ * @param y - Outcome values
+ * @param names - Predictor names, in column order
+ * @param confidenceLevel - Confidence level for coefficient intervals
+ * @throws When the predictors are perfectly collinear or there are too few observations
+ */
+export function multipleLinearRegression(
+  predictors: number[][],
+  y: number[],
+  names: string[],
+  confidenceLevel: number = 0.95
+): MultipleRegressionResult {
+  checkDimensions(predictors, y, names);
+
+  const n = y.length;
+  const k = names.length;
+  const dfResidual = n - k - 1;
+  if (dfResidual < 1) {
+    throw new Error(`Need at least ${k + 2} complete responses for ${k} predictor${k === 1 ? '' : 's'}`);
+  }
+
+  const x = withIntercept(predictors);
+  const fit = leastSquares(x, y);
+  if (!fit) throw new Error(COLLINEAR_ERROR);
+
+  const fitted = multiplyVector(x, fit.beta);
+  const meanY = y.reduce((sum, value) => sum + value, 0) / n;
+  const ssTotal = y.reduce((sum, value) => sum + (value - meanY) ** 2, 0);
+  const ssResidual = y.reduce((sum, value, i) => sum + (value - fitted[i]) ** 2, 0);
+  const ssModel = Math.max(0, ssTotal - ssResidual);
+
+  const rSquared = ssTotal > 0 ? ssModel / ssTotal : 0;
+  const adjustedRSquared = 1 - ((1 - rSquared) * (n - 1)) / dfResidual;
+  const meanSquareResidual = ssResidual / dfResidual;
+  const standardError = Math.sqrt(meanSquareResidual);
+
+  const fStatistic = k > 0 && meanSquareResidual > 0 ? ssModel / k / meanSquareResidual : 0;
+  const modelPValue = k > 0 ? (meanSquareResidual > 0 ? fPValue(fStatistic, k, dfResidual) : 0) : 1;
+
+  const alpha = 1 - confidenceLevel;
+  const tCritical = studentTCritical(confidenceLevel, dfResidual);
+  const vifs = varianceInflationFactors(predictors);
+
+  const coefficients = fit.beta.map((estimate, j) => {
+    const se = Math.sqrt(Math.max(0, meanSquareResidual * fit.inverse[j][j]));
+    const t = se > 0 ? estimate / se : 0;
+    const pValue = se > 0 ? studentTPValue(t, dfResidual) : (estimate !== 0 ? 0 : 1);
+    return {
+      term: j === 0 ? 'Intercept' : names[j - 1],
+      estimate,
+      standardError: se,
+      statistic: t,
+      pValue,
+      lowerCI: estimate - tCritical * se,
+      upperCI: estimate + tCritical * se,
+      isSignificant: pValue < alpha,
+      vif: j === 0 ? null : vifs[j - 1],
+    };
+  });
+
+  const significantCount = coefficients.slice(1).filter((c) => c.isSignificant).length;
+  let interpretation = `The model explains ${(rSquared * 100).toFixed(1)}% of the variance `;
+  interpretation += `(adjusted R² = ${adjustedRSquared.toFixed(3)}). `;
+  interpretation += modelPValue < alpha
+    ? `The predictors jointly predict the outcome (F(${k}, ${dfResidual}) = ${fStatistic.toFixed(2)}, p < ${Number(alpha.toFixed(4))}); `
+    : `The predictors do not jointly predict the outcome (p ≥ ${Number(alpha.toFixed(4))}); `;
+  interpretation += `${significantCount} of ${k} predictor${k === 1 ? ' is' : 's are'} individually significant.`;
+  if (vifs.some((vif) => vif > 10)) {
+    interpretation += ' Some predictors are strongly collinear (VIF > 10), so their individual estimates are unstable.';
+  }
+
+  return {
+    coefficients,
+    n,
+    dfModel: k,
+    dfResidual,
+    rSquared,
+    adjustedRSquared,
+    standardError,
+    fStatistic,
+    fPValue: modelPValue,
+    isSignificant: modelPValue < alpha,
+    predictions: y.map((observed, i) => ({
+      observed,
+      predicted: fitted[i],
+      residual: observed - fitted[i],
+    })),
+    interpretation,
+  };
+}
+
+function logLikelihoodOf(y: number[], probabilities: number[]): number {
+  return y.reduce(
+    (sum, value, i) => sum + (value === 1 ? Math.log(probabilities[i]) : Math.log(1 - probabilities[i])),
+    0
+  );
+}
+
+/**
+ * Binary logistic regression by iteratively reweighted least squares
+ * Models log(p / (1 - p)) = β0 + β1·x1 + … + βk·xk for the probability p
+ * that the outcome is 1.
+ *
+ * @param predictors - One row per observation, one column per predictor (no intercept column)
+ * @param y - Outcome values, each 0 or 1
+ * @param names - Predictor names, in column order
+ * @param confidenceLevel - Confidence level for coefficient and odds-ratio intervals
+ * @param cutoff - Predicted probability at or above which an observation is classified as 1
+ * @throws When the outcome doesn't vary, the predictors are perfectly collinear
+ *   or there are too few observations
+ */
+export function logisticRegression(
+  predictors: number[][],
+  y: number[],
+  names: string[],
+  confidenceLevel: number = 0.95,
+  cutoff: number = 0.5
+): LogisticRegressionResult {
+  checkDimensions(predictors, y, names);
+  if (y.some((value) => value !== 0 && value !== 1)) {
+    throw new Error('Logistic regression needs an outcome coded 0 or 1');
+  }
+
+  const n = y.length;
+  const k = names.length;
+  const events = y.filter((value) => value === 1).length;
+  if (events === 0 || events === n) {
+    throw new Error('The outcome needs both outcomes to be present to fit a logistic regression');
+  }
+  if (n < k + 2) {
+    throw new Error(`Need at least ${k + 2} complete responses for ${k} predictor${k === 1 ? '' : 's'}`);
+  }
+
+  const x = withIntercept(predictors);
+  if (!invert(crossProduct(x))) throw new Error(COLLINEAR_ERROR);
+
+  const clamp = (p: number) => Math.min(1 - PROBABILITY_FLOOR, Math.max(PROBABILITY_FLOOR, p));
+  const probabilitiesFor = (coefficients: number[]) =>
+    multiplyVector(x, coefficients).map((eta) => clamp(1 / (1 + Math.exp(-eta))));
+  const isCollapsed = (p: number) => p <= PROBABILITY_FLOOR || p >= 1 - PROBABILITY_FLOOR;
+
+  let beta = new Array<number>(k + 1).fill(0);
+  let inverse: number[][] | null = null;
+  let iterations = 0;
+  let converged = false;
+  let diverged = false;
+
+  while (iterations < IRLS_MAX_ITERATIONS) {
+    const probabilities = probabilitiesFor(beta);
+
+    // Under separation the estimates run off to infinity: fitted probabilities
+    // reach 0 or 1 and their weights vanish, so stop at the last estimates
+    if (probabilities.some(isCollapsed)) {
+      diverged = true;
+      break;
+    }
+    const nextInverse = invert(crossProduct(x, probabilities.map((p) => p * (1 - p))));
+    if (!nextInverse) {
+      diverged = true;
+      break;
+    }
+    inverse = nextInverse;
+    iterations++;
+
+    // Newton step: β += (X'WX)⁻¹ X'(y - p)
+    const score = x[0].map((_, j) => x.reduce((sum, row, i) => sum + row[j] * (y[i] - probabilities[i]), 0));
+    const step = multiplyVector(inverse, score);
+    beta = beta.map((value, j) => value + step[j]);
+
+    if (step.every((delta, j) => Math.abs(delta) <= IRLS_TOLERANCE * (1 + Math.abs(beta[j])))) {
+      converged = true;
+      break;
+    }
+  }
+
+  // Covariance at the final estimates, or at the last ones it could be computed for
+  const probabilities = probabilitiesFor(beta);
+  inverse = invert(crossProduct(x, probabilities.map((p) => p * (1 - p)))) ?? inverse;
+  if (!inverse) throw new Error(COLLINEAR_ERROR);
+
+  const logLikelihood = logLikelihoodOf(y, probabilities);
+  const baseRate = events / n;
+  const nullLogLikelihood = events * Math.log(baseRate) + (n - events) * Math.log(1 - baseRate);
+  const chiSquare = Math.max(0, 2 * (logLikelihood - nullLogLikelihood));
+  const modelPValue = k > 0 ? chiSquarePValue(chiSquare, k) : 1;
+
+  const mcFaddenR2 = 1 - logLikelihood / nullLogLikelihood;
+  const coxSnellR2 = 1 - Math.exp((2 * (nullLogLikelihood - logLikelihood)) / n);
+  const nagelkerkeR2 = coxSnellR2 / (1 - Math.exp((2 * nullLogLikelihood) / n));
+
+  const alpha = 1 - confidenceLevel;
+  const zCritical = normalInverse(1 - alpha / 2);
+  const coefficients = beta.map((estimate, j) => {
+    const se = Math.sqrt(Math.max(0, (inverse as number[][])[j][j]));
+    const z = se > 0 ? estimate / se : 0;
+    const pValue = se > 0 ? 2 * (1 - normalCDF(Math.abs(z))) : 1;
+    const lowerCI = estimate - zCritical * se;
+    const upperCI = estimate + zCritical * se;
+    return {
+      term: j === 0 ? 'Intercept' : names[j - 1],
+      estimate,
+      standardError: se,
+      statistic: z,
+      pValue,
+      lowerCI,
+      upperCI,
+      isSignificant: pValue < alpha,
+      oddsRatio: Math.exp(estimate),
+      oddsRatioLower: Math.exp(lowerCI),
+      oddsRatioUpper: Math.exp(upperCI),
+    };
+  });
+
+  const classification: ClassificationTable = {
+    cutoff,
+    truePositive: 0,
+    falsePositive: 0,
+    trueNegative: 0,
+    falseNegative: 0,
+    accuracy: 0,
+    sensitivity: 0,
+    specificity: 0,
+  };
+  probabilities.forEach((p, i) => {
+    const predicted = p >= cutoff;
+    if (y[i] === 1) {
+      if (predicted) classification.truePositive++;
+      else classification.falseNegative++;
+    } else if (predicted) {
+      classification.falsePositive++;
+    } else {
+      classification.trueNegative++;
+    }
+  });
+  classification.accuracy = (classification.truePositive + classification.trueNegative) / n;
+  classification.sensitivity = classification.truePositive / events;
+  classification.specificity = classification.trueNegative / (n - events);
+
+  const separation = diverged || !converged || probabilities.some(isCollapsed);
+
+  let interpretation = modelPValue < alpha
+    ? `The model predicts the outcome better than chance (χ²(${k}) = ${chiSquare.toFixed(2)}, p < ${Number(alpha.toFixed(4))}). `
+    : `The model does not predict the outcome better than chance (p ≥ ${Number(alpha.toFixed(4))}). `;
+  interpretation += `Nagelkerke R² = ${nagelkerkeR2.toFixed(3)}; ${(classification.accuracy * 100).toFixed(1)}% of responses are classified correctly.`;
+  if (separation) {
+    interpretation += ' Some predictors separate the outcomes (almost) perfectly, so their odds ratios and p-values are unreliable.';
+  }
+
+  return {
+    coefficients,
+    n,
+    events,
+    logLikelihood,
+    nullLogLikelihood,
+    chiSquare,
+    degreesOfFreedom: k,
+    pValue: modelPValue,
+    isSignificant: modelPValue < alpha,
+    mcFaddenR2,
+    coxSnellR2,
+    nagelkerkeR2,
+    classification,
+    iterations,
+    converged,
+    separation,
+    interpretation,
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * Server-side response exports
+ * Builds CSV/XLSX/JSON/PDF files from response data for the export worker
+ */
+
+import { renderToBuffer } from '@react-pdf/renderer';
+import type { Question } from '@/lib/types/question.types';
+import type { Answer } from '@/lib/types/response.types';
+import type { ExportJob } from '@/lib/jobs/queue';
+import { ResponsesPDF } from '@/lib/pdf/responses-pdf';
+import { buildResponsesCSV } from './csv-export';
+import { buildResponsesWorkbook } from './excel-export';
+import { formatAnswerValue, sanitizeFilename } from './answer-format';
+import type { MappedResponseData, ResponseFilters } from './response-query';
+
+export type ExportFormat = ExportJob['format'];
+
+export interface ExportArtifact {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
+/**
+ * Human-readable description of export filters (for file headers and emails)
+ */
+export function describeResponseFilters(filters: ResponseFilters = {}): string {
+  const parts: string[] = [];
+
+  if (filters.completeness && filters.completeness !== 'all') {
+    parts.push(filters.completeness === 'complete' ? 'complete only' : 'incomplete only');
+  }
+  if (filters.flagged && filters.flagged !== 'all') {
+    parts.push(filters.flagged === 'flagged' ? 'flagged only' : 'unflagged only');
+  }
+  if (filters.deleted === 'include') parts.push('including deleted');
+  if (filters.deleted === 'only') parts.push('deleted only');
+  if (filters.startDate) parts.push(`from ${filters.startDate.slice(0, 10)}`);
+  if (filters.endDate) parts.push(`until ${filters.endDate.slice(0, 10)}`);
+
+  return parts.length > 0 ? parts.join(', ') : 'all responses';
+}
+
+function getStatus(response: MappedResponseData): string {
+  if (response.deleted_at) return 'Deleted';
+  return response.is_complete ? 'Complete' : 'Incomplete';
+}
+
+function buildJSON(
+  form: { id: string; title: string },
+  questions: Question[],
+  responses: MappedResponseData[],
+  filters: ResponseFilters
+): string {
+  return JSON.stringify(
+    {
+      form: { id: form.id, title: form.title },
+      exportedAt: new Date().toISOString(),
+      filters,
+      questions: questions.map((q) => ({ id: q.id, title: q.title, type: q.type })),
+      responses: responses.map((response) => ({
+        id: response.id,
+        respondent_email: response.respondent_email,
+        is_complete: response.is_complete,
+        is_flagged: response.is_flagged ?? false,
+        deleted_at: response.deleted_at ?? null,
+        started_at: response.started_at,
+        submitted_at: response.submitted_at,
+        answers: Object.fromEntries(response.answers.map((a) => [a.question_id, a.value])),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+async function buildPDF(
+  formTitle: string,
+  questions: Question[],
+  responses: MappedResponseData[],
+  filters: ResponseFilters
+): Promise<Buffer> {
+  const document = ResponsesPDF({
+    formTitle,
+    filterSummary: describeResponseFilters(filters),
+    generatedAt: new Date(),
+    responses: responses.map((response) => ({
+      id: response.id,
+      respondent: response.respondent_email || 'Anonymous',
+      status: getStatus(response),
+      submittedAt: response.submitted_at,
+      answers: questions.map((question) => {
+        const answer = response.answers.find((a) => a.question_id === question.id);
+        return {
+          question: question.title,
+          answer: answer ? formatAnswerValue(answer.value, question) : '',
+        };
+      }),
+    })),
+  });
+
+  return renderToBuffer(document);
+}
+
+/**
+ * Build an export file for a form's responses
+ */
+export async function buildResponseExport(
+  format: ExportFormat,
+  form: { id: string; title: string },
+  questions: Question[],
+  responses: MappedResponseData[],
+  filters: ResponseFilters = {}
+): Promise<ExportArtifact> {
+  const date = new Date().toISOString().split('T')[0];
+  const fileName = `${sanitizeFilename(form.title)}_responses_${date}.${format}`;
+  let content: Buffer;
+
+  switch (format) {
+    case 'csv':
+      // BOM so spreadsheet apps detect UTF-8
+      content = Buffer.from(`\uFEFF${buildResponsesCSV(questions, responses)}`, 'utf8');
+      break;
+    case 'json':
+      content = Buffer.from(buildJSON(form, questions, responses, filters), 'utf8');
+      break;
+    case 'xlsx': {
+      // Summary sheets count answers of complete responses per question
+      const answersByQuestion: Record<string, Answer[]> = {};
+      responses
+        .filter((response) => response.is_complete)
+        .forEach((response) => {
+          response.answers.forEach((answer) => {
+            (answersByQuestion[answer.question_id] ??= []).push(answer);
+          });
+        });
+
+      const workbook = await buildResponsesWorkbook(form.title, questions, responses, answersByQuestion);
+      content = Buffer.from(workbook as ArrayBuffer);
+      break;
+    }
+    case 'pdf':
+      content = await buildPDF(form.title, questions, responses, filters);
+      break;
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+
+  return { fileName, contentType: CONTENT_TYPES[format], content };
+}
@@ -0,0 +1,255 @@
+/**
+ * Response queries shared by the responses pages and the export worker
+ * Takes the Supabase client as a parameter so it works both with a user
+ * session and with the service-role client in background jobs
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Answer } from '@/lib/types/response.types';
+
+const PAGE_SIZE = 500;
+
+export interface ResponseData {
+  id: string;
+  form_id: string;
+  respondent_email: string | null;
+  is_complete: boolean;
+  form_version_id?: string | null;
+  is_flagged?: boolean;
+  deleted_at?: string | null;
+  started_at: string;
+  submitted_at: string | null;
+  created_at: string;
+  updated_at: string;
+  answers: Array<{
+    id: string;
+    response_id: string;
+    question_id: string;
+    value_json: unknown;
+    created_at: string;
+    updated_at: string;
+  }>;
+}
+
+export type MappedResponseData = Omit<ResponseData, 'answers'> & {
+  answers: Array<Answer & { value: unknown }>;
+};
+
+export interface ResponseFilters {
+  startDate?: string; // ISO date/time, compared with submitted_at
+  endDate?: string;
+  completeness?: 'all' | 'complete' | 'incomplete';
+  flagged?: 'all' | 'flagged' | 'unflagged';
+  deleted?: 'include' | 'exclude' | 'only'; // Soft-deleted responses
+}
+
+// Helper to map value_json to value for backward compatibility
+export function mapAnswerData(answer: Answer): Answer & { value: unknown } {
+  return {
+    ...answer,
+    value: answer.value_json,
+  };
+}
+
+export function mapResponseData(response: ResponseData): MappedResponseData {
+  return {
+    ...response,
+    answers: response.answers.map(mapAnswerData),
+  };
+}
+
+/**
+ * Translate filters into PostgREST conditions (column, operator, value)
+ */
+function getFilterConditions(filters: ResponseFilters): Array<[string, string, unknown]> {
+  const conditions: Array<[string, string, unknown]> = [];
+
+  if (filters.completeness === 'complete') conditions.push(['is_complete', 'eq', true]);
+  if (filters.completeness === 'incomplete') conditions.push(['is_complete', 'eq', false]);
+
+  if (filters.flagged === 'flagged') conditions.push(['is_flagged', 'eq', true]);
+  if (filters.flagged === 'unflagged') conditions.push(['is_flagged', 'eq', false]);
+
+  if (filters.deleted === 'exclude') conditions.push(['deleted_at', 'is', null]);
+  if (filters.deleted === 'only') conditions.push(['deleted_at', 'not.is', null]);
+
+  if (filters.startDate) conditions.push(['submitted_at', 'gte', filters.startDate]);
+  if (filters.endDate) conditions.push(['submitted_at', 'lte', filters.endDate]);
+
+  return conditions;
+}
+
+/**
+ * Count the responses of a form matching the filters
+ */
+export async function countFormResponses(
+  supabase: SupabaseClient,
+  formId: string,
+  filters: ResponseFilters = {}
+): Promise<number> {
+  let query = supabase
+    .from('responses')
+    .select('id', { count: 'exact', head: true })
+    .eq('form_id', formId);
+
+  for (const [column, operator, value] of getFilterConditions(filters)) {
+    query = query.filter(column, operator, value);
+  }
+
+  const { count, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to count responses: ${error.message}`);
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Fetch the responses of a form with their answers, newest first
+ * Reads in pages so large forms are not truncated by the API row limit
+ */
+export async function fetchFormResponses(
+  supabase: SupabaseClient,
+  formId: string,
+  filters: ResponseFilters = {},
+  onPage?: (loaded: number) => void | Promise<void>
+): Promise<MappedResponseData[]> {
+  const responses: MappedResponseData[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('responses')
+      .select(`
+        *,
+        answers (
+          id,
+          response_id,
+          question_id,
+          value_json,
+          created_at,
+          updated_at
+        )
+      `)
+      .eq('form_id', formId);
+
+    for (const [column, operator, value] of getFilterConditions(filters)) {
+      query = query.filter(column, operator, value);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch responses: ${error.message}`);
+    }
+
+    const page = (data ?? []) as unknown as ResponseData[];
+    responses.push(...page.map(mapResponseData));
+    await onPage?.(responses.length);
+
+    if (page.length < PAGE_SIZE) break;
+  }
+
+  return responses;
+}
+
+/**
+ * The cursor is not a response of the form being paged
+ */
+export class InvalidCursorError extends Error {
+  constructor(cursor: string) {
+    super(`Invalid cursor: ${cursor}`);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+export interface PaginatedResponsesOptions {
+  limit?: number;
+  cursor?: string; // Response ID to start after
+  sortBy?: 'created_at' | 'submitted_at';
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface PaginatedResponseRow {
+  id: string;
+  respondent_email: string | null;
+  is_complete: boolean;
+  submitted_at: string | null;
+  created_at: string;
+  is_flagged: boolean | null;
+}
+
+/**
+ * Fetch one page of a form's responses, keyset-paginated on (sort column, id)
+ * Responses without a value in the sort column (unsubmitted ones, when sorting
+ * by submitted_at) come last in either direction.
+ */
+export async function fetchPaginatedResponses(
+  supabase: SupabaseClient,
+  formId: string,
+  options: PaginatedResponsesOptions = {}
+): Promise<{ data: PaginatedResponseRow[]; nextCursor: string | null; hasMore: boolean }> {
+  const limit = options.limit || 20;
+  const sortBy = options.sortBy || 'created_at';
+  const sortOrder = options.sortOrder || 'desc';
+  const operator = sortOrder === 'asc' ? 'gt' : 'lt';
+
+  let query = supabase
+    .from('responses')
+    .select(`
+      id,
+      respondent_email,
+      is_complete,
+      submitted_at,
+      created_at,
+      is_flagged
+    `)
+    .eq('form_id', formId)
+    .order(sortBy, { ascending: sortOrder === 'asc', nullsFirst: false })
+    .order('id', { ascending: sortOrder === 'asc' })
+    .limit(limit + 1); // Fetch one extra to determine if there are more
+
+  // Apply cursor if provided
+  if (options.cursor) {
+    const { data: cursorRow, error: cursorError } = await supabase
+      .from('responses')
+      .select(`id, ${sortBy}`)
+      .eq('id', options.cursor)
+      .eq('form_id', formId)
+      .maybeSingle();
+
+    if (cursorError) {
+      throw new Error(`Failed to resolve cursor: ${cursorError.message}`);
+    }
+
+    if (!cursorRow) {
+      throw new InvalidCursorError(options.cursor);
+    }
+
+    const cursorValue = (cursorRow as Record<string, string | null>)[sortBy];
+    query = cursorValue === null
+      ? query.is(sortBy, null).filter('id', operator, options.cursor)
+      : query.or(
+          `${sortBy}.${operator}.${JSON.stringify(cursorValue)},` +
+            `and(${sortBy}.eq.${JSON.stringify(cursorValue)},id.${operator}.${options.cursor}),` +
+            `${sortBy}.is.null`
+        );
+  }
+
+  const { data: responses, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch responses: ${error.message}`);
+  }
+
+  const rows = (responses ?? []) as PaginatedResponseRow[];
+
+  // Check if there are more results
+  const hasMore = rows.length > limit;
+  const data = rows.slice(0, limit);
+
+  return { data, nextCursor: hasMore ? data[data.length - 1].id : null, hasMore };
+}
@@ -0,0 +1,163 @@
+/**
+ * Reliability coefficients against values worked out from their definitions
+ * with exact fractions (α = 205/282 for the Likert items below), and omega
+ * against correlation matrices whose one-factor loadings are known in closed
+ * form: λ as constructed, or λ₁² = r₁₂·r₁₃ / r₂₃ for three items
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  analyzeReliability,
+  correlationMatrix,
+  cronbachAlpha,
+  mcDonaldOmega,
+  oneFactorLoadings,
+} from './scale-reliability';
+
+function assertClose(actual: number, expected: number, tolerance: number) {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `expected ${expected} ± ${tolerance}, got ${actual}`
+  );
+}
+
+// Eight respondents on four 1-5 items; the fourth runs against the others
+const LIKERT = [
+  [4, 5, 3, 2, 4, 1, 3, 5],
+  [3, 5, 4, 2, 5, 2, 3, 4],
+  [4, 4, 3, 1, 4, 2, 2, 5],
+  [2, 3, 2, 3, 1, 2, 4, 3],
+];
+const LABELS = ['Q1', 'Q2', 'Q3', 'Q4'];
+
+describe('cronbachAlpha', () => {
+  it('matches k / (k - 1) · (1 - Σ item variances / total variance)', () => {
+    assertClose(cronbachAlpha(LIKERT), 205 / 282, 1e-12);
+    assertClose(cronbachAlpha(LIKERT.slice(0, 3)), 0.92578125, 1e-12);
+  });
+
+  it('is 1 for items that differ only by a constant', () => {
+    assertClose(cronbachAlpha([[1, 2, 3, 4], [2, 3, 4, 5], [3, 4, 5, 6]]), 1, 1e-12);
+  });
+
+  it('is undefined for fewer than two items or a constant total', () => {
+    assert.ok(Number.isNaN(cronbachAlpha([[1, 2, 3]])));
+    assert.ok(Number.isNaN(cronbachAlpha([[1, 2, 3], [3, 2, 1]])));
+  });
+});
+
+describe('oneFactorLoadings and mcDonaldOmega', () => {
+  it('recovers the loadings of an exact one-factor correlation matrix', () => {
+    const loadings = [0.8, 0.7, 0.6, 0.5];
+    const correlations = loadings.map((a, i) => loadings.map((b, j) => (i === j ? 1 : a * b)));
+
+    const fitted = oneFactorLoadings(correlations);
+    assert.ok(fitted);
+    fitted.forEach((loading, i) => assertClose(loading, loadings[i], 1e-5));
+    // (Σλ)² / ((Σλ)² + Σ(1 - λ²)) = 6.76 / 9.02
+    assertClose(mcDonaldOmega(fitted), 6.76 / 9.02, 1e-5);
+  });
+
+  it('fits three items exactly', () => {
+    const [[, r12, r13], [, , r23]] = correlationMatrix(LIKERT.slice(0, 3));
+    const expected = [Math.sqrt((r12 * r13) / r23), Math.sqrt((r12 * r23) / r13), Math.sqrt((r13 * r23) / r12)];
+
+    const fitted = oneFactorLoadings(correlationMatrix(LIKERT.slice(0, 3)));
+    assert.ok(fitted);
+    fitted.forEach((loading, i) => assertClose(loading, expected[i], 1e-5));
+  });
+
+  it('points the factor the way most items load', () => {
+    const correlations = [
+      [1, -0.48, -0.4],
+      [-0.48, 1, 0.3],
+      [-0.4, 0.3, 1],
+    ];
+    const fitted = oneFactorLoadings(correlations);
+    assert.ok(fitted);
+    assert.ok(fitted[0] < 0 && fitted[1] > 0 && fitted[2] > 0, String(fitted));
+  });
+
+  it('keeps Heywood cases below a loading of 1', () => {
+    // λ₁² = 0.8 · 0.8 / 0.3 > 1
+    const fitted = oneFactorLoadings([
+      [1, 0.8, 0.8],
+      [0.8, 1, 0.3],
+      [0.8, 0.3, 1],
+    ]);
+    assert.ok(fitted);
+    assert.ok(fitted.every((loading) => Math.abs(loading) < 1), String(fitted));
+    assert.ok(mcDonaldOmega(fitted) < 1);
+  });
+
+  it('returns null for a singular correlation matrix', () => {
+    assert.equal(oneFactorLoadings(correlationMatrix([[1, 2, 3, 4], [2, 4, 6, 8], [1, 3, 2, 4]])), null);
+  });
+});
+
+describe('analyzeReliability', () => {
+  const result = analyzeReliability(LIKERT, LABELS);
+
+  it('reports alpha, standardized alpha and the mean inter-item correlation', () => {
+    assert.equal(result.itemCount, 4);
+    assert.equal(result.n, 8);
+    assertClose(result.cronbachAlpha, 205 / 282, 1e-12);
+    assertClose(result.meanInterItemCorrelation, 0.3229237, 1e-7);
+    assertClose(result.standardizedAlpha, 0.6560919, 1e-7);
+  });
+
+  it('reports item means, SDs, corrected item-total correlations and alpha if deleted', () => {
+    const expected = [
+      [3.375, 1.4078860, 0.9560346, 0.3254237],
+      [3.5, 1.1952286, 0.7016464, 0.5552885],
+      [3.125, 1.3562027, 0.7252162, 0.5231608],
+      [2.5, 0.9258201, -0.1666667, 0.92578125],
+    ];
+
+    result.items.forEach((item, i) => {
+      const [mean, sd, itemTotal, alphaIfDeleted] = expected[i];
+      assert.equal(item.label, LABELS[i]);
+      assertClose(item.mean, mean, 1e-7);
+      assertClose(item.standardDeviation, sd, 1e-7);
+      assertClose(item.correctedItemTotal, itemTotal, 1e-7);
+      assertClose(item.alphaIfDeleted!, alphaIfDeleted, 1e-7);
+    });
+  });
+
+  it('points out the item that runs against the scale', () => {
+    assert.match(result.interpretation, /^Internal consistency is acceptable \(α = 0\.73, ω = \d\.\d\d\)\./);
+    assert.match(result.interpretation, /"Q4" runs against the rest of the scale/);
+    assert.match(result.interpretation, /Removing "Q4" would raise alpha/);
+  });
+
+  it('leaves alpha if deleted out for two-item scales', () => {
+    const pair = analyzeReliability(LIKERT.slice(0, 2), LABELS.slice(0, 2));
+    assert.deepEqual(pair.items.map((item) => item.alphaIfDeleted), [null, null]);
+  });
+
+  it('treats a zero-variance item as uncorrelated with the others', () => {
+    const zeroVariance = analyzeReliability([[1, 2, 3, 4, 5], [2, 1, 4, 3, 5], [3, 3, 3, 3, 3]], ['a', 'b', 'c']);
+
+    // Item variances 2.5 + 2.5 + 0 against a total variance of 7.5
+    assertClose(zeroVariance.cronbachAlpha, 2 / 3, 1e-12);
+    assert.equal(zeroVariance.items[2].standardDeviation, 0);
+    assert.equal(zeroVariance.items[2].correctedItemTotal, 0);
+    assertClose(zeroVariance.items[2].loading, 0, 1e-6);
+    // Loadings √0.8, √0.8 and 0
+    assertClose(zeroVariance.mcDonaldOmega!, 3.2 / 4.6, 1e-6);
+    assert.match(zeroVariance.interpretation, /1 item correlates weakly/);
+  });
+
+  it('explains that alpha is undefined when every item is constant', () => {
+    const constant = analyzeReliability([[3, 3, 3], [2, 2, 2]], ['a', 'b']);
+    assert.ok(Number.isNaN(constant.cronbachAlpha));
+    assert.match(constant.interpretation, /^Internal consistency could not be computed/);
+  });
+
+  it('needs at least two items and three respondents', () => {
+    assert.throws(() => analyzeReliability([[1, 2, 3, 4]], ['a']), /at least 2 items/);
+    assert.throws(() => analyzeReliability([], []), /at least 2 items/);
+    assert.throws(() => analyzeReliability([[1, 2], [2, 1]], ['a', 'b']), /at least 3 respondents/);
+  });
+});
@@ -0,0 +1,380 @@
+/**
+ * Scale reliability
+ * Cronbach's alpha, McDonald's omega and item statistics for items meant to
+ * measure one thing, and the scores of saved scales as computed variables
+ * that analytics and exports treat like slider questions.
+ */
+
+import { invert, symmetricEigen } from '@/lib/stats/linear-algebra';
+import { asTypedQuestion } from '@/lib/utils/question-type-guards';
+import {
+  getNumericVariables,
+  groupResponseAnswers,
+  lastAnsweredAt,
+  readCompleteCases,
+  readVariable,
+  toComputedAnswers,
+  type NumericVariable,
+} from '@/lib/utils/analysis-variables';
+import type { FormScale } from '@/lib/types/form.types';
+import type { Question, TypedQuestion } from '@/lib/types/question.types';
+import type { Answer, AnswerValue } from '@/lib/types/response.types';
+
+export interface ItemStatistics {
+  label: string;
+  mean: number;
+  standardDeviation: number;
+  correctedItemTotal: number;     // Correlation with the sum of the other items
+  alphaIfDeleted: number | null;  // null for two-item scales
+  loading: number;                // Standardized loading on the common factor
+}
+
+export interface ReliabilityResult {
+  cronbachAlpha: number;
+  standardizedAlpha: number;      // Alpha from the correlations (items on equal footing)
+  mcDonaldOmega: number | null;   // null when the one-factor model can't be fitted
+  meanInterItemCorrelation: number;
+  itemCount: number;
+  n: number;                      // Respondents who answered every item
+  items: ItemStatistics[];
+  interpretation: string;
+}
+
+export interface ScaleItem {
+  variable: NumericVariable;
+  reverse: boolean;
+}
+
+const MAX_FACTOR_ITERATIONS = 200;
+const MAX_COMMUNALITY = 0.995; // Keeps Heywood cases (communality ≥ 1) out of omega
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function variance(values: number[]): number {
+  const m = mean(values);
+  return values.reduce((sum, value) => sum + (value - m) ** 2, 0) / (values.length - 1);
+}
+
+function correlation(x: number[], y: number[]): number {
+  const meanX = mean(x);
+  const meanY = mean(y);
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+
+  for (let i = 0; i < x.length; i++) {
+    covariance += (x[i] - meanX) * (y[i] - meanY);
+    varianceX += (x[i] - meanX) ** 2;
+    varianceY += (y[i] - meanY) ** 2;
+  }
+
+  return varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : 0;
+}
+
+/**
+ * Pearson correlation matrix of several variables (one array of values per variable)
+ */
+export function correlationMatrix(columns: number[][]): number[][] {
+  return columns.map((x, i) => columns.map((y, j) => (i === j ? 1 : correlation(x, y))));
+}
+
+/**
+ * Cronbach's alpha: k / (k - 1) · (1 - Σ item variances / variance of the total)
+ *
+ * @param items - One array of values per item, all from the same respondents
+ */
+export function cronbachAlpha(items: number[][]): number {
+  const k = items.length;
+  if (k < 2 || items[0].length < 2) return NaN;
+
+  const totals = items[0].map((_, i) => items.reduce((sum, item) => sum + item[i], 0));
+  const totalVariance = variance(totals);
+  if (totalVariance === 0) return NaN;
+
+  const itemVariance = items.reduce((sum, item) => sum + variance(item), 0);
+  return (k / (k - 1)) * (1 - itemVariance / totalVariance);
+}
+
+/**
+ * Loadings of a single common factor (iterated principal axis factoring,
+ * starting from squared multiple correlations)
+ *
+ * @returns Loadings, or null when the correlation matrix is singular
+ */
+export function oneFactorLoadings(correlations: number[][]): number[] | null {
+  const inverse = invert(correlations);
+  if (!inverse) return null;
+
+  let communalities = inverse.map((row, i) => Math.min(MAX_COMMUNALITY, Math.max(0, 1 - 1 / row[i])));
+  let loadings: number[] = [];
+
+  for (let iteration = 0; iteration < MAX_FACTOR_ITERATIONS; iteration++) {
+    const reduced = correlations.map((row, i) => row.map((value, j) => (i === j ? communalities[i] : value)));
+    const { values, vectors } = symmetricEigen(reduced);
+    if (values[0] <= 0) return null;
+
+    loadings = vectors[0].map((value) => value * Math.sqrt(values[0]));
+    const next = loadings.map((loading) => Math.min(MAX_COMMUNALITY, loading * loading));
+    const change = Math.max(...next.map((value, i) => Math.abs(value - communalities[i])));
+    communalities = next;
+    if (change < 1e-6) break;
+  }
+
+  // The eigenvector's sign is arbitrary; make the factor point the way most items do.
+  // A Heywood case can still leave a loading above 1, so cap it like the communalities
+  const direction = loadings.reduce((sum, loading) => sum + loading, 0) < 0 ? -1 : 1;
+  const maxLoading = Math.sqrt(MAX_COMMUNALITY);
+  return loadings.map((loading) => Math.max(-maxLoading, Math.min(maxLoading, loading * direction)));
+}
+
+/**
+ * McDonald's omega (total) from one-factor loadings:
+ * (Σλ)² / ((Σλ)² + Σ(1 - λ²))
+ */
+export function mcDonaldOmega(loadings: number[]): number {
+  const common = loadings.reduce((sum, loading) => sum + loading, 0) ** 2;
+  const unique = loadings.reduce((sum, loading) => sum + (1 - loading * loading), 0);
+  return common / (common + unique);
+}
+
+function describeReliability(coefficient: number): string {
+  if (coefficient >= 0.9) return 'excellent';
+  if (coefficient >= 0.8) return 'good';
+  if (coefficient >= 0.7) return 'acceptable';
+  if (coefficient >= 0.6) return 'questionable';
+  if (coefficient >= 0.5) return 'poor';
+  return 'unacceptable';
+}
+
+/**
+ * Reliability of a set of items answered by the same respondents
+ *
+ * @param items - One array of values per item (reverse-coded items already reversed)
+ * @param labels - Item labels, in the same order
+ */
+export function analyzeReliability(items: number[][], labels: string[]): ReliabilityResult {
+  const k = items.length;
+  const n = items[0]?.length ?? 0;
+  if (k < 2 || n < 3) {
+    throw new Error('Reliability needs at least 2 items answered by at least 3 respondents');
+  }
+
+  const alpha = cronbachAlpha(items);
+  const correlations = correlationMatrix(items);
+  let correlationSum = 0;
+  for (let i = 0; i < k; i++) {
+    for (let j = i + 1; j < k; j++) correlationSum += correlations[i][j];
+  }
+  const meanInterItemCorrelation = correlationSum / ((k * (k - 1)) / 2);
+  const standardizedAlpha = (k * meanInterItemCorrelation) / (1 + (k - 1) * meanInterItemCorrelation);
+
+  const loadings = oneFactorLoadings(correlations);
+  const omega = loadings ? mcDonaldOmega(loadings) : null;
+
+  const totals = items[0].map((_, i) => items.reduce((sum, item) => sum + item[i], 0));
+  const itemStatistics = items.map((item, index) => ({
+    label: labels[index],
+    mean: mean(item),
+    standardDeviation: Math.sqrt(variance(item)),
+    correctedItemTotal: correlation(item, totals.map((total, i) => total - item[i])),
+    alphaIfDeleted: k > 2 ? cronbachAlpha(items.filter((_, j) => j !== index)) : null,
+    loading: loadings ? loadings[index] : NaN,
+  }));
+
+  let interpretation = Number.isFinite(alpha)
+    ? `Internal consistency is ${describeReliability(alpha)} (α = ${alpha.toFixed(2)}`
+    : 'Internal consistency could not be computed because the total score does not vary';
+  if (Number.isFinite(alpha)) {
+    interpretation += omega !== null ? `, ω = ${omega.toFixed(2)}). ` : '). ';
+  } else {
+    interpretation += '. ';
+  }
+
+  const negative = itemStatistics.filter((item) => item.correctedItemTotal < 0);
+  const weak = itemStatistics.filter((item) => item.correctedItemTotal >= 0 && item.correctedItemTotal < 0.3);
+  const improving = itemStatistics.filter(
+    (item) => item.alphaIfDeleted !== null && item.alphaIfDeleted > alpha + 0.01
+  );
+  if (negative.length > 0) {
+    interpretation += `${negative.map((item) => `"${item.label}"`).join(', ')} run${negative.length === 1 ? 's' : ''} against the rest of the scale; check whether ${negative.length === 1 ? 'it needs' : 'they need'} reverse coding. `;
+  }
+  if (weak.length > 0) {
+    interpretation += `${weak.length} item${weak.length === 1 ? ' correlates' : 's correlate'} weakly (below 0.30) with the rest of the scale. `;
+  }
+  if (improving.length > 0) {
+    interpretation += `Removing ${improving.map((item) => `"${item.label}"`).join(' or ')} would raise alpha.`;
+  }
+
+  return {
+    cronbachAlpha: alpha,
+    standardizedAlpha,
+    mcDonaldOmega: omega,
+    meanInterItemCorrelation,
+    itemCount: k,
+    n,
+    items: itemStatistics,
+    interpretation: interpretation.trim(),
+  };
+}
+
+// ============================================================================
+// Scale scores as computed variables
+// ============================================================================
+
+/**
+ * Id of the computed question that holds a scale's scores
+ */
+export function scaleQuestionId(scale: Pick<FormScale, 'id'>): string {
+  return `scale:${scale.id}`;
+}
+
+/**
+ * The scale's items that still exist in the form
+ */
+export function resolveScaleItems(
+  scale: Pick<FormScale, 'items'>,
+  variables: NumericVariable[]
+): ScaleItem[] {
+  return scale.items.flatMap((item) => {
+    const variable = variables.find((v) => v.id === item.variable_id);
+    return variable ? [{ variable, reverse: item.reverse }] : [];
+  });
+}
+
+/**
+ * Item values from the respondents who answered every item, with
+ * reverse-coded items flipped (max + min - answer)
+ */
+export function readScaleItems(
+  items: ScaleItem[],
+  answersByQuestion: Record<string, Answer[]>
+): number[][] {
+  return readCompleteCases(
+    items.map((item) => item.variable),
+    answersByQuestion
+  ).map((values, index) => {
+    const { variable, reverse } = items[index];
+    return reverse ? values.map((value) => variable.max + variable.min - value) : values;
+  });
+}
+
+/**
+ * Each respondent's scale score (mean or sum of the items). Respondents who
+ * skipped an item get no score.
+ */
+export function computeScaleScores(
+  scale: Pick<FormScale, 'items' | 'scoring'>,
+  variables: NumericVariable[],
+  answersByQuestion: Record<string, Answer[]>
+): Map<string, number> {
+  const items = resolveScaleItems(scale, variables);
+  const scores = new Map<string, number>();
+  if (items.length === 0) return scores;
+
+  const columns = items.map((item) => readVariable(item.variable, answersByQuestion));
+  columns[0].forEach((_, responseId) => {
+    if (!columns.every((column) => column.has(responseId))) return;
+
+    const total = items.reduce((sum, { variable, reverse }, index) => {
+      const value = columns[index].get(responseId) as number;
+      return sum + (reverse ? variable.max + variable.min - value : value);
+    }, 0);
+    const score = scale.scoring === 'mean' ? total / items.length : total;
+    scores.set(responseId, Number(score.toFixed(4)));
+  });
+
+  return scores;
+}
+
+/**
+ * A slider question standing in for a scale, so the score can be analysed
+ * and exported like any numeric question
+ */
+export function toScaleQuestion(scale: FormScale, variables: NumericVariable[], orderIndex: number): TypedQuestion {
+  const items = resolveScaleItems(scale, variables);
+  const divisor = scale.scoring === 'mean' ? Math.max(items.length, 1) : 1;
+
+  return {
+    id: scaleQuestionId(scale),
+    form_id: scale.form_id,
+    type: 'slider',
+    title: scale.name,
+    description: `Scale score (${scale.scoring} of ${items.length} items)`,
+    required: false,
+    order_index: orderIndex,
+    section_id: null,
+    options: {
+      min: items.reduce((sum, item) => sum + item.variable.min, 0) / divisor,
+      max: items.reduce((sum, item) => sum + item.variable.max, 0) / divisor,
+    },
+    created_at: scale.created_at,
+    updated_at: scale.updated_at,
+  };
+}
+
+/**
+ * Scales whose items are all in the form (a deleted question, or a version
+ * with different ids, leaves a scale that can't be scored)
+ */
+export function getScorableScales(scales: FormScale[], variables: NumericVariable[]): FormScale[] {
+  return scales.filter((scale) => resolveScaleItems(scale, variables).length === scale.items.length);
+}
+
+/**
+ * Questions and answers with each scale added as a computed slider question
+ */
+export function withScaleScores(
+  questions: TypedQuestion[],
+  answersByQuestion: Record<string, Answer[]>,
+  scales: FormScale[]
+): { questions: TypedQuestion[]; answersByQuestion: Record<string, Answer[]> } {
+  const variables = getNumericVariables(questions);
+  const scorable = getScorableScales(scales, variables);
+  if (scorable.length === 0) return { questions, answersByQuestion };
+
+  const withScales = { ...answersByQuestion };
+  const scaleQuestions = scorable.map((scale, index) => {
+    withScales[scaleQuestionId(scale)] = toComputedAnswers(
+      scaleQuestionId(scale),
+      computeScaleScores(scale, variables, answersByQuestion),
+      scale.updated_at,
+      lastAnsweredAt(scale.items.map((item) => item.variable_id), answersByQuestion)
+    );
+    return toScaleQuestion(scale, variables, questions.length + index);
+  });
+
+  return { questions: [...questions, ...scaleQuestions], answersByQuestion: withScales };
+}
+
+/**
+ * Responses for export with a column per scale appended
+ */
+export function appendScaleScores<R extends { id: string; answers: Array<{ question_id: string; value: unknown }> }>(
+  questions: Question[],
+  responses: R[],
+  scales: FormScale[]
+): { questions: Question[]; responses: R[] } {
+  const variables = getNumericVariables(questions.map(asTypedQuestion));
+  const scorable = getScorableScales(scales, variables);
+  if (scorable.length === 0) return { questions, responses };
+
+  const answersByQuestion = groupResponseAnswers(responses);
+  const scaleAnswers = new Map<string, Array<Answer & { value: AnswerValue }>>();
+  const scaleQuestions = scorable.map((scale, index) => {
+    const scores = computeScaleScores(scale, variables, answersByQuestion);
+    toComputedAnswers(scaleQuestionId(scale), scores, scale.updated_at).forEach((answer) => {
+      scaleAnswers.set(answer.response_id, [...(scaleAnswers.get(answer.response_id) || []), answer]);
+    });
+    return toScaleQuestion(scale, variables, questions.length + index) as Question;
+  });
+
+  return {
+    questions: [...questions, ...scaleQuestions],
+    responses: responses.map((response) => {
+      const added = scaleAnswers.get(response.id);
+      return added ? ({ ...response, answers: [...response.answers, ...added] } as R) : response;
+    }),
+  };
+}
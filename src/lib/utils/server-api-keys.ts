@@ -0,0 +1,42 @@
+/**
+ * API key generation and hashing
+ * Keys are 32 random bytes, so a plain SHA-256 is enough to store them: there
+ * is nothing to brute-force that a slow hash would protect.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+
+const API_KEY_PREFIX = 'statq_';
+// Characters kept in key_prefix for display, including API_KEY_PREFIX
+const DISPLAY_PREFIX_LENGTH = 14;
+
+/**
+ * Create a new key; only its hash and display prefix are stored
+ */
+export function generateApiKey(): { plaintextKey: string; keyHash: string; keyPrefix: string } {
+  const plaintextKey = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+  return {
+    plaintextKey,
+    keyHash: hashApiKey(plaintextKey),
+    keyPrefix: plaintextKey.slice(0, DISPLAY_PREFIX_LENGTH),
+  };
+}
+
+export function hashApiKey(plaintextKey: string): string {
+  return createHash('sha256').update(plaintextKey).digest('hex');
+}
+
+/**
+ * The key in an `Authorization: Bearer <key>` header, if it looks like one of ours
+ */
+export function getBearerApiKey(request: Request): string | null {
+  const header = request.headers.get('authorization');
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+
+  if (!match || !match[1].startsWith(API_KEY_PREFIX)) {
+    return null;
+  }
+
+  return match[1];
+}
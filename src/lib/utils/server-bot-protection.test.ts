@@ -0,0 +1,62 @@
+/**
+ * Proof-of-work verification, including checks sent back altered or with
+ * fields of the wrong type
+ */
+
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { solveBotChallenge } from './bot-protection';
+import { createBotChallenge, getBotFlagReason, verifyBotProof } from './server-bot-protection';
+import type { BotCheck } from '@/lib/types/response.types';
+
+const RESPONSE_ID = 'response-1';
+
+describe('verifyBotProof', () => {
+  let check: Required<Pick<BotCheck, 'challenge' | 'nonce'>>;
+
+  before(async () => {
+    process.env.BOT_PROTECTION_SECRET = 'test-secret';
+    const challenge = createBotChallenge(RESPONSE_ID);
+    check = { challenge, nonce: await solveBotChallenge(challenge) };
+  });
+
+  it('accepts a solved challenge for its own response', () => {
+    assert.equal(verifyBotProof(RESPONSE_ID, check), true);
+  });
+
+  it('rejects a proof for another response, a wrong nonce or a missing check', () => {
+    assert.equal(verifyBotProof('response-2', check), false);
+    assert.equal(verifyBotProof(RESPONSE_ID, { ...check, nonce: check.nonce + 1 }), false);
+    assert.equal(verifyBotProof(RESPONSE_ID, undefined), false);
+  });
+
+  it('rejects a challenge whose difficulty was lowered', () => {
+    const [responseId, , issuedAt, random] = check.challenge.challenge.split('.');
+    const easier = { ...check.challenge, challenge: [responseId, 1, issuedAt, random].join('.'), difficulty: 1 };
+    assert.equal(verifyBotProof(RESPONSE_ID, { challenge: easier, nonce: 0 }), false);
+  });
+
+  it('returns false instead of throwing for tampered field types', () => {
+    const tampered = [
+      { ...check, challenge: { ...check.challenge, challenge: 42 } },
+      { ...check, challenge: { ...check.challenge, challenge: { toString: null } } },
+      { ...check, challenge: { ...check.challenge, signature: ['a'] } },
+      { ...check, challenge: { ...check.challenge, signature: 'short' } },
+      { ...check, challenge: { ...check.challenge, signature: 'é'.repeat(64) } },
+      { ...check, challenge: 'not an object' },
+      { ...check, nonce: '7' },
+    ] as unknown as BotCheck[];
+
+    tampered.forEach((input) => assert.equal(verifyBotProof(RESPONSE_ID, input), false));
+  });
+
+  it('flags a tampered submission rather than failing it', () => {
+    const reason = getBotFlagReason({
+      responseId: RESPONSE_ID,
+      check: { ...check, challenge: { ...check.challenge, signature: 7 } } as unknown as BotCheck,
+      startedAt: null,
+      minCompletionSeconds: 0,
+    });
+    assert.equal(reason, 'Possible bot: missing or invalid proof of work');
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Bot protection challenges and checks
+ * Challenges are stateless: `${responseId}.${difficulty}.${issuedAt}.${random}`
+ * signed with HMAC-SHA256, so verifying one needs no storage and a proof only
+ * counts for the response it was issued to.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { countLeadingZeroBits, getProofInput } from './bot-protection';
+import type { BotChallenge, BotCheck } from '@/lib/types/response.types';
+
+// ~65k hashes on average; long enough to cost a bot, short enough to go unnoticed
+export const BOT_CHALLENGE_DIFFICULTY = 16;
+
+// Respondents may leave a form open for a long time before submitting
+const CHALLENGE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+let processSecret: string | null = null;
+
+function getChallengeSecret(): string {
+  const secret = process.env.BOT_PROTECTION_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (secret) {
+    return secret;
+  }
+
+  // Challenges then only verify on the instance that issued them
+  if (!processSecret) {
+    console.warn('[Bot Protection] BOT_PROTECTION_SECRET is not set; using a per-process secret');
+    processSecret = randomBytes(32).toString('hex');
+  }
+  return processSecret;
+}
+
+function signChallenge(challenge: string): string {
+  return createHmac('sha256', getChallengeSecret()).update(challenge).digest('hex');
+}
+
+function isValidSignature(challenge: string, signature: string): boolean {
+  const expected = Buffer.from(signChallenge(challenge));
+  const received = Buffer.from(signature);
+  try {
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Issue a proof-of-work challenge for a response
+ */
+export function createBotChallenge(
+  responseId: string,
+  difficulty: number = BOT_CHALLENGE_DIFFICULTY
+): BotChallenge {
+  const challenge = [responseId, difficulty, Date.now(), randomBytes(8).toString('hex')].join('.');
+  return { challenge, difficulty, signature: signChallenge(challenge) };
+}
+
+/**
+ * Check a solved challenge was issued by us for this response, is not
+ * expired and the nonce meets its difficulty
+ */
+export function verifyBotProof(responseId: string, check: BotCheck | undefined): boolean {
+  const { challenge, nonce } = check ?? {};
+  if (!challenge || typeof nonce !== 'number' || !Number.isSafeInteger(nonce) || nonce < 0) {
+    return false;
+  }
+
+  // The check arrives as a server action argument, so its fields can be anything
+  if (typeof challenge.challenge !== 'string' || typeof challenge.signature !== 'string') {
+    return false;
+  }
+
+  if (!isValidSignature(challenge.challenge, challenge.signature)) {
+    return false;
+  }
+
+  const [challengeResponseId, difficulty, issuedAt] = challenge.challenge.split('.');
+  if (
+    challengeResponseId !== responseId ||
+    Number(difficulty) < BOT_CHALLENGE_DIFFICULTY ||
+    Date.now() - Number(issuedAt) > CHALLENGE_TTL_MS
+  ) {
+    return false;
+  }
+
+  const digest = createHash('sha256').update(getProofInput(challenge.challenge, nonce)).digest();
+  return countLeadingZeroBits(digest) >= Number(difficulty);
+}
+
+/**
+ * Why a submission looks automated, or null when it passes every check.
+ * The reason is stored as the response's flag_reason.
+ */
+export function getBotFlagReason(options: {
+  responseId: string;
+  check: BotCheck | undefined;
+  startedAt: string | null;
+  minCompletionSeconds: number;
+  submittedAt?: Date;
+}): string | null {
+  const { responseId, check, startedAt, minCompletionSeconds, submittedAt = new Date() } = options;
+  const signals: string[] = [];
+
+  if (check?.honeypot) {
+    signals.push('hidden honeypot field was filled in');
+  }
+
+  if (startedAt) {
+    const elapsedSeconds = (submittedAt.getTime() - new Date(startedAt).getTime()) / 1000;
+    if (elapsedSeconds < minCompletionSeconds) {
+      signals.push(
+        `completed in ${Math.max(0, Math.round(elapsedSeconds))}s (minimum ${minCompletionSeconds}s)`
+      );
+    }
+  }
+
+  if (!verifyBotProof(responseId, check)) {
+    signals.push('missing or invalid proof of work');
+  }
+
+  return signals.length > 0 ? `Possible bot: ${signals.join('; ')}` : null;
+}
@@ -0,0 +1,210 @@
+/**
+ * Word document reader (server-only)
+ * Unzips a .docx and turns word/document.xml into the paragraphs and tables
+ * the questionnaire importer works on. Only the parts of WordprocessingML the
+ * importer needs are read: text, list numbering, paragraph styles and tables.
+ */
+
+import { inflateRawSync } from 'zlib';
+import type { DocxBlock, DocxParagraph } from '@/lib/utils/docx-import';
+
+// Word documents are small; anything bigger is not a questionnaire (or is a zip bomb)
+const MAX_ENTRY_SIZE = 20 * 1024 * 1024;
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+/**
+ * Read one file out of a zip archive (stored or deflated entries)
+ */
+function readZipEntry(zip: Buffer, entryName: string): Buffer | null {
+  // End of central directory record: at least 22 bytes, followed by an optional comment
+  let eocd = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (zip.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Not a zip archive');
+  }
+
+  const entryCount = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (zip.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt zip central directory');
+    }
+
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const size = zip.readUInt32LE(offset + 24);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (name === entryName) {
+      if (size > MAX_ENTRY_SIZE) {
+        throw new Error('Document is too large');
+      }
+      if (zip.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+        throw new Error('Corrupt zip entry');
+      }
+
+      const dataStart =
+        localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+      const data = zip.subarray(dataStart, dataStart + compressedSize);
+
+      if (method === 0) return data;
+      if (method === 8) return inflateRawSync(data, { maxOutputLength: MAX_ENTRY_SIZE });
+      throw new Error(`Unsupported zip compression method ${method}`);
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return null;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case 'amp':
+        return '&';
+      case 'lt':
+        return '<';
+      case 'gt':
+        return '>';
+      case 'quot':
+        return '"';
+      case 'apos':
+        return "'";
+      default:
+        return String.fromCodePoint(
+          code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+        );
+    }
+  });
+}
+
+function attribute(attributes: string, name: string): string | null {
+  const match = attributes.match(new RegExp(`w:${name}="([^"]*)"`));
+  return match ? match[1] : null;
+}
+
+// Elements the reader reacts to; everything else is skipped over
+const TAG_PATTERN =
+  /<(\/?)w:(p|tbl|tr|tc|t|tab|br|cr|sym|checkBox|pStyle|numId|ilvl)\b([^>]*?)(\/?)>/g;
+
+/**
+ * Turn word/document.xml into top-level paragraphs and tables
+ * Paragraphs inside table cells become the cell's text; nested tables are
+ * flattened into the cell that holds them.
+ */
+export function parseDocumentXml(xml: string): DocxBlock[] {
+  const blocks: DocxBlock[] = [];
+
+  let paragraph: DocxParagraph | null = null;
+  let tableDepth = 0;
+  let rows: string[][] = [];
+  let row: string[] | null = null;
+  let cellParagraphs: string[] | null = null;
+
+  TAG_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = TAG_PATTERN.exec(xml)) !== null) {
+    const [, closing, tag, attributes, selfClosing] = match;
+
+    if (closing) {
+      if (tag === 'p' && paragraph) {
+        paragraph.text = paragraph.text.replace(/[ \t ]+/g, ' ').trim();
+        if (tableDepth > 0) {
+          cellParagraphs?.push(paragraph.text);
+        } else {
+          blocks.push(paragraph);
+        }
+        paragraph = null;
+      } else if (tag === 'tc' && tableDepth === 1 && row && cellParagraphs) {
+        row.push(cellParagraphs.filter(Boolean).join('\n'));
+        cellParagraphs = null;
+      } else if (tag === 'tr' && tableDepth === 1 && row) {
+        rows.push(row);
+        row = null;
+      } else if (tag === 'tbl') {
+        tableDepth--;
+        if (tableDepth === 0) {
+          blocks.push({ kind: 'table', rows });
+          rows = [];
+        }
+      }
+      continue;
+    }
+
+    switch (tag) {
+      case 'p':
+        if (!selfClosing) {
+          paragraph = { kind: 'paragraph', text: '', style: null, numId: null, level: null };
+        }
+        break;
+      case 'tbl':
+        tableDepth++;
+        break;
+      case 'tr':
+        if (tableDepth === 1) row = [];
+        break;
+      case 'tc':
+        if (tableDepth === 1) cellParagraphs = [];
+        break;
+      case 't':
+        if (!selfClosing) {
+          const end = xml.indexOf('</w:t>', TAG_PATTERN.lastIndex);
+          if (end === -1) break;
+          if (paragraph) paragraph.text += decodeXmlEntities(xml.slice(TAG_PATTERN.lastIndex, end));
+          TAG_PATTERN.lastIndex = end + '</w:t>'.length;
+        }
+        break;
+      case 'tab':
+        // Also used for tab stop definitions in paragraph properties, which have no text
+        if (paragraph && attribute(attributes, 'val') === null) paragraph.text += '\t';
+        break;
+      case 'br':
+      case 'cr':
+        if (paragraph) paragraph.text += ' ';
+        break;
+      // Symbol-font glyphs and legacy form checkboxes are almost always answer boxes
+      case 'sym':
+      case 'checkBox':
+        if (paragraph) paragraph.text += '☐ ';
+        break;
+      case 'pStyle':
+        if (paragraph) paragraph.style = attribute(attributes, 'val');
+        break;
+      case 'numId':
+        if (paragraph) paragraph.numId = attribute(attributes, 'val');
+        break;
+      case 'ilvl':
+        if (paragraph) paragraph.level = Number(attribute(attributes, 'val') ?? 0);
+        break;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Read the body of a .docx file
+ */
+export function readDocxBlocks(file: Buffer): DocxBlock[] {
+  const documentXml = readZipEntry(file, 'word/document.xml');
+  if (!documentXml) {
+    throw new Error('Not a Word document');
+  }
+
+  return parseDocumentXml(documentXml.toString('utf8'));
+}
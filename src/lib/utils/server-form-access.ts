@@ -0,0 +1,135 @@
+/**
+ * Server-side form access resolution
+ * Loads scheduling, response cap and password settings for a form and
+ * evaluates them against the current request (session + unlock cookie)
+ */
+
+import { cookies } from 'next/headers';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { createClient } from '@/utils/supabase/server';
+import { createAdminClient } from '@/utils/supabase/admin';
+import {
+  checkFormAccess,
+  toFormAccess,
+  type FormAccessCheck,
+  type FormAccessRow,
+} from './form-access';
+
+/**
+ * Name of the cookie that remembers a respondent unlocked a password-protected form
+ */
+export function getFormAccessCookieName(formId: string): string {
+  return `form_access_${formId}`;
+}
+
+let processSecret: string | null = null;
+
+function getFormAccessSecret(): string {
+  const secret = process.env.FORM_ACCESS_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (secret) {
+    return secret;
+  }
+
+  // Unlock cookies then only verify on the instance that issued them
+  if (!processSecret) {
+    console.warn('[Form Access] FORM_ACCESS_SECRET is not set; using a per-process secret');
+    processSecret = randomBytes(32).toString('hex');
+  }
+  return processSecret;
+}
+
+/**
+ * Create the unlock token stored in the form access cookie.
+ * Signed with a server-only secret so it can't be computed from the form;
+ * the password hash is part of the message, so changing the password
+ * invalidates old tokens.
+ */
+export function createFormAccessToken(formId: string, passwordHash: string): string {
+  return createHmac('sha256', getFormAccessSecret()).update(`${formId}.${passwordHash}`).digest('hex');
+}
+
+/**
+ * Verify an unlock token from the form access cookie
+ */
+export function verifyFormAccessToken(
+  token: string | undefined,
+  formId: string,
+  passwordHash: string
+): boolean {
+  if (!token) return false;
+
+  const expected = Buffer.from(createFormAccessToken(formId, passwordHash));
+  const actual = Buffer.from(token);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Password hash of a form. Clients can't select password_hash, so this
+ * needs the service role; without it password-protected forms stay locked.
+ */
+export async function getFormPasswordHash(formId: string): Promise<string | null> {
+  const admin = createAdminClient();
+  if (!admin) {
+    console.error('[Form Access] SUPABASE_SERVICE_ROLE_KEY is required to check form passwords');
+    return null;
+  }
+
+  const { data, error } = await admin.from('forms').select('password_hash').eq('id', formId).single();
+  if (error) {
+    console.error('[Form Access] Error loading password hash:', error);
+    return null;
+  }
+
+  return data?.password_hash ?? null;
+}
+
+/**
+ * Resolve whether the current request may access a form.
+ * Returns null when the form does not exist.
+ */
+export async function resolveFormAccess(formId: string): Promise<FormAccessCheck | null> {
+  const supabase = await createClient();
+
+  const { data: form, error } = await supabase
+    .from('forms')
+    .select('is_published, schedule_start, schedule_end, max_responses, has_password, require_login')
+    .eq('id', formId)
+    .single();
+
+  if (error || !form) {
+    return null;
+  }
+
+  const accessRow = form as FormAccessRow;
+
+  // Respondents cannot read other people's responses under RLS, so the
+  // completed count comes from a SECURITY DEFINER function
+  let currentResponses = 0;
+  if (accessRow.max_responses !== null) {
+    const { data: count, error: countError } = await supabase.rpc('count_completed_responses', {
+      form_uuid: formId,
+    });
+
+    if (countError) {
+      console.error('[resolveFormAccess] Error counting responses:', countError);
+    } else {
+      currentResponses = Number(count) || 0;
+    }
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+
+  let hasPassword = false;
+  if (accessRow.has_password) {
+    const cookieStore = await cookies();
+    const token = cookieStore.get(getFormAccessCookieName(formId))?.value;
+    const passwordHash = token ? await getFormPasswordHash(formId) : null;
+    hasPassword = !!passwordHash && verifyFormAccessToken(token, formId, passwordHash);
+  }
+
+  return checkFormAccess(toFormAccess(accessRow, currentResponses), {
+    hasPassword,
+    isLoggedIn: !!user,
+  });
+}
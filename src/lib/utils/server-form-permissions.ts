@@ -0,0 +1,127 @@
+/**
+ * Server-side form permission checks
+ * The single place dashboard actions, pages and API routes ask whether the
+ * signed-in user may do something with a form. Roles are resolved by the
+ * get_form_role database function, the same one the RLS policies use.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/utils/supabase/server';
+import type { FormRole } from '@/lib/types/workspace.types';
+import { isFormRole, roleHasPermission, type FormPermission } from './form-permissions';
+
+export type FormPermissionCheck =
+  | { allowed: true; userId: string; role: FormRole }
+  | {
+      allowed: false;
+      userId: string | null;
+      role: FormRole | null;
+      // Missing forms also report 'forbidden' so callers can't probe for ids
+      reason: 'unauthenticated' | 'forbidden';
+    };
+
+export type QuestionPermissionCheck =
+  | (Extract<FormPermissionCheck, { allowed: true }> & { formId: string })
+  | (Extract<FormPermissionCheck, { allowed: false }> & { formId: string | null });
+
+/**
+ * A user's role on a form, or null when they have none
+ * Uses the session client unless one is passed (API key requests have no session).
+ * The database only resolves another user's role for the service-role client.
+ */
+export async function getFormRole(
+  formId: string,
+  userId: string,
+  client?: SupabaseClient
+): Promise<FormRole | null> {
+  const supabase = client ?? await createClient();
+
+  const { data, error } = await supabase.rpc('get_form_role', {
+    form_uuid: formId,
+    user_uuid: userId,
+  });
+
+  if (error) {
+    console.error('[getFormRole] Error resolving form role:', error);
+    return null;
+  }
+
+  return isFormRole(data) ? data : null;
+}
+
+/**
+ * Check that the signed-in user has a permission on a form
+ */
+export async function checkFormPermission(
+  formId: string,
+  permission: FormPermission
+): Promise<FormPermissionCheck> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { allowed: false, userId: null, role: null, reason: 'unauthenticated' };
+  }
+
+  const role = await getFormRole(formId, user.id);
+
+  if (!roleHasPermission(role, permission)) {
+    return { allowed: false, userId: user.id, role, reason: 'forbidden' };
+  }
+
+  return { allowed: true, userId: user.id, role: role as FormRole };
+}
+
+/**
+ * Check that a given user has a permission on a form
+ * For callers that authenticate some other way than the session cookie.
+ */
+export async function checkUserFormPermission(
+  client: SupabaseClient,
+  formId: string,
+  userId: string,
+  permission: FormPermission
+): Promise<FormPermissionCheck> {
+  const role = await getFormRole(formId, userId, client);
+
+  if (!roleHasPermission(role, permission)) {
+    return { allowed: false, userId, role, reason: 'forbidden' };
+  }
+
+  return { allowed: true, userId, role: role as FormRole };
+}
+
+/**
+ * Check a permission on the form a question belongs to
+ */
+export async function checkQuestionPermission(
+  questionId: string,
+  permission: FormPermission
+): Promise<QuestionPermissionCheck> {
+  const supabase = await createClient();
+
+  const { data: question } = await supabase
+    .from('questions')
+    .select('form_id')
+    .eq('id', questionId)
+    .single();
+
+  if (!question) {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    return {
+      allowed: false,
+      userId: user?.id ?? null,
+      role: null,
+      reason: user ? 'forbidden' : 'unauthenticated',
+      formId: null,
+    };
+  }
+
+  const check = await checkFormPermission(question.form_id, permission);
+  return { ...check, formId: question.form_id };
+}
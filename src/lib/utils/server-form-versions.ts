@@ -0,0 +1,173 @@
+/**
+ * Server-side form version lookups
+ * Respondent-facing code (rendering, answer validation, submission) reads
+ * questions from the published snapshot, never from the draft tables.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getVersionQuestions, getVersionSections } from './form-versions';
+import type { FormSection, FormVersion } from '@/lib/types/form.types';
+import type { Question } from '@/lib/types/question.types';
+
+export interface FormStructure {
+  questions: Question[];
+  sections: FormSection[];
+}
+
+/**
+ * Load a version by id
+ */
+export async function getFormVersionById(
+  supabase: SupabaseClient,
+  versionId: string
+): Promise<FormVersion | null> {
+  const { data, error } = await supabase
+    .from('form_versions')
+    .select('*')
+    .eq('id', versionId)
+    .single();
+
+  if (error) {
+    console.error('[Form Versions] Error loading version:', error);
+    return null;
+  }
+
+  return data as FormVersion;
+}
+
+/**
+ * Load the version respondents of a form are served, or null when the form
+ * has never been published
+ */
+export async function getPublishedFormVersion(
+  supabase: SupabaseClient,
+  formId: string
+): Promise<FormVersion | null> {
+  const { data: form } = await supabase
+    .from('forms')
+    .select('published_version_id')
+    .eq('id', formId)
+    .single();
+
+  return form?.published_version_id ? getFormVersionById(supabase, form.published_version_id) : null;
+}
+
+/**
+ * Questions and sections a response is answered against: its version's
+ * snapshot, or the draft for responses recorded before versioning
+ */
+export async function getFormStructure(
+  supabase: SupabaseClient,
+  formId: string,
+  versionId: string | null
+): Promise<FormStructure | null> {
+  if (versionId) {
+    const version = await getFormVersionById(supabase, versionId);
+    return version
+      ? { questions: getVersionQuestions(version), sections: getVersionSections(version) }
+      : null;
+  }
+
+  const [{ data: questions, error: questionsError }, { data: sections, error: sectionsError }] =
+    await Promise.all([
+      supabase.from('questions').select('*').eq('form_id', formId).is('deleted_at', null),
+      supabase.from('form_sections').select('*').eq('form_id', formId).order('order_index', { ascending: true }),
+    ]);
+
+  if (questionsError || sectionsError) {
+    console.error('[Form Versions] Error loading draft structure:', questionsError || sectionsError);
+    return null;
+  }
+
+  return {
+    questions: (questions || []) as unknown as Question[],
+    sections: (sections || []) as FormSection[],
+  };
+}
+
+/**
+ * Questions a set of responses was answered against, for exports spanning
+ * several versions: the newest version's questions in order, followed by
+ * questions only earlier versions (or the pre-versioning draft) asked
+ */
+export async function getResponseQuestions(
+  supabase: SupabaseClient,
+  formId: string,
+  versionIds: Array<string | null>
+): Promise<Question[] | null> {
+  const distinctIds = Array.from(new Set(versionIds));
+  const versions = await Promise.all(
+    distinctIds.filter((id): id is string => id !== null).map((id) => getFormVersionById(supabase, id))
+  );
+
+  if (versions.some((version) => !version)) {
+    return null;
+  }
+
+  const questionLists = (versions as FormVersion[])
+    .sort((a, b) => b.version_number - a.version_number)
+    .map((version) => getVersionQuestions(version));
+
+  if (distinctIds.includes(null)) {
+    const draft = await getFormStructure(supabase, formId, null);
+    if (!draft) {
+      return null;
+    }
+    questionLists.push(draft.questions);
+  }
+
+  const questions = new Map<string, Question>();
+  questionLists.forEach((list) =>
+    [...list]
+      .sort((a, b) => a.order_index - b.order_index)
+      .forEach((question) => {
+        if (!questions.has(question.id)) {
+          questions.set(question.id, question);
+        }
+      })
+  );
+
+  return Array.from(questions.values());
+}
+
+/**
+ * Remove questions from a form's draft.
+ * Questions in the published version are only marked deleted, so respondents
+ * can keep answering them until the next publish and answers keep their
+ * question; the rest are deleted outright.
+ */
+export async function removeDraftQuestions(
+  supabase: SupabaseClient,
+  formId: string,
+  questionIds: string[]
+): Promise<{ error?: string }> {
+  if (questionIds.length === 0) {
+    return {};
+  }
+
+  const published = await getPublishedFormVersion(supabase, formId);
+  const publishedIds = new Set((published?.questions || []).map((q) => q.id));
+
+  const softDeleteIds = questionIds.filter((id) => publishedIds.has(id));
+  const hardDeleteIds = questionIds.filter((id) => !publishedIds.has(id));
+
+  const [softResult, hardResult] = await Promise.all([
+    softDeleteIds.length > 0
+      ? supabase
+          .from('questions')
+          .update({ deleted_at: new Date().toISOString() })
+          .in('id', softDeleteIds)
+      : { error: null },
+    hardDeleteIds.length > 0
+      ? supabase.from('questions').delete().in('id', hardDeleteIds)
+      : { error: null },
+  ]);
+
+  const error = softResult.error || hardResult.error;
+  if (error) {
+    console.error('[Form Versions] Error removing draft questions:', error);
+    return { error: 'Failed to delete question' };
+  }
+
+  return {};
+}
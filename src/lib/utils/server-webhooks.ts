@@ -0,0 +1,96 @@
+/**
+ * Webhook signing
+ * Every delivery carries an HMAC-SHA256 signature of `${timestamp}.${body}`
+ * keyed with the webhook's secret. Receivers recompute it to check the
+ * payload came from us and reject stale timestamps to stop replays.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { lookup } from 'dns/promises';
+import { getWebhookUrlError, isPrivateAddress } from './webhooks';
+
+export const WEBHOOK_HEADERS = {
+  EVENT: 'X-StatQ-Event',
+  DELIVERY: 'X-StatQ-Delivery',
+  TIMESTAMP: 'X-StatQ-Timestamp',
+  SIGNATURE: 'X-StatQ-Signature',
+} as const;
+
+/**
+ * Create a new signing secret
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Signature header value for a body sent at a unix timestamp (seconds)
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Check a received signature; the reference implementation for receivers
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string
+): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Headers for one delivery
+ */
+export function createWebhookHeaders(
+  secret: string,
+  event: string,
+  deliveryId: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'User-Agent': 'StatQ-Webhooks/1.0',
+    [WEBHOOK_HEADERS.EVENT]: event,
+    [WEBHOOK_HEADERS.DELIVERY]: deliveryId,
+    [WEBHOOK_HEADERS.TIMESTAMP]: String(timestamp),
+    [WEBHOOK_HEADERS.SIGNATURE]: signWebhookPayload(secret, timestamp, body),
+  };
+}
+
+/**
+ * A webhook URL the worker refuses to deliver to
+ */
+export class WebhookDestinationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookDestinationError';
+  }
+}
+
+/**
+ * Check a webhook URL right before delivering to it
+ * Repeats the checks made when the webhook was saved (the rules may have
+ * tightened since) and resolves the host, so a public name that now points at
+ * a private or local address is refused too.
+ */
+export async function assertWebhookDestination(url: string): Promise<void> {
+  const urlError = getWebhookUrlError(url, process.env.NODE_ENV === 'production');
+  if (urlError) {
+    throw new WebhookDestinationError(urlError);
+  }
+
+  const { hostname } = new URL(url);
+  const addresses = await lookup(hostname.replace(/^\[|\]$/g, ''), { all: true });
+
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new WebhookDestinationError(`Webhook host ${hostname} resolves to a private or local address`);
+  }
+}
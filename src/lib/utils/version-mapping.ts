@@ -0,0 +1,190 @@
+/**
+ * Answer mappings between form versions
+ * Responses are answered against the version published at the time. When a
+ * question or choice is deleted and added again its id changes, so answers
+ * from older versions no longer line up with the current questions. A mapping
+ * declares where each of a version's question and choice ids went; applying it
+ * rewrites answers onto the current questions so analytics can merge versions.
+ */
+
+import type { FormVersionMapping } from '@/lib/types/form.types';
+import type { Choice, Question } from '@/lib/types/question.types';
+import type { Answer, ResponseWithAnswers } from '@/lib/types/response.types';
+
+export type AnswerMapping = Pick<FormVersionMapping, 'question_map' | 'choice_map'>;
+
+function hasKey(record: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key);
+}
+
+function normalizeLabel(label: string | undefined): string {
+  return (label || '').trim().toLowerCase();
+}
+
+/**
+ * Choices of a multiple choice, checkboxes or dropdown question
+ */
+export function getQuestionChoices(question: Question): Choice[] {
+  return question.options && 'choices' in question.options && question.options.choices
+    ? question.options.choices
+    : [];
+}
+
+/**
+ * Match choices by id, then by label
+ */
+export function suggestChoiceMapping(from: Choice[], to: Choice[]): Record<string, string | null> {
+  const mapping: Record<string, string | null> = {};
+
+  for (const choice of from) {
+    const target =
+      to.find((c) => c.id === choice.id) ??
+      to.find((c) => normalizeLabel(c.label) === normalizeLabel(choice.label));
+    mapping[choice.id] = target?.id ?? null;
+  }
+
+  return mapping;
+}
+
+/**
+ * Match questions by id, then by type and title, and their choices likewise
+ */
+export function suggestAnswerMapping(from: Question[], to: Question[]): AnswerMapping {
+  const mapping: AnswerMapping = { question_map: {}, choice_map: {} };
+
+  for (const question of from) {
+    const target =
+      to.find((q) => q.id === question.id) ??
+      to.find((q) => q.type === question.type && normalizeLabel(q.title) === normalizeLabel(question.title));
+    mapping.question_map[question.id] = target?.id ?? null;
+
+    const choices = getQuestionChoices(question);
+    if (target && choices.length > 0) {
+      mapping.choice_map[question.id] = suggestChoiceMapping(choices, getQuestionChoices(target));
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * A version's mapping onto the current questions: what was declared, with
+ * suggestions for anything it doesn't cover (questions added since it was saved)
+ */
+export function resolveAnswerMapping(
+  from: Question[],
+  to: Question[],
+  declared?: AnswerMapping | null
+): AnswerMapping {
+  const suggested = suggestAnswerMapping(from, to);
+  if (!declared) {
+    return suggested;
+  }
+
+  const choiceMap = { ...suggested.choice_map };
+  for (const [questionId, choices] of Object.entries(declared.choice_map)) {
+    choiceMap[questionId] = { ...choiceMap[questionId], ...choices };
+  }
+
+  return {
+    question_map: { ...suggested.question_map, ...declared.question_map },
+    choice_map: choiceMap,
+  };
+}
+
+/**
+ * Rewrite the choice ids in an answer value.
+ * Ids the mapping doesn't mention (such as 'other') are kept; a single choice
+ * mapped to nothing leaves no answer (null).
+ */
+export function mapAnswerValue(value: unknown, choices: Record<string, string | null> | undefined): unknown {
+  if (!choices || typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const answer = value as Record<string, unknown>;
+  const mapChoice = (id: string) => (hasKey(choices, id) ? choices[id] : id);
+
+  if (typeof answer.choice_id === 'string') {
+    const choiceId = mapChoice(answer.choice_id);
+    return choiceId ? { ...answer, choice_id: choiceId } : null;
+  }
+
+  if (Array.isArray(answer.choice_ids)) {
+    const choiceIds = answer.choice_ids
+      .map((id) => (typeof id === 'string' ? mapChoice(id) : id))
+      .filter((id, index, ids) => id !== null && ids.indexOf(id) === index);
+    return { ...answer, choice_ids: choiceIds };
+  }
+
+  return value;
+}
+
+/**
+ * An answer moved onto the question and choices it maps to, or null when the
+ * mapping leaves it out
+ */
+export function applyAnswerMapping<T extends Answer>(answer: T, mapping: AnswerMapping): T | null {
+  const questionId = hasKey(mapping.question_map, answer.question_id)
+    ? mapping.question_map[answer.question_id]
+    : answer.question_id;
+  if (!questionId) {
+    return null;
+  }
+
+  const value = mapAnswerValue(answer.value ?? answer.value_json, mapping.choice_map[answer.question_id]);
+  if (value === null) {
+    return null;
+  }
+
+  return { ...answer, question_id: questionId, value, value_json: value };
+}
+
+/**
+ * Regroup answers by the question they map to.
+ * Answers from responses without a mapping (recorded before versioning, or on
+ * a version not in `mappings`) are kept as they are.
+ */
+export function mergeAnswersByQuestion(
+  answersByQuestion: Record<string, Answer[]>,
+  responseVersionIds: Map<string, string | null>,
+  mappings: Record<string, AnswerMapping>
+): Record<string, Answer[]> {
+  const merged: Record<string, Answer[]> = {};
+
+  for (const answers of Object.values(answersByQuestion)) {
+    for (const answer of answers) {
+      const versionId = responseVersionIds.get(answer.response_id);
+      const mapping = versionId ? mappings[versionId] : undefined;
+      const mapped = mapping ? applyAnswerMapping(answer, mapping) : answer;
+      if (!mapped) continue;
+
+      if (!merged[mapped.question_id]) {
+        merged[mapped.question_id] = [];
+      }
+      merged[mapped.question_id].push(mapped);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Apply each response's version mapping to its answers
+ */
+export function mergeResponseAnswers(
+  responses: ResponseWithAnswers[],
+  mappings: Record<string, AnswerMapping>
+): ResponseWithAnswers[] {
+  return responses.map((response) => {
+    const mapping = response.form_version_id ? mappings[response.form_version_id] : undefined;
+    if (!mapping) {
+      return response;
+    }
+
+    const answers = response.answers
+      .map((answer) => applyAnswerMapping(answer, mapping))
+      .filter((answer): answer is Answer => answer !== null);
+    return { ...response, answers };
+  });
+}
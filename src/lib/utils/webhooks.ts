@@ -0,0 +1,237 @@
+/**
+ * Webhook events and payloads
+ * Shared by the settings UI and the webhook worker; signing lives in
+ * server-webhooks.ts because it needs node:crypto
+ */
+
+import { formatAnswerValue } from './answer-format';
+import type { Question } from '@/lib/types/question.types';
+import type { Answer } from '@/lib/types/response.types';
+import type {
+  WebhookEvent,
+  WebhookPayload,
+  WebhookPayloadAnswer,
+  WebhookPayloadResponse,
+} from '@/lib/types/webhook.types';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'response.started',
+  'response.submitted',
+  'response.deleted',
+  'response.flagged',
+  'form.published',
+];
+
+export const WEBHOOK_EVENT_DESCRIPTIONS: Record<WebhookEvent, string> = {
+  'response.started': 'A respondent opened the form and a response was created',
+  'response.submitted': 'A response was completed and submitted',
+  'response.deleted': 'A response was moved to the trash',
+  'response.flagged': 'A response was flagged for review',
+  'form.published': 'The form was published',
+};
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === 'string' && (WEBHOOK_EVENTS as string[]).includes(value);
+}
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || parts.some((part) => !/^\d{1,3}$/.test(part))) {
+    return null;
+  }
+  const octets = parts.map(Number);
+  return octets.every((octet) => octet <= 255) ? octets : null;
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return (
+    a === 0 || // "this" network
+    a === 10 ||
+    a === 127 || // loopback
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, including cloud metadata endpoints
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    a >= 224 // multicast and reserved
+  );
+}
+
+/**
+ * Expand an IPv6 address into its eight 16-bit groups
+ */
+function parseIPv6(address: string): number[] | null {
+  let text = address.toLowerCase().split('%')[0];
+
+  // A trailing dotted IPv4 (::ffff:10.0.0.1) becomes two groups
+  const lastColon = text.lastIndexOf(':');
+  const ipv4 = text.includes('.') ? parseIPv4(text.slice(lastColon + 1)) : null;
+  if (text.includes('.')) {
+    if (!ipv4) return null;
+    text = `${text.slice(0, lastColon + 1)}${((ipv4[0] << 8) | ipv4[1]).toString(16)}:${((ipv4[2] << 8) | ipv4[3]).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if ((halves.length === 2 && missing < 1) || (halves.length === 1 && missing !== 0)) {
+    return null;
+  }
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/.test(group))) {
+    return null;
+  }
+  return groups.map((group) => parseInt(group, 16));
+}
+
+/**
+ * Whether an IP address is loopback, link-local, private or otherwise not on
+ * the public internet. Webhooks may not be delivered to these: the worker
+ * fetches from inside our network and logs what the receiver answers.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) {
+    return isPrivateIPv4(ipv4);
+  }
+
+  const groups = parseIPv6(address.replace(/^\[|\]$/g, ''));
+  if (!groups) {
+    return false;
+  }
+
+  const embeddedIPv4 = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff];
+  const leadingZeros = groups.slice(0, 5).every((group) => group === 0);
+
+  if (leadingZeros && (groups[5] === 0xffff || groups[5] === 0)) {
+    // IPv4-mapped (::ffff:a.b.c.d) and IPv4-compatible (::a.b.c.d); :: and
+    // ::1 land in 0.0.0.0/8
+    return isPrivateIPv4(embeddedIPv4);
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0)) {
+    return isPrivateIPv4(embeddedIPv4); // NAT64
+  }
+
+  return (
+    (groups[0] & 0xfe00) === 0xfc00 || // unique local
+    (groups[0] & 0xffc0) === 0xfe80 || // link-local
+    (groups[0] & 0xff00) === 0xff00 // multicast
+  );
+}
+
+/**
+ * Why a webhook URL is not allowed, or null when it is
+ * Checks what can be seen in the URL itself; the worker also resolves the
+ * host before every delivery (server-webhooks.ts).
+ */
+export function getWebhookUrlError(url: string, requireHttps: boolean): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Enter a valid URL';
+  }
+
+  if (parsed.protocol !== 'https:' && (requireHttps || parsed.protocol !== 'http:')) {
+    return requireHttps ? 'Webhook URLs must use https' : 'Webhook URLs must use http or https';
+  }
+
+  const hostname = parsed.hostname.toLowerCase();
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || isPrivateAddress(hostname)) {
+    return 'Webhook URLs must point to a public address';
+  }
+
+  return null;
+}
+
+/**
+ * Row shape the worker loads for response events
+ * (a ResponseWithAnswers plus the soft-delete and flag columns)
+ */
+export interface WebhookResponseRow {
+  id: string;
+  respondent_email?: string | null;
+  respondent_name?: string | null;
+  form_version_id?: string | null;
+  is_complete: boolean;
+  started_at: string;
+  submitted_at?: string | null;
+  deleted_at?: string | null;
+  is_flagged?: boolean | null;
+  flag_reason?: string | null;
+  answers: Pick<Answer, 'question_id' | 'value_json'>[];
+}
+
+/**
+ * Attach question titles to a response's answers, in form order
+ * Answers to questions that were since deleted are dropped.
+ */
+export function buildWebhookResponse(
+  response: WebhookResponseRow,
+  questions: Question[]
+): WebhookPayloadResponse {
+  const answersByQuestion = new Map(response.answers.map((answer) => [answer.question_id, answer.value_json]));
+
+  const answers: WebhookPayloadAnswer[] = [...questions]
+    .sort((a, b) => a.order_index - b.order_index)
+    .filter((question) => answersByQuestion.has(question.id))
+    .map((question) => {
+      const value = answersByQuestion.get(question.id);
+      return {
+        question_id: question.id,
+        question_title: question.title,
+        question_type: question.type,
+        value,
+        display_value: formatAnswerValue(value, question),
+      };
+    });
+
+  return {
+    id: response.id,
+    respondent_email: response.respondent_email ?? null,
+    respondent_name: response.respondent_name ?? null,
+    is_complete: response.is_complete,
+    started_at: response.started_at,
+    submitted_at: response.submitted_at ?? null,
+    deleted_at: response.deleted_at ?? null,
+    is_flagged: !!response.is_flagged,
+    flag_reason: response.flag_reason ?? null,
+    answers,
+  };
+}
+
+/**
+ * Build the body sent for an event
+ */
+export function buildWebhookPayload(
+  eventId: string,
+  event: WebhookEvent,
+  occurredAt: string,
+  form: { id: string; title: string },
+  questions: Question[],
+  response?: WebhookResponseRow | null
+): WebhookPayload {
+  const payload: WebhookPayload = {
+    id: eventId,
+    event,
+    created_at: occurredAt,
+    form: { id: form.id, title: form.title },
+  };
+
+  if (response) {
+    payload.response = buildWebhookResponse(response, questions);
+  }
+
+  if (event === 'form.published') {
+    payload.questions = [...questions]
+      .sort((a, b) => a.order_index - b.order_index)
+      .map((question) => ({ id: question.id, title: question.title, type: question.type }));
+  }
+
+  return payload;
+}
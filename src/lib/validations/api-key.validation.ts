@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import { API_KEY_SCOPES } from '@/lib/utils/api-keys';
+import type { ApiKeyScope } from '@/lib/types/api-key.types';
+
+const apiKeyScopeSchema = z.enum(API_KEY_SCOPES as [ApiKeyScope, ...ApiKeyScope[]]);
+
+export const apiKeyCreateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name is too long'),
+  scopes: z.array(apiKeyScopeSchema).min(1, 'Choose at least one scope'),
+  // Omitted for keys that never expire
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+});
+
+export type ApiKeyCreateInput = z.infer<typeof apiKeyCreateSchema>;
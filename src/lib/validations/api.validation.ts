@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+/**
+ * Request schemas for the /api/v1 REST API
+ * Also the source of the request parts of the OpenAPI document.
+ */
+
+export const apiListResponsesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20).describe('Page size'),
+  cursor: z.uuid('cursor must be a response id').optional().describe('next_cursor from the previous page'),
+  sort_by: z.enum(['created_at', 'submitted_at']).default('created_at'),
+  sort_order: z.enum(['asc', 'desc']).default('desc'),
+});
+
+export const apiCreateResponseSchema = z.object({
+  answers: z
+    .record(z.string(), z.record(z.string(), z.unknown()))
+    .describe('Answer values keyed by question id, in the shape the form renderer stores them'),
+  respondent_email: z.email('respondent_email must be an email address').optional(),
+  respondent_name: z.string().trim().max(200).optional(),
+});
+
+export const apiAnalyticsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30).describe('Days of daily trends to include'),
+});
+
+export type ApiListResponsesQuery = z.infer<typeof apiListResponsesQuerySchema>;
+export type ApiCreateResponseInput = z.infer<typeof apiCreateResponseSchema>;
+export type ApiAnalyticsQuery = z.infer<typeof apiAnalyticsQuerySchema>;
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+export const responseFiltersSchema = z
+  .object({
+    startDate: z.string().datetime({ offset: true }).optional(),
+    endDate: z.string().datetime({ offset: true }).optional(),
+    completeness: z.enum(['all', 'complete', 'incomplete']).optional(),
+    flagged: z.enum(['all', 'flagged', 'unflagged']).optional(),
+    deleted: z.enum(['include', 'exclude', 'only']).optional(),
+  })
+  .refine(
+    (data) => !data.startDate || !data.endDate || new Date(data.endDate) >= new Date(data.startDate),
+    { message: 'End date must be after start date', path: ['endDate'] }
+  );
+
+export const responseExportSchema = z.object({
+  format: z.enum(['csv', 'json', 'xlsx', 'pdf']),
+  filters: responseFiltersSchema.optional(),
+});
+
+export type ResponseExportInput = z.infer<typeof responseExportSchema>;
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+
+export const factorScoreSchema = z.object({
+  name: z.string().trim().min(1, 'Name the factor').max(100, 'Factor names are at most 100 characters'),
+  method: z.enum(['pca', 'paf']),
+  rotation: z.enum(['none', 'varimax', 'promax']),
+  items: z
+    .array(
+      z.object({
+        variable_id: z.string().min(1).max(201),
+        mean: z.number().finite(),
+        standard_deviation: z.number().finite().positive(),
+        weight: z.number().finite(),
+      })
+    )
+    .min(3, 'A factor needs at least 3 items')
+    .max(100)
+    .refine(
+      (items) => new Set(items.map((item) => item.variable_id)).size === items.length,
+      'Each item can only be used once'
+    ),
+});
+
+export type FactorScoreInput = z.infer<typeof factorScoreSchema>;
@@ -14,5 +14,34 @@ export const formUpdateSchema = z.object({
   display_mode: z.enum(['single', 'scroll']).optional(),
 });
 
+export const formAccessSettingsSchema = z
+  .object({
+    schedule_start: z.string().datetime({ offset: true }).nullable(),
+    schedule_end: z.string().datetime({ offset: true }).nullable(),
+    max_responses: z.number().int().min(1, 'Response limit must be at least 1').nullable(),
+    require_login: z.boolean(),
+    bot_protection: z.boolean(),
+    min_completion_seconds: z
+      .number()
+      .int()
+      .min(0, 'Minimum completion time cannot be negative')
+      .max(3600, 'Minimum completion time must be at most an hour'),
+    password: z.string().min(4, 'Password must be at least 4 characters').max(100, 'Password is too long').nullable().optional(),
+  })
+  .refine(
+    (data) =>
+      !data.schedule_start ||
+      !data.schedule_end ||
+      new Date(data.schedule_end) > new Date(data.schedule_start),
+    { message: 'Closing time must be after opening time', path: ['schedule_end'] }
+  );
+
+export const sectionUpdateSchema = z.object({
+  title: z.string().max(200, 'Section title is too long').optional(),
+  description: z.string().max(1000, 'Description is too long').nullable().optional(),
+});
+
 export type FormCreateInput = z.infer<typeof formCreateSchema>;
 export type FormUpdateInput = z.infer<typeof formUpdateSchema>;
+export type FormAccessSettingsInput = z.infer<typeof formAccessSettingsSchema>;
+export type SectionUpdateInput = z.infer<typeof sectionUpdateSchema>;
@@ -150,12 +150,73 @@ export const logicRuleSchema = z.object({
   targetQuestionIds: z.array(z.string()).min(1, 'At least one target question is required'),
 });
 
+// Advanced logic rule schema
+// Formulas are only length-checked here; updateQuestion validates them
+// against the source question types
+const conditionOperatorSchema = z.enum([
+  'equals',
+  'not_equals',
+  'contains',
+  'not_contains',
+  'greater_than',
+  'less_than',
+  'is_empty',
+  'is_not_empty',
+]);
+
+export const advancedLogicRuleSchema = z.object({
+  id: z.string(),
+  name: z.string().max(200).optional(),
+  enabled: z.boolean(),
+  conditionGroups: z.array(
+    z.object({
+      id: z.string(),
+      operator: z.enum(['AND', 'OR']),
+      conditions: z.array(
+        z.object({
+          id: z.string(),
+          sourceQuestionId: z.string(),
+          operator: conditionOperatorSchema,
+          value: z.unknown(),
+        })
+      ),
+    })
+  ),
+  groupOperator: z.enum(['AND', 'OR']),
+  action: z.enum(['show', 'hide', 'require', 'unrequire', 'set_value', 'calculate', 'jump_to_section']),
+  targetQuestionIds: z.array(z.string()),
+  setValue: z
+    .object({
+      type: z.literal('set_value'),
+      targetQuestionId: z.string(),
+      value: z.unknown(),
+      sourceQuestionId: z.string().optional(),
+    })
+    .optional(),
+  calculate: z
+    .object({
+      type: z.literal('calculate'),
+      targetQuestionId: z.string(),
+      formula: z.string().max(1000, 'Formula is too long'),
+      sourceQuestionIds: z.array(z.string()),
+    })
+    .optional(),
+  jumpToSection: z
+    .object({
+      type: z.literal('jump_to_section'),
+      targetSectionId: z.string(),
+    })
+    .optional(),
+  priority: z.number().optional(),
+});
+
 // Question create schema
 // NOTE: Union order matters! Schemas with REQUIRED fields must come first,
 // all-optional schemas come last (they match anything if not strict)
 export const questionCreateSchema = questionBaseSchema.extend({
   form_id: z.string().uuid(),
   order_index: z.number().int().nonnegative(),
+  section_id: z.string().uuid().nullable().optional(),
   options: z.union([
     choiceOptionsSchema,      // Has required 'choices' field
     linearScaleOptionsSchema, // Has required 'min' and 'max' fields
@@ -175,6 +236,7 @@ export const questionUpdateSchema = z.object({
   description: z.string().max(1000, 'Description is too long').optional(),
   required: z.boolean().optional(),
   order_index: z.number().int().nonnegative().optional(),
+  section_id: z.string().uuid().nullable().optional(),
   options: z.union([
     choiceOptionsSchema,      // Has required 'choices' field
     linearScaleOptionsSchema, // Has required 'min' and 'max' fields
@@ -184,8 +246,23 @@ export const questionUpdateSchema = z.object({
     dateTimeOptionsSchema,    // All optional (strict mode rejects unknown keys)
   ]).optional(),
   logic_rules: z.array(logicRuleSchema).optional(),
+  advanced_logic_rules: z.array(advancedLogicRuleSchema).optional(),
 });
 
+// Questions picked for a bulk operation
+export const bulkQuestionIdsSchema = z
+  .array(z.string().uuid('Invalid question id'))
+  .min(1, 'No questions selected');
+
+// Bulk update (only fields that are safe to set on many questions at once)
+export const bulkQuestionUpdateSchema = z.object({
+  required: z.boolean().optional(),
+  type: z.enum(['short_text', 'long_text', 'multiple_choice', 'dropdown']).optional(),
+}).refine(
+  (data) => data.required !== undefined || data.type !== undefined,
+  { message: 'Nothing to update' }
+);
+
 export type QuestionCreateInput = z.infer<typeof questionCreateSchema>;
 export type QuestionUpdateInput = z.infer<typeof questionUpdateSchema>;
 export type LogicRuleInput = z.infer<typeof logicRuleSchema>;
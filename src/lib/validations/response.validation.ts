@@ -0,0 +1,132 @@
+/**
+ * Response completeness validation
+ * Shared by the form renderer and submitResponse so both agree on which
+ * questions were visible and required for a given set of answers
+ */
+
+import type { Question } from '@/lib/types/question.types';
+import type { FormSection } from '@/lib/types/form.types';
+import type { AnswerValue, FormResponse } from '@/lib/types/response.types';
+import type { AdvancedLogicRule } from '@/lib/types/advanced-logic.types';
+import { evaluateLogic } from '@/lib/utils/logic-evaluator';
+import { evaluateAdvancedLogic, isConditionallyRequired } from '@/lib/utils/advanced-logic-evaluator';
+import { groupQuestionsIntoPages, resolveSectionPath } from '@/lib/utils/form-sections';
+
+export interface ResponseCompletenessResult {
+  valid: boolean;
+  errors: Record<string, string>; // questionId -> message
+  hiddenQuestionIds: string[];
+  calculatedAnswers: FormResponse; // Values from calculate rules for visible questions
+}
+
+/**
+ * Get the error message for a required question that has no usable answer,
+ * or null when the answer satisfies the requirement
+ */
+export function getRequiredAnswerError(question: Question, answer?: AnswerValue): string | null {
+  if (!answer) {
+    return 'This question is required';
+  }
+
+  switch (question.type) {
+    case 'short_text':
+    case 'long_text':
+      return !answer.text || answer.text.trim() === '' ? 'This question is required' : null;
+
+    case 'multiple_choice':
+    case 'dropdown':
+      return !answer.choice_id ? 'Please select an option' : null;
+
+    case 'checkboxes':
+      return !answer.choice_ids || answer.choice_ids.length === 0
+        ? 'Please select at least one option'
+        : null;
+
+    case 'linear_scale':
+      return answer.scale_value === undefined || answer.scale_value === null
+        ? 'Please select a value'
+        : null;
+
+    case 'date_time':
+      return !answer.date ? 'Please select a date' : null;
+
+    case 'matrix':
+      return !answer.matrix_values || Object.keys(answer.matrix_values).length === 0
+        ? 'Please answer all rows'
+        : null;
+
+    case 'file_upload':
+      return !answer.files || answer.files.length === 0 ? 'Please upload a file' : null;
+
+    case 'ranking':
+      return !answer.ranked_items || answer.ranked_items.length === 0
+        ? 'Please rank the items'
+        : null;
+
+    case 'slider':
+      return answer.slider_value === undefined || answer.slider_value === null
+        ? 'Please select a value'
+        : null;
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Re-run simple and advanced conditional logic against a set of answers and
+ * check that every visible, required question has been answered
+ */
+export function validateResponseCompleteness(
+  questions: Question[],
+  answers: FormResponse,
+  sections: FormSection[] = []
+): ResponseCompletenessResult {
+  const simpleRules = questions.flatMap((q) => q.logic_rules || []);
+  const hiddenFromSimple = evaluateLogic(simpleRules, answers, questions);
+
+  const advancedRules = questions.flatMap((q) =>
+    (q.advanced_logic_rules || []) as AdvancedLogicRule[]
+  );
+  const advancedResult = evaluateAdvancedLogic(advancedRules, answers, questions);
+
+  // Questions on sections skipped by jump_to_section rules count as hidden
+  const { skippedQuestionIds } = resolveSectionPath(
+    groupQuestionsIntoPages(questions, sections),
+    advancedResult.sectionJumps
+  );
+
+  const hiddenQuestionIds = new Set([
+    ...hiddenFromSimple,
+    ...advancedResult.hiddenQuestionIds,
+    ...skippedQuestionIds,
+  ]);
+  const errors: Record<string, string> = {};
+  const calculatedAnswers: FormResponse = {};
+
+  advancedResult.calculated.forEach((value, questionId) => {
+    if (!hiddenQuestionIds.has(questionId)) {
+      calculatedAnswers[questionId] = value;
+    }
+  });
+
+  questions.forEach((question) => {
+    if (hiddenQuestionIds.has(question.id)) return;
+    if (!isConditionallyRequired(question.id, advancedResult, question.required)) return;
+
+    const error = getRequiredAnswerError(
+      question,
+      calculatedAnswers[question.id] ?? answers[question.id]
+    );
+    if (error) {
+      errors[question.id] = error;
+    }
+  });
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+    hiddenQuestionIds: Array.from(hiddenQuestionIds),
+    calculatedAnswers,
+  };
+}
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+export const scaleSchema = z.object({
+  name: z.string().trim().min(1, 'Name the scale').max(100, 'Scale names are at most 100 characters'),
+  items: z
+    .array(
+      z.object({
+        variable_id: z.string().min(1).max(201),
+        reverse: z.boolean(),
+      })
+    )
+    .min(2, 'A scale needs at least 2 items')
+    .max(100)
+    .refine(
+      (items) => new Set(items.map((item) => item.variable_id)).size === items.length,
+      'Each item can only be used once'
+    ),
+  scoring: z.enum(['mean', 'sum']),
+});
+
+export type ScaleInput = z.infer<typeof scaleSchema>;
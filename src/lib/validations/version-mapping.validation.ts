@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+const idSchema = z.string().min(1).max(100);
+
+export const versionMappingSchema = z.object({
+  question_map: z.record(idSchema, idSchema.nullable()),
+  choice_map: z.record(idSchema, z.record(idSchema, idSchema.nullable())),
+});
+
+export type VersionMappingInput = z.infer<typeof versionMappingSchema>;
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { WEBHOOK_EVENTS, getWebhookUrlError } from '@/lib/utils/webhooks';
+import type { WebhookEvent } from '@/lib/types/webhook.types';
+
+const webhookEventSchema = z.enum(WEBHOOK_EVENTS as [WebhookEvent, ...WebhookEvent[]]);
+
+const webhookUrlSchema = z
+  .string()
+  .trim()
+  .url('Enter a valid URL')
+  .max(2000, 'URL is too long')
+  .superRefine((url, ctx) => {
+    // Plain http is only for trying webhooks out against a local receiver
+    const error = getWebhookUrlError(url, process.env.NODE_ENV === 'production');
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    }
+  });
+
+export const webhookCreateSchema = z.object({
+  url: webhookUrlSchema,
+  description: z.string().trim().max(200, 'Description is too long').optional(),
+  events: z.array(webhookEventSchema).min(1, 'Choose at least one event'),
+});
+
+export const webhookUpdateSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  description: z.string().trim().max(200, 'Description is too long').nullable().optional(),
+  events: z.array(webhookEventSchema).min(1, 'Choose at least one event').optional(),
+  is_active: z.boolean().optional(),
+});
+
+export type WebhookCreateInput = z.infer<typeof webhookCreateSchema>;
+export type WebhookUpdateInput = z.infer<typeof webhookUpdateSchema>;
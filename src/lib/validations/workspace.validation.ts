@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+export const workspaceNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Workspace name is required')
+  .max(100, 'Workspace name is too long');
+
+export const collaboratorInviteSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Enter a valid email address'),
+  role: z.enum(['editor', 'analyst', 'viewer']),
+});
+
+export const workspaceMemberInviteSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Enter a valid email address'),
+  role: z.enum(['owner', 'editor', 'analyst', 'viewer']),
+});
+
+export type CollaboratorInviteInput = z.infer<typeof collaboratorInviteSchema>;
+export type WorkspaceMemberInviteInput = z.infer<typeof workspaceMemberInviteSchema>;
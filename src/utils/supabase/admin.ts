@@ -0,0 +1,21 @@
+import { createClient as createSupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * Service-role client for trusted server-side work that has no user session
+ * (background jobs such as notification emails). Bypasses RLS — never expose to the browser.
+ * Returns null when SUPABASE_SERVICE_ROLE_KEY is not configured.
+ */
+export function createAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!serviceRoleKey) {
+    return null
+  }
+
+  return createSupabaseClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  })
+}
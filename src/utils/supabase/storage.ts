@@ -3,6 +3,7 @@
  * Handles file upload, deletion, and retrieval from Supabase Storage
  */
 
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { createClient as createServerClient } from './server';
 import { createClient as createBrowserClient } from './client';
 
@@ -108,17 +109,56 @@ export async function deleteFiles(filePaths: string[]): Promise<void> {
   }
 }
 
+/**
+ * Upload a generated export file (CSV/XLSX/JSON/PDF) to Supabase Storage
+ * @param content - File content
+ * @param userId - Owner of the form
+ * @param formId - Form ID
+ * @param fileName - File name (sanitized before use)
+ * @param contentType - MIME type of the file
+ * @param client - Supabase client to use (e.g. the service-role client in background jobs)
+ * @returns Path of the stored file
+ */
+export async function uploadExportFile(
+  content: Buffer | Uint8Array | string,
+  userId: string,
+  formId: string,
+  fileName: string,
+  contentType: string,
+  client?: SupabaseClient
+): Promise<string> {
+  const supabase = client ?? await createServerClient();
+
+  const sanitizedFileName = fileName.replace(/[^a-zA-Z0-9.-]/g, '_');
+  const filePath = `${userId}/${formId}/exports/${Date.now()}-${sanitizedFileName}`;
+
+  const { data, error } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .upload(filePath, content, {
+      contentType,
+      upsert: false,
+    });
+
+  if (error) {
+    throw new Error(`Failed to upload export: ${error.message}`);
+  }
+
+  return data.path;
+}
+
 /**
  * Get download URL for a file
  * @param filePath - Path to the file in storage
  * @param expiresIn - Expiration time in seconds (default: 1 hour)
+ * @param client - Supabase client to use (defaults to the request's server client)
  * @returns Signed URL for file download
  */
 export async function getFileDownloadUrl(
   filePath: string,
-  expiresIn: number = 3600
+  expiresIn: number = 3600,
+  client?: SupabaseClient
 ): Promise<string> {
-  const supabase = await createServerClient();
+  const supabase = client ?? await createServerClient();
 
   const { data, error } = await supabase.storage
     .from(STORAGE_BUCKET)
@@ -0,0 +1,26 @@
+-- Migration: Form access enforcement helpers
+-- Respondents cannot SELECT other people's responses under RLS, so response
+-- caps have to be counted through SECURITY DEFINER functions
+
+DROP FUNCTION IF EXISTS count_completed_responses(uuid);
+
+CREATE OR REPLACE FUNCTION count_completed_responses(form_uuid uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::integer
+  FROM responses
+  WHERE form_id = form_uuid
+    AND is_complete = TRUE;
+$$;
+
+GRANT EXECUTE ON FUNCTION count_completed_responses(uuid) TO anon, authenticated;
+
+COMMENT ON FUNCTION count_completed_responses IS 'Count completed responses for a form (used to enforce max_responses)';
+
+-- is_form_accepting_responses counts responses too; run it with definer rights
+ALTER FUNCTION is_form_accepting_responses(uuid) SECURITY DEFINER;
+ALTER FUNCTION get_form_status(uuid) SECURITY DEFINER;
@@ -0,0 +1,19 @@
+-- Migration: Allow discarding answers before submission
+-- submitResponse deletes answers to questions that conditional logic hid,
+-- so respondents need DELETE on answers of their own incomplete responses
+
+DROP POLICY IF EXISTS "Allow deleting answers for incomplete responses" ON answers;
+
+CREATE POLICY "Allow deleting answers for incomplete responses"
+  ON answers FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM responses
+      WHERE responses.id = answers.response_id
+      AND (responses.respondent_id IS NULL OR responses.respondent_id = auth.uid())
+      AND responses.is_complete = FALSE
+    )
+  );
+
+COMMENT ON POLICY "Allow deleting answers for incomplete responses" ON answers IS
+  'Allows discarding answers to hidden questions while a response is still incomplete';
@@ -0,0 +1,113 @@
+-- Migration: Persistent background job queue
+-- Jobs survive restarts and are shared by every app/worker process.
+-- Only the service role touches this table (RLS enabled, no policies).
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  queue TEXT NOT NULL,
+  name TEXT NOT NULL,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'waiting'
+    CHECK (status IN ('waiting', 'active', 'completed', 'failed')),
+  priority INTEGER NOT NULL DEFAULT 0,         -- Higher runs first
+  attempts INTEGER NOT NULL DEFAULT 0,         -- Attempts started so far
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  backoff_ms INTEGER NOT NULL DEFAULT 1000,    -- Base delay, doubled after each failed attempt
+  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),   -- Delayed/retried jobs wait until this time
+  locked_by TEXT,
+  locked_at TIMESTAMPTZ,                       -- Refreshed by the worker while the job runs
+  result JSONB,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ
+);
+
+-- Claiming: next runnable job per queue
+CREATE INDEX IF NOT EXISTS idx_jobs_claim
+  ON jobs(queue, priority DESC, run_at)
+  WHERE status = 'waiting';
+
+-- Stats and cleanup
+CREATE INDEX IF NOT EXISTS idx_jobs_queue_status ON jobs(queue, status, finished_at);
+
+-- Stalled job recovery
+CREATE INDEX IF NOT EXISTS idx_jobs_active_locked ON jobs(locked_at) WHERE status = 'active';
+
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
+
+-- Atomically claim the next runnable job of a queue
+-- SKIP LOCKED lets any number of workers poll the same queue
+CREATE OR REPLACE FUNCTION claim_next_job(queue_name TEXT, worker_id TEXT)
+RETURNS SETOF jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE jobs
+  SET status = 'active',
+      attempts = attempts + 1,
+      locked_by = worker_id,
+      locked_at = NOW(),
+      updated_at = NOW()
+  WHERE id = (
+    SELECT id FROM jobs
+    WHERE queue = queue_name
+      AND status = 'waiting'
+      AND run_at <= NOW()
+    ORDER BY priority DESC, run_at, created_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Put jobs whose worker died (no heartbeat for stalled_after_seconds) back in the queue,
+-- or fail them when they have used up their attempts
+CREATE OR REPLACE FUNCTION recover_stalled_jobs(stalled_after_seconds INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+  recovered_count INTEGER;
+BEGIN
+  WITH stalled AS (
+    UPDATE jobs
+    SET status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'waiting' END,
+        finished_at = CASE WHEN attempts >= max_attempts THEN NOW() ELSE NULL END,
+        last_error = 'Job stalled: worker stopped responding',
+        locked_by = NULL,
+        locked_at = NULL,
+        run_at = NOW(),
+        updated_at = NOW()
+    WHERE status = 'active'
+      AND locked_at < NOW() - make_interval(secs => stalled_after_seconds)
+    RETURNING id
+  )
+  SELECT COUNT(*) INTO recovered_count FROM stalled;
+
+  RETURN recovered_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Job counts per state for one queue (delayed = waiting but not yet runnable)
+CREATE OR REPLACE FUNCTION get_job_counts(queue_name TEXT)
+RETURNS TABLE (waiting BIGINT, delayed BIGINT, active BIGINT, completed BIGINT, failed BIGINT) AS $$
+  SELECT
+    COUNT(*) FILTER (WHERE status = 'waiting' AND run_at <= NOW()),
+    COUNT(*) FILTER (WHERE status = 'waiting' AND run_at > NOW()),
+    COUNT(*) FILTER (WHERE status = 'active'),
+    COUNT(*) FILTER (WHERE status = 'completed'),
+    COUNT(*) FILTER (WHERE status = 'failed')
+  FROM jobs
+  WHERE queue = queue_name;
+$$ LANGUAGE sql STABLE;
+
+REVOKE ALL ON FUNCTION claim_next_job(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION recover_stalled_jobs(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION get_job_counts(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_next_job(TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION recover_stalled_jobs(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION get_job_counts(TEXT) TO service_role;
+
+COMMENT ON TABLE jobs IS 'Persistent background job queue (see src/lib/jobs/postgres.ts)';
+COMMENT ON FUNCTION claim_next_job IS 'Claim the next runnable job of a queue for a worker';
+COMMENT ON FUNCTION recover_stalled_jobs IS 'Requeue or fail active jobs whose worker stopped sending heartbeats';
+COMMENT ON FUNCTION get_job_counts IS 'Count jobs of a queue by state';
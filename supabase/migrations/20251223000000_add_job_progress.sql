@@ -0,0 +1,11 @@
+-- Migration: Job progress
+-- Long-running jobs (e.g. response exports) report 0-100 progress for the job monitor
+
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS progress INTEGER NOT NULL DEFAULT 0
+  CHECK (progress BETWEEN 0 AND 100);
+
+-- Recent jobs per queue for the job monitor
+CREATE INDEX IF NOT EXISTS idx_jobs_queue_created ON jobs(queue, created_at DESC);
+
+COMMENT ON COLUMN jobs.progress IS 'Progress reported by the worker (0-100)';
@@ -0,0 +1,46 @@
+-- Migration: Form sections
+-- Groups questions into pages with a title and description. Forms without
+-- sections keep working as a single page of questions.
+
+CREATE TABLE IF NOT EXISTS form_sections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id UUID NOT NULL REFERENCES forms(id) ON DELETE CASCADE,
+  title TEXT NOT NULL DEFAULT '',
+  description TEXT,
+  order_index INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_form_sections_form_id ON form_sections(form_id, order_index);
+
+-- Questions without a section are shown before the first section
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS section_id UUID REFERENCES form_sections(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_questions_section_id ON questions(section_id);
+
+-- RLS Policies (same access as questions)
+ALTER TABLE form_sections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage sections on their forms"
+  ON form_sections FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM forms
+      WHERE forms.id = form_sections.form_id
+      AND forms.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Anyone can view sections for published forms"
+  ON form_sections FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM forms
+      WHERE forms.id = form_sections.form_id
+      AND forms.is_published = TRUE
+    )
+  );
+
+COMMENT ON TABLE form_sections IS 'Pages of a form; questions.section_id assigns questions to them';
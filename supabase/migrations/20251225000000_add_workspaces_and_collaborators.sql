@@ -0,0 +1,366 @@
+-- Migration: Workspaces and form collaborators
+-- Lets a team share forms without sharing a login. A user's role on a form is
+-- the highest of:
+--   * owner     - forms.user_id
+--   * a direct grant in form_collaborators
+--   * their role in the workspace the form belongs to
+-- Roles, highest first: owner > editor > analyst > viewer
+--   owner   - everything, including sharing, archiving and deleting the form
+--   editor  - edit questions, sections and settings; manage responses
+--   analyst - view individual responses, analytics and exports
+--   viewer  - view the form and its aggregate analytics
+-- Viewers could SELECT responses here; 20260106000000 limits that to analysts
+-- and gives viewers aggregate functions instead.
+
+-- ============================================================================
+-- Tables
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS workspaces (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  owner_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS workspace_members (
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'analyst', 'viewer')),
+  added_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON workspace_members(user_id);
+
+CREATE TABLE IF NOT EXISTS form_collaborators (
+  form_id UUID NOT NULL REFERENCES forms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('editor', 'analyst', 'viewer')),
+  added_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (form_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_form_collaborators_user_id ON form_collaborators(user_id);
+
+ALTER TABLE forms
+  ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_forms_workspace_id ON forms(workspace_id);
+
+-- ============================================================================
+-- Role resolution
+-- SECURITY DEFINER so policies on forms can consult collaborators and
+-- workspace members without recursing through their RLS policies
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION form_role_rank(role_name TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE role_name
+    WHEN 'owner' THEN 4
+    WHEN 'editor' THEN 3
+    WHEN 'analyst' THEN 2
+    WHEN 'viewer' THEN 1
+    ELSE 0
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_form_role(form_uuid UUID, user_uuid UUID DEFAULT auth.uid())
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role_name FROM (
+    SELECT 'owner' AS role_name
+    FROM forms
+    WHERE forms.id = form_uuid AND forms.user_id = user_uuid
+
+    UNION ALL
+
+    SELECT form_collaborators.role
+    FROM form_collaborators
+    WHERE form_collaborators.form_id = form_uuid AND form_collaborators.user_id = user_uuid
+
+    UNION ALL
+
+    SELECT workspace_members.role
+    FROM forms
+    JOIN workspace_members ON workspace_members.workspace_id = forms.workspace_id
+    WHERE forms.id = form_uuid AND workspace_members.user_id = user_uuid
+  ) roles
+  ORDER BY form_role_rank(role_name) DESC
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION has_form_role(form_uuid UUID, min_role TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT form_role_rank(get_form_role(form_uuid, auth.uid())) >= form_role_rank(min_role);
+$$;
+
+CREATE OR REPLACE FUNCTION get_workspace_role(workspace_uuid UUID, user_uuid UUID DEFAULT auth.uid())
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM workspace_members
+  WHERE workspace_id = workspace_uuid AND user_id = user_uuid;
+$$;
+
+-- Resolve a profile id from an email when sharing; profiles are otherwise
+-- only visible to their own user
+CREATE OR REPLACE FUNCTION find_profile_id_by_email(email_address TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM profiles WHERE lower(email) = lower(trim(email_address)) LIMIT 1;
+$$;
+
+-- Whether the current user and another user share a form or workspace.
+-- Used by the profiles policy; querying forms directly from that policy would
+-- recurse through the forms policy's admin check on profiles.
+CREATE OR REPLACE FUNCTION shares_form_or_workspace(other_user UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    -- Owner and collaborators of the same form, or two collaborators
+    SELECT 1
+    FROM form_collaborators grant_row
+    JOIN forms ON forms.id = grant_row.form_id
+    WHERE (grant_row.user_id = auth.uid() AND forms.user_id = other_user)
+       OR (grant_row.user_id = other_user AND forms.user_id = auth.uid())
+       OR (grant_row.user_id = auth.uid() AND EXISTS (
+            SELECT 1 FROM form_collaborators other_grant
+            WHERE other_grant.form_id = grant_row.form_id AND other_grant.user_id = other_user
+          ))
+  ) OR EXISTS (
+    SELECT 1
+    FROM workspace_members mine
+    JOIN workspace_members theirs ON theirs.workspace_id = mine.workspace_id
+    WHERE mine.user_id = auth.uid() AND theirs.user_id = other_user
+  );
+$$;
+
+-- Only owners may transfer a form or move it between workspaces
+CREATE OR REPLACE FUNCTION protect_form_ownership()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.user_id IS DISTINCT FROM OLD.user_id OR NEW.workspace_id IS DISTINCT FROM OLD.workspace_id)
+     AND auth.uid() IS NOT NULL
+     AND get_form_role(OLD.id, auth.uid()) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the form owner can change its owner or workspace';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_form_ownership ON forms;
+CREATE TRIGGER protect_form_ownership
+  BEFORE UPDATE ON forms
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_form_ownership();
+
+-- ============================================================================
+-- RLS: workspaces
+-- ============================================================================
+
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE form_collaborators ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their workspaces"
+  ON workspaces FOR SELECT
+  USING (owner_id = auth.uid() OR get_workspace_role(id) IS NOT NULL);
+
+CREATE POLICY "Users can create workspaces they own"
+  ON workspaces FOR INSERT
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Workspace owners can update workspaces"
+  ON workspaces FOR UPDATE
+  USING (get_workspace_role(id) = 'owner');
+
+CREATE POLICY "Workspace owners can delete workspaces"
+  ON workspaces FOR DELETE
+  USING (owner_id = auth.uid());
+
+CREATE POLICY "Members can view workspace members"
+  ON workspace_members FOR SELECT
+  USING (get_workspace_role(workspace_id) IS NOT NULL);
+
+-- The creator adds themselves as the first owner
+CREATE POLICY "Workspace owners can add members"
+  ON workspace_members FOR INSERT
+  WITH CHECK (
+    get_workspace_role(workspace_id) = 'owner'
+    OR (
+      user_id = auth.uid()
+      AND role = 'owner'
+      AND EXISTS (
+        SELECT 1 FROM workspaces
+        WHERE workspaces.id = workspace_members.workspace_id
+        AND workspaces.owner_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Workspace owners can update members"
+  ON workspace_members FOR UPDATE
+  USING (get_workspace_role(workspace_id) = 'owner');
+
+CREATE POLICY "Workspace owners can remove members, members can leave"
+  ON workspace_members FOR DELETE
+  USING (get_workspace_role(workspace_id) = 'owner' OR user_id = auth.uid());
+
+-- ============================================================================
+-- RLS: form collaborators
+-- ============================================================================
+
+CREATE POLICY "Collaborators can view who a form is shared with"
+  ON form_collaborators FOR SELECT
+  USING (has_form_role(form_id, 'viewer'));
+
+CREATE POLICY "Owners can share forms"
+  ON form_collaborators FOR INSERT
+  WITH CHECK (has_form_role(form_id, 'owner'));
+
+CREATE POLICY "Owners can change collaborator roles"
+  ON form_collaborators FOR UPDATE
+  USING (has_form_role(form_id, 'owner'));
+
+CREATE POLICY "Owners can remove collaborators, collaborators can leave"
+  ON form_collaborators FOR DELETE
+  USING (has_form_role(form_id, 'owner') OR user_id = auth.uid());
+
+-- ============================================================================
+-- RLS: replace owner-only policies with role checks
+-- ============================================================================
+
+-- Forms
+DROP POLICY IF EXISTS "Admins can view their own forms" ON forms;
+DROP POLICY IF EXISTS "Admins can update their own forms" ON forms;
+DROP POLICY IF EXISTS "Admins can delete their own forms" ON forms;
+
+CREATE POLICY "Collaborators can view forms"
+  ON forms FOR SELECT
+  USING (
+    auth.uid() = user_id
+    OR has_form_role(id, 'viewer')
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Editors can update forms"
+  ON forms FOR UPDATE
+  USING (has_form_role(id, 'editor'));
+
+CREATE POLICY "Owners can delete forms"
+  ON forms FOR DELETE
+  USING (has_form_role(id, 'owner'));
+
+-- Questions
+DROP POLICY IF EXISTS "Admins can manage questions on their forms" ON questions;
+
+CREATE POLICY "Editors can manage questions"
+  ON questions FOR ALL
+  USING (has_form_role(form_id, 'editor'));
+
+CREATE POLICY "Collaborators can view questions"
+  ON questions FOR SELECT
+  USING (has_form_role(form_id, 'viewer'));
+
+-- Sections
+DROP POLICY IF EXISTS "Owners can manage sections on their forms" ON form_sections;
+
+CREATE POLICY "Editors can manage sections"
+  ON form_sections FOR ALL
+  USING (has_form_role(form_id, 'editor'));
+
+CREATE POLICY "Collaborators can view sections"
+  ON form_sections FOR SELECT
+  USING (has_form_role(form_id, 'viewer'));
+
+-- Versions
+DROP POLICY IF EXISTS "Users can view their form versions" ON form_versions;
+DROP POLICY IF EXISTS "Users can create versions of their forms" ON form_versions;
+
+CREATE POLICY "Collaborators can view form versions"
+  ON form_versions FOR SELECT
+  USING (has_form_role(form_id, 'viewer'));
+
+CREATE POLICY "Editors can create form versions"
+  ON form_versions FOR INSERT
+  WITH CHECK (has_form_role(form_id, 'editor'));
+
+-- Responses
+DROP POLICY IF EXISTS "Users can view their own responses" ON responses;
+DROP POLICY IF EXISTS "Users can view their active form responses" ON responses;
+DROP POLICY IF EXISTS "Form owners can view all responses" ON responses;
+
+CREATE POLICY "Respondents and collaborators can view responses"
+  ON responses FOR SELECT
+  USING (
+    respondent_id = auth.uid()
+    OR has_form_role(form_id, 'viewer')
+  );
+
+CREATE POLICY "Editors can update responses"
+  ON responses FOR UPDATE
+  USING (has_form_role(form_id, 'editor'));
+
+CREATE POLICY "Editors can delete responses"
+  ON responses FOR DELETE
+  USING (has_form_role(form_id, 'editor'));
+
+-- Answers
+DROP POLICY IF EXISTS "Users can view answers to their responses" ON answers;
+
+CREATE POLICY "Respondents and collaborators can view answers"
+  ON answers FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM responses
+      WHERE responses.id = answers.response_id
+      AND (
+        responses.respondent_id = auth.uid()
+        OR has_form_role(responses.form_id, 'viewer')
+      )
+    )
+  );
+
+-- Profiles: let people who share a form or workspace see each other's email
+CREATE POLICY "Collaborators can view each other's profiles"
+  ON profiles FOR SELECT
+  USING (shares_form_or_workspace(id));
+
+COMMENT ON TABLE workspaces IS 'Teams that share forms; members get their workspace role on every form in it';
+COMMENT ON TABLE form_collaborators IS 'Per-form role grants (editor, analyst, viewer); the owner is forms.user_id';
+COMMENT ON FUNCTION get_form_role(UUID, UUID) IS 'Highest role a user has on a form (owner, editor, analyst, viewer) or NULL';
+COMMENT ON FUNCTION has_form_role(UUID, TEXT) IS 'Whether the current user has at least the given role on a form';
@@ -0,0 +1,64 @@
+-- Migration: Outbound webhooks
+-- Per-form subscriptions to response and form lifecycle events. Deliveries are
+-- sent by the webhook worker and logged so they can be inspected and replayed.
+
+CREATE TABLE IF NOT EXISTS webhooks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id UUID NOT NULL REFERENCES forms(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  description TEXT,
+  -- HMAC-SHA256 signing key, shown to editors so receivers can verify payloads
+  secret TEXT NOT NULL,
+  events TEXT[] NOT NULL CHECK (
+    cardinality(events) > 0
+    AND events <@ ARRAY[
+      'response.started',
+      'response.submitted',
+      'response.deleted',
+      'response.flagged',
+      'form.published'
+    ]::TEXT[]
+  ),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhooks_form_id ON webhooks(form_id);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  form_id UUID NOT NULL REFERENCES forms(id) ON DELETE CASCADE,
+  event TEXT NOT NULL,
+  -- The exact body that was signed and sent, so replays are byte-identical
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'success', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  response_status INTEGER,
+  response_body TEXT,
+  error TEXT,
+  duration_ms INTEGER,
+  replay_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_form_id ON webhook_deliveries(form_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id ON webhook_deliveries(webhook_id, created_at DESC);
+
+-- RLS: webhooks carry signing secrets and response data, so only editors see them.
+-- The worker normally uses the service-role client, which bypasses RLS.
+ALTER TABLE webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Editors can manage webhooks"
+  ON webhooks FOR ALL
+  USING (has_form_role(form_id, 'editor'))
+  WITH CHECK (has_form_role(form_id, 'editor'));
+
+CREATE POLICY "Editors can manage webhook deliveries"
+  ON webhook_deliveries FOR ALL
+  USING (has_form_role(form_id, 'editor'))
+  WITH CHECK (has_form_role(form_id, 'editor'));
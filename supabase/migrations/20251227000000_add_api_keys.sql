@@ -0,0 +1,48 @@
+-- Migration: Personal API keys
+-- Keys authenticate requests to the /api/v1 REST API as the user who created
+-- them. Only a SHA-256 hash of each key is stored; the plaintext is shown once.
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Leading characters of the key, so users can tell their keys apart
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL CHECK (
+    cardinality(scopes) > 0
+    AND scopes <@ ARRAY[
+      'forms:read',
+      'responses:read',
+      'responses:write',
+      'analytics:read'
+    ]::TEXT[]
+  ),
+  last_used_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON api_keys(user_id, created_at DESC);
+
+-- RLS: users manage their own keys. Requests are authenticated with the
+-- service-role client, which looks keys up by hash and bypasses RLS.
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own API keys"
+  ON api_keys FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own API keys"
+  ON api_keys FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own API keys"
+  ON api_keys FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own API keys"
+  ON api_keys FOR DELETE
+  USING (user_id = auth.uid());
@@ -0,0 +1,92 @@
+-- Migration: Rate limit counters
+-- Backs the Postgres rate limit store so limits hold across server instances.
+-- Each key keeps a counter per fixed window; consume_rate_limit weights the
+-- previous window's count by how much of it still overlaps the sliding window.
+
+CREATE TABLE IF NOT EXISTS rate_limit_windows (
+  key TEXT NOT NULL,
+  window_start TIMESTAMPTZ NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (key, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_windows_window_start ON rate_limit_windows(window_start);
+
+-- No policies: only the service role (and the function below) touch counters
+ALTER TABLE rate_limit_windows ENABLE ROW LEVEL SECURITY;
+
+-- Count one request against a key if it fits under the limit.
+-- Returns { allowed, remaining, reset } with reset in epoch milliseconds.
+CREATE OR REPLACE FUNCTION consume_rate_limit(p_key TEXT, p_limit INTEGER, p_window_ms BIGINT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_now_ms BIGINT := floor(extract(epoch FROM clock_timestamp()) * 1000);
+  v_current_start_ms BIGINT := v_now_ms - (v_now_ms % p_window_ms);
+  v_current_start TIMESTAMPTZ := to_timestamp(v_current_start_ms / 1000.0);
+  v_previous_start TIMESTAMPTZ := to_timestamp((v_current_start_ms - p_window_ms) / 1000.0);
+  v_elapsed DOUBLE PRECISION := (v_now_ms - v_current_start_ms)::DOUBLE PRECISION / p_window_ms;
+  v_current INTEGER;
+  v_previous INTEGER;
+  v_estimate DOUBLE PRECISION;
+BEGIN
+  INSERT INTO rate_limit_windows (key, window_start, count)
+  VALUES (p_key, v_current_start, 0)
+  ON CONFLICT (key, window_start) DO NOTHING;
+
+  -- Row lock serialises concurrent requests for the same key
+  SELECT count INTO v_current
+  FROM rate_limit_windows
+  WHERE key = p_key AND window_start = v_current_start
+  FOR UPDATE;
+
+  SELECT count INTO v_previous
+  FROM rate_limit_windows
+  WHERE key = p_key AND window_start = v_previous_start;
+
+  v_estimate := COALESCE(v_previous, 0) * (1 - v_elapsed) + v_current;
+
+  IF v_estimate + 1 > p_limit THEN
+    RETURN jsonb_build_object(
+      'allowed', FALSE,
+      'remaining', 0,
+      'reset', v_current_start_ms + p_window_ms
+    );
+  END IF;
+
+  UPDATE rate_limit_windows
+  SET count = count + 1
+  WHERE key = p_key AND window_start = v_current_start;
+
+  -- Windows older than the previous one no longer affect this key
+  DELETE FROM rate_limit_windows
+  WHERE key = p_key AND window_start < v_previous_start;
+
+  RETURN jsonb_build_object(
+    'allowed', TRUE,
+    'remaining', GREATEST(0, floor(p_limit - v_estimate - 1)),
+    'reset', v_current_start_ms + p_window_ms
+  );
+END;
+$$;
+
+-- Keys that stop sending requests leave their last windows behind
+CREATE OR REPLACE FUNCTION cleanup_rate_limit_windows()
+RETURNS INTEGER
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH deleted AS (
+    DELETE FROM rate_limit_windows
+    WHERE window_start < NOW() - INTERVAL '2 days'
+    RETURNING 1
+  )
+  SELECT COUNT(*)::INTEGER FROM deleted;
+$$;
+
+REVOKE ALL ON FUNCTION consume_rate_limit(TEXT, INTEGER, BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION cleanup_rate_limit_windows() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,12 @@
+-- Migration: Bot protection on public forms
+-- When enabled, submissions are checked against a honeypot field, a minimum
+-- time since the response was started and a proof-of-work challenge.
+-- Responses failing a check are still accepted but flagged for review.
+
+ALTER TABLE forms
+ADD COLUMN IF NOT EXISTS bot_protection BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS min_completion_seconds INTEGER NOT NULL DEFAULT 5
+  CHECK (min_completion_seconds >= 0);
+
+COMMENT ON COLUMN forms.bot_protection IS 'Whether submissions are checked for bot behaviour';
+COMMENT ON COLUMN forms.min_completion_seconds IS 'Responses submitted faster than this after starting are flagged (bot protection only)';
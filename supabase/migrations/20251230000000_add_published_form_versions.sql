@@ -0,0 +1,84 @@
+-- Migration: Draft/published separation
+-- The questions and form_sections tables are now the draft the builder edits.
+-- Respondents are served the form version forms.published_version_id points
+-- at, which only changes when changes are published, and every response
+-- records the version it was answered against.
+
+-- Sections are part of the snapshot (older versions have none)
+ALTER TABLE form_versions
+ADD COLUMN IF NOT EXISTS sections JSONB;
+
+ALTER TABLE forms
+ADD COLUMN IF NOT EXISTS published_version_id UUID REFERENCES form_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE responses
+ADD COLUMN IF NOT EXISTS form_version_id UUID REFERENCES form_versions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_responses_form_version_id ON responses(form_version_id);
+
+-- A question deleted from the draft while it is still published is only
+-- marked deleted: respondents can still answer it and answers keep their row
+ALTER TABLE questions
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_questions_active ON questions(form_id) WHERE deleted_at IS NULL;
+
+-- Publishing now snapshots the draft from the app; the old trigger keyed on a
+-- forms.status column that does not exist
+DROP TRIGGER IF EXISTS trigger_create_version_on_publish ON forms;
+DROP FUNCTION IF EXISTS create_version_on_publish();
+
+-- Respondents read published snapshots of published forms. Older published
+-- versions stay readable so a response started before a republish can finish.
+CREATE POLICY "Anyone can view published versions of published forms"
+  ON form_versions FOR SELECT
+  USING (
+    is_published = TRUE
+    AND form_id IN (SELECT id FROM forms WHERE is_published = TRUE)
+  );
+
+-- Snapshot every published form as it is now, so what respondents see doesn't change
+WITH snapshots AS (
+  INSERT INTO form_versions (
+    form_id,
+    version_number,
+    title,
+    description,
+    questions,
+    sections,
+    settings,
+    created_by,
+    change_summary,
+    is_published
+  )
+  SELECT
+    f.id,
+    COALESCE((SELECT MAX(v.version_number) + 1 FROM form_versions v WHERE v.form_id = f.id), 1),
+    f.title,
+    f.description,
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(q) ORDER BY q.order_index) FROM questions q WHERE q.form_id = f.id),
+      '[]'::jsonb
+    ),
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(s) ORDER BY s.order_index) FROM form_sections s WHERE s.form_id = f.id),
+      '[]'::jsonb
+    ),
+    jsonb_build_object('display_mode', f.display_mode),
+    f.user_id,
+    'Published version',
+    TRUE
+  FROM forms f
+  WHERE f.is_published = TRUE
+    AND f.published_version_id IS NULL
+  RETURNING id, form_id
+)
+UPDATE forms
+SET published_version_id = snapshots.id
+FROM snapshots
+WHERE forms.id = snapshots.form_id;
+
+COMMENT ON COLUMN forms.published_version_id IS 'Form version respondents are served';
+COMMENT ON COLUMN responses.form_version_id IS 'Form version the response was answered against';
+COMMENT ON COLUMN questions.deleted_at IS 'Set when deleted from the draft while still part of the published version';
+COMMENT ON COLUMN form_versions.sections IS 'Snapshot of the form sections at this version';
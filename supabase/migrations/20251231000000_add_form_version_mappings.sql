@@ -0,0 +1,33 @@
+-- Migration: Answer mappings between form versions
+-- Question and choice ids change when a question or choice is deleted and
+-- added again. A mapping declares how one version's ids correspond to the
+-- form's current questions, so analytics can merge responses across versions.
+
+CREATE TABLE IF NOT EXISTS form_version_mappings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id UUID NOT NULL REFERENCES forms(id) ON DELETE CASCADE,
+  version_id UUID NOT NULL UNIQUE REFERENCES form_versions(id) ON DELETE CASCADE,
+  -- { oldQuestionId: currentQuestionId | null }; null leaves the question out
+  question_map JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- { oldQuestionId: { oldChoiceId: currentChoiceId | null } }
+  choice_map JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_form_version_mappings_form_id ON form_version_mappings(form_id);
+
+-- RLS: anyone who sees the analytics sees merged results; analysts and up declare mappings
+ALTER TABLE form_version_mappings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Collaborators can view version mappings"
+  ON form_version_mappings FOR SELECT
+  USING (has_form_role(form_id, 'viewer'));
+
+CREATE POLICY "Analysts can manage version mappings"
+  ON form_version_mappings FOR ALL
+  USING (has_form_role(form_id, 'analyst'))
+  WITH CHECK (has_form_role(form_id, 'analyst'));
+
+COMMENT ON TABLE form_version_mappings IS 'How question and choice ids of a form version map to the current questions';
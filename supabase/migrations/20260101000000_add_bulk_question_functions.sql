@@ -0,0 +1,186 @@
+-- Migration: Transactional bulk question operations
+-- Bulk edits in the form builder change many questions at once; each function
+-- runs as one transaction so a failure leaves the form untouched. They run
+-- with the caller's rights, so the questions RLS policies still apply.
+
+-- Delete questions from the draft. Questions in the published version are only
+-- marked deleted (respondents still see them until the next publish); the rest
+-- are deleted outright. p_logic_updates carries the remaining questions' logic
+-- rules with references to the deleted questions removed:
+-- [{ id, logic_rules, advanced_logic_rules }]
+CREATE OR REPLACE FUNCTION bulk_delete_questions(
+  p_form_id UUID,
+  p_question_ids UUID[],
+  p_logic_updates JSONB DEFAULT '[]'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_published_ids UUID[];
+BEGIN
+  SELECT COALESCE(array_agg((q->>'id')::UUID), '{}')
+  INTO v_published_ids
+  FROM forms f
+  JOIN form_versions v ON v.id = f.published_version_id
+  CROSS JOIN LATERAL jsonb_array_elements(COALESCE(v.questions, '[]'::jsonb)) q
+  WHERE f.id = p_form_id;
+
+  UPDATE questions
+  SET deleted_at = NOW()
+  WHERE form_id = p_form_id
+    AND id = ANY(p_question_ids)
+    AND id = ANY(v_published_ids);
+
+  DELETE FROM questions
+  WHERE form_id = p_form_id
+    AND id = ANY(p_question_ids)
+    AND NOT (id = ANY(v_published_ids));
+
+  UPDATE questions q
+  SET logic_rules = u.logic_rules,
+      advanced_logic_rules = u.advanced_logic_rules,
+      updated_at = NOW()
+  FROM jsonb_to_recordset(p_logic_updates) AS u(id UUID, logic_rules JSONB, advanced_logic_rules JSONB)
+  WHERE q.id = u.id
+    AND q.form_id = p_form_id;
+
+  -- Close the gaps left in order_index
+  WITH ordered AS (
+    SELECT id, (ROW_NUMBER() OVER (ORDER BY order_index, created_at) - 1)::INTEGER AS position
+    FROM questions
+    WHERE form_id = p_form_id AND deleted_at IS NULL
+  )
+  UPDATE questions q
+  SET order_index = ordered.position
+  FROM ordered
+  WHERE q.id = ordered.id
+    AND q.order_index <> ordered.position;
+END;
+$$;
+
+-- Copy questions to the end of the form (each stays in its section)
+CREATE OR REPLACE FUNCTION bulk_duplicate_questions(p_form_id UUID, p_question_ids UUID[])
+RETURNS SETOF questions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO v_count
+  FROM questions
+  WHERE form_id = p_form_id AND deleted_at IS NULL;
+
+  RETURN QUERY
+  INSERT INTO questions (form_id, type, title, description, options, logic_rules, required, section_id, order_index)
+  SELECT
+    form_id,
+    type,
+    title || ' (Copy)',
+    description,
+    options,
+    logic_rules,
+    required,
+    section_id,
+    v_count + (ROW_NUMBER() OVER (ORDER BY order_index))::INTEGER - 1
+  FROM questions
+  WHERE form_id = p_form_id
+    AND id = ANY(p_question_ids)
+    AND deleted_at IS NULL
+  RETURNING *;
+END;
+$$;
+
+-- Set required and/or change the type of questions (NULL leaves a field as is).
+-- The app only changes types between ones whose answers have the same shape;
+-- options the new type doesn't take are dropped.
+CREATE OR REPLACE FUNCTION bulk_update_questions(
+  p_form_id UUID,
+  p_question_ids UUID[],
+  p_required BOOLEAN DEFAULT NULL,
+  p_type TEXT DEFAULT NULL
+)
+RETURNS SETOF questions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE questions
+  SET required = COALESCE(p_required, required),
+      type = COALESCE(p_type, type),
+      options = CASE
+        WHEN p_type = 'short_text' THEN options - 'rows'
+        WHEN p_type = 'long_text' THEN options - 'validation'
+        ELSE options
+      END,
+      updated_at = NOW()
+  WHERE form_id = p_form_id
+    AND id = ANY(p_question_ids)
+    AND deleted_at IS NULL
+  RETURNING *;
+END;
+$$;
+
+-- Put a form's questions in the given order, moving some between sections.
+-- p_question_ids must list every question in the draft;
+-- p_section_assignments is { questionId: sectionId | null }.
+CREATE OR REPLACE FUNCTION bulk_move_questions(
+  p_form_id UUID,
+  p_question_ids UUID[],
+  p_section_assignments JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO v_count
+  FROM questions
+  WHERE form_id = p_form_id AND deleted_at IS NULL;
+
+  IF v_count <> cardinality(p_question_ids)
+    OR EXISTS (
+      SELECT 1 FROM questions
+      WHERE form_id = p_form_id AND deleted_at IS NULL AND NOT (id = ANY(p_question_ids))
+    ) THEN
+    RAISE EXCEPTION 'Question order must include every question of the form';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_each_text(p_section_assignments) a
+    WHERE a.value IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM form_sections s WHERE s.id = a.value::UUID AND s.form_id = p_form_id
+      )
+  ) THEN
+    RAISE EXCEPTION 'Section not found';
+  END IF;
+
+  UPDATE questions q
+  SET order_index = ordered.position - 1,
+      section_id = CASE
+        WHEN p_section_assignments ? q.id::TEXT THEN (p_section_assignments->>q.id::TEXT)::UUID
+        ELSE q.section_id
+      END,
+      updated_at = NOW()
+  FROM unnest(p_question_ids) WITH ORDINALITY AS ordered(id, position)
+  WHERE q.id = ordered.id
+    AND q.form_id = p_form_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION bulk_delete_questions(UUID, UUID[], JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION bulk_duplicate_questions(UUID, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION bulk_update_questions(UUID, UUID[], BOOLEAN, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION bulk_move_questions(UUID, UUID[], JSONB) TO authenticated;
+
+COMMENT ON FUNCTION bulk_delete_questions IS 'Delete questions from a draft, clean up logic rules and renumber, in one transaction';
+COMMENT ON FUNCTION bulk_duplicate_questions IS 'Copy questions to the end of a form in one transaction';
+COMMENT ON FUNCTION bulk_update_questions IS 'Set required or change the type of several questions in one transaction';
+COMMENT ON FUNCTION bulk_move_questions IS 'Reorder a form''s questions and move them between sections in one transaction';
@@ -0,0 +1,34 @@
+-- Migration: Scales (composite indices)
+-- A scale combines several linear scale, slider or matrix-row items, some of
+-- them reverse-coded, into one score per respondent. Analytics checks the
+-- scale's reliability and offers the score as a computed variable in
+-- cross-tabulation, correlation and exports.
+
+CREATE TABLE IF NOT EXISTS form_scales (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id UUID NOT NULL REFERENCES forms(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- [{ "variable_id": questionId | "questionId:rowId", "reverse": boolean }]
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  scoring TEXT NOT NULL DEFAULT 'mean' CHECK (scoring IN ('mean', 'sum')),
+  updated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (form_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_form_scales_form_id ON form_scales(form_id);
+
+-- RLS: anyone who sees the analytics sees the scales; analysts and up define them
+ALTER TABLE form_scales ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Collaborators can view scales"
+  ON form_scales FOR SELECT
+  USING (has_form_role(form_id, 'viewer'));
+
+CREATE POLICY "Analysts can manage scales"
+  ON form_scales FOR ALL
+  USING (has_form_role(form_id, 'analyst'))
+  WITH CHECK (has_form_role(form_id, 'analyst'));
+
+COMMENT ON TABLE form_scales IS 'Composite scores built from several items of a form, used as computed analytics variables';
@@ -0,0 +1,36 @@
+-- Migration: Factor scores
+-- Saving a factor from an exploratory factor analysis (or PCA) keeps the
+-- item means, standard deviations and score weights, so every respondent who
+-- answered the items, including later ones, gets a score. Analytics offers
+-- the scores as computed variables and exports add them as columns.
+
+CREATE TABLE IF NOT EXISTS form_factor_scores (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id UUID NOT NULL REFERENCES forms(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  method TEXT NOT NULL CHECK (method IN ('pca', 'paf')),
+  rotation TEXT NOT NULL CHECK (rotation IN ('none', 'varimax', 'promax')),
+  -- [{ "variable_id": questionId | "questionId:rowId", "mean": number,
+  --    "standard_deviation": number, "weight": number }]
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  updated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (form_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_form_factor_scores_form_id ON form_factor_scores(form_id);
+
+-- RLS: anyone who sees the analytics sees the factor scores; analysts and up save them
+ALTER TABLE form_factor_scores ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Collaborators can view factor scores"
+  ON form_factor_scores FOR SELECT
+  USING (has_form_role(form_id, 'viewer'));
+
+CREATE POLICY "Analysts can manage factor scores"
+  ON form_factor_scores FOR ALL
+  USING (has_form_role(form_id, 'analyst'))
+  WITH CHECK (has_form_role(form_id, 'analyst'));
+
+COMMENT ON TABLE form_factor_scores IS 'Scoring weights of saved factors, used as computed analytics variables';
@@ -0,0 +1,32 @@
+-- Migration: Keep form password hashes server-side
+-- "Anyone can view published forms" lets anon (and any signed-in user) read
+-- every column of a published form, password_hash included, which allows
+-- offline guessing of the password. Column privileges now leave
+-- password_hash out for anon and authenticated; the app reads it only with
+-- the service role, and everyone else sees the derived has_password column.
+-- Editors still set and clear the password: UPDATE privileges are unchanged.
+
+ALTER TABLE forms
+  ADD COLUMN IF NOT EXISTS has_password BOOLEAN GENERATED ALWAYS AS (password_hash IS NOT NULL) STORED;
+
+COMMENT ON COLUMN forms.has_password IS 'Whether the form is password-protected (password_hash itself is not selectable by clients)';
+
+-- A table-wide SELECT grant covers every column, so replace it with a grant
+-- on each column except password_hash. Columns added later need their own
+-- GRANT SELECT (column) ON forms TO anon, authenticated.
+REVOKE SELECT ON forms FROM anon, authenticated;
+
+DO $$
+DECLARE
+  selectable TEXT;
+BEGIN
+  SELECT string_agg(quote_ident(column_name), ', ' ORDER BY ordinal_position)
+  INTO selectable
+  FROM information_schema.columns
+  WHERE table_schema = 'public'
+    AND table_name = 'forms'
+    AND column_name <> 'password_hash';
+
+  EXECUTE format('GRANT SELECT (%s) ON forms TO anon, authenticated', selectable);
+END;
+$$;
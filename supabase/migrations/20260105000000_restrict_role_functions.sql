@@ -0,0 +1,119 @@
+-- Migration: Restrict the role resolution functions
+-- The SECURITY DEFINER helpers from the workspaces migration were executable
+-- by PUBLIC, so anon could call them over RPC: get_form_role and
+-- get_workspace_role answered for any user id passed in, and
+-- find_profile_id_by_email turned any email into a profile id.
+--   * get_form_role / get_workspace_role now only answer for the caller
+--     (auth.uid()); the service role may still ask about any user, which the
+--     API-key routes and background workers rely on
+--   * EXECUTE is limited to authenticated and service_role
+--   * policies that call these functions apply to authenticated only, so anon
+--     queries never evaluate them (they could never match a NULL auth.uid())
+
+-- ============================================================================
+-- Role resolution: only for the caller
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_form_role(form_uuid UUID, user_uuid UUID DEFAULT auth.uid())
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role_name FROM (
+    SELECT 'owner' AS role_name
+    FROM forms
+    WHERE forms.id = form_uuid AND forms.user_id = user_uuid
+
+    UNION ALL
+
+    SELECT form_collaborators.role
+    FROM form_collaborators
+    WHERE form_collaborators.form_id = form_uuid AND form_collaborators.user_id = user_uuid
+
+    UNION ALL
+
+    SELECT workspace_members.role
+    FROM forms
+    JOIN workspace_members ON workspace_members.workspace_id = forms.workspace_id
+    WHERE forms.id = form_uuid AND workspace_members.user_id = user_uuid
+  ) roles
+  WHERE user_uuid = auth.uid() OR auth.role() = 'service_role'
+  ORDER BY form_role_rank(role_name) DESC
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION get_workspace_role(workspace_uuid UUID, user_uuid UUID DEFAULT auth.uid())
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM workspace_members
+  WHERE workspace_id = workspace_uuid
+    AND user_id = user_uuid
+    AND (user_uuid = auth.uid() OR auth.role() = 'service_role');
+$$;
+
+-- ============================================================================
+-- EXECUTE privileges
+-- ============================================================================
+
+REVOKE ALL ON FUNCTION get_form_role(UUID, UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION has_form_role(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION get_workspace_role(UUID, UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION find_profile_id_by_email(TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION shares_form_or_workspace(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_form_role(UUID, UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION has_form_role(UUID, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_workspace_role(UUID, UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION find_profile_id_by_email(TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION shares_form_or_workspace(UUID) TO authenticated, service_role;
+
+-- ============================================================================
+-- Policies that call them: authenticated only
+-- anon keeps its own policies (published forms, sections and versions)
+-- ============================================================================
+
+ALTER POLICY "Members can view their workspaces" ON workspaces TO authenticated;
+ALTER POLICY "Workspace owners can update workspaces" ON workspaces TO authenticated;
+ALTER POLICY "Members can view workspace members" ON workspace_members TO authenticated;
+ALTER POLICY "Workspace owners can add members" ON workspace_members TO authenticated;
+ALTER POLICY "Workspace owners can update members" ON workspace_members TO authenticated;
+ALTER POLICY "Workspace owners can remove members, members can leave" ON workspace_members TO authenticated;
+
+ALTER POLICY "Collaborators can view who a form is shared with" ON form_collaborators TO authenticated;
+ALTER POLICY "Owners can share forms" ON form_collaborators TO authenticated;
+ALTER POLICY "Owners can change collaborator roles" ON form_collaborators TO authenticated;
+ALTER POLICY "Owners can remove collaborators, collaborators can leave" ON form_collaborators TO authenticated;
+
+ALTER POLICY "Collaborators can view forms" ON forms TO authenticated;
+ALTER POLICY "Editors can update forms" ON forms TO authenticated;
+ALTER POLICY "Owners can delete forms" ON forms TO authenticated;
+
+ALTER POLICY "Editors can manage questions" ON questions TO authenticated;
+ALTER POLICY "Collaborators can view questions" ON questions TO authenticated;
+ALTER POLICY "Editors can manage sections" ON form_sections TO authenticated;
+ALTER POLICY "Collaborators can view sections" ON form_sections TO authenticated;
+ALTER POLICY "Collaborators can view form versions" ON form_versions TO authenticated;
+ALTER POLICY "Editors can create form versions" ON form_versions TO authenticated;
+
+ALTER POLICY "Respondents and collaborators can view responses" ON responses TO authenticated;
+ALTER POLICY "Editors can update responses" ON responses TO authenticated;
+ALTER POLICY "Editors can delete responses" ON responses TO authenticated;
+ALTER POLICY "Respondents and collaborators can view answers" ON answers TO authenticated;
+
+ALTER POLICY "Collaborators can view each other's profiles" ON profiles TO authenticated;
+
+ALTER POLICY "Editors can manage webhooks" ON webhooks TO authenticated;
+ALTER POLICY "Editors can manage webhook deliveries" ON webhook_deliveries TO authenticated;
+ALTER POLICY "Collaborators can view version mappings" ON form_version_mappings TO authenticated;
+ALTER POLICY "Analysts can manage version mappings" ON form_version_mappings TO authenticated;
+ALTER POLICY "Collaborators can view scales" ON form_scales TO authenticated;
+ALTER POLICY "Analysts can manage scales" ON form_scales TO authenticated;
+ALTER POLICY "Collaborators can view factor scores" ON form_factor_scores TO authenticated;
+ALTER POLICY "Analysts can manage factor scores" ON form_factor_scores TO authenticated;
+
+COMMENT ON FUNCTION get_form_role(UUID, UUID) IS 'Highest role a user has on a form (owner, editor, analyst, viewer) or NULL; only the caller''s own role unless called by the service role';
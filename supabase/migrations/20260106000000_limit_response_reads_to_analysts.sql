@@ -0,0 +1,97 @@
+-- Migration: Individual responses are for analysts and above
+-- Viewers are meant to see aggregate analytics only, but the responses and
+-- answers SELECT policies admitted them, so a viewer could read every
+-- individual response straight from the API. The policies now require the
+-- analyst role, and viewers get their numbers from two aggregate functions
+-- instead:
+--   * get_form_answer_counts    - how often each answer value was given, per
+--                                 question (free text and uploads excluded)
+--   * get_form_response_summary - response counts and completion times per day
+
+-- ============================================================================
+-- Policies
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Respondents and collaborators can view responses" ON responses;
+
+CREATE POLICY "Respondents and collaborators can view responses"
+  ON responses FOR SELECT
+  TO authenticated
+  USING (
+    respondent_id = auth.uid()
+    OR has_form_role(form_id, 'analyst')
+  );
+
+DROP POLICY IF EXISTS "Respondents and collaborators can view answers" ON answers;
+
+CREATE POLICY "Respondents and collaborators can view answers"
+  ON answers FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM responses
+      WHERE responses.id = answers.response_id
+      AND (
+        responses.respondent_id = auth.uid()
+        OR has_form_role(responses.form_id, 'analyst')
+      )
+    )
+  );
+
+-- ============================================================================
+-- Aggregates for viewers
+-- SECURITY DEFINER to read past the policies above; both return nothing unless
+-- the caller has at least the viewer role on the form
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_form_answer_counts(form_uuid UUID)
+RETURNS TABLE (question_id UUID, value_json JSONB, answer_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT answers.question_id, answers.value_json::jsonb, COUNT(*)
+  FROM answers
+  JOIN responses ON responses.id = answers.response_id
+  JOIN questions ON questions.id = answers.question_id
+  WHERE responses.form_id = form_uuid
+    AND responses.is_complete = TRUE
+    AND responses.deleted_at IS NULL
+    AND questions.type NOT IN ('short_text', 'long_text', 'file_upload')
+    AND has_form_role(form_uuid, 'viewer')
+  GROUP BY answers.question_id, answers.value_json::jsonb;
+$$;
+
+CREATE OR REPLACE FUNCTION get_form_response_summary(form_uuid UUID)
+RETURNS TABLE (
+  response_date DATE,
+  total_responses BIGINT,
+  completed_responses BIGINT,
+  avg_completion_seconds DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(submitted_at, started_at)::date,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE is_complete = TRUE),
+    AVG(EXTRACT(EPOCH FROM (submitted_at - started_at))) FILTER (WHERE is_complete = TRUE AND submitted_at IS NOT NULL)
+  FROM responses
+  WHERE form_id = form_uuid
+    AND deleted_at IS NULL
+    AND has_form_role(form_uuid, 'viewer')
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+REVOKE ALL ON FUNCTION get_form_answer_counts(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION get_form_response_summary(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_form_answer_counts(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_form_response_summary(UUID) TO authenticated;
+
+COMMENT ON FUNCTION get_form_answer_counts(UUID) IS 'How often each answer value was given per question, for collaborators without access to individual responses';
+COMMENT ON FUNCTION get_form_response_summary(UUID) IS 'Daily response counts and average completion time, for collaborators without access to individual responses';